@@ -0,0 +1,65 @@
+jest.mock('../config/firebase', () => ({ db: {}, auth: {} }));
+
+const {
+  sanitizeForExport,
+  signArchive,
+  verifyArchive,
+  USER_COLLECTIONS
+} = require('../services/accountDataService');
+
+describe('accountDataService', () => {
+  describe('sanitizeForExport', () => {
+    it('should redact credentials at any depth', () => {
+      const result = sanitizeForExport({
+        institutionName: 'Chase',
+        accessToken: { encrypted: 'abc', iv: 'def', tag: 'ghi' },
+        settings: { webhook: { secret: 'shh' } },
+        hashedPassword: '$2b$12$hash'
+      });
+
+      expect(result.institutionName).toBe('Chase');
+      expect(result.accessToken).toBe('[REDACTED]');
+      expect(result.settings.webhook.secret).toBe('[REDACTED]');
+      expect(result.hashedPassword).toBe('[REDACTED]');
+    });
+
+    it('should mask account numbers to their last four digits', () => {
+      const result = sanitizeForExport({ accounts: [{ accountNumber: '123456789', name: 'Checking' }] });
+
+      expect(result.accounts[0].accountNumber).toBe('*****6789');
+      expect(result.accounts[0].name).toBe('Checking');
+    });
+
+    it('should convert dates and Firestore timestamps to ISO strings', () => {
+      const timestamp = { toDate: () => new Date('2024-03-01T12:00:00Z') };
+      const result = sanitizeForExport({ createdAt: new Date('2024-01-01T00:00:00Z'), updatedAt: timestamp });
+
+      expect(result.createdAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(result.updatedAt).toBe('2024-03-01T12:00:00.000Z');
+    });
+  });
+
+  describe('archive signatures', () => {
+    it('should verify an untouched archive and reject a modified one', () => {
+      const archive = Buffer.from('{"format":"flourish-funds-export"}');
+      const signature = signArchive(archive, 'test-secret');
+
+      expect(verifyArchive(archive, signature, 'test-secret')).toBe(true);
+      expect(verifyArchive(Buffer.from('{"format":"tampered"}'), signature, 'test-secret')).toBe(false);
+      expect(verifyArchive(archive, signature, 'other-secret')).toBe(false);
+    });
+  });
+
+  it('should cover every collection managed by a BaseService', () => {
+    const names = USER_COLLECTIONS.map(collection => collection.name);
+    ['accountGoals', 'bankAccounts', 'budgets', 'creditCards', 'incomeSources', 'notificationPreferences',
+      'notifications', 'recurringPayments', 'reports', 'savingsGoals', 'stocks', 'taxForms', 'tax_documents',
+      'transactions'].forEach(name => expect(names).toContain(name));
+  });
+
+  it('should cover per-user collections written outside a BaseService', () => {
+    const byName = new Map(USER_COLLECTIONS.map(collection => [collection.name, collection.field]));
+    ['credit_card_mappings', 'bank_connections', 'plaid_transactions', 'tax_prefill_decisions', 'duplicate_dismissals']
+      .forEach(name => expect(byName.get(name)).toBe('userId'));
+  });
+});
@@ -0,0 +1,35 @@
+const { renderCalendar } = require('../services/icsCalendar');
+
+describe('renderCalendar', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should write all-day events with CRLF line endings', () => {
+    const ics = renderCalendar('Bills', [
+      { uid: 'rent@flourish-funds', date: '2026-11-01', summary: 'Rent', rrule: 'FREQ=MONTHLY;BYMONTHDAY=1' }
+    ], now);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('\r\nDTSTART;VALUE=DATE:20261101\r\n');
+    expect(ics).toContain('\r\nDTSTAMP:20261019T120000Z\r\n');
+    expect(ics).toContain('\r\nRRULE:FREQ=MONTHLY;BYMONTHDAY=1\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should escape commas, semicolons and newlines in text', () => {
+    const ics = renderCalendar('Bills', [
+      { uid: 'a@flourish-funds', date: '2026-11-01', summary: 'Rent, apt; 4B', description: 'Line one\nLine two' }
+    ], now);
+
+    expect(ics).toContain('SUMMARY:Rent\\, apt\\; 4B');
+    expect(ics).toContain('DESCRIPTION:Line one\\nLine two');
+  });
+
+  it('should fold lines longer than 75 octets', () => {
+    const ics = renderCalendar('Bills', [
+      { uid: 'a@flourish-funds', date: '2026-11-01', summary: 'x'.repeat(200) }
+    ], now);
+
+    ics.split('\r\n').forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${'x'.repeat(200)}`);
+  });
+});
@@ -0,0 +1,90 @@
+jest.mock('../config/firebase', () => ({ db: {} }));
+
+const { db } = require('../config/firebase');
+const { NotificationLog } = require('../models/notificationLog');
+const {
+  NotificationPipelineService,
+  DEFAULT_NOTIFICATION_PREFERENCES
+} = require('../services/notificationPipelineService');
+
+describe('NotificationPipelineService', () => {
+  const daysFromNow = (days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000 - 60 * 1000).toISOString();
+  const baseCard = {
+    id: 'card-1',
+    userId: 'user-1',
+    name: 'Travel Card',
+    currentBalance: 500,
+    statementBalance: 0,
+    minimumPaymentDue: 35,
+    limit: 5000,
+    dueDate: daysFromNow(3),
+    nextStatementDate: daysFromNow(20),
+    paymentReminderDays: 0,
+    interestRate: 19.99,
+    isActive: true
+  };
+  let service;
+
+  beforeEach(() => {
+    service = new NotificationPipelineService();
+  });
+
+  it('should send payment reminders only on configured reminder days', () => {
+    const types = (card) => service.selectNotifications(card, DEFAULT_NOTIFICATION_PREFERENCES).map(item => item.type);
+
+    expect(types(baseCard)).toContain('payment_reminder');
+    expect(types({ ...baseCard, dueDate: daysFromNow(5) })).not.toContain('payment_reminder');
+  });
+
+  it('should drop utilization warnings when the user turned them off', () => {
+    const card = { ...baseCard, currentBalance: 4800 };
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, utilizationWarnings: false };
+
+    expect(service.selectNotifications(card, DEFAULT_NOTIFICATION_PREFERENCES).map(item => item.type))
+      .toContain('high_utilization');
+    expect(service.selectNotifications(card, preferences).map(item => item.type))
+      .not.toContain('high_utilization');
+  });
+
+  it('should key reminders by due date and reminder day', () => {
+    const [reminder] = service.selectNotifications(baseCard, DEFAULT_NOTIFICATION_PREFERENCES);
+    const now = new Date();
+
+    expect(service.dedupeKey(reminder, baseCard, now))
+      .toBe(`payment_due_card-1:${baseCard.dueDate}:3`);
+    expect(service.dedupeKey(reminder, { ...baseCard, dueDate: daysFromNow(33) }, now))
+      .not.toBe(service.dedupeKey(reminder, baseCard, now));
+  });
+
+  it('should retry a failed email without repeating the in-app notification', async () => {
+    const now = new Date();
+    const [reminder] = service.selectNotifications(baseCard, DEFAULT_NOTIFICATION_PREFERENCES);
+    const dedupeKey = service.dedupeKey(reminder, baseCard, now);
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, emailAddress: 'owner@example.com' };
+    const result = { notificationsCreated: 0, duplicatesSkipped: 0, emailsSent: 0, emailsFailed: 0 };
+    const add = jest.fn();
+    db.collection = jest.fn(() => ({ add }));
+    jest.spyOn(NotificationLog, 'create').mockResolvedValue('log-1');
+    // The in-app notification went out on an earlier run, but its email failed
+    jest.spyOn(NotificationLog, 'hasBeenSent').mockImplementation(async (userId, key) => key === dedupeKey);
+    const sendNotificationEmail = jest.fn().mockResolvedValue(true);
+    service.emailService = { sendNotificationEmail };
+
+    await service.processCard(baseCard, preferences, now, result);
+
+    expect(sendNotificationEmail).toHaveBeenCalledTimes(1);
+    expect(sendNotificationEmail.mock.calls[0][3]).toEqual(expect.objectContaining({ dedupeKey: `${dedupeKey}:email` }));
+    expect(add).not.toHaveBeenCalled();
+    expect(result).toEqual({ notificationsCreated: 0, duplicatesSkipped: 0, emailsSent: 1, emailsFailed: 0 });
+  });
+
+  it('should catch up on a notification time the runs stepped over', () => {
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, notificationTime: '23:50' };
+    const afterMidnight = new Date('2024-03-02T00:20:00Z');
+
+    expect(service.isDue(preferences, '2024-03-01', afterMidnight)).toBe(false);
+    expect(service.isDue(preferences, '2024-02-29', afterMidnight)).toBe(true);
+    expect(service.isDue(preferences, '2024-03-01', new Date('2024-03-02T23:55:00Z'))).toBe(true);
+    expect(service.isDue(preferences, '2024-03-02', new Date('2024-03-02T23:55:00Z'))).toBe(false);
+  });
+});
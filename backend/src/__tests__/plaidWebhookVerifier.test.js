@@ -0,0 +1,46 @@
+const { PlaidWebhookVerifier, PlaidWebhookVerificationError } = require('../services/plaidWebhookVerifier');
+const { FakePlaidWebhookSigner } = require('../services/fakePlaidWebhookSigner');
+
+describe('PlaidWebhookVerifier', () => {
+  const body = JSON.stringify({
+    webhook_type: 'TRANSACTIONS',
+    webhook_code: 'SYNC_UPDATES_AVAILABLE',
+    item_id: 'item-123'
+  });
+  let signer;
+  let verifier;
+
+  beforeEach(() => {
+    signer = new FakePlaidWebhookSigner('test-webhook-secret');
+    verifier = new PlaidWebhookVerifier(signer.resolveKey);
+  });
+
+  it('should accept a body signed by the matching key', async () => {
+    await expect(verifier.verify(signer.sign(body), Buffer.from(body))).resolves.toBeUndefined();
+  });
+
+  it('should reject a missing signature header', async () => {
+    await expect(verifier.verify(undefined, body)).rejects.toBeInstanceOf(PlaidWebhookVerificationError);
+  });
+
+  it('should reject a body that was changed after signing', async () => {
+    const token = signer.sign(body);
+    await expect(verifier.verify(token, body.replace('item-123', 'item-456')))
+      .rejects.toThrow('Request body does not match signature');
+  });
+
+  it('should reject signatures older than five minutes', async () => {
+    const issuedAt = Math.floor(Date.now() / 1000) - 10 * 60;
+    await expect(verifier.verify(signer.sign(body, issuedAt), body)).rejects.toThrow('maxAge exceeded');
+  });
+
+  it('should reject tokens signed with an unknown key', async () => {
+    const otherSigner = new FakePlaidWebhookSigner('another-secret');
+    await expect(verifier.verify(otherSigner.sign(body), body))
+      .rejects.toBeInstanceOf(PlaidWebhookVerificationError);
+  });
+
+  it('should derive the same key from the same secret', () => {
+    expect(new FakePlaidWebhookSigner('test-webhook-secret').keyId).toBe(signer.keyId);
+  });
+});
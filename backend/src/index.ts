@@ -19,7 +19,7 @@ import {
 } from './middleware/xssProtection';
 import { 
   createRateLimit, 
-  IPMonitor, 
+  ipMonitor, 
   fileUploadSecurity 
 } from './middleware/advancedSecurity';
 import { enhancedLogger } from './utils/enhancedLogger';
@@ -28,15 +28,31 @@ import { bankAccountRoutes } from './routes/bankAccounts';
 import { creditCardRoutes } from './routes/creditCards';
 import { notificationRoutes } from './routes/notifications';
 import { transactionRoutes } from './routes/transactions';
+import { statementImportRoutes } from './routes/statementImports';
+import { categorizationRuleRoutes } from './routes/categorizationRules';
 import { budgetRoutes } from './routes/budgets';
 import { savingsGoalRoutes } from './routes/savingsGoals';
 import { recurringPaymentRoutes } from './routes/recurringPayments';
 import { stockRoutes } from './routes/stocks';
+import { marketDataRoutes } from './routes/marketData';
+import { stockTransactionRoutes } from './routes/stockTransactions';
 import { accountGoalRoutes } from './routes/accountGoals';
 import { taxDocumentRoutes } from './routes/taxDocuments';
+import { taxFormRoutes } from './routes/taxForms';
 import plaidRoutes from './routes/plaidRoutes';
 import insuranceRoutes from './routes/insurance';
 import incomeSourcesRoutes from './routes/incomeSources';
+import { reportRoutes } from './routes/reports';
+import { netWorthRoutes } from './routes/netWorth';
+import { adminRoutes } from './routes/admin';
+import { calendarRoutes } from './routes/calendar';
+import { accountRoutes } from './routes/account';
+import { currencyRoutes } from './routes/currency';
+import { taxPrefillRoutes } from './routes/taxPrefill';
+import { accountantAccessRoutes } from './routes/accountantAccess';
+import { accountantRoutes } from './routes/accountant';
+import { registerJobs } from './jobs';
+import { jobScheduler } from './services/jobScheduler';
 
 dotenv.config();
 
@@ -52,7 +68,7 @@ app.use(securityHeaders);
 app.use(requestSizeLimiter);
 app.use(speedLimiter);
 app.use(xssAuditLogger);
-app.use(IPMonitor.middleware);
+app.use(ipMonitor.middleware());
 
 // Initialize enhanced logging
 enhancedLogger.logApplicationEvent('SERVER_STARTING', {
@@ -71,7 +87,15 @@ app.use(cors({
 }));
 
 // Body parsing with size limits and XSS protection
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Plaid webhook signatures cover the exact bytes received
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/plaid/webhook')) {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(xssProtection({ detectOnly: false, logThreats: true, blockCritical: true }));
 app.use(outputEncoding);
@@ -89,24 +113,47 @@ app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/bank-accounts', apiLimiter, bankAccountRoutes);
 app.use('/api/credit-cards', apiLimiter, creditCardRoutes);
 app.use('/api/transactions', apiLimiter, transactionRoutes);
+app.use('/api/statement-imports', apiLimiter, statementImportRoutes);
+app.use('/api/categorization-rules', apiLimiter, categorizationRuleRoutes);
 app.use('/api/budgets', apiLimiter, budgetRoutes);
 app.use('/api/savings-goals', apiLimiter, savingsGoalRoutes);
 app.use('/api/recurring-payments', apiLimiter, recurringPaymentRoutes);
 app.use('/api/stocks', apiLimiter, stockRoutes);
+app.use('/api/stock-transactions', apiLimiter, stockTransactionRoutes);
+app.use('/api/market-data', apiLimiter, marketDataRoutes);
 app.use('/api/account-goals', apiLimiter, accountGoalRoutes);
 app.use('/api/plaid', apiLimiter, plaidRoutes);
 app.use('/api/notifications', apiLimiter, notificationRoutes);
-app.use('/api/tax-forms', apiLimiter, taxDocumentRoutes);
+// Document routes first, so DELETE /documents/:documentId is not read as a form id
+app.use('/api/tax-forms', apiLimiter, taxDocumentRoutes, taxFormRoutes);
 app.use('/api/insurance', apiLimiter, insuranceRoutes);
 app.use('/api/income-sources', apiLimiter, incomeSourcesRoutes);
+app.use('/api/reports', apiLimiter, reportRoutes);
+app.use('/api/net-worth', apiLimiter, netWorthRoutes);
+app.use('/api/calendar', apiLimiter, calendarRoutes);
+app.use('/api/account', apiLimiter, accountRoutes);
+app.use('/api/currency', apiLimiter, currencyRoutes);
+app.use('/api/tax-prefill', apiLimiter, taxPrefillRoutes);
+app.use('/api/accountant-access', apiLimiter, accountantAccessRoutes);
+app.use('/api/accountant/auth', authLimiter);
+app.use('/api/accountant', apiLimiter, accountantRoutes);
+app.use('/api/admin', apiLimiter, adminRoutes);
 
 // Error handling
 app.use(errorHandler);
 
+// Registered everywhere so admins can trigger jobs manually even where the scheduler is off
+registerJobs();
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   enhancedLogger.logApplicationEvent('SERVER_STARTED', {
     port: PORT,
     timestamp: new Date().toISOString()
   });
+
+  // Set DISABLE_JOB_SCHEDULER=true on instances that should only serve requests
+  if (process.env.DISABLE_JOB_SCHEDULER !== 'true') {
+    jobScheduler.start();
+  }
 });
\ No newline at end of file
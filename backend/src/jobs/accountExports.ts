@@ -0,0 +1,17 @@
+import { accountDataService } from '../services/accountDataService';
+import { JobDefinition } from '../models/job';
+
+export const ACCOUNT_EXPORTS_JOB = 'account-exports';
+
+export const accountExportsJob: JobDefinition = {
+  name: ACCOUNT_EXPORTS_JOB,
+  description: 'Build requested account data exports and remove expired archives',
+  intervalMs: 15 * 60 * 1000,
+  maxAttempts: 3,
+  retryDelayMs: 60 * 1000,
+  lockTtlMs: 30 * 60 * 1000,
+  handler: async ({ startedAt }) => {
+    const result = await accountDataService.processPendingExports(startedAt);
+    return { ...result };
+  }
+};
@@ -0,0 +1,67 @@
+import { db } from '../config/firebase';
+import FirebaseBankConnectionService from '../services/firebaseBankConnectionService';
+import { toDate } from '../utils/dates';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { BankConnectionModel } from '../models/bankConnection';
+import { JobDefinition } from '../models/job';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How stale a connection may get before the scheduler syncs it; manual connections are never synced here
+const SYNC_INTERVALS_MS: Record<BankConnectionModel['syncFrequency'], number | null> = {
+  manual: null,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS
+};
+
+const bankConnectionService = new FirebaseBankConnectionService({
+  clientId: process.env.PLAID_CLIENT_ID || '',
+  secret: process.env.PLAID_SECRET || '',
+  environment: process.env.PLAID_ENV || 'sandbox',
+});
+
+export const bankSyncJob: JobDefinition = {
+  name: 'bank-sync',
+  description: 'Sync Plaid transactions for connections that are due per their sync frequency',
+  intervalMs: HOUR_MS,
+  maxAttempts: 2,
+  retryDelayMs: 5 * 60 * 1000,
+  lockTtlMs: HOUR_MS,
+  handler: async ({ startedAt }) => {
+    const snapshot = await db.collection('bank_connections')
+      .where('isActive', '==', true)
+      .where('syncEnabled', '==', true)
+      .get();
+
+    let attempted = 0;
+    let synced = 0;
+    let failed = 0;
+
+    for (const doc of snapshot.docs) {
+      const connection = doc.data() as BankConnectionModel;
+      const interval = SYNC_INTERVALS_MS[connection.syncFrequency];
+      if (interval === null || interval === undefined) continue;
+      if (connection.lastSync && startedAt.getTime() - toDate(connection.lastSync).getTime() < interval) continue;
+
+      attempted++;
+      try {
+        await bankConnectionService.syncTransactions(doc.id, connection.userId, 'automatic');
+        synced++;
+      } catch (error) {
+        failed++;
+        enhancedLogger.error('Scheduled bank sync failed', {
+          connectionId: doc.id,
+          userId: connection.userId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    // One broken connection shouldn't fail the run, but every sync failing points at Plaid or config
+    if (attempted > 0 && synced === 0) {
+      throw new Error(`All ${attempted} bank syncs failed`);
+    }
+
+    return { connections: snapshot.size, attempted, synced, failed };
+  }
+};
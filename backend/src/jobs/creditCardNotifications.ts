@@ -0,0 +1,16 @@
+import { notificationPipelineService } from '../services/notificationPipelineService';
+import { JobDefinition } from '../models/job';
+
+export const creditCardNotificationsJob: JobDefinition = {
+  name: 'credit-card-notifications',
+  description: 'Generate due-date, balance and utilization notifications for active credit cards',
+  // Hourly so each user's notificationTime is honored; dedupe keeps it to one delivery per alert
+  intervalMs: 60 * 60 * 1000,
+  maxAttempts: 3,
+  retryDelayMs: 60 * 1000,
+  lockTtlMs: 30 * 60 * 1000,
+  handler: async ({ startedAt }) => {
+    const result = await notificationPipelineService.checkDue(startedAt);
+    return { ...result };
+  }
+};
@@ -0,0 +1,18 @@
+import { fxRateService } from '../services/fxRateService';
+import { JobDefinition } from '../models/job';
+
+export const fxRatesJob: JobDefinition = {
+  name: 'fx-rates',
+  description: 'Store daily exchange rates from the configured FX rate provider',
+  intervalMs: 24 * 60 * 60 * 1000,
+  maxAttempts: 3,
+  retryDelayMs: 5 * 60 * 1000,
+  lockTtlMs: 10 * 60 * 1000,
+  handler: async ({ startedAt }) => {
+    const stored = await fxRateService.refreshRates(startedAt.toISOString().split('T')[0]);
+    if (!stored) {
+      throw new Error('The FX rate provider returned no rates');
+    }
+    return { date: stored.date, provider: stored.provider, currencies: Object.keys(stored.rates).length };
+  }
+};
@@ -0,0 +1,18 @@
+import { jobScheduler } from '../services/jobScheduler';
+import { bankSyncJob } from './bankSync';
+import { creditCardNotificationsJob } from './creditCardNotifications';
+import { recurringPaymentsJob } from './recurringPayments';
+import { netWorthSnapshotsJob } from './netWorthSnapshots';
+import { accountExportsJob } from './accountExports';
+import { fxRatesJob } from './fxRates';
+import { marketClosesJob } from './marketCloses';
+
+export const registerJobs = (): void => {
+  jobScheduler.register(bankSyncJob);
+  jobScheduler.register(creditCardNotificationsJob);
+  jobScheduler.register(recurringPaymentsJob);
+  jobScheduler.register(netWorthSnapshotsJob);
+  jobScheduler.register(accountExportsJob);
+  jobScheduler.register(fxRatesJob);
+  jobScheduler.register(marketClosesJob);
+};
@@ -0,0 +1,36 @@
+import { marketDataService } from '../services/marketDataService';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { JobDefinition } from '../models/job';
+
+// Each run re-reads the last week so closes missed by a failed run are filled in
+const LOOKBACK_DAYS = 7;
+
+export const marketClosesJob: JobDefinition = {
+  name: 'market-closes',
+  description: 'Store the latest daily closes for every traded stock symbol',
+  intervalMs: 24 * 60 * 60 * 1000,
+  maxAttempts: 3,
+  retryDelayMs: 5 * 60 * 1000,
+  lockTtlMs: 30 * 60 * 1000,
+  handler: async ({ startedAt }) => {
+    const endDate = startedAt.toISOString().split('T')[0];
+    const startDate = new Date(startedAt.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const symbols = await marketDataService.getTrackedSymbols();
+    let stored = 0;
+    let failed = 0;
+
+    for (const symbol of symbols) {
+      try {
+        stored += (await marketDataService.storeDailyCloses(symbol, startDate, endDate)).length;
+      } catch (error) {
+        failed++;
+        enhancedLogger.error('Failed to store daily closes', {
+          symbol,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return { symbols: symbols.length, stored, failed };
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../config/firebase';
+import { netWorthService } from '../services/netWorthService';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { JobDefinition } from '../models/job';
+
+export const netWorthSnapshotsJob: JobDefinition = {
+  name: 'net-worth-snapshots',
+  description: 'Record a daily net worth snapshot for every user',
+  intervalMs: 24 * 60 * 60 * 1000,
+  maxAttempts: 3,
+  retryDelayMs: 60 * 1000,
+  lockTtlMs: 60 * 60 * 1000,
+  handler: async ({ startedAt }) => {
+    const users = await db.collection('users').select().get();
+    let recorded = 0;
+    let failed = 0;
+
+    for (const user of users.docs) {
+      try {
+        await netWorthService.recordSnapshot(user.id, startedAt);
+        recorded++;
+      } catch (error) {
+        failed++;
+        enhancedLogger.error('Failed to record net worth snapshot', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return { users: users.size, recorded, failed };
+  }
+};
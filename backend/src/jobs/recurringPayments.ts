@@ -0,0 +1,18 @@
+import { recurringPaymentService } from '../services/recurringPaymentService';
+import { JobDefinition } from '../models/job';
+
+export const recurringPaymentsJob: JobDefinition = {
+  name: 'recurring-payments',
+  description: 'Post automatic recurring payments that have fallen due',
+  intervalMs: 6 * 60 * 60 * 1000,
+  maxAttempts: 3,
+  retryDelayMs: 60 * 1000,
+  lockTtlMs: 30 * 60 * 1000,
+  handler: async ({ startedAt }) => {
+    const result = await recurringPaymentService.postDuePayments(startedAt);
+    if (result.failed > 0 && result.posted === 0) {
+      throw new Error(`All ${result.failed} due recurring payments failed to post`);
+    }
+    return { ...result };
+  }
+};
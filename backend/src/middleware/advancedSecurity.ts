@@ -1,6 +1,7 @@
 import rateLimit from 'express-rate-limit';
 import slowDown from 'express-slow-down';
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ValidationChain } from 'express-validator';
 import { enhancedLogger } from '../utils/enhancedLogger';
 
 /**
@@ -170,7 +171,7 @@ export const fileUploadSecurity = (req: Request, res: Response, next: NextFuncti
 };
 
 // Request validation middleware
-export const validateRequest = (req: Request, res: Response, next: NextFunction) => {
+const checkSuspiciousRequest = (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
 
   // Check for suspicious patterns in request
@@ -219,6 +220,9 @@ export const validateRequest = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Runs the route's express-validator chains, then rejects requests carrying suspicious patterns
+export const validateRequest = (validations: ValidationChain[]): RequestHandler[] => [...validations, checkSuspiciousRequest];
+
 // Authentication security
 export const authSecurity = (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
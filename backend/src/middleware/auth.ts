@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { authService } from '../services/authService';
+import { authService, TokenScope } from '../services/authService';
 import { logSuspiciousActivity } from './auditLogger';
 
 export interface AuthRequest extends Request {
   userId?: string;
   user?: { uid: string; email: string; };
+  scope?: TokenScope;
 }
 
 export const auth = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -27,8 +28,15 @@ export const auth = async (req: AuthRequest, res: Response, next: NextFunction)
       return res.status(403).json({ error: 'Invalid token format' });
     }
 
+    // Accountant sessions must not reach the accountant's (or anyone's) own data routes
+    if (decoded.scope !== 'user') {
+      logSuspiciousActivity(req, 'Scoped token used outside its scope', { scope: decoded.scope });
+      return res.status(403).json({ error: 'This session can only be used in the accountant portal' });
+    }
+
     req.userId = decoded.userId;
     req.user = { uid: decoded.userId, email: decoded.email };
+    req.scope = decoded.scope;
     next();
   } catch (error: any) {
     logSuspiciousActivity(req, 'Token verification failed', { error: error.message });
@@ -42,4 +50,53 @@ export const auth = async (req: AuthRequest, res: Response, next: NextFunction)
     
     return res.status(403).json({ error: 'Authentication failed' });
   }
-};
\ No newline at end of file
+};
+
+// The name the route modules import; same checks as `auth`, including the accountant-scope rejection
+export const authenticateToken = auth;
+
+// Operational endpoints are limited to the user ids listed in ADMIN_USER_IDS (comma separated)
+export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  if (!req.userId || !adminIds.includes(req.userId)) {
+    logSuspiciousActivity(req, 'Non-admin access to admin endpoint', { userId: req.userId });
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
+};
+
+// Accountant portal endpoints only accept tokens issued by the accountant login
+export const authenticateAccountant = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    logSuspiciousActivity(req, 'Missing accountant token');
+    res.status(401).json({ error: 'Access token required' });
+    return;
+  }
+
+  try {
+    const decoded = await authService.verifyToken(token);
+    if (decoded.scope !== 'accountant' || !decoded.userId || !decoded.email) {
+      logSuspiciousActivity(req, 'Non-accountant token on accountant endpoint', { userId: decoded.userId });
+      res.status(403).json({ error: 'Accountant session required' });
+      return;
+    }
+
+    req.userId = decoded.userId;
+    req.user = { uid: decoded.userId, email: decoded.email };
+    req.scope = decoded.scope;
+    next();
+  } catch (error) {
+    const expired = error instanceof Error && error.name === 'TokenExpiredError';
+    logSuspiciousActivity(req, 'Accountant token verification failed', { error: error instanceof Error ? error.message : String(error) });
+    res.status(expired ? 401 : 403).json({ error: expired ? 'Token expired' : 'Invalid token' });
+  }
+};
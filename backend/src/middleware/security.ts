@@ -62,13 +62,16 @@ export const loginValidation = [
   body('password').isLength({ min: 8 }).trim(),
 ];
 
+// Rules for passwords of new accounts
+export const newPasswordValidation = body('password')
+  .isLength({ min: 8 })
+  .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+  .withMessage('Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character')
+  .trim();
+
 export const registerValidation = [
   body('email').isEmail().normalizeEmail().trim(),
-  body('password')
-    .isLength({ min: 8 })
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
-    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character')
-    .trim(),
+  newPasswordValidation,
 ];
 
 // Validation error handler
@@ -0,0 +1,57 @@
+export type AccountExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+// One document per request in `account_exports`. The archive itself lives on disk next to uploads.
+export interface AccountExportModel {
+  id: string;
+  userId: string;
+  status: AccountExportStatus;
+  requestedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  filePath?: string;
+  sizeBytes?: number;
+  signature?: string; // HMAC-SHA256 of the gzipped archive, hex encoded
+  counts?: Record<string, number>;
+  error?: string;
+}
+
+// What the API returns; the file path stays server-side
+export type AccountExportSummary = Omit<AccountExportModel, 'filePath'>;
+
+export interface ExportedFile {
+  id: string;
+  source: 'transaction' | 'tax' | 'insurance';
+  filename: string;
+  mimeType?: string;
+  size?: number;
+  metadata: Record<string, unknown>;
+  content?: string; // Base64; absent when the file is not stored on this server
+}
+
+export interface AccountExportArchive {
+  format: 'flourish-funds-export';
+  version: 1;
+  userId: string;
+  generatedAt: string;
+  profile: Record<string, unknown> | null;
+  collections: Record<string, Array<Record<string, unknown>>>;
+  insurance: {
+    policies: Array<Record<string, unknown>>;
+    claims: Array<Record<string, unknown>>;
+  };
+  files: ExportedFile[];
+}
+
+export interface AccountDeletionResult {
+  plaidItemsRevoked: number;
+  documentsDeleted: Record<string, number>;
+  filesDeleted: number;
+}
+
+// Kept in `account_deletions` after everything else about the user is gone
+export interface AccountDeletionRecord extends AccountDeletionResult {
+  userId: string;
+  requestedAt: Date;
+  completedAt: Date;
+}
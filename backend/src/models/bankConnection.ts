@@ -1,4 +1,5 @@
 import { EncryptedData } from '../middleware/encryption';
+import { TransactionSplit } from '../../../shared/transactionSplits';
 
 export interface BankConnectionModel {
   id: string;
@@ -13,6 +14,7 @@ export interface BankConnectionModel {
   isActive: boolean;
   syncEnabled: boolean;
   syncFrequency: 'manual' | 'daily' | 'weekly';
+  transactionsCursor?: string; // Plaid /transactions/sync cursor; absent until the first sync
   lastError?: string;
   metadata?: Record<string, any>;
 }
@@ -40,6 +42,7 @@ export interface TransactionModel {
   plaidTransactionId: string;
   accountId: string;
   amount: number;
+  currency?: string; // ISO 4217 from Plaid; absent on transactions synced before currencies were stored
   date: string;
   name: string;
   merchantName?: string;
@@ -63,8 +66,12 @@ export interface TransactionModel {
   updatedAt: Date;
   isHidden: boolean;
   isDeleted: boolean;
+  removedAt?: Date; // Set when Plaid reports the transaction as removed
+  mergedIntoTransactionId?: string; // The manual entry this duplicated; merged transactions are also marked deleted
   notes?: string;
   tags?: string[];
+  incomeSourceId?: string; // Set by a categorization rule
+  splits?: TransactionSplit[]; // Same sign as `amount`; when present they replace the category and tags
 }
 
 export interface SyncLogModel {
@@ -77,6 +84,7 @@ export interface SyncLogModel {
   completedAt?: Date;
   transactionsAdded: number;
   transactionsUpdated: number;
+  transactionsRemoved: number;
   errors: string[];
   metadata?: Record<string, any>;
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+// One document per user in `calendar_feeds`, keyed by user id. Only a hash of the feed token is stored.
+export interface CalendarFeedModel {
+  userId: string;
+  tokenHash: string;
+  createdAt: Date;
+  lastAccessedAt?: Date;
+}
+
+export interface CalendarFeedInfo {
+  enabled: boolean;
+  createdAt?: Date;
+  lastAccessedAt?: Date;
+}
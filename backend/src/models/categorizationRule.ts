@@ -0,0 +1,51 @@
+import { CategorizationField, CategorizationFields, RuleActions, RuleConditions } from '../../../shared/categorizationRules';
+
+export {
+  CategorizationFields,
+  CategorizationRule,
+  RuleActions,
+  RuleConditions,
+  RuleResult,
+  RuleSubject
+} from '../../../shared/categorizationRules';
+
+// A user's rule in `categorization_rules`
+export interface CategorizationRuleDocument {
+  id: string;
+  userId: string;
+  name: string;
+  priority: number; // Lower runs first
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewCategorizationRule = Pick<CategorizationRuleDocument, 'name' | 'priority' | 'enabled' | 'conditions' | 'actions'>;
+
+// Manual and imported transactions live in `transactions`, synced ones in `plaid_transactions`
+export type RuleTransactionSource = 'manual' | 'plaid';
+
+// One transaction that re-running the rules would change
+export interface RuleHistoryChange {
+  transactionId: string;
+  source: RuleTransactionSource;
+  date: string;
+  description: string;
+  amount: number;
+  before: CategorizationFields;
+  after: CategorizationFields;
+  changed: CategorizationField[];
+  ruleIds: string[];
+}
+
+export interface RuleHistoryPreview {
+  scanned: number;
+  changes: RuleHistoryChange[];
+}
+
+export interface RuleHistoryRequest {
+  ruleIds?: string[]; // Only these rules; every enabled rule when missing
+  transactionIds?: string[]; // Applying only; every change when missing
+}
@@ -0,0 +1,24 @@
+export { FxRateTable } from '../../../shared/currency';
+
+// Rates a provider publishes for one day: units of each currency per one unit of `base`
+export interface FxRateQuote {
+  date: string; // YYYY-MM-DD the rates are effective for; may be earlier than the date asked for
+  base: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Source of daily exchange rates. Providers are registered by name in
+ * fxRateService and selected with FX_RATE_PROVIDER.
+ */
+export interface FxRateProvider {
+  readonly name: string;
+  // Rates in effect on `date`, or null when the provider has nothing on or before it
+  getRates(date: string): Promise<FxRateQuote | null>;
+}
+
+// One document per day in `fx_rates`, keyed by date and always stored against STORE_BASE
+export interface FxRateDocument extends FxRateQuote {
+  provider: string;
+  fetchedAt: Date;
+}
@@ -0,0 +1,54 @@
+// A `retrying` run failed an attempt and waits in `job_state` for its next one
+export type JobRunStatus = 'running' | 'retrying' | 'succeeded' | 'failed';
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface JobContext {
+  runId: string;
+  trigger: JobTrigger;
+  attempt: number;
+  startedAt: Date;
+}
+
+// Free-form counts a job reports back, stored on its run record
+export type JobResult = Record<string, number | string | boolean>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  maxAttempts: number;
+  retryDelayMs: number; // Wait before the next attempt, doubled after each failed one
+  lockTtlMs: number;    // A crashed instance's lock expires after this long
+  handler: (context: JobContext) => Promise<JobResult>;
+}
+
+// Persisted per job in `job_state`, keyed by job name
+export interface JobState {
+  name: string;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastStatus?: JobRunStatus;
+  lastRunId?: string;
+  consecutiveFailures: number;
+  retryRunId?: string;  // The run waiting to retry; it is due at nextAttemptAt instead of nextRunAt
+  nextAttemptAt?: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  updatedAt: Date;
+}
+
+// One document per execution in `job_runs`
+export interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  instanceId: string;
+  attempts: number;
+  errors: string[];
+  result?: JobResult;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+}
@@ -0,0 +1,50 @@
+// Latest price for a symbol as a provider reports it
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  tradingDay: string; // YYYY-MM-DD the price is from
+}
+
+// One day's closing price; `date` is a trading day
+export interface DailyClose {
+  symbol: string;
+  date: string;
+  close: number;
+}
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  type: string;
+  region: string;
+  matchScore: number;
+}
+
+/**
+ * Source of stock prices. Providers are registered by name in
+ * marketDataService and selected with MARKET_DATA_PROVIDER.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  // Quotes for the symbols the provider knows; unknown symbols are left out
+  getQuotes(symbols: string[]): Promise<MarketQuote[]>;
+  // Closes between the dates, inclusive, oldest first
+  getDailyCloses(symbol: string, startDate: string, endDate: string): Promise<DailyClose[]>;
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+}
+
+// One document per symbol in `market_quotes`, shared by every user
+export interface MarketQuoteDocument extends MarketQuote {
+  provider: string;
+  fetchedAt: Date;
+}
+
+// One document per symbol and day in `market_daily_closes`, keyed `${symbol}_${date}`
+export interface DailyCloseDocument extends DailyClose {
+  provider: string;
+  fetchedAt: Date;
+}
@@ -0,0 +1,60 @@
+export type NetWorthRange = '1m' | '3m' | '6m' | '1y' | 'ytd' | 'all';
+
+export type NetWorthGranularity = 'daily' | 'weekly' | 'monthly';
+
+export interface NetWorthBalanceLine {
+  id: string;
+  name: string;
+  type: string;
+  balance: number;       // In the snapshot's currency
+  currency?: string;     // The account's own currency
+  nativeBalance?: number; // The balance in the account's own currency
+}
+
+// One row per user per day; the document id is `${userId}_${date}` so re-recording a day overwrites it
+export interface NetWorthSnapshot {
+  id: string;
+  userId: string;
+  date: string; // YYYY-MM-DD (UTC)
+  currency?: string; // Base currency the totals are in; snapshots recorded before currencies were tracked are USD
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  bankBalances: number;
+  creditCardBalances: number;
+  portfolioValue: number;
+  otherAssets: number;
+  otherLiabilities: number;
+  bankAccounts: NetWorthBalanceLine[];
+  creditCards: NetWorthBalanceLine[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NetWorthHistoryPoint {
+  date: string;
+  label: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  bankBalances: number;
+  creditCardBalances: number;
+  portfolioValue: number;
+  change: number | null;        // Net worth change against the previous point
+  changePercent: number | null;
+}
+
+export interface NetWorthHistory {
+  range: NetWorthRange;
+  granularity: NetWorthGranularity;
+  currency: string;
+  startDate: string;
+  endDate: string;
+  points: NetWorthHistoryPoint[];
+  monthOverMonth: {
+    current: number;
+    previous: number | null;
+    change: number | null;
+    changePercent: number | null;
+  } | null;
+}
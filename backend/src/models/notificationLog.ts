@@ -1,3 +1,7 @@
+import { db } from '../config/firebase';
+
+const COLLECTION = 'notification_logs';
+
 export interface NotificationLogData {
   id: string;
   userId: string;
@@ -10,29 +14,48 @@ export interface NotificationLogData {
   error?: string;
   cardId?: string;
   notificationType?: string;
+  dedupeKey?: string; // Identifies one occurrence of an alert, e.g. the 3-day reminder for a given due date
 }
 
 export class NotificationLog {
   static async create(data: NotificationLogData): Promise<string> {
-    // This would integrate with your database
-    // For now, just log to console
-    console.log('Notification logged:', data);
+    await db.collection(COLLECTION).add({ ...data });
     return data.id;
   }
 
   static async getByUserId(userId: string, limit: number = 50): Promise<NotificationLogData[]> {
-    // This would fetch from your database
-    // For now, return empty array
-    return [];
+    const snapshot = await db.collection(COLLECTION)
+      .where('userId', '==', userId)
+      .orderBy('sentAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as NotificationLogData);
   }
 
   static async getRecentByType(
-    userId: string, 
-    type: string, 
+    userId: string,
+    type: string,
     hours: number = 24
   ): Promise<NotificationLogData[]> {
-    // This would fetch recent notifications of a specific type
     // Used to prevent spam
-    return [];
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const snapshot = await db.collection(COLLECTION)
+      .where('userId', '==', userId)
+      .where('notificationType', '==', type)
+      .get();
+    return snapshot.docs
+      .map(doc => doc.data() as NotificationLogData)
+      .filter(log => log.sentAt >= since);
   }
-}
\ No newline at end of file
+
+  // Whether this occurrence was already delivered; failed sends don't count so they are retried
+  static async hasBeenSent(userId: string, dedupeKey: string): Promise<boolean> {
+    const snapshot = await db.collection(COLLECTION)
+      .where('userId', '==', userId)
+      .where('dedupeKey', '==', dedupeKey)
+      .where('status', '==', 'sent')
+      .limit(1)
+      .get();
+    return !snapshot.empty;
+  }
+}
@@ -0,0 +1,25 @@
+import { PerformanceRange, PortfolioPerformance, TargetWeights } from '../../../shared/portfolioPerformance';
+
+export {
+  PerformanceRange,
+  PortfolioPerformance,
+  TargetWeights
+} from '../../../shared/portfolioPerformance';
+
+// One document per user in `portfolio_targets`, keyed by user id
+export interface PortfolioTargetsDocument {
+  userId: string;
+  targets: TargetWeights; // Percent of the portfolio per symbol, adding up to at most 100
+  updatedAt: Date;
+}
+
+export interface PerformanceQuery {
+  range: PerformanceRange;
+  startDate?: string; // With endDate, replaces the range
+  endDate?: string;
+  benchmark: string;
+}
+
+export interface PortfolioPerformanceReport extends PortfolioPerformance {
+  range: PerformanceRange | 'custom';
+}
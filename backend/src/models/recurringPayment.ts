@@ -0,0 +1,38 @@
+import { FrequencyConfig } from '../../../shared/recurrence';
+
+export { FrequencyConfig, FrequencyType } from '../../../shared/recurrence';
+
+export interface PaymentHistoryEntry {
+  date: string;
+  amount: number;
+  transactionId?: string;
+  status: 'paid' | 'skipped' | 'failed';
+}
+
+// Firestore shape written by the frontend's recurring payments page
+export interface RecurringPaymentModel {
+  id: string;
+  userId: string;
+  name: string;
+  amount: number;
+  frequency: FrequencyConfig | string; // Legacy documents store free text such as 'Monthly'
+  nextDueDate: string; // YYYY-MM-DD; the scheduled date, before any weekend shift
+  accountId?: string;
+  accountType?: 'bank' | 'credit';
+  category: string;
+  description?: string;
+  isActive: boolean;
+  isAutomatic: boolean;
+  lastPaid?: string;
+  paymentHistory?: PaymentHistoryEntry[];
+  tags?: string[];
+  calendarEventId?: string;
+}
+
+export interface RecurringPostingResult {
+  checked: number;
+  posted: number;
+  completed: number; // Schedules that reached their endDate
+  skipped: number;   // Custom schedules, which have no machine-readable rule
+  failed: number;
+}
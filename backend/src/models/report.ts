@@ -0,0 +1,108 @@
+export type ReportType = 'spending' | 'networth' | 'budget' | 'cashflow';
+
+export type ReportPeriodPreset =
+  | 'current-month'
+  | 'last-month'
+  | 'last-3-months'
+  | 'last-6-months'
+  | 'ytd'
+  | 'last-year'
+  | 'custom';
+
+export interface ReportPeriod {
+  preset: ReportPeriodPreset;
+  label: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+}
+
+// Normalized view of a manual or Plaid transaction used by every report builder, in the report's currency.
+// A split transaction appears once per line, each with the transaction's `id` and its line's `splitIndex`.
+export interface ReportTransaction {
+  id: string;
+  date: string;
+  amount: number; // Always positive, direction comes from `type`
+  type: 'income' | 'expense' | 'transfer' | 'payment';
+  category: string;
+  subcategory?: string;
+  tags?: string[];
+  description: string;
+  merchant?: string;
+  accountId: string;
+  accountType: 'bank' | 'credit';
+  source: 'manual' | 'plaid' | 'import';
+  incomeSourceId?: string;
+  insurancePolicyId?: string;
+  splitIndex?: number;
+}
+
+export interface SpendingReportData {
+  totalSpending: number;
+  averageDailySpending: number;
+  transactionCount: number;
+  byCategory: Array<{ category: string; amount: number; count: number; percentage: number }>;
+  byMonth: Array<{ month: string; amount: number }>;
+  topMerchants: Array<{ merchant: string; amount: number; count: number }>;
+}
+
+export interface NetWorthReportData {
+  asOf: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  assets: Array<{ id: string; name: string; type: string; balance: number }>;
+  liabilities: Array<{ id: string; name: string; type: string; balance: number; limit?: number }>;
+  periodCashFlow: number;
+}
+
+export interface BudgetReportData {
+  totalBudgeted: number;
+  totalSpent: number;
+  totalRemaining: number;
+  overBudgetCount: number;
+  budgets: Array<{
+    id: string;
+    name: string;
+    category: string;
+    period: string;
+    budgeted: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    status: 'under' | 'near' | 'over';
+  }>;
+  unbudgetedSpending: Array<{ category: string; amount: number }>;
+}
+
+export interface CashFlowReportData {
+  totalIncome: number;
+  totalExpenses: number;
+  netCashFlow: number;
+  savingsRate: number;
+  byMonth: Array<{ month: string; income: number; expenses: number; net: number }>;
+  incomeByCategory: Array<{ category: string; amount: number }>;
+  expensesByCategory: Array<{ category: string; amount: number }>;
+}
+
+export type ReportData = SpendingReportData | NetWorthReportData | BudgetReportData | CashFlowReportData;
+
+export interface GeneratedReport {
+  id: string;
+  userId: string;
+  type: ReportType;
+  name: string;
+  period: ReportPeriod;
+  currency?: string; // Every amount in `data` is in this currency; reports generated before currencies were tracked are USD
+  generatedAt: string;
+  sizeBytes: number;
+  data: ReportData;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const REPORT_NAMES: Record<ReportType, string> = {
+  spending: 'Monthly Spending Report',
+  networth: 'Net Worth Statement',
+  budget: 'Budget Performance',
+  cashflow: 'Cash Flow Summary'
+};
@@ -0,0 +1,74 @@
+import {
+  CsvColumnMapping,
+  DuplicateCheck,
+  StatementAccountType,
+  StatementDateFormat,
+  StatementFormat,
+  StatementRow,
+  StatementRowError,
+  StatementTransactionType
+} from '../../../shared/statementImport';
+
+export {
+  CsvColumnMapping,
+  DuplicateCheck,
+  StatementAccountType,
+  StatementFormat,
+  StatementRow,
+  StatementRowError
+} from '../../../shared/statementImport';
+
+// A saved CSV column mapping in `import_profiles`, named after the bank whose exports it reads
+export interface ImportProfileDocument {
+  id: string;
+  userId: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One import in `import_batches`; undoing it deletes the transactions it created
+export interface ImportBatchDocument {
+  id: string;
+  userId: string;
+  accountId: string;
+  accountType: StatementAccountType;
+  format: StatementFormat;
+  fileName: string;
+  transactionIds: string[];
+  importedCount: number;
+  skippedCount: number; // Duplicates and rows left out in the preview
+  errorCount: number; // Rows that could not be read
+  status: 'completed' | 'undone';
+  createdAt: Date;
+  undoneAt?: Date;
+}
+
+export interface StatementImportRequest {
+  accountId: string;
+  accountType: StatementAccountType;
+  fileName: string;
+  content: string;
+  format?: StatementFormat; // Detected from the file when missing
+  mapping?: CsvColumnMapping; // CSV; takes precedence over profileId
+  profileId?: string;
+  dateFormat?: StatementDateFormat; // QIF
+}
+
+export interface StatementPreviewRow extends StatementRow {
+  type: StatementTransactionType;
+  duplicate: DuplicateCheck | null;
+}
+
+export interface StatementPreview {
+  format: StatementFormat;
+  fileName: string;
+  accountId: string;
+  accountType: StatementAccountType;
+  headers?: string[];
+  rows: StatementPreviewRow[];
+  errors: StatementRowError[];
+  newCount: number;
+  duplicateCount: number;
+}
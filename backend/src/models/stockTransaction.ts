@@ -0,0 +1,39 @@
+import { CostBasisMethod, LotSelection, StockTransactionType } from '../../../shared/taxLots';
+
+export {
+  CostBasisMethod,
+  LotSelection,
+  StockTransactionType,
+  TaxLot,
+  RealizedGain,
+  Form8949Report,
+  DividendIncomeSummary
+} from '../../../shared/taxLots';
+
+// Firestore shape of a buy, sell, dividend or corporate action; the tax lot ledger is replayed from these
+export interface StockTransactionModel {
+  id: string;
+  userId: string;
+  type: StockTransactionType;
+  stockSymbol: string;
+  stockName: string;
+  shares: number; // Reinvested dividends: the shares bought; corporate actions: 0
+  price: number;
+  fees: number;
+  totalAmount: number; // Dividends: the amount paid
+  accountId: string; // Bank account affected
+  transactionId?: string; // Link to regular transaction, e.g. the income a cash dividend posted
+  date: string; // YYYY-MM-DD
+  // Sells only. Fixed when the sale is recorded, since the method has to be chosen at the time of sale
+  costBasisMethod?: CostBasisMethod;
+  lotSelections?: LotSelection[];
+  // Dividends only
+  reinvested?: boolean;
+  qualified?: boolean;
+  // Corporate actions; see LotTransaction in shared/taxLots for their meaning
+  ratio?: number;
+  newSymbol?: string;
+  basisAllocation?: number;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,3 +1,5 @@
+import { TaxEstimate } from '../../../shared/tax';
+
 export interface TaxFormData {
   id: string;
   userId: string;
@@ -11,12 +13,11 @@ export interface TaxFormData {
   lastModified: string;
   createdAt: string;
   updatedAt: string;
-  estimatedTax?: {
-    totalTax: number;
-    taxLiability: number;
-    refundAmount: number;
-    effectiveTaxRate: number;
-  };
+  // Computed by the shared tax engine on every save; never taken from the client.
+  // Null for years before the engine's first rules year
+  estimatedTax?: TaxEstimate | null;
+  // Incremented on every save; an update must name the version it was based on
+  version?: number;
 }
 
 export interface TaxDocument {
@@ -33,18 +34,67 @@ export interface TaxDocument {
   updatedAt: string;
 }
 
+export type AccountantAccessLevel = 'view_only' | 'edit_forms' | 'full_access';
+
+export type AccountantAccessStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'revoked';
+
 export interface AccountantClientAccess {
   id: string;
   userId: string;
-  accountantId: string;
+  // Set when the accountant accepts the invite
+  accountantId?: string;
+  accountantEmail: string;
   clientId: string;
-  accessLevel: 'view_only' | 'edit_forms' | 'full_access';
+  clientEmail: string;
+  accessLevel: AccountantAccessLevel;
   accessGranted: string;
   accessExpires: string;
+  // Empty means every tax year
   taxYears: number[];
-  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  status: AccountantAccessStatus;
   clientApprovalDate?: string;
   notes?: string;
+  // sha256 of the emailed invite token; cleared once the invite is accepted or revoked
+  tokenHash?: string;
+  inviteExpires?: string;
   createdAt: string;
   updatedAt: string;
+}
+
+export type AccountantNoteCategory = 'question' | 'recommendation' | 'concern' | 'completion';
+
+/**
+ * A note on a tax form. Notes without a parentNoteId start a thread; replies
+ * point at the thread's first note, which carries the thread's resolved state.
+ */
+export interface AccountantNote {
+  id: string;
+  userId: string;
+  taxFormId: string;
+  // The accountant on the thread; absent when the client started it
+  accountantId?: string;
+  clientId: string;
+  authorId: string;
+  authorRole: 'client' | 'accountant';
+  parentNoteId?: string;
+  noteText: string;
+  category: AccountantNoteCategory;
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdDate: string;
+}
+
+export interface TaxFormHistory {
+  id: string;
+  userId: string;
+  taxFormId: string;
+  changeDescription: string;
+  changedBy: string;
+  changedByRole: 'client' | 'accountant';
+  changeDate: string;
+  // The form version this change produced
+  version: number;
+  previousData: Partial<TaxFormData>;
+  newData: Partial<TaxFormData>;
 }
\ No newline at end of file
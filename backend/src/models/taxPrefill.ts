@@ -0,0 +1,103 @@
+export type TaxPrefillKind = 'w2Income' | 'form1099Income' | 'charitableContribution' | 'businessExpense';
+
+export type TaxPrefillStatus = 'pending' | 'accepted' | 'dismissed';
+
+// Where a proposal came from, so the user can check it before accepting
+export interface TaxPrefillSource {
+  type: 'transaction' | 'incomeSource' | 'taxDocument' | 'insurancePolicy' | 'stockTransaction';
+  id: string;
+  label: string;
+  date?: string;
+  amount?: number;
+}
+
+interface TaxPrefillProposalBase {
+  id: string; // Stable across runs, derived from the kind and the record it was built from
+  taxYear: number;
+  kind: TaxPrefillKind;
+  summary: string;
+  amount: number; // In USD
+  confidence: 'high' | 'medium' | 'low';
+  notes?: string;
+  transactionIds: string[];
+  sources: TaxPrefillSource[];
+  status: TaxPrefillStatus;
+}
+
+// Entries match the frontend tax form types, with links back to the transactions they came from
+export interface W2IncomeProposal extends TaxPrefillProposalBase {
+  kind: 'w2Income';
+  entry: {
+    id: string;
+    employer: string;
+    ein: string;
+    wages: number;
+    federalTaxWithheld: number;
+    socialSecurityWages: number;
+    socialSecurityTaxWithheld: number;
+    medicareWages: number;
+    medicareTaxWithheld: number;
+    stateTaxWithheld: number;
+    stateWages: number;
+    state: string;
+    sourceTransactionIds: string[];
+    sourceDocumentIds: string[];
+  };
+}
+
+export interface Form1099IncomeProposal extends TaxPrefillProposalBase {
+  kind: 'form1099Income';
+  qualifiedDividends?: number; // 1099-DIV box 1b, added to the return's qualified dividends on accept
+  entry: {
+    id: string;
+    type: '1099-INT' | '1099-DIV' | '1099-NEC' | '1099-MISC' | '1099-G' | '1099-R';
+    payer: string;
+    ein: string;
+    amount: number;
+    federalTaxWithheld: number;
+    stateTaxWithheld: number;
+    description: string;
+    sourceTransactionIds: string[];
+    sourceDocumentIds: string[];
+  };
+}
+
+export interface CharitableContributionProposal extends TaxPrefillProposalBase {
+  kind: 'charitableContribution';
+  entry: {
+    id: string;
+    organization: string;
+    amount: number;
+    type: 'cash' | 'property';
+    dateOfContribution: string;
+    sourceTransactionIds: string[];
+  };
+}
+
+export interface BusinessExpenseProposal extends TaxPrefillProposalBase {
+  kind: 'businessExpense';
+  businessName: string; // Schedule C business the expense belongs to
+  entry: {
+    id: string;
+    category: string;
+    description: string;
+    amount: number;
+    dateIncurred: string;
+    sourceTransactionIds: string[];
+  };
+}
+
+export type TaxPrefillProposal =
+  | W2IncomeProposal
+  | Form1099IncomeProposal
+  | CharitableContributionProposal
+  | BusinessExpenseProposal;
+
+// One document per reviewed proposal in `tax_prefill_decisions`
+export interface TaxPrefillDecision {
+  userId: string;
+  taxYear: number;
+  proposalId: string;
+  status: Exclude<TaxPrefillStatus, 'pending'>;
+  decidedAt: Date;
+}
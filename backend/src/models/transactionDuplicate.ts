@@ -0,0 +1,20 @@
+import { Transaction } from '../../../src/types';
+import { DuplicateReasons } from '../../../shared/transactionDuplicates';
+
+export { DuplicateReasons } from '../../../shared/transactionDuplicates';
+
+// A pair in `duplicate_dismissals` that the user said isn't one purchase; it stays out of the review queue
+export interface DuplicateDismissalDocument {
+  userId: string;
+  manualTransactionId: string;
+  plaidTransactionId: string; // The document ID in `plaid_transactions`, not Plaid's own ID
+  dismissedAt: Date;
+}
+
+// One entry in the review queue: a manual entry and the synced transaction that looks like it
+export interface DuplicatePair {
+  manual: Transaction;
+  plaid: Transaction;
+  score: number;
+  reasons: DuplicateReasons;
+}
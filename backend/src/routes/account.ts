@@ -0,0 +1,117 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { accountDataService, AccountDeletionError } from '../services/accountDataService';
+import { jobScheduler } from '../services/jobScheduler';
+import { ACCOUNT_EXPORTS_JOB } from '../jobs/accountExports';
+import { enhancedLogger } from '../utils/enhancedLogger';
+
+const router = express.Router();
+
+// Typed by the user in the confirmation dialog so an account can't be deleted by a stray request
+const DELETE_CONFIRMATION = 'DELETE';
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+router.use(authenticateToken);
+
+// GET /api/account/exports - The user's export requests, newest first
+router.get('/exports', async (req: AuthRequest, res, next) => {
+  try {
+    const exports = await accountDataService.listExports(req.userId!);
+    res.json(exports);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/account/exports - Queue an export of everything stored for the user
+router.post('/exports', async (req: AuthRequest, res, next) => {
+  try {
+    const result = await accountDataService.requestExport(req.userId!);
+
+    // Build it now rather than waiting for the next scheduled run; the job picks it up either way
+    if (result.created) {
+      jobScheduler.runNow(ACCOUNT_EXPORTS_JOB).catch(error => {
+        enhancedLogger.error('Failed to start account export job', {
+          userId: req.userId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+
+    res.status(result.created ? 202 : 200).json(result.export);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/account/exports/:id - Status of one export
+router.get('/exports/:id',
+  [param('id').isString().isLength({ min: 1, max: 128 })],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const exportRecord = await accountDataService.getExport(req.userId!, req.params.id as string);
+      if (!exportRecord) {
+        res.status(404).json({ error: 'Export not found' });
+        return;
+      }
+      res.json(exportRecord);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/account/exports/:id/download - The signed archive; the signature is sent in X-Export-Signature
+router.get('/exports/:id/download',
+  [param('id').isString().isLength({ min: 1, max: 128 })],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const download = await accountDataService.readArchive(req.userId!, req.params.id as string);
+      if (!download) {
+        res.status(404).json({ error: 'Export not found, not ready or expired' });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${download.filename}"`);
+      res.setHeader('X-Export-Signature', `sha256=${download.signature}`);
+      res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition, X-Export-Signature');
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(download.archive);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/account - Permanently delete the account and everything stored for it
+router.delete('/',
+  [body('confirm').equals(DELETE_CONFIRMATION).withMessage(`Type ${DELETE_CONFIRMATION} to confirm`)],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const result = await accountDataService.deleteAccount(req.userId!);
+      res.json({ message: 'Account deleted', ...result });
+    } catch (error) {
+      if (error instanceof AccountDeletionError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+export { router as accountRoutes };
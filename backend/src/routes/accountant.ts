@@ -0,0 +1,198 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticateAccountant, AuthRequest } from '../middleware/auth';
+import { loginValidation, newPasswordValidation } from '../middleware/security';
+import { accountantService, AccountantAccessError, NoteAuthor } from '../services/accountantService';
+import { TaxFormError, TaxFormVersionConflictError } from '../services/taxFormService';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const handleAccessError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof TaxFormVersionConflictError) {
+    res.status(error.statusCode).json({ error: error.message, currentVersion: error.currentVersion });
+    return;
+  }
+  if (error instanceof AccountantAccessError || error instanceof TaxFormError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  if (error instanceof Error && error.message === 'Invalid credentials') {
+    res.status(401).json({ error: 'Invalid email or password' });
+    return;
+  }
+  next(error);
+};
+
+const accountant = (req: AuthRequest): NoteAuthor => ({ id: req.userId!, role: 'accountant' });
+
+const ipOf = (req: express.Request): string => req.ip || req.socket.remoteAddress || 'unknown';
+
+const formParams = [param('clientId').isString().notEmpty(), param('formId').isString().notEmpty()];
+
+// POST /api/accountant/auth/accept - Accept an emailed invite and start an accountant session
+router.post('/auth/accept',
+  [body('token').isHexadecimal().isLength({ min: 64, max: 64 }), newPasswordValidation],
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.acceptInvite(req.body.token, req.body.password, ipOf(req)));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// POST /api/accountant/auth/login - Start an accountant session
+router.post('/auth/login',
+  loginValidation,
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.login(req.body.email, req.body.password, ipOf(req)));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+router.use(authenticateAccountant);
+
+// GET /api/accountant/clients - Clients whose access is approved and unexpired
+router.get('/clients', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    res.json(await accountantService.listClients(req.userId!));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/accountant/clients/:clientId/forms - The client's forms for the tax years shared
+router.get('/clients/:clientId/forms',
+  [param('clientId').isString().notEmpty(), query('taxYear').optional().isInt({ min: 2020, max: 2030 }).toInt()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const taxYear = req.query.taxYear === undefined ? undefined : Number(req.query.taxYear);
+      res.json(await accountantService.listClientForms(req.userId!, req.params.clientId!, taxYear));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// GET /api/accountant/clients/:clientId/forms/:formId - One of the client's forms
+router.get('/clients/:clientId/forms/:formId',
+  formParams,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.getClientForm(req.userId!, req.params.clientId!, req.params.formId!));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/accountant/clients/:clientId/forms/:formId - Edit the version of the form named in the body; recorded in the form's history
+router.put('/clients/:clientId/forms/:formId',
+  [
+    ...formParams,
+    body('filingStatus').optional().isIn(['single', 'married_jointly', 'married_separately', 'head_of_household', 'qualifying_widow']),
+    body('personalInfo').optional().isObject(),
+    body('incomeData').optional().isObject(),
+    body('deductionsData').optional().isObject(),
+    body('creditsData').optional().isObject(),
+    body('status').optional().isIn(['reviewed', 'filed']),
+    body('version').isInt({ min: 0 }).toInt(),
+    body('changeDescription').optional().isString().isLength({ max: 500 })
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { version, changeDescription, filingStatus, personalInfo, incomeData, deductionsData, creditsData, status } = req.body;
+      const form = await accountantService.updateClientForm(
+        req.userId!,
+        req.params.clientId!,
+        req.params.formId!,
+        { filingStatus, personalInfo, incomeData, deductionsData, creditsData, status },
+        version,
+        changeDescription
+      );
+      res.json(form);
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// GET /api/accountant/clients/:clientId/forms/:formId/notes - Notes on the form, oldest first
+router.get('/clients/:clientId/forms/:formId/notes',
+  formParams,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.listNotes(accountant(req), req.params.clientId!, req.params.formId!));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// POST /api/accountant/clients/:clientId/forms/:formId/notes - Start a thread or reply to one
+router.post('/clients/:clientId/forms/:formId/notes',
+  [
+    ...formParams,
+    body('noteText').isString().trim().isLength({ min: 1, max: 5000 }),
+    body('category').optional().isIn(['question', 'recommendation', 'concern', 'completion']),
+    body('parentNoteId').optional().isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const note = await accountantService.addNote(accountant(req), req.params.clientId!, req.params.formId!, req.body);
+      res.status(201).json(note);
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/accountant/clients/:clientId/forms/:formId/notes/:noteId/resolved - Resolve or reopen a thread
+router.put('/clients/:clientId/forms/:formId/notes/:noteId/resolved',
+  [...formParams, param('noteId').isString().notEmpty(), body('resolved').isBoolean().toBoolean()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const note = await accountantService.setResolved(
+        accountant(req), req.params.clientId!, req.params.formId!, req.params.noteId!, req.body.resolved);
+      res.json(note);
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// GET /api/accountant/clients/:clientId/forms/:formId/history - Accountant edits to the form, newest first
+router.get('/clients/:clientId/forms/:formId/history',
+  formParams,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.getHistory(accountant(req), req.params.clientId!, req.params.formId!));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+export { router as accountantRoutes };
@@ -0,0 +1,144 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { accountantService, AccountantAccessError, NoteAuthor } from '../services/accountantService';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const handleAccessError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof AccountantAccessError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  next(error);
+};
+
+const client = (req: AuthRequest): NoteAuthor => ({ id: req.userId!, role: 'client' });
+
+const noteValidators = [
+  body('noteText').isString().trim().isLength({ min: 1, max: 5000 }),
+  body('category').optional().isIn(['question', 'recommendation', 'concern', 'completion']),
+  body('parentNoteId').optional().isString().notEmpty()
+];
+
+router.use(authenticateToken);
+
+// GET /api/accountant-access - Accountants the user has invited, with their current status
+router.get('/', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    res.json(await accountantService.listForClient(req.userId!));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/accountant-access - Invite an accountant by email
+router.post('/',
+  [
+    body('accountantEmail').isEmail().normalizeEmail(),
+    body('accessLevel').isIn(['view_only', 'edit_forms', 'full_access']),
+    body('accessExpires').isISO8601(),
+    body('taxYears').optional().isArray(),
+    body('taxYears.*').isInt({ min: 2020, max: 2030 }).toInt(),
+    body('notes').optional().isString().isLength({ max: 1000 })
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const result = await accountantService.invite(req.userId!, req.user!.email, {
+        accountantEmail: req.body.accountantEmail,
+        accessLevel: req.body.accessLevel,
+        accessExpires: req.body.accessExpires,
+        taxYears: req.body.taxYears ?? [],
+        ...(req.body.notes && { notes: req.body.notes })
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// POST /api/accountant-access/:id/revoke - End an accountant's access or cancel a pending invite
+router.post('/:id/revoke',
+  [param('id').isString().notEmpty()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const access = await accountantService.revoke(req.userId!, req.params.id!);
+      if (!access) {
+        res.status(404).json({ error: 'Accountant access not found' });
+        return;
+      }
+      res.json(access);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/accountant-access/forms/:formId/notes - Notes on one of the user's forms, oldest first
+router.get('/forms/:formId/notes',
+  [param('formId').isString().notEmpty()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.listNotes(client(req), req.userId!, req.params.formId!));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// POST /api/accountant-access/forms/:formId/notes - Start a thread or reply to one
+router.post('/forms/:formId/notes',
+  [param('formId').isString().notEmpty(), ...noteValidators],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const note = await accountantService.addNote(client(req), req.userId!, req.params.formId!, req.body);
+      res.status(201).json(note);
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/accountant-access/forms/:formId/notes/:noteId/resolved - Resolve or reopen a thread
+router.put('/forms/:formId/notes/:noteId/resolved',
+  [param('formId').isString().notEmpty(), param('noteId').isString().notEmpty(), body('resolved').isBoolean().toBoolean()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const note = await accountantService.setResolved(client(req), req.userId!, req.params.formId!, req.params.noteId!, req.body.resolved);
+      res.json(note);
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+// GET /api/accountant-access/forms/:formId/history - Changes accountants made to the form, newest first
+router.get('/forms/:formId/history',
+  [param('formId').isString().notEmpty()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await accountantService.getHistory(client(req), req.userId!, req.params.formId!));
+    } catch (error) {
+      handleAccessError(error, res, next);
+    }
+  }
+);
+
+export { router as accountantAccessRoutes };
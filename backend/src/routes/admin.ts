@@ -0,0 +1,80 @@
+import express from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { jobScheduler } from '../services/jobScheduler';
+import { JobRunStatus } from '../models/job';
+
+const router = express.Router();
+
+const RUN_STATUSES: JobRunStatus[] = ['running', 'retrying', 'succeeded', 'failed'];
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+router.use(authenticateToken, requireAdmin);
+
+// GET /api/admin/jobs - Registered jobs with their persisted schedule state
+router.get('/jobs', async (_req: AuthRequest, res, next) => {
+  try {
+    const jobs = await jobScheduler.listJobs();
+    res.json(jobs);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/jobs/runs?job=bank-sync&status=failed&limit=20 - Run history, newest first
+router.get('/jobs/runs',
+  [
+    query('job').optional().isString(),
+    query('status').optional().isIn(RUN_STATUSES),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const runs = await jobScheduler.listRuns({
+        ...(req.query.job && { jobName: req.query.job as string }),
+        ...(req.query.status && { status: req.query.status as JobRunStatus }),
+        limit: (req.query.limit as unknown as number) || 50
+      });
+      res.json(runs);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/jobs/:name/run - Trigger a job outside its schedule
+router.post('/jobs/:name/run',
+  [param('name').isString()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const name = req.params.name as string;
+      if (!jobScheduler.getDefinition(name)) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      const run = await jobScheduler.runNow(name, 'manual');
+      if (!run) {
+        res.status(409).json({ error: 'Job is already running' });
+        return;
+      }
+
+      res.json(run);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as adminRoutes };
@@ -0,0 +1,63 @@
+import express from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { calendarFeedService } from '../services/calendarFeedService';
+import { enhancedLogger } from '../utils/enhancedLogger';
+
+const router = express.Router();
+
+const feedUrl = (req: express.Request, token: string): string => {
+  const baseUrl = process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/api/calendar/feed/${token}.ics`;
+};
+
+// GET /api/calendar/feed - Whether a feed is enabled (the token itself is only shown once)
+router.get('/feed', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const info = await calendarFeedService.getFeedInfo(req.userId!);
+    res.json(info);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/calendar/feed - Create a feed URL, invalidating any previous one
+router.post('/feed', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const token = await calendarFeedService.createToken(req.userId!);
+    res.status(201).json({ url: feedUrl(req, token) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/calendar/feed - Revoke the feed URL
+router.delete('/feed', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    await calendarFeedService.revokeToken(req.userId!);
+    res.json({ message: 'Calendar feed revoked' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/calendar/feed/:token.ics - The feed itself; the token in the URL is the credential
+router.get('/feed/:token.ics', async (req, res, next) => {
+  try {
+    const userId = await calendarFeedService.resolveToken(req.params.token as string);
+    if (!userId) {
+      enhancedLogger.logSecurityEvent('CALENDAR_FEED_INVALID_TOKEN', { ip: req.ip });
+      res.status(404).json({ error: 'Calendar feed not found' });
+      return;
+    }
+
+    const calendar = await calendarFeedService.buildFeed(userId);
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="flourish-funds.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.send(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as calendarRoutes };
@@ -0,0 +1,207 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { categorizationRuleService, CategorizationRuleError } from '../services/categorizationRuleService';
+import { NewCategorizationRule, RuleActions, RuleConditions, RuleHistoryRequest } from '../models/categorizationRule';
+import { BUILT_IN_RULES, MAX_USER_PRIORITY, patternError } from '../../../shared/categorizationRules';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const ruleValidation = [
+  body('name').isString().trim().notEmpty().isLength({ max: 100 }),
+  body('priority').isInt({ min: 0, max: MAX_USER_PRIORITY }).toInt(),
+  body('enabled').optional().isBoolean().toBoolean(),
+  body('conditions').isObject(),
+  body('conditions.descriptionPattern').optional({ values: 'falsy' }).isString().custom(pattern => {
+    const error = patternError(pattern);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  }),
+  body('conditions.minAmount').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body('conditions.maxAmount').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body('conditions.accountIds').optional().isArray({ max: 50 }),
+  body('conditions.accountIds.*').isString().notEmpty(),
+  body('conditions.plaidCategory').optional({ values: 'falsy' }).isString().trim().isLength({ max: 100 }),
+  body('conditions').custom((conditions: RuleConditions) => {
+    const { descriptionPattern, minAmount, maxAmount, accountIds, plaidCategory } = conditions;
+    if (!descriptionPattern && minAmount == null && maxAmount == null && !accountIds?.length && !plaidCategory) {
+      throw new Error('Add at least one condition');
+    }
+    if (minAmount != null && maxAmount != null && Number(minAmount) > Number(maxAmount)) {
+      throw new Error('The minimum amount must not be above the maximum');
+    }
+    return true;
+  }),
+  body('actions').isObject(),
+  body('actions.category').optional({ values: 'falsy' }).isString().trim().isLength({ max: 50 }),
+  body('actions.subcategory').optional({ values: 'falsy' }).isString().trim().isLength({ max: 100 }),
+  body('actions.tags').optional().isArray({ max: 20 }),
+  body('actions.tags.*').isString().trim().notEmpty().isLength({ max: 50 }),
+  body('actions.incomeSourceId').optional({ values: 'falsy' }).isString(),
+  body('actions.hidden').optional({ values: 'null' }).isBoolean().toBoolean(),
+  body('actions').custom((actions: RuleActions) => {
+    const { category, subcategory, tags, incomeSourceId, hidden } = actions;
+    if (!category && !subcategory && !tags?.length && !incomeSourceId && hidden == null) {
+      throw new Error('Add at least one action');
+    }
+    return true;
+  })
+];
+
+const historyValidation = [
+  body('ruleIds').optional().isArray({ min: 1, max: 100 }),
+  body('ruleIds.*').isString().notEmpty()
+];
+
+// Only the rule's known fields are kept
+const ruleOf = (rule: NewCategorizationRule): NewCategorizationRule => {
+  const { descriptionPattern, minAmount, maxAmount, accountIds, plaidCategory } = rule.conditions;
+  const { category, subcategory, tags, incomeSourceId, hidden } = rule.actions;
+  return {
+    name: rule.name,
+    priority: rule.priority,
+    enabled: rule.enabled ?? true,
+    conditions: {
+      ...(descriptionPattern && { descriptionPattern }),
+      ...(minAmount != null && { minAmount }),
+      ...(maxAmount != null && { maxAmount }),
+      ...(accountIds?.length && { accountIds }),
+      ...(plaidCategory && { plaidCategory })
+    },
+    actions: {
+      ...(category && { category }),
+      ...(subcategory && { subcategory }),
+      ...(tags?.length && { tags: [...new Set(tags)] }),
+      ...(incomeSourceId && { incomeSourceId }),
+      ...(hidden != null && { hidden })
+    }
+  };
+};
+
+const historyRequestOf = (body: RuleHistoryRequest): RuleHistoryRequest => ({
+  ...(body.ruleIds && { ruleIds: body.ruleIds }),
+  ...(body.transactionIds && { transactionIds: body.transactionIds })
+});
+
+const sendRuleError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof CategorizationRuleError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  next(error);
+};
+
+// GET /api/categorization-rules - Get the user's rules, and the built-in Plaid category rules that run after them
+router.get('/',
+  authenticateToken,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const rules = await categorizationRuleService.list(req.userId!);
+      res.json({ rules, builtInRules: BUILT_IN_RULES });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/categorization-rules - Create a rule; it applies to transactions added from now on
+router.post('/',
+  authenticateToken,
+  ruleValidation,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const rule = await categorizationRuleService.create(req.userId!, ruleOf(req.body));
+      res.status(201).json(rule);
+    } catch (error) {
+      sendRuleError(error, res, next);
+    }
+  }
+);
+
+// POST /api/categorization-rules/history/preview - Show what re-running rules on existing transactions would change
+router.post('/history/preview',
+  authenticateToken,
+  historyValidation,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const preview = await categorizationRuleService.previewHistory(req.userId!, historyRequestOf(req.body));
+      res.json(preview);
+    } catch (error) {
+      sendRuleError(error, res, next);
+    }
+  }
+);
+
+// POST /api/categorization-rules/history/apply - Re-run rules on existing transactions, or only the chosen ones
+router.post('/history/apply',
+  authenticateToken,
+  [
+    ...historyValidation,
+    body('transactionIds').optional().isArray({ max: 10000 }),
+    body('transactionIds.*').isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const result = await categorizationRuleService.applyHistory(req.userId!, historyRequestOf(req.body));
+      res.json(result);
+    } catch (error) {
+      sendRuleError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/categorization-rules/:id - Replace a rule
+router.put('/:id',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty(),
+    ...ruleValidation
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const rule = await categorizationRuleService.update(req.userId!, req.params.id!, ruleOf(req.body));
+      res.json(rule);
+    } catch (error) {
+      sendRuleError(error, res, next);
+    }
+  }
+);
+
+// DELETE /api/categorization-rules/:id - Delete a rule; transactions it already categorized keep their fields
+router.delete('/:id',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const deleted = await categorizationRuleService.delete(req.userId!, req.params.id!);
+      if (!deleted) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+      res.json({ message: 'Rule deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as categorizationRuleRoutes };
@@ -0,0 +1,75 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { fxRateService } from '../services/fxRateService';
+import { rebaseRateTable, SUPPORTED_CURRENCIES } from '../../../shared/currency';
+
+const router = express.Router();
+
+const CURRENCY_CODES = SUPPORTED_CURRENCIES.map(currency => currency.code);
+const MAX_RATE_RANGE_DAYS = 731;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+router.use(authenticateToken);
+
+// GET /api/currency/settings - The user's base currency and the currencies they can choose from
+router.get('/settings', async (req: AuthRequest, res, next) => {
+  try {
+    const baseCurrency = await fxRateService.getBaseCurrency(req.userId!);
+    res.json({ baseCurrency, supportedCurrencies: SUPPORTED_CURRENCIES });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/currency/settings - Change the currency totals are reported in
+router.put('/settings',
+  [body('baseCurrency').isIn(CURRENCY_CODES)],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const baseCurrency = await fxRateService.setBaseCurrency(req.userId!, req.body.baseCurrency);
+      res.json({ baseCurrency, supportedCurrencies: SUPPORTED_CURRENCIES });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/currency/rates?startDate=2024-01-01&endDate=2024-01-31&base=EUR - Daily rates for a range
+router.get('/rates',
+  [
+    query('startDate').isISO8601({ strict: true }),
+    query('endDate').isISO8601({ strict: true }),
+    query('base').optional().isIn(CURRENCY_CODES)
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const startDate = String(req.query.startDate).slice(0, 10);
+      const endDate = String(req.query.endDate).slice(0, 10);
+      if (startDate > endDate || Date.parse(endDate) - Date.parse(startDate) > MAX_RATE_RANGE_DAYS * DAY_MS) {
+        res.status(400).json({ error: `startDate must be on or before endDate and at most ${MAX_RATE_RANGE_DAYS} days earlier` });
+        return;
+      }
+
+      const base = req.query.base ? String(req.query.base) : await fxRateService.getBaseCurrency(req.userId!);
+      const table = await fxRateService.getRateTable(startDate, endDate);
+      res.json(rebaseRateTable(table, base));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as currencyRoutes };
@@ -1,7 +1,7 @@
 import express from 'express';
 import { insuranceService } from '../services/insuranceService';
 import { auth } from '../middleware/auth';
-import { upload } from '../middleware/upload';
+import { uploadDocument } from '../middleware/upload';
 import { auditLog } from '../middleware/auditLogger';
 
 const router = express.Router();
@@ -119,7 +119,7 @@ router.put('/claims/:id/status', auth, async (req, res) => {
 });
 
 // Document Routes
-router.post('/documents', auth, upload.single('file'), async (req, res) => {
+router.post('/documents', auth, uploadDocument.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
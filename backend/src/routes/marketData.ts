@@ -0,0 +1,97 @@
+import express from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { MarketDataError, marketDataService } from '../services/marketDataService';
+
+const router = express.Router();
+
+const MAX_QUOTE_SYMBOLS = 50;
+const MAX_HISTORY_DAYS = 5 * 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SYMBOL_PATTERN = /^[A-Za-z0-9.-]{1,12}$/;
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const handleMarketDataError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof MarketDataError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  next(error);
+};
+
+router.use(authenticateToken);
+
+// GET /api/market-data/quotes?symbols=AAPL,MSFT - Latest quotes for up to 50 symbols in one request
+router.get('/quotes',
+  [
+    query('symbols').isString().custom((value: string) => {
+      const symbols = value.split(',').map(symbol => symbol.trim()).filter(Boolean);
+      if (symbols.length === 0 || symbols.length > MAX_QUOTE_SYMBOLS) {
+        throw new Error(`symbols must list between 1 and ${MAX_QUOTE_SYMBOLS} symbols`);
+      }
+      if (!symbols.every(symbol => SYMBOL_PATTERN.test(symbol))) {
+        throw new Error('symbols contains an invalid symbol');
+      }
+      return true;
+    })
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const quotes = await marketDataService.getQuotes(String(req.query.symbols).split(','));
+      res.json(quotes);
+    } catch (error) {
+      handleMarketDataError(error, res, next);
+    }
+  }
+);
+
+// GET /api/market-data/history/AAPL?startDate=2024-01-01&endDate=2024-12-31 - Daily closes for a range
+router.get('/history/:symbol',
+  [
+    param('symbol').matches(SYMBOL_PATTERN),
+    query('startDate').isISO8601({ strict: true }),
+    query('endDate').isISO8601({ strict: true })
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const startDate = String(req.query.startDate).slice(0, 10);
+      const endDate = String(req.query.endDate).slice(0, 10);
+      if (startDate > endDate || Date.parse(endDate) - Date.parse(startDate) > MAX_HISTORY_DAYS * DAY_MS) {
+        res.status(400).json({ error: `startDate must be on or before endDate and at most ${MAX_HISTORY_DAYS} days earlier` });
+        return;
+      }
+
+      const closes = await marketDataService.getDailyCloses(req.params.symbol, startDate, endDate);
+      res.json(closes);
+    } catch (error) {
+      handleMarketDataError(error, res, next);
+    }
+  }
+);
+
+// GET /api/market-data/search?q=apple - Symbols matching a ticker or company name
+router.get('/search',
+  [query('q').isString().trim().isLength({ min: 1, max: 50 })],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const matches = await marketDataService.searchSymbols(String(req.query.q));
+      res.json(matches);
+    } catch (error) {
+      handleMarketDataError(error, res, next);
+    }
+  }
+);
+
+export { router as marketDataRoutes };
@@ -0,0 +1,79 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { netWorthService } from '../services/netWorthService';
+import { NetWorthGranularity, NetWorthRange } from '../models/netWorthSnapshot';
+import { FxConversionError } from '../../../shared/currency';
+
+const router = express.Router();
+
+const RANGES: NetWorthRange[] = ['1m', '3m', '6m', '1y', 'ytd', 'all'];
+const GRANULARITIES: NetWorthGranularity[] = ['daily', 'weekly', 'monthly'];
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// GET /api/net-worth/current - Current balances, calculated live
+router.get('/current', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const current = await netWorthService.calculateCurrent(req.userId!);
+    res.json(current);
+  } catch (error) {
+    if (error instanceof FxConversionError) {
+      res.status(422).json({ error: error.message, currency: error.currency });
+      return;
+    }
+    next(error);
+  }
+});
+
+// GET /api/net-worth/history?range=6m&granularity=monthly - Historical snapshots
+router.get('/history',
+  authenticateToken,
+  [
+    query('range').optional().isIn(RANGES),
+    query('granularity').optional().isIn(GRANULARITIES)
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const range = (req.query.range as NetWorthRange | undefined) || '6m';
+      const granularity = (req.query.granularity as NetWorthGranularity | undefined) || 'monthly';
+
+      // Keep today's point current so the chart always ends at live balances
+      await netWorthService.recordSnapshot(req.userId!);
+
+      const history = await netWorthService.getHistory(req.userId!, range, granularity);
+      res.json(history);
+    } catch (error) {
+      if (error instanceof FxConversionError) {
+        res.status(422).json({ error: error.message, currency: error.currency });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/net-worth/snapshots - Record today's snapshot
+router.post('/snapshots', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const snapshot = await netWorthService.recordSnapshot(req.userId!);
+    res.status(201).json(snapshot);
+  } catch (error) {
+    if (error instanceof FxConversionError) {
+      res.status(422).json({ error: error.message, currency: error.currency });
+      return;
+    }
+    next(error);
+  }
+});
+
+export { router as netWorthRoutes };
@@ -1,8 +1,7 @@
 import express from 'express';
 import { BaseService } from '../services/baseService';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { CreditCardNotificationService } from '../services/creditCardNotificationService';
-import { EmailService } from '../services/emailService';
+import { DEFAULT_NOTIFICATION_PREFERENCES, notificationPipelineService } from '../services/notificationPipelineService';
 
 const router = express.Router();
 const notificationService = new BaseService('notifications');
@@ -17,14 +16,7 @@ router.get('/preferences', authenticateToken, async (req: AuthRequest, res, next
     if (!preferences || preferences.length === 0) {
       const defaultPreferences = {
         userId: req.userId!,
-        emailNotifications: true,
-        pushNotifications: false,
-        balanceReminders: true,
-        paymentReminders: true,
-        bonusAlerts: true,
-        utilizationWarnings: true,
-        reminderDays: [7, 3, 1],
-        notificationTime: '09:00'
+        ...DEFAULT_NOTIFICATION_PREFERENCES
       };
       
       const id = await notificationPreferencesService.create(defaultPreferences);
@@ -102,17 +94,16 @@ router.patch('/:id/dismiss', authenticateToken, async (req: AuthRequest, res, ne
   }
 });
 
-// Check for due notifications (for scheduled job)
+// Check the current user's cards for due notifications now, regardless of their notification time.
+// The credit-card-notifications job runs the same check for every user on a schedule.
 router.post('/check-due', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
-    // This endpoint would be called by a scheduled job to check for due notifications
-    // In a real implementation, this would:
-    // 1. Fetch all active credit cards for all users
-    // 2. Generate notifications for each card
-    // 3. Send emails for high priority notifications
-    // 4. Store notifications in database
-    
-    res.json({ message: 'Notification check completed' });
+    const result = await notificationPipelineService.checkDue(new Date(), {
+      userId: req.userId!,
+      ignoreNotificationTime: true
+    });
+
+    res.json({ message: 'Notification check completed', ...result });
   } catch (error) {
     next(error);
   }
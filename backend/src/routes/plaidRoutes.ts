@@ -1,9 +1,12 @@
 import express from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import PlaidService from '../services/plaidService';
+import PlaidService, { PlaidWebhookPayload } from '../services/plaidService';
 import FirebaseBankConnectionService from '../services/firebaseBankConnectionService';
 import CreditCardMappingService from '../services/creditCardMappingService';
+import { PlaidWebhookVerifier } from '../services/plaidWebhookVerifier';
+import { FakePlaidWebhookSigner } from '../services/fakePlaidWebhookSigner';
+import { enhancedLogger } from '../utils/enhancedLogger';
 
 const router = express.Router();
 
@@ -18,6 +21,16 @@ const plaidService = new PlaidService(plaidConfig);
 const bankConnectionService = new FirebaseBankConnectionService(plaidConfig);
 const mappingService = new CreditCardMappingService();
 
+// Outside production, PLAID_WEBHOOK_FAKE_SIGNER_SECRET swaps Plaid's signing keys for a local fake signer
+const fakeSignerSecret = process.env.PLAID_WEBHOOK_FAKE_SIGNER_SECRET;
+const webhookVerifier = new PlaidWebhookVerifier(
+  fakeSignerSecret && process.env.NODE_ENV !== 'production'
+    ? new FakePlaidWebhookSigner(fakeSignerSecret).resolveKey
+    : keyId => plaidService.getWebhookVerificationKey(keyId)
+);
+
+const HANDLED_WEBHOOK_TYPES = ['TRANSACTIONS', 'ITEM'];
+
 // Validation middleware
 const handleValidationErrors = (req: any, res: any, next: any) => {
   const errors = validationResult(req);
@@ -43,6 +56,37 @@ const updateMappingValidation = [
   body('isActive').optional().isBoolean(),
 ];
 
+// Plaid webhook receiver; authenticated by the Plaid-Verification signature instead of a user token
+router.post('/webhook', async (req: express.Request & { rawBody?: Buffer }, res) => {
+  try {
+    await webhookVerifier.verify(req.get('Plaid-Verification'), req.rawBody);
+  } catch (error) {
+    enhancedLogger.logSecurityEvent('PLAID_WEBHOOK_REJECTED', {
+      timestamp: new Date().toISOString(),
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      reason: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(401).json({ error: 'Invalid webhook signature' });
+    return;
+  }
+
+  const payload = req.body as PlaidWebhookPayload;
+  if (!payload || typeof payload.item_id !== 'string' || typeof payload.webhook_code !== 'string') {
+    res.status(400).json({ error: 'Malformed webhook payload' });
+    return;
+  }
+
+  // Acknowledge right away; Plaid retries webhooks that are slow to answer
+  res.json({ received: true });
+
+  if (HANDLED_WEBHOOK_TYPES.includes(payload.webhook_type)) {
+    bankConnectionService.handleWebhook(payload).catch(error => {
+      console.error('Error handling Plaid webhook:', error);
+    });
+  }
+});
+
 // Create link token for Plaid Link
 router.post('/link/token', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -119,18 +163,12 @@ router.post('/connections/:connectionId/sync', authenticateToken, async (req: Au
   try {
     const userId = req.userId;
     const { connectionId } = req.params;
-    const { startDate, endDate } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const result = await bankConnectionService.syncTransactions(
-      connectionId,
-      userId,
-      startDate,
-      endDate
-    );
+    const result = await bankConnectionService.syncTransactions(connectionId, userId);
 
     res.json(result);
   } catch (error) {
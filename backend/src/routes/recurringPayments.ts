@@ -1,25 +1,49 @@
 import express from 'express';
 import { BaseService } from '../services/baseService';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { recurringPaymentService as postingService } from '../services/recurringPaymentService';
+import { normalizeFrequency, parseRRule, RecurrenceRuleError, toDateOnly } from '../../../shared/recurrence';
+import { RecurringPaymentModel } from '../models/recurringPayment';
 
 const router = express.Router();
 const recurringPaymentService = new BaseService('recurringPayments');
 
-interface RecurringPayment {
-  id: string;
-  userId: string;
-  name: string;
-  amount: number;
-  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  nextPaymentDate: Date;
-  category: string;
-  paymentMethod: string;
-  accountId?: string;
-  isActive: boolean;
-  lastProcessed?: Date;
-  createdAt: Date;
-  updatedAt: Date;
-}
+// Older clients send `nextPaymentDate` and a free-text frequency; store the current shape instead.
+// A schedule may also come as an RFC 5545 `rrule` copied from a calendar, which replaces `frequency`.
+// A date that does not parse is refused rather than failing the whole request with a RangeError
+const toLegacyDate = (value: unknown, field: string): string => {
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new RecurrenceRuleError(`${field} is not a valid date: ${String(value)}`);
+  }
+  return toDateOnly(date);
+};
+
+const migrateLegacyFields = (body: Record<string, unknown>): Partial<RecurringPaymentModel> => {
+  const { nextPaymentDate, lastProcessed, rrule, ...data } = body;
+  const nextDueDate = data.nextDueDate || nextPaymentDate;
+  const dueDate = nextDueDate !== undefined
+    ? toLegacyDate(nextDueDate, data.nextDueDate ? 'nextDueDate' : 'nextPaymentDate')
+    : undefined;
+  const frequency = typeof rrule === 'string' ? parseRRule(rrule, dueDate) : data.frequency;
+
+  return {
+    ...data,
+    ...(frequency !== undefined && {
+      frequency: normalizeFrequency(frequency as RecurringPaymentModel['frequency'], dueDate)
+    }),
+    ...(dueDate !== undefined && { nextDueDate: dueDate }),
+    ...(lastProcessed !== undefined && { lastPaid: toLegacyDate(lastProcessed, 'lastProcessed') })
+  };
+};
+
+const sendRecurrenceError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof RecurrenceRuleError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  next(error);
+};
 
 // Get all recurring payments
 router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
@@ -47,15 +71,28 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
 // Create new recurring payment
 router.post('/', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
+    const data = migrateLegacyFields(req.body);
+    const nextDueDate = data.nextDueDate ?? toDateOnly(new Date());
     const paymentData = {
-      ...req.body,
+      ...data,
+      frequency: data.frequency ?? normalizeFrequency('monthly', nextDueDate),
+      nextDueDate,
       userId: req.userId!,
-      isActive: true,
-      nextPaymentDate: new Date(req.body.nextPaymentDate || Date.now())
+      isActive: true
     };
     
     const id = await recurringPaymentService.create(paymentData);
     res.status(201).json({ id, message: 'Recurring payment created successfully' });
+  } catch (error) {
+    sendRecurrenceError(error, res, next);
+  }
+});
+
+// Post the current user's due automatic payments now instead of waiting for the scheduled job
+router.post('/process', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await postingService.postDuePayments(new Date(), { userId: req.userId! });
+    res.json(result);
   } catch (error) {
     next(error);
   }
@@ -64,20 +101,12 @@ router.post('/', authenticateToken, async (req: AuthRequest, res, next) => {
 // Update recurring payment
 router.put('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
-    const updateData = { ...req.body };
-    
-    if (updateData.nextPaymentDate) {
-      updateData.nextPaymentDate = new Date(updateData.nextPaymentDate);
-    }
-    
-    if (updateData.lastProcessed) {
-      updateData.lastProcessed = new Date(updateData.lastProcessed);
-    }
-    
+    const updateData = migrateLegacyFields(req.body);
+
     await recurringPaymentService.update(req.params.id, req.userId!, updateData);
     res.json({ message: 'Recurring payment updated successfully' });
   } catch (error) {
-    next(error);
+    sendRecurrenceError(error, res, next);
   }
 });
 
@@ -0,0 +1,148 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { reportService, ReportPeriodError } from '../services/reportService';
+import { REPORT_EXPORT_FORMATS, ReportExportFormat, reportExportService } from '../services/reportExportService';
+import { GeneratedReport, ReportPeriodPreset, ReportType } from '../models/report';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { FxConversionError } from '../../../shared/currency';
+
+const router = express.Router();
+
+const REPORT_TYPES: ReportType[] = ['spending', 'networth', 'budget', 'cashflow'];
+const PERIOD_PRESETS: ReportPeriodPreset[] = ['current-month', 'last-month', 'last-3-months', 'last-6-months', 'ytd', 'last-year', 'custom'];
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// Listing responses only carry metadata; the report body is fetched per report
+const toSummary = ({ data, ...metadata }: GeneratedReport) => metadata;
+
+// GET /api/reports - List generated reports
+router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const reports = await reportService.getAll(req.userId!);
+    res.json(reports.map(toSummary));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/reports - Generate and store a report for a period
+router.post('/',
+  authenticateToken,
+  [
+    body('type').isIn(REPORT_TYPES),
+    body('period').isIn(PERIOD_PRESETS),
+    body('startDate').if(body('period').equals('custom')).isISO8601({ strict: true }),
+    body('endDate').if(body('period').equals('custom')).isISO8601({ strict: true })
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { type, period, startDate, endDate } = req.body;
+      const resolvedPeriod = reportService.resolvePeriod(
+        period,
+        new Date(),
+        period === 'custom' ? { startDate, endDate } : undefined
+      );
+
+      const report = await reportService.generateReport(req.userId!, type, resolvedPeriod);
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof ReportPeriodError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      // A balance or transaction in a currency the rate store has never seen
+      if (error instanceof FxConversionError) {
+        res.status(422).json({ error: error.message, currency: error.currency });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/reports/:id - Get a report including its data
+router.get('/:id',
+  authenticateToken,
+  [param('id').isString().notEmpty()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const report = await reportService.getById(req.params.id, req.userId!);
+      if (!report) {
+        res.status(404).json({ error: 'Report not found' });
+        return;
+      }
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/reports/:id/download?format=json|csv|xlsx|pdf - Download a stored report
+router.get('/:id/download',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty(),
+    query('format').optional().isIn(REPORT_EXPORT_FORMATS)
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const report = await reportService.getById(req.params.id, req.userId!);
+      if (!report) {
+        res.status(404).json({ error: 'Report not found' });
+        return;
+      }
+
+      const format = (req.query.format as ReportExportFormat | undefined) || 'json';
+      const { buffer, contentType, extension } = await reportExportService.export(report, format);
+
+      enhancedLogger.logDataAccess({
+        userId: req.userId,
+        resource: 'report',
+        action: 'download',
+        reportId: report.id,
+        format,
+        ip: req.ip
+      });
+
+      const filename = `${report.type}-${report.period.startDate}-to-${report.period.endDate}.${extension}`;
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Length', buffer.length);
+      res.send(buffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/reports/:id - Delete a stored report
+router.delete('/:id',
+  authenticateToken,
+  [param('id').isString().notEmpty()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      await reportService.delete(req.params.id, req.userId!);
+      res.json({ message: 'Report deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as reportRoutes };
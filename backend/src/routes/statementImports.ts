@@ -0,0 +1,225 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { statementImportService, StatementImportError } from '../services/statementImportService';
+import { CsvColumnMapping, StatementImportRequest } from '../models/statementImport';
+import { CSV_DELIMITERS, DECIMAL_SEPARATORS, STATEMENT_DATE_FORMATS, STATEMENT_FORMATS } from '../../../shared/statementImport';
+
+const router = express.Router();
+
+// Statements are sent as text; 5 MB covers several years of a busy account
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+const MAPPING_COLUMNS = ['amountColumn', 'debitColumn', 'creditColumn', 'memoColumn', 'referenceColumn'] as const;
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const mappingValidation = (required: boolean) => {
+  const present = body('mapping').exists();
+  return [
+    required ? body('mapping').isObject() : body('mapping').optional().isObject(),
+    body('mapping.delimiter').if(present).isIn(CSV_DELIMITERS),
+    body('mapping.dateColumn').if(present).isString().trim().notEmpty().isLength({ max: 100 }),
+    body('mapping.descriptionColumn').if(present).isString().trim().notEmpty().isLength({ max: 100 }),
+    ...MAPPING_COLUMNS.map(column => body(`mapping.${column}`).optional({ values: 'falsy' }).isString().trim().isLength({ max: 100 })),
+    body('mapping').if(present).custom(mapping => {
+      if (!mapping.amountColumn && !mapping.debitColumn && !mapping.creditColumn) {
+        throw new Error('Map an amount column, or a debit or credit column');
+      }
+      return true;
+    }),
+    body('mapping.dateFormat').if(present).isIn(STATEMENT_DATE_FORMATS),
+    body('mapping.invertAmounts').optional().isBoolean().toBoolean(),
+    body('mapping.decimalSeparator').optional().isIn(DECIMAL_SEPARATORS)
+  ];
+};
+
+const statementValidation = [
+  body('accountId').isString().notEmpty(),
+  body('accountType').isIn(['bank', 'credit']),
+  body('fileName').isString().trim().notEmpty().isLength({ max: 255 }),
+  body('content').isString().notEmpty().isLength({ max: MAX_CONTENT_LENGTH }).withMessage('Statements are limited to 5 MB'),
+  body('format').optional().isIn(STATEMENT_FORMATS),
+  body('profileId').optional().isString().notEmpty(),
+  body('dateFormat').optional().isIn(STATEMENT_DATE_FORMATS),
+  ...mappingValidation(false)
+];
+
+// Only the mapping's known fields are kept
+const mappingOf = (mapping: CsvColumnMapping): CsvColumnMapping => ({
+  delimiter: mapping.delimiter,
+  dateColumn: mapping.dateColumn,
+  descriptionColumn: mapping.descriptionColumn,
+  dateFormat: mapping.dateFormat,
+  ...Object.fromEntries(MAPPING_COLUMNS.filter(column => mapping[column]).map(column => [column, mapping[column]])),
+  ...(mapping.invertAmounts && { invertAmounts: true }),
+  ...(mapping.decimalSeparator && { decimalSeparator: mapping.decimalSeparator })
+});
+
+const statementRequestOf = (body: StatementImportRequest): StatementImportRequest => ({
+  accountId: body.accountId,
+  accountType: body.accountType,
+  fileName: body.fileName,
+  content: body.content,
+  ...(body.format && { format: body.format }),
+  ...(body.mapping && { mapping: mappingOf(body.mapping) }),
+  ...(body.profileId && { profileId: body.profileId }),
+  ...(body.dateFormat && { dateFormat: body.dateFormat })
+});
+
+const sendImportError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof StatementImportError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  next(error);
+};
+
+// GET /api/statement-imports/profiles - Get the user's saved CSV column mappings
+router.get('/profiles',
+  authenticateToken,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const profiles = await statementImportService.listProfiles(req.userId!);
+      res.json({ profiles });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/statement-imports/profiles - Save a CSV column mapping under a bank's name
+router.post('/profiles',
+  authenticateToken,
+  [
+    body('name').isString().trim().notEmpty().isLength({ max: 100 }),
+    ...mappingValidation(true)
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const profile = await statementImportService.saveProfile(req.userId!, req.body.name, mappingOf(req.body.mapping));
+      res.status(201).json(profile);
+    } catch (error) {
+      sendImportError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/statement-imports/profiles/:id - Rename a profile or change its mapping
+router.put('/profiles/:id',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty(),
+    body('name').isString().trim().notEmpty().isLength({ max: 100 }),
+    ...mappingValidation(true)
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const profile = await statementImportService.saveProfile(req.userId!, req.body.name, mappingOf(req.body.mapping), req.params.id);
+      res.json(profile);
+    } catch (error) {
+      sendImportError(error, res, next);
+    }
+  }
+);
+
+// DELETE /api/statement-imports/profiles/:id - Delete a saved mapping
+router.delete('/profiles/:id',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const deleted = await statementImportService.deleteProfile(req.userId!, req.params.id!);
+      if (!deleted) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+      res.json({ message: 'Import profile deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/statement-imports/preview - Parse a statement and mark the rows already in the account
+router.post('/preview',
+  authenticateToken,
+  statementValidation,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const preview = await statementImportService.preview(req.userId!, statementRequestOf(req.body));
+      res.json(preview);
+    } catch (error) {
+      sendImportError(error, res, next);
+    }
+  }
+);
+
+// GET /api/statement-imports - Get the user's recent imports
+router.get('/',
+  authenticateToken,
+  [
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const batches = await statementImportService.listBatches(req.userId!, Number(req.query.limit ?? 20));
+      res.json({ batches });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/statement-imports - Import a statement's new rows, or the rows on the chosen lines
+router.post('/',
+  authenticateToken,
+  [
+    ...statementValidation,
+    body('lines').optional().isArray({ max: 5000 }),
+    body('lines.*').isInt({ min: 1 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const batch = await statementImportService.import(req.userId!, statementRequestOf(req.body), req.body.lines);
+      res.status(201).json(batch);
+    } catch (error) {
+      sendImportError(error, res, next);
+    }
+  }
+);
+
+// POST /api/statement-imports/:id/undo - Delete the transactions an import created
+router.post('/:id/undo',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const batch = await statementImportService.undo(req.userId!, req.params.id!);
+      res.json(batch);
+    } catch (error) {
+      sendImportError(error, res, next);
+    }
+  }
+);
+
+export { router as statementImportRoutes };
@@ -0,0 +1,228 @@
+import express from 'express';
+import { body, Meta, param, query, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { stockTransactionService, TaxLotError } from '../services/stockTransactionService';
+import { StockTransactionModel } from '../models/stockTransaction';
+import { COST_BASIS_METHODS, STOCK_TRANSACTION_TYPES } from '../../../shared/taxLots';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const isReinvested = (value: unknown) => value === true || value === 'true';
+
+const ofType = (...types: string[]) => (_value: unknown, { req }: Meta) => types.includes(req.body.type);
+
+// Buys and sells trade shares, and so does a dividend that was reinvested
+const tradesShares = (_value: unknown, { req }: Meta) =>
+  ['buy', 'sell'].includes(req.body.type) || (req.body.type === 'dividend' && isReinvested(req.body.reinvested));
+
+const transactionValidation = [
+  body('type').isIn(STOCK_TRANSACTION_TYPES),
+  body('stockSymbol').isString().trim().notEmpty().isLength({ max: 10 }),
+  body('stockName').optional().isString().trim().isLength({ max: 200 }),
+  body('shares').if(tradesShares).isFloat({ gt: 0 }).toFloat(),
+  body('price').if(tradesShares).isFloat({ min: 0 }).toFloat(),
+  body('fees').optional().isFloat({ min: 0 }).toFloat(),
+  body('totalAmount').if(ofType('dividend')).isFloat({ gt: 0 }).toFloat(),
+  body('reinvested').optional().isBoolean().toBoolean(),
+  body('qualified').optional().isBoolean().toBoolean(),
+  body('ratio').if(ofType('split', 'spin_off')).isFloat({ gt: 0 }).toFloat(),
+  body('newSymbol').if(ofType('spin_off', 'symbol_change')).isString().trim().notEmpty().isLength({ max: 10 }),
+  body('basisAllocation').if(ofType('spin_off')).isFloat({ min: 0, max: 1 }).toFloat(),
+  body('accountId').isString().notEmpty(),
+  body('transactionId').optional().isString(),
+  body('date').isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+  body('costBasisMethod').optional().isIn(COST_BASIS_METHODS),
+  body('lotSelections').optional().isArray({ min: 1 }),
+  body('lotSelections.*.lotId').isString().notEmpty(),
+  body('lotSelections.*.shares').isFloat({ gt: 0 }).toFloat()
+];
+
+// What each kind of transaction moves: shares and cash for trades, cash for dividends, nothing for corporate actions
+type ValidatedAmounts = Pick<StockTransactionModel, 'type' | 'shares' | 'price' | 'totalAmount' | 'reinvested'> & { fees?: number };
+
+const amountsOf = (body: ValidatedAmounts) => {
+  const fees = body.fees ?? 0;
+  switch (body.type) {
+    case 'buy':
+      return { shares: body.shares, price: body.price, fees, totalAmount: body.shares * body.price + fees };
+    case 'sell':
+      return { shares: body.shares, price: body.price, fees, totalAmount: body.shares * body.price - fees };
+    case 'dividend':
+      return body.reinvested
+        ? { shares: body.shares, price: body.price, fees: 0, totalAmount: body.totalAmount }
+        : { shares: 0, price: 0, fees: 0, totalAmount: body.totalAmount };
+    default:
+      return { shares: 0, price: 0, fees: 0, totalAmount: 0 };
+  }
+};
+
+// GET /api/stock-transactions - Get user's stock buys and sells
+router.get('/',
+  authenticateToken,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await stockTransactionService.getAll(req.userId!));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/stock-transactions/lots - Get open tax lots, optionally for one symbol or account
+router.get('/lots',
+  authenticateToken,
+  [
+    query('symbol').optional().isString().trim().notEmpty(),
+    query('accountId').optional().isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { symbol, accountId } = req.query as { symbol?: string; accountId?: string };
+      res.json(await stockTransactionService.getOpenLots(req.userId!, {
+        ...(symbol && { stockSymbol: symbol }),
+        ...(accountId && { accountId })
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/stock-transactions/realized - Get realized gains per lot sold, optionally for one tax year
+router.get('/realized',
+  authenticateToken,
+  [
+    query('taxYear').optional().isInt({ min: 1900, max: 2100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const taxYear = req.query.taxYear !== undefined ? Number(req.query.taxYear) : undefined;
+      res.json(await stockTransactionService.getRealizedGains(req.userId!, taxYear));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/stock-transactions/dividends/:taxYear - Get the year's dividends per symbol, as reported on 1099-DIV
+router.get('/dividends/:taxYear',
+  authenticateToken,
+  [
+    param('taxYear').isInt({ min: 1900, max: 2100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json(await stockTransactionService.getDividendIncome(req.userId!, Number(req.params.taxYear)));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/stock-transactions/form-8949/:taxYear?format=json|csv - Get sales for Form 8949
+router.get('/form-8949/:taxYear',
+  authenticateToken,
+  [
+    param('taxYear').isInt({ min: 1900, max: 2100 }).toInt(),
+    query('format').optional().isIn(['json', 'csv'])
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const report = await stockTransactionService.getForm8949(req.userId!, Number(req.params.taxYear));
+
+      if (req.query.format !== 'csv') {
+        res.json(report);
+        return;
+      }
+
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', `attachment; filename="form-8949-${report.taxYear}.csv"`);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(stockTransactionService.toForm8949Csv(report));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/stock-transactions - Record a buy, sell, dividend or corporate action against the lot ledger
+router.post('/',
+  authenticateToken,
+  transactionValidation,
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const {
+        type, stockSymbol, stockName, accountId, transactionId, date, costBasisMethod, lotSelections,
+        reinvested, qualified, ratio, newSymbol, basisAllocation
+      } = req.body;
+
+      const transaction = await stockTransactionService.record(req.userId!, {
+        type,
+        stockSymbol,
+        stockName: stockName ?? stockSymbol,
+        ...amountsOf(req.body),
+        accountId,
+        ...(transactionId && { transactionId }),
+        date,
+        ...(costBasisMethod && { costBasisMethod }),
+        ...(lotSelections && {
+          lotSelections: lotSelections.map(({ lotId, shares }: { lotId: string; shares: number }) => ({ lotId, shares }))
+        }),
+        ...(reinvested !== undefined && { reinvested }),
+        ...(qualified !== undefined && { qualified }),
+        ...(ratio !== undefined && { ratio }),
+        ...(newSymbol && { newSymbol }),
+        ...(basisAllocation !== undefined && { basisAllocation })
+      });
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof TaxLotError) {
+        res.status(422).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/stock-transactions/:id - Delete a transaction nothing later depends on
+router.delete('/:id',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const deleted = await stockTransactionService.remove(req.params.id!, req.userId!);
+      if (!deleted) {
+        res.status(404).json({ error: 'Stock transaction not found' });
+        return;
+      }
+      res.json({ message: 'Stock transaction deleted successfully' });
+    } catch (error) {
+      if (error instanceof TaxLotError) {
+        res.status(409).json({ error: `This transaction cannot be deleted: ${error.message}` });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+export { router as stockTransactionRoutes };
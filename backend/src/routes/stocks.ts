@@ -1,10 +1,28 @@
 import express from 'express';
+import { body, query, validationResult } from 'express-validator';
 import { BaseService } from '../services/baseService';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { DEFAULT_BENCHMARK, portfolioPerformanceService } from '../services/portfolioPerformanceService';
+import { PerformanceRange } from '../models/portfolioPerformance';
+import { PERFORMANCE_RANGES } from '../../../shared/portfolioPerformance';
 
 const router = express.Router();
 const stockService = new BaseService('stocks');
 
+const SYMBOL_PATTERN = /^[A-Za-z0-9.-]{1,12}$/;
+// Target weights may leave part of the portfolio unassigned but not assign more than all of it
+const MAX_TARGET_TOTAL = 100.0001;
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
 interface Stock {
   id: string;
   userId: string;
@@ -33,6 +51,73 @@ router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
   }
 });
 
+// GET /api/stocks/performance?range=1y&benchmark=SPY - Time- and money-weighted returns, contributions and allocation drift
+router.get('/performance',
+  authenticateToken,
+  [
+    query('range').optional().isIn(PERFORMANCE_RANGES),
+    query('startDate').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+    query('endDate').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+    query('benchmark').optional().matches(SYMBOL_PATTERN)
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const startDate = req.query.startDate ? String(req.query.startDate) : undefined;
+      const endDate = req.query.endDate ? String(req.query.endDate) : undefined;
+      if (!!startDate !== !!endDate || (startDate && endDate && startDate >= endDate)) {
+        res.status(400).json({ error: 'startDate and endDate must be given together, with startDate first' });
+        return;
+      }
+
+      const performance = await portfolioPerformanceService.getPerformance(req.userId!, {
+        range: (req.query.range as PerformanceRange | undefined) || '1y',
+        ...(startDate && endDate ? { startDate, endDate } : {}),
+        benchmark: req.query.benchmark ? String(req.query.benchmark) : DEFAULT_BENCHMARK
+      });
+      res.json(performance);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/stocks/performance/targets - Target weights the allocation drift is measured against
+router.get('/performance/targets', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const targets = await portfolioPerformanceService.getTargets(req.userId!);
+    res.json({ targets });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/stocks/performance/targets - Replace the target weights ({ targets: { VTI: 60, BND: 40 } })
+router.put('/performance/targets',
+  authenticateToken,
+  [
+    body('targets').isObject().custom((targets: Record<string, unknown>) => {
+      const entries = Object.entries(targets);
+      if (!entries.every(([symbol, weight]) => SYMBOL_PATTERN.test(symbol) && typeof weight === 'number' && weight >= 0 && weight <= 100)) {
+        throw new Error('targets must map symbols to percentages between 0 and 100');
+      }
+      if (entries.reduce((sum, [, weight]) => sum + (weight as number), 0) > MAX_TARGET_TOTAL) {
+        throw new Error('targets must add up to 100 or less');
+      }
+      return true;
+    })
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const targets = await portfolioPerformanceService.setTargets(req.userId!, req.body.targets);
+      res.json({ targets });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Get stock by ID
 router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
@@ -29,8 +29,8 @@ router.post('/:taxFormId/documents',
   authenticateToken,
   documentUploadLimiter,
   fileUploadSecurity,
-  validateRequest([
-    param('taxFormId').isUUID().withMessage('Invalid tax form ID'),
+  ...validateRequest([
+    param('taxFormId').isString().notEmpty().withMessage('Invalid tax form ID'),
     body('documentType').isIn(['receipt', 'w2', '1099', 'bank_statement', 'other']).withMessage('Invalid document type'),
     body('description').optional().isLength({ max: 500 }).withMessage('Description too long')
   ]),
@@ -79,8 +79,8 @@ router.post('/:taxFormId/documents',
 // Get documents for a tax form
 router.get('/:taxFormId/documents',
   authenticateToken,
-  validateRequest([
-    param('taxFormId').isUUID().withMessage('Invalid tax form ID')
+  ...validateRequest([
+    param('taxFormId').isString().notEmpty().withMessage('Invalid tax form ID')
   ]),
   handleValidationErrors,
   async (req: AuthRequest, res, next) => {
@@ -102,8 +102,8 @@ router.get('/:taxFormId/documents',
 // Get documents by type
 router.get('/:taxFormId/documents/type/:documentType',
   authenticateToken,
-  validateRequest([
-    param('taxFormId').isUUID().withMessage('Invalid tax form ID'),
+  ...validateRequest([
+    param('taxFormId').isString().notEmpty().withMessage('Invalid tax form ID'),
     param('documentType').isIn(['receipt', 'w2', '1099', 'bank_statement', 'other']).withMessage('Invalid document type')
   ]),
   handleValidationErrors,
@@ -121,7 +121,7 @@ router.get('/:taxFormId/documents/type/:documentType',
 // Delete a tax document
 router.delete('/documents/:documentId',
   authenticateToken,
-  validateRequest([
+  ...validateRequest([
     param('documentId').isUUID().withMessage('Invalid document ID')
   ]),
   handleValidationErrors,
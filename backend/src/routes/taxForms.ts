@@ -1,39 +1,63 @@
 import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { taxFormService } from '../services/taxFormService';
+import { taxFormService, TaxFormChanges, TaxFormError, TaxFormVersionConflictError } from '../services/taxFormService';
+import { accountantService, AccountantAccessError } from '../services/accountantService';
 
 const router = express.Router();
 
+const FILING_STATUSES = ['single', 'married_jointly', 'married_separately', 'head_of_household', 'qualifying_widow'];
+const FORM_STATUSES = ['draft', 'completed', 'submitted_to_accountant', 'reviewed', 'filed'];
+
 // Validation middleware
 const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
-    return res.status(400).json({ errors: errors.array() });
+    res.status(400).json({ errors: errors.array() });
+    return;
   }
   next();
 };
 
+const handleTaxFormError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof TaxFormVersionConflictError) {
+    res.status(error.statusCode).json({ error: error.message, currentVersion: error.currentVersion });
+    return;
+  }
+  if (error instanceof TaxFormError || error instanceof AccountantAccessError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  next(error);
+};
+
+// Only these fields are taken from the request body; the rest are the server's
+const formChanges = (body: Record<string, unknown>): TaxFormChanges => {
+  const { filingStatus, personalInfo, incomeData, deductionsData, creditsData, status } = body;
+  return Object.fromEntries(
+    Object.entries({ filingStatus, personalInfo, incomeData, deductionsData, creditsData, status })
+      .filter(([, value]) => value !== undefined)
+  );
+};
+
 // GET /api/tax-forms - Get user's tax forms
-router.get('/', 
+router.get('/',
   authenticateToken,
   [
     query('taxYear').optional().isInt({ min: 2020, max: 2030 }).toInt()
   ],
   handleValidationErrors,
-  async (req: AuthRequest, res: express.Response) => {
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
-      const { taxYear } = req.query;
-      
-      if (taxYear) {
-        const taxForm = await taxFormService.getByTaxYear(req.userId!, taxYear as number);
-        return res.json(taxForm ? [taxForm] : []);
+      if (req.query.taxYear !== undefined) {
+        const taxForm = await taxFormService.getByTaxYear(req.userId!, Number(req.query.taxYear));
+        res.json(taxForm ? [taxForm] : []);
+        return;
       }
-      
-      const taxForms = await taxFormService.getAll(req.userId!);
-      res.json(taxForms);
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+
+      res.json(await taxFormService.getAll(req.userId!));
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -45,74 +69,103 @@ router.get('/:id',
     param('id').isString().notEmpty()
   ],
   handleValidationErrors,
-  async (req: AuthRequest, res: express.Response) => {
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
-      const taxForm = await taxFormService.getById(req.params.id, req.userId!);
+      const taxForm = await taxFormService.getById(req.params.id!, req.userId!);
       if (!taxForm) {
-        return res.status(404).json({ error: 'Tax form not found' });
+        res.status(404).json({ error: 'Tax form not found' });
+        return;
       }
       res.json(taxForm);
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/tax-forms/:id/history - Every version of the form, newest first
+router.get('/:id/history',
+  authenticateToken,
+  [
+    param('id').isString().notEmpty()
+  ],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      if (!(await taxFormService.getById(req.params.id!, req.userId!))) {
+        res.status(404).json({ error: 'Tax form not found' });
+        return;
+      }
+      res.json(await taxFormService.getHistory(req.params.id!, req.userId!));
+    } catch (error) {
+      next(error);
     }
   }
 );
 
-// POST /api/tax-forms - Create new tax form
+// POST /api/tax-forms - Create the user's form for a tax year, as version 1
 router.post('/',
   authenticateToken,
   [
-    body('taxYear').isInt({ min: 2020, max: 2030 }),
-    body('filingStatus').isIn(['single', 'married_jointly', 'married_separately', 'head_of_household', 'qualifying_widow']),
+    body('taxYear').isInt({ min: 2020, max: 2030 }).toInt(),
+    body('filingStatus').isIn(FILING_STATUSES),
     body('personalInfo').isObject(),
     body('incomeData').isObject(),
     body('deductionsData').isObject(),
     body('creditsData').isObject(),
-    body('status').optional().isIn(['draft', 'completed', 'submitted_to_accountant', 'reviewed', 'filed'])
+    body('status').optional().isIn(FORM_STATUSES)
   ],
   handleValidationErrors,
-  async (req: AuthRequest, res: express.Response) => {
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
-      const taxFormData = {
-        ...req.body,
+      const { taxYear, filingStatus, personalInfo, incomeData, deductionsData, creditsData, status } = req.body;
+      const id = await taxFormService.create({
         userId: req.userId!,
-        status: req.body.status || 'draft',
+        taxYear,
+        filingStatus,
+        personalInfo,
+        incomeData,
+        deductionsData,
+        creditsData,
+        status: status || 'draft',
         lastModified: new Date().toISOString()
-      };
-
-      const id = await taxFormService.create(taxFormData);
-      res.status(201).json({ id, message: 'Tax form created successfully' });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      });
+      res.status(201).json(await taxFormService.getById(id, req.userId!));
+    } catch (error) {
+      handleTaxFormError(error, res, next);
     }
   }
 );
 
-// PUT /api/tax-forms/:id - Update tax form
+// PUT /api/tax-forms/:id - Save changes to the version named in the body; 409 if the form has moved on
 router.put('/:id',
   authenticateToken,
   [
     param('id').isString().notEmpty(),
-    body('taxYear').optional().isInt({ min: 2020, max: 2030 }),
-    body('filingStatus').optional().isIn(['single', 'married_jointly', 'married_separately', 'head_of_household', 'qualifying_widow']),
+    body('version').isInt({ min: 0 }).toInt(),
+    body('filingStatus').optional().isIn(FILING_STATUSES),
     body('personalInfo').optional().isObject(),
     body('incomeData').optional().isObject(),
     body('deductionsData').optional().isObject(),
     body('creditsData').optional().isObject(),
-    body('status').optional().isIn(['draft', 'completed', 'submitted_to_accountant', 'reviewed', 'filed'])
+    body('status').optional().isIn(FORM_STATUSES),
+    body('changeDescription').optional().isString().isLength({ max: 500 })
   ],
   handleValidationErrors,
-  async (req: AuthRequest, res: express.Response) => {
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
-      const updateData = {
-        ...req.body,
-        lastModified: new Date().toISOString()
-      };
-
-      await taxFormService.update(req.params.id, req.userId!, updateData);
-      res.json({ message: 'Tax form updated successfully' });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      const taxForm = await taxFormService.save(
+        req.params.id!,
+        req.userId!,
+        { ...formChanges(req.body), lastModified: new Date().toISOString() },
+        {
+          expectedVersion: req.body.version,
+          ...(req.body.changeDescription !== undefined && { changeDescription: req.body.changeDescription })
+        }
+      );
+      res.json(taxForm);
+    } catch (error) {
+      handleTaxFormError(error, res, next);
     }
   }
 );
@@ -124,22 +177,23 @@ router.delete('/:id',
     param('id').isString().notEmpty()
   ],
   handleValidationErrors,
-  async (req: AuthRequest, res: express.Response) => {
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
-      // Check if form is in draft status
-      const taxForm = await taxFormService.getById(req.params.id, req.userId!);
+      const taxForm = await taxFormService.getById(req.params.id!, req.userId!);
       if (!taxForm) {
-        return res.status(404).json({ error: 'Tax form not found' });
+        res.status(404).json({ error: 'Tax form not found' });
+        return;
       }
-      
+
       if (taxForm.status !== 'draft') {
-        return res.status(400).json({ error: 'Can only delete draft tax forms' });
+        res.status(400).json({ error: 'Can only delete draft tax forms' });
+        return;
       }
 
-      await taxFormService.delete(req.params.id, req.userId!);
+      await taxFormService.delete(req.params.id!, req.userId!);
       res.json({ message: 'Tax form deleted successfully' });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -152,14 +206,14 @@ router.post('/:id/submit-to-accountant',
     body('accountantEmail').isEmail()
   ],
   handleValidationErrors,
-  async (req: AuthRequest, res: express.Response) => {
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
     try {
-      await taxFormService.submitToAccountant(req.params.id, req.userId!, req.body.accountantEmail);
+      await accountantService.submitForm(req.userId!, req.params.id!, req.body.accountantEmail);
       res.json({ message: 'Tax form submitted to accountant successfully' });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+    } catch (error) {
+      handleTaxFormError(error, res, next);
     }
   }
 );
 
-export default router;
\ No newline at end of file
+export { router as taxFormRoutes };
@@ -0,0 +1,68 @@
+import express from 'express';
+import { param, validationResult } from 'express-validator';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { taxPrefillService } from '../services/taxPrefillService';
+import { FxConversionError } from '../../../shared/currency';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const handleConversionError = (error: unknown, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof FxConversionError) {
+    res.status(422).json({ error: error.message, currency: error.currency });
+    return;
+  }
+  next(error);
+};
+
+router.use(authenticateToken);
+
+// GET /api/tax-prefill/:taxYear - Proposed tax form entries built from the year's data
+router.get('/:taxYear',
+  [param('taxYear').isInt({ min: 2020, max: 2030 }).toInt()],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const proposals = await taxPrefillService.getProposals(req.userId!, Number(req.params.taxYear));
+      res.json(proposals);
+    } catch (error) {
+      handleConversionError(error, res, next);
+    }
+  }
+);
+
+const proposalValidators = [
+  param('taxYear').isInt({ min: 2020, max: 2030 }).toInt(),
+  param('proposalId').isHexadecimal().isLength({ min: 20, max: 20 })
+];
+
+const recordDecision = (status: 'accepted' | 'dismissed') =>
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const proposal = await taxPrefillService.decide(req.userId!, Number(req.params.taxYear), req.params.proposalId!, status);
+      if (!proposal) {
+        res.status(404).json({ error: 'Proposal not found' });
+        return;
+      }
+      res.json(proposal);
+    } catch (error) {
+      handleConversionError(error, res, next);
+    }
+  };
+
+// POST /api/tax-prefill/:taxYear/:proposalId/accept - The user is adding the proposed entry to their form
+router.post('/:taxYear/:proposalId/accept', proposalValidators, handleValidationErrors, recordDecision('accepted'));
+
+// POST /api/tax-prefill/:taxYear/:proposalId/dismiss - Stop offering the proposal
+router.post('/:taxYear/:proposalId/dismiss', proposalValidators, handleValidationErrors, recordDecision('dismissed'));
+
+export { router as taxPrefillRoutes };
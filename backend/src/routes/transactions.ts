@@ -3,11 +3,16 @@ import { body, validationResult, query } from 'express-validator';
 import fs from 'fs';
 import { BaseService } from '../services/baseService';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import FirebaseTransactionService from '../services/firebaseTransactionService';
+import FirebaseTransactionService, { TransactionSplitError } from '../services/firebaseTransactionService';
+import { categorizationRuleService, storedCategorization } from '../services/categorizationRuleService';
 import { uploadDocument, handleUploadError } from '../middleware/upload';
 import { documentService } from '../services/documentService';
 import { createRateLimit, fileUploadSecurity, validateRequest } from '../middleware/advancedSecurity';
 import { enhancedLogger } from '../utils/enhancedLogger';
+import { DuplicateTransactionError, duplicateTransactionService } from '../services/duplicateTransactionService';
+import { MAX_SEARCH_LIMIT, TransactionSearchError, transactionSearchService } from '../services/transactionSearchService';
+import { splitsError, TransactionSplit } from '../../../shared/transactionSplits';
+import { SearchSource, SearchStatus, SearchType } from '../../../shared/transactionSearch';
 
 const router = express.Router();
 const baseTransactionService = new BaseService('transactions');
@@ -29,6 +34,25 @@ interface Transaction {
   updatedAt: Date;
 }
 
+// The lines of a request's `splits` with only their known fields, or null when it isn't a list of lines
+const splitsOf = (value: unknown): TransactionSplit[] | null => {
+  if (!Array.isArray(value) || !value.every(line => line && typeof line === 'object')) {
+    return null;
+  }
+  return value.map((line): TransactionSplit => {
+    const tags = Array.isArray(line.tags) ? line.tags.filter((tag: unknown) => typeof tag === 'string' && tag.trim()) : [];
+    return {
+      amount: Number(line.amount),
+      category: typeof line.category === 'string' ? line.category : '',
+      ...(typeof line.subcategory === 'string' && line.subcategory && { subcategory: line.subcategory }),
+      ...(tags.length > 0 && { tags }),
+      ...(typeof line.insurancePolicyId === 'string' && line.insurancePolicyId && { insurancePolicyId: line.insurancePolicyId }),
+      ...(typeof line.incomeSourceId === 'string' && line.incomeSourceId && { incomeSourceId: line.incomeSourceId }),
+      ...(typeof line.notes === 'string' && line.notes && { notes: line.notes })
+    };
+  });
+};
+
 // Get transaction summary (MUST come before /:id route)
 router.get('/summary', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
@@ -110,6 +134,124 @@ router.get('/plaid', authenticateToken, async (req: AuthRequest, res, next) => {
   }
 });
 
+// Search manual and Plaid transactions together, a page at a time (MUST come before /:id route)
+router.get('/search',
+  authenticateToken,
+  [
+    query('q').optional().isString().isLength({ max: 500 }),
+    query('minAmount').optional().isFloat({ min: 0 }).toFloat(),
+    query('maxAmount').optional().isFloat({ min: 0 }).toFloat(),
+    query('startDate').optional().isISO8601({ strict: true }),
+    query('endDate').optional().isISO8601({ strict: true }),
+    query('tags').optional().isString(),
+    query('accountId').optional().isString(),
+    query('category').optional().isString(),
+    query('status').optional().isIn(['pending', 'cleared', 'reconciled']),
+    query('source').optional().isIn(['manual', 'plaid', 'import']),
+    query('type').optional().isIn(['income', 'expense', 'transfer', 'payment']),
+    query('cursor').optional().isString(),
+    query('limit').optional().isInt({ min: 1, max: MAX_SEARCH_LIMIT }).toInt()
+  ],
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const { q, minAmount, maxAmount, startDate, endDate, tags, accountId, category, status, source, type, cursor, limit } = req.query;
+      const page = await transactionSearchService.search(req.userId!, {
+        ...(q && { q: q as string }),
+        ...(minAmount !== undefined && { minAmount: minAmount as unknown as number }),
+        ...(maxAmount !== undefined && { maxAmount: maxAmount as unknown as number }),
+        ...(startDate && { startDate: (startDate as string).slice(0, 10) }),
+        ...(endDate && { endDate: (endDate as string).slice(0, 10) }),
+        ...(tags && { tags: (tags as string).split(',').map(tag => tag.trim()).filter(Boolean) }),
+        ...(accountId && { accountId: accountId as string }),
+        ...(category && { category: category as string }),
+        ...(status && { status: status as SearchStatus }),
+        ...(source && { source: source as SearchSource }),
+        ...(type && { type: type as SearchType }),
+        ...(cursor && { cursor: cursor as string }),
+        ...(limit !== undefined && { limit: limit as unknown as number })
+      });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof TransactionSearchError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// Likely duplicates between manual entries and synced transactions, for review (MUST come before /:id route)
+router.get('/duplicates', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const pairs = await duplicateTransactionService.findDuplicates(req.userId!);
+    res.json(pairs);
+  } catch (error) {
+    next(error);
+  }
+});
+
+const duplicatePairValidation = [
+  body('manualTransactionId').isString().trim().notEmpty(),
+  body('plaidTransactionId').isString().trim().notEmpty()
+];
+
+// Merge a synced transaction into the manual entry it duplicates
+router.post('/duplicates/merge',
+  authenticateToken,
+  duplicatePairValidation,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const { manualTransactionId, plaidTransactionId } = req.body;
+      const transaction = await duplicateTransactionService.merge(req.userId!, manualTransactionId, plaidTransactionId);
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof DuplicateTransactionError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// Mark a pair as not a duplicate so it leaves the review queue
+router.post('/duplicates/dismiss',
+  authenticateToken,
+  duplicatePairValidation,
+  async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    try {
+      const { manualTransactionId, plaidTransactionId } = req.body;
+      await duplicateTransactionService.dismiss(req.userId!, manualTransactionId, plaidTransactionId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof DuplicateTransactionError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // Get all transactions (manual + Plaid imported)
 router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
@@ -140,8 +282,8 @@ router.get('/', authenticateToken, async (req: AuthRequest, res, next) => {
     // Get manual transactions
     const manualTransactions = await baseTransactionService.getAll(req.userId!);
     
-    // Combine and sort by date
-    const allTransactions = [...plaidTransactions, ...manualTransactions]
+    // Combine and sort by date; merged Plaid transactions are shown as the manual entries they were merged into
+    const allTransactions = [...plaidTransactions.filter(t => !t.mergedIntoTransactionId), ...manualTransactions]
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     
     res.json(allTransactions);
@@ -172,11 +314,36 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
   }
 });
 
-// Create new manual transaction
+// Create new manual transaction; categorization rules fill in what the entry leaves out
 router.post('/', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
+    const { description, merchantName, merchant, amount, accountId, category, subcategory, tags, incomeSourceId } = req.body;
+    const splits = req.body.splits === undefined ? [] : splitsOf(req.body.splits);
+    if (!splits) {
+      res.status(400).json({ error: 'splits must be a list of lines' });
+      return;
+    }
+    const splitError = splitsError(Number(amount) || 0, splits);
+    if (splitError) {
+      res.status(400).json({ error: splitError });
+      return;
+    }
+
+    const categorization = await categorizationRuleService.categorize(
+      req.userId!,
+      { description: description || '', merchantName: merchantName || merchant, amount: Number(amount) || 0, accountId },
+      {
+        ...(category && { category }),
+        ...(subcategory && { subcategory }),
+        ...(Array.isArray(tags) && { tags }),
+        ...(incomeSourceId && { incomeSourceId })
+      }
+    );
+
     const transactionData = {
       ...req.body,
+      ...storedCategorization(categorization),
+      ...(req.body.splits !== undefined && { splits }),
       userId: req.userId!,
       date: new Date(req.body.date || Date.now()),
       isManual: true // Mark as manually created
@@ -239,13 +406,62 @@ router.put('/:id/visibility', authenticateToken, async (req: AuthRequest, res, n
   }
 });
 
-// Update transaction
+// Split a Plaid transaction into lines that add up to its amount; an empty list un-splits it
+router.put('/:id/splits', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const splits = splitsOf(req.body.splits);
+    if (!splits) {
+      res.status(400).json({ error: 'splits must be a list of lines' });
+      return;
+    }
+
+    const updatedTransaction = await plaidTransactionService.updateTransactionSplits(
+      req.params.id,
+      req.userId!,
+      splits
+    );
+
+    if (!updatedTransaction) {
+      res.status(404).json({ error: 'Transaction not found' });
+      return;
+    }
+
+    res.json({ message: 'Transaction splits updated successfully', transaction: updatedTransaction });
+  } catch (error) {
+    if (error instanceof TransactionSplitError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// Update transaction; its splits must still add up to its amount afterwards
 router.put('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
     const updateData = { ...req.body };
     if (updateData.date) {
       updateData.date = new Date(updateData.date);
     }
+
+    if (updateData.splits !== undefined || updateData.amount !== undefined) {
+      const existing = await baseTransactionService.getById(req.params.id, req.userId!) as Transaction & { splits?: TransactionSplit[] } | null;
+      if (existing) {
+        const splits = updateData.splits === undefined ? existing.splits || [] : splitsOf(updateData.splits);
+        if (!splits) {
+          res.status(400).json({ error: 'splits must be a list of lines' });
+          return;
+        }
+        const splitError = splitsError(Number(updateData.amount ?? existing.amount) || 0, splits);
+        if (splitError) {
+          res.status(400).json({ error: splitError });
+          return;
+        }
+        if (updateData.splits !== undefined) {
+          updateData.splits = splits;
+        }
+      }
+    }
     
     // Try updating manual transaction first
     try {
@@ -286,7 +502,7 @@ router.post('/:id/documents',
   authenticateToken,
   documentUploadLimiter,
   fileUploadSecurity,
-  validateRequest([
+  ...validateRequest([
     body('source').optional().isIn(['camera', 'files', 'drag-drop'])
   ]),
   uploadDocument.single('document'),
@@ -0,0 +1,498 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { auth, db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { decryptData, decryptFinancialData, maskSensitiveData } from '../middleware/encryption';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { documentService } from './documentService';
+import { insuranceService } from './insuranceService';
+import PlaidService from './plaidService';
+import { toDate } from '../utils/dates';
+import {
+  AccountDeletionRecord,
+  AccountDeletionResult,
+  AccountExportArchive,
+  AccountExportModel,
+  AccountExportSummary,
+  ExportedFile
+} from '../models/accountData';
+
+const gzip = promisify(zlib.gzip);
+
+const EXPORT_COLLECTION = 'account_exports';
+const DELETION_COLLECTION = 'account_deletions';
+const EXPORT_TTL_DAYS = 7;
+const DELETE_BATCH_SIZE = 400;
+
+/**
+ * Collections holding a user's data and the field that ties each document to
+ * them. The first block is every collection a BaseService manages; the rest
+ * are written by other services or directly by the frontend.
+ */
+export const USER_COLLECTIONS: Array<{ name: string; field: string }> = [
+  { name: 'accountGoals', field: 'userId' },
+  { name: 'bankAccounts', field: 'userId' },
+  { name: 'budgets', field: 'userId' },
+  { name: 'creditCards', field: 'userId' },
+  { name: 'incomeSources', field: 'userId' },
+  { name: 'notificationPreferences', field: 'userId' },
+  { name: 'notifications', field: 'userId' },
+  { name: 'recurringPayments', field: 'userId' },
+  { name: 'reports', field: 'userId' },
+  { name: 'savingsGoals', field: 'userId' },
+  { name: 'stocks', field: 'userId' },
+  { name: 'taxForms', field: 'userId' },
+  { name: 'tax_documents', field: 'userId' },
+  { name: 'transactions', field: 'userId' },
+  { name: 'assets', field: 'userId' },
+  { name: 'liabilities', field: 'userId' },
+  { name: 'stockHoldings', field: 'userId' },
+  { name: 'stockTransactions', field: 'userId' },
+  { name: 'bank_connections', field: 'userId' },
+  { name: 'credit_card_mappings', field: 'userId' },
+  { name: 'plaid_transactions', field: 'userId' },
+  { name: 'sync_logs', field: 'userId' },
+  { name: 'net_worth_snapshots', field: 'userId' },
+  { name: 'portfolio_targets', field: 'userId' },
+  { name: 'import_batches', field: 'userId' },
+  { name: 'import_profiles', field: 'userId' },
+  { name: 'categorization_rules', field: 'userId' },
+  { name: 'notification_logs', field: 'userId' },
+  { name: 'notification_deliveries', field: 'userId' },
+  { name: 'calendar_feeds', field: 'userId' },
+  { name: 'accountantAccess', field: 'clientId' },
+  { name: 'accountantAccess', field: 'accountantId' },
+  { name: 'accountantNotes', field: 'clientId' },
+  { name: 'taxFormHistory', field: 'userId' },
+  { name: 'tax_prefill_decisions', field: 'userId' },
+  { name: 'duplicate_dismissals', field: 'userId' }
+];
+
+// Credentials are dropped from the archive entirely; account identifiers keep their last four digits
+const REDACTED_FIELDS = new Set(['accessToken', 'hashedPassword', 'passwordHash', 'tokenHash', 'refreshToken', 'secret', 'apiKey']);
+const MASKED_FIELDS = new Set(['accountNumber', 'routingNumber', 'ssn', 'ein']);
+const REDACTED = '[REDACTED]';
+
+export class AccountDeletionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'AccountDeletionError';
+  }
+}
+
+const exportsDir = (): string => path.join(process.cwd(), 'exports');
+
+const uploadsDir = (userId: string): string => path.join(process.cwd(), 'uploads', userId);
+
+const signingSecret = (): string => {
+  const secret = process.env.EXPORT_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('EXPORT_SIGNING_SECRET is not configured');
+  }
+  return secret;
+};
+
+export const signArchive = (archive: Buffer, secret: string = signingSecret()): string =>
+  crypto.createHmac('sha256', secret).update(archive).digest('hex');
+
+export const verifyArchive = (archive: Buffer, signature: string, secret: string = signingSecret()): boolean => {
+  const expected = Buffer.from(signArchive(archive, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Converts Firestore data into plain JSON for the archive: timestamps become
+ * ISO strings, credentials are redacted and account identifiers masked.
+ */
+export const sanitizeForExport = (value: unknown, key?: string): unknown => {
+  if (key && REDACTED_FIELDS.has(key)) {
+    return value === undefined || value === null ? value : REDACTED;
+  }
+  if (key && MASKED_FIELDS.has(key) && value !== undefined && value !== null) {
+    return typeof value === 'string' ? maskSensitiveData(value) : REDACTED;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return toDate(value).toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizeForExport(item));
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([field, item]) => [field, sanitizeForExport(item, field)])
+  );
+};
+
+const toSummary = (id: string, data: FirebaseFirestore.DocumentData): AccountExportSummary => {
+  const { filePath: _filePath, ...rest } = data;
+  return {
+    ...rest,
+    id,
+    requestedAt: toDate(data.requestedAt),
+    ...(data.startedAt && { startedAt: toDate(data.startedAt) }),
+    ...(data.completedAt && { completedAt: toDate(data.completedAt) }),
+    ...(data.expiresAt && { expiresAt: toDate(data.expiresAt) })
+  } as AccountExportSummary;
+};
+
+/**
+ * Account-wide data export and deletion. Exports are built by the
+ * `account-exports` background job into a gzipped JSON archive signed with
+ * HMAC-SHA256, so a download can be checked against the server's signature.
+ * Deletion revokes Plaid access, then purges Firestore, uploaded files and
+ * the login, leaving only a record in `account_deletions`.
+ */
+export class AccountDataService {
+  private plaidService = new PlaidService({
+    clientId: process.env.PLAID_CLIENT_ID || '',
+    secret: process.env.PLAID_SECRET || '',
+    environment: process.env.PLAID_ENV || 'sandbox'
+  });
+
+  // Queues an export, or returns the one already in progress
+  async requestExport(userId: string, now: Date = new Date()): Promise<{ export: AccountExportSummary; created: boolean }> {
+    const existing = (await this.listExports(userId))
+      .find(item => item.status === 'pending' || item.status === 'processing');
+    if (existing) {
+      return { export: existing, created: false };
+    }
+
+    const record: Omit<AccountExportModel, 'id'> = { userId, status: 'pending', requestedAt: now };
+    const ref = await db.collection(EXPORT_COLLECTION).add(record);
+
+    auditLog({
+      event: 'account_export_requested',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: now,
+      details: { exportId: ref.id }
+    });
+
+    return { export: { id: ref.id, ...record }, created: true };
+  }
+
+  async listExports(userId: string): Promise<AccountExportSummary[]> {
+    const snapshot = await db.collection(EXPORT_COLLECTION).where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => toSummary(doc.id, doc.data()))
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+  }
+
+  async getExport(userId: string, exportId: string): Promise<AccountExportSummary | null> {
+    const doc = await db.collection(EXPORT_COLLECTION).doc(exportId).get();
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      return null;
+    }
+    return toSummary(doc.id, doc.data()!);
+  }
+
+  /**
+   * Reads a finished archive for download after checking it still matches the
+   * signature recorded when it was built.
+   */
+  async readArchive(userId: string, exportId: string, now: Date = new Date()): Promise<{ archive: Buffer; signature: string; filename: string } | null> {
+    const doc = await db.collection(EXPORT_COLLECTION).doc(exportId).get();
+    const record = doc.data() as AccountExportModel | undefined;
+    if (!record || record.userId !== userId || record.status !== 'completed' || !record.filePath || !record.signature) {
+      return null;
+    }
+    if (record.expiresAt && toDate(record.expiresAt) <= now) {
+      return null;
+    }
+
+    const archive = await fs.promises.readFile(record.filePath);
+    if (!verifyArchive(archive, record.signature)) {
+      enhancedLogger.logSecurityEvent('ACCOUNT_EXPORT_SIGNATURE_MISMATCH', { userId, exportId });
+      throw new Error('Export archive failed its integrity check');
+    }
+
+    auditLog({
+      event: 'account_export_downloaded',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: now,
+      details: { exportId }
+    });
+
+    const date = toDate(record.completedAt ?? record.requestedAt).toISOString().slice(0, 10);
+    return { archive, signature: record.signature, filename: `flourish-funds-export-${date}.json.gz` };
+  }
+
+  // Job entry point: builds queued exports and clears out expired archives
+  async processPendingExports(now: Date = new Date()): Promise<{ built: number; failed: number; expired: number }> {
+    const expired = await this.expireExports(now);
+    const pending = await db.collection(EXPORT_COLLECTION).where('status', '==', 'pending').limit(10).get();
+
+    let built = 0;
+    let failed = 0;
+    for (const doc of pending.docs) {
+      const record = doc.data() as AccountExportModel;
+      try {
+        await this.buildExport(doc.id, record.userId, now);
+        built++;
+      } catch (error) {
+        failed++;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await doc.ref.update({ status: 'failed', error: message, completedAt: new Date() });
+        enhancedLogger.error('Failed to build account export', { userId: record.userId, exportId: doc.id, error: message });
+      }
+    }
+
+    return { built, failed, expired };
+  }
+
+  async buildArchive(userId: string, now: Date = new Date()): Promise<AccountExportArchive> {
+    const collections: AccountExportArchive['collections'] = {};
+    for (const { name, field } of USER_COLLECTIONS) {
+      const snapshot = await db.collection(name).where(field, '==', userId).get();
+      const documents = snapshot.docs.map(doc =>
+        sanitizeForExport({ id: doc.id, ...decryptFinancialData(doc.data()) }) as Record<string, unknown>);
+      collections[name] = [...(collections[name] || []), ...documents];
+    }
+
+    const profile = await db.collection('users').doc(userId).get();
+    const [policies, claims] = await Promise.all([
+      insuranceService.getUserPolicies(userId),
+      insuranceService.getUserClaims(userId)
+    ]);
+
+    return {
+      format: 'flourish-funds-export',
+      version: 1,
+      userId,
+      generatedAt: now.toISOString(),
+      profile: profile.exists ? sanitizeForExport(profile.data()) as Record<string, unknown> : null,
+      collections,
+      insurance: {
+        policies: policies.map(policy => sanitizeForExport(policy) as Record<string, unknown>),
+        claims: claims.map(claim => sanitizeForExport(claim) as Record<string, unknown>)
+      },
+      files: await this.collectFiles(userId, collections['tax_documents'] || [])
+    };
+  }
+
+  async deleteAccount(userId: string, now: Date = new Date()): Promise<AccountDeletionResult> {
+    auditLog({
+      event: 'account_deletion_started',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: now,
+      details: {}
+    });
+
+    // Revoke bank access first: once the connection documents are gone the tokens can't be recovered
+    const plaidItemsRevoked = await this.revokePlaidItems(userId);
+
+    const documentsDeleted: Record<string, number> = {};
+    for (const { name, field } of USER_COLLECTIONS) {
+      documentsDeleted[name] = (documentsDeleted[name] || 0) + await this.purgeCollection(name, field, userId);
+    }
+    documentsDeleted[EXPORT_COLLECTION] = await this.purgeCollection(EXPORT_COLLECTION, 'userId', userId);
+    documentsDeleted['insurance'] = await insuranceService.purgeUserData(userId);
+
+    let filesDeleted = await documentService.purgeUserDocuments(userId);
+    filesDeleted += this.removeDirectory(path.join(exportsDir(), userId));
+
+    await db.collection('users').doc(userId).delete();
+    documentsDeleted['users'] = 1;
+
+    try {
+      await auth.deleteUser(userId);
+    } catch (error) {
+      if ((error as { code?: string })?.code !== 'auth/user-not-found') {
+        throw error;
+      }
+    }
+
+    const result: AccountDeletionResult = { plaidItemsRevoked, documentsDeleted, filesDeleted };
+    const record: AccountDeletionRecord = { userId, requestedAt: now, completedAt: new Date(), ...result };
+    await db.collection(DELETION_COLLECTION).add(record);
+
+    auditLog({
+      event: 'account_deleted',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: result
+    });
+    enhancedLogger.logSecurityEvent('ACCOUNT_DELETED', { userId, plaidItemsRevoked, filesDeleted });
+
+    return result;
+  }
+
+  private async buildExport(exportId: string, userId: string, now: Date): Promise<void> {
+    const ref = db.collection(EXPORT_COLLECTION).doc(exportId);
+    await ref.update({ status: 'processing', startedAt: new Date() });
+
+    const archive = await this.buildArchive(userId, now);
+    const compressed = await gzip(Buffer.from(JSON.stringify(archive)));
+    const signature = signArchive(compressed);
+
+    const userDir = path.join(exportsDir(), userId);
+    await fs.promises.mkdir(userDir, { recursive: true });
+    const filePath = path.join(userDir, `${exportId}.json.gz`);
+    await fs.promises.writeFile(filePath, compressed, { mode: 0o600 });
+
+    const counts = Object.fromEntries(
+      Object.entries(archive.collections).map(([name, documents]) => [name, documents.length])
+    );
+    counts['files'] = archive.files.length;
+
+    await ref.update({
+      status: 'completed',
+      completedAt: new Date(),
+      expiresAt: new Date(now.getTime() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000),
+      filePath,
+      sizeBytes: compressed.length,
+      signature,
+      counts
+    });
+
+    auditLog({
+      event: 'account_export_completed',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { exportId, sizeBytes: compressed.length }
+    });
+  }
+
+  private async expireExports(now: Date): Promise<number> {
+    const completed = await db.collection(EXPORT_COLLECTION).where('status', '==', 'completed').get();
+    const expired = completed.docs.filter(doc => {
+      const expiresAt = doc.data().expiresAt;
+      return expiresAt && toDate(expiresAt) <= now;
+    });
+
+    for (const doc of expired) {
+      const filePath = doc.data().filePath as string | undefined;
+      if (filePath) {
+        await fs.promises.rm(filePath, { force: true });
+      }
+      await doc.ref.update({ status: 'expired', filePath: null });
+    }
+    return expired.length;
+  }
+
+  // Uploaded transaction, tax and insurance documents, with file contents inlined when they are on this server
+  private async collectFiles(userId: string, taxDocuments: Array<Record<string, unknown>>): Promise<ExportedFile[]> {
+    const transactionDocuments = await documentService.getUserDocuments(userId);
+    const insuranceDocuments = await insuranceService.getUserDocuments(userId);
+
+    const files: Array<ExportedFile & { filePath?: string }> = [
+      ...transactionDocuments.map(({ filePath, encryptedPath: _encryptedPath, ...doc }) => ({
+        id: doc.id,
+        source: 'transaction' as const,
+        filename: doc.originalName,
+        mimeType: doc.fileType,
+        size: doc.fileSize,
+        metadata: sanitizeForExport(doc) as Record<string, unknown>,
+        filePath
+      })),
+      ...taxDocuments.map(({ fileUrl, ...doc }) => ({
+        id: String(doc.id),
+        source: 'tax' as const,
+        filename: String(doc.fileName || doc.id),
+        size: Number(doc.fileSize) || 0,
+        metadata: doc,
+        ...(typeof fileUrl === 'string' && { filePath: fileUrl })
+      })),
+      ...insuranceDocuments.map(({ url, ...doc }) => ({
+        id: doc.id,
+        source: 'insurance' as const,
+        filename: doc.filename,
+        mimeType: doc.mimeType,
+        size: doc.size,
+        metadata: sanitizeForExport(doc) as Record<string, unknown>,
+        filePath: url
+      }))
+    ];
+
+    return Promise.all(files.map(async ({ filePath, ...file }) => {
+      const content = filePath ? await this.readUserFile(userId, filePath) : null;
+      return content ? { ...file, content: content.toString('base64') } : file;
+    }));
+  }
+
+  // Only files inside the user's own upload directory are read
+  private async readUserFile(userId: string, filePath: string): Promise<Buffer | null> {
+    const resolved = path.resolve(filePath);
+    if (!resolved.startsWith(uploadsDir(userId) + path.sep)) {
+      return null;
+    }
+    try {
+      return await fs.promises.readFile(resolved);
+    } catch {
+      return null;
+    }
+  }
+
+  private async revokePlaidItems(userId: string): Promise<number> {
+    const connections = await db.collection('bank_connections').where('userId', '==', userId).get();
+    const active = connections.docs.filter(doc => doc.data().isActive !== false && doc.data().accessToken);
+
+    let revoked = 0;
+    for (const doc of active) {
+      const stored = doc.data().accessToken;
+      try {
+        const accessToken = typeof stored === 'string' ? stored : decryptData(stored);
+        await this.plaidService.removeItem(accessToken);
+        await doc.ref.update({ isActive: false, lastError: 'Connection removed by account deletion' });
+        revoked++;
+      } catch (error) {
+        auditLog({
+          event: 'account_deletion_failed',
+          userId,
+          ip: 'server',
+          userAgent: 'server',
+          timestamp: new Date(),
+          details: { connectionId: doc.id, error: error instanceof Error ? error.message : 'Unknown error' }
+        });
+        throw new AccountDeletionError(
+          'Could not disconnect a linked bank. Nothing was deleted; please try again.',
+          502
+        );
+      }
+    }
+    return revoked;
+  }
+
+  private async purgeCollection(name: string, field: string, userId: string): Promise<number> {
+    let deleted = 0;
+    for (;;) {
+      const snapshot = await db.collection(name).where(field, '==', userId).limit(DELETE_BATCH_SIZE).get();
+      if (snapshot.empty) {
+        return deleted;
+      }
+      const batch = db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+  }
+
+  private removeDirectory(dir: string): number {
+    if (!fs.existsSync(dir)) {
+      return 0;
+    }
+    const count = fs.readdirSync(dir).length;
+    fs.rmSync(dir, { recursive: true, force: true });
+    return count;
+  }
+}
+
+export const accountDataService = new AccountDataService();
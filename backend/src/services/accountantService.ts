@@ -0,0 +1,561 @@
+import crypto from 'crypto';
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { authService, AuthResult } from './authService';
+import { EmailService } from './emailService';
+import { taxFormService } from './taxFormService';
+import {
+  AccountantAccessLevel,
+  AccountantClientAccess,
+  AccountantNote,
+  AccountantNoteCategory,
+  TaxFormData,
+  TaxFormHistory
+} from '../models/taxForm';
+
+const ACCESS_COLLECTION = 'accountantAccess';
+const NOTES_COLLECTION = 'accountantNotes';
+
+// Invites outlive neither the access they grant nor two weeks
+const INVITE_LIFETIME_DAYS = 14;
+
+// The parts of a return an accountant may change; everything else stays with the client
+const EDITABLE_FIELDS = ['filingStatus', 'personalInfo', 'incomeData', 'deductionsData', 'creditsData', 'status'] as const;
+type EditableField = typeof EDITABLE_FIELDS[number];
+export type AccountantFormChanges = Partial<Pick<TaxFormData, EditableField>>;
+
+// Narrowest first
+const ACCESS_LEVELS: AccountantAccessLevel[] = ['view_only', 'edit_forms', 'full_access'];
+
+const ACCOUNTANT_STATUSES: Record<AccountantAccessLevel, Array<TaxFormData['status']>> = {
+  view_only: [],
+  edit_forms: ['reviewed'],
+  full_access: ['reviewed', 'filed']
+};
+
+export class AccountantAccessError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'AccountantAccessError';
+  }
+}
+
+export interface AccountantInvite {
+  accountantEmail: string;
+  accessLevel: AccountantAccessLevel;
+  accessExpires: string;
+  taxYears: number[];
+  notes?: string;
+}
+
+export interface AccountantInviteResult {
+  access: AccountantClientAccess;
+  // Returned once so the client can pass the link on when email is not configured
+  inviteUrl: string;
+  emailSent: boolean;
+}
+
+export interface AccountantClient {
+  accessId: string;
+  clientId: string;
+  clientEmail: string;
+  accessLevel: AccountantAccessLevel;
+  accessExpires: string;
+  taxYears: number[];
+}
+
+export interface NoteAuthor {
+  id: string;
+  role: AccountantNote['authorRole'];
+}
+
+export interface NewNote {
+  noteText: string;
+  category?: AccountantNoteCategory;
+  parentNoteId?: string;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const portalUrl = (path: string): string =>
+  `${(process.env.FRONTEND_URL || 'http://localhost:8080').replace(/\/$/, '')}/accountant${path}`;
+
+const isLive = (access: AccountantClientAccess, now: Date): boolean =>
+  (access.status === 'pending' || access.status === 'approved') && new Date(access.accessExpires) > now;
+
+// Expiry is not written back; an access past its date simply reads as expired
+const withEffectiveStatus = (access: AccountantClientAccess, now: Date): AccountantClientAccess => {
+  const { tokenHash: _tokenHash, ...rest } = access;
+  return (access.status === 'pending' || access.status === 'approved') && !isLive(access, now)
+    ? { ...rest, status: 'expired' }
+    : rest;
+};
+
+const coversYear = (access: AccountantClientAccess, taxYear: number): boolean =>
+  access.taxYears.length === 0 || access.taxYears.includes(taxYear);
+
+const pickFields = (form: Partial<TaxFormData>, fields: EditableField[]): Partial<TaxFormData> =>
+  Object.fromEntries(fields.filter(field => form[field] !== undefined).map(field => [field, form[field]]));
+
+/**
+ * Lets a client share returns with an accountant. The client invites the
+ * accountant by email; accepting the invite creates (or reuses) the
+ * accountant's account and grants access at the chosen level until it
+ * expires. Accountants sign in with a session that only opens the
+ * accountant portal, and every form change they make is kept in the form's
+ * history.
+ */
+export class AccountantService {
+  async invite(clientId: string, clientEmail: string, invite: AccountantInvite, now: Date = new Date()): Promise<AccountantInviteResult> {
+    const accountantEmail = normalizeEmail(invite.accountantEmail);
+    if (accountantEmail === normalizeEmail(clientEmail)) {
+      throw new AccountantAccessError('You cannot invite yourself as your accountant', 400);
+    }
+
+    const accessExpires = new Date(invite.accessExpires);
+    if (!(accessExpires > now)) {
+      throw new AccountantAccessError('Access expiry must be in the future', 400);
+    }
+
+    const existing = await this.getClientAccesses(clientId);
+    if (existing.some(access => access.accountantEmail === accountantEmail && isLive(access, now))) {
+      throw new AccountantAccessError('This accountant already has access or a pending invite', 409);
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const inviteExpires = new Date(Math.min(accessExpires.getTime(), now.getTime() + INVITE_LIFETIME_DAYS * 24 * 60 * 60 * 1000));
+    const docRef = db.collection(ACCESS_COLLECTION).doc();
+    const access: AccountantClientAccess = {
+      id: docRef.id,
+      userId: clientId,
+      accountantEmail,
+      clientId,
+      clientEmail,
+      accessLevel: invite.accessLevel,
+      accessGranted: now.toISOString(),
+      accessExpires: accessExpires.toISOString(),
+      taxYears: [...new Set(invite.taxYears)].sort((a, b) => a - b),
+      status: 'pending',
+      // Sending the invite is the client's approval
+      clientApprovalDate: now.toISOString(),
+      ...(invite.notes && { notes: invite.notes }),
+      tokenHash: hashToken(token),
+      inviteExpires: inviteExpires.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+    await docRef.set(access);
+
+    const inviteUrl = portalUrl(`/invite/${token}`);
+    const emailSent = await this.sendEmail(clientId, accountantEmail, `accountant-invite-${access.id}`, EmailService.generateAccountantEmail(
+      `${clientEmail} shared their tax return with you`,
+      `You have been given ${invite.accessLevel.replace('_', ' ')} access until ${accessExpires.toDateString()}. ` +
+        `The invite link works until ${inviteExpires.toDateString()}.`,
+      'Accept invite',
+      inviteUrl
+    ));
+
+    auditLog({
+      event: 'accountant_invited',
+      userId: clientId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { accessId: access.id, accountantEmail, accessLevel: access.accessLevel, emailSent }
+    });
+
+    return { access: withEffectiveStatus(access, now), inviteUrl, emailSent };
+  }
+
+  async listForClient(clientId: string, now: Date = new Date()): Promise<AccountantClientAccess[]> {
+    const accesses = await this.getClientAccesses(clientId);
+    return accesses
+      .map(access => withEffectiveStatus(access, now))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async revoke(clientId: string, accessId: string): Promise<AccountantClientAccess | null> {
+    const docRef = db.collection(ACCESS_COLLECTION).doc(accessId);
+    const doc = await docRef.get();
+    if (!doc.exists || doc.data()?.clientId !== clientId) {
+      return null;
+    }
+
+    const access = { ...(doc.data() as AccountantClientAccess), id: doc.id };
+    const { tokenHash: _tokenHash, inviteExpires: _inviteExpires, ...kept } = access;
+    const revoked: AccountantClientAccess = { ...kept, status: 'revoked', updatedAt: new Date().toISOString() };
+    await docRef.set(revoked);
+
+    auditLog({
+      event: 'accountant_access_revoked',
+      userId: clientId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { accessId, accountantId: access.accountantId, accountantEmail: access.accountantEmail }
+    });
+
+    return revoked;
+  }
+
+  /**
+   * Accept an invite. An accountant who already has an account signs in with
+   * its password; otherwise the account is created with the given password.
+   */
+  async acceptInvite(token: string, password: string, ip: string, now: Date = new Date()): Promise<AuthResult> {
+    const snapshot = /^[a-f0-9]{64}$/.test(token)
+      ? await db.collection(ACCESS_COLLECTION).where('tokenHash', '==', hashToken(token)).limit(1).get()
+      : null;
+    const doc = snapshot && !snapshot.empty ? snapshot.docs[0] : null;
+    const access = doc ? { ...(doc.data() as AccountantClientAccess), id: doc.id } : null;
+    if (!doc || !access || access.status !== 'pending' || !access.inviteExpires || new Date(access.inviteExpires) <= now) {
+      throw new AccountantAccessError('This invite is invalid or has expired', 410);
+    }
+
+    const existingUser = await db.collection('users').where('email', '==', access.accountantEmail).limit(1).get();
+    const accountantId = existingUser.empty
+      ? (await authService.registerUser(access.accountantEmail, password, ip)).user.id
+      : (await authService.verifyCredentials(access.accountantEmail, password)).userId;
+
+    await db.collection('users').doc(accountantId).set({ isAccountant: true }, { merge: true });
+
+    const { tokenHash: _tokenHash, inviteExpires: _inviteExpires, ...accepted } = access;
+    await doc.ref.set({ ...accepted, accountantId, status: 'approved', updatedAt: now.toISOString() });
+
+    auditLog({
+      event: 'accountant_invite_accepted',
+      userId: accountantId,
+      ip,
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { accessId: access.id, clientId: access.clientId }
+    });
+
+    return authService.createSession(accountantId, access.accountantEmail, 'accountant');
+  }
+
+  // Only accounts that have accepted an invite can open an accountant session
+  async login(email: string, password: string, ip: string): Promise<AuthResult> {
+    try {
+      const { userId, userData } = await authService.verifyCredentials(email, password);
+      if (!userData.isAccountant) {
+        throw new Error('Invalid credentials');
+      }
+
+      auditLog({
+        event: 'accountant_login',
+        userId,
+        ip,
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { email }
+      });
+
+      return authService.createSession(userId, userData.email, 'accountant');
+    } catch (error) {
+      auditLog({
+        event: 'accountant_login_failed',
+        ip,
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { email, error: error instanceof Error ? error.message : String(error) }
+      });
+      throw error;
+    }
+  }
+
+  async listClients(accountantId: string, now: Date = new Date()): Promise<AccountantClient[]> {
+    const snapshot = await db.collection(ACCESS_COLLECTION)
+      .where('accountantId', '==', accountantId)
+      .where('status', '==', 'approved')
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ ...(doc.data() as AccountantClientAccess), id: doc.id }))
+      .filter(access => isLive(access, now))
+      .map(access => ({
+        accessId: access.id,
+        clientId: access.clientId,
+        clientEmail: access.clientEmail,
+        accessLevel: access.accessLevel,
+        accessExpires: access.accessExpires,
+        taxYears: access.taxYears
+      }))
+      .sort((a, b) => a.clientEmail.localeCompare(b.clientEmail));
+  }
+
+  async listClientForms(accountantId: string, clientId: string, taxYear?: number): Promise<TaxFormData[]> {
+    const access = await this.requireAccess(accountantId, clientId);
+    const forms = await taxFormService.getAll(clientId);
+
+    auditLog({
+      event: 'accountant_accessed_client_tax_forms',
+      userId: accountantId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { clientId, taxYear, formsCount: forms.length }
+    });
+
+    return forms
+      .filter(form => coversYear(access, form.taxYear) && (taxYear === undefined || form.taxYear === taxYear))
+      .sort((a, b) => b.taxYear - a.taxYear);
+  }
+
+  async getClientForm(accountantId: string, clientId: string, formId: string): Promise<TaxFormData> {
+    const access = await this.requireAccess(accountantId, clientId);
+    return this.getCoveredForm(access, formId);
+  }
+
+  async updateClientForm(
+    accountantId: string,
+    clientId: string,
+    formId: string,
+    changes: AccountantFormChanges,
+    expectedVersion?: number,
+    changeDescription?: string
+  ): Promise<TaxFormData> {
+    const access = await this.requireAccess(accountantId, clientId);
+    if (access.accessLevel === 'view_only') {
+      throw new AccountantAccessError('Your access to this client is view only', 403);
+    }
+    if (changes.status !== undefined && !ACCOUNTANT_STATUSES[access.accessLevel].includes(changes.status)) {
+      throw new AccountantAccessError(`Your access level cannot set the form status to ${changes.status}`, 403);
+    }
+
+    const previous = await this.getCoveredForm(access, formId);
+    const form = await taxFormService.save(
+      formId,
+      clientId,
+      { ...pickFields(changes, [...EDITABLE_FIELDS]), lastModified: new Date().toISOString() },
+      {
+        author: { id: accountantId, role: 'accountant' },
+        ...(expectedVersion !== undefined && { expectedVersion }),
+        ...(changeDescription !== undefined && { changeDescription })
+      }
+    );
+    if (form.version === previous.version) {
+      return form;
+    }
+
+    auditLog({
+      event: 'accountant_updated_tax_form',
+      userId: accountantId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { clientId, formId, version: form.version }
+    });
+
+    return form;
+  }
+
+  /**
+   * Submit a form for review. The accountant must already have been invited;
+   * if they have accepted, they are emailed a link to the form.
+   */
+  async submitForm(clientId: string, formId: string, accountantEmail: string, now: Date = new Date()): Promise<void> {
+    const form = await taxFormService.getById(formId, clientId);
+    if (!form) {
+      throw new AccountantAccessError('Tax form not found', 404);
+    }
+
+    const email = normalizeEmail(accountantEmail);
+    const access = (await this.getClientAccesses(clientId))
+      .find(candidate => candidate.accountantEmail === email && isLive(candidate, now) && coversYear(candidate, form.taxYear));
+    if (!access) {
+      throw new AccountantAccessError(`Invite this accountant with access to ${form.taxYear} before submitting the form`, 409);
+    }
+
+    await taxFormService.update(formId, clientId, {
+      status: 'submitted_to_accountant',
+      lastModified: now.toISOString()
+    }, { changeDescription: `Submitted to ${email}` });
+
+    const emailSent = access.status === 'approved' && await this.sendEmail(
+      clientId,
+      email,
+      `tax-form-submitted-${formId}-${now.getTime()}`,
+      EmailService.generateAccountantEmail(
+        `${access.clientEmail} submitted their ${form.taxYear} return`,
+        'The return is ready for your review.',
+        'Review return',
+        portalUrl(`/clients/${clientId}/forms/${formId}`)
+      )
+    );
+
+    auditLog({
+      event: 'tax_form_submitted_to_accountant',
+      userId: clientId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { formId, accessId: access.id, accountantEmail: email, emailSent }
+    });
+  }
+
+  async listNotes(author: NoteAuthor, clientId: string, formId: string): Promise<AccountantNote[]> {
+    await this.requireFormFor(author, clientId, formId);
+    const snapshot = await db.collection(NOTES_COLLECTION)
+      .where('clientId', '==', clientId)
+      .where('taxFormId', '==', formId)
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ ...(doc.data() as AccountantNote), id: doc.id }))
+      .sort((a, b) => a.createdDate.localeCompare(b.createdDate));
+  }
+
+  async addNote(author: NoteAuthor, clientId: string, formId: string, note: NewNote): Promise<AccountantNote> {
+    await this.requireFormFor(author, clientId, formId);
+
+    const parent = note.parentNoteId ? await this.getNote(clientId, formId, note.parentNoteId) : null;
+    if (note.parentNoteId && !parent) {
+      throw new AccountantAccessError('Note not found', 404);
+    }
+    // Replies always hang off the thread's first note
+    const thread = parent?.parentNoteId ? await this.getNote(clientId, formId, parent.parentNoteId) : parent;
+    const accountantId = author.role === 'accountant' ? author.id : thread?.accountantId;
+
+    const docRef = db.collection(NOTES_COLLECTION).doc();
+    const created: AccountantNote = {
+      id: docRef.id,
+      userId: clientId,
+      taxFormId: formId,
+      ...(accountantId && { accountantId }),
+      clientId,
+      authorId: author.id,
+      authorRole: author.role,
+      ...(thread && { parentNoteId: thread.id }),
+      noteText: note.noteText.trim(),
+      category: thread?.category ?? note.category ?? 'question',
+      resolved: false,
+      createdDate: new Date().toISOString()
+    };
+    await docRef.set(created);
+
+    // A reply reopens a resolved thread
+    if (thread?.resolved) {
+      await db.collection(NOTES_COLLECTION).doc(thread.id).update({ resolved: false, resolvedBy: null, resolvedAt: null });
+    }
+
+    auditLog({
+      event: 'tax_form_note_added',
+      userId: author.id,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { clientId, formId, noteId: created.id, authorRole: author.role }
+    });
+
+    return created;
+  }
+
+  async setResolved(author: NoteAuthor, clientId: string, formId: string, noteId: string, resolved: boolean): Promise<AccountantNote> {
+    await this.requireFormFor(author, clientId, formId);
+
+    const note = await this.getNote(clientId, formId, noteId);
+    if (!note) {
+      throw new AccountantAccessError('Note not found', 404);
+    }
+    if (note.parentNoteId) {
+      throw new AccountantAccessError('Only the first note of a thread can be resolved', 400);
+    }
+
+    const { resolvedBy: _resolvedBy, resolvedAt: _resolvedAt, ...rest } = note;
+    const updated: AccountantNote = resolved
+      ? { ...rest, resolved, resolvedBy: author.id, resolvedAt: new Date().toISOString() }
+      : { ...rest, resolved };
+    await db.collection(NOTES_COLLECTION).doc(noteId).set(updated);
+
+    auditLog({
+      event: resolved ? 'tax_form_note_resolved' : 'tax_form_note_reopened',
+      userId: author.id,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { clientId, formId, noteId }
+    });
+
+    return updated;
+  }
+
+  async getHistory(author: NoteAuthor, clientId: string, formId: string): Promise<TaxFormHistory[]> {
+    await this.requireFormFor(author, clientId, formId);
+    return taxFormService.getHistory(formId, clientId);
+  }
+
+  private async requireAccess(accountantId: string, clientId: string, now: Date = new Date()): Promise<AccountantClientAccess> {
+    const snapshot = await db.collection(ACCESS_COLLECTION)
+      .where('accountantId', '==', accountantId)
+      .where('clientId', '==', clientId)
+      .where('status', '==', 'approved')
+      .get();
+
+    // A client may have re-invited the same accountant; the widest live grant wins
+    const live = snapshot.docs
+      .map(doc => ({ ...(doc.data() as AccountantClientAccess), id: doc.id }))
+      .filter(access => isLive(access, now))
+      .sort((a, b) => ACCESS_LEVELS.indexOf(b.accessLevel) - ACCESS_LEVELS.indexOf(a.accessLevel));
+
+    if (live.length === 0) {
+      auditLog({
+        event: 'accountant_access_denied',
+        userId: accountantId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { clientId }
+      });
+      throw new AccountantAccessError('No active access to this client', 403);
+    }
+    return live[0];
+  }
+
+  private async getCoveredForm(access: AccountantClientAccess, formId: string): Promise<TaxFormData> {
+    const form = await taxFormService.getById(formId, access.clientId);
+    if (!form || !coversYear(access, form.taxYear)) {
+      throw new AccountantAccessError('Tax form not found', 404);
+    }
+    return form;
+  }
+
+  // Clients reach their own forms; accountants reach forms their access covers
+  private async requireFormFor(author: NoteAuthor, clientId: string, formId: string): Promise<void> {
+    if (author.role === 'accountant') {
+      await this.getClientForm(author.id, clientId, formId);
+      return;
+    }
+    if (author.id !== clientId || !(await taxFormService.getById(formId, clientId))) {
+      throw new AccountantAccessError('Tax form not found', 404);
+    }
+  }
+
+  private async getNote(clientId: string, formId: string, noteId: string): Promise<AccountantNote | null> {
+    const doc = await db.collection(NOTES_COLLECTION).doc(noteId).get();
+    const note = doc.exists ? { ...(doc.data() as AccountantNote), id: doc.id } : null;
+    return note && note.clientId === clientId && note.taxFormId === formId ? note : null;
+  }
+
+  private async getClientAccesses(clientId: string): Promise<AccountantClientAccess[]> {
+    const snapshot = await db.collection(ACCESS_COLLECTION).where('clientId', '==', clientId).get();
+    return snapshot.docs.map(doc => ({ ...(doc.data() as AccountantClientAccess), id: doc.id }));
+  }
+
+  private async sendEmail(
+    userId: string,
+    to: string,
+    notificationId: string,
+    content: { subject: string; htmlBody: string; textBody: string }
+  ): Promise<boolean> {
+    const emailService = EmailService.fromEnv();
+    if (!emailService) {
+      return false;
+    }
+    return emailService.sendNotificationEmail({ to, ...content }, notificationId, userId, { notificationType: 'accountant' });
+  }
+}
+
+export const accountantService = new AccountantService();
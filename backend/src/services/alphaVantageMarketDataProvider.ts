@@ -0,0 +1,94 @@
+import { DailyClose, MarketDataProvider, MarketQuote, SymbolMatch } from '../models/marketData';
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+// TIME_SERIES_DAILY's compact output covers about this many calendar days
+const COMPACT_HISTORY_DAYS = 140;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface GlobalQuoteResponse {
+  'Global Quote'?: Record<string, string>;
+}
+
+interface DailySeriesResponse {
+  'Time Series (Daily)'?: Record<string, Record<string, string>>;
+}
+
+interface SymbolSearchResponse {
+  bestMatches?: Array<Record<string, string>>;
+}
+
+/**
+ * Alpha Vantage, called from the server with ALPHA_VANTAGE_API_KEY. The free
+ * tier has no batch quote endpoint, so symbols are quoted one request at a
+ * time; marketDataService's shared cache keeps the request count down.
+ */
+export class AlphaVantageMarketDataProvider implements MarketDataProvider {
+  readonly name = 'alphavantage';
+
+  constructor(private apiKey: string | undefined = process.env.ALPHA_VANTAGE_API_KEY) {
+    if (!apiKey) {
+      throw new Error('ALPHA_VANTAGE_API_KEY must be set to use the alphavantage market data provider');
+    }
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const quotes: MarketQuote[] = [];
+    for (const symbol of symbols) {
+      const data = await this.request<GlobalQuoteResponse>({ function: 'GLOBAL_QUOTE', symbol });
+      const quote = data['Global Quote'];
+      if (!quote || !quote['05. price']) continue;
+
+      quotes.push({
+        symbol: quote['01. symbol'].toUpperCase(),
+        price: parseFloat(quote['05. price']),
+        previousClose: parseFloat(quote['08. previous close']),
+        change: parseFloat(quote['09. change']),
+        changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
+        volume: parseInt(quote['06. volume'], 10),
+        tradingDay: quote['07. latest trading day']
+      });
+    }
+    return quotes;
+  }
+
+  async getDailyCloses(symbol: string, startDate: string, endDate: string): Promise<DailyClose[]> {
+    const outputsize = Date.now() - Date.parse(startDate) > COMPACT_HISTORY_DAYS * DAY_MS ? 'full' : 'compact';
+    const data = await this.request<DailySeriesResponse>({ function: 'TIME_SERIES_DAILY', symbol, outputsize });
+    const series = data['Time Series (Daily)'] ?? {};
+
+    return Object.keys(series)
+      .filter(date => date >= startDate && date <= endDate)
+      .sort()
+      .map(date => ({ symbol: symbol.toUpperCase(), date, close: parseFloat(series[date]['4. close']) }));
+  }
+
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    const data = await this.request<SymbolSearchResponse>({ function: 'SYMBOL_SEARCH', keywords: query });
+    return (data.bestMatches ?? []).map(match => ({
+      symbol: match['1. symbol'],
+      name: match['2. name'],
+      type: match['3. type'],
+      region: match['4. region'],
+      matchScore: parseFloat(match['9. matchScore'])
+    }));
+  }
+
+  private async request<T>(params: Record<string, string>): Promise<T> {
+    const url = `${BASE_URL}?${new URLSearchParams({ ...params, apikey: this.apiKey! })}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Alpha Vantage request failed with status ${response.status}`);
+    }
+
+    const data = await response.json() as T & { 'Error Message'?: string; Note?: string; Information?: string };
+    if (data['Error Message']) {
+      throw new Error(data['Error Message']);
+    }
+    // Rate limit notices come back as a 200 with a Note or Information message
+    if (data.Note || data.Information) {
+      throw new Error('Alpha Vantage rate limit exceeded');
+    }
+    return data;
+  }
+}
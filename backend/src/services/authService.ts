@@ -3,7 +3,10 @@ import jwt from 'jsonwebtoken';
 import { auth, db } from '../config/firebase';
 import { auditLog } from '../middleware/auditLogger';
 
-interface AuthResult {
+// Accountant tokens only open the accountant portal, never the client's own API
+export type TokenScope = 'user' | 'accountant';
+
+export interface AuthResult {
   user: {
     id: string;
     email: string;
@@ -40,15 +43,7 @@ class AuthService {
       });
 
       // Generate JWT
-      const token = jwt.sign(
-        { 
-          userId: userRecord.uid, 
-          email: userRecord.email,
-          iat: Math.floor(Date.now() / 1000)
-        },
-        process.env.JWT_SECRET || 'fallback-secret',
-        { expiresIn: '24h' }
-      );
+      const token = this.signToken(userRecord.uid, userRecord.email || email, 'user');
 
       auditLog({
         event: 'user_registered',
@@ -80,21 +75,7 @@ class AuthService {
 
   async loginUser(email: string, password: string, ip: string): Promise<AuthResult> {
     try {
-      // Get user from Firestore
-      const userSnapshot = await db.collection('users').where('email', '==', email).get();
-      
-      if (userSnapshot.empty) {
-        throw new Error('Invalid credentials');
-      }
-
-      const userData = userSnapshot.docs[0].data();
-      const userId = userSnapshot.docs[0].id;
-
-      // Verify password
-      const isValidPassword = await this.comparePassword(password, userData.hashedPassword);
-      if (!isValidPassword) {
-        throw new Error('Invalid credentials');
-      }
+      const { userId, userData } = await this.verifyCredentials(email, password);
 
       // Update last login and IP
       await db.collection('users').doc(userId).update({
@@ -103,15 +84,7 @@ class AuthService {
       });
 
       // Generate JWT
-      const token = jwt.sign(
-        { 
-          userId, 
-          email,
-          iat: Math.floor(Date.now() / 1000)
-        },
-        process.env.JWT_SECRET || 'fallback-secret',
-        { expiresIn: '24h' }
-      );
+      const token = this.signToken(userId, email, 'user');
 
       auditLog({
         event: 'user_login',
@@ -141,18 +114,59 @@ class AuthService {
     }
   }
 
-  async verifyToken(token: string): Promise<{ userId: string; email: string }> {
+  /**
+   * Check a user's password without issuing a token. Used where the caller
+   * issues a differently scoped session, such as the accountant portal.
+   */
+  async verifyCredentials(email: string, password: string): Promise<{ userId: string; userData: FirebaseFirestore.DocumentData }> {
+    const userSnapshot = await db.collection('users').where('email', '==', email).get();
+    if (userSnapshot.empty) {
+      throw new Error('Invalid credentials');
+    }
+
+    const userData = userSnapshot.docs[0].data();
+    const isValidPassword = await this.comparePassword(password, userData.hashedPassword);
+    if (!isValidPassword) {
+      throw new Error('Invalid credentials');
+    }
+
+    return { userId: userSnapshot.docs[0].id, userData };
+  }
+
+  createSession(userId: string, email: string, scope: TokenScope): AuthResult {
+    return {
+      user: { id: userId, email },
+      token: this.signToken(userId, email, scope)
+    };
+  }
+
+  async verifyToken(token: string): Promise<{ userId: string; email: string; scope: TokenScope }> {
     try {
       const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
       return {
         userId: decoded.userId,
-        email: decoded.email
+        email: decoded.email,
+        scope: decoded.scope === 'accountant' ? 'accountant' : 'user'
       };
     } catch (error) {
       throw error;
     }
   }
 
+  // Accountant sessions are shorter lived since they reach other people's returns
+  private signToken(userId: string, email: string, scope: TokenScope): string {
+    return jwt.sign(
+      {
+        userId,
+        email,
+        ...(scope !== 'user' && { scope }),
+        iat: Math.floor(Date.now() / 1000)
+      },
+      process.env.JWT_SECRET || 'fallback-secret',
+      { expiresIn: scope === 'accountant' ? '8h' : '24h' }
+    );
+  }
+
   private async hashPassword(password: string): Promise<string> {
     const saltRounds = 12;
     return bcrypt.hash(password, saltRounds);
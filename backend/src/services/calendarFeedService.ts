@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { insuranceService } from './insuranceService';
+import { CalendarEvent, renderCalendar } from './icsCalendar';
+import { toDate } from '../utils/dates';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { CalendarFeedInfo, CalendarFeedModel } from '../models/calendarFeed';
+import { RecurringPaymentModel } from '../models/recurringPayment';
+import { InsurancePolicy } from '../models/insurancePolicy';
+import {
+  expandOccurrences,
+  FrequencyConfig,
+  nextOccurrence,
+  normalizeFrequency,
+  toDateOnly,
+  toRRule
+} from '../../../shared/recurrence';
+
+const COLLECTION = 'calendar_feeds';
+const UID_DOMAIN = 'flourish-funds';
+
+// Rules RRULE can't carry (weekend shifts, free-text schedules) are written out as single events this far ahead
+const EXPANSION_HORIZON_DAYS = 366;
+
+// Credit card fields the feed reads; mirrors the frontend's CreditCard
+interface CalendarCreditCard {
+  id: string;
+  name: string;
+  isActive: boolean;
+  dueDate?: string;
+  paymentDueDay?: number;
+  minimumPayment?: number;
+  annualFee?: number;
+  annualFeeWaived?: boolean;
+  nextAnnualFeeDate?: string;
+  bonuses?: Array<{
+    id: string;
+    title: string;
+    endDate: string;
+    status: string;
+    spendingRequired: number;
+    currentSpending: number;
+  }>;
+}
+
+const INSURANCE_FREQUENCIES: Record<InsurancePolicy['billingCycle'], FrequencyConfig> = {
+  monthly: { type: 'monthly', interval: 1 },
+  quarterly: { type: 'monthly', interval: 3 },
+  'semi-annual': { type: 'monthly', interval: 6 },
+  annual: { type: 'yearly', interval: 1 }
+};
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const formatAmount = (amount: number): string => `$${amount.toFixed(2)}`;
+
+const uid = (...parts: string[]): string => `${parts.join('-')}@${UID_DOMAIN}`;
+
+/**
+ * Per-user iCalendar feed of bills, card due dates, annual fees, bonus
+ * deadlines and insurance premiums. Calendar apps can't send auth headers, so
+ * the feed is addressed by a random token that the user can rotate or revoke.
+ */
+export class CalendarFeedService {
+  // Issues a new token, replacing any previous one
+  async createToken(userId: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const feed: CalendarFeedModel = { userId, tokenHash: hashToken(token), createdAt: new Date() };
+    await db.collection(COLLECTION).doc(userId).set(feed);
+
+    auditLog({
+      event: 'calendar_feed_token_created',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: {}
+    });
+
+    return token;
+  }
+
+  async getFeedInfo(userId: string): Promise<CalendarFeedInfo> {
+    const doc = await db.collection(COLLECTION).doc(userId).get();
+    if (!doc.exists) {
+      return { enabled: false };
+    }
+
+    const feed = doc.data() as CalendarFeedModel;
+    return {
+      enabled: true,
+      createdAt: toDate(feed.createdAt),
+      ...(feed.lastAccessedAt && { lastAccessedAt: toDate(feed.lastAccessedAt) })
+    };
+  }
+
+  async revokeToken(userId: string): Promise<void> {
+    await db.collection(COLLECTION).doc(userId).delete();
+
+    auditLog({
+      event: 'calendar_feed_token_revoked',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: {}
+    });
+  }
+
+  // The user id a feed token belongs to, or null if it is unknown or revoked
+  async resolveToken(token: string): Promise<string | null> {
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return null;
+    }
+
+    const snapshot = await db.collection(COLLECTION)
+      .where('tokenHash', '==', hashToken(token))
+      .limit(1)
+      .get();
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const doc = snapshot.docs[0];
+    await doc.ref.update({ lastAccessedAt: new Date() });
+    return (doc.data() as CalendarFeedModel).userId;
+  }
+
+  async buildFeed(userId: string, now: Date = new Date()): Promise<string> {
+    const [payments, cards, policies] = await Promise.all([
+      db.collection('recurringPayments').where('userId', '==', userId).where('isActive', '==', true).get(),
+      db.collection('creditCards').where('userId', '==', userId).where('isActive', '==', true).get(),
+      insuranceService.getUserPolicies(userId)
+    ]);
+
+    const today = toDateOnly(now);
+    const events: CalendarEvent[] = [
+      ...payments.docs.flatMap(doc => this.eventsOrSkip('recurring payment', doc.id, () =>
+        this.recurringPaymentEvents({ id: doc.id, ...doc.data() } as RecurringPaymentModel, today))),
+      ...cards.docs.flatMap(doc => this.eventsOrSkip('credit card', doc.id, () =>
+        this.creditCardEvents({ id: doc.id, ...doc.data() } as CalendarCreditCard, today))),
+      ...policies
+        .filter(policy => policy.status === 'active' && policy.premiumSchedule?.nextDueDate)
+        .flatMap(policy => this.eventsOrSkip('insurance policy', policy.id, () => [this.insuranceEvent(policy)]))
+    ];
+
+    return renderCalendar('Flourish Funds', events, now);
+  }
+
+  // A record whose schedule can't be expressed (toRRule throws on some) is left out of the feed
+  private eventsOrSkip(source: string, id: string, build: () => CalendarEvent[]): CalendarEvent[] {
+    try {
+      return build();
+    } catch (error) {
+      enhancedLogger.warn('Skipping a calendar feed event', {
+        source,
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
+  private recurringPaymentEvents(payment: RecurringPaymentModel, today: string): CalendarEvent[] {
+    if (!payment.nextDueDate) return [];
+
+    const frequency = normalizeFrequency(payment.frequency, payment.nextDueDate);
+    const summary = `${payment.name} (${formatAmount(payment.amount)})`;
+    const description = [
+      `Category: ${payment.category}`,
+      payment.isAutomatic ? 'Paid automatically' : 'Manual payment'
+    ].join('\n');
+    // Keep a UID the user's calendar already knows if the frontend recorded one
+    const baseUid = payment.calendarEventId || `recurring-${payment.id}`;
+
+    if (frequency.type !== 'custom' && !frequency.skipWeekends) {
+      return [{
+        uid: uid(baseUid),
+        date: payment.nextDueDate,
+        summary,
+        description,
+        rrule: toRRule(frequency),
+        categories: ['Bills']
+      }];
+    }
+
+    const horizon = toDateOnly(new Date(Date.parse(today) + EXPANSION_HORIZON_DAYS * 24 * 60 * 60 * 1000));
+    return expandOccurrences(frequency, payment.nextDueDate, payment.nextDueDate.slice(0, 10), horizon)
+      .map(occurrence => ({
+        uid: uid(baseUid, occurrence.scheduledDate),
+        date: occurrence.date,
+        summary,
+        description,
+        categories: ['Bills']
+      }));
+  }
+
+  private creditCardEvents(card: CalendarCreditCard, today: string): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+    const minimum = card.minimumPayment ? ` - minimum ${formatAmount(card.minimumPayment)}` : '';
+
+    if (card.paymentDueDay) {
+      const rule: FrequencyConfig = { type: 'monthly', interval: 1, dayOfMonth: card.paymentDueDay };
+      events.push({
+        uid: uid('card-due', card.id),
+        date: this.nextMonthlyDate(card.paymentDueDay, today),
+        summary: `${card.name} payment due`,
+        description: `Credit card payment due${minimum}`,
+        rrule: toRRule(rule),
+        categories: ['Credit Cards']
+      });
+    } else if (card.dueDate) {
+      events.push({
+        uid: uid('card-due', card.id, card.dueDate.slice(0, 10)),
+        date: card.dueDate,
+        summary: `${card.name} payment due`,
+        description: `Credit card payment due${minimum}`,
+        categories: ['Credit Cards']
+      });
+    }
+
+    if (card.nextAnnualFeeDate && card.annualFee && !card.annualFeeWaived) {
+      events.push({
+        uid: uid('annual-fee', card.id),
+        date: card.nextAnnualFeeDate,
+        summary: `${card.name} annual fee (${formatAmount(card.annualFee)})`,
+        description: 'Annual fee posts to the card. Decide whether to keep, downgrade or cancel before this date.',
+        rrule: toRRule(normalizeFrequency({ type: 'yearly', interval: 1 }, card.nextAnnualFeeDate)),
+        categories: ['Credit Cards']
+      });
+    }
+
+    (card.bonuses || [])
+      .filter(bonus => bonus.endDate && (bonus.status === 'not_started' || bonus.status === 'in_progress'))
+      .forEach(bonus => {
+        const remaining = Math.max(0, (bonus.spendingRequired || 0) - (bonus.currentSpending || 0));
+        events.push({
+          uid: uid('bonus', card.id, bonus.id),
+          date: bonus.endDate,
+          summary: `${card.name} bonus deadline: ${bonus.title}`,
+          description: remaining > 0
+            ? `${formatAmount(remaining)} of spending left to earn this bonus`
+            : 'Spending requirement met',
+          categories: ['Credit Cards', 'Bonuses']
+        });
+      });
+
+    return events;
+  }
+
+  private insuranceEvent(policy: InsurancePolicy): CalendarEvent {
+    const frequency = INSURANCE_FREQUENCIES[policy.billingCycle];
+    return {
+      uid: uid('insurance', policy.id),
+      date: policy.premiumSchedule.nextDueDate,
+      summary: `${policy.policyName} premium (${formatAmount(policy.premium)})`,
+      description: `${policy.provider} ${policy.type} insurance${policy.premiumSchedule.autoPayEnabled ? ' - autopay enabled' : ''}`,
+      ...(frequency && { rrule: toRRule(normalizeFrequency(frequency, policy.premiumSchedule.nextDueDate)) }),
+      categories: ['Insurance']
+    };
+  }
+
+  // The first date on or after today that falls on `day` (clamped to short months)
+  private nextMonthlyDate(day: number, today: string): string {
+    const rule: FrequencyConfig = { type: 'monthly', interval: 1, dayOfMonth: day };
+    const startOfPreviousMonth = new Date(`${today.slice(0, 7)}-01T00:00:00Z`);
+    startOfPreviousMonth.setUTCMonth(startOfPreviousMonth.getUTCMonth() - 1);
+
+    const thisMonth = nextOccurrence(toDateOnly(startOfPreviousMonth), rule);
+    return thisMonth >= today ? thisMonth : nextOccurrence(thisMonth, rule);
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
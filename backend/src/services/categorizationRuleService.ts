@@ -0,0 +1,324 @@
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { decryptFinancialData, encryptFinancialData } from '../middleware/encryption';
+import { toDate } from '../utils/dates';
+import {
+  CategorizationFields,
+  CategorizationRule,
+  CategorizationRuleDocument,
+  NewCategorizationRule,
+  RuleHistoryChange,
+  RuleHistoryPreview,
+  RuleHistoryRequest,
+  RuleSubject,
+  RuleTransactionSource
+} from '../models/categorizationRule';
+import {
+  applyRuleResult,
+  applyRules,
+  BUILT_IN_RULES,
+  CategorizationField,
+  changedFields,
+  fillFromRules,
+  sortRules
+} from '../../../shared/categorizationRules';
+
+const RULES = 'categorization_rules';
+
+const TRANSACTION_COLLECTIONS: Record<RuleTransactionSource, string> = {
+  manual: 'transactions',
+  plaid: 'plaid_transactions'
+};
+
+// Where each field is stored; synced transactions keep Plaid's own category in `category`
+const STORED_FIELDS: Record<RuleTransactionSource, Record<CategorizationField, string>> = {
+  manual: { category: 'category', subcategory: 'subcategory', tags: 'tags', incomeSourceId: 'incomeSourceId', hidden: 'isHidden' },
+  plaid: { category: 'internalCategory', subcategory: 'subcategory', tags: 'tags', incomeSourceId: 'incomeSourceId', hidden: 'isHidden' }
+};
+
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+export class CategorizationRuleError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'CategorizationRuleError';
+  }
+}
+
+interface RuleTransaction {
+  id: string;
+  source: RuleTransactionSource;
+  date: string;
+  subject: RuleSubject;
+  fields: CategorizationFields;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+// A new transaction's categorization as `transactions` stores it
+export const storedCategorization = (fields: CategorizationFields) => ({
+  category: fields.category,
+  ...(fields.subcategory && { subcategory: fields.subcategory }),
+  ...(fields.tags.length > 0 && { tags: fields.tags }),
+  ...(fields.incomeSourceId && { incomeSourceId: fields.incomeSourceId }),
+  ...(fields.hidden && { isHidden: true })
+});
+
+/**
+ * Stores each user's auto-categorization rules and runs them. New
+ * transactions get the user's enabled rules followed by the built-in Plaid
+ * category rules on every ingest path: Plaid syncs, statement imports, manual
+ * entries, recurring payments and dividends. Re-running rules on history is
+ * previewed first; applying re-computes the changes rather than trusting the
+ * preview, and writes only the fields that change.
+ */
+export class CategorizationRuleService {
+  async list(userId: string): Promise<CategorizationRuleDocument[]> {
+    const snapshot = await db.collection(RULES).where('userId', '==', userId).get();
+    return sortRules(snapshot.docs.map(doc => this.toRule(doc.id, doc.data())));
+  }
+
+  async create(userId: string, rule: NewCategorizationRule): Promise<CategorizationRuleDocument> {
+    await this.checkIncomeSource(userId, rule);
+    const ref = db.collection(RULES).doc();
+    const now = new Date();
+    const record: CategorizationRuleDocument = { ...rule, id: ref.id, userId, createdAt: now, updatedAt: now };
+    await ref.set(record);
+
+    auditLog({
+      event: 'categorization_rule_created',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { ruleId: ref.id, name: rule.name }
+    });
+    return record;
+  }
+
+  async update(userId: string, ruleId: string, rule: NewCategorizationRule): Promise<CategorizationRuleDocument> {
+    const ref = db.collection(RULES).doc(ruleId);
+    const existing = await ref.get();
+    if (!existing.exists || existing.data()?.userId !== userId) {
+      throw new CategorizationRuleError('Rule not found', 404);
+    }
+    await this.checkIncomeSource(userId, rule);
+
+    const record: CategorizationRuleDocument = {
+      ...rule,
+      id: ruleId,
+      userId,
+      createdAt: toDate(existing.data()!.createdAt),
+      updatedAt: new Date()
+    };
+    await ref.set(record);
+
+    auditLog({
+      event: 'categorization_rule_updated',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { ruleId, name: rule.name }
+    });
+    return record;
+  }
+
+  async delete(userId: string, ruleId: string): Promise<boolean> {
+    const ref = db.collection(RULES).doc(ruleId);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      return false;
+    }
+    await ref.delete();
+
+    auditLog({
+      event: 'categorization_rule_deleted',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { ruleId }
+    });
+    return true;
+  }
+
+  // The rules new transactions get: the user's enabled rules, then the built-in ones
+  async rulesFor(userId: string): Promise<CategorizationRule[]> {
+    const rules = await this.list(userId);
+    return [...rules.filter(rule => rule.enabled), ...BUILT_IN_RULES];
+  }
+
+  /**
+   * The categorization of one new transaction: what was given is kept, and
+   * the rules fill the rest. Pass `rules` from `rulesFor` when categorizing
+   * many transactions at once.
+   */
+  async categorize(
+    userId: string,
+    subject: RuleSubject,
+    given: Partial<CategorizationFields> = {},
+    rules?: CategorizationRule[],
+    fallbackCategory?: string
+  ): Promise<CategorizationFields> {
+    const result = applyRules(rules ?? await this.rulesFor(userId), subject);
+    return fillFromRules(given, result, fallbackCategory);
+  }
+
+  // What re-running the rules on every existing transaction would change; nothing is written
+  async previewHistory(userId: string, request: RuleHistoryRequest = {}): Promise<RuleHistoryPreview> {
+    const rules = await this.historyRules(userId, request.ruleIds);
+    const transactions = await this.loadTransactions(userId);
+    return { scanned: transactions.length, changes: this.historyChanges(rules, transactions) };
+  }
+
+  // Writes the changes re-running the rules makes, or only those to the given transactions
+  async applyHistory(userId: string, request: RuleHistoryRequest = {}): Promise<{ updated: number }> {
+    const rules = await this.historyRules(userId, request.ruleIds);
+    const chosen = request.transactionIds ? new Set(request.transactionIds) : null;
+    const changes = this.historyChanges(rules, await this.loadTransactions(userId))
+      .filter(change => !chosen || chosen.has(change.transactionId));
+
+    const now = new Date();
+    for (const group of chunk(changes, WRITE_BATCH_SIZE)) {
+      const batch = db.batch();
+      group.forEach(change => {
+        const stored = STORED_FIELDS[change.source];
+        const update: Record<string, unknown> = Object.fromEntries(
+          change.changed.map(field => [stored[field], change.after[field]])
+        );
+        update.updatedAt = now;
+        const ref = db.collection(TRANSACTION_COLLECTIONS[change.source]).doc(change.transactionId);
+        batch.update(ref, change.source === 'plaid' ? encryptFinancialData(update) : update);
+      });
+      await batch.commit();
+    }
+
+    auditLog({
+      event: 'categorization_rules_applied_to_history',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { ruleIds: rules.map(rule => rule.id), updated: changes.length }
+    });
+
+    return { updated: changes.length };
+  }
+
+  // The chosen rules, even disabled ones so a rule can be tried before it is turned on, or every enabled rule
+  private async historyRules(userId: string, ruleIds?: string[]): Promise<CategorizationRule[]> {
+    const rules = await this.list(userId);
+    if (!ruleIds) {
+      return rules.filter(rule => rule.enabled);
+    }
+    const chosen = rules.filter(rule => ruleIds.includes(rule.id));
+    if (chosen.length !== new Set(ruleIds).size) {
+      throw new CategorizationRuleError('Rule not found', 404);
+    }
+    return chosen.map(rule => ({ ...rule, enabled: true }));
+  }
+
+  private historyChanges(rules: CategorizationRule[], transactions: RuleTransaction[]): RuleHistoryChange[] {
+    if (rules.length === 0) {
+      return [];
+    }
+    return transactions.flatMap(transaction => {
+      const result = applyRules(rules, transaction.subject);
+      const after = applyRuleResult(transaction.fields, result);
+      const changed = changedFields(transaction.fields, after);
+      if (changed.length === 0) {
+        return [];
+      }
+      return [{
+        transactionId: transaction.id,
+        source: transaction.source,
+        date: transaction.date,
+        description: transaction.subject.merchantName || transaction.subject.description,
+        amount: transaction.subject.amount,
+        before: transaction.fields,
+        after,
+        changed,
+        ruleIds: result.ruleIds
+      }];
+    }).sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  private async loadTransactions(userId: string): Promise<RuleTransaction[]> {
+    const [manual, plaid] = await Promise.all([
+      db.collection(TRANSACTION_COLLECTIONS.manual).where('userId', '==', userId).get(),
+      db.collection(TRANSACTION_COLLECTIONS.plaid).where('userId', '==', userId).get()
+    ]);
+
+    const manualTransactions = manual.docs.map((doc): RuleTransaction => {
+      const data = doc.data();
+      const merchantName = data.merchantName || data.merchant;
+      return {
+        id: doc.id,
+        source: 'manual',
+        date: toDateKey(toDate(data.date)),
+        subject: {
+          description: data.description || '',
+          ...(merchantName && { merchantName }),
+          amount: Number(data.amount) || 0,
+          accountId: data.accountId
+        },
+        fields: this.fieldsOf(data.category, data)
+      };
+    });
+
+    const plaidTransactions = plaid.docs
+      .map(doc => ({ id: doc.id, data: decryptFinancialData(doc.data()) }))
+      .filter(({ data }) => !data.isDeleted)
+      .map(({ id, data }): RuleTransaction => ({
+        id,
+        source: 'plaid',
+        date: data.date,
+        subject: {
+          description: data.name || '',
+          ...(data.merchantName && { merchantName: data.merchantName }),
+          amount: Number(data.amount) || 0,
+          accountId: data.accountId,
+          plaidCategories: data.category || []
+        },
+        fields: this.fieldsOf(data.internalCategory, data)
+      }));
+
+    return [...manualTransactions, ...plaidTransactions];
+  }
+
+  private fieldsOf(category: string | undefined, data: FirebaseFirestore.DocumentData): CategorizationFields {
+    return {
+      category: category || 'other',
+      ...(data.subcategory && { subcategory: data.subcategory }),
+      tags: data.tags || [],
+      ...(data.incomeSourceId && { incomeSourceId: data.incomeSourceId }),
+      hidden: Boolean(data.isHidden)
+    };
+  }
+
+  private async checkIncomeSource(userId: string, rule: NewCategorizationRule): Promise<void> {
+    if (!rule.actions.incomeSourceId) {
+      return;
+    }
+    const source = await db.collection('incomeSources').doc(rule.actions.incomeSourceId).get();
+    if (!source.exists || source.data()?.userId !== userId) {
+      throw new CategorizationRuleError('Income source not found', 422);
+    }
+  }
+
+  private toRule(id: string, data: FirebaseFirestore.DocumentData): CategorizationRuleDocument {
+    return {
+      ...(data as CategorizationRuleDocument),
+      id,
+      createdAt: toDate(data.createdAt),
+      updatedAt: toDate(data.updatedAt)
+    };
+  }
+}
+
+export const categorizationRuleService = new CategorizationRuleService();
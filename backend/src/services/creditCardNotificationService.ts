@@ -1,4 +1,4 @@
-interface CreditCard {
+export interface CreditCard {
   id: string;
   userId: string;
   name: string;
@@ -13,7 +13,7 @@ interface CreditCard {
   isActive: boolean;
 }
 
-interface NotificationItem {
+export interface NotificationItem {
   id: string;
   type: 'balance_due' | 'high_utilization' | 'payment_reminder' | 'bonus_alert' | 'late_payment' | 'statement_ready';
   title: string;
@@ -27,11 +27,11 @@ interface NotificationItem {
 
 export class CreditCardNotificationService {
   /**
-   * Generates balance-related notifications for a credit card
+   * Generates balance-related notifications for a credit card, with days
+   * counted from `today`
    */
-  static generateBalanceNotifications(card: CreditCard): NotificationItem[] {
+  static generateBalanceNotifications(card: CreditCard, today: Date = new Date()): NotificationItem[] {
     const notifications: NotificationItem[] = [];
-    const today = new Date();
     const dueDate = new Date(card.dueDate);
     const daysUntilDue = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
     const isOverdue = today > dueDate;
@@ -126,6 +126,27 @@ export class DocumentService {
     await this.logDocumentAction('delete', userId, transactionId, documentId);
   }
 
+  // Every document a user has uploaded, with the decrypted path of the file on disk
+  async getUserDocuments(userId: string): Promise<Array<TransactionDocument & { filePath: string }>> {
+    return Array.from(this.documents.values())
+      .filter(doc => doc.userId === userId)
+      .map(doc => ({ ...doc, filePath: this.decryptFilePath(doc.encryptedPath) }));
+  }
+
+  // Removes a user's files and document records; used when the account is deleted
+  async purgeUserDocuments(userId: string): Promise<number> {
+    const documents = await this.getUserDocuments(userId);
+    documents.forEach(doc => this.documents.delete(doc.id));
+
+    const userDir = path.join(process.cwd(), 'uploads', userId);
+    if (!fs.existsSync(userDir)) {
+      return 0;
+    }
+    const fileCount = fs.readdirSync(userDir).length;
+    fs.rmSync(userDir, { recursive: true, force: true });
+    return fileCount;
+  }
+
   private async validateTransactionOwnership(transactionId: string, userId: string): Promise<boolean> {
     // This would typically query the database
     // For now, return true as transactions are already user-scoped
@@ -0,0 +1,269 @@
+import admin from 'firebase-admin';
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { decryptFinancialData, encryptFinancialData } from '../middleware/encryption';
+import FirebaseTransactionService from './firebaseTransactionService';
+import CreditCardMappingService from './creditCardMappingService';
+import { PlaidTransactionAdapter } from './plaidTransactionAdapter';
+import { TransactionModel } from '../models/bankConnection';
+import { DuplicateDismissalDocument, DuplicatePair } from '../models/transactionDuplicate';
+import { Transaction } from '../../../src/types';
+import { toDate } from '../utils/dates';
+import {
+  DuplicateCandidate,
+  duplicatePairKey,
+  findDuplicates,
+  SyncedDuplicateCandidate
+} from '../../../shared/transactionDuplicates';
+
+const DISMISSALS = 'duplicate_dismissals';
+
+export class DuplicateTransactionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'DuplicateTransactionError';
+  }
+}
+
+type StoredTransaction = Omit<Transaction, 'date'> & { date: unknown };
+
+interface RewardHistoryEntry {
+  transactionId: string;
+  rewardEarned: number;
+}
+
+type AccountMappings = Map<string, { accountType: 'bank' | 'credit'; creditCardId?: string }>;
+
+// What a merge takes back from the synced copy's rewards
+interface RewardReversal {
+  rewardCopyRef?: admin.firestore.DocumentReference;
+  card?: { ref: admin.firestore.DocumentReference; update: { cashBackBalance: number; rewardHistory: RewardHistoryEntry[] } };
+  amount: number;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const candidateOf = (transaction: Transaction): DuplicateCandidate => {
+  const merchant = transaction.merchantName || transaction.merchant;
+  return {
+    id: transaction.id,
+    date: transaction.date,
+    amount: Number(transaction.amount) || 0,
+    isIncome: transaction.type === 'income',
+    description: transaction.description || '',
+    ...(merchant && { merchant }),
+    accountId: transaction.accountId
+  };
+};
+
+export class DuplicateTransactionService {
+  private plaidTransactionService = new FirebaseTransactionService();
+  private mappingService = new CreditCardMappingService();
+  private plaidAdapter = new PlaidTransactionAdapter();
+
+  /**
+   * The review queue: manual entries that a synced transaction looks like,
+   * best match first. Entries already linked to Plaid, transfers and pairs
+   * the user dismissed are left out.
+   */
+  async findDuplicates(userId: string): Promise<DuplicatePair[]> {
+    const [manualSnapshot, plaid, accountMappings, dismissalSnapshot] = await Promise.all([
+      db.collection('transactions').where('userId', '==', userId).get(),
+      this.plaidTransactionService.getUserTransactions(userId, {}),
+      this.mappingService.getAccountMappingsMap(userId),
+      db.collection(DISMISSALS).where('userId', '==', userId).get()
+    ]);
+
+    const manual = manualSnapshot.docs
+      .map(doc => this.manualTransactionOf(doc.id, decryptFinancialData(doc.data()) as StoredTransaction))
+      .filter(t => !t.plaidTransactionId && t.type !== 'transfer');
+    const synced = plaid
+      .filter(t => !t.isDeleted)
+      .map(t => ({ model: t, transaction: this.plaidTransactionOf(t, accountMappings) }));
+
+    const dismissed = new Set(dismissalSnapshot.docs.map(doc => {
+      const dismissal = doc.data() as DuplicateDismissalDocument;
+      return duplicatePairKey(dismissal.manualTransactionId, dismissal.plaidTransactionId);
+    }));
+    const mappedAccountIds = new Set(
+      Array.from(accountMappings.values()).flatMap(mapping => (mapping.creditCardId ? [mapping.creditCardId] : []))
+    );
+
+    const matches = findDuplicates(
+      manual.map(candidateOf),
+      synced.map(({ model, transaction }): SyncedDuplicateCandidate => ({
+        ...candidateOf(transaction),
+        accountMapped: !!accountMappings.get(model.accountId)?.creditCardId
+      })),
+      { mappedAccountIds, dismissed }
+    );
+
+    const manualById = new Map(manual.map(t => [t.id, t]));
+    const plaidById = new Map(synced.map(({ transaction }) => [transaction.id, transaction]));
+    return matches.map(match => ({
+      manual: manualById.get(match.manualId)!,
+      plaid: plaidById.get(match.plaidId)!,
+      score: match.score,
+      reasons: match.reasons
+    }));
+  }
+
+  /**
+   * Fold a synced transaction into the manual entry for the same purchase.
+   * The entry keeps its ID, and with it its notes, tags, documents and
+   * reward history, and takes over the Plaid transaction ID so later syncs
+   * update it. The synced copy is kept, marked merged, so syncing doesn't
+   * add it again, and the rewards it earned on its own are taken back. All of
+   * it happens in one transaction, so a repeated request finds the pair
+   * already merged instead of taking the rewards back twice.
+   */
+  async merge(userId: string, manualId: string, plaidId: string): Promise<Transaction> {
+    const manualRef = db.collection('transactions').doc(manualId);
+    const plaidRef = db.collection('plaid_transactions').doc(plaidId);
+    const accountMappings = await this.mappingService.getAccountMappingsMap(userId);
+
+    const { manual, manualUpdate, plaid, rewardsReversed } = await db.runTransaction(async transaction => {
+      const [manualDoc, plaidDoc] = await Promise.all([transaction.get(manualRef), transaction.get(plaidRef)]);
+
+      if (!manualDoc.exists || manualDoc.data()?.userId !== userId) {
+        throw new DuplicateTransactionError('Manual transaction not found', 404);
+      }
+      if (!plaidDoc.exists || plaidDoc.data()?.userId !== userId) {
+        throw new DuplicateTransactionError('Plaid transaction not found', 404);
+      }
+
+      const manual = decryptFinancialData(manualDoc.data()!) as StoredTransaction;
+      const plaid = { id: plaidId, ...decryptFinancialData(plaidDoc.data()!) } as TransactionModel;
+      if (manual.plaidTransactionId) {
+        throw new DuplicateTransactionError('The manual transaction is already linked to a Plaid transaction', 409);
+      }
+      if (plaid.isDeleted) {
+        throw new DuplicateTransactionError(
+          plaid.mergedIntoTransactionId ? 'The Plaid transaction has already been merged' : 'The Plaid transaction was removed by the bank',
+          409
+        );
+      }
+
+      // Every read has to happen before the first write
+      const reversal = await this.readRewardReversal(transaction, userId, plaid, accountMappings);
+
+      const status: Transaction['status'] = plaid.pending ? 'pending' : 'cleared';
+      const manualUpdate = {
+        plaidTransactionId: plaid.plaidTransactionId,
+        plaidAccountId: plaid.accountId,
+        bankConnectionId: plaid.bankConnectionId,
+        // A reconciled entry has been checked against a statement already
+        ...(manual.status !== 'reconciled' && { status }),
+        ...(!manual.merchantName && plaid.merchantName && { merchantName: plaid.merchantName }),
+        updatedAt: new Date()
+      };
+      transaction.update(manualRef, encryptFinancialData(manualUpdate));
+      transaction.update(plaidRef, {
+        isDeleted: true,
+        mergedIntoTransactionId: manualId,
+        updatedAt: new Date()
+      });
+
+      if (reversal.rewardCopyRef) {
+        transaction.delete(reversal.rewardCopyRef);
+      }
+      if (reversal.card) {
+        transaction.update(reversal.card.ref, encryptFinancialData(reversal.card.update));
+      }
+
+      return { manual, manualUpdate, plaid, rewardsReversed: reversal.amount };
+    });
+
+    auditLog({
+      event: 'transaction_duplicates_merged',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { manualTransactionId: manualId, plaidTransactionId: plaidId, plaidId: plaid.plaidTransactionId, rewardsReversed }
+    });
+
+    return this.manualTransactionOf(manualId, { ...manual, ...manualUpdate, updatedAt: manualUpdate.updatedAt.toISOString() });
+  }
+
+  // Keep a pair out of the review queue
+  async dismiss(userId: string, manualId: string, plaidId: string): Promise<void> {
+    const [manualDoc, plaidDoc] = await Promise.all([
+      db.collection('transactions').doc(manualId).get(),
+      db.collection('plaid_transactions').doc(plaidId).get()
+    ]);
+    if (!manualDoc.exists || manualDoc.data()?.userId !== userId || !plaidDoc.exists || plaidDoc.data()?.userId !== userId) {
+      throw new DuplicateTransactionError('Transaction not found', 404);
+    }
+
+    const dismissal: DuplicateDismissalDocument = {
+      userId,
+      manualTransactionId: manualId,
+      plaidTransactionId: plaidId,
+      dismissedAt: new Date()
+    };
+    await db.collection(DISMISSALS).doc(`${userId}_${duplicatePairKey(manualId, plaidId)}`).set(dismissal);
+  }
+
+  /**
+   * Work out how to take back what syncing credited a card for the synced
+   * copy, and find the copy reward processing stored with the manual
+   * transactions. The manual entry's own reward history is left as it is.
+   * Only reads, so the merge can queue the writes after its own reads.
+   */
+  private async readRewardReversal(
+    transaction: admin.firestore.Transaction,
+    userId: string,
+    plaid: TransactionModel,
+    accountMappings: AccountMappings
+  ): Promise<RewardReversal> {
+    const rewardCopyRef = db.collection('transactions').doc(plaid.id);
+    const creditCardId = accountMappings.get(plaid.accountId)?.creditCardId;
+    const cardRef = creditCardId ? db.collection('creditCards').doc(creditCardId) : null;
+    const [rewardCopy, cardDoc] = await Promise.all([
+      transaction.get(rewardCopyRef),
+      cardRef ? transaction.get(cardRef) : null
+    ]);
+
+    const reversal: RewardReversal = { amount: 0 };
+    if (rewardCopy.exists && rewardCopy.data()?.userId === userId && rewardCopy.data()?.plaidTransactionId === plaid.plaidTransactionId) {
+      reversal.rewardCopyRef = rewardCopyRef;
+    }
+    if (!cardRef || !cardDoc?.exists || cardDoc.data()?.userId !== userId) return reversal;
+
+    const card = decryptFinancialData(cardDoc.data()!) as { cashBackBalance?: number; rewardHistory?: RewardHistoryEntry[] };
+    const history = card.rewardHistory || [];
+    const reversed = history.filter(entry => entry.transactionId === plaid.id);
+    if (reversed.length === 0) return reversal;
+
+    reversal.amount = reversed.reduce((sum, entry) => sum + (Number(entry.rewardEarned) || 0), 0);
+    reversal.card = {
+      ref: cardRef,
+      update: {
+        cashBackBalance: (card.cashBackBalance || 0) - reversal.amount,
+        rewardHistory: history.filter(entry => entry.transactionId !== plaid.id)
+      }
+    };
+    return reversal;
+  }
+
+  private manualTransactionOf(id: string, stored: StoredTransaction): Transaction {
+    return {
+      ...stored,
+      id,
+      date: toDateKey(toDate(stored.date)),
+      source: stored.source === 'import' ? 'import' : 'manual'
+    };
+  }
+
+  private plaidTransactionOf(t: TransactionModel, accountMappings: AccountMappings): Transaction {
+    const mapping = accountMappings.get(t.accountId);
+    const normalized: TransactionModel = { ...t, createdAt: toDate(t.createdAt), updatedAt: toDate(t.updatedAt) };
+    return {
+      ...this.plaidAdapter.convertToManualTransaction(normalized, mapping?.accountType || 'bank', mapping?.creditCardId),
+      source: 'plaid'
+    };
+  }
+}
+
+export const duplicateTransactionService = new DuplicateTransactionService();
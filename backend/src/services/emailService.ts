@@ -1,5 +1,5 @@
 import nodemailer from 'nodemailer';
-import { NotificationLog } from '../models/notificationLog';
+import { NotificationLog, NotificationLogData } from '../models/notificationLog';
 
 interface EmailConfig {
   host: string;
@@ -22,7 +22,7 @@ export class EmailService {
   private transporter: nodemailer.Transporter;
 
   constructor(config: EmailConfig) {
-    this.transporter = nodemailer.createTransporter({
+    this.transporter = nodemailer.createTransport({
       host: config.host,
       port: config.port,
       secure: config.secure,
@@ -30,13 +30,33 @@ export class EmailService {
     });
   }
 
+  /**
+   * Build a service from the SMTP_* environment, or null when email is not configured
+   */
+  static fromEnv(): EmailService | null {
+    if (!process.env.SMTP_HOST) {
+      return null;
+    }
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    return new EmailService({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: {
+        user: process.env.SMTP_USER || '',
+        pass: process.env.SMTP_PASS || ''
+      }
+    });
+  }
+
   /**
    * Send an email notification
    */
   async sendNotificationEmail(
     content: EmailContent,
     notificationId: string,
-    userId: string
+    userId: string,
+    context: Pick<NotificationLogData, 'cardId' | 'notificationType' | 'dedupeKey'> = {}
   ): Promise<boolean> {
     try {
       const info = await this.transporter.sendMail({
@@ -56,7 +76,8 @@ export class EmailService {
         subject: content.subject,
         sentAt: new Date().toISOString(),
         messageId: info.messageId,
-        status: 'sent'
+        status: 'sent',
+        ...context
       });
 
       return true;
@@ -72,7 +93,8 @@ export class EmailService {
         subject: content.subject,
         sentAt: new Date().toISOString(),
         status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...context
       });
 
       return false;
@@ -187,4 +209,80 @@ To stop receiving these emails, please update your notification preferences.
 
     return { subject, htmlBody, textBody };
   }
-}
\ No newline at end of file
+
+  /**
+   * Generate a plain alert email for notifications without a dedicated template
+   */
+  static generateAlertEmail(
+    title: string,
+    message: string
+  ): { subject: string; htmlBody: string; textBody: string } {
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #fef3c7; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+          <h1 style="color: #d97706; margin: 0 0 10px 0;">${title}</h1>
+          <p style="font-size: 16px; margin: 0;">${message}</p>
+        </div>
+
+        <p style="font-size: 12px; color: #6b7280; margin-top: 20px; text-align: center;">
+          This is an automated alert from your personal finance tracker.<br>
+          To stop receiving these emails, please update your notification preferences.
+        </p>
+      </div>
+    `;
+
+    const textBody = `
+${title}
+
+${message}
+
+This is an automated alert from your personal finance tracker.
+To stop receiving these emails, please update your notification preferences.
+    `;
+
+    return { subject: title, htmlBody, textBody };
+  }
+
+  /**
+   * Generate an email for an accountant with a single link into the accountant portal
+   */
+  static generateAccountantEmail(
+    title: string,
+    message: string,
+    actionLabel: string,
+    actionUrl: string
+  ): { subject: string; htmlBody: string; textBody: string } {
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+          <h1 style="color: #1f2937; margin: 0 0 10px 0;">${title}</h1>
+          <p style="font-size: 16px; margin: 0;">${message}</p>
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${actionUrl}" style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+            ${actionLabel}
+          </a>
+        </div>
+
+        <p style="font-size: 12px; color: #6b7280; margin-top: 20px; text-align: center;">
+          You are receiving this because a client of yours shared their tax return with you.<br>
+          If you were not expecting it, you can ignore this email.
+        </p>
+      </div>
+    `;
+
+    const textBody = `
+${title}
+
+${message}
+
+${actionLabel}: ${actionUrl}
+
+You are receiving this because a client of yours shared their tax return with you.
+If you were not expecting it, you can ignore this email.
+    `;
+
+    return { subject: title, htmlBody, textBody };
+  }
+}
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PlaidVerificationKey, VerificationKeyResolver } from './plaidWebhookVerifier';
+
+const toBase64Url = (buffer: Buffer): string =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Signs webhook bodies the way Plaid does, for testing the webhook endpoint offline.
+ * The P-256 key is derived from `secret`, so a server and a test client that share
+ * the secret agree on the key without exchanging it.
+ */
+export class FakePlaidWebhookSigner {
+  readonly keyId: string;
+  private privateKey: crypto.KeyObject;
+  private publicJwk: PlaidVerificationKey;
+
+  constructor(secret: string) {
+    const privateScalar = crypto.createHash('sha256').update(secret).digest();
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.setPrivateKey(privateScalar);
+    const publicPoint = ecdh.getPublicKey(); // 0x04 || X || Y
+
+    const jwk = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(publicPoint.subarray(1, 33)),
+      y: toBase64Url(publicPoint.subarray(33, 65))
+    };
+
+    this.keyId = `fake-${crypto.createHash('sha256').update(jwk.x).digest('hex').slice(0, 16)}`;
+    this.privateKey = crypto.createPrivateKey({ key: { ...jwk, d: toBase64Url(privateScalar) }, format: 'jwk' });
+    this.publicJwk = { ...jwk, alg: 'ES256', use: 'sig', kid: this.keyId, created_at: 0, expired_at: null };
+  }
+
+  // Value for the Plaid-Verification header
+  sign(body: string | Buffer, issuedAt: number = Math.floor(Date.now() / 1000)): string {
+    const requestBodySha256 = crypto.createHash('sha256').update(body).digest('hex');
+    return jwt.sign(
+      { iat: issuedAt, request_body_sha256: requestBodySha256 },
+      this.privateKey,
+      { algorithm: 'ES256', keyid: this.keyId }
+    );
+  }
+
+  resolveKey: VerificationKeyResolver = async (keyId: string) => {
+    if (keyId !== this.keyId) {
+      throw new Error(`Unknown verification key ${keyId}`);
+    }
+    return this.publicJwk;
+  };
+}
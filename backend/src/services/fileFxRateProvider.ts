@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { FxRateProvider, FxRateQuote } from '../models/fxRate';
+
+interface FxRateFile {
+  base: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+export const DEFAULT_FX_RATES_FILE = path.join(process.cwd(), 'data', 'fx-rates.json');
+
+/**
+ * Offline provider that reads daily rates from a JSON file of the form
+ * `{ "base": "USD", "rates": { "2024-01-02": { "EUR": 0.91, ... } } }`.
+ * The file is re-read whenever it changes on disk.
+ */
+export class FileFxRateProvider implements FxRateProvider {
+  readonly name = 'file';
+  private cache: { mtimeMs: number; data: FxRateFile; dates: string[] } | null = null;
+
+  constructor(private filePath: string = process.env.FX_RATES_FILE || DEFAULT_FX_RATES_FILE) {}
+
+  async getRates(date: string): Promise<FxRateQuote | null> {
+    const { data, dates } = await this.load();
+    const effective = dates.filter(candidate => candidate <= date).pop();
+    if (!effective) {
+      return null;
+    }
+    return { date: effective, base: data.base, rates: { ...data.rates[effective] } };
+  }
+
+  private async load(): Promise<{ data: FxRateFile; dates: string[] }> {
+    const stats = await fs.promises.stat(this.filePath);
+    if (this.cache && this.cache.mtimeMs === stats.mtimeMs) {
+      return this.cache;
+    }
+
+    const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as FxRateFile;
+    if (typeof data.base !== 'string' || !data.rates || typeof data.rates !== 'object') {
+      throw new Error(`FX rate file ${this.filePath} must contain a base currency and a rates object`);
+    }
+
+    const dates = Object.keys(data.rates).filter(key => /^\d{4}-\d{2}-\d{2}$/.test(key)).sort();
+    this.cache = { mtimeMs: stats.mtimeMs, data, dates };
+    return this.cache;
+  }
+}
@@ -1,8 +1,9 @@
+import admin from 'firebase-admin';
 import { db } from '../config/firebase';
 import { BankConnectionModel, PlaidAccountData } from '../models/bankConnection';
 import { encryptFinancialData, decryptFinancialData, encryptData, decryptData } from '../middleware/encryption';
 import { auditLog } from '../middleware/auditLogger';
-import PlaidService from './plaidService';
+import PlaidService, { PlaidWebhookPayload } from './plaidService';
 import FirebaseTransactionService from './firebaseTransactionService';
 
 interface PlaidConfig {
@@ -135,17 +136,27 @@ export default class FirebaseBankConnectionService {
   async syncTransactions(
     connectionId: string,
     userId: string,
-    startDate?: string,
-    endDate?: string
-  ): Promise<{ newTransactions: any[]; updatedAccounts: PlaidAccountData[]; errors: string[] }> {
+    syncType: 'manual' | 'automatic' = 'manual'
+  ): Promise<{
+    newTransactions: any[];
+    updatedAccounts: PlaidAccountData[];
+    transactionsAdded: number;
+    transactionsUpdated: number;
+    transactionsRemoved: number;
+    errors: string[];
+  }> {
     try {
       const connection = await this.getConnection(connectionId, userId);
       if (!connection) {
         throw new Error('Bank connection not found');
       }
 
-      // Create sync log
-      const syncLogId = await this.transactionService.createSyncLog(userId, connectionId, 'manual');
+      // Create sync log; the first sync for a connection pulls its full history
+      const syncLogId = await this.transactionService.createSyncLog(
+        userId,
+        connectionId,
+        connection.transactionsCursor ? syncType : 'initial'
+      );
 
       try {
         // Update sync log to running
@@ -154,20 +165,20 @@ export default class FirebaseBankConnectionService {
         // Decrypt access token
         const accessToken = decryptData(connection.accessToken);
 
-        // Fetch transactions from Plaid
-        const plaidTransactions = await this.plaidService.getTransactions(
-          accessToken,
-          startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days ago
-          endDate || new Date().toISOString().split('T')[0] // today
-        );
+        // Fetch everything that changed since the stored cursor
+        const changes = await this.plaidService.syncTransactions(accessToken, connection.transactionsCursor);
 
-        // Process transactions
+        // Added and modified transactions are upserted by Plaid transaction id
         const result = await this.transactionService.processTransactions(
           userId,
           connectionId,
-          plaidTransactions
+          [...changes.added, ...changes.modified]
         );
 
+        // Removed covers deleted transactions and pending ones that posted under a new id
+        const removal = await this.transactionService.removeTransactions(userId, changes.removed);
+        const errors = [...result.errors, ...removal.errors];
+
         // Update account balances
         const updatedAccounts = await this.plaidService.getAccounts(accessToken);
         await this.updateConnectionAccounts(connectionId, updatedAccounts);
@@ -177,12 +188,14 @@ export default class FirebaseBankConnectionService {
           status: 'completed',
           transactionsAdded: result.added.length,
           transactionsUpdated: result.updated.length,
-          errors: result.errors
+          transactionsRemoved: removal.removed,
+          errors
         });
 
-        // Update last sync time
+        // Only advance the cursor when every change was applied, so failures are retried next sync
         await db.collection('bank_connections').doc(connectionId).update({
-          lastSync: new Date()
+          lastSync: new Date(),
+          ...(errors.length === 0 && { transactionsCursor: changes.nextCursor })
         });
 
         auditLog({
@@ -194,14 +207,18 @@ export default class FirebaseBankConnectionService {
           details: {
             connectionId,
             transactionsAdded: result.added.length,
-            transactionsUpdated: result.updated.length
+            transactionsUpdated: result.updated.length,
+            transactionsRemoved: removal.removed
           }
         });
 
         return {
           newTransactions: result.added,
           updatedAccounts,
-          errors: result.errors
+          transactionsAdded: result.added.length,
+          transactionsUpdated: result.updated.length,
+          transactionsRemoved: removal.removed,
+          errors
         };
       } catch (error: any) {
         // Update sync log to failed
@@ -239,6 +256,83 @@ export default class FirebaseBankConnectionService {
     return results;
   }
 
+  async getConnectionByItemId(itemId: string): Promise<BankConnectionModel | null> {
+    const snapshot = await db.collection('bank_connections')
+      .where('itemId', '==', itemId)
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const doc = snapshot.docs[0];
+    return { id: doc.id, ...decryptFinancialData(doc.data()) } as BankConnectionModel;
+  }
+
+  /**
+   * Act on a verified Plaid webhook: run an incremental sync when new data is
+   * available, and record item errors and expiring consent on the connection
+   */
+  async handleWebhook(payload: PlaidWebhookPayload): Promise<{ connectionId: string | null; action: string }> {
+    const connection = await this.getConnectionByItemId(payload.item_id);
+    if (!connection) {
+      auditLog({
+        event: 'plaid_webhook_unknown_item',
+        ip: 'plaid',
+        userAgent: 'plaid',
+        timestamp: new Date(),
+        details: { itemId: payload.item_id, webhookType: payload.webhook_type, webhookCode: payload.webhook_code }
+      });
+      return { connectionId: null, action: 'ignored' };
+    }
+
+    const docRef = db.collection('bank_connections').doc(connection.id);
+    const errorCode = payload.webhook_code === 'ERROR' ? payload.error?.error_code : payload.webhook_code;
+    let action: string;
+
+    if (payload.webhook_type === 'TRANSACTIONS' && payload.webhook_code === 'SYNC_UPDATES_AVAILABLE') {
+      await this.syncTransactions(connection.id, connection.userId, 'automatic');
+      // New data means the item is healthy again
+      if (!connection.isActive || connection.lastError) {
+        await docRef.update({ isActive: true, lastError: admin.firestore.FieldValue.delete() });
+      }
+      action = 'synced';
+    } else if (payload.webhook_type === 'ITEM' && (errorCode === 'ITEM_LOGIN_REQUIRED' || payload.webhook_code === 'ERROR')) {
+      const message = errorCode === 'ITEM_LOGIN_REQUIRED'
+        ? 'Bank login required: reconnect this account to resume syncing'
+        : payload.error?.error_message || `Plaid item error: ${errorCode || 'UNKNOWN'}`;
+      await docRef.update({ isActive: false, lastError: message });
+      action = 'deactivated';
+    } else if (payload.webhook_type === 'ITEM' && payload.webhook_code === 'PENDING_EXPIRATION') {
+      const expiresAt = payload.consent_expiration_time || 'soon';
+      await docRef.update({
+        lastError: `Bank consent expires ${expiresAt}: reconnect this account to keep syncing`,
+        metadata: { ...(connection.metadata || {}), consentExpirationTime: payload.consent_expiration_time || null }
+      });
+      action = 'expiration_recorded';
+    } else {
+      action = 'ignored';
+    }
+
+    auditLog({
+      event: 'plaid_webhook_processed',
+      userId: connection.userId,
+      ip: 'plaid',
+      userAgent: 'plaid',
+      timestamp: new Date(),
+      details: {
+        connectionId: connection.id,
+        webhookType: payload.webhook_type,
+        webhookCode: payload.webhook_code,
+        ...(errorCode && { errorCode }),
+        action
+      }
+    });
+
+    return { connectionId: connection.id, action };
+  }
+
   async removeConnection(connectionId: string, userId: string): Promise<void> {
     try {
       const connection = await this.getConnection(connectionId, userId);
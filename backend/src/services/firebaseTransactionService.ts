@@ -5,30 +5,22 @@ import { auditLog } from '../middleware/auditLogger';
 import { PlaidTransactionAdapter } from './plaidTransactionAdapter';
 import CreditCardMappingService from './creditCardMappingService';
 import RewardProcessingService from './rewardProcessingService';
-
-interface CategoryMapping {
-  plaidCategory: string;
-  internalCategory: string;
-  confidence: number;
+import { categorizationRuleService } from './categorizationRuleService';
+import { normalizeCurrencyCode } from '../../../shared/currency';
+import { CategorizationRule } from '../../../shared/categorizationRules';
+import { splitsError, TransactionSplit } from '../../../shared/transactionSplits';
+
+export class TransactionSplitError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'TransactionSplitError';
+  }
 }
 
 export default class FirebaseTransactionService {
   private plaidAdapter: PlaidTransactionAdapter;
   private mappingService: CreditCardMappingService;
   private rewardService: RewardProcessingService;
-  
-  private categoryMappings: CategoryMapping[] = [
-    { plaidCategory: 'Food and Drink', internalCategory: 'Food & Dining', confidence: 0.9 },
-    { plaidCategory: 'Transportation', internalCategory: 'Transportation', confidence: 0.9 },
-    { plaidCategory: 'Shops', internalCategory: 'Shopping', confidence: 0.8 },
-    { plaidCategory: 'Recreation', internalCategory: 'Entertainment', confidence: 0.8 },
-    { plaidCategory: 'Healthcare', internalCategory: 'Healthcare', confidence: 0.9 },
-    { plaidCategory: 'Service', internalCategory: 'Services', confidence: 0.7 },
-    { plaidCategory: 'Government and Non-Profit', internalCategory: 'Government', confidence: 0.9 },
-    { plaidCategory: 'Travel', internalCategory: 'Travel', confidence: 0.9 },
-    { plaidCategory: 'Deposit', internalCategory: 'Income', confidence: 0.9 },
-    { plaidCategory: 'Transfer', internalCategory: 'Transfer', confidence: 0.9 }
-  ];
 
   constructor() {
     this.plaidAdapter = new PlaidTransactionAdapter();
@@ -45,6 +37,7 @@ export default class FirebaseTransactionService {
 
     // Get account mappings for reward processing
     const accountMappings = await this.mappingService.getAccountMappingsMap(userId);
+    const rules = await categorizationRuleService.rulesFor(userId);
 
     for (const plaidTx of plaidTransactions) {
       try {
@@ -61,11 +54,37 @@ export default class FirebaseTransactionService {
           } else {
             continue;
           }
+
+          // A merged transaction's rewards were earned by the manual entry it was merged into
+          if (existingTransaction.mergedIntoTransactionId) {
+            await this.updateMergedEntry(existingTransaction.mergedIntoTransactionId, userId, plaidTx);
+            continue;
+          }
         } else {
+          // A posted transaction replaces its pending version; keep the user's edits
+          const pendingTransaction = plaidTx.pending_transaction_id
+            ? await this.findTransactionByPlaidId(plaidTx.pending_transaction_id)
+            : null;
+          const carriedOver = pendingTransaction && pendingTransaction.userId === userId
+            ? {
+                isHidden: pendingTransaction.isHidden,
+                ...(pendingTransaction.notes && { notes: pendingTransaction.notes }),
+                ...(pendingTransaction.tags && { tags: pendingTransaction.tags }),
+                ...(pendingTransaction.splits?.length &&
+                  !splitsError(plaidTx.amount, pendingTransaction.splits) && { splits: pendingTransaction.splits }),
+                ...(pendingTransaction.mergedIntoTransactionId && { mergedIntoTransactionId: pendingTransaction.mergedIntoTransactionId })
+              }
+            : {};
+
           // Create new transaction
-          const newTransaction = await this.createTransaction(userId, bankConnectionId, plaidTx);
+          const newTransaction = await this.createTransaction(userId, bankConnectionId, plaidTx, rules, carriedOver);
           results.added.push(newTransaction);
           processedTransaction = newTransaction;
+
+          if (newTransaction.mergedIntoTransactionId) {
+            await this.updateMergedEntry(newTransaction.mergedIntoTransactionId, userId, plaidTx);
+            continue;
+          }
         }
 
         // Process rewards if this is a credit card transaction
@@ -79,23 +98,82 @@ export default class FirebaseTransactionService {
     return results;
   }
 
+  /**
+   * Soft-delete transactions Plaid reports as removed, including pending
+   * transactions that have since posted under a new id
+   */
+  async removeTransactions(userId: string, plaidTransactionIds: string[]): Promise<{ removed: number; errors: string[] }> {
+    const results = { removed: 0, errors: [] as string[] };
+
+    for (const plaidTransactionId of plaidTransactionIds) {
+      try {
+        const existingTransaction = await this.findTransactionByPlaidId(plaidTransactionId);
+        if (!existingTransaction || existingTransaction.userId !== userId || existingTransaction.isDeleted) {
+          continue;
+        }
+
+        await db.collection('plaid_transactions').doc(existingTransaction.id).update({
+          isDeleted: true,
+          removedAt: new Date(),
+          updatedAt: new Date()
+        });
+        results.removed++;
+
+        auditLog({
+          event: 'plaid_transaction_removed',
+          userId,
+          ip: 'server',
+          userAgent: 'server',
+          timestamp: new Date(),
+          details: { transactionId: existingTransaction.id, plaidId: plaidTransactionId, wasPending: existingTransaction.pending }
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results.errors.push(`Error removing transaction ${plaidTransactionId}: ${message}`);
+      }
+    }
+
+    return results;
+  }
+
   private async createTransaction(
     userId: string,
     bankConnectionId: string,
-    plaidTransaction: any
+    plaidTransaction: any,
+    rules: CategorizationRule[],
+    carriedOver: Partial<Pick<TransactionModel, 'isHidden' | 'notes' | 'tags' | 'splits' | 'mergedIntoTransactionId'>> = {}
   ): Promise<TransactionModel> {
+    // Edits carried over from the pending version are kept; rules fill in the rest
+    const categorization = await categorizationRuleService.categorize(
+      userId,
+      {
+        description: plaidTransaction.name || '',
+        merchantName: plaidTransaction.merchant_name,
+        amount: plaidTransaction.amount,
+        accountId: plaidTransaction.account_id,
+        plaidCategories: plaidTransaction.category || []
+      },
+      {
+        ...(carriedOver.isHidden !== undefined && { hidden: carriedOver.isHidden }),
+        ...(carriedOver.tags && { tags: carriedOver.tags })
+      },
+      rules
+    );
+
     const transaction: Omit<TransactionModel, 'id'> = {
       userId,
       bankConnectionId,
       plaidTransactionId: plaidTransaction.transaction_id,
       accountId: plaidTransaction.account_id,
       amount: plaidTransaction.amount,
+      currency: normalizeCurrencyCode(plaidTransaction.iso_currency_code || plaidTransaction.unofficial_currency_code),
       date: plaidTransaction.date,
       name: plaidTransaction.name,
       merchantName: plaidTransaction.merchant_name,
       category: plaidTransaction.category || [],
-      subcategory: plaidTransaction.category?.[1],
-      internalCategory: this.mapCategory(plaidTransaction.category || []),
+      subcategory: categorization.subcategory ?? plaidTransaction.category?.[1],
+      internalCategory: categorization.category,
+      ...(categorization.incomeSourceId && { incomeSourceId: categorization.incomeSourceId }),
       pending: plaidTransaction.pending,
       location: plaidTransaction.location ? {
         address: plaidTransaction.location.address,
@@ -111,10 +189,13 @@ export default class FirebaseTransactionService {
       },
       createdAt: new Date(),
       updatedAt: new Date(),
-      isHidden: false,
-      isDeleted: false,
-      notes: '',
-      tags: []
+      isHidden: categorization.hidden,
+      // The posted version of a merged pending transaction is merged into the same entry
+      isDeleted: !!carriedOver.mergedIntoTransactionId,
+      ...(carriedOver.mergedIntoTransactionId && { mergedIntoTransactionId: carriedOver.mergedIntoTransactionId }),
+      notes: carriedOver.notes || '',
+      tags: categorization.tags,
+      ...(carriedOver.splits && { splits: carriedOver.splits })
     };
 
     const encryptedData = encryptFinancialData(transaction);
@@ -145,10 +226,17 @@ export default class FirebaseTransactionService {
         return null;
       }
 
+      // Splits that no longer add up to the amount Plaid reports are dropped rather than miscounted
+      const existingSplits: TransactionSplit[] = decryptFinancialData(doc.data()!).splits || [];
       const updateData = {
         amount: plaidTransaction.amount,
+        ...(existingSplits.length > 0 && splitsError(plaidTransaction.amount, existingSplits) && { splits: [] }),
+        currency: normalizeCurrencyCode(plaidTransaction.iso_currency_code || plaidTransaction.unofficial_currency_code),
+        date: plaidTransaction.date,
         name: plaidTransaction.name,
         merchantName: plaidTransaction.merchant_name,
+        category: plaidTransaction.category || [],
+        ...(plaidTransaction.category?.[1] && { subcategory: plaidTransaction.category[1] }),
         pending: plaidTransaction.pending,
         updatedAt: new Date()
       };
@@ -163,17 +251,26 @@ export default class FirebaseTransactionService {
     }
   }
 
-  private mapCategory(plaidCategories: string[]): string {
-    if (!plaidCategories || plaidCategories.length === 0) {
-      return 'Other';
+  /**
+   * Point the manual entry a transaction was merged into at Plaid's current
+   * ID and keep its status in step, unless it has been reconciled
+   */
+  private async updateMergedEntry(
+    manualTransactionId: string,
+    userId: string,
+    plaidTransaction: { transaction_id: string; pending: boolean }
+  ): Promise<void> {
+    const docRef = db.collection('transactions').doc(manualTransactionId);
+    const doc = await docRef.get();
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      return;
     }
 
-    const primaryCategory = plaidCategories[0];
-    const mapping = this.categoryMappings.find(m => 
-      primaryCategory.toLowerCase().includes(m.plaidCategory.toLowerCase())
-    );
-
-    return mapping ? mapping.internalCategory : 'Other';
+    await docRef.update(encryptFinancialData({
+      plaidTransactionId: plaidTransaction.transaction_id,
+      ...(doc.data()?.status !== 'reconciled' && { status: plaidTransaction.pending ? 'pending' : 'cleared' }),
+      updatedAt: new Date()
+    }));
   }
 
   private async findTransactionByPlaidId(plaidTransactionId: string): Promise<TransactionModel | null> {
@@ -343,6 +440,43 @@ export default class FirebaseTransactionService {
     }
   }
 
+  /**
+   * Replace a synced transaction's split lines, which must add up to its
+   * amount; an empty list un-splits it
+   */
+  async updateTransactionSplits(
+    transactionId: string,
+    userId: string,
+    splits: TransactionSplit[]
+  ): Promise<TransactionModel | null> {
+    const docRef = db.collection('plaid_transactions').doc(transactionId);
+    const doc = await docRef.get();
+
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      return null;
+    }
+
+    const existingData = decryptFinancialData(doc.data()!);
+    const error = splitsError(existingData.amount, splits);
+    if (error) {
+      throw new TransactionSplitError(error, 400);
+    }
+
+    const updateData = { splits, updatedAt: new Date() };
+    await docRef.update(encryptFinancialData(updateData));
+
+    auditLog({
+      event: 'plaid_transaction_split',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { transactionId, lines: splits.length }
+    });
+
+    return { id: transactionId, ...existingData, ...updateData };
+  }
+
   async getUserSyncLogs(userId: string, limit = 10): Promise<SyncLogModel[]> {
     try {
       const snapshot = await db.collection('sync_logs')
@@ -373,6 +507,7 @@ export default class FirebaseTransactionService {
       startedAt: new Date(),
       transactionsAdded: 0,
       transactionsUpdated: 0,
+      transactionsRemoved: 0,
       errors: []
     };
 
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { DailyClose, MarketDataProvider, MarketQuote, SymbolMatch } from '../models/marketData';
+
+interface FixtureSymbol {
+  name: string;
+  type?: string;
+  region?: string;
+  closes: Record<string, number>;
+}
+
+interface MarketDataFile {
+  symbols: Record<string, FixtureSymbol>;
+}
+
+export const DEFAULT_MARKET_DATA_FILE = path.join(process.cwd(), 'data', 'market-data.json');
+
+const MAX_SEARCH_RESULTS = 10;
+
+/**
+ * Offline provider that reads closing prices from a JSON file of the form
+ * `{ "symbols": { "AAPL": { "name": "Apple Inc.", "closes": { "2024-01-02": 185.64, ... } } } }`.
+ * A symbol's quote is its latest close on or before today, compared with the
+ * close before it. The file is re-read whenever it changes on disk.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+  private cache: { mtimeMs: number; symbols: Map<string, FixtureSymbol & { dates: string[] }> } | null = null;
+
+  constructor(private filePath: string = process.env.MARKET_DATA_FILE || DEFAULT_MARKET_DATA_FILE) {}
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const fixtures = await this.load();
+    const today = new Date().toISOString().split('T')[0];
+    const quotes: MarketQuote[] = [];
+
+    for (const symbol of symbols) {
+      const fixture = fixtures.get(symbol.toUpperCase());
+      const dates = fixture?.dates.filter(date => date <= today) ?? [];
+      const tradingDay = dates[dates.length - 1];
+      if (!fixture || !tradingDay) continue;
+
+      const price = fixture.closes[tradingDay];
+      const previousClose = dates.length > 1 ? fixture.closes[dates[dates.length - 2]] : price;
+      const change = Math.round((price - previousClose) * 100) / 100;
+      quotes.push({
+        symbol: symbol.toUpperCase(),
+        price,
+        previousClose,
+        change,
+        changePercent: previousClose > 0 ? Math.round((change / previousClose) * 10000) / 100 : 0,
+        volume: 0,
+        tradingDay
+      });
+    }
+
+    return quotes;
+  }
+
+  async getDailyCloses(symbol: string, startDate: string, endDate: string): Promise<DailyClose[]> {
+    const fixture = (await this.load()).get(symbol.toUpperCase());
+    if (!fixture) {
+      return [];
+    }
+    return fixture.dates
+      .filter(date => date >= startDate && date <= endDate)
+      .map(date => ({ symbol: symbol.toUpperCase(), date, close: fixture.closes[date] }));
+  }
+
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    const fixtures = await this.load();
+    const needle = query.trim().toLowerCase();
+    const matches: SymbolMatch[] = [];
+
+    fixtures.forEach((fixture, symbol) => {
+      const lowerSymbol = symbol.toLowerCase();
+      const matchScore = lowerSymbol === needle ? 1
+        : lowerSymbol.startsWith(needle) ? 0.8
+        : fixture.name.toLowerCase().includes(needle) ? 0.5
+        : 0;
+      if (matchScore > 0) {
+        matches.push({
+          symbol,
+          name: fixture.name,
+          type: fixture.type ?? 'Equity',
+          region: fixture.region ?? 'United States',
+          matchScore
+        });
+      }
+    });
+
+    return matches
+      .sort((a, b) => b.matchScore - a.matchScore || a.symbol.localeCompare(b.symbol))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }
+
+  private async load(): Promise<Map<string, FixtureSymbol & { dates: string[] }>> {
+    const stats = await fs.promises.stat(this.filePath);
+    if (this.cache && this.cache.mtimeMs === stats.mtimeMs) {
+      return this.cache.symbols;
+    }
+
+    const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as MarketDataFile;
+    if (!data.symbols || typeof data.symbols !== 'object') {
+      throw new Error(`Market data file ${this.filePath} must contain a symbols object`);
+    }
+
+    const symbols = new Map<string, FixtureSymbol & { dates: string[] }>();
+    for (const [symbol, fixture] of Object.entries(data.symbols)) {
+      const closes = fixture.closes ?? {};
+      const dates = Object.keys(closes).filter(key => /^\d{4}-\d{2}-\d{2}$/.test(key)).sort();
+      symbols.set(symbol.toUpperCase(), { ...fixture, closes, dates });
+    }
+    this.cache = { mtimeMs: stats.mtimeMs, symbols };
+    return symbols;
+  }
+}
@@ -0,0 +1,166 @@
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { FileFxRateProvider } from './fileFxRateProvider';
+import { FxRateDocument, FxRateProvider, FxRateQuote, FxRateTable } from '../models/fxRate';
+import {
+  createConverter,
+  CurrencyConverter,
+  DEFAULT_CURRENCY,
+  isSupportedCurrency,
+  normalizeCurrencyCode,
+  rebaseRateTable
+} from '../../../shared/currency';
+
+const COLLECTION = 'fx_rates';
+
+// Every stored day is expressed against this currency, whatever the provider publishes in
+const STORE_BASE = DEFAULT_CURRENCY;
+
+const providerFactories = new Map<string, () => FxRateProvider>([
+  ['file', () => new FileFxRateProvider()]
+]);
+
+// Lets deployments plug in another rate source, selected with FX_RATE_PROVIDER=<name>
+export const registerFxRateProvider = (name: string, factory: () => FxRateProvider): void => {
+  providerFactories.set(name, factory);
+};
+
+// Days without rates of their own (weekends, holidays) that a stored day can cover
+const FX_SLACK_DAYS = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const daysBetween = (from: string, to: string): number => (Date.parse(to) - Date.parse(from)) / DAY_MS;
+
+/**
+ * Historical exchange rates. Daily rates from the configured provider are kept
+ * in `fx_rates` so past conversions stay stable when the provider's data moves
+ * on; days missing from the store are fetched from the provider on demand.
+ */
+export class FxRateService {
+  private provider: FxRateProvider | null;
+
+  constructor(provider?: FxRateProvider) {
+    this.provider = provider ?? null;
+  }
+
+  getProvider(): FxRateProvider {
+    if (!this.provider) {
+      const name = process.env.FX_RATE_PROVIDER || 'file';
+      const factory = providerFactories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown FX rate provider "${name}"`);
+      }
+      this.provider = factory();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Fetch the provider's rates for a date and store them under the date they
+   * are effective for. Returns null when the provider has nothing that early.
+   */
+  async refreshRates(date: string = toDateKey(new Date())): Promise<FxRateDocument | null> {
+    const provider = this.getProvider();
+    const quote = await provider.getRates(date);
+    if (!quote) {
+      return null;
+    }
+
+    const record: FxRateDocument = {
+      ...this.toStoreBase(quote),
+      provider: provider.name,
+      fetchedAt: new Date()
+    };
+    await db.collection(COLLECTION).doc(record.date).set(record);
+    return record;
+  }
+
+  /**
+   * Rates covering a date range, including the last stored day before it so
+   * the first days of the range have something to carry forward. Gaps in the
+   * store up to today are filled from the provider first.
+   */
+  async getRateTable(startDate: string, endDate: string): Promise<FxRateTable> {
+    const [inRange, prior] = await Promise.all([
+      db.collection(COLLECTION).where('date', '>=', startDate).where('date', '<=', endDate).get(),
+      db.collection(COLLECTION).where('date', '<', startDate).orderBy('date', 'desc').limit(1).get()
+    ]);
+
+    const days = [...prior.docs, ...inRange.docs].map(doc => doc.data() as FxRateDocument);
+    const today = toDateKey(new Date());
+    days.push(...await this.fetchMissingDays(days.map(day => day.date), startDate, endDate < today ? endDate : today));
+
+    return {
+      base: STORE_BASE,
+      rates: Object.fromEntries(days.map(day => [day.date, day.rates]))
+    };
+  }
+
+  // A converter into `target` for amounts dated within the range
+  async getConverter(target: string, startDate: string, endDate: string): Promise<CurrencyConverter> {
+    return createConverter(await this.getRateTable(startDate, endDate), target);
+  }
+
+  async getBaseCurrency(userId: string): Promise<string> {
+    const doc = await db.collection('users').doc(userId).get();
+    return normalizeCurrencyCode(doc.data()?.baseCurrency);
+  }
+
+  async setBaseCurrency(userId: string, currency: string): Promise<string> {
+    const code = normalizeCurrencyCode(currency);
+    if (!isSupportedCurrency(code)) {
+      throw new Error(`Unsupported currency ${currency}`);
+    }
+
+    await db.collection('users').doc(userId).set({ baseCurrency: code }, { merge: true });
+
+    auditLog({
+      event: 'base_currency_updated',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { baseCurrency: code }
+    });
+
+    return code;
+  }
+
+  /**
+   * Ask the provider about each day that is more than FX_SLACK_DAYS past the
+   * last stored one. An answer dated further back than that (or none) still
+   * counts as covering the day, so a source that stopped publishing is only
+   * asked again once the slack runs out.
+   */
+  private async fetchMissingDays(stored: string[], startDate: string, endDate: string): Promise<FxRateDocument[]> {
+    const known = new Set(stored);
+    let covered = stored.filter(day => day <= startDate).sort().pop();
+    const fetched: FxRateDocument[] = [];
+
+    for (let time = Date.parse(startDate); time <= Date.parse(endDate); time += DAY_MS) {
+      const day = toDateKey(new Date(time));
+      if (known.has(day)) {
+        covered = day;
+      } else if (!covered || daysBetween(covered, day) > FX_SLACK_DAYS) {
+        const record = await this.refreshRates(day);
+        if (record) fetched.push(record);
+        covered = record && daysBetween(record.date, day) <= FX_SLACK_DAYS ? record.date : day;
+      }
+    }
+    return fetched;
+  }
+
+  private toStoreBase(quote: FxRateQuote): FxRateQuote {
+    const base = normalizeCurrencyCode(quote.base);
+    const table = rebaseRateTable({ base, rates: { [quote.date]: quote.rates } }, STORE_BASE);
+    const rates = table.rates[quote.date];
+    if (!rates) {
+      throw new Error(`Rates for ${quote.date} have no ${STORE_BASE} quote to rebase from ${base}`);
+    }
+    return { date: quote.date, base: STORE_BASE, rates };
+  }
+}
+
+export const fxRateService = new FxRateService();
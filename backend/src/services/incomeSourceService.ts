@@ -143,7 +143,7 @@ export class IncomeSourceService extends BaseService<IncomeSource> {
     }
   }
 
-  private matchesRule(transaction: any, rule: PayerRule): boolean {
+  matchesRule(transaction: any, rule: PayerRule): boolean {
     switch (rule.ruleType) {
       case 'exactPayer':
         return transaction.description?.toLowerCase() === rule.pattern.toLowerCase() ||
@@ -20,10 +20,12 @@ class InsuranceService {
     this.policies.push(policy);
     
     auditLog({
-      action: 'insurance_policy_created',
+      event: 'insurance_policy_created',
       userId,
-      resourceId: policy.id,
-      details: { policyType: policy.type, provider: policy.provider }
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { policyId: policy.id, policyType: policy.type, provider: policy.provider }
     });
 
     return policy;
@@ -49,10 +51,12 @@ class InsuranceService {
     };
 
     auditLog({
-      action: 'insurance_policy_updated',
+      event: 'insurance_policy_updated',
       userId,
-      resourceId: policyId,
-      details: { updatedFields: Object.keys(updates) }
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { policyId, updatedFields: Object.keys(updates) }
     });
 
     return this.policies[policyIndex];
@@ -67,10 +71,12 @@ class InsuranceService {
       policy.updatedAt = new Date().toISOString();
 
       auditLog({
-        action: 'transaction_linked_to_policy',
+        event: 'transaction_linked_to_policy',
         userId,
-        resourceId: policyId,
-        details: { transactionId }
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { policyId, transactionId }
       });
     }
 
@@ -92,10 +98,12 @@ class InsuranceService {
     this.claims.push(claim);
     
     auditLog({
-      action: 'insurance_claim_created',
+      event: 'insurance_claim_created',
       userId,
-      resourceId: claim.id,
-      details: { policyId: claim.policyId, claimAmount: claim.claimAmount }
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { claimId: claim.id, policyId: claim.policyId, claimAmount: claim.claimAmount }
     });
 
     return claim;
@@ -120,10 +128,12 @@ class InsuranceService {
     this.claims[claimIndex] = { ...this.claims[claimIndex], ...updates };
 
     auditLog({
-      action: 'insurance_claim_status_updated',
+      event: 'insurance_claim_status_updated',
       userId,
-      resourceId: claimId,
-      details: { newStatus: status, paidAmount }
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { claimId, newStatus: status, paidAmount }
     });
 
     return this.claims[claimIndex];
@@ -183,10 +193,12 @@ class InsuranceService {
     this.documents.push(document);
 
     auditLog({
-      action: 'insurance_document_uploaded',
+      event: 'insurance_document_uploaded',
       userId,
-      resourceId: document.id,
-      details: { type: document.type, filename: document.filename }
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { documentId: document.id, type: document.type, filename: document.filename }
     });
 
     return document;
@@ -199,6 +211,19 @@ class InsuranceService {
   async getClaimDocuments(userId: string, claimId: string): Promise<InsuranceDocument[]> {
     return this.documents.filter(doc => doc.userId === userId && doc.claimId === claimId);
   }
+
+  async getUserDocuments(userId: string): Promise<InsuranceDocument[]> {
+    return this.documents.filter(doc => doc.userId === userId);
+  }
+
+  // Drops every policy, claim and document a user owns; used when the account is deleted
+  async purgeUserData(userId: string): Promise<number> {
+    const before = this.policies.length + this.claims.length + this.documents.length;
+    this.policies = this.policies.filter(policy => policy.userId !== userId);
+    this.claims = this.claims.filter(claim => claim.userId !== userId);
+    this.documents = this.documents.filter(doc => doc.userId !== userId);
+    return before - (this.policies.length + this.claims.length + this.documents.length);
+  }
 }
 
 export const insuranceService = new InsuranceService();
\ No newline at end of file
@@ -0,0 +1,267 @@
+import os from 'os';
+import crypto from 'crypto';
+import admin from 'firebase-admin';
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { toDate } from '../utils/dates';
+import { JobDefinition, JobRun, JobRunStatus, JobState, JobTrigger } from '../models/job';
+
+const STATE_COLLECTION = 'job_state';
+const RUN_COLLECTION = 'job_runs';
+const TICK_INTERVAL_MS = 60 * 1000;
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : 'Unknown error');
+
+// A run waiting to retry is due at its next attempt, ahead of the regular schedule
+const dueAt = (state: JobState): Date => toDate(state.nextAttemptAt ?? state.nextRunAt);
+
+/**
+ * In-process scheduler for recurring background work.
+ *
+ * Job state lives in Firestore so schedules survive restarts, and a lease-style
+ * lock (`lockedBy`/`lockedUntil`) stops two server instances running the same
+ * job at once. Every execution is recorded in `job_runs`. Each execution makes
+ * one attempt; a failed attempt is retried on a later tick once its backoff
+ * has passed, so neither the tick nor a manual run waits it out.
+ */
+export class JobScheduler {
+  readonly instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+  private jobs = new Map<string, JobDefinition>();
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job ${definition.name} is already registered`);
+    }
+    this.jobs.set(definition.name, definition);
+  }
+
+  getDefinition(name: string): JobDefinition | undefined {
+    return this.jobs.get(name);
+  }
+
+  start(tickIntervalMs: number = TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.tick(), tickIntervalMs);
+    this.timer.unref();
+    void this.tick();
+
+    enhancedLogger.info('Job scheduler started', { instanceId: this.instanceId, jobs: Array.from(this.jobs.keys()) });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every job whose `nextRunAt` has passed. Jobs run one after another so a
+   * single instance never hammers Firestore or Plaid with parallel batches.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const job of this.jobs.values()) {
+        if (this.running.has(job.name)) continue;
+
+        try {
+          const state = await this.getState(job.name);
+          if (!state || dueAt(state) <= now) {
+            await this.execute(job, 'schedule');
+          }
+        } catch (error) {
+          enhancedLogger.error('Scheduled job could not be started', { job: job.name, error: errorMessage(error) });
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a job immediately, outside its schedule. A run waiting to retry makes
+   * its next attempt now instead. Returns null when another instance
+   * currently holds the job's lock.
+   */
+  async runNow(name: string, trigger: JobTrigger = 'manual'): Promise<JobRun | null> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job ${name}`);
+    }
+    if (this.running.has(name)) {
+      return null;
+    }
+    return this.execute(job, trigger);
+  }
+
+  async getState(name: string): Promise<JobState | null> {
+    const doc = await db.collection(STATE_COLLECTION).doc(name).get();
+    return doc.exists ? (doc.data() as JobState) : null;
+  }
+
+  async listJobs(): Promise<Array<Pick<JobDefinition, 'name' | 'description' | 'intervalMs' | 'maxAttempts'> & { state: JobState | null }>> {
+    return Promise.all(Array.from(this.jobs.values()).map(async job => ({
+      name: job.name,
+      description: job.description,
+      intervalMs: job.intervalMs,
+      maxAttempts: job.maxAttempts,
+      state: await this.getState(job.name)
+    })));
+  }
+
+  async listRuns(options: { jobName?: string; status?: JobRunStatus; limit?: number } = {}): Promise<JobRun[]> {
+    let query: FirebaseFirestore.Query = db.collection(RUN_COLLECTION);
+    if (options.jobName) query = query.where('jobName', '==', options.jobName);
+    if (options.status) query = query.where('status', '==', options.status);
+
+    const snapshot = await query.orderBy('startedAt', 'desc').limit(options.limit || 50).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as JobRun);
+  }
+
+  private async execute(job: JobDefinition, trigger: JobTrigger): Promise<JobRun | null> {
+    const state = await this.acquireLock(job, trigger === 'schedule');
+    if (!state) return null;
+
+    this.running.add(job.name);
+    const run = (state.retryRunId && await this.getRun(state.retryRunId)) || this.newRun(job, trigger);
+    const runRef = db.collection(RUN_COLLECTION).doc(run.id);
+
+    try {
+      if (run.attempts === 0) {
+        const { id, ...runData } = run;
+        await runRef.set(runData);
+      }
+
+      const attempt = run.attempts + 1;
+      run.attempts = attempt;
+      try {
+        run.result = await job.handler({ runId: run.id, trigger: run.trigger, attempt, startedAt: run.startedAt });
+        run.status = 'succeeded';
+      } catch (error) {
+        run.errors.push(`Attempt ${attempt}: ${errorMessage(error)}`);
+        run.status = attempt < job.maxAttempts ? 'retrying' : 'failed';
+      }
+
+      if (run.status !== 'retrying') {
+        run.finishedAt = new Date();
+        run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+      }
+
+      await runRef.update({
+        status: run.status,
+        attempts: run.attempts,
+        errors: run.errors,
+        ...(run.finishedAt && { finishedAt: run.finishedAt, durationMs: run.durationMs }),
+        ...(run.result && { result: run.result })
+      });
+
+      if (run.status !== 'retrying') {
+        auditLog({
+          event: run.status === 'succeeded' ? 'job_run_succeeded' : 'job_run_failed',
+          ip: 'server',
+          userAgent: 'server',
+          timestamp: new Date(),
+          details: { job: job.name, runId: run.id, trigger: run.trigger, attempts: run.attempts, durationMs: run.durationMs }
+        });
+      }
+
+      return run;
+    } catch (error) {
+      run.status = 'failed';
+      throw error;
+    } finally {
+      this.running.delete(job.name);
+      await this.releaseLock(job, run).catch(error => {
+        enhancedLogger.error('Failed to release job lock', { job: job.name, error: errorMessage(error) });
+      });
+    }
+  }
+
+  private newRun(job: JobDefinition, trigger: JobTrigger): JobRun {
+    return {
+      id: db.collection(RUN_COLLECTION).doc().id,
+      jobName: job.name,
+      trigger,
+      status: 'running',
+      instanceId: this.instanceId,
+      attempts: 0,
+      errors: [],
+      startedAt: new Date()
+    };
+  }
+
+  private async getRun(id: string): Promise<JobRun | null> {
+    const doc = await db.collection(RUN_COLLECTION).doc(id).get();
+    if (!doc.exists) return null;
+
+    const run = { id: doc.id, ...doc.data() } as JobRun;
+    return { ...run, startedAt: toDate(run.startedAt) };
+  }
+
+  /**
+   * Claim the job's lease in a transaction; scheduled runs also re-check that
+   * the job is still due. Returns the job's state once claimed, or null.
+   */
+  private async acquireLock(job: JobDefinition, requireDue: boolean): Promise<JobState | null> {
+    const ref = db.collection(STATE_COLLECTION).doc(job.name);
+
+    return db.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      const state = doc.data() as JobState | undefined;
+      const now = new Date();
+
+      if (state?.lockedUntil && toDate(state.lockedUntil) > now) {
+        return null;
+      }
+      if (requireDue && state && dueAt(state) > now) {
+        return null;
+      }
+
+      const lock = {
+        name: job.name,
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + job.lockTtlMs),
+        updatedAt: now,
+        ...(!state && { nextRunAt: now, consecutiveFailures: 0 })
+      };
+      transaction.set(ref, lock, { merge: true });
+      return { ...state, ...lock } as JobState;
+    });
+  }
+
+  private async releaseLock(job: JobDefinition, run: JobRun): Promise<void> {
+    const now = new Date();
+    const succeeded = run.status === 'succeeded';
+
+    await db.collection(STATE_COLLECTION).doc(job.name).update({
+      lockedBy: admin.firestore.FieldValue.delete(),
+      lockedUntil: admin.firestore.FieldValue.delete(),
+      lastRunAt: run.startedAt,
+      lastRunId: run.id,
+      updatedAt: now,
+      ...(run.status === 'retrying'
+        ? {
+            retryRunId: run.id,
+            nextAttemptAt: new Date(now.getTime() + job.retryDelayMs * 2 ** (run.attempts - 1))
+          }
+        : {
+            lastStatus: run.status,
+            consecutiveFailures: succeeded ? 0 : admin.firestore.FieldValue.increment(1),
+            retryRunId: admin.firestore.FieldValue.delete(),
+            nextAttemptAt: admin.firestore.FieldValue.delete(),
+            // Manual runs don't shift the regular schedule
+            ...(run.trigger === 'schedule' && { nextRunAt: new Date(now.getTime() + job.intervalMs) })
+          })
+    });
+  }
+}
+
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,225 @@
+import { db } from '../config/firebase';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { toDate } from '../utils/dates';
+import { FixtureMarketDataProvider } from './fixtureMarketDataProvider';
+import { AlphaVantageMarketDataProvider } from './alphaVantageMarketDataProvider';
+import {
+  DailyClose,
+  DailyCloseDocument,
+  MarketDataProvider,
+  MarketQuoteDocument,
+  SymbolMatch
+} from '../models/marketData';
+
+const QUOTES = 'market_quotes';
+const DAILY_CLOSES = 'market_daily_closes';
+
+// Quotes younger than this are served from `market_quotes` without asking the provider
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+
+// Stored history may start or end this many days inside the range asked for, or skip this many days between two closes
+// (weekends and holidays), before the provider is asked for the missing days
+const HISTORY_SLACK_DAYS = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const providerFactories = new Map<string, () => MarketDataProvider>([
+  ['fixture', () => new FixtureMarketDataProvider()],
+  ['alphavantage', () => new AlphaVantageMarketDataProvider()]
+]);
+
+// Lets deployments plug in another price source, selected with MARKET_DATA_PROVIDER=<name>
+export const registerMarketDataProvider = (name: string, factory: () => MarketDataProvider): void => {
+  providerFactories.set(name, factory);
+};
+
+export class MarketDataError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (dateKey: string, days: number): string => toDateKey(new Date(Date.parse(dateKey) + days * DAY_MS));
+
+/**
+ * The parts of a range the stored closes don't cover: the ends, and any
+ * stretch between two stored days longer than a weekend and a holiday.
+ */
+const missingSpans = (dates: string[], startDate: string, lastExpected: string): Array<[string, string]> => {
+  if (dates.length === 0) return [[startDate, lastExpected]];
+
+  const spans: Array<[string, string]> = [];
+  if (dates[0] > addDays(startDate, HISTORY_SLACK_DAYS)) {
+    spans.push([startDate, addDays(dates[0], -1)]);
+  }
+  for (let i = 1; i < dates.length; i++) {
+    if (dates[i] > addDays(dates[i - 1], HISTORY_SLACK_DAYS)) {
+      spans.push([addDays(dates[i - 1], 1), addDays(dates[i], -1)]);
+    }
+  }
+  if (dates[dates.length - 1] < addDays(lastExpected, -HISTORY_SLACK_DAYS)) {
+    spans.push([addDays(dates[dates.length - 1], 1), lastExpected]);
+  }
+  return spans;
+};
+
+const normalizeSymbols = (symbols: string[]): string[] =>
+  [...new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean))];
+
+/**
+ * Stock prices for every user. Quotes are cached in `market_quotes` so one
+ * provider request serves everyone holding the symbol, and daily closes are
+ * kept in `market_daily_closes` so history survives the provider's limits.
+ * When the provider fails, the last stored quote is served instead.
+ */
+export class MarketDataService {
+  private provider: MarketDataProvider | null;
+
+  constructor(provider?: MarketDataProvider) {
+    this.provider = provider ?? null;
+  }
+
+  getProvider(): MarketDataProvider {
+    if (!this.provider) {
+      const name = process.env.MARKET_DATA_PROVIDER || 'fixture';
+      const factory = providerFactories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown market data provider "${name}"`);
+      }
+      this.provider = factory();
+    }
+    return this.provider;
+  }
+
+  // Quotes for the symbols in one call, leaving out symbols no one has a price for
+  async getQuotes(symbols: string[]): Promise<MarketQuoteDocument[]> {
+    const wanted = normalizeSymbols(symbols);
+    const stored = await Promise.all(wanted.map(symbol => db.collection(QUOTES).doc(symbol).get()));
+
+    const quotes = new Map<string, MarketQuoteDocument>();
+    stored.forEach(doc => {
+      if (doc.exists) {
+        const quote = doc.data() as MarketQuoteDocument;
+        quotes.set(doc.id, { ...quote, fetchedAt: toDate(quote.fetchedAt) });
+      }
+    });
+
+    const stale = wanted.filter(symbol => {
+      const cached = quotes.get(symbol);
+      return !cached || Date.now() - cached.fetchedAt.getTime() >= QUOTE_TTL_MS;
+    });
+    if (stale.length > 0) {
+      try {
+        const refreshed = await this.refreshQuotes(stale);
+        refreshed.forEach(quote => quotes.set(quote.symbol, quote));
+      } catch (error) {
+        if (stale.every(symbol => !quotes.has(symbol))) {
+          throw new MarketDataError(`Market data is unavailable: ${error instanceof Error ? error.message : 'unknown error'}`, 502);
+        }
+        enhancedLogger.warn('Serving stored quotes after a market data provider failure', {
+          symbols: stale,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return wanted.filter(symbol => quotes.has(symbol)).map(symbol => quotes.get(symbol)!);
+  }
+
+  async refreshQuotes(symbols: string[]): Promise<MarketQuoteDocument[]> {
+    const provider = this.getProvider();
+    const fetchedAt = new Date();
+    const quotes = (await provider.getQuotes(normalizeSymbols(symbols)))
+      .map(quote => ({ ...quote, symbol: quote.symbol.toUpperCase(), provider: provider.name, fetchedAt }));
+
+    if (quotes.length > 0) {
+      const batch = db.batch();
+      quotes.forEach(quote => batch.set(db.collection(QUOTES).doc(quote.symbol), quote));
+      await batch.commit();
+    }
+    return quotes;
+  }
+
+  /**
+   * Closing prices between the dates, oldest first. Stored closes are used when
+   * they cover the range; otherwise the provider's closes are fetched and kept.
+   */
+  async getDailyCloses(symbol: string, startDate: string, endDate: string): Promise<DailyClose[]> {
+    const upper = symbol.trim().toUpperCase();
+    const snapshot = await db.collection(DAILY_CLOSES)
+      .where('symbol', '==', upper)
+      .where('date', '>=', startDate)
+      .where('date', '<=', endDate)
+      .get();
+
+    const closes = new Map<string, DailyClose>();
+    snapshot.docs.forEach(doc => {
+      const { date, close } = doc.data() as DailyCloseDocument;
+      closes.set(date, { symbol: upper, date, close });
+    });
+
+    const dates = [...closes.keys()].sort();
+    const lastExpected = endDate < toDateKey(new Date()) ? endDate : toDateKey(new Date());
+    const missing = missingSpans(dates, startDate, lastExpected);
+
+    if (missing.length > 0) {
+      try {
+        for (const [from, to] of missing) {
+          const fetched = await this.storeDailyCloses(upper, from, to);
+          fetched.forEach(close => closes.set(close.date, close));
+        }
+      } catch (error) {
+        if (closes.size === 0) {
+          throw new MarketDataError(`Market data is unavailable: ${error instanceof Error ? error.message : 'unknown error'}`, 502);
+        }
+        enhancedLogger.warn('Serving stored closes after a market data provider failure', {
+          symbol: upper,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return [...closes.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Fetch the provider's closes for the range and keep them in `market_daily_closes`
+  async storeDailyCloses(symbol: string, startDate: string, endDate: string): Promise<DailyClose[]> {
+    const provider = this.getProvider();
+    const closes = await provider.getDailyCloses(symbol.toUpperCase(), startDate, endDate);
+    const fetchedAt = new Date();
+
+    if (closes.length > 0) {
+      const batch = db.batch();
+      closes.forEach(close => {
+        const record: DailyCloseDocument = { ...close, symbol: close.symbol.toUpperCase(), provider: provider.name, fetchedAt };
+        batch.set(db.collection(DAILY_CLOSES).doc(`${record.symbol}_${record.date}`), record);
+      });
+      await batch.commit();
+    }
+    return closes;
+  }
+
+  async searchSymbols(query: string): Promise<SymbolMatch[]> {
+    try {
+      return await this.getProvider().searchSymbols(query);
+    } catch (error) {
+      throw new MarketDataError(`Symbol search is unavailable: ${error instanceof Error ? error.message : 'unknown error'}`, 502);
+    }
+  }
+
+  // Every symbol anyone has traded, including the new symbols of spin-offs and renames
+  async getTrackedSymbols(): Promise<string[]> {
+    const snapshot = await db.collection('stockTransactions').select('stockSymbol', 'newSymbol').get();
+    const symbols: string[] = [];
+    snapshot.docs.forEach(doc => {
+      const { stockSymbol, newSymbol } = doc.data();
+      if (stockSymbol) symbols.push(stockSymbol);
+      if (newSymbol) symbols.push(newSymbol);
+    });
+    return normalizeSymbols(symbols).sort();
+  }
+}
+
+export const marketDataService = new MarketDataService();
@@ -0,0 +1,346 @@
+import { db } from '../config/firebase';
+import { BaseService } from './baseService';
+import { auditLog } from '../middleware/auditLogger';
+import { encryptFinancialData, decryptFinancialData } from '../middleware/encryption';
+import { fxRateService } from './fxRateService';
+import { CurrencyConverter, normalizeCurrencyCode } from '../../../shared/currency';
+import {
+  NetWorthBalanceLine,
+  NetWorthGranularity,
+  NetWorthHistory,
+  NetWorthHistoryPoint,
+  NetWorthRange,
+  NetWorthSnapshot
+} from '../models/netWorthSnapshot';
+
+interface StoredBankAccount {
+  id: string;
+  name: string;
+  type?: string;
+  currentBalance?: number;
+  initialBalance?: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+interface StoredCreditCard {
+  id: string;
+  name: string;
+  type?: string;
+  currentBalance?: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+interface StoredStock {
+  id: string;
+  shares?: number;
+  currentPrice?: number;
+  totalValue?: number;
+  currency?: string;
+}
+
+// Manually tracked items from the Net Worth page
+interface StoredAsset {
+  id: string;
+  value?: number;
+  currency?: string;
+}
+
+interface StoredLiability {
+  id: string;
+  balance?: number;
+  currency?: string;
+}
+
+const SNAPSHOT_COLLECTION = 'net_worth_snapshots';
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const sumBy = <T>(items: T[], pick: (item: T) => number): number =>
+  items.reduce((sum, item) => sum + pick(item), 0);
+
+const shiftMonths = (dateKey: string, months: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  // Clamp to the last day of the target month (e.g. Mar 31 -> Feb 28)
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return toDateKey(date);
+};
+
+// Monday-based week start
+const weekStart = (dateKey: string): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return toDateKey(date);
+};
+
+const formatLabel = (dateKey: string, granularity: NetWorthGranularity): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  if (granularity === 'monthly') return `${MONTH_LABELS[month - 1]} ${year}`;
+  return `${MONTH_LABELS[month - 1]} ${day}`;
+};
+
+const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : round2(((current - previous) / Math.abs(previous)) * 100);
+
+export class NetWorthService {
+  private bankAccountService = new BaseService<StoredBankAccount>('bankAccounts');
+  private creditCardService = new BaseService<StoredCreditCard>('creditCards');
+  private stockService = new BaseService<StoredStock>('stocks');
+  private assetService = new BaseService<StoredAsset>('assets');
+  private liabilityService = new BaseService<StoredLiability>('liabilities');
+
+  /**
+   * Calculate the user's balances as of now, without storing anything.
+   * Every figure is converted into the user's base currency at the day's rates.
+   */
+  async calculateCurrent(userId: string, date: Date = new Date()): Promise<Omit<NetWorthSnapshot, 'id' | 'createdAt' | 'updatedAt'>> {
+    const dateKey = toDateKey(date);
+    const [accounts, cards, stocks, assets, liabilities, currency] = await Promise.all([
+      this.bankAccountService.getAll(userId),
+      this.creditCardService.getAll(userId),
+      this.stockService.getAll(userId),
+      this.assetService.getAll(userId),
+      this.liabilityService.getAll(userId),
+      fxRateService.getBaseCurrency(userId)
+    ]);
+    const convert = await fxRateService.getConverter(currency, dateKey, dateKey);
+    const toBase = (amount: number, from?: string) => convert(amount, from, dateKey);
+
+    const toLine = (id: string, name: string, type: string, nativeBalance: number, from?: string): NetWorthBalanceLine => ({
+      id,
+      name,
+      type,
+      balance: round2(toBase(nativeBalance, from)),
+      currency: normalizeCurrencyCode(from),
+      nativeBalance: round2(nativeBalance)
+    });
+
+    const bankAccounts: NetWorthBalanceLine[] = accounts
+      .filter(account => account.isActive !== false)
+      .map(account => toLine(
+        account.id,
+        account.name,
+        account.type || 'bank',
+        account.currentBalance ?? account.initialBalance ?? 0,
+        account.currency
+      ));
+
+    const creditCards: NetWorthBalanceLine[] = cards
+      .filter(card => card.isActive !== false)
+      .map(card => toLine(card.id, card.name, card.type || 'credit', card.currentBalance ?? 0, card.currency));
+
+    const bankBalances = round2(sumBy(bankAccounts, a => a.balance));
+    const creditCardBalances = round2(sumBy(creditCards, c => c.balance));
+    const portfolioValue = round2(sumBy(stocks, s => toBase(
+      s.shares !== undefined && s.currentPrice !== undefined ? s.shares * s.currentPrice : s.totalValue ?? 0,
+      s.currency
+    )));
+    const otherAssets = round2(sumBy(assets, a => toBase(a.value ?? 0, a.currency)));
+    const otherLiabilities = round2(sumBy(liabilities, l => toBase(l.balance ?? 0, l.currency)));
+    const totalAssets = round2(bankBalances + portfolioValue + otherAssets);
+    const totalLiabilities = round2(creditCardBalances + otherLiabilities);
+
+    return {
+      userId,
+      date: dateKey,
+      currency,
+      totalAssets,
+      totalLiabilities,
+      netWorth: round2(totalAssets - totalLiabilities),
+      bankBalances,
+      creditCardBalances,
+      portfolioValue,
+      otherAssets,
+      otherLiabilities,
+      bankAccounts,
+      creditCards
+    };
+  }
+
+  /**
+   * Record (or refresh) the snapshot for a user's day
+   */
+  async recordSnapshot(userId: string, date: Date = new Date()): Promise<NetWorthSnapshot> {
+    try {
+      const values = await this.calculateCurrent(userId, date);
+      const id = `${userId}_${values.date}`;
+      const docRef = db.collection(SNAPSHOT_COLLECTION).doc(id);
+      const existing = await docRef.get();
+      const now = new Date();
+      const createdAt = existing.exists ? existing.data()?.createdAt ?? now : now;
+
+      await docRef.set({
+        ...encryptFinancialData(values),
+        createdAt,
+        updatedAt: now
+      });
+
+      auditLog({
+        event: 'net_worth_snapshot_recorded',
+        userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: now,
+        details: { date: values.date, netWorth: values.netWorth }
+      });
+
+      return { id, ...values, createdAt, updatedAt: now };
+    } catch (error) {
+      auditLog({
+        event: 'net_worth_snapshot_failed',
+        userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { error: error instanceof Error ? error.message : 'Unknown error' }
+      });
+      throw error;
+    }
+  }
+
+  async getSnapshots(userId: string, startDate?: string, endDate?: string): Promise<NetWorthSnapshot[]> {
+    let query: FirebaseFirestore.Query = db.collection(SNAPSHOT_COLLECTION).where('userId', '==', userId);
+    if (startDate) query = query.where('date', '>=', startDate);
+    if (endDate) query = query.where('date', '<=', endDate);
+
+    const snapshot = await query.orderBy('date', 'asc').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...decryptFinancialData(doc.data()) }) as NetWorthSnapshot);
+  }
+
+  // The last snapshot recorded on or before a day, or null if none was taken by then
+  async getSnapshotOnOrBefore(userId: string, date: string): Promise<NetWorthSnapshot | null> {
+    const snapshot = await db.collection(SNAPSHOT_COLLECTION)
+      .where('userId', '==', userId)
+      .where('date', '<=', date)
+      .orderBy('date', 'desc')
+      .limit(1)
+      .get();
+    if (snapshot.empty) return null;
+
+    const doc = snapshot.docs[0];
+    return { id: doc.id, ...decryptFinancialData(doc.data()) } as NetWorthSnapshot;
+  }
+
+  resolveRange(range: NetWorthRange, today: string): { startDate: string | undefined; endDate: string } {
+    switch (range) {
+      case '1m': return { startDate: shiftMonths(today, -1), endDate: today };
+      case '3m': return { startDate: shiftMonths(today, -3), endDate: today };
+      case '6m': return { startDate: shiftMonths(today, -6), endDate: today };
+      case '1y': return { startDate: shiftMonths(today, -12), endDate: today };
+      case 'ytd': return { startDate: `${today.slice(0, 4)}-01-01`, endDate: today };
+      default: return { startDate: undefined, endDate: today };
+    }
+  }
+
+  /**
+   * Net worth history for a range, one point per day, week or month.
+   * Weekly and monthly points use the last snapshot recorded in that bucket.
+   */
+  async getHistory(
+    userId: string,
+    range: NetWorthRange,
+    granularity: NetWorthGranularity,
+    now: Date = new Date()
+  ): Promise<NetWorthHistory> {
+    const today = toDateKey(now);
+    const { startDate, endDate } = this.resolveRange(range, today);
+
+    // Look back one extra month so month-over-month works for short ranges too
+    const lookback = startDate && startDate > shiftMonths(endDate, -1) ? shiftMonths(endDate, -1) : startDate;
+    const currency = await fxRateService.getBaseCurrency(userId);
+    const snapshots = await this.toCurrency(await this.getSnapshots(userId, lookback, endDate), currency);
+    const inRange = startDate ? snapshots.filter(s => s.date >= startDate) : snapshots;
+
+    return {
+      range,
+      granularity,
+      currency,
+      startDate: startDate ?? inRange[0]?.date ?? endDate,
+      endDate,
+      points: this.bucketSnapshots(inRange, granularity),
+      monthOverMonth: this.calculateMonthOverMonth(snapshots)
+    };
+  }
+
+  /**
+   * Snapshots keep the currency they were recorded in; re-express any taken
+   * before a base currency change using the rates of their own day.
+   */
+  async toCurrency(snapshots: NetWorthSnapshot[], currency: string): Promise<NetWorthSnapshot[]> {
+    const foreign = snapshots.filter(s => normalizeCurrencyCode(s.currency) !== currency);
+    if (foreign.length === 0) return snapshots;
+
+    const dates = foreign.map(s => s.date).sort();
+    const convert: CurrencyConverter = await fxRateService.getConverter(currency, dates[0], dates[dates.length - 1]);
+    const fields = [
+      'totalAssets', 'totalLiabilities', 'netWorth', 'bankBalances',
+      'creditCardBalances', 'portfolioValue', 'otherAssets', 'otherLiabilities'
+    ] as const;
+
+    return snapshots.map(snapshot => {
+      const from = normalizeCurrencyCode(snapshot.currency);
+      if (from === currency) return snapshot;
+      const converted: NetWorthSnapshot = { ...snapshot, currency };
+      fields.forEach(field => {
+        converted[field] = round2(convert(snapshot[field] ?? 0, from, snapshot.date));
+      });
+      return converted;
+    });
+  }
+
+  bucketSnapshots(snapshots: NetWorthSnapshot[], granularity: NetWorthGranularity): NetWorthHistoryPoint[] {
+    const bucketKey = (date: string) =>
+      granularity === 'monthly' ? date.slice(0, 7) : granularity === 'weekly' ? weekStart(date) : date;
+
+    const buckets = new Map<string, NetWorthSnapshot>();
+    [...snapshots]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(snapshot => buckets.set(bucketKey(snapshot.date), snapshot));
+
+    let previous: NetWorthSnapshot | null = null;
+    return Array.from(buckets.values()).map(snapshot => {
+      const point: NetWorthHistoryPoint = {
+        date: snapshot.date,
+        label: formatLabel(snapshot.date, granularity),
+        totalAssets: snapshot.totalAssets,
+        totalLiabilities: snapshot.totalLiabilities,
+        netWorth: snapshot.netWorth,
+        bankBalances: snapshot.bankBalances,
+        creditCardBalances: snapshot.creditCardBalances,
+        portfolioValue: snapshot.portfolioValue,
+        change: previous ? round2(snapshot.netWorth - previous.netWorth) : null,
+        changePercent: previous ? percentChange(snapshot.netWorth, previous.netWorth) : null
+      };
+      previous = snapshot;
+      return point;
+    });
+  }
+
+  // Compares the latest snapshot with the latest one on or before the same day a month earlier
+  calculateMonthOverMonth(snapshots: NetWorthSnapshot[]): NetWorthHistory['monthOverMonth'] {
+    if (snapshots.length === 0) return null;
+
+    const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+    const latest = sorted[sorted.length - 1];
+    const cutoff = shiftMonths(latest.date, -1);
+    const previous = [...sorted].reverse().find(s => s.date <= cutoff) ?? null;
+
+    return {
+      current: latest.netWorth,
+      previous: previous ? previous.netWorth : null,
+      change: previous ? round2(latest.netWorth - previous.netWorth) : null,
+      changePercent: previous ? percentChange(latest.netWorth, previous.netWorth) : null
+    };
+  }
+}
+
+export const netWorthService = new NetWorthService();
@@ -0,0 +1,301 @@
+import { db } from '../config/firebase';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { NotificationLog } from '../models/notificationLog';
+import { CreditCard, CreditCardNotificationService, NotificationItem } from './creditCardNotificationService';
+import { EmailService } from './emailService';
+
+export interface NotificationPreferencesData {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  balanceReminders: boolean;
+  paymentReminders: boolean;
+  bonusAlerts: boolean;
+  utilizationWarnings: boolean;
+  reminderDays: number[];
+  emailAddress?: string;
+  notificationTime: string; // HH:MM, compared against server time in UTC
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferencesData = {
+  emailNotifications: true,
+  pushNotifications: false,
+  balanceReminders: true,
+  paymentReminders: true,
+  bonusAlerts: true,
+  utilizationWarnings: true,
+  reminderDays: [7, 3, 1],
+  notificationTime: '09:00'
+};
+
+// Which preference switch silences each kind of notification
+const PREFERENCE_BY_TYPE: Record<NotificationItem['type'], keyof NotificationPreferencesData> = {
+  payment_reminder: 'paymentReminders',
+  late_payment: 'paymentReminders',
+  balance_due: 'balanceReminders',
+  statement_ready: 'balanceReminders',
+  high_utilization: 'utilizationWarnings',
+  bonus_alert: 'bonusAlerts'
+};
+
+export interface CheckDueOptions {
+  userId?: string;
+  ignoreNotificationTime?: boolean;
+}
+
+export interface NotificationCheckResult {
+  usersChecked: number;
+  usersDeferred: number;
+  cardsChecked: number;
+  notificationsCreated: number;
+  duplicatesSkipped: number;
+  emailsSent: number;
+  emailsFailed: number;
+}
+
+const DELIVERY_COLLECTION = 'notification_deliveries';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Turns credit card balances and due dates into stored notifications.
+ *
+ * Each alert occurrence gets a dedupe key (for example the 3-day reminder for
+ * a specific due date) that is recorded in the notification log, so running
+ * the check repeatedly only ever delivers an occurrence once. Each user is
+ * checked once a day, on the first run after their notification time; the
+ * day of the last check is kept in `notification_deliveries`. The email for a
+ * high-priority alert is logged under its own key, so a failed send is retried
+ * on the next run even though the in-app notification already went out.
+ */
+export class NotificationPipelineService {
+  private emailService: EmailService | null = null;
+
+  async checkDue(now: Date = new Date(), options: CheckDueOptions = {}): Promise<NotificationCheckResult> {
+    let cardsQuery = db.collection('creditCards').where('isActive', '==', true);
+    if (options.userId) {
+      cardsQuery = cardsQuery.where('userId', '==', options.userId);
+    }
+    const snapshot = await cardsQuery.get();
+
+    const cardsByUser = new Map<string, CreditCard[]>();
+    snapshot.docs.forEach(doc => {
+      const card = { id: doc.id, ...doc.data() } as CreditCard;
+      cardsByUser.set(card.userId, [...(cardsByUser.get(card.userId) || []), card]);
+    });
+
+    const result: NotificationCheckResult = {
+      usersChecked: 0,
+      usersDeferred: 0,
+      cardsChecked: 0,
+      notificationsCreated: 0,
+      duplicatesSkipped: 0,
+      emailsSent: 0,
+      emailsFailed: 0
+    };
+
+    for (const [userId, cards] of cardsByUser) {
+      try {
+        const [preferences, lastDeliveryDate] = await Promise.all([
+          this.getPreferences(userId),
+          this.getLastDeliveryDate(userId)
+        ]);
+        if (!options.ignoreNotificationTime && !this.isDue(preferences, lastDeliveryDate, now)) {
+          result.usersDeferred++;
+          continue;
+        }
+
+        result.usersChecked++;
+        const emailsFailed = result.emailsFailed;
+        for (const card of cards) {
+          result.cardsChecked++;
+          await this.processCard(card, preferences, now, result);
+        }
+        // A failed email leaves the day open so the next run retries it
+        if (result.emailsFailed === emailsFailed) {
+          await db.collection(DELIVERY_COLLECTION).doc(userId).set({ userId, lastDeliveryDate: toDateString(now), updatedAt: now });
+        }
+      } catch (error) {
+        enhancedLogger.error('Failed to check notifications for user', {
+          userId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return result;
+  }
+
+  async getLastDeliveryDate(userId: string): Promise<string | undefined> {
+    const doc = await db.collection(DELIVERY_COLLECTION).doc(userId).get();
+    return doc.data()?.lastDeliveryDate;
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferencesData> {
+    const snapshot = await db.collection('notificationPreferences')
+      .where('userId', '==', userId)
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...snapshot.docs[0].data() } as NotificationPreferencesData;
+  }
+
+  /**
+   * Filter the generated notifications down to what the user asked for.
+   * Payment reminders fire only on the configured `reminderDays`.
+   */
+  selectNotifications(card: CreditCard, preferences: NotificationPreferencesData, now: Date = new Date()): NotificationItem[] {
+    const reminderDays = preferences.reminderDays || [];
+    const reminderCard = { ...card, paymentReminderDays: Math.max(0, ...reminderDays) };
+
+    return CreditCardNotificationService.generateBalanceNotifications(reminderCard, now).filter(item => {
+      if (!preferences[PREFERENCE_BY_TYPE[item.type]]) {
+        return false;
+      }
+      if (item.type === 'payment_reminder') {
+        return item.daysUntilDue !== undefined && reminderDays.includes(item.daysUntilDue);
+      }
+      return true;
+    });
+  }
+
+  // Overdue alerts repeat daily; reminders once per reminder day; everything else once per billing cycle
+  dedupeKey(item: NotificationItem, card: CreditCard, now: Date): string {
+    switch (item.type) {
+      case 'payment_reminder':
+        return `${item.id}:${card.dueDate}:${item.daysUntilDue}`;
+      case 'late_payment':
+        return `${item.id}:${card.dueDate}:${toDateString(now)}`;
+      case 'statement_ready':
+        return `${item.id}:${card.nextStatementDate}`;
+      default:
+        return `${item.id}:${card.dueDate}`;
+    }
+  }
+
+  /**
+   * Whether a user's daily check should run: not yet today, and either their
+   * notification time has passed or a whole day went by without a check (a
+   * late time like 23:50 can fall between two runs that straddle midnight).
+   */
+  isDue(preferences: NotificationPreferencesData, lastDeliveryDate: string | undefined, now: Date): boolean {
+    const today = toDateString(now);
+    if (lastDeliveryDate && lastDeliveryDate >= today) {
+      return false;
+    }
+    const currentTime = now.toISOString().slice(11, 16);
+    if (currentTime >= (preferences.notificationTime || DEFAULT_NOTIFICATION_PREFERENCES.notificationTime)) {
+      return true;
+    }
+    return !lastDeliveryDate || lastDeliveryDate < toDateString(new Date(now.getTime() - DAY_MS));
+  }
+
+  private async processCard(
+    card: CreditCard,
+    preferences: NotificationPreferencesData,
+    now: Date,
+    result: NotificationCheckResult
+  ): Promise<void> {
+    for (const item of this.selectNotifications(card, preferences, now)) {
+      const dedupeKey = this.dedupeKey(item, card, now);
+      const wantsEmail = item.priority === 'high' && preferences.emailNotifications && this.getEmailService() !== null;
+      const emailKey = `${dedupeKey}:email`;
+      const emailPending = wantsEmail && !(await NotificationLog.hasBeenSent(card.userId, emailKey));
+
+      const alreadyNotified = await NotificationLog.hasBeenSent(card.userId, dedupeKey);
+      if (alreadyNotified && !emailPending) {
+        result.duplicatesSkipped++;
+        continue;
+      }
+
+      let emailSent = false;
+      if (emailPending) {
+        emailSent = await this.sendEmail(item, card, preferences, emailKey);
+        result[emailSent ? 'emailsSent' : 'emailsFailed']++;
+      }
+      if (alreadyNotified) {
+        continue;
+      }
+
+      const { id, ...notification } = item;
+      const docRef = await db.collection('notifications').add({
+        ...notification,
+        userId: card.userId,
+        notificationKey: id,
+        sentAt: now.toISOString(),
+        emailSent,
+        dismissed: false,
+        createdAt: now,
+        updatedAt: now
+      });
+
+      await NotificationLog.create({
+        id: docRef.id,
+        userId: card.userId,
+        type: 'in_app',
+        recipient: card.userId,
+        subject: item.title,
+        sentAt: now.toISOString(),
+        status: 'sent',
+        cardId: card.id,
+        notificationType: item.type,
+        dedupeKey
+      });
+      result.notificationsCreated++;
+    }
+  }
+
+  private async sendEmail(
+    item: NotificationItem,
+    card: CreditCard,
+    preferences: NotificationPreferencesData,
+    dedupeKey: string
+  ): Promise<boolean> {
+    const emailService = this.getEmailService();
+    if (!emailService) {
+      return false;
+    }
+
+    const recipient = preferences.emailAddress || await this.getUserEmail(card.userId);
+    if (!recipient) {
+      return false;
+    }
+
+    const isPaymentAlert = item.type === 'payment_reminder' || item.type === 'late_payment';
+    const content = isPaymentAlert
+      ? EmailService.generateBalanceReminderEmail(
+          card.name,
+          card.currentBalance,
+          card.minimumPaymentDue,
+          card.dueDate,
+          item.daysUntilDue ?? 0,
+          item.type === 'late_payment'
+        )
+      : EmailService.generateAlertEmail(item.title, item.message);
+
+    return emailService.sendNotificationEmail(
+      { to: recipient, ...content },
+      `${item.id}_${Date.now()}`,
+      card.userId,
+      { cardId: card.id, notificationType: item.type, dedupeKey }
+    );
+  }
+
+  private async getUserEmail(userId: string): Promise<string | undefined> {
+    const doc = await db.collection('users').doc(userId).get();
+    return doc.data()?.email;
+  }
+
+  // Email is optional; without SMTP settings notifications are stored in-app only
+  private getEmailService(): EmailService | null {
+    if (!this.emailService) {
+      this.emailService = EmailService.fromEnv();
+    }
+    return this.emailService;
+  }
+}
+
+export const notificationPipelineService = new NotificationPipelineService();
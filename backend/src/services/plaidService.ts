@@ -1,4 +1,6 @@
-import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import { Configuration, PlaidApi, PlaidEnvironments, Transaction } from 'plaid';
+import { PlaidVerificationKey } from './plaidWebhookVerifier';
+import { normalizeCurrencyCode } from '../../../shared/currency';
 
 export interface PlaidConfig {
   clientId: string;
@@ -29,6 +31,7 @@ export interface PlaidAccount {
     available: number | null;
     current: number | null;
     limit: number | null;
+    isoCurrencyCode: string;
   };
 }
 
@@ -51,6 +54,30 @@ export interface PlaidTransaction {
   };
 }
 
+// Body of a Plaid webhook (only the fields we act on)
+export interface PlaidWebhookPayload {
+  webhook_type: string;
+  webhook_code: string;
+  item_id: string;
+  error?: { error_code?: string; error_message?: string } | null;
+  consent_expiration_time?: string | null;
+}
+
+// Changes since a cursor, in Plaid's own (snake_case) transaction shape
+export interface PlaidTransactionsSyncResult {
+  added: Transaction[];
+  modified: Transaction[];
+  removed: string[]; // Plaid transaction ids
+  nextCursor: string;
+}
+
+// Plaid asks callers to restart from the original cursor if data changes mid-pagination
+const SYNC_MUTATION_ERROR = 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION';
+const MAX_SYNC_RESTARTS = 3;
+
+const getPlaidErrorCode = (error: unknown): string | undefined =>
+  (error as { response?: { data?: { error_code?: string } } })?.response?.data?.error_code;
+
 class PlaidService {
   private client: PlaidApi;
   
@@ -92,6 +119,7 @@ class PlaidService {
         products: ['transactions'],
         country_codes: ['US'],
         language: 'en',
+        ...(process.env.PLAID_WEBHOOK_URL && { webhook: process.env.PLAID_WEBHOOK_URL }),
       });
       
       return response.data.link_token;
@@ -135,6 +163,7 @@ class PlaidService {
           available: account.balances.available,
           current: account.balances.current,
           limit: account.balances.limit,
+          isoCurrencyCode: normalizeCurrencyCode(account.balances.iso_currency_code || account.balances.unofficial_currency_code),
         },
       }));
     } catch (error) {
@@ -182,6 +211,51 @@ class PlaidService {
     }
   }
   
+  // Fetch every change since `cursor` (or the full history when no cursor is given)
+  async syncTransactions(accessToken: string, cursor?: string): Promise<PlaidTransactionsSyncResult> {
+    for (let attempt = 0; attempt <= MAX_SYNC_RESTARTS; attempt++) {
+      const result: PlaidTransactionsSyncResult = { added: [], modified: [], removed: [], nextCursor: cursor || '' };
+
+      try {
+        let hasMore = true;
+        while (hasMore) {
+          const response = await this.client.transactionsSync({
+            access_token: accessToken,
+            ...(result.nextCursor && { cursor: result.nextCursor }),
+            count: 500,
+          });
+
+          result.added.push(...response.data.added);
+          result.modified.push(...response.data.modified);
+          result.removed.push(...response.data.removed.map(removed => removed.transaction_id));
+          result.nextCursor = response.data.next_cursor;
+          hasMore = response.data.has_more;
+        }
+
+        return result;
+      } catch (error) {
+        if (getPlaidErrorCode(error) === SYNC_MUTATION_ERROR && attempt < MAX_SYNC_RESTARTS) {
+          continue;
+        }
+        console.error('Error syncing transactions:', error);
+        throw new Error('Failed to sync transactions');
+      }
+    }
+
+    throw new Error('Failed to sync transactions');
+  }
+  
+  // Fetch the public key Plaid used to sign a webhook
+  async getWebhookVerificationKey(keyId: string): Promise<PlaidVerificationKey> {
+    try {
+      const response = await this.client.webhookVerificationKeyGet({ key_id: keyId });
+      return { ...response.data.key };
+    } catch (error) {
+      console.error('Error fetching webhook verification key:', error);
+      throw new Error('Failed to fetch webhook verification key');
+    }
+  }
+  
   // Get institution info
   async getInstitution(institutionId: string): Promise<{ name: string; website?: string }> {
     try {
@@ -1,31 +1,28 @@
 import { TransactionModel } from '../models/bankConnection';
 import { Transaction } from '../../../src/types';
+import { normalizeCurrencyCode } from '../../../shared/currency';
+import { applyRules, BUILT_IN_RULES } from '../../../shared/categorizationRules';
 
 export interface PlaidToManualAdapterConfig {
-  categoryMappings: CategoryMapping[];
   defaultAccountType: 'bank' | 'credit';
 }
 
-interface CategoryMapping {
-  plaidCategory: string;
-  internalCategory: string;
-  confidence: number;
-}
+// Syncs before categorization rules stored category names rather than IDs
+const LEGACY_CATEGORY_NAMES: Record<string, string> = {
+  'Food & Dining': 'food',
+  'Transportation': 'transportation',
+  'Shopping': 'shopping',
+  'Entertainment': 'entertainment',
+  'Healthcare': 'healthcare',
+  'Services': 'bills',
+  'Government': 'bills',
+  'Travel': 'transportation',
+  'Income': 'income',
+  'Transfer': 'transfer',
+  'Other': 'other'
+};
 
 export class PlaidTransactionAdapter {
-  private categoryMappings: CategoryMapping[] = [
-    { plaidCategory: 'Food and Drink', internalCategory: 'food', confidence: 0.9 },
-    { plaidCategory: 'Transportation', internalCategory: 'transportation', confidence: 0.9 },
-    { plaidCategory: 'Shops', internalCategory: 'shopping', confidence: 0.8 },
-    { plaidCategory: 'Recreation', internalCategory: 'entertainment', confidence: 0.8 },
-    { plaidCategory: 'Healthcare', internalCategory: 'healthcare', confidence: 0.9 },
-    { plaidCategory: 'Service', internalCategory: 'bills', confidence: 0.7 },
-    { plaidCategory: 'Government and Non-Profit', internalCategory: 'bills', confidence: 0.9 },
-    { plaidCategory: 'Travel', internalCategory: 'transportation', confidence: 0.9 },
-    { plaidCategory: 'Deposit', internalCategory: 'income', confidence: 0.9 },
-    { plaidCategory: 'Transfer', internalCategory: 'transfer', confidence: 0.9 }
-  ];
-
   /**
    * Converts a Plaid TransactionModel to our manual Transaction format
    */
@@ -34,7 +31,7 @@ export class PlaidTransactionAdapter {
     accountType: 'bank' | 'credit' = 'bank',
     creditCardId?: string
   ): Transaction {
-    const category = this.mapCategory(plaidTransaction.category || []);
+    const category = this.categoryOf(plaidTransaction);
     const transactionType = this.determineTransactionType(plaidTransaction, accountType);
 
     return {
@@ -42,6 +39,7 @@ export class PlaidTransactionAdapter {
       userId: plaidTransaction.userId,
       date: plaidTransaction.date,
       amount: Math.abs(plaidTransaction.amount), // Normalize amount to positive
+      currency: normalizeCurrencyCode(plaidTransaction.currency),
       description: plaidTransaction.name,
       category,
       subcategory: plaidTransaction.subcategory,
@@ -59,24 +57,31 @@ export class PlaidTransactionAdapter {
       // Plaid-specific metadata
       plaidTransactionId: plaidTransaction.plaidTransactionId,
       plaidAccountId: plaidTransaction.accountId,
-      bankConnectionId: plaidTransaction.bankConnectionId
+      bankConnectionId: plaidTransaction.bankConnectionId,
+      incomeSourceId: plaidTransaction.incomeSourceId,
+      // Amounts are normalized to positive, and so are the lines that add up to them
+      ...(plaidTransaction.splits?.length && {
+        splits: plaidTransaction.splits.map(split => ({ ...split, amount: Math.abs(split.amount) }))
+      })
     };
   }
 
   /**
-   * Maps Plaid categories to our internal category system
+   * The category the sync's rules or the user chose, or the built-in
+   * mapping of Plaid's categories for transactions stored without one
    */
-  private mapCategory(plaidCategories: string[]): string {
-    if (!plaidCategories || plaidCategories.length === 0) {
-      return 'other';
+  private categoryOf(plaidTransaction: TransactionModel): string {
+    if (plaidTransaction.internalCategory) {
+      return LEGACY_CATEGORY_NAMES[plaidTransaction.internalCategory] ?? plaidTransaction.internalCategory;
     }
 
-    const primaryCategory = plaidCategories[0];
-    const mapping = this.categoryMappings.find(m => 
-      primaryCategory.toLowerCase().includes(m.plaidCategory.toLowerCase())
-    );
-
-    return mapping ? mapping.internalCategory : 'other';
+    const result = applyRules(BUILT_IN_RULES, {
+      description: plaidTransaction.name,
+      amount: plaidTransaction.amount,
+      accountId: plaidTransaction.accountId,
+      plaidCategories: plaidTransaction.category || []
+    });
+    return result.category ?? 'other';
   }
 
   /**
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Plaid's JWK plus the metadata returned by /webhook_verification_key/get
+export interface PlaidVerificationKey extends crypto.JsonWebKey {
+  kid?: string;
+  created_at?: number;
+  expired_at?: number | null;
+}
+
+export type VerificationKeyResolver = (keyId: string) => Promise<PlaidVerificationKey>;
+
+export class PlaidWebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaidWebhookVerificationError';
+  }
+}
+
+const MAX_TOKEN_AGE_SECONDS = 5 * 60;
+
+/**
+ * Verifies the `Plaid-Verification` header sent with every Plaid webhook:
+ * an ES256 JWT, signed with a key fetched by id, whose `request_body_sha256`
+ * claim must match the raw request body.
+ */
+export class PlaidWebhookVerifier {
+  private keyCache = new Map<string, PlaidVerificationKey>();
+
+  constructor(private resolveKey: VerificationKeyResolver) {}
+
+  async verify(token: string | undefined, rawBody: Buffer | string | undefined): Promise<void> {
+    if (!token) {
+      throw new PlaidWebhookVerificationError('Missing Plaid-Verification header');
+    }
+    if (rawBody === undefined) {
+      throw new PlaidWebhookVerificationError('Missing request body');
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded === 'string') {
+      throw new PlaidWebhookVerificationError('Malformed verification token');
+    }
+    if (decoded.header.alg !== 'ES256' || !decoded.header.kid) {
+      throw new PlaidWebhookVerificationError('Unexpected verification token header');
+    }
+
+    const key = await this.getKey(decoded.header.kid);
+    if (key.expired_at) {
+      throw new PlaidWebhookVerificationError('Verification key has expired');
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      const { kid, created_at, expired_at, ...jwk } = key;
+      const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+      payload = jwt.verify(token, publicKey, {
+        algorithms: ['ES256'],
+        maxAge: MAX_TOKEN_AGE_SECONDS
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new PlaidWebhookVerificationError(
+        `Invalid verification token: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const claimedHash = typeof payload.request_body_sha256 === 'string' ? payload.request_body_sha256 : '';
+    const actualHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+    if (
+      claimedHash.length !== actualHash.length ||
+      !crypto.timingSafeEqual(Buffer.from(claimedHash), Buffer.from(actualHash))
+    ) {
+      throw new PlaidWebhookVerificationError('Request body does not match signature');
+    }
+  }
+
+  // Keys rarely rotate, so cache them by id
+  private async getKey(keyId: string): Promise<PlaidVerificationKey> {
+    const cached = this.keyCache.get(keyId);
+    if (cached) {
+      return cached;
+    }
+
+    let key: PlaidVerificationKey;
+    try {
+      key = await this.resolveKey(keyId);
+    } catch (error) {
+      throw new PlaidWebhookVerificationError(
+        `Unable to fetch verification key: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    this.keyCache.set(keyId, key);
+    return key;
+  }
+}
@@ -0,0 +1,110 @@
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { stockTransactionService } from './stockTransactionService';
+import { marketDataService } from './marketDataService';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import {
+  PerformanceQuery,
+  PortfolioPerformanceReport,
+  PortfolioTargetsDocument,
+  TargetWeights
+} from '../models/portfolioPerformance';
+import {
+  calculatePortfolioPerformance,
+  PricePoint,
+  resolvePerformanceRange
+} from '../../../shared/portfolioPerformance';
+
+const TARGETS = 'portfolio_targets';
+
+export const DEFAULT_BENCHMARK = 'SPY';
+
+// Closes are read from this long before the period so its first day has a price to carry forward
+const PRICE_LOOKBACK_DAYS = 35;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (dateKey: string, days: number): string => toDateKey(new Date(Date.parse(dateKey) + days * DAY_MS));
+
+/**
+ * Returns of the user's stock portfolio, computed from their stock
+ * transactions and the stored daily closes by the shared performance module.
+ */
+export class PortfolioPerformanceService {
+  async getPerformance(userId: string, request: PerformanceQuery, now: Date = new Date()): Promise<PortfolioPerformanceReport> {
+    const transactions = await stockTransactionService.getAll(userId);
+    const firstDate = transactions.map(transaction => transaction.date.slice(0, 10)).sort()[0];
+    const custom = request.startDate && request.endDate;
+    const { startDate, endDate } = custom
+      ? { startDate: request.startDate!, endDate: request.endDate! }
+      : resolvePerformanceRange(request.range, toDateKey(now), firstDate);
+
+    const symbols = new Set<string>();
+    transactions.forEach(transaction => {
+      symbols.add(transaction.stockSymbol.toUpperCase());
+      if (transaction.newSymbol) symbols.add(transaction.newSymbol.toUpperCase());
+    });
+
+    const priceStart = addDays(startDate, -PRICE_LOOKBACK_DAYS);
+    const benchmark = request.benchmark.toUpperCase();
+    const [prices, benchmarkCloses, targets] = await Promise.all([
+      Promise.all([...symbols].map(async symbol => [symbol, await this.closesFor(symbol, priceStart, endDate)] as const)),
+      this.closesFor(benchmark, priceStart, endDate),
+      this.getTargets(userId)
+    ]);
+
+    return {
+      range: custom ? 'custom' : request.range,
+      ...calculatePortfolioPerformance(transactions, {
+        startDate,
+        endDate,
+        prices: Object.fromEntries(prices),
+        benchmark: { symbol: benchmark, closes: benchmarkCloses },
+        targets
+      })
+    };
+  }
+
+  async getTargets(userId: string): Promise<TargetWeights> {
+    const doc = await db.collection(TARGETS).doc(userId).get();
+    return doc.exists ? (doc.data() as PortfolioTargetsDocument).targets ?? {} : {};
+  }
+
+  // Replaces the user's target weights; symbols with a zero weight are dropped
+  async setTargets(userId: string, targets: TargetWeights): Promise<TargetWeights> {
+    const normalized: TargetWeights = {};
+    Object.entries(targets).forEach(([symbol, weight]) => {
+      if (weight > 0) normalized[symbol.trim().toUpperCase()] = weight;
+    });
+
+    const record: PortfolioTargetsDocument = { userId, targets: normalized, updatedAt: new Date() };
+    await db.collection(TARGETS).doc(userId).set(record);
+
+    auditLog({
+      event: 'portfolio_targets_updated',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { symbols: Object.keys(normalized) }
+    });
+
+    return normalized;
+  }
+
+  // A symbol whose closes can't be loaded is valued at its trade prices instead
+  private async closesFor(symbol: string, startDate: string, endDate: string): Promise<PricePoint[]> {
+    try {
+      return await marketDataService.getDailyCloses(symbol, startDate, endDate);
+    } catch (error) {
+      enhancedLogger.warn('No closes available for portfolio performance', {
+        symbol,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+}
+
+export const portfolioPerformanceService = new PortfolioPerformanceService();
@@ -0,0 +1,177 @@
+import admin from 'firebase-admin';
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { enhancedLogger } from '../utils/enhancedLogger';
+import { categorizationRuleService, storedCategorization } from './categorizationRuleService';
+import { adjustForWeekend, nextOccurrence, normalizeFrequency, toDateOnly } from '../../../shared/recurrence';
+import { applyRules, CategorizationRule, fillFromRules } from '../../../shared/categorizationRules';
+import { PaymentHistoryEntry, RecurringPaymentModel, RecurringPostingResult } from '../models/recurringPayment';
+
+// A payment that has been paused for years shouldn't flood the ledger in a single run
+const MAX_OCCURRENCES_PER_RUN = 36;
+
+interface PostingOutcome {
+  posted: boolean;
+  completed: boolean; // The schedule passed its endDate and was deactivated
+}
+
+/**
+ * Posts automatic recurring payments as transactions once they fall due.
+ *
+ * `nextDueDate` always holds the scheduled date. When `skipWeekends` is set the
+ * transaction is dated the following Monday instead, but the schedule keeps
+ * advancing from the scheduled date so it never drifts.
+ */
+export class RecurringPaymentService {
+  async postDuePayments(now: Date = new Date(), options: { userId?: string } = {}): Promise<RecurringPostingResult> {
+    const today = toDateOnly(now);
+    let paymentsQuery = db.collection('recurringPayments')
+      .where('isActive', '==', true)
+      .where('isAutomatic', '==', true);
+    if (options.userId) {
+      paymentsQuery = paymentsQuery.where('userId', '==', options.userId);
+    }
+    const snapshot = await paymentsQuery.get();
+
+    const result: RecurringPostingResult = { checked: snapshot.size, posted: 0, completed: 0, skipped: 0, failed: 0 };
+    const rulesByUser = new Map<string, Promise<CategorizationRule[]>>();
+
+    for (const doc of snapshot.docs) {
+      const payment = { id: doc.id, ...doc.data() } as RecurringPaymentModel;
+      if (!payment.nextDueDate || !payment.accountId) continue;
+
+      const frequency = normalizeFrequency(payment.frequency);
+      if (frequency.type === 'custom') {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        if (!rulesByUser.has(payment.userId)) {
+          rulesByUser.set(payment.userId, categorizationRuleService.rulesFor(payment.userId));
+        }
+        const rules = await rulesByUser.get(payment.userId)!;
+
+        for (let i = 0; i < MAX_OCCURRENCES_PER_RUN; i++) {
+          const outcome = await this.postNextOccurrence(payment.id, today, now, rules);
+          if (outcome.posted) result.posted++;
+          if (outcome.completed) result.completed++;
+          if (!outcome.posted || outcome.completed) break;
+        }
+      } catch (error) {
+        result.failed++;
+        enhancedLogger.error('Failed to post recurring payment', {
+          paymentId: payment.id,
+          userId: payment.userId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Post the payment's current occurrence if it is due. Runs in a Firestore
+   * transaction that re-reads `nextDueDate`, so an occurrence is never posted twice.
+   * A rule without a day is pinned to the due date and saved that way, so the
+   * series keeps its day after a short month.
+   */
+  private async postNextOccurrence(
+    paymentId: string,
+    today: string,
+    now: Date,
+    rules: CategorizationRule[]
+  ): Promise<PostingOutcome> {
+    const paymentRef = db.collection('recurringPayments').doc(paymentId);
+    const transactionRef = db.collection('transactions').doc();
+
+    const posted = await db.runTransaction(async transaction => {
+      const doc = await transaction.get(paymentRef);
+      const payment = { id: doc.id, ...doc.data() } as RecurringPaymentModel;
+      if (!doc.exists || !payment.isActive || !payment.isAutomatic || !payment.accountId) {
+        return null;
+      }
+
+      const scheduledDate = payment.nextDueDate.slice(0, 10);
+      const stored = normalizeFrequency(payment.frequency);
+      const frequency = normalizeFrequency(stored, scheduledDate);
+      if (frequency.endDate && scheduledDate > frequency.endDate) {
+        transaction.update(paymentRef, { isActive: false, updatedAt: now.toISOString() });
+        return { payment, completed: true, entry: null };
+      }
+
+      const postingDate = frequency.skipWeekends ? adjustForWeekend(scheduledDate) : scheduledDate;
+      if (postingDate > today) {
+        return null;
+      }
+
+      // The payment's own category and tags are kept; rules fill in the rest
+      const categorization = fillFromRules(
+        { category: payment.category, ...(payment.tags && { tags: payment.tags }) },
+        applyRules(rules, { description: payment.name, amount: payment.amount, accountId: payment.accountId })
+      );
+
+      transaction.set(transactionRef, {
+        userId: payment.userId,
+        date: postingDate,
+        amount: payment.amount,
+        description: payment.name,
+        ...storedCategorization(categorization),
+        accountId: payment.accountId,
+        accountType: payment.accountType || 'bank',
+        type: 'expense',
+        status: 'cleared',
+        isRecurring: true,
+        recurringId: payment.id,
+        ...(payment.description && { notes: payment.description }),
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
+      });
+
+      const entry: PaymentHistoryEntry = {
+        date: postingDate,
+        amount: payment.amount,
+        transactionId: transactionRef.id,
+        status: 'paid'
+      };
+      const nextDueDate = nextOccurrence(scheduledDate, frequency);
+      const completed = !!frequency.endDate && nextDueDate > frequency.endDate;
+
+      transaction.update(paymentRef, {
+        nextDueDate,
+        lastPaid: postingDate,
+        paymentHistory: admin.firestore.FieldValue.arrayUnion(entry),
+        updatedAt: now.toISOString(),
+        ...(frequency.dayOfMonth !== stored.dayOfMonth && { frequency }),
+        ...(completed && { isActive: false })
+      });
+
+      return { payment, completed, entry };
+    });
+
+    if (!posted) {
+      return { posted: false, completed: false };
+    }
+
+    if (posted.entry) {
+      auditLog({
+        event: 'recurring_payment_posted',
+        userId: posted.payment.userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: {
+          paymentId,
+          transactionId: posted.entry.transactionId,
+          date: posted.entry.date,
+          amount: posted.entry.amount
+        }
+      });
+    }
+
+    return { posted: !!posted.entry, completed: posted.completed };
+  }
+}
+
+export const recurringPaymentService = new RecurringPaymentService();
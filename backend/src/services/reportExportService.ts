@@ -0,0 +1,419 @@
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+import {
+  BudgetReportData,
+  CashFlowReportData,
+  GeneratedReport,
+  NetWorthReportData,
+  SpendingReportData
+} from '../models/report';
+import { currencySymbol, formatMoney, normalizeCurrencyCode } from '../../../shared/currency';
+
+export type ReportExportFormat = 'json' | 'csv' | 'xlsx' | 'pdf';
+
+export const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['json', 'csv', 'xlsx', 'pdf'];
+
+type CellFormat = 'text' | 'currency' | 'percent' | 'number';
+
+interface ReportColumn {
+  header: string;
+  format: CellFormat;
+}
+
+interface ReportTable {
+  title: string;
+  columns: ReportColumn[];
+  rows: Array<Array<string | number>>;
+}
+
+interface ReportChart {
+  title: string;
+  series: Array<{ label: string; value: number }>;
+}
+
+// Format-independent view of a report: headline figures, tables and one chart
+interface ReportLayout {
+  summary: Array<{ label: string; value: number; format: CellFormat }>;
+  tables: ReportTable[];
+  chart?: ReportChart;
+}
+
+export interface ReportExport {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+const EXCEL_NUMBER_FORMATS: Record<Exclude<CellFormat, 'currency'>, string | undefined> = {
+  text: undefined,
+  percent: '0.00"%"',
+  number: '#,##0'
+};
+
+// Excel has no ISO currency format, so build one around the currency's symbol
+const excelNumberFormat = (format: CellFormat, currency: string): string | undefined => {
+  if (format !== 'currency') return EXCEL_NUMBER_FORMATS[format];
+  const symbol = currencySymbol(currency);
+  return `"${symbol}"#,##0.00;[Red]-"${symbol}"#,##0.00`;
+};
+
+const CHART_COLOR = '#2563eb';
+const MAX_CHART_BARS = 10;
+
+const col = (header: string, format: CellFormat = 'text'): ReportColumn => ({ header, format });
+
+const formatCell = (value: string | number, format: CellFormat, currency: string): string => {
+  if (typeof value === 'string') return value;
+  switch (format) {
+    case 'currency':
+      return formatMoney(value, currency);
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'number':
+      return value.toLocaleString('en-US');
+    default:
+      return String(value);
+  }
+};
+
+// Quote fields for CSV and neutralize values a spreadsheet would evaluate as formulas
+export const escapeCsv = (value: string | number): string => {
+  if (typeof value === 'number') return String(value);
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export class ReportExportService {
+  async export(report: GeneratedReport, format: ReportExportFormat): Promise<ReportExport> {
+    let buffer: Buffer;
+    switch (format) {
+      case 'csv':
+        buffer = Buffer.from(this.toCsv(report), 'utf8');
+        break;
+      case 'xlsx':
+        buffer = await this.toXlsx(report);
+        break;
+      case 'pdf':
+        buffer = await this.toPdf(report);
+        break;
+      default:
+        buffer = Buffer.from(JSON.stringify(report, null, 2), 'utf8');
+    }
+
+    return { buffer, contentType: CONTENT_TYPES[format], extension: format };
+  }
+
+  buildLayout(report: GeneratedReport): ReportLayout {
+    switch (report.type) {
+      case 'spending': {
+        const data = report.data as SpendingReportData;
+        return {
+          summary: [
+            { label: 'Total Spending', value: data.totalSpending, format: 'currency' },
+            { label: 'Average Daily Spending', value: data.averageDailySpending, format: 'currency' },
+            { label: 'Transactions', value: data.transactionCount, format: 'number' }
+          ],
+          tables: [
+            {
+              title: 'Spending by Category',
+              columns: [col('Category'), col('Amount', 'currency'), col('Transactions', 'number'), col('Share', 'percent')],
+              rows: data.byCategory.map(c => [c.category, c.amount, c.count, c.percentage])
+            },
+            {
+              title: 'Spending by Month',
+              columns: [col('Month'), col('Amount', 'currency')],
+              rows: data.byMonth.map(m => [m.month, m.amount])
+            },
+            {
+              title: 'Top Merchants',
+              columns: [col('Merchant'), col('Amount', 'currency'), col('Transactions', 'number')],
+              rows: data.topMerchants.map(m => [m.merchant, m.amount, m.count])
+            }
+          ],
+          chart: {
+            title: 'Spending by Category',
+            series: data.byCategory.map(c => ({ label: c.category, value: c.amount }))
+          }
+        };
+      }
+      case 'networth': {
+        const data = report.data as NetWorthReportData;
+        return {
+          summary: [
+            { label: 'Total Assets', value: data.totalAssets, format: 'currency' },
+            { label: 'Total Liabilities', value: data.totalLiabilities, format: 'currency' },
+            { label: 'Net Worth', value: data.netWorth, format: 'currency' },
+            { label: 'Net Cash Flow for Period', value: data.periodCashFlow, format: 'currency' }
+          ],
+          tables: [
+            {
+              title: 'Assets',
+              columns: [col('Account'), col('Type'), col('Balance', 'currency')],
+              rows: data.assets.map(a => [a.name, a.type, a.balance])
+            },
+            {
+              title: 'Liabilities',
+              columns: [col('Account'), col('Type'), col('Balance', 'currency'), col('Limit', 'currency')],
+              rows: data.liabilities.map(l => [l.name, l.type, l.balance, l.limit ?? ''])
+            }
+          ],
+          chart: {
+            title: 'Assets vs. Liabilities',
+            series: [
+              { label: 'Assets', value: data.totalAssets },
+              { label: 'Liabilities', value: data.totalLiabilities }
+            ]
+          }
+        };
+      }
+      case 'budget': {
+        const data = report.data as BudgetReportData;
+        return {
+          summary: [
+            { label: 'Total Budgeted', value: data.totalBudgeted, format: 'currency' },
+            { label: 'Total Spent', value: data.totalSpent, format: 'currency' },
+            { label: 'Total Remaining', value: data.totalRemaining, format: 'currency' },
+            { label: 'Budgets Over Limit', value: data.overBudgetCount, format: 'number' }
+          ],
+          tables: [
+            {
+              title: 'Budgets',
+              columns: [
+                col('Budget'), col('Category'), col('Budgeted', 'currency'), col('Spent', 'currency'),
+                col('Remaining', 'currency'), col('Used', 'percent'), col('Status')
+              ],
+              rows: data.budgets.map(b => [b.name, b.category, b.budgeted, b.spent, b.remaining, b.percentUsed, b.status])
+            },
+            {
+              title: 'Unbudgeted Spending',
+              columns: [col('Category'), col('Amount', 'currency')],
+              rows: data.unbudgetedSpending.map(u => [u.category, u.amount])
+            }
+          ],
+          chart: {
+            title: 'Budget Usage (% of budget spent)',
+            series: data.budgets.map(b => ({ label: b.name, value: b.percentUsed }))
+          }
+        };
+      }
+      case 'cashflow': {
+        const data = report.data as CashFlowReportData;
+        return {
+          summary: [
+            { label: 'Total Income', value: data.totalIncome, format: 'currency' },
+            { label: 'Total Expenses', value: data.totalExpenses, format: 'currency' },
+            { label: 'Net Cash Flow', value: data.netCashFlow, format: 'currency' },
+            { label: 'Savings Rate', value: data.savingsRate, format: 'percent' }
+          ],
+          tables: [
+            {
+              title: 'Cash Flow by Month',
+              columns: [col('Month'), col('Income', 'currency'), col('Expenses', 'currency'), col('Net', 'currency')],
+              rows: data.byMonth.map(m => [m.month, m.income, m.expenses, m.net])
+            },
+            {
+              title: 'Income by Category',
+              columns: [col('Category'), col('Amount', 'currency')],
+              rows: data.incomeByCategory.map(c => [c.category, c.amount])
+            },
+            {
+              title: 'Expenses by Category',
+              columns: [col('Category'), col('Amount', 'currency')],
+              rows: data.expensesByCategory.map(c => [c.category, c.amount])
+            }
+          ],
+          chart: {
+            title: 'Net Cash Flow by Month',
+            series: data.byMonth.map(m => ({ label: m.month, value: m.net }))
+          }
+        };
+      }
+      default:
+        return { summary: [], tables: [] };
+    }
+  }
+
+  toCsv(report: GeneratedReport): string {
+    const layout = this.buildLayout(report);
+    const lines: string[] = [
+      [report.name, report.period.label].map(escapeCsv).join(','),
+      ['Period', `${report.period.startDate} to ${report.period.endDate}`].map(escapeCsv).join(','),
+      ['Generated', report.generatedAt].map(escapeCsv).join(','),
+      ['Currency', normalizeCurrencyCode(report.currency)].map(escapeCsv).join(','),
+      '',
+      'Summary',
+      ...layout.summary.map(item => [item.label, item.value].map(escapeCsv).join(','))
+    ];
+
+    layout.tables.forEach(table => {
+      lines.push('', escapeCsv(table.title));
+      lines.push(table.columns.map(c => escapeCsv(c.header)).join(','));
+      table.rows.forEach(row => lines.push(row.map(escapeCsv).join(',')));
+    });
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  async toXlsx(report: GeneratedReport): Promise<Buffer> {
+    const layout = this.buildLayout(report);
+    const currency = normalizeCurrencyCode(report.currency);
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Finance Tracker';
+    workbook.created = new Date(report.generatedAt);
+
+    const summarySheet = workbook.addWorksheet('Summary');
+    summarySheet.columns = [{ width: 32 }, { width: 20 }];
+    summarySheet.addRow([report.name]).font = { bold: true, size: 14 };
+    summarySheet.addRow(['Period', `${report.period.label} (${report.period.startDate} to ${report.period.endDate})`]);
+    summarySheet.addRow(['Generated', report.generatedAt]);
+    summarySheet.addRow(['Currency', currency]);
+    summarySheet.addRow([]);
+    layout.summary.forEach(item => {
+      const row = summarySheet.addRow([item.label, item.value]);
+      const numFmt = excelNumberFormat(item.format, currency);
+      if (numFmt) row.getCell(2).numFmt = numFmt;
+    });
+
+    const usedNames = new Set(['Summary']);
+    layout.tables.forEach(table => {
+      // Excel limits sheet names to 31 characters and requires them to be unique
+      let name = table.title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+      for (let i = 2; usedNames.has(name); i++) name = `${table.title.slice(0, 28)} ${i}`;
+      usedNames.add(name);
+
+      const sheet = workbook.addWorksheet(name);
+      sheet.columns = table.columns.map(c => {
+        const numFmt = excelNumberFormat(c.format, currency);
+        return {
+          header: c.header,
+          width: c.format === 'text' ? 28 : 16,
+          ...(numFmt && { style: { numFmt } })
+        };
+      });
+      sheet.getRow(1).font = { bold: true };
+      sheet.addRows(table.rows);
+    });
+
+    const output = await workbook.xlsx.writeBuffer();
+    return Buffer.from(output as ArrayBuffer);
+  }
+
+  toPdf(report: GeneratedReport): Promise<Buffer> {
+    const layout = this.buildLayout(report);
+    const currency = normalizeCurrencyCode(report.currency);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'LETTER', margin: 50, info: { Title: report.name } });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(20).font('Helvetica-Bold').text(report.name);
+      doc.moveDown(0.25);
+      doc.fontSize(10).font('Helvetica').fillColor('#555555')
+        .text(`${report.period.label}: ${report.period.startDate} to ${report.period.endDate}`)
+        .text(`Generated ${new Date(report.generatedAt).toLocaleString('en-US')}`)
+        .text(`Amounts in ${currency}`)
+        .fillColor('black');
+      doc.moveDown();
+
+      this.drawTable(doc, {
+        title: 'Summary',
+        columns: [col('Metric'), col('Value')],
+        rows: layout.summary.map(item => [item.label, formatCell(item.value, item.format, currency)])
+      }, currency);
+
+      if (layout.chart && layout.chart.series.length > 0) {
+        this.drawBarChart(doc, layout.chart);
+      }
+
+      layout.tables.forEach(table => this.drawTable(doc, table, currency));
+      doc.end();
+    });
+  }
+
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  }
+
+  private drawTable(doc: PDFKit.PDFDocument, table: ReportTable, currency: string): void {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const rowHeight = 16;
+    const columnWidth = width / table.columns.length;
+
+    this.ensureSpace(doc, rowHeight * 3);
+    doc.fontSize(13).font('Helvetica-Bold').text(table.title, left);
+    doc.moveDown(0.3);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.ensureSpace(doc, rowHeight);
+      const y = doc.y;
+      doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      cells.forEach((cell, index) => {
+        const align = table.columns[index].format === 'text' ? 'left' : 'right';
+        doc.text(cell, left + index * columnWidth + 2, y + 3, { width: columnWidth - 4, align, lineBreak: false, ellipsis: true });
+      });
+      doc.moveTo(left, y + rowHeight).lineTo(left + width, y + rowHeight).strokeColor('#dddddd').stroke();
+      doc.x = left;
+      doc.y = y + rowHeight;
+    };
+
+    drawRow(table.columns.map(c => c.header), true);
+    if (table.rows.length === 0) {
+      drawRow(table.columns.map((_, index) => (index === 0 ? 'No data for this period' : '')), false);
+    }
+    table.rows.forEach(row => drawRow(row.map((value, index) => formatCell(value, table.columns[index].format, currency)), false));
+    doc.moveDown();
+  }
+
+  // Horizontal bar chart of the largest values; negative values are drawn in red
+  private drawBarChart(doc: PDFKit.PDFDocument, chart: ReportChart): void {
+    const series = [...chart.series]
+      .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+      .slice(0, MAX_CHART_BARS);
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const labelWidth = 140;
+    const valueWidth = 80;
+    const barArea = width - labelWidth - valueWidth;
+    const barHeight = 14;
+    const gap = 6;
+    const maxValue = Math.max(...series.map(s => Math.abs(s.value)), 1);
+
+    this.ensureSpace(doc, 30 + series.length * (barHeight + gap));
+    doc.fontSize(13).font('Helvetica-Bold').text(chart.title, left);
+    doc.moveDown(0.3);
+
+    let y = doc.y;
+    doc.fontSize(9).font('Helvetica');
+    series.forEach(point => {
+      const barWidth = Math.max(1, (Math.abs(point.value) / maxValue) * barArea);
+      doc.fillColor('black').text(point.label, left, y + 3, { width: labelWidth - 6, lineBreak: false, ellipsis: true });
+      doc.rect(left + labelWidth, y, barWidth, barHeight).fill(point.value < 0 ? '#dc2626' : CHART_COLOR);
+      doc.fillColor('black').text(
+        point.value.toLocaleString('en-US', { maximumFractionDigits: 2 }),
+        left + labelWidth + barWidth + 4,
+        y + 3,
+        { width: valueWidth, lineBreak: false }
+      );
+      y += barHeight + gap;
+    });
+
+    doc.x = left;
+    doc.y = y;
+    doc.moveDown();
+  }
+}
+
+export const reportExportService = new ReportExportService();
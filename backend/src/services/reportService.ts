@@ -0,0 +1,516 @@
+import { BaseService } from './baseService';
+import FirebaseTransactionService from './firebaseTransactionService';
+import CreditCardMappingService from './creditCardMappingService';
+import { PlaidTransactionAdapter } from './plaidTransactionAdapter';
+import { fxRateService } from './fxRateService';
+import { netWorthService } from './netWorthService';
+import { auditLog } from '../middleware/auditLogger';
+import { TransactionModel } from '../models/bankConnection';
+import { NetWorthBalanceLine, NetWorthSnapshot } from '../models/netWorthSnapshot';
+import {
+  GeneratedReport,
+  ReportType,
+  ReportPeriod,
+  ReportPeriodPreset,
+  ReportTransaction,
+  ReportData,
+  SpendingReportData,
+  NetWorthReportData,
+  BudgetReportData,
+  CashFlowReportData,
+  REPORT_NAMES
+} from '../models/report';
+import { CurrencyConverter, normalizeCurrencyCode } from '../../../shared/currency';
+import { SplitLine, splitLines, TransactionSplit } from '../../../shared/transactionSplits';
+import { toDate } from '../utils/dates';
+
+interface StoredTransaction {
+  id: string;
+  date: unknown;
+  amount: number;
+  currency?: string;
+  type?: ReportTransaction['type'];
+  category?: string;
+  subcategory?: string;
+  tags?: string[];
+  description?: string;
+  merchantName?: string;
+  merchant?: string;
+  accountId: string;
+  accountType?: 'bank' | 'credit';
+  source?: 'manual' | 'import';
+  incomeSourceId?: string;
+  insurancePolicyId?: string;
+  isHidden?: boolean;
+  splits?: TransactionSplit[];
+}
+
+interface StoredBankAccount {
+  id: string;
+  name: string;
+  type?: string;
+  currentBalance?: number;
+  initialBalance?: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+interface StoredCreditCard {
+  id: string;
+  name: string;
+  type?: string;
+  currentBalance?: number;
+  limit?: number;
+  currency?: string;
+  isActive?: boolean;
+}
+
+interface StoredBudget {
+  id: string;
+  name: string;
+  category: string;
+  amount: number;
+  period: 'weekly' | 'monthly' | 'yearly';
+  isActive?: boolean;
+  status?: string;
+}
+
+export class ReportPeriodError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'ReportPeriodError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const sumBy = <T>(items: T[], pick: (item: T) => number): number =>
+  items.reduce((sum, item) => sum + pick(item), 0);
+
+// Counts are of transactions, so the lines of a split transaction in one group count once
+const groupTotals = (transactions: ReportTransaction[], key: (t: ReportTransaction) => string): Map<string, { amount: number; count: number }> => {
+  const totals = new Map<string, { amount: number; ids: Set<string> }>();
+  transactions.forEach(t => {
+    const current = totals.get(key(t)) || { amount: 0, ids: new Set<string>() };
+    current.ids.add(t.id);
+    totals.set(key(t), { amount: current.amount + t.amount, ids: current.ids });
+  });
+  return new Map(Array.from(totals, ([group, { amount, ids }]) => [group, { amount, count: ids.size }]));
+};
+
+// The fields a report row takes from one line of its transaction
+const lineFields = (line: SplitLine) => ({
+  category: line.category || 'other',
+  ...(line.subcategory && { subcategory: line.subcategory }),
+  ...(line.tags && line.tags.length > 0 && { tags: line.tags }),
+  ...(line.incomeSourceId && { incomeSourceId: line.incomeSourceId }),
+  ...(line.insurancePolicyId && { insurancePolicyId: line.insurancePolicyId }),
+  ...(line.splitIndex !== undefined && { splitIndex: line.splitIndex })
+});
+
+export class ReportService extends BaseService<GeneratedReport> {
+  private manualTransactionService = new BaseService<StoredTransaction>('transactions');
+  private bankAccountService = new BaseService<StoredBankAccount>('bankAccounts');
+  private creditCardService = new BaseService<StoredCreditCard>('creditCards');
+  private budgetService = new BaseService<StoredBudget>('budgets');
+  private plaidTransactionService = new FirebaseTransactionService();
+  private mappingService = new CreditCardMappingService();
+  private plaidAdapter = new PlaidTransactionAdapter();
+
+  constructor() {
+    super('reports');
+  }
+
+  /**
+   * Resolve a period preset (as offered by the Reports page) into concrete dates
+   */
+  resolvePeriod(
+    preset: ReportPeriodPreset,
+    now: Date = new Date(),
+    custom?: { startDate: string; endDate: string }
+  ): ReportPeriod {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+    const utc = (y: number, m: number, d: number) => new Date(Date.UTC(y, m, d));
+    const today = toDateKey(now);
+
+    switch (preset) {
+      case 'current-month':
+        return { preset, label: `${MONTH_NAMES[month]} ${year}`, startDate: toDateKey(utc(year, month, 1)), endDate: today };
+      case 'last-month': {
+        const start = utc(year, month - 1, 1);
+        return {
+          preset,
+          label: `${MONTH_NAMES[start.getUTCMonth()]} ${start.getUTCFullYear()}`,
+          startDate: toDateKey(start),
+          endDate: toDateKey(utc(year, month, 0))
+        };
+      }
+      case 'last-3-months':
+      case 'last-6-months': {
+        const months = preset === 'last-3-months' ? 3 : 6;
+        return { preset, label: `Last ${months} Months`, startDate: toDateKey(utc(year, month - months + 1, 1)), endDate: today };
+      }
+      case 'ytd':
+        return { preset, label: `${year} Year to Date`, startDate: `${year}-01-01`, endDate: today };
+      case 'last-year':
+        return { preset, label: `${year - 1}`, startDate: `${year - 1}-01-01`, endDate: `${year - 1}-12-31` };
+      case 'custom':
+        if (!custom || custom.startDate > custom.endDate) {
+          throw new ReportPeriodError('A custom period requires a startDate on or before its endDate', 400);
+        }
+        return { preset, label: `${custom.startDate} to ${custom.endDate}`, startDate: custom.startDate, endDate: custom.endDate };
+    }
+  }
+
+  async generateReport(userId: string, type: ReportType, period: ReportPeriod): Promise<GeneratedReport> {
+    try {
+      const currency = await fxRateService.getBaseCurrency(userId);
+      const convert = await fxRateService.getConverter(currency, period.startDate, period.endDate);
+      const transactions = await this.loadTransactions(userId, period, convert);
+      let data: ReportData;
+
+      switch (type) {
+        case 'spending':
+          data = this.buildSpendingReport(transactions, period);
+          break;
+        case 'networth': {
+          // A period that has already ended is reported from the last snapshot taken by its end
+          const snapshot = period.endDate < toDateKey(new Date())
+            ? await netWorthService.getSnapshotOnOrBefore(userId, period.endDate)
+            : null;
+          if (snapshot) {
+            // Snapshots taken before a base currency change are re-converted at the rates of their own day
+            const snapshotConvert = normalizeCurrencyCode(snapshot.currency) === currency
+              ? undefined
+              : await fxRateService.getConverter(currency, snapshot.date, snapshot.date);
+            data = this.buildNetWorthReportFromSnapshot(snapshot, transactions, snapshotConvert);
+            break;
+          }
+
+          const [accounts, cards] = await Promise.all([
+            this.bankAccountService.getAll(userId),
+            this.creditCardService.getAll(userId)
+          ]);
+          data = this.buildNetWorthReport(accounts, cards, transactions, convert);
+          break;
+        }
+        case 'budget':
+          data = this.buildBudgetReport(await this.budgetService.getAll(userId), transactions, period);
+          break;
+        case 'cashflow':
+          data = this.buildCashFlowReport(transactions);
+          break;
+      }
+
+      const report = {
+        userId,
+        type,
+        name: REPORT_NAMES[type],
+        period,
+        currency,
+        generatedAt: new Date().toISOString(),
+        sizeBytes: Buffer.byteLength(JSON.stringify(data)),
+        data,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const id = await this.create(report);
+
+      auditLog({
+        event: 'report_generated',
+        userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { reportId: id, type, period: period.label, transactionCount: transactions.length }
+      });
+
+      return { id, ...report };
+    } catch (error) {
+      auditLog({
+        event: 'report_generation_failed',
+        userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { type, period: period.label, error: error instanceof Error ? error.message : 'Unknown error' }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Load manual and Plaid transactions for a period in one normalized shape,
+   * with amounts converted at each transaction's date when a converter is given
+   */
+  async loadTransactions(userId: string, period: ReportPeriod, convert?: CurrencyConverter): Promise<ReportTransaction[]> {
+    const toBase = (amount: number, currency: string | undefined, date: string): number =>
+      convert ? convert(amount, currency, date) : amount;
+
+    const [manual, plaid, accountMappings] = await Promise.all([
+      this.manualTransactionService.getAll(userId),
+      this.plaidTransactionService.getUserTransactions(userId, {
+        startDate: period.startDate,
+        endDate: period.endDate
+      }),
+      this.mappingService.getAccountMappingsMap(userId)
+    ]);
+
+    const manualTransactions = manual.filter(t => !t.isHidden).flatMap((t): ReportTransaction[] => {
+      const merchant = t.merchantName || t.merchant;
+      const date = toDateKey(toDate(t.date));
+      const lines = splitLines({ ...t, amount: Number(t.amount) || 0, category: t.category || 'other' });
+      return lines.map(line => ({
+        id: t.id,
+        date,
+        amount: toBase(Math.abs(line.amount), t.currency, date),
+        type: t.type || 'expense',
+        ...lineFields(line),
+        description: t.description || '',
+        ...(merchant && { merchant }),
+        accountId: t.accountId,
+        accountType: t.accountType || 'bank',
+        source: t.source === 'import' ? 'import' : 'manual'
+      }));
+    });
+
+    const plaidTransactions = plaid
+      .filter(t => !t.isHidden && !t.isDeleted)
+      .flatMap((t): ReportTransaction[] => {
+        const mapping = accountMappings.get(t.accountId);
+        const normalized: TransactionModel = { ...t, createdAt: toDate(t.createdAt), updatedAt: toDate(t.updatedAt) };
+        const converted = this.plaidAdapter.convertToManualTransaction(
+          normalized,
+          mapping?.accountType || 'bank',
+          mapping?.creditCardId
+        );
+        return splitLines(converted).map(line => ({
+          id: converted.id,
+          date: converted.date,
+          amount: toBase(line.amount, converted.currency, converted.date),
+          type: converted.type,
+          ...lineFields(line),
+          description: converted.description,
+          ...(converted.merchantName && { merchant: converted.merchantName }),
+          accountId: converted.accountId,
+          accountType: converted.accountType,
+          source: 'plaid'
+        }));
+      });
+
+    return [...manualTransactions, ...plaidTransactions]
+      .filter(t => t.date >= period.startDate && t.date <= period.endDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  buildSpendingReport(transactions: ReportTransaction[], period: ReportPeriod): SpendingReportData {
+    const expenses = transactions.filter(t => t.type === 'expense');
+    const totalSpending = sumBy(expenses, t => t.amount);
+    const days = Math.max(1, Math.round((Date.parse(period.endDate) - Date.parse(period.startDate)) / DAY_MS) + 1);
+
+    const byCategory = Array.from(groupTotals(expenses, t => t.category))
+      .map(([category, { amount, count }]) => ({
+        category,
+        amount: round2(amount),
+        count,
+        percentage: totalSpending > 0 ? round2((amount / totalSpending) * 100) : 0
+      }))
+      .sort((a, b) => b.amount - a.amount);
+
+    const byMonth = Array.from(groupTotals(expenses, t => t.date.slice(0, 7)))
+      .map(([month, { amount }]) => ({ month, amount: round2(amount) }))
+      .sort((a, b) => a.month.localeCompare(b.month));
+
+    const topMerchants = Array.from(groupTotals(expenses, t => t.merchant || t.description || 'Unknown'))
+      .map(([merchant, { amount, count }]) => ({ merchant, amount: round2(amount), count }))
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, 10);
+
+    return {
+      totalSpending: round2(totalSpending),
+      averageDailySpending: round2(totalSpending / days),
+      transactionCount: new Set(expenses.map(t => t.id)).size,
+      byCategory,
+      byMonth,
+      topMerchants
+    };
+  }
+
+  /**
+   * Net worth from the balances stored on the accounts and cards. Those are
+   * today's balances, so the report is dated today whatever the period.
+   */
+  buildNetWorthReport(
+    accounts: StoredBankAccount[],
+    cards: StoredCreditCard[],
+    transactions: ReportTransaction[],
+    convert?: CurrencyConverter,
+    now: Date = new Date()
+  ): NetWorthReportData {
+    const asOf = toDateKey(now);
+    const toBase = (amount: number, currency?: string): number =>
+      convert ? convert(amount, currency, asOf) : amount;
+
+    const assets = accounts
+      .filter(account => account.isActive !== false)
+      .map(account => ({
+        id: account.id,
+        name: account.name,
+        type: account.type || 'bank',
+        balance: round2(toBase(account.currentBalance ?? account.initialBalance ?? 0, account.currency))
+      }));
+
+    const liabilities = cards
+      .filter(card => card.isActive !== false)
+      .map(card => ({
+        id: card.id,
+        name: card.name,
+        type: card.type || 'credit',
+        balance: round2(toBase(card.currentBalance ?? 0, card.currency)),
+        ...(card.limit !== undefined && { limit: round2(toBase(card.limit, card.currency)) })
+      }));
+
+    return this.netWorthReportOf(asOf, assets, liabilities, transactions);
+  }
+
+  /**
+   * Net worth from a recorded snapshot, dated the day it was taken. The
+   * converter is only needed when the snapshot is in another currency.
+   */
+  buildNetWorthReportFromSnapshot(
+    snapshot: NetWorthSnapshot,
+    transactions: ReportTransaction[],
+    convert?: CurrencyConverter
+  ): NetWorthReportData {
+    const toLine = (line: NetWorthBalanceLine) => ({
+      id: line.id,
+      name: line.name,
+      type: line.type,
+      balance: convert
+        ? round2(line.nativeBalance !== undefined
+          ? convert(line.nativeBalance, line.currency, snapshot.date)
+          : convert(line.balance, snapshot.currency, snapshot.date))
+        : line.balance
+    });
+
+    return this.netWorthReportOf(
+      snapshot.date,
+      (snapshot.bankAccounts || []).map(toLine),
+      (snapshot.creditCards || []).map(toLine),
+      transactions
+    );
+  }
+
+  private netWorthReportOf(
+    asOf: string,
+    assets: NetWorthReportData['assets'],
+    liabilities: NetWorthReportData['liabilities'],
+    transactions: ReportTransaction[]
+  ): NetWorthReportData {
+    const totalAssets = sumBy(assets, a => a.balance);
+    const totalLiabilities = sumBy(liabilities, l => l.balance);
+
+    return {
+      asOf,
+      totalAssets: round2(totalAssets),
+      totalLiabilities: round2(totalLiabilities),
+      netWorth: round2(totalAssets - totalLiabilities),
+      assets,
+      liabilities,
+      periodCashFlow: this.buildCashFlowReport(transactions).netCashFlow
+    };
+  }
+
+  buildBudgetReport(budgets: StoredBudget[], transactions: ReportTransaction[], period: ReportPeriod): BudgetReportData {
+    const days = Math.max(1, Math.round((Date.parse(period.endDate) - Date.parse(period.startDate)) / DAY_MS) + 1);
+    const periodLengthDays = { weekly: 7, monthly: 365 / 12, yearly: 365 };
+    const expenses = transactions.filter(t => t.type === 'expense');
+    const spentByCategory = groupTotals(expenses, t => t.category.toLowerCase());
+
+    const activeBudgets = budgets.filter(budget => budget.isActive !== false && budget.status !== 'completed');
+    const budgetRows = activeBudgets.map(budget => {
+      const budgeted = round2(budget.amount * (days / periodLengthDays[budget.period || 'monthly']));
+      const spent = round2(spentByCategory.get(budget.category.toLowerCase())?.amount || 0);
+      const percentUsed = budgeted > 0 ? round2((spent / budgeted) * 100) : 0;
+      const status: 'under' | 'near' | 'over' = percentUsed > 100 ? 'over' : percentUsed >= 80 ? 'near' : 'under';
+
+      return {
+        id: budget.id,
+        name: budget.name,
+        category: budget.category,
+        period: budget.period,
+        budgeted,
+        spent,
+        remaining: round2(budgeted - spent),
+        percentUsed,
+        status
+      };
+    });
+
+    const budgetedCategories = new Set(activeBudgets.map(budget => budget.category.toLowerCase()));
+    const unbudgetedSpending = Array.from(spentByCategory)
+      .filter(([category]) => !budgetedCategories.has(category))
+      .map(([category, { amount }]) => ({ category, amount: round2(amount) }))
+      .sort((a, b) => b.amount - a.amount);
+
+    const totalBudgeted = sumBy(budgetRows, b => b.budgeted);
+    const totalSpent = sumBy(budgetRows, b => b.spent);
+
+    return {
+      totalBudgeted: round2(totalBudgeted),
+      totalSpent: round2(totalSpent),
+      totalRemaining: round2(totalBudgeted - totalSpent),
+      overBudgetCount: budgetRows.filter(b => b.status === 'over').length,
+      budgets: budgetRows,
+      unbudgetedSpending
+    };
+  }
+
+  buildCashFlowReport(transactions: ReportTransaction[]): CashFlowReportData {
+    // Transfers and card payments move money between the user's own accounts
+    const income = transactions.filter(t => t.type === 'income');
+    const expenses = transactions.filter(t => t.type === 'expense');
+    const totalIncome = sumBy(income, t => t.amount);
+    const totalExpenses = sumBy(expenses, t => t.amount);
+
+    const months = new Map<string, { income: number; expenses: number }>();
+    [...income, ...expenses].forEach(t => {
+      const month = t.date.slice(0, 7);
+      const current = months.get(month) || { income: 0, expenses: 0 };
+      if (t.type === 'income') current.income += t.amount;
+      else current.expenses += t.amount;
+      months.set(month, current);
+    });
+
+    const toCategoryRows = (items: ReportTransaction[]) =>
+      Array.from(groupTotals(items, t => t.category))
+        .map(([category, { amount }]) => ({ category, amount: round2(amount) }))
+        .sort((a, b) => b.amount - a.amount);
+
+    return {
+      totalIncome: round2(totalIncome),
+      totalExpenses: round2(totalExpenses),
+      netCashFlow: round2(totalIncome - totalExpenses),
+      savingsRate: totalIncome > 0 ? round2(((totalIncome - totalExpenses) / totalIncome) * 100) : 0,
+      byMonth: Array.from(months)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, totals]) => ({
+          month,
+          income: round2(totals.income),
+          expenses: round2(totals.expenses),
+          net: round2(totals.income - totals.expenses)
+        })),
+      incomeByCategory: toCategoryRows(income),
+      expensesByCategory: toCategoryRows(expenses)
+    };
+  }
+}
+
+export const reportService = new ReportService();
@@ -1,6 +1,7 @@
 import { db } from '../config/firebase';
 import { Transaction } from '../../../src/types';
 import { encryptFinancialData, decryptFinancialData } from '../middleware/encryption';
+import { amountInCategory, splitLines } from '../../../shared/transactionSplits';
 
 interface CreditCard {
   id: string;
@@ -99,18 +100,34 @@ export default class RewardProcessingService {
   }
 
   /**
-   * Calculate reward for a transaction
+   * Calculate reward for a transaction, line by line for a split one so each
+   * line earns its own category's rate
    */
   private calculateRewardForTransaction(
     transaction: Transaction,
     card: CreditCard
   ): { amount: number; type: 'cashback' | 'points' | 'miles' } {
-    const categoryReward = card.categoryRewards?.[transaction.category];
+    const lineRewards = splitLines(transaction).map(line => this.calculateRewardForLine(line.amount, line.category, card));
+    // A split earning in more than one currency is reported in the card's own
+    const types = new Set(lineRewards.map(reward => reward.type));
+
+    return {
+      amount: lineRewards.reduce((sum, reward) => sum + reward.amount, 0),
+      type: types.size === 1 ? lineRewards[0].type : card.rewardType
+    };
+  }
+
+  private calculateRewardForLine(
+    amount: number,
+    category: string,
+    card: CreditCard
+  ): { amount: number; type: 'cashback' | 'points' | 'miles' } {
+    const categoryReward = card.categoryRewards?.[category];
     
     if (!categoryReward) {
       // Use default rate if no specific category reward
       return {
-        amount: transaction.amount * (card.rewardRate || 0.01),
+        amount: amount * (card.rewardRate || 0.01),
         type: card.rewardType
       };
     }
@@ -119,11 +136,11 @@ export default class RewardProcessingService {
     
     switch (categoryReward.type) {
       case 'cashback':
-        rewardAmount = transaction.amount * (categoryReward.rate / 100);
+        rewardAmount = amount * (categoryReward.rate / 100);
         break;
       case 'points':
       case 'miles':
-        rewardAmount = transaction.amount * categoryReward.rate;
+        rewardAmount = amount * categoryReward.rate;
         break;
     }
 
@@ -145,16 +162,16 @@ export default class RewardProcessingService {
         return bonus;
       }
 
-      let shouldUpdateProgress = false;
-      let spendingToAdd = 0;
+      // Only the lines in the bonus's category count toward it
+      const qualifyingLines = splitLines(transaction).filter(line => !bonus.category || bonus.category === line.category);
+      const spendingToAdd = qualifyingLines.reduce((sum, line) => sum + line.amount, 0);
 
-      // Check if transaction qualifies for this bonus
-      if (!bonus.category || bonus.category === transaction.category) {
-        shouldUpdateProgress = true;
-        spendingToAdd = transaction.amount;
-      }
+      if (qualifyingLines.length > 0) {
+        const spendingByCategory = { ...bonus.spendingByCategory };
+        qualifyingLines.forEach(line => {
+          spendingByCategory[line.category] = (spendingByCategory[line.category] || 0) + line.amount;
+        });
 
-      if (shouldUpdateProgress) {
         const newCurrentSpending = bonus.currentSpending + spendingToAdd;
         const newStatus = newCurrentSpending >= bonus.spendingRequired 
           ? 'completed' 
@@ -166,10 +183,7 @@ export default class RewardProcessingService {
           ...bonus,
           currentSpending: newCurrentSpending,
           status: newStatus,
-          spendingByCategory: {
-            ...bonus.spendingByCategory,
-            [transaction.category]: (bonus.spendingByCategory?.[transaction.category] || 0) + spendingToAdd
-          },
+          spendingByCategory,
           ...(newStatus === 'completed' && { dateCompleted: new Date().toISOString().split('T')[0] })
         };
       }
@@ -246,10 +260,11 @@ export default class RewardProcessingService {
       for (const budgetDoc of budgetsSnapshot.docs) {
         const budget = decryptFinancialData(budgetDoc.data());
         
-        // Check if transaction category matches budget category
-        if (budget.category === transaction.category) {
+        // Only the lines in the budget's category count against it
+        const spentInCategory = amountInCategory(transaction, budget.category);
+        if (spentInCategory !== 0) {
           const currentSpent = budget.spent || 0;
-          const newSpent = currentSpent + transaction.amount;
+          const newSpent = currentSpent + spentInCategory;
           
           const updates = {
             spent: newSpent,
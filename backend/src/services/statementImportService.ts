@@ -0,0 +1,344 @@
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { toDate } from '../utils/dates';
+import { categorizationRuleService, storedCategorization } from './categorizationRuleService';
+import {
+  CsvColumnMapping,
+  ImportBatchDocument,
+  ImportProfileDocument,
+  StatementAccountType,
+  StatementImportRequest,
+  StatementPreview,
+  StatementPreviewRow
+} from '../models/statementImport';
+import {
+  detectStatementFormat,
+  ExistingStatementTransaction,
+  findDuplicates,
+  ParsedStatement,
+  parseStatement,
+  signedStatementAmount,
+  StatementFormatError,
+  toTransactionType
+} from '../../../shared/statementImport';
+import { applyRules, fillFromRules } from '../../../shared/categorizationRules';
+
+const BATCHES = 'import_batches';
+const PROFILES = 'import_profiles';
+const TRANSACTIONS = 'transactions';
+
+const ACCOUNT_COLLECTIONS: Record<StatementAccountType, string> = {
+  bank: 'bankAccounts',
+  credit: 'creditCards'
+};
+
+export const MAX_STATEMENT_ROWS = 5000;
+
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+export class StatementImportError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'StatementImportError';
+  }
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/**
+ * Imports bank and credit card statements into manual transactions. A file
+ * is previewed first, with each row checked against the account's existing
+ * transactions; importing re-reads the file rather than trusting the preview.
+ * Imported transactions carry `source: 'import'` and their batch's ID, and
+ * undoing a batch deletes them. Categorization rules run on each row as it
+ * is written.
+ */
+export class StatementImportService {
+  async preview(userId: string, request: StatementImportRequest): Promise<StatementPreview> {
+    const { statement } = await this.parse(userId, request);
+    const rows = await this.checkDuplicates(userId, request, statement);
+
+    return {
+      format: statement.format,
+      fileName: request.fileName,
+      accountId: request.accountId,
+      accountType: request.accountType,
+      ...(statement.headers && { headers: statement.headers }),
+      rows,
+      errors: statement.errors,
+      newCount: rows.filter(row => !row.duplicate).length,
+      duplicateCount: rows.filter(row => row.duplicate).length
+    };
+  }
+
+  /**
+   * Imports the rows on the given lines, or every row that isn't a duplicate
+   * when no lines are given. Choosing a duplicate's line imports it anyway.
+   */
+  async import(userId: string, request: StatementImportRequest, lines?: number[]): Promise<ImportBatchDocument> {
+    const { statement, currency } = await this.parse(userId, request);
+    const rows = await this.checkDuplicates(userId, request, statement);
+
+    const chosen = lines ? new Set(lines) : null;
+    const selected = rows.filter(row => (chosen ? chosen.has(row.line) : !row.duplicate));
+    if (selected.length === 0) {
+      throw new StatementImportError('There are no transactions to import', 422);
+    }
+
+    const batchRef = db.collection(BATCHES).doc();
+    const now = new Date();
+    const transactionRefs = selected.map(() => db.collection(TRANSACTIONS).doc());
+    const record: ImportBatchDocument = {
+      id: batchRef.id,
+      userId,
+      accountId: request.accountId,
+      accountType: request.accountType,
+      format: statement.format,
+      fileName: request.fileName,
+      transactionIds: transactionRefs.map(ref => ref.id),
+      importedCount: selected.length,
+      skippedCount: rows.length - selected.length,
+      errorCount: statement.errors.length,
+      status: 'completed',
+      createdAt: now
+    };
+    // The batch is written first so a partly written import can still be undone
+    await batchRef.set(record);
+
+    const rules = await categorizationRuleService.rulesFor(userId);
+    const writes = selected.map((row, index) => ({ ref: transactionRefs[index], row }));
+    for (const group of chunk(writes, WRITE_BATCH_SIZE)) {
+      const batch = db.batch();
+      group.forEach(({ ref, row }) => {
+        const categorization = fillFromRules(
+          {},
+          applyRules(rules, { description: row.description, amount: row.amount, accountId: request.accountId }),
+          row.type === 'income' ? 'income' : 'other'
+        );
+        batch.set(ref, {
+          userId,
+          accountId: request.accountId,
+          accountType: request.accountType,
+          type: row.type,
+          amount: Math.abs(row.amount),
+          description: row.description,
+          ...(row.memo && { notes: row.memo }),
+          ...storedCategorization(categorization),
+          date: new Date(row.date),
+          status: 'cleared',
+          ...(currency && { currency }),
+          source: 'import',
+          importBatchId: batchRef.id,
+          ...(row.fitId && { importFitId: row.fitId }),
+          createdAt: now,
+          updatedAt: now
+        });
+      });
+      await batch.commit();
+    }
+
+    auditLog({
+      event: 'statement_import_completed',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: {
+        batchId: batchRef.id,
+        accountId: request.accountId,
+        format: statement.format,
+        imported: record.importedCount,
+        skipped: record.skippedCount,
+        errors: record.errorCount
+      }
+    });
+
+    return record;
+  }
+
+  // Deletes the batch's transactions, including any edited since the import
+  async undo(userId: string, batchId: string): Promise<ImportBatchDocument> {
+    const batchRef = db.collection(BATCHES).doc(batchId);
+    const doc = await batchRef.get();
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      throw new StatementImportError('Import not found', 404);
+    }
+    const record = this.toBatch(doc.id, doc.data()!);
+    if (record.status === 'undone') {
+      throw new StatementImportError('This import has already been undone', 409);
+    }
+
+    const snapshot = await db.collection(TRANSACTIONS)
+      .where('userId', '==', userId)
+      .where('importBatchId', '==', batchId)
+      .get();
+    for (const group of chunk(snapshot.docs, WRITE_BATCH_SIZE)) {
+      const batch = db.batch();
+      group.forEach(transaction => batch.delete(transaction.ref));
+      await batch.commit();
+    }
+
+    const undoneAt = new Date();
+    await batchRef.update({ status: 'undone', undoneAt });
+
+    auditLog({
+      event: 'statement_import_undone',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { batchId, deleted: snapshot.docs.length }
+    });
+
+    return { ...record, status: 'undone', undoneAt };
+  }
+
+  async listBatches(userId: string, limit = 20): Promise<ImportBatchDocument[]> {
+    const snapshot = await db.collection(BATCHES)
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => this.toBatch(doc.id, doc.data()));
+  }
+
+  async listProfiles(userId: string): Promise<ImportProfileDocument[]> {
+    const snapshot = await db.collection(PROFILES).where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => this.toProfile(doc.id, doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Creates a profile, or replaces the named one's mapping when an ID is given
+  async saveProfile(userId: string, name: string, mapping: CsvColumnMapping, profileId?: string): Promise<ImportProfileDocument> {
+    const now = new Date();
+    const ref = profileId ? db.collection(PROFILES).doc(profileId) : db.collection(PROFILES).doc();
+    let createdAt = now;
+
+    if (profileId) {
+      const existing = await ref.get();
+      if (!existing.exists || existing.data()?.userId !== userId) {
+        throw new StatementImportError('Import profile not found', 404);
+      }
+      createdAt = toDate(existing.data()!.createdAt);
+    }
+
+    const profile: ImportProfileDocument = { id: ref.id, userId, name, mapping, createdAt, updatedAt: now };
+    await ref.set(profile);
+
+    auditLog({
+      event: 'import_profile_saved',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { profileId: ref.id, name }
+    });
+
+    return profile;
+  }
+
+  async deleteProfile(userId: string, profileId: string): Promise<boolean> {
+    const ref = db.collection(PROFILES).doc(profileId);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      return false;
+    }
+    await ref.delete();
+
+    auditLog({
+      event: 'import_profile_deleted',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { profileId }
+    });
+    return true;
+  }
+
+  // The statement read as its format, and the currency of the account it is going into
+  private async parse(userId: string, request: StatementImportRequest): Promise<{ statement: ParsedStatement; currency?: string }> {
+    const account = await db.collection(ACCOUNT_COLLECTIONS[request.accountType]).doc(request.accountId).get();
+    if (!account.exists || account.data()?.userId !== userId) {
+      throw new StatementImportError('Account not found', 404);
+    }
+
+    let mapping = request.mapping;
+    if (!mapping && request.profileId) {
+      const profile = await db.collection(PROFILES).doc(request.profileId).get();
+      if (!profile.exists || profile.data()?.userId !== userId) {
+        throw new StatementImportError('Import profile not found', 404);
+      }
+      mapping = (profile.data() as ImportProfileDocument).mapping;
+    }
+
+    let statement: ParsedStatement;
+    try {
+      const format = request.format ?? detectStatementFormat(request.fileName, request.content);
+      statement = parseStatement(format, request.content, {
+        ...(mapping && { mapping }),
+        ...(request.dateFormat && { dateFormat: request.dateFormat })
+      });
+    } catch (error) {
+      if (error instanceof StatementFormatError) {
+        throw new StatementImportError(error.message, 422);
+      }
+      throw error;
+    }
+    if (statement.rows.length > MAX_STATEMENT_ROWS) {
+      throw new StatementImportError(`Statements can hold at most ${MAX_STATEMENT_ROWS} transactions; split the file and import each part`, 422);
+    }
+
+    return { statement, currency: account.data()?.currency };
+  }
+
+  private async checkDuplicates(userId: string, request: StatementImportRequest, statement: ParsedStatement): Promise<StatementPreviewRow[]> {
+    const snapshot = await db.collection(TRANSACTIONS)
+      .where('userId', '==', userId)
+      .where('accountId', '==', request.accountId)
+      .get();
+
+    const existing: ExistingStatementTransaction[] = snapshot.docs
+      .map(doc => ({ id: doc.id, data: doc.data() }))
+      .filter(({ data }) => (data.accountType || 'bank') === request.accountType)
+      .map(({ id, data }) => ({
+        id,
+        date: toDateKey(toDate(data.date)),
+        amount: signedStatementAmount(data.type || 'expense', Number(data.amount) || 0, request.accountType),
+        description: data.description || '',
+        ...(data.importFitId && { fitId: data.importFitId })
+      }));
+
+    const duplicates = findDuplicates(statement.rows, existing);
+    return statement.rows.map(row => ({
+      ...row,
+      type: toTransactionType(row.amount, request.accountType),
+      duplicate: duplicates.get(row.line) ?? null
+    }));
+  }
+
+  private toBatch(id: string, data: FirebaseFirestore.DocumentData): ImportBatchDocument {
+    return {
+      ...(data as ImportBatchDocument),
+      id,
+      createdAt: toDate(data.createdAt),
+      ...(data.undoneAt && { undoneAt: toDate(data.undoneAt) })
+    };
+  }
+
+  private toProfile(id: string, data: FirebaseFirestore.DocumentData): ImportProfileDocument {
+    return {
+      ...(data as ImportProfileDocument),
+      id,
+      createdAt: toDate(data.createdAt),
+      updatedAt: toDate(data.updatedAt)
+    };
+  }
+}
+
+export const statementImportService = new StatementImportService();
@@ -0,0 +1,235 @@
+import { db } from '../config/firebase';
+import { BaseService } from './baseService';
+import { escapeCsv } from './reportExportService';
+import { auditLog } from '../middleware/auditLogger';
+import { categorizationRuleService, storedCategorization } from './categorizationRuleService';
+import {
+  DividendIncomeSummary,
+  Form8949Report,
+  RealizedGain,
+  StockTransactionModel,
+  StockTransactionType,
+  TaxLot
+} from '../models/stockTransaction';
+import {
+  buildDividendIncome,
+  buildForm8949,
+  buildLotLedger,
+  Form8949Part,
+  LotLedger,
+  TaxLotError
+} from '../../../shared/taxLots';
+
+const COLLECTION = 'stockTransactions';
+const DIVIDEND_CATEGORY = 'dividends';
+
+export type NewStockTransaction = Omit<StockTransactionModel, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export interface LotFilter {
+  stockSymbol?: string;
+  accountId?: string;
+}
+
+// Fields every transaction keeps, and the ones only its type uses
+const COMMON_FIELDS: Array<keyof NewStockTransaction> = [
+  'type', 'stockSymbol', 'stockName', 'shares', 'price', 'fees', 'totalAmount', 'accountId', 'transactionId', 'date'
+];
+const TYPE_FIELDS: Record<StockTransactionType, Array<keyof NewStockTransaction>> = {
+  buy: [],
+  sell: ['costBasisMethod', 'lotSelections'],
+  dividend: ['reinvested', 'qualified'],
+  split: ['ratio'],
+  spin_off: ['ratio', 'newSymbol', 'basisAllocation'],
+  symbol_change: ['newSymbol']
+};
+
+const normalize = (data: NewStockTransaction): NewStockTransaction => {
+  const transaction = Object.fromEntries(
+    [...COMMON_FIELDS, ...TYPE_FIELDS[data.type]]
+      .filter(field => data[field] !== undefined)
+      .map(field => [field, data[field]])
+  ) as NewStockTransaction;
+
+  transaction.stockSymbol = data.stockSymbol.toUpperCase();
+  if (transaction.newSymbol) {
+    transaction.newSymbol = transaction.newSymbol.toUpperCase();
+  }
+  // Sells keep the method they were recorded with, so FIFO is written out rather than implied
+  if (transaction.type === 'sell') {
+    transaction.costBasisMethod = data.costBasisMethod ?? 'fifo';
+    if (transaction.costBasisMethod !== 'specific_id') delete transaction.lotSelections;
+  }
+  return transaction;
+};
+
+const FORM_8949_COLUMNS = [
+  '(a) Description of property',
+  '(b) Date acquired',
+  '(c) Date sold',
+  '(d) Proceeds',
+  '(e) Cost basis',
+  '(f) Code',
+  '(g) Adjustment',
+  '(h) Gain or (loss)'
+];
+
+const csvPart = (title: string, part: Form8949Part): string[] => [
+  escapeCsv(title),
+  FORM_8949_COLUMNS.map(escapeCsv).join(','),
+  ...part.rows.map(row => [
+    row.description, row.dateAcquired, row.dateSold, row.proceeds, row.costBasis, row.adjustmentCode, row.adjustment, row.gain
+  ].map(escapeCsv).join(',')),
+  ['Totals', '', '', part.totals.proceeds, part.totals.costBasis, '', part.totals.adjustment, part.totals.gain].map(escapeCsv).join(',')
+];
+
+/**
+ * Stock buys, sells, dividends and corporate actions, and the tax lots
+ * replayed from them. Nothing about lots is stored: every read rebuilds the
+ * ledger from the user's transactions, and a write is refused if the ledger
+ * would no longer balance.
+ */
+export class StockTransactionService extends BaseService<StockTransactionModel> {
+  constructor() {
+    super(COLLECTION);
+  }
+
+  async getLedger(userId: string): Promise<LotLedger> {
+    return buildLotLedger(await this.getAll(userId));
+  }
+
+  async record(userId: string, data: NewStockTransaction): Promise<StockTransactionModel> {
+    const transaction = normalize(data);
+
+    const existing = await this.getAll(userId);
+    buildLotLedger([...existing, { ...transaction, id: 'pending' }]);
+
+    const id = transaction.type === 'dividend' && !transaction.reinvested && !transaction.transactionId
+      ? await this.recordCashDividend(userId, transaction)
+      : await this.create({ ...transaction, userId } as Omit<StockTransactionModel, 'id'> & { userId: string });
+    return (await this.getById(id, userId))!;
+  }
+
+  /**
+   * Delete a transaction unless later sales or corporate actions depend on
+   * it, along with the income a cash dividend posted. Throws a `TaxLotError`
+   * naming the transaction that would be left without shares.
+   */
+  async remove(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getAll(userId);
+    const removed = existing.find(transaction => transaction.id === id);
+    if (!removed) {
+      return false;
+    }
+    buildLotLedger(existing.filter(transaction => transaction.id !== id));
+
+    const posted = removed.type === 'dividend' && removed.transactionId
+      ? await db.collection('transactions').doc(removed.transactionId).get()
+      : null;
+    if (!posted?.exists || posted.data()?.stockTransactionId !== id || posted.data()?.userId !== userId) {
+      await this.delete(id, userId);
+      return true;
+    }
+
+    const batch = db.batch();
+    batch.delete(db.collection(COLLECTION).doc(id));
+    batch.delete(posted.ref);
+    await batch.commit();
+
+    auditLog({
+      event: `${COLLECTION}_deleted`,
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { id, transactionId: posted.id }
+    });
+    return true;
+  }
+
+  // A cash dividend is written together with the income it pays into the account
+  private async recordCashDividend(userId: string, dividend: NewStockTransaction): Promise<string> {
+    const dividendRef = db.collection(COLLECTION).doc();
+    const transactionRef = db.collection('transactions').doc();
+    const now = new Date();
+    const description = `Dividend from ${dividend.stockName}`;
+    const categorization = await categorizationRuleService.categorize(
+      userId,
+      { description, amount: dividend.totalAmount, accountId: dividend.accountId },
+      { category: DIVIDEND_CATEGORY }
+    );
+
+    const batch = db.batch();
+    batch.set(dividendRef, { ...dividend, userId, transactionId: transactionRef.id, createdAt: now, updatedAt: now });
+    batch.set(transactionRef, {
+      userId,
+      date: dividend.date,
+      amount: dividend.totalAmount,
+      description,
+      ...storedCategorization(categorization),
+      accountId: dividend.accountId,
+      accountType: 'bank',
+      type: 'income',
+      status: 'cleared',
+      stockTransactionId: dividendRef.id,
+      createdAt: now,
+      updatedAt: now
+    });
+    await batch.commit();
+
+    auditLog({
+      event: `${COLLECTION}_created`,
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { id: dividendRef.id, transactionId: transactionRef.id }
+    });
+    return dividendRef.id;
+  }
+
+  async getOpenLots(userId: string, filter: LotFilter = {}): Promise<TaxLot[]> {
+    const { lots } = await this.getLedger(userId);
+    return lots.filter(lot =>
+      (!filter.stockSymbol || lot.stockSymbol === filter.stockSymbol.toUpperCase())
+      && (!filter.accountId || lot.accountId === filter.accountId));
+  }
+
+  async getRealizedGains(userId: string, taxYear?: number): Promise<RealizedGain[]> {
+    const { gains } = await this.getLedger(userId);
+    return taxYear === undefined ? gains : gains.filter(gain => Number(gain.soldDate.slice(0, 4)) === taxYear);
+  }
+
+  async getDividendIncome(userId: string, taxYear: number): Promise<DividendIncomeSummary> {
+    return buildDividendIncome(await this.getAll(userId), taxYear);
+  }
+
+  async getForm8949(userId: string, taxYear: number): Promise<Form8949Report> {
+    const { gains } = await this.getLedger(userId);
+    const report = buildForm8949(gains, taxYear);
+
+    auditLog({
+      event: 'form_8949_generated',
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { taxYear, shortTermRows: report.shortTerm.rows.length, longTermRows: report.longTerm.rows.length }
+    });
+
+    return report;
+  }
+
+  toForm8949Csv(report: Form8949Report): string {
+    return [
+      escapeCsv(`Form 8949 - ${report.taxYear}`),
+      '',
+      ...csvPart('Part I - Short-term (held one year or less)', report.shortTerm),
+      '',
+      ...csvPart('Part II - Long-term (held more than one year)', report.longTerm)
+    ].join('\n') + '\n';
+  }
+}
+
+export { TaxLotError };
+
+export const stockTransactionService = new StockTransactionService();
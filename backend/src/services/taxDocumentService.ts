@@ -36,18 +36,18 @@ export class TaxDocumentService extends BaseService<TaxDocument> {
 
       // Audit log the document upload
       auditLog({
+        event: 'tax_document_uploaded',
         userId,
-        action: 'TAX_DOCUMENT_UPLOAD',
-        resource: 'tax_document',
-        resourceId: result.id,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
         details: {
+          id: result.id,
           taxFormId,
           documentType: document.documentType,
           fileName: document.fileName,
           fileSize: document.fileSize
-        },
-        ipAddress: '',
-        userAgent: ''
+        }
       });
 
       enhancedLogger.logSecurityEvent('TAX_DOCUMENT_UPLOADED', {
@@ -83,16 +83,15 @@ export class TaxDocumentService extends BaseService<TaxDocument> {
       });
 
       auditLog({
+        event: 'tax_documents_read_by_form',
         userId,
-        action: 'TAX_DOCUMENTS_RETRIEVED',
-        resource: 'tax_document',
-        resourceId: taxFormId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
         details: {
           documentCount: decryptedDocuments.length,
           taxFormId
-        },
-        ipAddress: '',
-        userAgent: ''
+        }
       });
 
       return decryptedDocuments;
@@ -117,17 +116,17 @@ export class TaxDocumentService extends BaseService<TaxDocument> {
       await this.delete(documentId);
 
       auditLog({
+        event: 'tax_document_deleted',
         userId,
-        action: 'TAX_DOCUMENT_DELETED',
-        resource: 'tax_document',
-        resourceId: documentId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
         details: {
+          id: documentId,
           taxFormId: document.taxFormId,
           documentType: document.documentType,
           fileName: document.fileName
-        },
-        ipAddress: '',
-        userAgent: ''
+        }
       });
 
       enhancedLogger.logSecurityEvent('TAX_DOCUMENT_DELETED', {
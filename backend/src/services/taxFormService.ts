@@ -1,122 +1,238 @@
 import { BaseService } from './baseService';
-import { TaxFormData } from '../models/taxForm';
+import { db } from '../config/firebase';
+import { TaxFormData, TaxFormHistory } from '../models/taxForm';
+import { encryptFinancialData, decryptFinancialData } from '../middleware/encryption';
 import { auditLog } from '../middleware/auditLogger';
+import { estimateFederalTax, TaxEstimate, TaxEstimateInput, UnsupportedTaxYearError } from '../../../shared/tax';
 
-export class TaxFormService extends BaseService<TaxFormData> {
-  constructor() {
-    super('taxForms');
+const COLLECTION = 'taxForms';
+const HISTORY_COLLECTION = 'taxFormHistory';
+
+// The parts of a return a save may change. The tax year is fixed at creation because
+// documents, accountant grants and the tax rules are all keyed by it.
+const VERSIONED_FIELDS = ['filingStatus', 'personalInfo', 'incomeData', 'deductionsData', 'creditsData', 'status'] as const;
+type VersionedField = typeof VERSIONED_FIELDS[number];
+export type TaxFormChanges = Partial<Pick<TaxFormData, VersionedField>>;
+export type NewTaxForm = Pick<TaxFormData, 'userId' | 'taxYear' | 'lastModified' | VersionedField>;
+
+export class TaxFormError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'TaxFormError';
   }
+}
 
-  async getByTaxYear(userId: string, taxYear: number): Promise<TaxFormData | null> {
-    try {
-      const querySnapshot = await this.db
-        .collection(this.collectionName)
-        .where('userId', '==', userId)
-        .where('taxYear', '==', taxYear)
-        .limit(1)
-        .get();
+export class TaxFormVersionConflictError extends TaxFormError {
+  constructor(public readonly currentVersion: number) {
+    super('The tax form was changed after you loaded it', 409);
+    this.name = 'TaxFormVersionConflictError';
+  }
+}
 
-      if (querySnapshot.empty) {
-        return null;
-      }
+export interface TaxFormAuthor {
+  id: string;
+  role: TaxFormHistory['changedByRole'];
+}
 
-      const doc = querySnapshot.docs[0];
-      const data = { id: doc.id, ...doc.data() } as TaxFormData;
-      
-      auditLog({
-        action: 'tax_form_retrieved',
-        userId,
-        resource: 'taxForm',
-        resourceId: data.id,
-        details: { taxYear }
-      });
+export interface TaxFormSaveOptions {
+  // Defaults to the form's owner
+  author?: TaxFormAuthor;
+  // When given, the save fails with a conflict unless the stored form is still at this version
+  expectedVersion?: number;
+  changeDescription?: string;
+}
 
-      return this.decryptFinancialData(data);
-    } catch (error: any) {
-      auditLog({
-        action: 'tax_form_retrieve_failed',
-        userId,
-        resource: 'taxForm',
-        details: { taxYear, error: error.message }
-      });
-      throw error;
+// Years older than the tax engine's rules get no estimate, so their forms can still be saved
+const estimateOrNull = (form: TaxEstimateInput): TaxEstimate | null => {
+  try {
+    return estimateFederalTax(form);
+  } catch (error) {
+    if (error instanceof UnsupportedTaxYearError) return null;
+    throw error;
+  }
+};
+
+const pickFields = (source: TaxFormChanges, fields: readonly VersionedField[]): TaxFormChanges =>
+  Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+export class TaxFormService extends BaseService<TaxFormData> {
+  constructor() {
+    super(COLLECTION);
+  }
+
+  /**
+   * Create the user's form for a tax year as version 1. There is one form per
+   * user and year, which is what `getByTaxYear` and the accountant portal rely on.
+   */
+  async create(data: NewTaxForm): Promise<string> {
+    if (await this.getByTaxYear(data.userId, data.taxYear)) {
+      throw new TaxFormError(`You already have a tax form for ${data.taxYear}`, 409);
     }
+
+    // createdAt and updatedAt are stamped by the base service
+    const id = await super.create({ ...data, version: 1, estimatedTax: estimateOrNull(data) } as Omit<TaxFormData, 'id'>);
+    const historyRef = db.collection(HISTORY_COLLECTION).doc();
+    const entry: TaxFormHistory = {
+      id: historyRef.id,
+      userId: data.userId,
+      taxFormId: id,
+      changeDescription: 'Created the form',
+      changedBy: data.userId,
+      changedByRole: 'client',
+      changeDate: new Date().toISOString(),
+      version: 1,
+      previousData: {},
+      newData: pickFields(data, VERSIONED_FIELDS)
+    };
+    await historyRef.set(entry);
+    return id;
   }
 
-  async submitToAccountant(id: string, userId: string, accountantEmail: string): Promise<void> {
+  async update(id: string, userId: string, data: Partial<TaxFormData>, options: TaxFormSaveOptions = {}): Promise<void> {
+    await this.save(id, userId, data, options);
+  }
+
+  /**
+   * Apply changes to a form and record them as its next version. The version
+   * check, the form write and the history entry happen in one transaction, so
+   * two saves based on the same version cannot both succeed. A save that
+   * changes nothing returns the form as it is, without a new version.
+   */
+  async save(id: string, userId: string, data: Partial<TaxFormData>, options: TaxFormSaveOptions = {}): Promise<TaxFormData> {
+    const author = options.author ?? { id: userId, role: 'client' as const };
+    const formRef = db.collection(COLLECTION).doc(id);
+    const historyRef = db.collection(HISTORY_COLLECTION).doc();
+
     try {
-      // Update tax form status
-      await this.update(id, userId, { 
-        status: 'submitted_to_accountant',
-        lastModified: new Date().toISOString()
+      const { form, changedFields } = await db.runTransaction(async transaction => {
+        const doc = await transaction.get(formRef);
+        if (!doc.exists || doc.data()?.userId !== userId) {
+          throw new TaxFormError('Tax form not found', 404);
+        }
+
+        const previous = { id: doc.id, ...decryptFinancialData(doc.data()) } as TaxFormData;
+        // Forms created before versioning start from 0, so their first save is version 1
+        const currentVersion = previous.version ?? 0;
+        if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+          throw new TaxFormVersionConflictError(currentVersion);
+        }
+
+        const changes = data as TaxFormChanges;
+        const fields = VERSIONED_FIELDS.filter(field =>
+          changes[field] !== undefined && JSON.stringify(changes[field]) !== JSON.stringify(previous[field]));
+        if (fields.length === 0) {
+          return { form: previous, changedFields: fields };
+        }
+
+        const now = new Date();
+        const version = currentVersion + 1;
+        const newData = pickFields(changes, fields);
+        const stored = {
+          ...newData,
+          version,
+          lastModified: data.lastModified ?? now.toISOString(),
+          estimatedTax: estimateOrNull({ ...previous, ...newData })
+        };
+        transaction.update(formRef, { ...encryptFinancialData(stored), updatedAt: now });
+
+        const entry: TaxFormHistory = {
+          id: historyRef.id,
+          userId,
+          taxFormId: id,
+          changeDescription: options.changeDescription?.trim() || `Updated ${fields.join(', ')}`,
+          changedBy: author.id,
+          changedByRole: author.role,
+          changeDate: now.toISOString(),
+          version,
+          previousData: pickFields(previous, fields),
+          newData
+        };
+        transaction.set(historyRef, entry);
+
+        return { form: { ...previous, ...stored }, changedFields: fields };
       });
 
       auditLog({
-        action: 'tax_form_submitted_to_accountant',
+        event: `${COLLECTION}_updated`,
         userId,
-        resource: 'taxForm',
-        resourceId: id,
-        details: { accountantEmail }
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { id, version: form.version, fields: changedFields, changedBy: author.id, changedByRole: author.role }
       });
-    } catch (error: any) {
+
+      return form;
+    } catch (error: unknown) {
       auditLog({
-        action: 'tax_form_submit_failed',
+        event: `${COLLECTION}_update_failed`,
         userId,
-        resource: 'taxForm',
-        resourceId: id,
-        details: { error: error.message }
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { id, error: error instanceof Error ? error.message : String(error) }
       });
       throw error;
     }
   }
 
-  async getClientTaxForms(accountantId: string, clientId: string, taxYear?: number): Promise<TaxFormData[]> {
+  // The form's history goes with it
+  async delete(id: string, userId: string): Promise<void> {
+    await super.delete(id, userId);
+    const history = await db.collection(HISTORY_COLLECTION)
+      .where('userId', '==', userId)
+      .where('taxFormId', '==', id)
+      .get();
+    await Promise.all(history.docs.map(doc => doc.ref.delete()));
+  }
+
+  // Every version of the form, newest first
+  async getHistory(id: string, userId: string): Promise<TaxFormHistory[]> {
+    const snapshot = await db.collection(HISTORY_COLLECTION)
+      .where('userId', '==', userId)
+      .where('taxFormId', '==', id)
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ ...(doc.data() as TaxFormHistory), id: doc.id }))
+      .sort((a, b) => b.version - a.version || b.changeDate.localeCompare(a.changeDate));
+  }
+
+  async getByTaxYear(userId: string, taxYear: number): Promise<TaxFormData | null> {
     try {
-      // First verify accountant has access to this client
-      const accessDoc = await this.db
-        .collection('accountantAccess')
-        .where('accountantId', '==', accountantId)
-        .where('clientId', '==', clientId)
-        .where('status', '==', 'approved')
+      const querySnapshot = await db
+        .collection(COLLECTION)
+        .where('userId', '==', userId)
+        .where('taxYear', '==', taxYear)
         .limit(1)
         .get();
 
-      if (accessDoc.empty) {
-        throw new Error('Access denied: No approved access to client data');
-      }
-
-      let query = this.db
-        .collection(this.collectionName)
-        .where('userId', '==', clientId);
-
-      if (taxYear) {
-        query = query.where('taxYear', '==', taxYear);
+      const doc = querySnapshot.docs[0];
+      if (!doc) {
+        return null;
       }
 
-      const querySnapshot = await query.get();
-      const taxForms = querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as TaxFormData));
-
       auditLog({
-        action: 'accountant_accessed_client_tax_forms',
-        userId: accountantId,
-        resource: 'taxForm',
-        details: { clientId, taxYear, formsCount: taxForms.length }
+        event: `${COLLECTION}_read_by_tax_year`,
+        userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { id: doc.id, taxYear }
       });
 
-      return taxForms.map(form => this.decryptFinancialData(form));
-    } catch (error: any) {
+      return { id: doc.id, ...decryptFinancialData(doc.data()) } as TaxFormData;
+    } catch (error: unknown) {
       auditLog({
-        action: 'accountant_access_denied',
-        userId: accountantId,
-        resource: 'taxForm',
-        details: { clientId, error: error.message }
+        event: `${COLLECTION}_read_by_tax_year_failed`,
+        userId,
+        ip: 'server',
+        userAgent: 'server',
+        timestamp: new Date(),
+        details: { taxYear, error: error instanceof Error ? error.message : String(error) }
       });
       throw error;
     }
   }
 }
 
-export const taxFormService = new TaxFormService();
\ No newline at end of file
+export const taxFormService = new TaxFormService();
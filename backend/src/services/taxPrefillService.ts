@@ -0,0 +1,557 @@
+import { createHash } from 'crypto';
+import { db } from '../config/firebase';
+import { auditLog } from '../middleware/auditLogger';
+import { BaseService } from './baseService';
+import { reportService } from './reportService';
+import { incomeSourceService } from './incomeSourceService';
+import { insuranceService } from './insuranceService';
+import { fxRateService } from './fxRateService';
+import { stockTransactionService } from './stockTransactionService';
+import { IncomeSource } from '../models/incomeSource';
+import { InsurancePolicy } from '../models/insurancePolicy';
+import { TaxDocument } from '../models/taxForm';
+import { ReportPeriod, ReportTransaction } from '../models/report';
+import { StockTransactionModel } from '../models/stockTransaction';
+import { buildDividendIncome } from '../../../shared/taxLots';
+import { splitLineKey } from '../../../shared/transactionSplits';
+import {
+  BusinessExpenseProposal,
+  CharitableContributionProposal,
+  Form1099IncomeProposal,
+  TaxPrefillDecision,
+  TaxPrefillKind,
+  TaxPrefillProposal,
+  TaxPrefillSource,
+  TaxPrefillStatus,
+  W2IncomeProposal
+} from '../models/taxPrefill';
+
+type Form1099Type = Form1099IncomeProposal['entry']['type'];
+
+const DECISIONS = 'tax_prefill_decisions';
+
+// Federal forms are filed in dollars, whatever currency the accounts are in
+const TAX_CURRENCY = 'USD';
+
+const CHARITY_PATTERN = /charit|donat|tithe|church|nonprofit|non-profit/i;
+const BUSINESS_TAG = 'business';
+
+const SELF_EMPLOYED_TYPES: IncomeSource['type'][] = ['freelance', 'gig', 'business'];
+
+// Income source types that are reported on a 1099; salary goes on a W-2 and gifts aren't taxable
+const FORM_1099_TYPES: Partial<Record<IncomeSource['type'], Form1099Type>> = {
+  freelance: '1099-NEC',
+  gig: '1099-NEC',
+  business: '1099-NEC',
+  investment: '1099-DIV',
+  government: '1099-G',
+  other: '1099-MISC'
+};
+
+const KIND_ORDER: TaxPrefillKind[] = ['w2Income', 'form1099Income', 'charitableContribution', 'businessExpense'];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const sumAmounts = (transactions: ReportTransaction[]): number =>
+  round2(transactions.reduce((sum, t) => sum + t.amount, 0));
+
+const proposalId = (taxYear: number, kind: TaxPrefillKind, key: string): string =>
+  createHash('sha256').update(`${taxYear}:${kind}:${key}`).digest('hex').slice(0, 20);
+
+// Report rows are split lines, so a split transaction's lines are matched and proposed one by one
+const lineKey = (t: ReportTransaction): string => splitLineKey(t.id, t.splitIndex);
+
+const isSplitLine = (t: ReportTransaction): boolean => t.splitIndex !== undefined;
+
+const uniqueIds = (transactions: ReportTransaction[]): string[] => Array.from(new Set(transactions.map(t => t.id)));
+
+const transactionSource = (t: ReportTransaction): TaxPrefillSource => ({
+  type: 'transaction',
+  id: t.id,
+  label: t.merchant || t.description || t.category,
+  date: t.date,
+  amount: t.amount
+});
+
+const documentSource = (doc: TaxDocument): TaxPrefillSource => ({
+  type: 'taxDocument',
+  id: doc.id,
+  label: doc.description || doc.fileName
+});
+
+const documentText = (doc: TaxDocument): string => `${doc.description || ''} ${doc.fileName || ''}`.toLowerCase();
+
+const documentMentions = (doc: TaxDocument, source: IncomeSource): boolean =>
+  [source.employer, source.name].some(name => !!name && name.trim().length >= 3 && documentText(doc).includes(name.trim().toLowerCase()));
+
+const form1099TypeFromText = (text: string): Form1099Type => {
+  const match = text.match(/1099[-\s]?(int|div|nec|misc|g|r)\b/i);
+  return match ? (`1099-${match[1].toUpperCase()}` as Form1099Type) : '1099-MISC';
+};
+
+/**
+ * Proposes tax form entries from what the app already knows about the year:
+ * income sources and the deposits matched to them, charitable and business
+ * transactions, insurance premiums and uploaded W-2/1099 documents. Nothing
+ * is written to the tax form here; the user accepts or dismisses each
+ * proposal and the decision is remembered so it isn't offered again.
+ */
+export class TaxPrefillService {
+  private documentService = new BaseService<TaxDocument>('tax_documents');
+
+  async getProposals(userId: string, taxYear: number): Promise<TaxPrefillProposal[]> {
+    const period: ReportPeriod = {
+      preset: 'custom',
+      label: `${taxYear}`,
+      startDate: `${taxYear}-01-01`,
+      endDate: `${taxYear}-12-31`
+    };
+    const convert = await fxRateService.getConverter(TAX_CURRENCY, period.startDate, period.endDate);
+
+    const [transactions, incomeSources, documents, policies, stockTransactions, decisions] = await Promise.all([
+      reportService.loadTransactions(userId, period, convert),
+      incomeSourceService.getAll(userId),
+      this.documentService.getAll(userId),
+      insuranceService.getUserPolicies(userId),
+      stockTransactionService.getAll(userId),
+      this.getDecisions(userId, taxYear)
+    ]);
+
+    // Deposits of dividends recorded in the portfolio are reported by the dividend proposals instead
+    const dividendDeposits = new Set(stockTransactions
+      .filter(t => t.type === 'dividend' && t.transactionId)
+      .map(t => t.transactionId!));
+    const deposits = transactions.filter(t => !dividendDeposits.has(t.id));
+
+    // W-2s and 1099s for a year usually arrive early the following year
+    const yearDocuments = documents.filter(doc =>
+      (doc.documentType === 'w2' || doc.documentType === '1099') &&
+      [`${taxYear}`, `${taxYear + 1}`].includes(String(doc.uploadDate || '').slice(0, 4)));
+
+    const proposals: TaxPrefillProposal[] = [
+      ...this.incomeProposals(taxYear, deposits, incomeSources, yearDocuments),
+      ...this.dividendProposals(taxYear, stockTransactions),
+      ...this.charitableProposals(taxYear, transactions),
+      ...this.businessExpenseProposals(taxYear, transactions, incomeSources, policies)
+    ];
+
+    return proposals
+      .map(proposal => ({ ...proposal, status: decisions.get(proposal.id) ?? 'pending' }))
+      .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || b.amount - a.amount);
+  }
+
+  /**
+   * Record that the user accepted or dismissed a proposal. Returns null when
+   * the proposal no longer exists, e.g. because its transactions were deleted.
+   */
+  async decide(
+    userId: string,
+    taxYear: number,
+    id: string,
+    status: TaxPrefillDecision['status']
+  ): Promise<TaxPrefillProposal | null> {
+    const proposal = (await this.getProposals(userId, taxYear)).find(candidate => candidate.id === id);
+    if (!proposal) {
+      return null;
+    }
+
+    const decision: TaxPrefillDecision = { userId, taxYear, proposalId: id, status, decidedAt: new Date() };
+    await db.collection(DECISIONS).doc(`${userId}_${taxYear}_${id}`).set(decision);
+
+    auditLog({
+      event: `tax_prefill_${status}`,
+      userId,
+      ip: 'server',
+      userAgent: 'server',
+      timestamp: new Date(),
+      details: { taxYear, proposalId: id, kind: proposal.kind, transactionCount: proposal.transactionIds.length }
+    });
+
+    return { ...proposal, status };
+  }
+
+  private async getDecisions(userId: string, taxYear: number): Promise<Map<string, TaxPrefillStatus>> {
+    const snapshot = await db.collection(DECISIONS)
+      .where('userId', '==', userId)
+      .where('taxYear', '==', taxYear)
+      .get();
+    return new Map(snapshot.docs.map(doc => {
+      const decision = doc.data() as TaxPrefillDecision;
+      return [decision.proposalId, decision.status];
+    }));
+  }
+
+  /**
+   * Deposits are matched to income sources by their linked transactions
+   * first, then the income source a categorization rule or split line set,
+   * then payer rules, so a deposit is never counted for two sources. Linking
+   * a whole transaction doesn't claim the lines of a split one.
+   */
+  private matchIncome(transactions: ReportTransaction[], incomeSources: IncomeSource[]): Map<string, ReportTransaction[]> {
+    const deposits = transactions.filter(t => t.type === 'income');
+    const claimed = new Map<string, string>();
+
+    incomeSources.forEach(source => {
+      deposits
+        .filter(t => !claimed.has(lineKey(t)) && !isSplitLine(t) && (source.linkedTransactionIds || []).includes(t.id))
+        .forEach(t => claimed.set(lineKey(t), source.id));
+    });
+    deposits
+      .filter(t => !claimed.has(lineKey(t)) && t.incomeSourceId && incomeSources.some(source => source.id === t.incomeSourceId))
+      .forEach(t => claimed.set(lineKey(t), t.incomeSourceId!));
+    incomeSources.filter(source => source.isActive).forEach(source => {
+      deposits
+        .filter(t => !claimed.has(lineKey(t)) &&
+          (source.payerRules || []).some(rule => rule.isActive && incomeSourceService.matchesRule(t, rule)))
+        .forEach(t => claimed.set(lineKey(t), source.id));
+    });
+
+    const bySource = new Map<string, ReportTransaction[]>();
+    deposits.forEach(t => {
+      const sourceId = claimed.get(lineKey(t));
+      if (sourceId) bySource.set(sourceId, [...(bySource.get(sourceId) || []), t]);
+    });
+    return bySource;
+  }
+
+  private incomeProposals(
+    taxYear: number,
+    transactions: ReportTransaction[],
+    incomeSources: IncomeSource[],
+    documents: TaxDocument[]
+  ): Array<W2IncomeProposal | Form1099IncomeProposal> {
+    const bySource = this.matchIncome(transactions, incomeSources);
+    const usedDocuments = new Set<string>();
+    const proposals: Array<W2IncomeProposal | Form1099IncomeProposal> = [];
+
+    incomeSources.forEach(source => {
+      const isSalary = source.type === 'salary';
+      const formType = FORM_1099_TYPES[source.type];
+      if (!isSalary && !formType) return;
+
+      const deposits = bySource.get(source.id) || [];
+      const sourceDocuments = documents.filter(doc =>
+        !usedDocuments.has(doc.id) &&
+        doc.documentType === (isSalary ? 'w2' : '1099') &&
+        documentMentions(doc, source));
+      if (deposits.length === 0 && sourceDocuments.length === 0) return;
+      sourceDocuments.forEach(doc => usedDocuments.add(doc.id));
+
+      const amount = sumAmounts(deposits);
+      const payer = source.employer || source.name;
+      const transactionIds = uniqueIds(deposits);
+      const documentIds = sourceDocuments.map(doc => doc.id);
+      const sources: TaxPrefillSource[] = [
+        { type: 'incomeSource', id: source.id, label: source.name },
+        ...sourceDocuments.map(documentSource),
+        ...deposits.map(transactionSource)
+      ];
+
+      if (isSalary) {
+        const id = proposalId(taxYear, 'w2Income', `incomeSource:${source.id}`);
+        proposals.push({
+          id,
+          taxYear,
+          kind: 'w2Income',
+          summary: `W-2 from ${payer}`,
+          amount,
+          confidence: sourceDocuments.length > 0 ? 'medium' : 'low',
+          notes: 'Deposits are take-home pay. Replace wages and withholding with boxes 1 and 2 of the W-2.',
+          transactionIds,
+          sources,
+          status: 'pending',
+          entry: {
+            id,
+            employer: payer,
+            ein: '',
+            wages: amount,
+            federalTaxWithheld: 0,
+            socialSecurityWages: amount,
+            socialSecurityTaxWithheld: 0,
+            medicareWages: amount,
+            medicareTaxWithheld: 0,
+            stateTaxWithheld: 0,
+            stateWages: amount,
+            state: '',
+            sourceTransactionIds: transactionIds,
+            sourceDocumentIds: documentIds
+          }
+        });
+        return;
+      }
+
+      const type = source.type === 'investment' && /interest|savings/i.test(`${source.name} ${source.description || ''}`)
+        ? '1099-INT'
+        : formType!;
+      const id = proposalId(taxYear, 'form1099Income', `incomeSource:${source.id}`);
+      proposals.push({
+        id,
+        taxYear,
+        kind: 'form1099Income',
+        summary: `${type} from ${payer}`,
+        amount,
+        confidence: sourceDocuments.length > 0 ? 'high' : 'medium',
+        notes: 'Check the total against the 1099 you receive; payments under $600 may not be reported.',
+        transactionIds,
+        sources,
+        status: 'pending',
+        entry: {
+          id,
+          type,
+          payer,
+          ein: '',
+          amount,
+          federalTaxWithheld: 0,
+          stateTaxWithheld: 0,
+          description: source.description || source.name,
+          sourceTransactionIds: transactionIds,
+          sourceDocumentIds: documentIds
+        }
+      });
+    });
+
+    // Uploaded forms that don't match any income source still get a placeholder to fill in
+    documents.filter(doc => !usedDocuments.has(doc.id)).forEach(doc => {
+      const name = doc.description || doc.fileName.replace(/\.[^.]+$/, '');
+      const notes = 'Enter the amounts from the uploaded document.';
+      if (doc.documentType === 'w2') {
+        const id = proposalId(taxYear, 'w2Income', `taxDocument:${doc.id}`);
+        proposals.push({
+          id,
+          taxYear,
+          kind: 'w2Income',
+          summary: `W-2 from ${name}`,
+          amount: 0,
+          confidence: 'low',
+          notes,
+          transactionIds: [],
+          sources: [documentSource(doc)],
+          status: 'pending',
+          entry: {
+            id,
+            employer: name,
+            ein: '',
+            wages: 0,
+            federalTaxWithheld: 0,
+            socialSecurityWages: 0,
+            socialSecurityTaxWithheld: 0,
+            medicareWages: 0,
+            medicareTaxWithheld: 0,
+            stateTaxWithheld: 0,
+            stateWages: 0,
+            state: '',
+            sourceTransactionIds: [],
+            sourceDocumentIds: [doc.id]
+          }
+        });
+        return;
+      }
+
+      const type = form1099TypeFromText(documentText(doc));
+      const id = proposalId(taxYear, 'form1099Income', `taxDocument:${doc.id}`);
+      proposals.push({
+        id,
+        taxYear,
+        kind: 'form1099Income',
+        summary: `${type} from ${name}`,
+        amount: 0,
+        confidence: 'low',
+        notes,
+        transactionIds: [],
+        sources: [documentSource(doc)],
+        status: 'pending',
+        entry: {
+          id,
+          type,
+          payer: name,
+          ein: '',
+          amount: 0,
+          federalTaxWithheld: 0,
+          stateTaxWithheld: 0,
+          description: doc.description || '',
+          sourceTransactionIds: [],
+          sourceDocumentIds: [doc.id]
+        }
+      });
+    });
+
+    return proposals;
+  }
+
+  // One 1099-DIV per holding that paid dividends in the year, reinvested or not
+  private dividendProposals(taxYear: number, stockTransactions: StockTransactionModel[]): Form1099IncomeProposal[] {
+    const byId = new Map(stockTransactions.map(t => [t.id, t]));
+
+    return buildDividendIncome(stockTransactions, taxYear).rows.map(row => {
+      const dividends = row.dividendIds.map(id => byId.get(id)!);
+      const transactionIds = dividends.flatMap(d => (d.transactionId ? [d.transactionId] : []));
+      const id = proposalId(taxYear, 'form1099Income', `dividends:${row.stockSymbol}`);
+      return {
+        id,
+        taxYear,
+        kind: 'form1099Income',
+        summary: `1099-DIV from ${row.stockName}`,
+        amount: row.ordinaryDividends,
+        confidence: 'high',
+        notes: row.qualifiedDividends > 0
+          ? `$${row.qualifiedDividends.toLocaleString()} of this is qualified and is added to qualified dividends. Check the totals against your broker's 1099-DIV.`
+          : "Check the totals against your broker's 1099-DIV.",
+        qualifiedDividends: row.qualifiedDividends,
+        transactionIds,
+        sources: dividends.map(d => ({
+          type: 'stockTransaction',
+          id: d.id,
+          label: d.reinvested ? `${row.stockSymbol} dividend (reinvested)` : `${row.stockSymbol} dividend`,
+          date: d.date,
+          amount: d.totalAmount
+        })),
+        status: 'pending',
+        entry: {
+          id,
+          type: '1099-DIV',
+          payer: row.stockName,
+          ein: '',
+          amount: row.ordinaryDividends,
+          federalTaxWithheld: 0,
+          stateTaxWithheld: 0,
+          description: `Dividends on ${row.stockSymbol}`,
+          sourceTransactionIds: transactionIds,
+          sourceDocumentIds: []
+        }
+      };
+    });
+  }
+
+  private charitableProposals(taxYear: number, transactions: ReportTransaction[]): CharitableContributionProposal[] {
+    return transactions
+      .filter(t => t.type === 'expense')
+      .map(t => {
+        const labelled = [t.category, t.subcategory || '', ...(t.tags || [])].some(label => CHARITY_PATTERN.test(label));
+        // The description is the whole transaction's, so only the labels pick out a split line
+        const described = !isSplitLine(t) && CHARITY_PATTERN.test(`${t.description} ${t.merchant || ''}`);
+        return { t, labelled, described };
+      })
+      .filter(({ labelled, described }) => labelled || described)
+      .map(({ t, labelled }): CharitableContributionProposal => {
+        const id = proposalId(taxYear, 'charitableContribution', `transaction:${lineKey(t)}`);
+        const organization = t.merchant || t.description;
+        return {
+          id,
+          taxYear,
+          kind: 'charitableContribution',
+          summary: organization,
+          amount: round2(t.amount),
+          confidence: labelled ? 'high' : 'medium',
+          ...(t.amount >= 250 && { notes: 'Gifts of $250 or more need a written acknowledgment from the charity.' }),
+          transactionIds: [t.id],
+          sources: [transactionSource(t)],
+          status: 'pending',
+          entry: {
+            id,
+            organization,
+            amount: round2(t.amount),
+            type: 'cash',
+            dateOfContribution: t.date,
+            sourceTransactionIds: [t.id]
+          }
+        };
+      });
+  }
+
+  /**
+   * Expenses tagged "business" or paid from an account a self-employment
+   * source pays into, plus premiums for policies other than life insurance.
+   * A premium is a transaction linked to the policy or a line that names it.
+   * Nothing is proposed without a self-employment income source to file them under.
+   */
+  private businessExpenseProposals(
+    taxYear: number,
+    transactions: ReportTransaction[],
+    incomeSources: IncomeSource[],
+    policies: InsurancePolicy[]
+  ): BusinessExpenseProposal[] {
+    const businesses = incomeSources.filter(source => SELF_EMPLOYED_TYPES.includes(source.type));
+    if (businesses.length === 0) return [];
+
+    const businessForAccount = new Map<string, IncomeSource>();
+    businesses.forEach(source => (source.payerRules || [])
+      .filter(rule => rule.isActive && rule.ruleType === 'accountBased' && rule.accountId)
+      .forEach(rule => businessForAccount.set(rule.accountId!, source)));
+
+    const expenses = transactions.filter(t => t.type === 'expense');
+    const isPremiumFor = (policy: InsurancePolicy, t: ReportTransaction): boolean =>
+      t.insurancePolicyId === policy.id || (!isSplitLine(t) && (policy.linkedTransactionIds || []).includes(t.id));
+    const proposals: BusinessExpenseProposal[] = [];
+
+    expenses
+      .filter(t => !policies.some(policy => isPremiumFor(policy, t)) && !CHARITY_PATTERN.test(t.category))
+      .forEach(t => {
+        const tagged = (t.tags || []).some(tag => tag.toLowerCase() === BUSINESS_TAG);
+        const business = businessForAccount.get(t.accountId) || (tagged ? businesses[0] : undefined);
+        if (!business) return;
+
+        const id = proposalId(taxYear, 'businessExpense', `transaction:${lineKey(t)}`);
+        const description = t.merchant || t.description;
+        proposals.push({
+          id,
+          taxYear,
+          kind: 'businessExpense',
+          businessName: business.name,
+          summary: `${description} for ${business.name}`,
+          amount: round2(t.amount),
+          confidence: tagged ? 'high' : 'medium',
+          transactionIds: [t.id],
+          sources: [transactionSource(t)],
+          status: 'pending',
+          entry: {
+            id,
+            category: t.category,
+            description,
+            amount: round2(t.amount),
+            dateIncurred: t.date,
+            sourceTransactionIds: [t.id]
+          }
+        });
+      });
+
+    policies.filter(policy => policy.type !== 'life').forEach(policy => {
+      const premiums = expenses.filter(t => isPremiumFor(policy, t));
+      if (premiums.length === 0) return;
+
+      const id = proposalId(taxYear, 'businessExpense', `insurancePolicy:${policy.id}`);
+      const amount = sumAmounts(premiums);
+      const transactionIds = uniqueIds(premiums);
+      const business = businesses[0];
+      proposals.push({
+        id,
+        taxYear,
+        kind: 'businessExpense',
+        businessName: business.name,
+        summary: `${policy.provider} ${policy.policyName} premiums`,
+        amount,
+        confidence: 'low',
+        notes: policy.type === 'health'
+          ? 'Self-employed health insurance is usually an adjustment to income, not a business expense. Keep it here only if the business holds the policy.'
+          : 'Only the business share of this premium is deductible.',
+        transactionIds,
+        sources: [
+          { type: 'insurancePolicy', id: policy.id, label: policy.policyName },
+          ...premiums.map(transactionSource)
+        ],
+        status: 'pending',
+        entry: {
+          id,
+          category: 'insurance',
+          description: `${policy.provider} ${policy.policyName}`,
+          amount,
+          dateIncurred: premiums[premiums.length - 1].date,
+          sourceTransactionIds: transactionIds
+        }
+      });
+    });
+
+    return proposals;
+  }
+}
+
+export const taxPrefillService = new TaxPrefillService();
@@ -0,0 +1,199 @@
+import { BaseService } from './baseService';
+import FirebaseTransactionService from './firebaseTransactionService';
+import CreditCardMappingService from './creditCardMappingService';
+import { PlaidTransactionAdapter } from './plaidTransactionAdapter';
+import { TransactionModel } from '../models/bankConnection';
+import { Transaction } from '../../../src/types';
+import { toDate } from '../utils/dates';
+import { splitLines } from '../../../shared/transactionSplits';
+import {
+  compareSearchPositions,
+  matchesSearch,
+  narrowAmount,
+  narrowDates,
+  parseSearchQuery,
+  SearchableTransaction,
+  SearchPosition,
+  searchPosition,
+  SearchSource,
+  SearchStatus,
+  SearchType,
+  TransactionSearchFilters
+} from '../../../shared/transactionSearch';
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 200;
+
+export class TransactionSearchError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'TransactionSearchError';
+  }
+}
+
+// A query in the search syntax, narrowed further by any of the other fields
+export interface TransactionSearchRequest {
+  q?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string;
+  endDate?: string;
+  tags?: string[];
+  accountId?: string;
+  category?: string;
+  status?: SearchStatus;
+  source?: SearchSource;
+  type?: SearchType;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TransactionSearchPage {
+  transactions: Transaction[];
+  nextCursor: string | null; // Pass back as `cursor` for the next page; null on the last page
+}
+
+type StoredTransaction = Omit<Transaction, 'date'> & { date: unknown };
+
+interface SearchCandidate {
+  searchable: SearchableTransaction;
+  position: SearchPosition;
+  transaction: Transaction;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const unique = (values: string[]): string[] => Array.from(new Set(values.filter(Boolean)));
+
+// Cursors are opaque to clients: the position of the last transaction on the page
+const encodeCursor = (position: SearchPosition): string =>
+  Buffer.from(JSON.stringify([position.date, position.key])).toString('base64url');
+
+const decodeCursor = (cursor: string): SearchPosition => {
+  try {
+    const [date, key] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof date === 'string' && typeof key === 'string') {
+      return { date, key };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new TransactionSearchError('The cursor is not valid; start the search again without it', 400);
+};
+
+const searchableOf = (transaction: Transaction, source: SearchSource, accountNames: Map<string, string>): SearchableTransaction => {
+  const lines = splitLines({ ...transaction, amount: Number(transaction.amount) || 0, category: transaction.category || 'other' });
+  const merchant = transaction.merchantName || transaction.merchant;
+  const accountName = accountNames.get(transaction.accountId);
+  return {
+    id: transaction.id,
+    date: transaction.date,
+    amount: Number(transaction.amount) || 0,
+    description: transaction.description || '',
+    ...(merchant && { merchant }),
+    ...(transaction.notes && { notes: transaction.notes }),
+    tags: unique([...(transaction.tags || []), ...lines.flatMap(line => line.tags || [])]),
+    categories: unique(lines.map(line => line.category)),
+    accountId: transaction.accountId || '',
+    ...(accountName && { accountName }),
+    status: transaction.status || 'cleared',
+    source,
+    type: transaction.type || 'expense'
+  };
+};
+
+export class TransactionSearchService {
+  private manualTransactionService = new BaseService<StoredTransaction>('transactions');
+  private bankAccountService = new BaseService<{ id: string; name: string }>('bankAccounts');
+  private creditCardService = new BaseService<{ id: string; name: string }>('creditCards');
+  private plaidTransactionService = new FirebaseTransactionService();
+  private mappingService = new CreditCardMappingService();
+  private plaidAdapter = new PlaidTransactionAdapter();
+
+  /**
+   * Parse the query and fold in the request's other fields. Query errors are
+   * reported together rather than searching for something the user didn't mean.
+   */
+  filtersFor(request: TransactionSearchRequest): TransactionSearchFilters {
+    const { filters, errors } = parseSearchQuery(request.q || '');
+    if (errors.length > 0) {
+      throw new TransactionSearchError(errors.join('; '), 400);
+    }
+
+    narrowAmount(filters, request.minAmount, request.maxAmount);
+    narrowDates(filters, request.startDate, request.endDate);
+    filters.tags.push(...(request.tags || []).map(tag => tag.toLowerCase()));
+    if (request.accountId) filters.accounts.push(request.accountId.toLowerCase());
+    if (request.category) filters.categories.push(request.category.toLowerCase());
+    if (request.status) filters.statuses.push(request.status);
+    if (request.source) filters.sources.push(request.source);
+    if (request.type) filters.types.push(request.type);
+    return filters;
+  }
+
+  /**
+   * One page of the user's manual and Plaid transactions that match, newest
+   * first. Pages follow each other by position rather than offset, so
+   * transactions added while paging don't shift or repeat later pages.
+   */
+  async search(userId: string, request: TransactionSearchRequest): Promise<TransactionSearchPage> {
+    const filters = this.filtersFor(request);
+    const after = request.cursor ? decodeCursor(request.cursor) : null;
+    const limit = Math.min(Math.max(Math.floor(request.limit ?? DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+
+    const matches = (await this.loadCandidates(userId, filters))
+      .filter(candidate => matchesSearch(candidate.searchable, filters))
+      .filter(candidate => !after || compareSearchPositions(after, candidate.position) < 0)
+      .sort((a, b) => compareSearchPositions(a.position, b.position));
+
+    const page = matches.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      transactions: page.map(candidate => candidate.transaction),
+      nextCursor: matches.length > limit && last ? encodeCursor(last.position) : null
+    };
+  }
+
+  private async loadCandidates(userId: string, filters: TransactionSearchFilters): Promise<SearchCandidate[]> {
+    const wantsManual = filters.sources.length === 0 || filters.sources.some(source => source !== 'plaid');
+    const wantsPlaid = filters.sources.length === 0 || filters.sources.includes('plaid');
+
+    const [manual, plaid, accountMappings, bankAccounts, creditCards] = await Promise.all([
+      wantsManual ? this.manualTransactionService.getAll(userId) : Promise.resolve([]),
+      wantsPlaid
+        ? this.plaidTransactionService.getUserTransactions(userId, {
+          ...(filters.startDate && { startDate: filters.startDate }),
+          ...(filters.endDate && { endDate: filters.endDate })
+        })
+        : Promise.resolve([]),
+      wantsPlaid ? this.mappingService.getAccountMappingsMap(userId) : Promise.resolve(new Map()),
+      this.bankAccountService.getAll(userId),
+      this.creditCardService.getAll(userId)
+    ]);
+    const accountNames = new Map([...bankAccounts, ...creditCards].map(account => [account.id, account.name]));
+
+    const manualCandidates = manual.map((stored): SearchCandidate => {
+      const source: SearchSource = stored.source === 'import' ? 'import' : 'manual';
+      const transaction: Transaction = { ...stored, date: toDateKey(toDate(stored.date)), source };
+      const searchable = searchableOf(transaction, source, accountNames);
+      return { searchable, position: searchPosition(searchable), transaction };
+    });
+
+    const plaidCandidates = plaid
+      .filter(t => !t.isDeleted)
+      .map((t): SearchCandidate => {
+        const mapping = accountMappings.get(t.accountId);
+        const normalized: TransactionModel = { ...t, createdAt: toDate(t.createdAt), updatedAt: toDate(t.updatedAt) };
+        const transaction: Transaction = {
+          ...this.plaidAdapter.convertToManualTransaction(normalized, mapping?.accountType || 'bank', mapping?.creditCardId),
+          source: 'plaid'
+        };
+        const searchable = searchableOf(transaction, 'plaid', accountNames);
+        return { searchable, position: searchPosition(searchable), transaction };
+      });
+
+    return [...manualCandidates, ...plaidCandidates];
+  }
+}
+
+export const transactionSearchService = new TransactionSearchService();
@@ -1,31 +1,11 @@
 import { TransactionModel, SyncLogModel } from '../models/bankConnection';
 import { PlaidTransaction } from './plaidService';
-
-interface CategoryMapping {
-  plaidCategory: string;
-  internalCategory: string;
-  confidence: number;
-}
+import { categorizationRuleService } from './categorizationRuleService';
+import { CategorizationRule } from '../../../shared/categorizationRules';
 
 class TransactionService {
   private transactions: Map<string, TransactionModel> = new Map();
   private syncLogs: Map<string, SyncLogModel> = new Map();
-  
-  // Category mappings from Plaid categories to our internal categories
-  private categoryMappings: CategoryMapping[] = [
-    { plaidCategory: 'Food and Drink', internalCategory: 'dining', confidence: 0.9 },
-    { plaidCategory: 'Restaurants', internalCategory: 'dining', confidence: 0.95 },
-    { plaidCategory: 'Groceries', internalCategory: 'groceries', confidence: 0.9 },
-    { plaidCategory: 'Gas Stations', internalCategory: 'transportation', confidence: 0.9 },
-    { plaidCategory: 'Transportation', internalCategory: 'transportation', confidence: 0.8 },
-    { plaidCategory: 'Shopping', internalCategory: 'shopping', confidence: 0.7 },
-    { plaidCategory: 'Entertainment', internalCategory: 'entertainment', confidence: 0.8 },
-    { plaidCategory: 'Healthcare', internalCategory: 'healthcare', confidence: 0.9 },
-    { plaidCategory: 'Bills', internalCategory: 'bills', confidence: 0.9 },
-    { plaidCategory: 'Transfer', internalCategory: 'transfer', confidence: 0.95 },
-    { plaidCategory: 'Deposit', internalCategory: 'income', confidence: 0.9 },
-    { plaidCategory: 'Payroll', internalCategory: 'income', confidence: 0.95 },
-  ];
 
   // Process and store transactions from Plaid
   async processTransactions(
@@ -40,6 +20,7 @@ class TransactionService {
     const added: TransactionModel[] = [];
     const updated: TransactionModel[] = [];
     const errors: string[] = [];
+    const rules = await categorizationRuleService.rulesFor(userId);
 
     for (const plaidTx of plaidTransactions) {
       try {
@@ -53,7 +34,7 @@ class TransactionService {
           }
         } else {
           // Create new transaction
-          const newTransaction = await this.createTransaction(userId, bankConnectionId, plaidTx);
+          const newTransaction = await this.createTransaction(userId, bankConnectionId, plaidTx, rules);
           if (newTransaction) {
             added.push(newTransaction);
           }
@@ -70,12 +51,24 @@ class TransactionService {
   private async createTransaction(
     userId: string,
     bankConnectionId: string,
-    plaidTx: PlaidTransaction
+    plaidTx: PlaidTransaction,
+    rules: CategorizationRule[]
   ): Promise<TransactionModel | null> {
     try {
       const transactionId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const internalCategory = this.mapCategory(plaidTx.category);
-      
+      const categorization = await categorizationRuleService.categorize(
+        userId,
+        {
+          description: plaidTx.name,
+          ...(plaidTx.merchantName && { merchantName: plaidTx.merchantName }),
+          amount: plaidTx.amount,
+          accountId: plaidTx.accountId,
+          plaidCategories: plaidTx.category
+        },
+        {},
+        rules
+      );
+
       const transaction: TransactionModel = {
         id: transactionId,
         userId,
@@ -87,14 +80,16 @@ class TransactionService {
         name: plaidTx.name,
         merchantName: plaidTx.merchantName,
         category: plaidTx.category,
-        subcategory: plaidTx.subcategory,
-        internalCategory,
+        subcategory: categorization.subcategory ?? plaidTx.subcategory,
+        internalCategory: categorization.category,
         pending: plaidTx.pending,
         location: plaidTx.location,
         createdAt: new Date(),
         updatedAt: new Date(),
-        isHidden: false,
+        isHidden: categorization.hidden,
         isDeleted: false,
+        tags: categorization.tags,
+        ...(categorization.incomeSourceId && { incomeSourceId: categorization.incomeSourceId }),
       };
 
       this.transactions.set(transactionId, transaction);
@@ -136,41 +131,6 @@ class TransactionService {
     }
   }
 
-  // Map Plaid categories to internal categories
-  private mapCategory(plaidCategories: string[]): string {
-    if (!plaidCategories || plaidCategories.length === 0) {
-      return 'other';
-    }
-
-    // Try to find the best match
-    for (const category of plaidCategories) {
-      const mapping = this.categoryMappings.find(m => 
-        category.toLowerCase().includes(m.plaidCategory.toLowerCase()) ||
-        m.plaidCategory.toLowerCase().includes(category.toLowerCase())
-      );
-      
-      if (mapping) {
-        return mapping.internalCategory;
-      }
-    }
-
-    // Default fallback based on primary category
-    const primaryCategory = plaidCategories[0].toLowerCase();
-    if (primaryCategory.includes('food') || primaryCategory.includes('restaurant')) {
-      return 'dining';
-    } else if (primaryCategory.includes('gas') || primaryCategory.includes('transport')) {
-      return 'transportation';
-    } else if (primaryCategory.includes('shop') || primaryCategory.includes('retail')) {
-      return 'shopping';
-    } else if (primaryCategory.includes('transfer') || primaryCategory.includes('payment')) {
-      return 'transfer';
-    } else if (primaryCategory.includes('deposit') || primaryCategory.includes('income')) {
-      return 'income';
-    }
-
-    return 'other';
-  }
-
   // Find transaction by Plaid ID
   private findTransactionByPlaidId(plaidTransactionId: string): TransactionModel | undefined {
     for (const transaction of this.transactions.values()) {
@@ -340,6 +300,7 @@ class TransactionService {
       startedAt: new Date(),
       transactionsAdded: 0,
       transactionsUpdated: 0,
+      transactionsRemoved: 0,
       errors: [],
     };
 
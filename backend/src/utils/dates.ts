@@ -0,0 +1,11 @@
+/**
+ * Firestore returns Timestamps for fields written as Date, while older
+ * documents store ISO strings. Accept both.
+ */
+export const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value;
+  if (value && typeof value === 'object' && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string | number);
+};
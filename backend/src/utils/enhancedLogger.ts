@@ -131,6 +131,14 @@ class EnhancedBackendLogger {
     this.logger.debug(message, meta);
   }
 
+  // Application lifecycle events (startup, health checks)
+  logApplicationEvent(event: string, details: Record<string, unknown>): void {
+    this.logger.info(event, {
+      ...details,
+      category: 'APPLICATION'
+    });
+  }
+
   // Security logging
   logSecurityEvent(event: string, details: any): void {
     this.securityLogger.warn(event, {
@@ -0,0 +1,295 @@
+/**
+ * Auto-categorization rules shared by the frontend and backend.
+ *
+ * A rule matches a transaction on any combination of a pattern over its
+ * merchant name and description, a range of its absolute amount, the account
+ * it belongs to and its Plaid category, and sets a category, subcategory,
+ * tags, income source or hides it. Rules run in priority order, lowest
+ * number first: each field is set by the first matching rule that sets it,
+ * and tags from every matching rule are added together.
+ *
+ * The built-in rules that map Plaid's category hierarchy onto the app's
+ * categories run after the user's own, so a user rule for a merchant wins
+ * over Plaid's guess.
+ */
+
+export interface RuleConditions {
+  descriptionPattern?: string; // Regular expression, case-insensitive, tested against the merchant name and the description
+  minAmount?: number; // Inclusive, compared with the absolute amount
+  maxAmount?: number;
+  accountIds?: string[]; // Any of these accounts
+  plaidCategory?: string; // Case-insensitive; matches when any level of Plaid's category contains it
+}
+
+export interface RuleActions {
+  category?: string;
+  subcategory?: string;
+  tags?: string[];
+  incomeSourceId?: string;
+  hidden?: boolean;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+// What rules look at, in the same terms for manual, imported and Plaid transactions
+export interface RuleSubject {
+  description: string;
+  merchantName?: string;
+  amount: number;
+  accountId: string;
+  plaidCategories?: string[];
+}
+
+export interface RuleResult {
+  category?: string;
+  subcategory?: string;
+  tags: string[];
+  incomeSourceId?: string;
+  hidden?: boolean;
+  ruleIds: string[]; // Every rule that matched, in the order they ran
+}
+
+// The fields rules can change on a transaction
+export interface CategorizationFields {
+  category: string;
+  subcategory?: string;
+  tags: string[];
+  incomeSourceId?: string;
+  hidden: boolean;
+}
+
+export type CategorizationField = keyof CategorizationFields;
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// User priorities stay below the built-in rules'
+export const MAX_USER_PRIORITY = 9999;
+export const BUILT_IN_RULE_PRIORITY = 10000;
+
+const builtIn = (plaidCategory: string, category: string, index: number): CategorizationRule => ({
+  id: `built-in-${plaidCategory.toLowerCase().replace(/[^a-z]+/g, '-')}`,
+  name: `Plaid: ${plaidCategory}`,
+  priority: BUILT_IN_RULE_PRIORITY + index,
+  enabled: true,
+  conditions: { plaidCategory },
+  actions: { category }
+});
+
+// Plaid's categories onto DEFAULT_CATEGORIES, specific names before the broad ones that contain them
+export const BUILT_IN_RULES: CategorizationRule[] = ([
+  ['Payroll', 'income'],
+  ['Restaurants', 'food'],
+  ['Groceries', 'food'],
+  ['Food and Drink', 'food'],
+  ['Gas Stations', 'transportation'],
+  ['Transportation', 'transportation'],
+  ['Travel', 'transportation'],
+  ['Shops', 'shopping'],
+  ['Recreation', 'entertainment'],
+  ['Healthcare', 'healthcare'],
+  ['Government and Non-Profit', 'bills'],
+  ['Service', 'bills'],
+  ['Transfer', 'transfer'],
+  ['Deposit', 'income']
+] as Array<[string, string]>).map(([plaidCategory, category], index) => builtIn(plaidCategory, category, index));
+
+// Patterns with more unbounded repeats than this can take polynomial time on long text
+const MAX_PATTERN_REPEATS = 3;
+const COMPILED_PATTERN_CACHE_SIZE = 500;
+
+/**
+ * Why a pattern would make the regex engine backtrack without bound, or null.
+ * Rejects backreferences, a repeated group that itself repeats or has
+ * alternatives (as in `(a+)+` or `(a|ab)*`), and more than a few unbounded
+ * repeats overall. Assumes the pattern compiles.
+ */
+const backtrackingError = (pattern: string): string | null => {
+  // One frame per open group: whether anything inside it repeats or branches
+  const groups: Array<{ repeats: boolean; branches: boolean }> = [{ repeats: false, branches: false }];
+  let closedGroup: { repeats: boolean; branches: boolean } | null = null;
+  let unboundedRepeats = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atomGroup = closedGroup;
+    closedGroup = null;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'Patterns cannot use backreferences';
+      }
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; `]` right after `[` or `[^` is literal
+      i += pattern[i + 1] === '^' ? 2 : 1;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, branches: false });
+    } else if (char === ')') {
+      closedGroup = groups.pop()!;
+      const parent = groups[groups.length - 1];
+      parent.repeats = parent.repeats || closedGroup.repeats;
+    } else if (char === '|') {
+      groups[groups.length - 1].branches = true;
+    } else if (char === '*' || char === '+' || char === '{') {
+      const bound = char === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i)) : null;
+      if (char === '{' && !bound) continue; // A literal brace
+      if (bound) i += bound[0].length - 1;
+      if (bound && bound[2] === undefined && Number(bound[1]) <= 1) continue;
+
+      if (atomGroup && (atomGroup.repeats || atomGroup.branches)) {
+        return 'Patterns cannot repeat a group that repeats or has alternatives, as in (a+)+';
+      }
+      if (!bound || bound[3] === '') {
+        unboundedRepeats++;
+      }
+      groups[groups.length - 1].repeats = true;
+    }
+  }
+
+  return unboundedRepeats > MAX_PATTERN_REPEATS
+    ? `Patterns are limited to ${MAX_PATTERN_REPEATS} of *, + or {n,}`
+    : null;
+};
+
+/**
+ * Why a rule pattern can't be used, or null when it can. Patterns are
+ * regular expressions tested case-insensitively against the merchant name
+ * and description. Rules run on every sync and import, so patterns that
+ * could backtrack for a long time are refused when the rule is saved.
+ */
+export const patternError = (pattern: string): string | null => {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+  return backtrackingError(pattern);
+};
+
+// Most recently used last; the oldest entry is dropped once the cache is full
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string): RegExp | null => {
+  let compiled = compiledPatterns.get(pattern);
+  if (compiled === undefined) {
+    compiled = patternError(pattern) === null ? new RegExp(pattern, 'i') : null;
+    if (compiledPatterns.size >= COMPILED_PATTERN_CACHE_SIZE) {
+      compiledPatterns.delete(compiledPatterns.keys().next().value as string);
+    }
+  } else {
+    compiledPatterns.delete(pattern);
+  }
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+};
+
+export const ruleMatches = (rule: CategorizationRule, subject: RuleSubject): boolean => {
+  const { descriptionPattern, minAmount, maxAmount, accountIds, plaidCategory } = rule.conditions;
+
+  if (descriptionPattern) {
+    const pattern = compilePattern(descriptionPattern);
+    if (!pattern || ![subject.merchantName, subject.description].some(text => text && pattern.test(text))) {
+      return false;
+    }
+  }
+
+  const amount = Math.abs(subject.amount);
+  if (minAmount !== undefined && amount < minAmount) return false;
+  if (maxAmount !== undefined && amount > maxAmount) return false;
+
+  if (accountIds && accountIds.length > 0 && !accountIds.includes(subject.accountId)) {
+    return false;
+  }
+
+  if (plaidCategory) {
+    const wanted = plaidCategory.toLowerCase();
+    if (!(subject.plaidCategories || []).some(level => level.toLowerCase().includes(wanted))) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+// Lowest priority first; rules with the same priority run by name so the order never depends on storage
+export const sortRules = <T extends CategorizationRule>(rules: T[]): T[] =>
+  [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+export const applyRules = (rules: CategorizationRule[], subject: RuleSubject): RuleResult => {
+  const result: RuleResult = { tags: [], ruleIds: [] };
+
+  for (const rule of sortRules(rules)) {
+    if (!rule.enabled || !ruleMatches(rule, subject)) continue;
+
+    const { category, subcategory, tags, incomeSourceId, hidden } = rule.actions;
+    if (category && result.category === undefined) result.category = category;
+    if (subcategory && result.subcategory === undefined) result.subcategory = subcategory;
+    if (incomeSourceId && result.incomeSourceId === undefined) result.incomeSourceId = incomeSourceId;
+    if (hidden !== undefined && result.hidden === undefined) result.hidden = hidden;
+    (tags || []).forEach(tag => {
+      if (!result.tags.includes(tag)) result.tags.push(tag);
+    });
+    result.ruleIds.push(rule.id);
+  }
+
+  return result;
+};
+
+const mergeTags = (current: string[], added: string[]): string[] =>
+  [...current, ...added.filter(tag => !current.includes(tag))];
+
+/**
+ * The fields of a new transaction, with what was given kept and the gaps
+ * filled from the rules. 'other' is what entry forms send when nobody chose
+ * a category, so rules may replace it.
+ */
+export const fillFromRules = (given: Partial<CategorizationFields>, result: RuleResult, fallbackCategory = 'other'): CategorizationFields => {
+  const category = given.category && given.category !== 'other' ? given.category : result.category;
+  const subcategory = given.subcategory ?? result.subcategory;
+  const incomeSourceId = given.incomeSourceId ?? result.incomeSourceId;
+  return {
+    category: category ?? given.category ?? fallbackCategory,
+    ...(subcategory && { subcategory }),
+    tags: mergeTags(given.tags || [], result.tags),
+    ...(incomeSourceId && { incomeSourceId }),
+    hidden: given.hidden ?? result.hidden ?? false
+  };
+};
+
+// The fields of an existing transaction after re-running rules on it: what the rules set replaces what was there
+export const applyRuleResult = (current: CategorizationFields, result: RuleResult): CategorizationFields => {
+  const subcategory = result.subcategory ?? current.subcategory;
+  const incomeSourceId = result.incomeSourceId ?? current.incomeSourceId;
+  return {
+    category: result.category ?? current.category,
+    ...(subcategory && { subcategory }),
+    tags: mergeTags(current.tags, result.tags),
+    ...(incomeSourceId && { incomeSourceId }),
+    hidden: result.hidden ?? current.hidden
+  };
+};
+
+export const changedFields = (before: CategorizationFields, after: CategorizationFields): CategorizationField[] => {
+  const fields: CategorizationField[] = [];
+  if (before.category !== after.category) fields.push('category');
+  if (before.subcategory !== after.subcategory) fields.push('subcategory');
+  if (before.tags.length !== after.tags.length || before.tags.some((tag, index) => tag !== after.tags[index])) fields.push('tags');
+  if (before.incomeSourceId !== after.incomeSourceId) fields.push('incomeSourceId');
+  if (before.hidden !== after.hidden) fields.push('hidden');
+  return fields;
+};
@@ -0,0 +1,138 @@
+/**
+ * Currencies and exchange-rate conversion shared by the frontend and backend.
+ *
+ * Rate tables hold, per `YYYY-MM-DD` date, how many units of each currency one
+ * unit of the table's base currency buys. A conversion on a date without rates
+ * uses the most recent earlier date, so weekends and holidays carry Friday's rates.
+ */
+
+export interface CurrencyInfo {
+  code: string; // ISO 4217
+  name: string;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'MXN', name: 'Mexican Peso' }
+];
+
+export interface FxRateTable {
+  base: string;
+  rates: Record<string, Record<string, number>>; // date -> currency -> units per one base unit
+}
+
+export type CurrencyConverter = (amount: number, from: string | undefined | null, date: string) => number;
+
+export class FxConversionError extends Error {
+  constructor(message: string, public readonly currency: string) {
+    super(message);
+    this.name = 'FxConversionError';
+  }
+}
+
+// Records written before currencies were tracked have no code; they were always dollars
+export const normalizeCurrencyCode = (code: string | undefined | null): string =>
+  typeof code === 'string' && /^[A-Za-z]{3}$/.test(code.trim()) ? code.trim().toUpperCase() : DEFAULT_CURRENCY;
+
+export const isSupportedCurrency = (code: string): boolean =>
+  SUPPORTED_CURRENCIES.some(currency => currency.code === code);
+
+// Index of the last date on or before `date`, or 0 when every date is later
+const findDateIndex = (dates: string[], date: string): number => {
+  let low = 0;
+  let high = dates.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (dates[mid] <= date) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Re-expresses a table against another base currency, e.g. a USD table as EUR.
+ * Dates without a rate for the new base are dropped.
+ */
+export const rebaseRateTable = (table: FxRateTable, base: string): FxRateTable => {
+  if (table.base === base) return table;
+
+  const rates: FxRateTable['rates'] = {};
+  Object.entries(table.rates).forEach(([date, dayRates]) => {
+    const baseRate = dayRates[base];
+    if (!baseRate) return;
+    rates[date] = Object.fromEntries([
+      [table.base, 1 / baseRate],
+      ...Object.entries(dayRates)
+        .filter(([code]) => code !== base)
+        .map(([code, rate]) => [code, rate / baseRate])
+    ]);
+  });
+  return { base, rates };
+};
+
+/**
+ * Builds a converter into `target` from a rate table. Throws FxConversionError
+ * when the table has no rate for one of the two currencies.
+ */
+export const createConverter = (table: FxRateTable, target: string): CurrencyConverter => {
+  const to = normalizeCurrencyCode(target);
+  const dates = Object.keys(table.rates).sort();
+
+  const rateFor = (currency: string, date: string): number => {
+    if (currency === table.base) return 1;
+    if (dates.length > 0) {
+      // Fall back to earlier dates in case the nearest one lacks this currency
+      for (let index = findDateIndex(dates, date.slice(0, 10)); index >= 0; index--) {
+        const rate = table.rates[dates[index]][currency];
+        if (rate) return rate;
+      }
+    }
+    throw new FxConversionError(`No exchange rate available for ${currency}`, currency);
+  };
+
+  return (amount, from, date) => {
+    const source = normalizeCurrencyCode(from);
+    if (source === to || amount === 0) return amount;
+    return (amount / rateFor(source, date)) * rateFor(to, date);
+  };
+};
+
+export const convertAmount = (
+  amount: number,
+  from: string | undefined | null,
+  to: string,
+  date: string,
+  table: FxRateTable
+): number => createConverter(table, to)(amount, from, date);
+
+export const currencySymbol = (currency: string = DEFAULT_CURRENCY, locale: string = 'en-US'): string => {
+  const code = normalizeCurrencyCode(currency);
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: code })
+      .formatToParts(0)
+      .find(part => part.type === 'currency')?.value || code;
+  } catch {
+    return code;
+  }
+};
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY, locale: string = 'en-US'): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: normalizeCurrencyCode(currency) }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
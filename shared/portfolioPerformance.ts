@@ -0,0 +1,482 @@
+/**
+ * Portfolio performance shared by the frontend and backend.
+ *
+ * Share counts are replayed from the stock transactions and valued at each
+ * symbol's latest stored close, falling back to the last price it traded at.
+ * The portfolio is valued on every day with a close or a transaction in the
+ * period, and each day's return is measured net of that day's cash flows:
+ * buys bring cash in, and sells and cash dividends take it out. Reinvested
+ * dividends stay in the portfolio, so they count as return.
+ *
+ * The time-weighted return chains those daily returns, which removes the
+ * effect of when money was added. The money-weighted return is the XIRR of
+ * the cash flows, with the starting value as the first outflow and the ending
+ * value as the last inflow. Per-holding contributions are linked so they add
+ * up to the time-weighted return. Spin-offs and symbol changes move value
+ * between symbols without a cash flow.
+ *
+ * Closes are prices as traded, not adjusted for later splits. Dates are plain
+ * `YYYY-MM-DD` strings and returns are percentages.
+ */
+import { chronological, LotTransaction } from './taxLots';
+
+export type PerformanceRange = '1m' | '3m' | '6m' | 'ytd' | '1y' | '3y' | '5y' | 'all';
+
+export const PERFORMANCE_RANGES: PerformanceRange[] = ['1m', '3m', '6m', 'ytd', '1y', '3y', '5y', 'all'];
+
+// The parts of a stock transaction the performance replay reads
+export interface PerformanceTransaction extends LotTransaction {
+  totalAmount: number; // Buys: cost with fees; sells: proceeds net of fees; dividends: the amount paid
+}
+
+export interface PricePoint {
+  date: string;
+  close: number;
+}
+
+// Percentages of the portfolio's value per symbol, e.g. { VTI: 60, BND: 40 }
+export type TargetWeights = Record<string, number>;
+
+export interface PerformancePoint {
+  date: string;
+  value: number;
+  netFlow: number; // Cash added (positive) or taken out (negative) that day
+  portfolioIndex: number; // Growth of 100 at the time-weighted return
+  benchmarkIndex: number | null; // Growth of 100 in the benchmark, once it has a price
+}
+
+export interface HoldingContribution {
+  stockSymbol: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  gain: number; // endValue - startValue - netFlows
+  returnPercent: number | null; // The holding's own time-weighted return
+  contributionPercent: number; // Its share of the portfolio's time-weighted return
+}
+
+export interface AllocationDriftRow {
+  stockSymbol: string;
+  value: number;
+  currentWeightPercent: number;
+  targetWeightPercent: number | null;
+  driftPercent: number | null; // Current minus target, in percentage points
+  rebalanceAmount: number | null; // Positive to buy, negative to sell
+}
+
+export interface PortfolioPerformance {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  gain: number;
+  timeWeightedReturnPercent: number | null;
+  annualizedReturnPercent: number | null; // Time-weighted, for periods of a year or more
+  moneyWeightedReturnPercent: number | null; // Annualized XIRR
+  benchmark: { symbol: string; returnPercent: number | null } | null;
+  points: PerformancePoint[];
+  contributions: HoldingContribution[];
+  allocation: AllocationDriftRow[];
+  // Symbols valued at their last trade price because no close was stored for them
+  unpricedSymbols: string[];
+}
+
+export interface PerformanceOptions {
+  startDate: string;
+  endDate: string;
+  prices: Record<string, PricePoint[]>; // Closes per symbol, oldest first
+  benchmark?: { symbol: string; closes: PricePoint[] };
+  targets?: TargetWeights;
+}
+
+export interface CashFlow {
+  date: string;
+  amount: number; // From the investor's side: negative when cash goes in
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_EPSILON = 1e-9;
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const toPercent = (fraction: number): number => Math.round(fraction * 10000) / 100;
+
+const toDay = (date: string): number => Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS;
+
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const shiftMonths = (date: string, months: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCMonth(shifted.getUTCMonth() + months);
+  return shifted.toISOString().slice(0, 10);
+};
+
+// The close on or before a date, by binary search over closes sorted oldest first
+const closeOnOrBefore = (closes: PricePoint[] | undefined, date: string): number | null => {
+  if (!closes || closes.length === 0 || closes[0].date > date) return null;
+  let low = 0;
+  let high = closes.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (closes[middle].date <= date) low = middle;
+    else high = middle - 1;
+  }
+  return closes[low].close;
+};
+
+/**
+ * The period a range covers, ending today. `all` starts the day before the
+ * first transaction so everything bought is counted as a cash flow.
+ */
+export const resolvePerformanceRange = (
+  range: PerformanceRange,
+  today: string,
+  firstTransactionDate?: string
+): { startDate: string; endDate: string } => {
+  switch (range) {
+    case '1m': return { startDate: shiftMonths(today, -1), endDate: today };
+    case '3m': return { startDate: shiftMonths(today, -3), endDate: today };
+    case '6m': return { startDate: shiftMonths(today, -6), endDate: today };
+    // From the last close of the previous year
+    case 'ytd': return { startDate: `${Number(today.slice(0, 4)) - 1}-12-31`, endDate: today };
+    case '1y': return { startDate: shiftMonths(today, -12), endDate: today };
+    case '3y': return { startDate: shiftMonths(today, -36), endDate: today };
+    case '5y': return { startDate: shiftMonths(today, -60), endDate: today };
+    default: return {
+      startDate: firstTransactionDate ? fromDay(toDay(firstTransactionDate) - 1) : today,
+      endDate: today
+    };
+  }
+};
+
+/**
+ * The annual rate at which the cash flows' present value is zero, or null when
+ * the flows do not both put money in and take it out or no rate converges.
+ */
+export const xirr = (flows: CashFlow[]): number | null => {
+  const dated = flows.filter(flow => flow.amount !== 0);
+  if (!dated.some(flow => flow.amount < 0) || !dated.some(flow => flow.amount > 0)) {
+    return null;
+  }
+
+  const firstDay = Math.min(...dated.map(flow => toDay(flow.date)));
+  const years = dated.map(flow => (toDay(flow.date) - firstDay) / 365);
+  const presentValue = (rate: number) =>
+    dated.reduce((sum, flow, index) => sum + flow.amount / Math.pow(1 + rate, years[index]), 0);
+  const derivative = (rate: number) =>
+    dated.reduce((sum, flow, index) => sum - years[index] * flow.amount / Math.pow(1 + rate, years[index] + 1), 0);
+
+  // Newton's method from 10%, falling back to bisection when it leaves the valid range or stalls
+  let rate = 0.1;
+  for (let iteration = 0; iteration < XIRR_MAX_ITERATIONS; iteration++) {
+    const value = presentValue(rate);
+    if (Math.abs(value) < XIRR_TOLERANCE) return rate;
+    const slope = derivative(rate);
+    if (slope === 0 || !Number.isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = presentValue(low);
+  if (lowValue * presentValue(high) > 0) return null;
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const middle = (low + high) / 2;
+    const value = presentValue(middle);
+    if (Math.abs(value) < XIRR_TOLERANCE || high - low < XIRR_TOLERANCE) return middle;
+    if (value * lowValue < 0) {
+      high = middle;
+    } else {
+      low = middle;
+      lowValue = value;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// Shares held per symbol, and what was added or removed from each that day
+class PositionReplay {
+  readonly shares = new Map<string, number>();
+  private readonly tradePrices = new Map<string, number>();
+  readonly unpriced = new Set<string>();
+
+  constructor(private prices: Record<string, PricePoint[]>) {}
+
+  priceOf(symbol: string, date: string): number {
+    const close = closeOnOrBefore(this.prices[symbol], date);
+    if (close !== null) return close;
+    this.unpriced.add(symbol);
+    return this.tradePrices.get(symbol) ?? 0;
+  }
+
+  valueOf(symbol: string, date: string): number {
+    const shares = this.shares.get(symbol) ?? 0;
+    return shares > SHARE_EPSILON ? shares * this.priceOf(symbol, date) : 0;
+  }
+
+  symbols(): string[] {
+    return [...this.shares.keys()].filter(symbol => (this.shares.get(symbol) ?? 0) > SHARE_EPSILON);
+  }
+
+  /**
+   * Apply one transaction. Returns the portfolio's external cash flow and the
+   * flow into each symbol, both positive when value is added.
+   */
+  apply(transaction: PerformanceTransaction): { external: number; bySymbol: Map<string, number> } {
+    const symbol = transaction.stockSymbol.toUpperCase();
+    const held = this.shares.get(symbol) ?? 0;
+    const bySymbol = new Map<string, number>();
+    const date = transaction.date.slice(0, 10);
+
+    switch (transaction.type) {
+      case 'buy':
+        this.shares.set(symbol, held + transaction.shares);
+        this.tradePrices.set(symbol, transaction.price);
+        bySymbol.set(symbol, transaction.totalAmount);
+        return { external: transaction.totalAmount, bySymbol };
+      case 'sell':
+        this.shares.set(symbol, Math.max(0, held - transaction.shares));
+        this.tradePrices.set(symbol, transaction.price);
+        bySymbol.set(symbol, -transaction.totalAmount);
+        return { external: -transaction.totalAmount, bySymbol };
+      case 'dividend':
+        if (transaction.reinvested) {
+          this.shares.set(symbol, held + transaction.shares);
+          if (transaction.price > 0) this.tradePrices.set(symbol, transaction.price);
+          return { external: 0, bySymbol };
+        }
+        bySymbol.set(symbol, -transaction.totalAmount);
+        return { external: -transaction.totalAmount, bySymbol };
+      case 'split': {
+        const ratio = transaction.ratio ?? 1;
+        this.shares.set(symbol, held * ratio);
+        const tradePrice = this.tradePrices.get(symbol);
+        if (tradePrice !== undefined) this.tradePrices.set(symbol, tradePrice / ratio);
+        return { external: 0, bySymbol };
+      }
+      case 'spin_off': {
+        const child = (transaction.newSymbol ?? '').toUpperCase();
+        const childShares = held * (transaction.ratio ?? 0);
+        if (!child || childShares <= SHARE_EPSILON) return { external: 0, bySymbol };
+        // Without closes of their own, the parent's value is split by the basis allocation
+        const allocation = transaction.basisAllocation ?? 0;
+        const parentValue = held * this.priceOf(symbol, date);
+        if (closeOnOrBefore(this.prices[child], date) === null) {
+          this.tradePrices.set(child, parentValue * allocation / childShares);
+        }
+        const parentTradePrice = this.tradePrices.get(symbol);
+        if (parentTradePrice !== undefined) this.tradePrices.set(symbol, parentTradePrice * (1 - allocation));
+        this.shares.set(child, (this.shares.get(child) ?? 0) + childShares);
+        const moved = childShares * this.priceOf(child, date);
+        bySymbol.set(child, moved);
+        bySymbol.set(symbol, -moved);
+        return { external: 0, bySymbol };
+      }
+      case 'symbol_change': {
+        const renamed = (transaction.newSymbol ?? '').toUpperCase();
+        if (!renamed || held <= SHARE_EPSILON) return { external: 0, bySymbol };
+        const moved = held * this.priceOf(symbol, date);
+        if (closeOnOrBefore(this.prices[renamed], date) === null) {
+          this.tradePrices.set(renamed, this.priceOf(symbol, date));
+        }
+        this.shares.set(symbol, 0);
+        this.shares.set(renamed, (this.shares.get(renamed) ?? 0) + held);
+        bySymbol.set(symbol, -moved);
+        bySymbol.set(renamed, moved);
+        return { external: 0, bySymbol };
+      }
+    }
+  }
+}
+
+const buildAllocation = (values: Map<string, number>, total: number, targets?: TargetWeights): AllocationDriftRow[] => {
+  const targetWeights = new Map(Object.entries(targets ?? {}).map(([symbol, weight]) => [symbol.toUpperCase(), weight]));
+  const hasTargets = targetWeights.size > 0;
+  const symbols = new Set([...values.keys(), ...targetWeights.keys()]);
+
+  return [...symbols]
+    .map(stockSymbol => {
+      const value = values.get(stockSymbol) ?? 0;
+      const current = total > 0 ? (value / total) * 100 : 0;
+      const target = hasTargets ? targetWeights.get(stockSymbol) ?? 0 : null;
+      return {
+        stockSymbol,
+        value: roundCents(value),
+        currentWeightPercent: Math.round(current * 100) / 100,
+        targetWeightPercent: target,
+        driftPercent: target === null ? null : Math.round((current - target) * 100) / 100,
+        rebalanceAmount: target === null ? null : roundCents(((target - current) / 100) * total)
+      };
+    })
+    .sort((a, b) => b.value - a.value || a.stockSymbol.localeCompare(b.stockSymbol));
+};
+
+/**
+ * Performance of the stock portfolio between two dates. The start value is
+ * the portfolio at the close of `startDate`; transactions after it, up to and
+ * including `endDate`, are the period's cash flows.
+ */
+export const calculatePortfolioPerformance = (
+  transactions: PerformanceTransaction[],
+  options: PerformanceOptions
+): PortfolioPerformance => {
+  const { startDate, endDate, targets } = options;
+  const prices: Record<string, PricePoint[]> = {};
+  Object.entries(options.prices).forEach(([symbol, closes]) => {
+    prices[symbol.toUpperCase()] = [...closes].sort((a, b) => a.date.localeCompare(b.date));
+  });
+  const benchmarkCloses = options.benchmark ? [...options.benchmark.closes].sort((a, b) => a.date.localeCompare(b.date)) : [];
+
+  const ordered = chronological(transactions).filter(transaction => transaction.date.slice(0, 10) <= endDate);
+  const replay = new PositionReplay(prices);
+  ordered
+    .filter(transaction => transaction.date.slice(0, 10) <= startDate)
+    .forEach(transaction => replay.apply(transaction));
+
+  const byDate = new Map<string, PerformanceTransaction[]>();
+  ordered
+    .filter(transaction => transaction.date.slice(0, 10) > startDate)
+    .forEach(transaction => {
+      const date = transaction.date.slice(0, 10);
+      byDate.set(date, [...(byDate.get(date) ?? []), transaction]);
+    });
+
+  // Every day something was priced or traded, so each sub-period has at most one day's flows at its end
+  const valuationDates = new Set<string>([startDate, endDate, ...byDate.keys()]);
+  Object.values(prices).forEach(closes => closes.forEach(close => {
+    if (close.date > startDate && close.date < endDate) valuationDates.add(close.date);
+  }));
+  const dates = [...valuationDates].sort();
+
+  const valuesOn = (date: string): Map<string, number> =>
+    new Map(replay.symbols().map(symbol => [symbol, replay.valueOf(symbol, date)]));
+  const total = (values: Map<string, number>): number => [...values.values()].reduce((sum, value) => sum + value, 0);
+
+  let previousValues = valuesOn(startDate);
+  let previousTotal = total(previousValues);
+  const startValue = previousTotal;
+  const startValues = previousValues;
+  const benchmarkBase = closeOnOrBefore(benchmarkCloses, startDate) ?? (benchmarkCloses[0]?.close ?? null);
+  const benchmarkIndexOn = (date: string): number | null => {
+    if (!options.benchmark || benchmarkBase === null) return null;
+    const close = closeOnOrBefore(benchmarkCloses, date);
+    return close === null ? null : Math.round((close / benchmarkBase) * 10000) / 100;
+  };
+
+  const points: PerformancePoint[] = [{
+    date: startDate,
+    value: roundCents(startValue),
+    netFlow: 0,
+    portfolioIndex: 100,
+    benchmarkIndex: benchmarkIndexOn(startDate)
+  }];
+  const flows: CashFlow[] = startValue > 0 ? [{ date: startDate, amount: -startValue }] : [];
+  const symbolFlows = new Map<string, number>();
+  const symbolGrowth = new Map<string, number>();
+  const contributions = new Map<string, number>();
+  let growth = 1;
+  let netFlows = 0;
+  let measured = false;
+
+  for (const date of dates.slice(1)) {
+    let external = 0;
+    const dayFlows = new Map<string, number>();
+    for (const transaction of byDate.get(date) ?? []) {
+      const applied = replay.apply(transaction);
+      external += applied.external;
+      applied.bySymbol.forEach((amount, symbol) => dayFlows.set(symbol, (dayFlows.get(symbol) ?? 0) + amount));
+    }
+
+    const values = valuesOn(date);
+    const value = total(values);
+
+    if (previousTotal > 0) {
+      const periodReturn = (value - external) / previousTotal - 1;
+      const symbols = new Set([...previousValues.keys(), ...values.keys(), ...dayFlows.keys()]);
+      symbols.forEach(symbol => {
+        const held = previousValues.get(symbol) ?? 0;
+        const gain = (values.get(symbol) ?? 0) - (dayFlows.get(symbol) ?? 0) - held;
+        contributions.set(symbol, (contributions.get(symbol) ?? 0) + (gain / previousTotal) * growth);
+        if (held > 0) {
+          symbolGrowth.set(symbol, (symbolGrowth.get(symbol) ?? 1) * (1 + gain / held));
+        }
+      });
+      growth *= 1 + periodReturn;
+      measured = true;
+    }
+
+    dayFlows.forEach((amount, symbol) => symbolFlows.set(symbol, (symbolFlows.get(symbol) ?? 0) + amount));
+    if (external !== 0) {
+      flows.push({ date, amount: -external });
+      netFlows += external;
+    }
+
+    points.push({
+      date,
+      value: roundCents(value),
+      netFlow: roundCents(external),
+      portfolioIndex: Math.round(growth * 10000) / 100,
+      benchmarkIndex: benchmarkIndexOn(date)
+    });
+    previousValues = values;
+    previousTotal = value;
+  }
+
+  const endValue = previousTotal;
+  if (endValue > 0) flows.push({ date: endDate, amount: endValue });
+
+  const periodDays = toDay(endDate) - toDay(startDate);
+  const timeWeighted = measured ? growth - 1 : null;
+  const moneyWeighted = xirr(flows);
+
+  const contributionSymbols = new Set([...startValues.keys(), ...previousValues.keys(), ...symbolFlows.keys()]);
+  const holdingContributions: HoldingContribution[] = [...contributionSymbols]
+    .map(stockSymbol => {
+      const start = startValues.get(stockSymbol) ?? 0;
+      const end = previousValues.get(stockSymbol) ?? 0;
+      const flowsIn = symbolFlows.get(stockSymbol) ?? 0;
+      const ownGrowth = symbolGrowth.get(stockSymbol);
+      return {
+        stockSymbol,
+        startValue: roundCents(start),
+        endValue: roundCents(end),
+        netFlows: roundCents(flowsIn),
+        gain: roundCents(end - start - flowsIn),
+        returnPercent: ownGrowth === undefined ? null : toPercent(ownGrowth - 1),
+        contributionPercent: toPercent(contributions.get(stockSymbol) ?? 0)
+      };
+    })
+    .sort((a, b) => b.contributionPercent - a.contributionPercent || a.stockSymbol.localeCompare(b.stockSymbol));
+
+  const benchmarkEnd = closeOnOrBefore(benchmarkCloses, endDate);
+
+  return {
+    startDate,
+    endDate,
+    startValue: roundCents(startValue),
+    endValue: roundCents(endValue),
+    netFlows: roundCents(netFlows),
+    gain: roundCents(endValue - startValue - netFlows),
+    timeWeightedReturnPercent: timeWeighted === null ? null : toPercent(timeWeighted),
+    annualizedReturnPercent: timeWeighted !== null && periodDays >= 365
+      ? toPercent(Math.pow(1 + timeWeighted, 365 / periodDays) - 1)
+      : null,
+    moneyWeightedReturnPercent: moneyWeighted === null ? null : toPercent(moneyWeighted),
+    benchmark: options.benchmark
+      ? {
+        symbol: options.benchmark.symbol.toUpperCase(),
+        returnPercent: benchmarkBase !== null && benchmarkEnd !== null ? toPercent(benchmarkEnd / benchmarkBase - 1) : null
+      }
+      : null,
+    points,
+    contributions: holdingContributions,
+    allocation: buildAllocation(previousValues, endValue, targets),
+    unpricedSymbols: [...replay.unpriced].sort()
+  };
+};
@@ -0,0 +1,348 @@
+/**
+ * Recurrence rules shared by the frontend and backend.
+ *
+ * Dates are plain `YYYY-MM-DD` strings and all arithmetic is done in UTC, so an
+ * occurrence lands on the same calendar day regardless of the caller's time zone.
+ */
+
+export type FrequencyType = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface FrequencyConfig {
+  type: FrequencyType;
+  interval: number; // e.g., every 2 weeks, every 3 months
+  dayOfWeek?: number; // 0-6, for weekly
+  dayOfMonth?: number; // 1-31, for monthly; clamped to short months
+  weekOfMonth?: number; // 1-4 for "first Monday of month", 5 for the last one
+  monthOfYear?: number; // 1-12, for yearly
+  skipWeekends?: boolean; // Weekend occurrences move to the following Monday
+  endDate?: string; // YYYY-MM-DD, inclusive
+  customDescription?: string; // e.g., "Every 2nd and 4th Friday"
+}
+
+export interface RecurrenceOccurrence {
+  scheduledDate: string; // Date produced by the rule
+  date: string;          // Date the payment actually lands, after any weekend shift
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXPANSION_STEPS = 5000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Free-text frequencies stored before FrequencyConfig existed
+const LEGACY_FREQUENCIES: Record<string, Pick<FrequencyConfig, 'type' | 'interval'>> = {
+  daily: { type: 'daily', interval: 1 },
+  weekly: { type: 'weekly', interval: 1 },
+  biweekly: { type: 'weekly', interval: 2 },
+  'bi-weekly': { type: 'weekly', interval: 2 },
+  fortnightly: { type: 'weekly', interval: 2 },
+  monthly: { type: 'monthly', interval: 1 },
+  bimonthly: { type: 'monthly', interval: 2 },
+  'bi-monthly': { type: 'monthly', interval: 2 },
+  quarterly: { type: 'monthly', interval: 3 },
+  'semi-annually': { type: 'monthly', interval: 6 },
+  semiannually: { type: 'monthly', interval: 6 },
+  yearly: { type: 'yearly', interval: 1 },
+  annually: { type: 'yearly', interval: 1 },
+  annual: { type: 'yearly', interval: 1 }
+};
+
+const parseDate = (dateString: string): Date => new Date(`${dateString.slice(0, 10)}T00:00:00Z`);
+
+export const toDateOnly = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Convert a legacy string frequency ("Monthly", "bi-weekly", "quarterly", ...)
+ * into a FrequencyConfig. Unrecognized strings become a custom rule that keeps
+ * the original text as its description.
+ */
+export const migrateLegacyFrequency = (frequency: string): FrequencyConfig => {
+  const legacy = LEGACY_FREQUENCIES[frequency.trim().toLowerCase()];
+  return legacy ? { ...legacy } : { type: 'custom', interval: 1, customDescription: frequency };
+};
+
+/**
+ * A monthly or yearly rule that names no day, like a migrated "Monthly",
+ * takes its day (and, for yearly rules, its month) from `anchorDate`, the
+ * series' first or current due date. Without it each occurrence would follow
+ * the one before, so a series on the 31st would stay on the 28th after
+ * February.
+ */
+export const normalizeFrequency = (frequency: FrequencyConfig | string, anchorDate?: string): FrequencyConfig => {
+  const rule = typeof frequency === 'string'
+    ? migrateLegacyFrequency(frequency)
+    : { ...frequency, interval: Math.max(1, Math.floor(frequency.interval || 1)) };
+
+  const namesDay = rule.dayOfMonth !== undefined || (rule.weekOfMonth !== undefined && rule.dayOfWeek !== undefined);
+  if (!anchorDate || (rule.type !== 'monthly' && rule.type !== 'yearly') || namesDay) {
+    return rule;
+  }
+
+  const anchor = parseDate(anchorDate);
+  return {
+    ...rule,
+    dayOfMonth: anchor.getUTCDate(),
+    ...(rule.type === 'yearly' && rule.monthOfYear === undefined && { monthOfYear: anchor.getUTCMonth() + 1 })
+  };
+};
+
+const dateInMonth = (year: number, month: number, frequency: FrequencyConfig, fallbackDay: number): string => {
+  // Date.UTC normalizes month overflow, e.g. month 13 of 2025 is February 2026
+  const first = new Date(Date.UTC(year, month, 1));
+  const y = first.getUTCFullYear();
+  const m = first.getUTCMonth();
+  const lastDay = daysInMonth(y, m);
+
+  if (frequency.weekOfMonth && frequency.dayOfWeek !== undefined) {
+    let day = 1 + ((frequency.dayOfWeek - first.getUTCDay() + 7) % 7) + 7 * (frequency.weekOfMonth - 1);
+    while (day > lastDay) day -= 7;
+    return toDateOnly(new Date(Date.UTC(y, m, day)));
+  }
+
+  const day = Math.min(frequency.dayOfMonth || fallbackDay, lastDay);
+  return toDateOnly(new Date(Date.UTC(y, m, day)));
+};
+
+/**
+ * The scheduled date after `dateString`. Monthly and yearly rules land on
+ * `dayOfMonth` or, with `weekOfMonth`, on the nth `dayOfWeek` of the month;
+ * weekly rules snap to `dayOfWeek`. Custom rules have no machine-readable
+ * schedule and fall back to monthly.
+ */
+export const nextOccurrence = (dateString: string, frequency: FrequencyConfig): string => {
+  const date = parseDate(dateString);
+  const interval = Math.max(1, frequency.interval || 1);
+
+  switch (frequency.type) {
+    case 'daily':
+      return toDateOnly(addDays(date, interval));
+    case 'weekly': {
+      if (frequency.dayOfWeek === undefined) {
+        return toDateOnly(addDays(date, 7 * interval));
+      }
+      const base = addDays(date, 7 * (interval - 1));
+      const offset = ((frequency.dayOfWeek - base.getUTCDay() + 6) % 7) + 1;
+      return toDateOnly(addDays(base, offset));
+    }
+    case 'yearly': {
+      const month = frequency.monthOfYear ? frequency.monthOfYear - 1 : date.getUTCMonth();
+      return dateInMonth(date.getUTCFullYear() + interval, month, frequency, date.getUTCDate());
+    }
+    default:
+      return dateInMonth(date.getUTCFullYear(), date.getUTCMonth() + interval, frequency, date.getUTCDate());
+  }
+};
+
+// Saturdays and Sundays roll forward to Monday
+export const adjustForWeekend = (dateString: string): string => {
+  const date = parseDate(dateString);
+  const day = date.getUTCDay();
+  if (day === 6) return toDateOnly(addDays(date, 2));
+  if (day === 0) return toDateOnly(addDays(date, 1));
+  return dateString.slice(0, 10);
+};
+
+/**
+ * Every occurrence of a series starting at `firstDate` whose effective date
+ * falls within `rangeStart`..`rangeEnd` (inclusive).
+ */
+export const expandOccurrences = (
+  frequency: FrequencyConfig | string,
+  firstDate: string,
+  rangeStart: string,
+  rangeEnd: string
+): RecurrenceOccurrence[] => {
+  const rule = normalizeFrequency(frequency, firstDate);
+  const occurrences: RecurrenceOccurrence[] = [];
+  let scheduledDate = firstDate.slice(0, 10);
+
+  for (let step = 0; step < MAX_EXPANSION_STEPS && scheduledDate <= rangeEnd; step++) {
+    if (rule.endDate && scheduledDate > rule.endDate) break;
+
+    const date = rule.skipWeekends ? adjustForWeekend(scheduledDate) : scheduledDate;
+    if (date >= rangeStart && date <= rangeEnd) {
+      occurrences.push({ scheduledDate, date });
+    }
+
+    // Free-text rules can't be projected forward, so only their next due date is known
+    if (rule.type === 'custom') break;
+    scheduledDate = nextOccurrence(scheduledDate, rule);
+  }
+
+  return occurrences;
+};
+
+const formatRRuleDate = (dateString: string): string => dateString.slice(0, 10).replace(/-/g, '');
+
+const parseRRuleDate = (value: string): string => {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) {
+    throw new RecurrenceRuleError(`Invalid UNTIL value ${value}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+const weekdayPart = (frequency: FrequencyConfig): string | null => {
+  if (frequency.dayOfWeek === undefined) return null;
+  const code = WEEKDAY_CODES[frequency.dayOfWeek];
+  if (!code) {
+    throw new RecurrenceRuleError(`Invalid dayOfWeek ${frequency.dayOfWeek}`);
+  }
+  if (frequency.type === 'weekly') {
+    return `BYDAY=${code}`;
+  }
+  if ((frequency.type === 'monthly' || frequency.type === 'yearly') && frequency.weekOfMonth) {
+    return `BYDAY=${frequency.weekOfMonth >= 5 ? -1 : frequency.weekOfMonth}${code}`;
+  }
+  return null;
+};
+
+// RFC 5545 skips months that lack the day; these forms reproduce our clamp-to-month-end behavior
+const monthDayPart = (dayOfMonth: number): string => {
+  if (dayOfMonth >= 31) return 'BYMONTHDAY=-1';
+  if (dayOfMonth >= 29) {
+    const days: number[] = [];
+    for (let day = 28; day <= dayOfMonth; day++) days.push(day);
+    return `BYMONTHDAY=${days.join(',')};BYSETPOS=-1`;
+  }
+  return `BYMONTHDAY=${dayOfMonth}`;
+};
+
+/**
+ * Serialize a rule as an RFC 5545 RRULE value (without the `RRULE:` prefix).
+ * `skipWeekends` has no RRULE equivalent and is not included.
+ */
+export const toRRule = (frequency: FrequencyConfig | string): string => {
+  const rule = normalizeFrequency(frequency);
+  if (rule.type === 'custom') {
+    throw new RecurrenceRuleError('Custom frequencies cannot be expressed as an RRULE');
+  }
+
+  const parts = [`FREQ=${rule.type.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.type === 'yearly' && rule.monthOfYear) parts.push(`BYMONTH=${rule.monthOfYear}`);
+
+  const byDay = weekdayPart(rule);
+  if (byDay) {
+    parts.push(byDay);
+  } else if ((rule.type === 'monthly' || rule.type === 'yearly') && rule.dayOfMonth) {
+    parts.push(monthDayPart(rule.dayOfMonth));
+  }
+
+  if (rule.endDate) parts.push(`UNTIL=${formatRRuleDate(rule.endDate)}`);
+  return parts.join(';');
+};
+
+const parsePositiveInt = (name: string, value: string, max: number): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new RecurrenceRuleError(`Invalid ${name} value ${value}`);
+  }
+  return parsed;
+};
+
+const parseMonthDay = (value: string, setPos: string | undefined): number => {
+  if (value === '-1') return 31;
+
+  const days = value.split(',').map(day => parsePositiveInt('BYMONTHDAY', day, 31));
+  if (days.length === 1 && !setPos) return days[0];
+
+  const last = Math.max(...days);
+  const isClampForm = setPos === '-1' && days.every((day, i) => day === 28 + i) && last >= 29;
+  if (!isClampForm) {
+    throw new RecurrenceRuleError(`Unsupported BYMONTHDAY value ${value}`);
+  }
+  return last;
+};
+
+/**
+ * Parse an RRULE (with or without the `RRULE:` prefix) into a FrequencyConfig.
+ * `COUNT` is converted to an `endDate`, which needs the series' first date.
+ * Rules this app can't represent, such as several weekdays per week, are rejected.
+ */
+export const parseRRule = (rrule: string, dtstart?: string): FrequencyConfig => {
+  const parts = new Map<string, string>();
+  rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new RecurrenceRuleError(`Malformed RRULE part ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  });
+
+  const supported = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'UNTIL', 'COUNT', 'WKST']);
+  for (const key of parts.keys()) {
+    if (!supported.has(key)) {
+      throw new RecurrenceRuleError(`Unsupported RRULE part ${key}`);
+    }
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new RecurrenceRuleError(`Unsupported FREQ ${freq ?? '(missing)'}`);
+  }
+
+  const rule: FrequencyConfig = {
+    type: freq.toLowerCase() as FrequencyType,
+    interval: parts.has('INTERVAL') ? parsePositiveInt('INTERVAL', parts.get('INTERVAL')!, 999) : 1
+  };
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(byDay);
+    if (!match) {
+      throw new RecurrenceRuleError(`Unsupported BYDAY value ${byDay}`);
+    }
+    rule.dayOfWeek = WEEKDAY_CODES.indexOf(match[2]);
+
+    if (match[1]) {
+      const ordinal = Number(match[1]);
+      if (rule.type === 'weekly' || rule.type === 'daily' || !(ordinal === -1 || (ordinal >= 1 && ordinal <= 4))) {
+        throw new RecurrenceRuleError(`Unsupported BYDAY value ${byDay}`);
+      }
+      rule.weekOfMonth = ordinal === -1 ? 5 : ordinal;
+    }
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) {
+    rule.dayOfMonth = parseMonthDay(byMonthDay, parts.get('BYSETPOS'));
+  } else if (parts.has('BYSETPOS')) {
+    throw new RecurrenceRuleError('BYSETPOS is only supported with BYMONTHDAY');
+  }
+
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth) {
+    rule.monthOfYear = parsePositiveInt('BYMONTH', byMonth, 12);
+  }
+
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  if (until && count) {
+    throw new RecurrenceRuleError('UNTIL and COUNT cannot both be set');
+  }
+  if (until) {
+    rule.endDate = parseRRuleDate(until);
+  }
+  if (count) {
+    if (!dtstart) {
+      throw new RecurrenceRuleError('COUNT requires the series start date');
+    }
+    const total = parsePositiveInt('COUNT', count, MAX_EXPANSION_STEPS);
+    let date = dtstart.slice(0, 10);
+    for (let i = 1; i < total; i++) date = nextOccurrence(date, rule);
+    rule.endDate = date;
+  }
+
+  return rule;
+};
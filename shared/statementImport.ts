@@ -0,0 +1,544 @@
+/**
+ * Bank statement parsing shared by the frontend and backend.
+ *
+ * CSV, OFX/QFX and QIF files are read into statement rows with a signed
+ * amount: negative when money leaves the account, positive when it comes in.
+ * That holds for credit card statements too, where a charge is negative and
+ * a payment or refund positive. CSV columns are picked out by header name
+ * through a column mapping, which users save per bank. OFX and QFX are the
+ * same format (QFX adds Quicken's own headers) and are read in both their
+ * SGML and XML forms.
+ *
+ * Rows are matched against transactions already in the account by FITID,
+ * the bank's own transaction ID, when both sides have one, and otherwise by
+ * date, amount and description. Each existing transaction matches at most
+ * one row, so a second identical coffee on the same day still imports.
+ *
+ * Dates are plain `YYYY-MM-DD` strings. CSV and QIF rows keep the line of
+ * the file they start on, and OFX rows their position in the statement, since
+ * OFX files may hold every transaction on one line. That number identifies a
+ * row between the preview and the import.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export const STATEMENT_FORMATS: StatementFormat[] = ['csv', 'ofx', 'qif'];
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+export type DecimalSeparator = '.' | ',';
+
+export const DECIMAL_SEPARATORS: DecimalSeparator[] = ['.', ','];
+
+// Which CSV columns hold what, by header name. Amounts come from one signed column or a debit and a credit column
+export interface CsvColumnMapping {
+  delimiter: CsvDelimiter;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn?: string;
+  debitColumn?: string; // Money out, as a positive number
+  creditColumn?: string; // Money in
+  memoColumn?: string;
+  referenceColumn?: string; // The bank's transaction ID, used like an OFX FITID
+  dateFormat: StatementDateFormat;
+  invertAmounts?: boolean; // For exports that show money out as positive
+  decimalSeparator?: DecimalSeparator; // Worked out from each amount when missing
+}
+
+export interface StatementRow {
+  line: number;
+  date: string;
+  amount: number;
+  description: string;
+  memo?: string;
+  fitId?: string;
+}
+
+export interface StatementRowError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  headers?: string[]; // CSV only, for building a column mapping
+  rows: StatementRow[];
+  errors: StatementRowError[];
+}
+
+// A transaction already in the account, with its amount signed the way statement rows are
+export interface ExistingStatementTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  description: string;
+  fitId?: string;
+}
+
+export type DuplicateReason = 'fitid' | 'date_amount_description' | 'repeated_in_file';
+
+export interface DuplicateCheck {
+  duplicateOf: string | null; // The existing transaction's ID; null for rows repeated within the file
+  reason: DuplicateReason;
+}
+
+export type StatementAccountType = 'bank' | 'credit';
+
+export type StatementTransactionType = 'income' | 'expense' | 'payment';
+
+// The file can't be read as the format at all, as opposed to a row that can't be
+export class StatementFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementFormatError';
+  }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const isRealDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Two-digit years, and Quicken's `'4` style, are taken as 19xx from 50 up and 20xx below
+const fullYear = (year: string): number => {
+  const value = parseInt(year, 10);
+  if (year.length > 2) return value;
+  return value >= 50 ? 1900 + value : 2000 + value;
+};
+
+/**
+ * A statement date as `YYYY-MM-DD`, or null when the value isn't a real date
+ * in the format. Any of `/`, `-`, `.` or `'` may separate the parts.
+ */
+export const parseStatementDate = (value: string, format: StatementDateFormat): string | null => {
+  const parts = value.replace(/\s+/g, '').split(/[/\-.']/);
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? [fullYear(parts[0]), parseInt(parts[1], 10), parseInt(parts[2], 10)]
+    : format === 'MM/DD/YYYY'
+      ? [fullYear(parts[2]), parseInt(parts[0], 10), parseInt(parts[1], 10)]
+      : [fullYear(parts[2]), parseInt(parts[1], 10), parseInt(parts[0], 10)];
+
+  return isRealDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+};
+
+// Digits grouped in threes, or not grouped at all, then the fraction
+const AMOUNT_PATTERNS: Record<DecimalSeparator, RegExp> = {
+  '.': /^(-?)(\d{1,3}(?:,\d{3})+|\d*)(?:\.(\d*))?$/,
+  ',': /^(-?)(\d{1,3}(?:\.\d{3})+|\d*)(?:,(\d*))?$/
+};
+
+/**
+ * The decimal mark of an amount whose file doesn't say. With both a point
+ * and a comma the later one is the mark. A lone comma is one when at most
+ * two digits follow it, and a point that repeats separates thousands.
+ */
+const guessDecimalSeparator = (text: string): DecimalSeparator => {
+  const point = text.lastIndexOf('.');
+  const comma = text.lastIndexOf(',');
+  if (point >= 0 && comma >= 0) return comma > point ? ',' : '.';
+  if (comma >= 0) return /^-?\d+,\d{1,2}$/.test(text) ? ',' : '.';
+  return point >= 0 && point !== text.indexOf('.') ? ',' : '.';
+};
+
+/**
+ * An amount as written on a statement, or null when it isn't one. Currency
+ * symbols are ignored, and parentheses or a trailing minus mean negative.
+ * Thousands separators must group the digits in threes, so an amount written
+ * with the other decimal mark than expected, like "1.234,56" read with a
+ * decimal point, is rejected rather than read a thousand times too small.
+ */
+export const parseStatementAmount = (value: string, decimalSeparator?: DecimalSeparator): number | null => {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  text = text.replace(/[^\d.,-]/g, '');
+
+  const match = AMOUNT_PATTERNS[decimalSeparator ?? guessDecimalSeparator(text)].exec(text);
+  if (!match || !/\d/.test(match[2] + (match[3] ?? ''))) return null;
+  if (match[1] === '-') negative = !negative;
+  const amount = parseFloat(`${match[2].replace(/\D/g, '') || '0'}.${match[3] || '0'}`);
+  return round2(negative ? -amount : amount);
+};
+
+/**
+ * CSV records, with quoted fields that may hold delimiters, doubled quotes
+ * and line breaks. Each record keeps the line it starts on. Blank lines are
+ * skipped.
+ */
+export const parseCsvRecords = (text: string, delimiter: CsvDelimiter = ','): Array<{ line: number; fields: string[] }> => {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  return records;
+};
+
+// A CSV statement read through a column mapping. The first record is the header row
+export const parseCsvStatement = (text: string, mapping: CsvColumnMapping): ParsedStatement => {
+  const [header, ...records] = parseCsvRecords(text, mapping.delimiter);
+  if (!header) {
+    throw new StatementFormatError('The file is empty');
+  }
+
+  const headers = header.fields.map(name => name.trim());
+  const indexOf = (column: string | undefined): number | undefined => {
+    if (!column) return undefined;
+    const index = headers.findIndex(name => name.toLowerCase() === column.trim().toLowerCase());
+    if (index === -1) {
+      throw new StatementFormatError(`The file has no "${column}" column`);
+    }
+    return index;
+  };
+
+  if (!mapping.amountColumn && !mapping.debitColumn && !mapping.creditColumn) {
+    throw new StatementFormatError('Map an amount column, or a debit or credit column');
+  }
+  const columns = {
+    date: indexOf(mapping.dateColumn)!,
+    description: indexOf(mapping.descriptionColumn)!,
+    amount: indexOf(mapping.amountColumn),
+    debit: indexOf(mapping.debitColumn),
+    credit: indexOf(mapping.creditColumn),
+    memo: indexOf(mapping.memoColumn),
+    reference: indexOf(mapping.referenceColumn)
+  };
+
+  const rows: StatementRow[] = [];
+  const errors: StatementRowError[] = [];
+  for (const { line, fields } of records) {
+    const cell = (index: number | undefined): string => (index === undefined ? '' : (fields[index] ?? '').trim());
+
+    const date = parseStatementDate(cell(columns.date), mapping.dateFormat);
+    if (!date) {
+      errors.push({ line, message: `"${cell(columns.date)}" is not a ${mapping.dateFormat} date` });
+      continue;
+    }
+
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(cell(columns.amount), mapping.decimalSeparator);
+    } else {
+      const debit = cell(columns.debit) ? parseStatementAmount(cell(columns.debit), mapping.decimalSeparator) : 0;
+      const credit = cell(columns.credit) ? parseStatementAmount(cell(columns.credit), mapping.decimalSeparator) : 0;
+      amount = debit === null || credit === null || (!cell(columns.debit) && !cell(columns.credit))
+        ? null
+        : round2(Math.abs(credit) - Math.abs(debit));
+    }
+    if (amount === null) {
+      errors.push({ line, message: 'The row has no readable amount' });
+      continue;
+    }
+
+    const description = cell(columns.description);
+    const memo = cell(columns.memo);
+    const fitId = cell(columns.reference);
+    rows.push({
+      line,
+      date,
+      amount: mapping.invertAmounts ? -amount : amount,
+      description: description || memo || 'Imported transaction',
+      ...(memo && memo !== description && { memo }),
+      ...(fitId && { fitId })
+    });
+  }
+
+  return { format: 'csv', headers, rows, errors };
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// A leaf element's value. SGML OFX leaves out the closing tag, so the value runs to the next tag or line break
+const ofxValue = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+// An OFX or QFX statement's bank or credit card transactions
+export const parseOfxStatement = (text: string): ParsedStatement => {
+  if (!/<OFX>/i.test(text)) {
+    throw new StatementFormatError('This is not an OFX or QFX file');
+  }
+
+  const rows: StatementRow[] = [];
+  const errors: StatementRowError[] = [];
+  const transactions = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+  let match: RegExpExecArray | null;
+  let line = 0;
+  while ((match = transactions.exec(text)) !== null) {
+    line++;
+    const block = match[1];
+
+    const posted = ofxValue(block, 'DTPOSTED');
+    const date = /^\d{8}/.test(posted)
+      ? parseStatementDate(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`, 'YYYY-MM-DD')
+      : null;
+    if (!date) {
+      errors.push({ line, message: `"${posted}" is not an OFX date` });
+      continue;
+    }
+
+    const amount = parseStatementAmount(ofxValue(block, 'TRNAMT'));
+    if (amount === null) {
+      errors.push({ line, message: 'The transaction has no readable amount' });
+      continue;
+    }
+
+    const name = ofxValue(block, 'NAME') || ofxValue(block, 'PAYEE');
+    const memo = ofxValue(block, 'MEMO');
+    const checkNumber = ofxValue(block, 'CHECKNUM');
+    const fitId = ofxValue(block, 'FITID');
+    rows.push({
+      line,
+      date,
+      amount,
+      description: name || memo || (checkNumber ? `Check ${checkNumber}` : 'Imported transaction'),
+      ...(memo && memo !== name && { memo }),
+      ...(fitId && { fitId })
+    });
+  }
+
+  return { format: 'ofx', rows, errors };
+};
+
+// QIF account types that hold bank or credit card transactions
+const QIF_CASH_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+/**
+ * A QIF statement's bank, cash or credit card transactions. QIF has no fixed
+ * date order, so the caller says whether dates are month or day first.
+ * Investment sections and account lists are skipped.
+ */
+export const parseQifStatement = (text: string, dateFormat: StatementDateFormat = 'MM/DD/YYYY'): ParsedStatement => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (!lines.some(line => /^!Type:/i.test(line.trim()))) {
+    throw new StatementFormatError('This is not a QIF file');
+  }
+
+  const rows: StatementRow[] = [];
+  const errors: StatementRowError[] = [];
+  let inTransactions = false;
+  let sawInvestments = false;
+  let record: Record<string, string> = {};
+  let recordLine = 0;
+
+  const endRecord = () => {
+    if (!inTransactions || recordLine === 0) return;
+    const date = parseStatementDate(record.D ?? '', dateFormat);
+    const amount = parseStatementAmount(record.T ?? record.U ?? '');
+    if (!date) {
+      errors.push({ line: recordLine, message: `"${record.D ?? ''}" is not a ${dateFormat} date` });
+    } else if (amount === null) {
+      errors.push({ line: recordLine, message: 'The transaction has no readable amount' });
+    } else {
+      const payee = record.P ?? '';
+      const memo = record.M ?? '';
+      rows.push({
+        line: recordLine,
+        date,
+        amount,
+        description: payee || memo || (record.N ? `Check ${record.N}` : 'Imported transaction'),
+        ...(memo && memo !== payee && { memo })
+      });
+    }
+  };
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      const type = line.match(/^!Type:(.*)$/i)?.[1].trim().toLowerCase();
+      inTransactions = type !== undefined && QIF_CASH_TYPES.includes(type);
+      if (type === 'invst') sawInvestments = true;
+      record = {};
+      recordLine = 0;
+      return;
+    }
+    if (line === '^') {
+      endRecord();
+      record = {};
+      recordLine = 0;
+      return;
+    }
+
+    if (recordLine === 0) recordLine = index + 1;
+    const code = line[0].toUpperCase();
+    // Split lines (S, E, $) belong to the transaction's categories, not its totals, so only the first of each field counts
+    if (record[code] === undefined) record[code] = line.slice(1).trim();
+  });
+  endRecord();
+
+  if (rows.length === 0 && errors.length === 0 && sawInvestments) {
+    throw new StatementFormatError('Investment QIF files cannot be imported as bank transactions');
+  }
+  return { format: 'qif', rows, errors };
+};
+
+// The format a file is in, from its extension and failing that its contents
+export const detectStatementFormat = (fileName: string, content: string): StatementFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const start = content.slice(0, 2000);
+  if (/<OFX>|OFXHEADER/i.test(start)) return 'ofx';
+  if (/^\s*!Type:/im.test(start)) return 'qif';
+  return 'csv';
+};
+
+export interface StatementParseOptions {
+  mapping?: CsvColumnMapping; // Required for CSV
+  dateFormat?: StatementDateFormat; // QIF's date order, month first when missing
+}
+
+// The statement parsed as its format
+export const parseStatement = (format: StatementFormat, content: string, options: StatementParseOptions = {}): ParsedStatement => {
+  switch (format) {
+    case 'csv':
+      if (!options.mapping) {
+        throw new StatementFormatError('CSV files need a column mapping');
+      }
+      return parseCsvStatement(content, options.mapping);
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'qif':
+      return parseQifStatement(content, options.dateFormat);
+  }
+};
+
+// How a row is recorded: money in to a bank account is income, and to a credit card a payment
+export const toTransactionType = (amount: number, accountType: StatementAccountType): StatementTransactionType => {
+  if (amount < 0) return 'expense';
+  return accountType === 'credit' ? 'payment' : 'income';
+};
+
+// A recorded transaction's amount with the statement sign: negative when it took money out of the account
+export const signedStatementAmount = (type: string, amount: number, accountType: StatementAccountType): number => {
+  const magnitude = Math.abs(amount);
+  const moneyIn = accountType === 'credit' ? type === 'payment' : type === 'income';
+  return round2(moneyIn ? magnitude : -magnitude);
+};
+
+export const normalizeDescription = (description: string): string =>
+  description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Which rows are already in the account. A row with a FITID only matches an
+ * existing transaction by FITID, unless that transaction has none, in which
+ * case date, amount and description decide. Rows whose FITID appears earlier
+ * in the same file are duplicates too. Rows that aren't duplicates map to null.
+ */
+export const findDuplicates = (
+  rows: StatementRow[],
+  existing: ExistingStatementTransaction[]
+): Map<number, DuplicateCheck | null> => {
+  const byFitId = new Map<string, ExistingStatementTransaction>();
+  existing.forEach(transaction => {
+    if (transaction.fitId) byFitId.set(transaction.fitId, transaction);
+  });
+
+  const matchKey = (date: string, amount: number, description: string) =>
+    `${date}|${round2(amount).toFixed(2)}|${normalizeDescription(description)}`;
+  const byFields = new Map<string, ExistingStatementTransaction[]>();
+  existing.forEach(transaction => {
+    const key = matchKey(transaction.date, transaction.amount, transaction.description);
+    byFields.set(key, [...(byFields.get(key) ?? []), transaction]);
+  });
+
+  const matched = new Set<string>();
+  const seenFitIds = new Set<string>();
+  const results = new Map<number, DuplicateCheck | null>();
+
+  for (const row of rows) {
+    if (row.fitId) {
+      if (seenFitIds.has(row.fitId)) {
+        results.set(row.line, { duplicateOf: null, reason: 'repeated_in_file' });
+        continue;
+      }
+      seenFitIds.add(row.fitId);
+
+      const sameId = byFitId.get(row.fitId);
+      if (sameId && !matched.has(sameId.id)) {
+        matched.add(sameId.id);
+        results.set(row.line, { duplicateOf: sameId.id, reason: 'fitid' });
+        continue;
+      }
+    }
+
+    const candidate = (byFields.get(matchKey(row.date, row.amount, row.description)) ?? [])
+      .find(transaction => !matched.has(transaction.id) && !(row.fitId && transaction.fitId));
+    if (candidate) {
+      matched.add(candidate.id);
+      results.set(row.line, { duplicateOf: candidate.id, reason: 'date_amount_description' });
+    } else {
+      results.set(row.line, null);
+    }
+  }
+
+  return results;
+};
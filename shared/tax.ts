@@ -0,0 +1,514 @@
+/**
+ * Federal income tax estimation shared by the frontend and backend.
+ *
+ * Rules are versioned per tax year. A return for a year newer than the latest
+ * rules is estimated with that latest year (reported as `rulesYear`), while a
+ * year older than the earliest rules is rejected. The estimate covers ordinary
+ * brackets, standard or itemized deductions, self-employment tax, the child tax
+ * credit with its phase-out and the preferential rates on long-term gains and
+ * qualified dividends. It leaves out the AMT, the net investment income tax and
+ * the additional Medicare tax.
+ */
+
+export type FilingStatus = 'single' | 'married_jointly' | 'married_separately' | 'head_of_household' | 'qualifying_widow';
+
+type ByFilingStatus<T> = Record<FilingStatus, T>;
+
+// Upper bound of each bracket; the last bracket has no bound
+export interface TaxBracket {
+  upTo: number | null;
+  rate: number;
+}
+
+export interface TaxYearRules {
+  year: number;
+  version: string;
+  brackets: ByFilingStatus<TaxBracket[]>;
+  standardDeduction: ByFilingStatus<number>;
+  // Extra standard deduction per taxpayer or spouse aged 65 or older
+  additionalStandardDeduction: { unmarried: number; married: number };
+  // Senior deduction taken on top of either deduction type, phased out by AGI
+  seniorDeduction?: { amount: number; phaseOutStart: ByFilingStatus<number>; phaseOutRate: number };
+  capitalGains: {
+    zeroRateUpTo: ByFilingStatus<number>;
+    fifteenRateUpTo: ByFilingStatus<number>;
+  };
+  capitalLossLimit: ByFilingStatus<number>;
+  selfEmployment: {
+    socialSecurityWageBase: number;
+    socialSecurityRate: number;
+    medicareRate: number;
+    netEarningsFactor: number;
+    minimumNetEarnings: number;
+  };
+  childTaxCredit: {
+    amountPerChild: number;
+    refundablePerChild: number;
+    maxAge: number; // Children must be under this age at the end of the year
+    phaseOutStart: ByFilingStatus<number>;
+    phaseOutPerThousand: number;
+    refundableEarnedIncomeFloor: number;
+    refundableRate: number;
+  };
+  socialSecurityBenefits: {
+    baseAmount: ByFilingStatus<number>;
+    adjustedBaseAmount: ByFilingStatus<number>;
+  };
+  itemized: {
+    medicalAgiFloor: number;
+    saltCap: ByFilingStatus<number>;
+    // Cap shrinks by `rate` of AGI above `start`, but never below `floor`
+    saltCapPhaseOut?: { start: ByFilingStatus<number>; rate: number; floor: ByFilingStatus<number> };
+  };
+  adjustmentLimits: {
+    educatorExpenses: number;
+    studentLoanInterest: number;
+  };
+}
+
+// Structural view of a return; both the frontend TaxFormData and stored documents satisfy it
+export interface TaxEstimateInput {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  personalInfo?: {
+    dateOfBirth?: string;
+    spouseInfo?: { dateOfBirth?: string };
+    dependents?: Array<{ id: string; dateOfBirth?: string }>;
+  };
+  incomeData?: {
+    w2Income?: Array<{ wages?: number; federalTaxWithheld?: number; socialSecurityWages?: number }>;
+    form1099Income?: Array<{ type?: string; amount?: number; federalTaxWithheld?: number }>;
+    selfEmploymentIncome?: Array<{ grossReceipts?: number; netProfit?: number; businessExpenses?: Array<{ amount?: number }> }>;
+    retirementIncome?: Array<{ taxableAmount?: number; federalTaxWithheld?: number }>;
+    unemploymentCompensation?: number;
+    socialSecurityBenefits?: number;
+    otherIncome?: Array<{ amount?: number; taxable?: boolean }>;
+    capitalGains?: { shortTermGains?: number; longTermGains?: number; qualifiedDividends?: number };
+  };
+  deductionsData?: {
+    deductionType?: 'standard' | 'itemized';
+    itemizedDeductions?: {
+      medicalExpenses?: number;
+      stateAndLocalTaxes?: number;
+      mortgageInterest?: number;
+      charitableContributions?: Array<{ amount?: number }>;
+      miscellaneousDeductions?: number;
+    };
+    adjustments?: {
+      educatorExpenses?: number;
+      hsa_contributions?: number;
+      movingExpenses?: number;
+      studentLoanInterest?: number;
+    };
+  };
+  creditsData?: {
+    childTaxCredit?: { qualifyingChildren?: string[] };
+    earnedIncomeCredit?: { creditAmount?: number };
+    educationCredits?: Array<{ creditAmount?: number }>;
+    childAndDependentCareCredit?: { creditAmount?: number };
+    otherCredits?: Array<{ amount?: number }>;
+  };
+}
+
+export interface TaxEstimate {
+  totalTax: number;         // Income tax plus self-employment tax, before credits
+  taxLiability: number;     // After nonrefundable credits
+  refundAmount: number;     // Payments minus the liability; negative when tax is owed
+  effectiveTaxRate: number; // Liability as a percentage of total income
+  taxYear: number;
+  rulesYear: number;
+  rulesVersion: string;
+  totalIncome: number;
+  adjustments: number;
+  adjustedGrossIncome: number;
+  standardDeduction: number;
+  itemizedDeduction: number;
+  deduction: number; // The one claimed, plus any senior deduction
+  taxableIncome: number;
+  ordinaryIncomeTax: number;
+  capitalGainsTax: number;
+  selfEmploymentTax: number;
+  childTaxCredit: number;           // Nonrefundable part
+  additionalChildTaxCredit: number; // Refundable part
+  otherCredits: number;             // Other nonrefundable credits actually used
+  refundableCredits: number;
+  withholding: number;
+  marginalRate: number;
+}
+
+export class UnsupportedTaxYearError extends Error {
+  constructor(public readonly taxYear: number) {
+    super(`Tax year ${taxYear} is not supported`);
+    this.name = 'UnsupportedTaxYearError';
+  }
+}
+
+const brackets = (rates: number[], bounds: number[]): TaxBracket[] =>
+  rates.map((rate, index) => ({ upTo: bounds[index] ?? null, rate }));
+
+const RATES = [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+
+const CHILD_TAX_CREDIT_PHASE_OUT: ByFilingStatus<number> = {
+  single: 200000,
+  married_jointly: 400000,
+  married_separately: 200000,
+  head_of_household: 200000,
+  qualifying_widow: 200000
+};
+
+const CAPITAL_LOSS_LIMIT: ByFilingStatus<number> = {
+  single: 3000,
+  married_jointly: 3000,
+  married_separately: 1500,
+  head_of_household: 3000,
+  qualifying_widow: 3000
+};
+
+// Not indexed for inflation; separate filers are assumed to have lived with their spouse
+const SOCIAL_SECURITY_BENEFITS = {
+  baseAmount: { single: 25000, married_jointly: 32000, married_separately: 0, head_of_household: 25000, qualifying_widow: 25000 },
+  adjustedBaseAmount: { single: 34000, married_jointly: 44000, married_separately: 0, head_of_household: 34000, qualifying_widow: 34000 }
+};
+
+const SELF_EMPLOYMENT = {
+  socialSecurityRate: 0.124,
+  medicareRate: 0.029,
+  netEarningsFactor: 0.9235,
+  minimumNetEarnings: 400
+};
+
+const SALT_CAP: ByFilingStatus<number> = {
+  single: 10000,
+  married_jointly: 10000,
+  married_separately: 5000,
+  head_of_household: 10000,
+  qualifying_widow: 10000
+};
+
+export const TAX_YEAR_RULES: Record<number, TaxYearRules> = {
+  2023: {
+    year: 2023,
+    version: '2023.1',
+    brackets: {
+      single: brackets(RATES, [11000, 44725, 95375, 182100, 231250, 578125]),
+      married_jointly: brackets(RATES, [22000, 89450, 190750, 364200, 462500, 693750]),
+      married_separately: brackets(RATES, [11000, 44725, 95375, 182100, 231250, 346875]),
+      head_of_household: brackets(RATES, [15700, 59850, 95350, 182100, 231250, 578100]),
+      qualifying_widow: brackets(RATES, [22000, 89450, 190750, 364200, 462500, 693750])
+    },
+    standardDeduction: { single: 13850, married_jointly: 27700, married_separately: 13850, head_of_household: 20800, qualifying_widow: 27700 },
+    additionalStandardDeduction: { unmarried: 1850, married: 1500 },
+    capitalGains: {
+      zeroRateUpTo: { single: 44625, married_jointly: 89250, married_separately: 44625, head_of_household: 59750, qualifying_widow: 89250 },
+      fifteenRateUpTo: { single: 492300, married_jointly: 553850, married_separately: 276900, head_of_household: 523050, qualifying_widow: 553850 }
+    },
+    capitalLossLimit: CAPITAL_LOSS_LIMIT,
+    selfEmployment: { ...SELF_EMPLOYMENT, socialSecurityWageBase: 160200 },
+    childTaxCredit: {
+      amountPerChild: 2000,
+      refundablePerChild: 1600,
+      maxAge: 17,
+      phaseOutStart: CHILD_TAX_CREDIT_PHASE_OUT,
+      phaseOutPerThousand: 50,
+      refundableEarnedIncomeFloor: 2500,
+      refundableRate: 0.15
+    },
+    socialSecurityBenefits: SOCIAL_SECURITY_BENEFITS,
+    itemized: { medicalAgiFloor: 0.075, saltCap: SALT_CAP },
+    adjustmentLimits: { educatorExpenses: 300, studentLoanInterest: 2500 }
+  },
+  2024: {
+    year: 2024,
+    version: '2024.1',
+    brackets: {
+      single: brackets(RATES, [11600, 47150, 100525, 191950, 243725, 609350]),
+      married_jointly: brackets(RATES, [23200, 94300, 201050, 383900, 487450, 731200]),
+      married_separately: brackets(RATES, [11600, 47150, 100525, 191950, 243725, 365600]),
+      head_of_household: brackets(RATES, [16550, 63100, 100500, 191950, 243700, 609350]),
+      qualifying_widow: brackets(RATES, [23200, 94300, 201050, 383900, 487450, 731200])
+    },
+    standardDeduction: { single: 14600, married_jointly: 29200, married_separately: 14600, head_of_household: 21900, qualifying_widow: 29200 },
+    additionalStandardDeduction: { unmarried: 1950, married: 1550 },
+    capitalGains: {
+      zeroRateUpTo: { single: 47025, married_jointly: 94050, married_separately: 47025, head_of_household: 63000, qualifying_widow: 94050 },
+      fifteenRateUpTo: { single: 518900, married_jointly: 583750, married_separately: 291850, head_of_household: 551350, qualifying_widow: 583750 }
+    },
+    capitalLossLimit: CAPITAL_LOSS_LIMIT,
+    selfEmployment: { ...SELF_EMPLOYMENT, socialSecurityWageBase: 168600 },
+    childTaxCredit: {
+      amountPerChild: 2000,
+      refundablePerChild: 1700,
+      maxAge: 17,
+      phaseOutStart: CHILD_TAX_CREDIT_PHASE_OUT,
+      phaseOutPerThousand: 50,
+      refundableEarnedIncomeFloor: 2500,
+      refundableRate: 0.15
+    },
+    socialSecurityBenefits: SOCIAL_SECURITY_BENEFITS,
+    itemized: { medicalAgiFloor: 0.075, saltCap: SALT_CAP },
+    adjustmentLimits: { educatorExpenses: 300, studentLoanInterest: 2500 }
+  },
+  // Reflects the July 2025 changes to the standard deduction, child tax credit, SALT cap and senior deduction
+  2025: {
+    year: 2025,
+    version: '2025.2',
+    brackets: {
+      single: brackets(RATES, [11925, 48475, 103350, 197300, 250525, 626350]),
+      married_jointly: brackets(RATES, [23850, 96950, 206700, 394600, 501050, 751600]),
+      married_separately: brackets(RATES, [11925, 48475, 103350, 197300, 250525, 375800]),
+      head_of_household: brackets(RATES, [17000, 64850, 103350, 197300, 250500, 626350]),
+      qualifying_widow: brackets(RATES, [23850, 96950, 206700, 394600, 501050, 751600])
+    },
+    standardDeduction: { single: 15750, married_jointly: 31500, married_separately: 15750, head_of_household: 23625, qualifying_widow: 31500 },
+    additionalStandardDeduction: { unmarried: 2000, married: 1600 },
+    seniorDeduction: {
+      amount: 6000,
+      phaseOutStart: { single: 75000, married_jointly: 150000, married_separately: 0, head_of_household: 75000, qualifying_widow: 75000 },
+      phaseOutRate: 0.06
+    },
+    capitalGains: {
+      zeroRateUpTo: { single: 48350, married_jointly: 96700, married_separately: 48350, head_of_household: 64750, qualifying_widow: 96700 },
+      fifteenRateUpTo: { single: 533400, married_jointly: 600050, married_separately: 300000, head_of_household: 566700, qualifying_widow: 600050 }
+    },
+    capitalLossLimit: CAPITAL_LOSS_LIMIT,
+    selfEmployment: { ...SELF_EMPLOYMENT, socialSecurityWageBase: 176100 },
+    childTaxCredit: {
+      amountPerChild: 2200,
+      refundablePerChild: 1700,
+      maxAge: 17,
+      phaseOutStart: CHILD_TAX_CREDIT_PHASE_OUT,
+      phaseOutPerThousand: 50,
+      refundableEarnedIncomeFloor: 2500,
+      refundableRate: 0.15
+    },
+    socialSecurityBenefits: SOCIAL_SECURITY_BENEFITS,
+    itemized: {
+      medicalAgiFloor: 0.075,
+      saltCap: { single: 40000, married_jointly: 40000, married_separately: 20000, head_of_household: 40000, qualifying_widow: 40000 },
+      saltCapPhaseOut: {
+        start: { single: 500000, married_jointly: 500000, married_separately: 250000, head_of_household: 500000, qualifying_widow: 500000 },
+        rate: 0.3,
+        floor: SALT_CAP
+      }
+    },
+    adjustmentLimits: { educatorExpenses: 300, studentLoanInterest: 2500 }
+  }
+};
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_YEAR_RULES).map(Number).sort((a, b) => a - b);
+
+// Rules for a year, falling back to the newest earlier year for years not yet published
+export const getTaxYearRules = (taxYear: number): TaxYearRules => {
+  const rulesYear = SUPPORTED_TAX_YEARS.filter(year => year <= taxYear).pop();
+  if (rulesYear === undefined) {
+    throw new UnsupportedTaxYearError(taxYear);
+  }
+  return TAX_YEAR_RULES[rulesYear];
+};
+
+export const getStandardDeduction = (taxYear: number, filingStatus: FilingStatus): number =>
+  getTaxYearRules(taxYear).standardDeduction[filingStatus];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const sum = <T>(items: T[] | undefined, value: (item: T) => number | undefined): number =>
+  (items || []).reduce((total, item) => total + (Number(value(item)) || 0), 0);
+
+const positive = (value: number | undefined): number => Math.max(0, Number(value) || 0);
+
+export const calculateBracketTax = (taxableIncome: number, schedule: TaxBracket[]): number => {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of schedule) {
+    const upper = bracket.upTo ?? Infinity;
+    if (taxableIncome <= lower) break;
+    tax += (Math.min(taxableIncome, upper) - lower) * bracket.rate;
+    lower = upper;
+  }
+  return tax;
+};
+
+const marginalRateFor = (taxableIncome: number, schedule: TaxBracket[]): number =>
+  (schedule.find(bracket => bracket.upTo === null || taxableIncome <= bracket.upTo) ?? schedule[schedule.length - 1]).rate;
+
+// Portion of [from, to) that falls inside [low, high)
+const overlap = (from: number, to: number, low: number, high: number): number =>
+  Math.max(0, Math.min(to, high) - Math.max(from, low));
+
+// Age at the end of the tax year, or null without a usable birth date
+const ageAtYearEnd = (dateOfBirth: string | undefined, taxYear: number): number | null => {
+  if (!dateOfBirth || !/^\d{4}-\d{2}-\d{2}/.test(dateOfBirth)) return null;
+  return taxYear - Number(dateOfBirth.slice(0, 4));
+};
+
+/**
+ * Tax on long-term gains and qualified dividends, stacked on top of ordinary
+ * income as on the Qualified Dividends and Capital Gain Tax Worksheet
+ */
+const calculateCapitalGainsTax = (
+  ordinaryTaxable: number,
+  preferential: number,
+  rules: TaxYearRules,
+  filingStatus: FilingStatus
+): number => {
+  const top = ordinaryTaxable + preferential;
+  const zeroTop = rules.capitalGains.zeroRateUpTo[filingStatus];
+  const fifteenTop = rules.capitalGains.fifteenRateUpTo[filingStatus];
+  return overlap(ordinaryTaxable, top, zeroTop, fifteenTop) * 0.15 + overlap(ordinaryTaxable, top, fifteenTop, Infinity) * 0.2;
+};
+
+export const estimateFederalTax = (form: TaxEstimateInput): TaxEstimate => {
+  const rules = getTaxYearRules(form.taxYear);
+  const status = form.filingStatus;
+  const income = form.incomeData || {};
+  const deductions = form.deductionsData || {};
+  const credits = form.creditsData || {};
+  const married = status === 'married_jointly' || status === 'married_separately';
+
+  // Income
+  const wages = sum(income.w2Income, w2 => w2.wages);
+  const form1099 = income.form1099Income || [];
+  const nonemployeeCompensation = sum(form1099.filter(f => f.type === '1099-NEC'), f => f.amount);
+  const other1099 = sum(form1099.filter(f => f.type !== '1099-NEC'), f => f.amount);
+  const businessProfit = sum(income.selfEmploymentIncome, business =>
+    business.netProfit ?? positive(business.grossReceipts) - sum(business.businessExpenses, expense => expense.amount));
+  const selfEmploymentProfit = businessProfit + nonemployeeCompensation;
+  const retirement = sum(income.retirementIncome, r => r.taxableAmount);
+  const otherIncome = sum((income.otherIncome || []).filter(o => o.taxable !== false), o => o.amount);
+  const unemployment = positive(income.unemploymentCompensation);
+
+  const shortTerm = Number(income.capitalGains?.shortTermGains) || 0;
+  const longTerm = Number(income.capitalGains?.longTermGains) || 0;
+  const netCapitalGain = shortTerm + longTerm;
+  const capitalGainIncome = netCapitalGain >= 0 ? netCapitalGain : -Math.min(-netCapitalGain, rules.capitalLossLimit[status]);
+  // Qualified dividends are reported within 1099-DIV amounts, so they add to the preferential share only
+  const qualifiedDividends = positive(income.capitalGains?.qualifiedDividends);
+  const preferentialIncome = Math.max(0, Math.min(longTerm, netCapitalGain)) + qualifiedDividends;
+
+  // Self-employment tax
+  const se = rules.selfEmployment;
+  const netEarnings = Math.max(0, selfEmploymentProfit) * se.netEarningsFactor;
+  const socialSecurityWages = sum(income.w2Income, w2 => w2.socialSecurityWages || w2.wages);
+  const selfEmploymentTax = netEarnings < se.minimumNetEarnings ? 0 :
+    Math.min(netEarnings, Math.max(0, se.socialSecurityWageBase - socialSecurityWages)) * se.socialSecurityRate +
+    netEarnings * se.medicareRate;
+
+  // Adjustments
+  const adjustmentInput = deductions.adjustments || {};
+  const educatorLimit = rules.adjustmentLimits.educatorExpenses * (status === 'married_jointly' ? 2 : 1);
+  const adjustments =
+    Math.min(positive(adjustmentInput.educatorExpenses), educatorLimit) +
+    positive(adjustmentInput.hsa_contributions) +
+    positive(adjustmentInput.movingExpenses) +
+    Math.min(positive(adjustmentInput.studentLoanInterest), rules.adjustmentLimits.studentLoanInterest) +
+    selfEmploymentTax / 2;
+
+  // Social Security benefits are taxable in part, depending on the rest of the return
+  const benefits = positive(income.socialSecurityBenefits);
+  const incomeBeforeBenefits = wages + other1099 + selfEmploymentProfit + retirement + otherIncome + unemployment + capitalGainIncome;
+  const provisional = incomeBeforeBenefits - adjustments + benefits / 2;
+  const base = rules.socialSecurityBenefits.baseAmount[status];
+  const adjustedBase = rules.socialSecurityBenefits.adjustedBaseAmount[status];
+  const taxableBenefits = provisional <= base ? 0 :
+    provisional <= adjustedBase ? Math.min(benefits / 2, (provisional - base) / 2) :
+    Math.min(0.85 * benefits, 0.85 * (provisional - adjustedBase) + Math.min(benefits / 2, (adjustedBase - base) / 2));
+
+  const totalIncome = incomeBeforeBenefits + taxableBenefits;
+  const adjustedGrossIncome = Math.max(0, totalIncome - adjustments);
+
+  // Deductions
+  const seniors = [form.personalInfo?.dateOfBirth, married ? form.personalInfo?.spouseInfo?.dateOfBirth : undefined]
+    .filter(dateOfBirth => (ageAtYearEnd(dateOfBirth, form.taxYear) ?? 0) >= 65).length;
+  const standardDeduction = rules.standardDeduction[status] +
+    seniors * (married || status === 'qualifying_widow' ? rules.additionalStandardDeduction.married : rules.additionalStandardDeduction.unmarried);
+
+  const itemizedInput = deductions.itemizedDeductions || {};
+  let saltCap = rules.itemized.saltCap[status];
+  if (rules.itemized.saltCapPhaseOut) {
+    const phaseOut = rules.itemized.saltCapPhaseOut;
+    saltCap = Math.max(phaseOut.floor[status], saltCap - Math.max(0, adjustedGrossIncome - phaseOut.start[status]) * phaseOut.rate);
+  }
+  const itemizedDeduction =
+    Math.max(0, positive(itemizedInput.medicalExpenses) - adjustedGrossIncome * rules.itemized.medicalAgiFloor) +
+    Math.min(positive(itemizedInput.stateAndLocalTaxes), saltCap) +
+    positive(itemizedInput.mortgageInterest) +
+    sum(itemizedInput.charitableContributions, contribution => contribution.amount) +
+    positive(itemizedInput.miscellaneousDeductions);
+
+  let seniorDeduction = 0;
+  if (rules.seniorDeduction && status !== 'married_separately' && seniors > 0) {
+    const senior = rules.seniorDeduction;
+    const reduction = Math.max(0, adjustedGrossIncome - senior.phaseOutStart[status]) * senior.phaseOutRate;
+    seniorDeduction = seniors * Math.max(0, senior.amount - reduction);
+  }
+
+  const claimedDeduction = deductions.deductionType === 'itemized' ? itemizedDeduction : standardDeduction;
+  const deduction = claimedDeduction + seniorDeduction;
+  const taxableIncome = Math.max(0, adjustedGrossIncome - deduction);
+
+  // Income tax
+  const schedule = rules.brackets[status];
+  const preferentialTaxable = Math.min(preferentialIncome, taxableIncome);
+  const ordinaryTaxable = taxableIncome - preferentialTaxable;
+  const ordinaryIncomeTax = calculateBracketTax(ordinaryTaxable, schedule);
+  const capitalGainsTax = calculateCapitalGainsTax(ordinaryTaxable, preferentialTaxable, rules, status);
+  const incomeTax = Math.min(ordinaryIncomeTax + capitalGainsTax, calculateBracketTax(taxableIncome, schedule));
+
+  // Child tax credit: phased out per $1,000 (or part of it) of AGI over the threshold
+  const ctc = rules.childTaxCredit;
+  const dependents = form.personalInfo?.dependents || [];
+  const qualifyingChildren = (credits.childTaxCredit?.qualifyingChildren || []).filter(id => {
+    const age = ageAtYearEnd(dependents.find(dependent => dependent.id === id)?.dateOfBirth, form.taxYear);
+    return age === null || age < ctc.maxAge;
+  }).length;
+  const phaseOutSteps = Math.ceil(Math.max(0, adjustedGrossIncome - ctc.phaseOutStart[status]) / 1000);
+  const childCreditAvailable = Math.max(0, qualifyingChildren * ctc.amountPerChild - phaseOutSteps * ctc.phaseOutPerThousand);
+  const childTaxCredit = Math.min(childCreditAvailable, incomeTax);
+
+  const earnedIncome = wages + Math.max(0, netEarnings - selfEmploymentTax / 2);
+  const additionalChildTaxCredit = Math.min(
+    childCreditAvailable - childTaxCredit,
+    qualifyingChildren * ctc.refundablePerChild,
+    Math.max(0, earnedIncome - ctc.refundableEarnedIncomeFloor) * ctc.refundableRate
+  );
+
+  const otherNonrefundable =
+    positive(credits.childAndDependentCareCredit?.creditAmount) +
+    sum(credits.educationCredits, credit => credit.creditAmount) +
+    sum(credits.otherCredits, credit => credit.amount);
+  const otherCredits = Math.min(otherNonrefundable, incomeTax - childTaxCredit);
+  const refundableCredits = additionalChildTaxCredit + positive(credits.earnedIncomeCredit?.creditAmount);
+
+  const totalTax = incomeTax + selfEmploymentTax;
+  const taxLiability = totalTax - childTaxCredit - otherCredits;
+  const withholding =
+    sum(income.w2Income, w2 => w2.federalTaxWithheld) +
+    sum(form1099, f => f.federalTaxWithheld) +
+    sum(income.retirementIncome, r => r.federalTaxWithheld);
+
+  return {
+    totalTax: round2(totalTax),
+    taxLiability: round2(taxLiability),
+    refundAmount: round2(withholding + refundableCredits - taxLiability),
+    effectiveTaxRate: totalIncome > 0 ? round2((taxLiability / totalIncome) * 100) : 0,
+    taxYear: form.taxYear,
+    rulesYear: rules.year,
+    rulesVersion: rules.version,
+    totalIncome: round2(totalIncome),
+    adjustments: round2(adjustments),
+    adjustedGrossIncome: round2(adjustedGrossIncome),
+    standardDeduction: round2(standardDeduction),
+    itemizedDeduction: round2(itemizedDeduction),
+    deduction: round2(deduction),
+    taxableIncome: round2(taxableIncome),
+    ordinaryIncomeTax: round2(ordinaryIncomeTax),
+    capitalGainsTax: round2(capitalGainsTax),
+    selfEmploymentTax: round2(selfEmploymentTax),
+    childTaxCredit: round2(childTaxCredit),
+    additionalChildTaxCredit: round2(additionalChildTaxCredit),
+    otherCredits: round2(otherCredits),
+    refundableCredits: round2(refundableCredits),
+    withholding: round2(withholding),
+    marginalRate: marginalRateFor(ordinaryTaxable, schedule)
+  };
+};
@@ -0,0 +1,558 @@
+/**
+ * Tax-lot accounting shared by the frontend and backend.
+ *
+ * Every buy opens a lot. A sell draws shares from the open lots of the same
+ * symbol in the same account, using the cost basis method recorded on the
+ * sale, and realizes a short- or long-term gain per lot it draws from. A loss
+ * is a wash sale to the extent the same symbol was bought, in any account,
+ * within 30 days before or after the sale: that part of the loss is disallowed
+ * and moves into the replacement shares' basis, along with the sold shares'
+ * holding period.
+ *
+ * Dividends reinvested in more shares open a lot like a buy. Splits, spin-offs
+ * and symbol changes adjust the lots already held in the account on their
+ * date: a split scales the shares and keeps the basis, a spin-off moves part
+ * of each lot's basis into a lot of the new company with the same holding
+ * period, and a symbol change renames the lots.
+ *
+ * Dates are plain `YYYY-MM-DD` strings and day counts are done in UTC.
+ */
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'specific_id' | 'average_cost';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'specific_id', 'average_cost'];
+
+export type StockTransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'spin_off' | 'symbol_change';
+
+export const STOCK_TRANSACTION_TYPES: StockTransactionType[] = ['buy', 'sell', 'dividend', 'split', 'spin_off', 'symbol_change'];
+
+// Events that change the lots already held rather than buying or selling shares
+export const CORPORATE_ACTION_TYPES: StockTransactionType[] = ['split', 'spin_off', 'symbol_change'];
+
+export interface LotSelection {
+  lotId: string;
+  shares: number;
+}
+
+// The parts of a stock transaction the ledger reads
+export interface LotTransaction {
+  id: string;
+  type: StockTransactionType;
+  stockSymbol: string;
+  accountId: string;
+  shares: number; // Reinvested dividends: the shares bought; other events: 0
+  price: number;
+  fees: number;
+  date: string;
+  costBasisMethod?: CostBasisMethod; // Sells only; FIFO when absent
+  lotSelections?: LotSelection[]; // Sells using specific_id
+  reinvested?: boolean; // Dividends only
+  // Splits: shares after per share before (2 for a 2-for-1 split, 0.1 for a 1-for-10 reverse split).
+  // Spin-offs: shares of the new company per share held
+  ratio?: number;
+  newSymbol?: string; // Spin-offs and symbol changes
+  basisAllocation?: number; // Spin-offs: the fraction of each lot's basis that moves to the new shares
+}
+
+export interface TaxLot {
+  id: string; // The buy's id, or `<buy id>:<sale id>` for shares split off as a wash sale replacement
+  buyTransactionId: string;
+  stockSymbol: string;
+  accountId: string;
+  acquiredDate: string;
+  // Earlier than acquiredDate when a wash sale carried over the sold shares' holding period
+  holdingPeriodStart: string;
+  shares: number; // As bought (or split off)
+  remainingShares: number;
+  costBasis: number; // Of the remaining shares, including buy fees and any wash sale adjustment
+  washSaleAdjustment: number; // Disallowed loss added to the basis
+  washSaleOf?: string; // The sale whose loss these shares replaced
+  spunOffFrom?: string; // The lot these shares were spun off from
+}
+
+export interface RealizedGain {
+  saleId: string;
+  lotId: string;
+  stockSymbol: string;
+  accountId: string;
+  acquiredDate: string;
+  soldDate: string;
+  shares: number;
+  proceeds: number; // Net of the sale's fees, shared pro rata across the lots drawn
+  costBasis: number;
+  // The part of a loss disallowed by a wash sale; reported as a positive adjustment
+  washSaleDisallowed: number;
+  replacementLotIds: string[];
+  gain: number; // proceeds - costBasis + washSaleDisallowed
+  term: 'short' | 'long';
+}
+
+export interface LotLedger {
+  lots: TaxLot[]; // Open lots, oldest first
+  gains: RealizedGain[]; // In sale order
+}
+
+export interface Form8949Row {
+  saleId: string;
+  lotId: string;
+  description: string;
+  dateAcquired: string;
+  dateSold: string;
+  proceeds: number;
+  costBasis: number;
+  adjustmentCode: 'W' | '';
+  adjustment: number;
+  gain: number;
+}
+
+export interface Form8949Totals {
+  proceeds: number;
+  costBasis: number;
+  adjustment: number;
+  gain: number;
+}
+
+export interface Form8949Part {
+  rows: Form8949Row[];
+  totals: Form8949Totals;
+}
+
+// Part I holds short-term sales and Part II long-term ones; `capitalGains` feeds the tax form
+export interface Form8949Report {
+  taxYear: number;
+  shortTerm: Form8949Part;
+  longTerm: Form8949Part;
+  capitalGains: { shortTermGains: number; longTermGains: number };
+}
+
+// A summary of the open lots per symbol and account
+export interface LotHolding {
+  stockSymbol: string;
+  accountId: string;
+  shares: number;
+  costBasis: number;
+}
+
+// What the dividend summary reads from a stock transaction
+export interface DividendRecord {
+  id: string;
+  type: StockTransactionType;
+  stockSymbol: string;
+  stockName?: string;
+  date: string;
+  totalAmount: number; // The dividend paid, whether taken as cash or reinvested
+  reinvested?: boolean;
+  qualified?: boolean;
+}
+
+export interface DividendIncomeRow {
+  stockSymbol: string;
+  stockName: string;
+  ordinaryDividends: number; // 1099-DIV box 1a
+  qualifiedDividends: number; // 1099-DIV box 1b, part of box 1a
+  reinvestedDividends: number; // Part of box 1a that bought more shares
+  dividendIds: string[];
+}
+
+export interface DividendIncomeSummary {
+  taxYear: number;
+  rows: DividendIncomeRow[];
+  totals: Pick<DividendIncomeRow, 'ordinaryDividends' | 'qualifiedDividends' | 'reinvestedDividends'>;
+}
+
+export class TaxLotError extends Error {
+  constructor(message: string, public readonly transactionId: string) {
+    super(message);
+    this.name = 'TaxLotError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WASH_SALE_WINDOW_DAYS = 30;
+// Fractional shares are compared with a tolerance so repeated pro rata splits still close a lot
+const SHARE_EPSILON = 1e-9;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const toDay = (date: string): number => Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS;
+
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+// Held more than one year: sold after the anniversary of the start of the holding period
+export const isLongTerm = (holdingPeriodStart: string, soldDate: string): boolean => {
+  const anniversary = `${Number(holdingPeriodStart.slice(0, 4)) + 1}${holdingPeriodStart.slice(4, 10)}`;
+  return soldDate.slice(0, 10) > anniversary;
+};
+
+const lotKey = (symbol: string, accountId: string) => `${symbol.toUpperCase()}|${accountId}`;
+
+// Within a day, shares are bought before corporate actions apply to them and sales come last
+const SAME_DAY_ORDER: Record<StockTransactionType, number> = {
+  buy: 0,
+  dividend: 0,
+  split: 1,
+  spin_off: 1,
+  symbol_change: 1,
+  sell: 2
+};
+
+export const chronological = <T extends Pick<LotTransaction, 'type' | 'date'>>(transactions: T[]): T[] =>
+  transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) =>
+      a.transaction.date.slice(0, 10).localeCompare(b.transaction.date.slice(0, 10))
+      || SAME_DAY_ORDER[a.transaction.type] - SAME_DAY_ORDER[b.transaction.type]
+      || a.index - b.index)
+    .map(({ transaction }) => transaction);
+
+const opensLot = (transaction: LotTransaction): boolean =>
+  transaction.type === 'buy' || (transaction.type === 'dividend' && !!transaction.reinvested && transaction.shares > 0);
+
+const openLot = (buy: LotTransaction): TaxLot => ({
+  id: buy.id,
+  buyTransactionId: buy.id,
+  stockSymbol: buy.stockSymbol.toUpperCase(),
+  accountId: buy.accountId,
+  acquiredDate: buy.date.slice(0, 10),
+  holdingPeriodStart: buy.date.slice(0, 10),
+  shares: buy.shares,
+  remainingShares: buy.shares,
+  costBasis: buy.shares * buy.price + (buy.fees || 0),
+  washSaleAdjustment: 0
+});
+
+interface Draw {
+  lot: TaxLot;
+  shares: number;
+}
+
+const drawInOrder = (lots: TaxLot[], shares: number): Draw[] => {
+  const draws: Draw[] = [];
+  let needed = shares;
+  for (const lot of lots) {
+    if (needed <= SHARE_EPSILON) break;
+    const taken = Math.min(lot.remainingShares, needed);
+    draws.push({ lot, shares: taken });
+    needed -= taken;
+  }
+  return draws;
+};
+
+const selectLots = (sale: LotTransaction, pool: TaxLot[]): Draw[] => {
+  const method = sale.costBasisMethod ?? 'fifo';
+  switch (method) {
+    case 'fifo':
+    case 'average_cost':
+      // Average cost still draws the oldest shares first, which decides the holding period
+      return drawInOrder(pool, sale.shares);
+    case 'lifo':
+      return drawInOrder([...pool].reverse(), sale.shares);
+    case 'specific_id': {
+      const selections = sale.lotSelections ?? [];
+      const selected = selections.reduce((sum, selection) => sum + selection.shares, 0);
+      if (Math.abs(selected - sale.shares) > SHARE_EPSILON) {
+        throw new TaxLotError(`Selected lots hold ${selected} shares but the sale is for ${sale.shares}`, sale.id);
+      }
+      return selections.map(selection => {
+        const lot = pool.find(candidate => candidate.id === selection.lotId);
+        if (!lot) {
+          throw new TaxLotError(`Lot ${selection.lotId} is not an open ${sale.stockSymbol} lot in this account`, sale.id);
+        }
+        if (selection.shares <= 0 || selection.shares > lot.remainingShares + SHARE_EPSILON) {
+          throw new TaxLotError(`Lot ${selection.lotId} has ${lot.remainingShares} shares left`, sale.id);
+        }
+        return { lot, shares: Math.min(selection.shares, lot.remainingShares) };
+      });
+    }
+  }
+};
+
+/**
+ * Move a wash sale's disallowed loss into replacement shares, earliest bought
+ * first. Shares drawn by the sale itself and shares already used as a
+ * replacement are not eligible; a partly used lot is split so the adjusted
+ * shares keep their own basis and holding period.
+ */
+const applyWashSale = (
+  lots: TaxLot[],
+  sale: LotTransaction,
+  soldLot: TaxLot,
+  shares: number,
+  loss: number,
+  drawnLotIds: Set<string>
+): { disallowed: number; replacementLotIds: string[] } => {
+  const saleDay = toDay(sale.date);
+  const heldDays = saleDay - toDay(soldLot.holdingPeriodStart);
+  const lossPerShare = loss / shares;
+  const candidates = lots
+    .filter(lot =>
+      lot.stockSymbol === soldLot.stockSymbol
+      && !drawnLotIds.has(lot.id)
+      && !lot.washSaleOf
+      && !lot.spunOffFrom
+      && lot.remainingShares > SHARE_EPSILON
+      && Math.abs(toDay(lot.acquiredDate) - saleDay) <= WASH_SALE_WINDOW_DAYS)
+    .sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate));
+
+  let needed = shares;
+  let disallowed = 0;
+  const replacementLotIds: string[] = [];
+  for (const candidate of candidates) {
+    if (needed <= SHARE_EPSILON) break;
+    const replaced = Math.min(needed, candidate.remainingShares);
+    let replacement = candidate;
+    if (candidate.remainingShares - replaced > SHARE_EPSILON) {
+      const basis = candidate.costBasis * replaced / candidate.remainingShares;
+      replacement = { ...candidate, id: `${candidate.id}:${sale.id}`, shares: replaced, remainingShares: replaced, costBasis: basis };
+      candidate.remainingShares -= replaced;
+      candidate.shares -= replaced;
+      candidate.costBasis -= basis;
+      lots.splice(lots.indexOf(candidate) + 1, 0, replacement);
+    }
+
+    const adjustment = lossPerShare * replaced;
+    replacement.costBasis += adjustment;
+    replacement.washSaleAdjustment += adjustment;
+    replacement.washSaleOf = sale.id;
+    replacement.holdingPeriodStart = fromDay(toDay(replacement.acquiredDate) - heldDays);
+    disallowed += adjustment;
+    replacementLotIds.push(replacement.id);
+    needed -= replaced;
+  }
+
+  return { disallowed, replacementLotIds };
+};
+
+const heldLots = (lots: TaxLot[], transaction: LotTransaction): TaxLot[] => {
+  const date = transaction.date.slice(0, 10);
+  const key = lotKey(transaction.stockSymbol, transaction.accountId);
+  return lots.filter(lot =>
+    lotKey(lot.stockSymbol, lot.accountId) === key
+    && lot.acquiredDate <= date
+    && lot.remainingShares > SHARE_EPSILON);
+};
+
+const realizeSale = (lots: TaxLot[], sale: LotTransaction): RealizedGain[] => {
+  const gains: RealizedGain[] = [];
+  const saleDate = sale.date.slice(0, 10);
+  const pool = heldLots(lots, sale);
+
+  const held = pool.reduce((sum, lot) => sum + lot.remainingShares, 0);
+  if (sale.shares > held + SHARE_EPSILON) {
+    throw new TaxLotError(`Sale of ${sale.shares} ${sale.stockSymbol} on ${saleDate} exceeds the ${held} shares held`, sale.id);
+  }
+
+  if (sale.costBasisMethod === 'average_cost') {
+    // Under average cost every share in the account carries the same basis
+    const perShare = pool.reduce((sum, lot) => sum + lot.costBasis, 0) / held;
+    pool.forEach(lot => { lot.costBasis = perShare * lot.remainingShares; });
+  }
+
+  const draws = selectLots(sale, pool);
+  const drawnLotIds = new Set(draws.map(draw => draw.lot.id));
+  const netProceeds = sale.shares * sale.price - (sale.fees || 0);
+
+  for (const { lot, shares } of draws) {
+    const costBasis = lot.costBasis * shares / lot.remainingShares;
+    const proceeds = netProceeds * shares / sale.shares;
+    lot.remainingShares -= shares;
+    lot.costBasis -= costBasis;
+    if (lot.remainingShares <= SHARE_EPSILON) {
+      lot.remainingShares = 0;
+      lot.costBasis = 0;
+    }
+
+    const loss = costBasis - proceeds;
+    const wash = loss > 0
+      ? applyWashSale(lots, sale, lot, shares, loss, drawnLotIds)
+      : { disallowed: 0, replacementLotIds: [] };
+
+    gains.push({
+      saleId: sale.id,
+      lotId: lot.id,
+      stockSymbol: lot.stockSymbol,
+      accountId: lot.accountId,
+      acquiredDate: lot.acquiredDate,
+      soldDate: saleDate,
+      shares,
+      proceeds,
+      costBasis,
+      washSaleDisallowed: wash.disallowed,
+      replacementLotIds: wash.replacementLotIds,
+      gain: proceeds - costBasis + wash.disallowed,
+      term: isLongTerm(lot.holdingPeriodStart, saleDate) ? 'long' : 'short'
+    });
+  }
+
+  return gains;
+};
+
+const applyCorporateAction = (lots: TaxLot[], action: LotTransaction): void => {
+  const pool = heldLots(lots, action);
+  if (pool.length === 0) {
+    throw new TaxLotError(`No ${action.stockSymbol} shares were held in this account on ${action.date.slice(0, 10)}`, action.id);
+  }
+  const ratio = action.ratio ?? 0;
+  const newSymbol = (action.newSymbol ?? '').toUpperCase();
+
+  switch (action.type) {
+    case 'split':
+      if (!(ratio > 0)) throw new TaxLotError('A split needs a positive ratio', action.id);
+      pool.forEach(lot => {
+        lot.shares *= ratio;
+        lot.remainingShares *= ratio;
+      });
+      return;
+
+    case 'symbol_change':
+      if (!newSymbol) throw new TaxLotError('A symbol change needs the new symbol', action.id);
+      pool.forEach(lot => { lot.stockSymbol = newSymbol; });
+      return;
+
+    case 'spin_off': {
+      const allocation = action.basisAllocation ?? 0;
+      if (!newSymbol || !(ratio > 0) || allocation < 0 || allocation > 1) {
+        throw new TaxLotError('A spin-off needs the new symbol, a positive ratio and a basis allocation between 0 and 1', action.id);
+      }
+      pool.forEach(lot => {
+        const shares = lot.remainingShares * ratio;
+        const costBasis = lot.costBasis * allocation;
+        lot.costBasis -= costBasis;
+        lots.splice(lots.indexOf(lot) + 1, 0, {
+          id: `${lot.id}:${action.id}`,
+          buyTransactionId: lot.buyTransactionId,
+          stockSymbol: newSymbol,
+          accountId: lot.accountId,
+          acquiredDate: lot.acquiredDate,
+          holdingPeriodStart: lot.holdingPeriodStart,
+          shares,
+          remainingShares: shares,
+          costBasis,
+          washSaleAdjustment: 0,
+          spunOffFrom: lot.id
+        });
+      });
+      return;
+    }
+  }
+};
+
+/**
+ * Replay a user's stock transactions into lots and realized gains. Throws a
+ * `TaxLotError` naming the transaction when a sell exceeds the shares held or
+ * its lot selection does not match the open lots, or when a corporate action
+ * applies to shares that were not held.
+ */
+export const buildLotLedger = (transactions: LotTransaction[]): LotLedger => {
+  const ordered = chronological(transactions);
+  // Every lot exists from the start so a loss can find replacements bought after it
+  const lots = ordered.filter(opensLot).map(openLot);
+  const gains: RealizedGain[] = [];
+
+  for (const transaction of ordered) {
+    if (transaction.type === 'sell') {
+      gains.push(...realizeSale(lots, transaction));
+    } else if (CORPORATE_ACTION_TYPES.includes(transaction.type)) {
+      applyCorporateAction(lots, transaction);
+    }
+  }
+
+  return { lots: lots.filter(lot => lot.remainingShares > SHARE_EPSILON), gains };
+};
+
+export const summarizeHoldings = (lots: TaxLot[]): LotHolding[] => {
+  const holdings = new Map<string, LotHolding>();
+  lots.forEach(lot => {
+    const key = lotKey(lot.stockSymbol, lot.accountId);
+    const holding = holdings.get(key) ?? { stockSymbol: lot.stockSymbol, accountId: lot.accountId, shares: 0, costBasis: 0 };
+    holding.shares += lot.remainingShares;
+    holding.costBasis += lot.costBasis;
+    holdings.set(key, holding);
+  });
+  return [...holdings.values()];
+};
+
+// The year's dividends per symbol, in the shape of the 1099-DIV boxes they are reported in
+export const buildDividendIncome = (transactions: DividendRecord[], taxYear: number): DividendIncomeSummary => {
+  const rows = new Map<string, DividendIncomeRow>();
+  transactions
+    .filter(transaction => transaction.type === 'dividend' && Number(transaction.date.slice(0, 4)) === taxYear)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(dividend => {
+      const symbol = dividend.stockSymbol.toUpperCase();
+      const row = rows.get(symbol) ?? {
+        stockSymbol: symbol,
+        stockName: dividend.stockName || symbol,
+        ordinaryDividends: 0,
+        qualifiedDividends: 0,
+        reinvestedDividends: 0,
+        dividendIds: []
+      };
+      row.ordinaryDividends += dividend.totalAmount;
+      if (dividend.qualified) row.qualifiedDividends += dividend.totalAmount;
+      if (dividend.reinvested) row.reinvestedDividends += dividend.totalAmount;
+      row.dividendIds.push(dividend.id);
+      rows.set(symbol, row);
+    });
+
+  const rounded = [...rows.values()]
+    .map(row => ({
+      ...row,
+      ordinaryDividends: roundCents(row.ordinaryDividends),
+      qualifiedDividends: roundCents(row.qualifiedDividends),
+      reinvestedDividends: roundCents(row.reinvestedDividends)
+    }))
+    .sort((a, b) => a.stockSymbol.localeCompare(b.stockSymbol));
+
+  return {
+    taxYear,
+    rows: rounded,
+    totals: {
+      ordinaryDividends: roundCents(rounded.reduce((sum, row) => sum + row.ordinaryDividends, 0)),
+      qualifiedDividends: roundCents(rounded.reduce((sum, row) => sum + row.qualifiedDividends, 0)),
+      reinvestedDividends: roundCents(rounded.reduce((sum, row) => sum + row.reinvestedDividends, 0))
+    }
+  };
+};
+
+const totalsOf = (rows: Form8949Row[]): Form8949Totals => ({
+  proceeds: roundCents(rows.reduce((sum, row) => sum + row.proceeds, 0)),
+  costBasis: roundCents(rows.reduce((sum, row) => sum + row.costBasis, 0)),
+  adjustment: roundCents(rows.reduce((sum, row) => sum + row.adjustment, 0)),
+  gain: roundCents(rows.reduce((sum, row) => sum + row.gain, 0))
+});
+
+const formatShares = (shares: number): string => String(Number(shares.toFixed(6)));
+
+// One row per lot drawn by each sale in the year, split into the form's two parts
+export const buildForm8949 = (gains: RealizedGain[], taxYear: number): Form8949Report => {
+  const rows = gains
+    .filter(gain => Number(gain.soldDate.slice(0, 4)) === taxYear)
+    .map(gain => ({
+      term: gain.term,
+      row: {
+        saleId: gain.saleId,
+        lotId: gain.lotId,
+        description: `${formatShares(gain.shares)} sh ${gain.stockSymbol}`,
+        dateAcquired: gain.acquiredDate,
+        dateSold: gain.soldDate,
+        proceeds: roundCents(gain.proceeds),
+        costBasis: roundCents(gain.costBasis),
+        adjustmentCode: gain.washSaleDisallowed > 0 ? 'W' as const : '' as const,
+        adjustment: roundCents(gain.washSaleDisallowed),
+        gain: roundCents(roundCents(gain.proceeds) - roundCents(gain.costBasis) + roundCents(gain.washSaleDisallowed))
+      }
+    }));
+
+  const shortRows = rows.filter(entry => entry.term === 'short').map(entry => entry.row);
+  const longRows = rows.filter(entry => entry.term === 'long').map(entry => entry.row);
+  const shortTerm = { rows: shortRows, totals: totalsOf(shortRows) };
+  const longTerm = { rows: longRows, totals: totalsOf(longRows) };
+
+  return {
+    taxYear,
+    shortTerm,
+    longTerm,
+    capitalGains: { shortTermGains: shortTerm.totals.gain, longTermGains: longTerm.totals.gain }
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * Duplicate detection between manual entries and Plaid transactions, shared
+ * by the frontend and backend.
+ *
+ * A purchase entered by hand often arrives again when Plaid syncs. A pair is
+ * a likely duplicate when the amounts agree, the dates are a few days apart
+ * at most, the synced account is the entry's card (or, for an unmapped Plaid
+ * account, isn't another mapped card) and the merchant names look alike.
+ * Each entry and each synced transaction is paired at most once, best score
+ * first.
+ */
+
+export interface DuplicateCandidate {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  isIncome: boolean;
+  description: string;
+  merchant?: string;
+  accountId: string;
+}
+
+// A synced transaction; its `accountId` is the mapped card's when `accountMapped` is set
+export interface SyncedDuplicateCandidate extends DuplicateCandidate {
+  accountMapped: boolean;
+}
+
+export interface DuplicateReasons {
+  amountDifference: number; // Absolute, 0 when the amounts agree to the cent
+  daysApart: number;
+  merchantSimilarity: number; // 0 to 1
+  sameAccount: boolean; // The synced account is mapped to the entry's card
+}
+
+export interface DuplicateMatch {
+  manualId: string;
+  plaidId: string;
+  score: number; // 0 to 1
+  reasons: DuplicateReasons;
+}
+
+export interface DuplicateOptions {
+  dateWindowDays?: number;
+  amountTolerance?: number; // Largest difference allowed, as a fraction of the larger amount
+  minScore?: number;
+  mappedAccountIds?: ReadonlySet<string>; // Cards with a Plaid account mapped to them
+  dismissed?: ReadonlySet<string>; // duplicatePairKey of pairs the user said aren't duplicates
+}
+
+export const DEFAULT_DATE_WINDOW_DAYS = 3;
+export const DEFAULT_AMOUNT_TOLERANCE = 0.2;
+export const DEFAULT_MIN_SCORE = 0.65;
+
+// An exact amount weighs most; merchant names are often too different to decide alone
+const WEIGHTS = { amount: 0.35, date: 0.2, merchant: 0.3, account: 0.15 };
+
+// Words card processors and banks add to merchant names
+const NOISE_WORDS = new Set([
+  'pos', 'debit', 'credit', 'purchase', 'card', 'payment', 'sq', 'tst', 'pp', 'paypal', 'www', 'com', 'inc', 'llc',
+  'ltd', 'co', 'the', 'store', 'online', 'recurring', 'ach', 'checkcard'
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (amount: number): number => Math.round(Math.abs(amount) * 100);
+
+export const duplicatePairKey = (manualId: string, plaidId: string): string => `${manualId}:${plaidId}`;
+
+export const normalizeMerchant = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NOISE_WORDS.has(word))
+    .join(' ');
+
+const bigrams = (text: string): string[] =>
+  Array.from({ length: Math.max(text.length - 1, 0) }, (_, index) => text.slice(index, index + 2));
+
+// Dice coefficient of the names' letter pairs, or 1 when one name contains the other
+const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeMerchant(a).replace(/ /g, '');
+  const right = normalizeMerchant(b).replace(/ /g, '');
+  if (left.length < 3 || right.length < 3) return 0;
+  if (left.includes(right) || right.includes(left)) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  const remaining = [...rightPairs];
+  let shared = 0;
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (leftPairs.length + rightPairs.length);
+};
+
+// The best match between either transaction's merchant or description
+export const merchantSimilarity = (
+  a: Pick<DuplicateCandidate, 'description' | 'merchant'>,
+  b: Pick<DuplicateCandidate, 'description' | 'merchant'>
+): number => {
+  const namesOf = (t: typeof a) => [t.merchant, t.description].filter((name): name is string => !!name);
+  return Math.max(0, ...namesOf(a).flatMap(left => namesOf(b).map(right => nameSimilarity(left, right))));
+};
+
+const daysBetween = (a: string, b: string): number =>
+  Math.round(Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY_MS);
+
+/**
+ * How likely the pair is one purchase, or null when it can't be: different
+ * directions, amounts or dates too far apart, or accounts that can't match.
+ */
+export const scoreDuplicate = (
+  manual: DuplicateCandidate,
+  plaid: SyncedDuplicateCandidate,
+  options: DuplicateOptions = {}
+): DuplicateMatch | null => {
+  const window = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const tolerance = options.amountTolerance ?? DEFAULT_AMOUNT_TOLERANCE;
+
+  if (manual.isIncome !== plaid.isIncome) return null;
+  if (plaid.accountMapped ? manual.accountId !== plaid.accountId : options.mappedAccountIds?.has(manual.accountId)) {
+    return null;
+  }
+
+  const daysApart = daysBetween(manual.date, plaid.date);
+  if (Number.isNaN(daysApart) || daysApart > window) return null;
+
+  const difference = Math.abs(toCents(manual.amount) - toCents(plaid.amount));
+  const allowed = Math.max(toCents(manual.amount), toCents(plaid.amount)) * tolerance;
+  if (difference > allowed) return null;
+
+  // A near amount, like a tip added when the charge posts, counts for at most half an exact one
+  const amountScore = difference === 0 ? 1 : 0.5 * (1 - difference / allowed);
+  const dateScore = 1 - daysApart / (window + 1);
+  const similarity = merchantSimilarity(manual, plaid);
+  const accountScore = plaid.accountMapped ? 1 : 0.5;
+  const score = WEIGHTS.amount * amountScore + WEIGHTS.date * dateScore + WEIGHTS.merchant * similarity + WEIGHTS.account * accountScore;
+
+  return {
+    manualId: manual.id,
+    plaidId: plaid.id,
+    score: Math.round(score * 100) / 100,
+    reasons: {
+      amountDifference: difference / 100,
+      daysApart,
+      merchantSimilarity: Math.round(similarity * 100) / 100,
+      sameAccount: plaid.accountMapped
+    }
+  };
+};
+
+// Likely duplicates, best first, pairing each transaction at most once
+export const findDuplicates = (
+  manual: DuplicateCandidate[],
+  plaid: SyncedDuplicateCandidate[],
+  options: DuplicateOptions = {}
+): DuplicateMatch[] => {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const candidates = manual
+    .flatMap(entry => plaid.map(synced => scoreDuplicate(entry, synced, options)))
+    .filter((match): match is DuplicateMatch =>
+      match !== null &&
+      match.score >= minScore &&
+      !options.dismissed?.has(duplicatePairKey(match.manualId, match.plaidId)))
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.reasons.daysApart - b.reasons.daysApart ||
+      a.manualId.localeCompare(b.manualId) ||
+      a.plaidId.localeCompare(b.plaidId));
+
+  const pairedManual = new Set<string>();
+  const pairedPlaid = new Set<string>();
+  return candidates.filter(match => {
+    if (pairedManual.has(match.manualId) || pairedPlaid.has(match.plaidId)) return false;
+    pairedManual.add(match.manualId);
+    pairedPlaid.add(match.plaidId);
+    return true;
+  });
+};
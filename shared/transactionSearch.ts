@@ -0,0 +1,280 @@
+/**
+ * Transaction search shared by the frontend and backend.
+ *
+ * A query is words and filters separated by spaces. Words, or "quoted
+ * phrases", must all appear in the description, merchant or notes. Filters
+ * are `field:value`, and amounts and dates also take comparisons:
+ *
+ *   merchant:amazon amount>50 tag:work date:2026-03 "coffee beans"
+ *
+ * Repeating `merchant:`, `description:`, `notes:` or `tag:` requires every
+ * value; repeating `category:`, `account:`, `status:`, `source:` or `type:`
+ * allows any of them. Amounts are compared without their sign.
+ */
+
+export type SearchSource = 'manual' | 'plaid' | 'import';
+export type SearchStatus = 'pending' | 'cleared' | 'reconciled';
+export type SearchType = 'income' | 'expense' | 'transfer' | 'payment';
+
+export interface TransactionSearchFilters {
+  text: string[];
+  merchant: string[];
+  description: string[];
+  notes: string[];
+  tags: string[];
+  categories: string[];
+  accounts: string[]; // An account ID, or part of the account's name
+  statuses: SearchStatus[];
+  sources: SearchSource[];
+  types: SearchType[];
+  minAmount?: number; // Inclusive
+  maxAmount?: number;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+}
+
+// A manual or Plaid transaction as search sees it
+export interface SearchableTransaction {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string;
+  merchant?: string;
+  notes?: string;
+  tags: string[]; // Including the tags of its split lines
+  categories: string[]; // Its category, or its split lines' categories
+  accountId: string;
+  accountName?: string;
+  status: SearchStatus;
+  source: SearchSource;
+  type: SearchType;
+}
+
+export interface ParsedSearchQuery {
+  filters: TransactionSearchFilters;
+  errors: string[];
+}
+
+export const SEARCH_FIELDS = [
+  'merchant', 'description', 'notes', 'tag', 'category', 'account', 'status', 'source', 'type', 'amount', 'date'
+] as const;
+
+const FIELD_ALIASES: Record<string, (typeof SEARCH_FIELDS)[number]> = {
+  desc: 'description',
+  note: 'notes',
+  tags: 'tag',
+  cat: 'category'
+};
+
+const STATUSES: SearchStatus[] = ['pending', 'cleared', 'reconciled'];
+const SOURCES: SearchSource[] = ['manual', 'plaid', 'import'];
+const TYPES: SearchType[] = ['income', 'expense', 'transfer', 'payment'];
+
+const TOKEN_PATTERN = /([a-z]+)(:|>=|<=|>|<)("[^"]*"?|\S*)|"([^"]*)"?|(\S+)/gi;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+export const emptySearchFilters = (): TransactionSearchFilters => ({
+  text: [],
+  merchant: [],
+  description: [],
+  notes: [],
+  tags: [],
+  categories: [],
+  accounts: [],
+  statuses: [],
+  sources: [],
+  types: []
+});
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '');
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const shiftDay = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+// The first and last day a year, month or day covers, or null when it isn't a valid date
+const dateBounds = (value: string): [string, string] | null => {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  if (!month) return [`${year}-01-01`, `${year}-12-31`];
+  const monthNumber = Number(month);
+  if (monthNumber < 1 || monthNumber > 12) return null;
+  const lastDay = new Date(Date.UTC(Number(year), monthNumber, 0)).getUTCDate();
+  if (!day) return [`${year}-${month}-01`, `${year}-${month}-${String(lastDay).padStart(2, '0')}`];
+  if (Number(day) < 1 || Number(day) > lastDay) return null;
+  return [value, value];
+};
+
+// Narrowing keeps the tighter bound, so combined filters only ever match fewer transactions
+export const narrowAmount = (filters: TransactionSearchFilters, min?: number, max?: number): void => {
+  if (min !== undefined) filters.minAmount = Math.max(filters.minAmount ?? min, min);
+  if (max !== undefined) filters.maxAmount = Math.min(filters.maxAmount ?? max, max);
+};
+
+export const narrowDates = (filters: TransactionSearchFilters, start?: string, end?: string): void => {
+  if (start !== undefined) filters.startDate = filters.startDate && filters.startDate > start ? filters.startDate : start;
+  if (end !== undefined) filters.endDate = filters.endDate && filters.endDate < end ? filters.endDate : end;
+};
+
+const applyAmount = (filters: TransactionSearchFilters, operator: string, value: string): string | null => {
+  if (operator === ':' && value.includes('..')) {
+    const [from, to] = value.split('..');
+    const min = from ? Number(from) : undefined;
+    const max = to ? Number(to) : undefined;
+    if ((from && !Number.isFinite(min)) || (to && !Number.isFinite(max)) || (!from && !to)) {
+      return `"amount:${value}" needs numbers, like amount:10..50`;
+    }
+    narrowAmount(filters, min, max);
+    return null;
+  }
+
+  const amount = Number(value);
+  if (value === '' || !Number.isFinite(amount) || amount < 0) {
+    return `"amount${operator}${value}" needs a positive number`;
+  }
+  // Amounts are compared to the cent, so strict comparisons move the bound by one
+  const cent = 0.01;
+  switch (operator) {
+    case ':': narrowAmount(filters, amount, amount); break;
+    case '>': narrowAmount(filters, (toCents(amount) + 1) / 100); break;
+    case '>=': narrowAmount(filters, amount); break;
+    case '<': narrowAmount(filters, undefined, Math.max(0, amount - cent)); break;
+    case '<=': narrowAmount(filters, undefined, amount); break;
+  }
+  return null;
+};
+
+const applyDate = (filters: TransactionSearchFilters, operator: string, value: string): string | null => {
+  if (operator === ':' && value.includes('..')) {
+    const [from, to] = value.split('..');
+    const start = from ? dateBounds(from) : null;
+    const end = to ? dateBounds(to) : null;
+    if ((from && !start) || (to && !end) || (!from && !to)) {
+      return `"date:${value}" needs dates, like date:2026-01-01..2026-03-31`;
+    }
+    narrowDates(filters, start?.[0], end?.[1]);
+    return null;
+  }
+
+  const bounds = dateBounds(value);
+  if (!bounds) {
+    return `"date${operator}${value}" needs a date like 2026, 2026-03 or 2026-03-15`;
+  }
+  const [first, last] = bounds;
+  switch (operator) {
+    case ':': narrowDates(filters, first, last); break;
+    case '>': narrowDates(filters, shiftDay(last, 1)); break;
+    case '>=': narrowDates(filters, first); break;
+    case '<': narrowDates(filters, undefined, shiftDay(first, -1)); break;
+    case '<=': narrowDates(filters, undefined, last); break;
+  }
+  return null;
+};
+
+const oneOf = <T extends string>(field: string, value: string, allowed: readonly T[], into: T[]): string | null => {
+  if (!allowed.includes(value as T)) {
+    return `"${field}:${value}" must be one of ${allowed.join(', ')}`;
+  }
+  if (!into.includes(value as T)) into.push(value as T);
+  return null;
+};
+
+/**
+ * Parse a query into filters. Parts that can't be understood are reported in
+ * `errors` and otherwise ignored.
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const filters = emptySearchFilters();
+  const errors: string[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, rawField, operator, rawValue, phrase, word] = match;
+
+    if (phrase !== undefined || word !== undefined) {
+      const text = (phrase ?? word).trim().toLowerCase();
+      if (text) filters.text.push(text);
+      continue;
+    }
+
+    const field = FIELD_ALIASES[rawField.toLowerCase()] ?? rawField.toLowerCase();
+    if (!(SEARCH_FIELDS as readonly string[]).includes(field)) {
+      errors.push(`Unknown filter "${rawField}"; use ${SEARCH_FIELDS.join(', ')}`);
+      continue;
+    }
+    const value = unquote(rawValue).trim().toLowerCase();
+    if (operator !== ':' && field !== 'amount' && field !== 'date') {
+      errors.push(`"${token}" can't be compared; only amount and date take > and <`);
+      continue;
+    }
+    if (!value) {
+      errors.push(`"${token}" needs a value`);
+      continue;
+    }
+
+    let error: string | null = null;
+    switch (field) {
+      case 'merchant': filters.merchant.push(value); break;
+      case 'description': filters.description.push(value); break;
+      case 'notes': filters.notes.push(value); break;
+      case 'tag': filters.tags.push(value); break;
+      case 'category': filters.categories.push(value); break;
+      case 'account': filters.accounts.push(value); break;
+      case 'status': error = oneOf(field, value, STATUSES, filters.statuses); break;
+      case 'source': error = oneOf(field, value, SOURCES, filters.sources); break;
+      case 'type': error = oneOf(field, value, TYPES, filters.types); break;
+      case 'amount': error = applyAmount(filters, operator, value); break;
+      case 'date': error = applyDate(filters, operator, value); break;
+    }
+    if (error) errors.push(error);
+  }
+
+  return { filters, errors };
+};
+
+const includesAll = (haystack: string, needles: string[]): boolean =>
+  needles.every(needle => haystack.includes(needle));
+
+export const matchesSearch = (transaction: SearchableTransaction, filters: TransactionSearchFilters): boolean => {
+  const description = transaction.description.toLowerCase();
+  const merchant = (transaction.merchant || '').toLowerCase();
+  const notes = (transaction.notes || '').toLowerCase();
+  const tags = transaction.tags.map(tag => tag.toLowerCase());
+  const amount = Math.abs(transaction.amount);
+
+  return includesAll(`${description}\n${merchant}\n${notes}`, filters.text) &&
+    includesAll(merchant, filters.merchant) &&
+    includesAll(description, filters.description) &&
+    includesAll(notes, filters.notes) &&
+    filters.tags.every(tag => tags.includes(tag)) &&
+    (filters.categories.length === 0 ||
+      transaction.categories.some(category => filters.categories.includes(category.toLowerCase()))) &&
+    (filters.accounts.length === 0 || filters.accounts.some(account =>
+      transaction.accountId.toLowerCase() === account ||
+      (transaction.accountName || '').toLowerCase().includes(account))) &&
+    (filters.statuses.length === 0 || filters.statuses.includes(transaction.status)) &&
+    (filters.sources.length === 0 || filters.sources.includes(transaction.source)) &&
+    (filters.types.length === 0 || filters.types.includes(transaction.type)) &&
+    (filters.minAmount === undefined || toCents(amount) >= toCents(filters.minAmount)) &&
+    (filters.maxAmount === undefined || toCents(amount) <= toCents(filters.maxAmount)) &&
+    (filters.startDate === undefined || transaction.date >= filters.startDate) &&
+    (filters.endDate === undefined || transaction.date <= filters.endDate);
+};
+
+// Position in the results: newest first, ties broken by source and ID so every page boundary is stable
+export interface SearchPosition {
+  date: string;
+  key: string;
+}
+
+export const searchPosition = (transaction: Pick<SearchableTransaction, 'date' | 'source' | 'id'>): SearchPosition => ({
+  date: transaction.date,
+  key: `${transaction.source}:${transaction.id}`
+});
+
+export const compareSearchPositions = (a: SearchPosition, b: SearchPosition): number =>
+  b.date.localeCompare(a.date) || (a.key < b.key ? 1 : a.key > b.key ? -1 : 0);
@@ -0,0 +1,98 @@
+/**
+ * Split transactions shared by the frontend and backend.
+ *
+ * A split transaction keeps its own amount and category, but its lines say
+ * where the money went: each line has an amount, a category, tags and the
+ * insurance policy or income source it belongs to. Budgets, reports, card
+ * rewards and tax prefill read a transaction through `splitLines`, which
+ * gives the lines of a split transaction and a single line made from the
+ * transaction's own fields otherwise.
+ */
+
+export interface TransactionSplit {
+  amount: number; // Same sign as the transaction's amount; the lines add up to it
+  category: string;
+  subcategory?: string;
+  tags?: string[];
+  insurancePolicyId?: string;
+  incomeSourceId?: string;
+  notes?: string;
+}
+
+// The fields of a transaction that its lines replace
+export interface SplittableTransaction {
+  amount: number;
+  category: string;
+  subcategory?: string;
+  tags?: string[];
+  insurancePolicyId?: string;
+  incomeSourceId?: string;
+  splits?: TransactionSplit[] | null;
+}
+
+// One line of a transaction; `splitIndex` is missing when the transaction isn't split
+export interface SplitLine extends TransactionSplit {
+  splitIndex?: number;
+}
+
+export const MIN_SPLIT_LINES = 2;
+export const MAX_SPLIT_LINES = 50;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+export const isSplit = (transaction: Pick<SplittableTransaction, 'splits'>): boolean =>
+  (transaction.splits?.length ?? 0) > 0;
+
+/**
+ * Why the lines can't split a transaction of `amount`, or null when they
+ * can. An empty list is valid and means the transaction isn't split.
+ */
+export const splitsError = (amount: number, splits: TransactionSplit[]): string | null => {
+  if (splits.length === 0) return null;
+  if (splits.length < MIN_SPLIT_LINES) return `A split needs at least ${MIN_SPLIT_LINES} lines`;
+  if (splits.length > MAX_SPLIT_LINES) return `A split can have at most ${MAX_SPLIT_LINES} lines`;
+
+  for (const [index, split] of splits.entries()) {
+    if (!Number.isFinite(split.amount) || toCents(split.amount) === 0) {
+      return `Line ${index + 1} needs an amount`;
+    }
+    if (Math.sign(split.amount) !== Math.sign(amount)) {
+      return `Line ${index + 1} must have the same sign as the transaction`;
+    }
+    if (!split.category) {
+      return `Line ${index + 1} needs a category`;
+    }
+  }
+
+  const total = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (total !== toCents(amount)) {
+    const difference = (toCents(amount) - total) / 100;
+    return `The lines add up to ${(total / 100).toFixed(2)}, ${Math.abs(difference).toFixed(2)} ${difference > 0 ? 'short of' : 'more than'} the transaction's ${amount.toFixed(2)}`;
+  }
+  return null;
+};
+
+// The lines a transaction's money is counted under
+export const splitLines = (transaction: SplittableTransaction): SplitLine[] => {
+  if (transaction.splits && isSplit(transaction)) {
+    return transaction.splits.map((split, splitIndex) => ({ ...split, splitIndex }));
+  }
+  return [{
+    amount: transaction.amount,
+    category: transaction.category,
+    ...(transaction.subcategory && { subcategory: transaction.subcategory }),
+    ...(transaction.tags && transaction.tags.length > 0 && { tags: transaction.tags }),
+    ...(transaction.insurancePolicyId && { insurancePolicyId: transaction.insurancePolicyId }),
+    ...(transaction.incomeSourceId && { incomeSourceId: transaction.incomeSourceId })
+  }];
+};
+
+// Sum of the lines in `category`, or of every line without one
+export const amountInCategory = (transaction: SplittableTransaction, category?: string): number =>
+  splitLines(transaction)
+    .filter(line => !category || line.category === category)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+// Identifies one line across every transaction, for keys and proposal IDs
+export const splitLineKey = (transactionId: string, splitIndex?: number): string =>
+  splitIndex === undefined ? transactionId : `${transactionId}#${splitIndex}`;
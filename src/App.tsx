@@ -23,6 +23,9 @@ import { Transactions } from "./pages/Transactions";
 import { PlaidTransactions } from "./pages/PlaidTransactions";
 import IncomeSources from "./pages/IncomeSources";
 import NotFound from "./pages/NotFound";
+import AccountantLogin from "./pages/accountant/AccountantLogin";
+import AccountantInvite from "./pages/accountant/AccountantInvite";
+import AccountantPortal from "./pages/accountant/AccountantPortal";
 import { PerformanceMonitor } from "./components/PerformanceMonitor";
 import { setupGlobalErrorHandling } from "./utils/errorHandler";
 import { logger } from "./utils/logger";
@@ -30,6 +33,34 @@ import React from "react";
 
 const queryClient = new QueryClient();
 
+// The signed-in client's app, inside the sidebar layout
+const ClientApp = () => (
+  <IncomeNotificationSystem>
+    <Layout>
+      <Routes>
+        <Route path="/" element={<Dashboard />} />
+        <Route path="/accounts" element={<BankAccounts />} />
+        <Route path="/accounts/:accountId" element={<BankAccountDetail />} />
+        <Route path="/credit-cards" element={<CreditCards />} />
+        <Route path="/credit-cards/:cardId" element={<CreditCardDetail />} />
+        <Route path="/budgets" element={<Budgets />} />
+        <Route path="/goals" element={<SavingsGoals />} />
+        <Route path="/portfolio" element={<Portfolio />} />
+        <Route path="/net-worth" element={<NetWorth />} />
+        <Route path="/transactions" element={<PlaidTransactions />} />
+        <Route path="/transactions-manual" element={<Transactions />} />
+        <Route path="/recurring" element={<RecurringPayments />} />
+        <Route path="/reports" element={<Reports />} />
+        <Route path="/tax-prep" element={<TaxPrep />} />
+        <Route path="/income-sources" element={<IncomeSources />} />
+        <Route path="/settings" element={<Settings />} />
+        {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+    </Layout>
+  </IncomeNotificationSystem>
+);
+
 const AppContent = () => {
   // Initialize cached balances for existing accounts
   useAccountBalanceInit();
@@ -47,30 +78,15 @@ const AppContent = () => {
   }, []);
   
   return (
-    <IncomeNotificationSystem>
-      <Layout>
-        <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/accounts" element={<BankAccounts />} />
-              <Route path="/accounts/:accountId" element={<BankAccountDetail />} />
-              <Route path="/credit-cards" element={<CreditCards />} />
-              <Route path="/credit-cards/:cardId" element={<CreditCardDetail />} />
-              <Route path="/budgets" element={<Budgets />} />
-              <Route path="/goals" element={<SavingsGoals />} />
-              <Route path="/portfolio" element={<Portfolio />} />
-              <Route path="/net-worth" element={<NetWorth />} />
-              <Route path="/transactions" element={<PlaidTransactions />} />
-              <Route path="/transactions-manual" element={<Transactions />} />
-              <Route path="/recurring" element={<RecurringPayments />} />
-              <Route path="/reports" element={<Reports />} />
-              <Route path="/tax-prep" element={<TaxPrep />} />
-              <Route path="/income-sources" element={<IncomeSources />} />
-              <Route path="/settings" element={<Settings />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Layout>
-        </IncomeNotificationSystem>
+    <Routes>
+      {/* Accountants get their own session and shell, outside the client's layout */}
+      <Route path="/accountant/login" element={<AccountantLogin />} />
+      <Route path="/accountant/invite/:token" element={<AccountantInvite />} />
+      <Route path="/accountant" element={<AccountantPortal />} />
+      <Route path="/accountant/clients/:clientId" element={<AccountantPortal />} />
+      <Route path="/accountant/clients/:clientId/forms/:formId" element={<AccountantPortal />} />
+      <Route path="*" element={<ClientApp />} />
+    </Routes>
   );
 };
 
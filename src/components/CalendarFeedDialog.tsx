@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useCalendarFeed } from "@/hooks/useCalendarFeed";
+import { useToast } from "@/hooks/use-toast";
+
+export const CalendarFeedDialog = () => {
+  const { feed, createFeed, revokeFeed, isCreating, isRevoking } = useCalendarFeed();
+  const { toast } = useToast();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    const url = await createFeed();
+    setFeedUrl(url);
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Copied", description: "Paste the link into your calendar app's subscribe option." });
+  };
+
+  const handleRevoke = () => {
+    revokeFeed();
+    setFeedUrl(null);
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setFeedUrl(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to your finance calendar</DialogTitle>
+          <DialogDescription>
+            Bills, card due dates, annual fees, bonus deadlines and insurance premiums in any calendar app
+            that supports iCalendar subscriptions. Anyone with the link can see these events.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {feedUrl ? (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                This link is only shown once. Generate a new one if you lose it.
+              </p>
+            </div>
+          ) : feed?.enabled ? (
+            <p className="text-sm text-muted-foreground">
+              A feed link was created {feed.createdAt ? format(new Date(feed.createdAt), "PPP") : ""}
+              {feed.lastAccessedAt ? ` and last fetched ${format(new Date(feed.lastAccessedAt), "PPP p")}` : ""}.
+              Generating a new link stops the old one from working.
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">No feed link has been created yet.</p>
+          )}
+
+          <div className="flex justify-between">
+            <Button onClick={handleCreate} disabled={isCreating}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {feed?.enabled ? "Generate New Link" : "Create Link"}
+            </Button>
+            {feed?.enabled && (
+              <Button variant="outline" onClick={handleRevoke} disabled={isRevoking}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Revoke
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,499 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { History, Pencil, Trash2, Wand2 } from 'lucide-react';
+import { useFirestore } from '../hooks/useFirestore';
+import { useIncomeSources } from '../hooks/useIncomeSources';
+import { useCategorizationRules } from '../hooks/useCategorizationRules';
+import { BankAccount, CreditCard, DEFAULT_CATEGORIES, IncomeSource } from '../types';
+import {
+  CATEGORIZATION_FIELD_LABELS,
+  CategorizationField,
+  CategorizationFields,
+  CategorizationRule,
+  CategorizationRuleInput,
+  RuleHistoryPreview
+} from '../types/categorizationRules';
+import { MAX_USER_PRIORITY, patternError } from '@shared/categorizationRules';
+
+// Radix selects can't hold an empty value, so actions that leave a field alone use this instead
+const UNCHANGED = '__unchanged__';
+
+interface RuleForm {
+  id?: string;
+  name: string;
+  priority: string;
+  enabled: boolean;
+  descriptionPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  accountIds: string[];
+  plaidCategory: string;
+  category: string;
+  subcategory: string;
+  tags: string;
+  incomeSourceId: string;
+  hidden: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '100',
+  enabled: true,
+  descriptionPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  accountIds: [],
+  plaidCategory: '',
+  category: UNCHANGED,
+  subcategory: '',
+  tags: '',
+  incomeSourceId: UNCHANGED,
+  hidden: UNCHANGED
+};
+
+const formOf = (rule: CategorizationRule): RuleForm => ({
+  id: rule.id,
+  name: rule.name,
+  priority: String(rule.priority),
+  enabled: rule.enabled,
+  descriptionPattern: rule.conditions.descriptionPattern ?? '',
+  minAmount: rule.conditions.minAmount?.toString() ?? '',
+  maxAmount: rule.conditions.maxAmount?.toString() ?? '',
+  accountIds: rule.conditions.accountIds ?? [],
+  plaidCategory: rule.conditions.plaidCategory ?? '',
+  category: rule.actions.category ?? UNCHANGED,
+  subcategory: rule.actions.subcategory ?? '',
+  tags: (rule.actions.tags ?? []).join(', '),
+  incomeSourceId: rule.actions.incomeSourceId ?? UNCHANGED,
+  hidden: rule.actions.hidden === undefined ? UNCHANGED : String(rule.actions.hidden)
+});
+
+const ruleOf = (form: RuleForm): CategorizationRuleInput & { id?: string } => {
+  const tags = form.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  return {
+    ...(form.id && { id: form.id }),
+    name: form.name.trim(),
+    priority: Number(form.priority),
+    enabled: form.enabled,
+    conditions: {
+      ...(form.descriptionPattern && { descriptionPattern: form.descriptionPattern }),
+      ...(form.minAmount !== '' && { minAmount: Number(form.minAmount) }),
+      ...(form.maxAmount !== '' && { maxAmount: Number(form.maxAmount) }),
+      ...(form.accountIds.length > 0 && { accountIds: form.accountIds }),
+      ...(form.plaidCategory.trim() && { plaidCategory: form.plaidCategory.trim() })
+    },
+    actions: {
+      ...(form.category !== UNCHANGED && { category: form.category }),
+      ...(form.subcategory.trim() && { subcategory: form.subcategory.trim() }),
+      ...(tags.length > 0 && { tags }),
+      ...(form.incomeSourceId !== UNCHANGED && { incomeSourceId: form.incomeSourceId }),
+      ...(form.hidden !== UNCHANGED && { hidden: form.hidden === 'true' })
+    }
+  };
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const categoryName = (id: string) => DEFAULT_CATEGORIES.find(c => c.id === id)?.name ?? id;
+
+export const CategorizationRulesDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [history, setHistory] = useState<{ ruleIds?: string[]; preview: RuleHistoryPreview } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { documents: bankAccounts } = useFirestore<BankAccount>('bankAccounts');
+  const { documents: creditCards } = useFirestore<CreditCard>('creditCards');
+  const { incomeSources } = useIncomeSources();
+  const {
+    rules,
+    builtInRules,
+    saveRule,
+    isSaving,
+    deleteRule,
+    previewHistory,
+    isPreviewing,
+    applyHistory,
+    isApplying
+  } = useCategorizationRules();
+
+  const sources = incomeSources as IncomeSource[];
+  const accounts = [
+    ...bankAccounts.map(a => ({ id: a.id, name: a.name })),
+    ...creditCards.map(c => ({ id: c.id, name: c.name }))
+  ];
+  const ruleName = (id: string) => [...rules, ...builtInRules].find(rule => rule.id === id)?.name ?? 'Deleted rule';
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setForm(null);
+      setHistory(null);
+    }
+    setOpen(next);
+  };
+
+  const update = (changes: Partial<RuleForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const formError = (() => {
+    if (!form) return null;
+    const rule = ruleOf(form);
+    if (!rule.name) return 'Name the rule';
+    if (!Number.isInteger(rule.priority) || rule.priority < 0 || rule.priority > MAX_USER_PRIORITY) {
+      return `Priority must be a whole number from 0 to ${MAX_USER_PRIORITY}`;
+    }
+    if (form.descriptionPattern) {
+      const error = patternError(form.descriptionPattern);
+      if (error) return error;
+    }
+    if (Object.keys(rule.conditions).length === 0) return 'Add at least one condition';
+    if (rule.conditions.minAmount !== undefined && rule.conditions.maxAmount !== undefined &&
+      rule.conditions.minAmount > rule.conditions.maxAmount) {
+      return 'The minimum amount must not be above the maximum';
+    }
+    if (Object.keys(rule.actions).length === 0) return 'Add at least one action';
+    return null;
+  })();
+
+  const handleSave = async () => {
+    if (!form || formError) return;
+    try {
+      await saveRule(ruleOf(form));
+      setForm(null);
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule, enabled: boolean) => {
+    try {
+      await saveRule({ ...ruleOf(formOf(rule)), enabled });
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handlePreview = async (ruleIds?: string[]) => {
+    try {
+      const preview = await previewHistory(ruleIds);
+      setHistory({ ruleIds, preview });
+      setSelected(new Set(preview.changes.map(change => change.transactionId)));
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handleApply = async () => {
+    if (!history || selected.size === 0) return;
+    try {
+      await applyHistory({ ruleIds: history.ruleIds, transactionIds: [...selected] });
+      setHistory(null);
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const toggleSelected = (transactionId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(transactionId); else next.delete(transactionId);
+      return next;
+    });
+  };
+
+  const describeValue = (field: CategorizationField, fields: CategorizationFields): string => {
+    switch (field) {
+      case 'category': return categoryName(fields.category);
+      case 'subcategory': return fields.subcategory || 'None';
+      case 'tags': return fields.tags.length > 0 ? fields.tags.join(', ') : 'None';
+      case 'incomeSourceId': return sources.find(s => s.id === fields.incomeSourceId)?.name ?? 'None';
+      case 'hidden': return fields.hidden ? 'Hidden' : 'Shown';
+    }
+  };
+
+  const describeRule = (rule: CategorizationRule): string => {
+    const { descriptionPattern, minAmount, maxAmount, accountIds, plaidCategory } = rule.conditions;
+    const parts = [
+      descriptionPattern && `matches /${descriptionPattern}/`,
+      minAmount !== undefined && maxAmount !== undefined && `${formatCurrency(minAmount)}–${formatCurrency(maxAmount)}`,
+      minAmount !== undefined && maxAmount === undefined && `at least ${formatCurrency(minAmount)}`,
+      minAmount === undefined && maxAmount !== undefined && `at most ${formatCurrency(maxAmount)}`,
+      accountIds?.length && `in ${accountIds.map(id => accounts.find(a => a.id === id)?.name ?? 'an account').join(' or ')}`,
+      plaidCategory && `Plaid category "${plaidCategory}"`
+    ].filter(Boolean);
+    const { category, subcategory, tags, incomeSourceId, hidden } = rule.actions;
+    const actions = [
+      category && `category ${categoryName(category)}`,
+      subcategory && `subcategory ${subcategory}`,
+      tags?.length && `tag ${tags.join(', ')}`,
+      incomeSourceId && `income from ${sources.find(s => s.id === incomeSourceId)?.name ?? 'an income source'}`,
+      hidden !== undefined && (hidden ? 'hide' : 'show')
+    ].filter(Boolean);
+    return `When ${parts.join(', ')}: ${actions.join(', ')}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Wand2 className="h-4 w-4 mr-2" />
+          Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Categorization Rules</DialogTitle>
+          <DialogDescription>
+            Rules run on new transactions from every source, lowest priority number first. The first rule
+            to set a field wins, and tags from every matching rule are added.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input id="rule-name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input id="rule-priority" type="number" min={0} max={MAX_USER_PRIORITY} value={form.priority}
+                  onChange={(e) => update({ priority: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-3 rounded-md border p-4">
+              <h4 className="text-sm font-medium">When a transaction</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="rule-pattern">Merchant or description matches</Label>
+                  <Input id="rule-pattern" placeholder="starbucks|blue bottle" value={form.descriptionPattern}
+                    onChange={(e) => update({ descriptionPattern: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-plaid">Plaid category contains</Label>
+                  <Input id="rule-plaid" placeholder="Coffee Shop" value={form.plaidCategory}
+                    onChange={(e) => update({ plaidCategory: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-min">Amount from</Label>
+                  <Input id="rule-min" type="number" min={0} step="0.01" value={form.minAmount}
+                    onChange={(e) => update({ minAmount: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-max">Amount up to</Label>
+                  <Input id="rule-max" type="number" min={0} step="0.01" value={form.maxAmount}
+                    onChange={(e) => update({ maxAmount: e.target.value })} />
+                </div>
+              </div>
+              {accounts.length > 0 && (
+                <div className="space-y-1">
+                  <Label>In any of these accounts (none means every account)</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {accounts.map(account => (
+                      <div key={account.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`rule-account-${account.id}`}
+                          checked={form.accountIds.includes(account.id)}
+                          onCheckedChange={(checked) => update({
+                            accountIds: checked === true
+                              ? [...form.accountIds, account.id]
+                              : form.accountIds.filter(id => id !== account.id)
+                          })}
+                        />
+                        <Label htmlFor={`rule-account-${account.id}`}>{account.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3 rounded-md border p-4">
+              <h4 className="text-sm font-medium">Then</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Category</Label>
+                  <Select value={form.category} onValueChange={(value) => update({ category: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCHANGED}>Leave as is</SelectItem>
+                      {DEFAULT_CATEGORIES.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-subcategory">Subcategory</Label>
+                  <Input id="rule-subcategory" value={form.subcategory}
+                    onChange={(e) => update({ subcategory: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-tags">Add tags</Label>
+                  <Input id="rule-tags" placeholder="coffee, work" value={form.tags}
+                    onChange={(e) => update({ tags: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Income source</Label>
+                  <Select value={form.incomeSourceId} onValueChange={(value) => update({ incomeSourceId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCHANGED}>Leave as is</SelectItem>
+                      {sources.map(source => (
+                        <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Visibility</Label>
+                  <Select value={form.hidden} onValueChange={(value) => update({ hidden: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCHANGED}>Leave as is</SelectItem>
+                      <SelectItem value="true">Hide</SelectItem>
+                      <SelectItem value="false">Show</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch id="rule-enabled" checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+              <Label htmlFor="rule-enabled">Run this rule on new transactions</Label>
+            </div>
+
+            {formError && <p className="text-sm text-muted-foreground">{formError}</p>}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={!!formError || isSaving}>
+                {isSaving ? 'Saving...' : 'Save Rule'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : history ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {history.preview.changes.length === 0
+                ? `No changes: the ${history.preview.scanned} existing transactions already match ${history.ruleIds ? 'this rule' : 'your rules'}.`
+                : `${history.preview.changes.length} of ${history.preview.scanned} existing transactions would change. Nothing is written until you apply.`}
+            </p>
+
+            {history.preview.changes.length > 0 && (
+              <ScrollArea className="h-[360px] rounded-md border">
+                <div className="divide-y">
+                  {history.preview.changes.map(change => (
+                    <div key={change.transactionId} className="flex items-start gap-3 p-2 text-sm">
+                      <Checkbox
+                        className="mt-1"
+                        checked={selected.has(change.transactionId)}
+                        onCheckedChange={(checked) => toggleSelected(change.transactionId, checked === true)}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium truncate">{change.description}</span>
+                          <span className="text-muted-foreground whitespace-nowrap">
+                            {change.date} · {formatCurrency(Math.abs(change.amount))}
+                          </span>
+                        </div>
+                        {change.changed.map(field => (
+                          <div key={field} className="text-muted-foreground">
+                            {CATEGORIZATION_FIELD_LABELS[field]}: {describeValue(field, change.before)} → {describeValue(field, change.after)}
+                          </div>
+                        ))}
+                        <div className="text-xs text-muted-foreground">
+                          By {change.ruleIds.map(ruleName).join(', ')}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setHistory(null)}>Back</Button>
+              <Button onClick={handleApply} disabled={selected.size === 0 || isApplying}>
+                {isApplying ? 'Applying...' : `Apply to ${selected.size} transaction${selected.size === 1 ? '' : 's'}`}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You have no rules yet. Without them, synced transactions are categorized from Plaid's categories.
+              </p>
+            ) : (
+              <ScrollArea className="max-h-[360px] rounded-md border">
+                <div className="divide-y">
+                  {rules.map(rule => (
+                    <div key={rule.id} className="flex items-center gap-3 p-3 text-sm">
+                      <Switch checked={rule.enabled} disabled={isSaving} onCheckedChange={(enabled) => handleToggle(rule, enabled)} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{rule.name}</span>
+                          <Badge variant="outline">{rule.priority}</Badge>
+                        </div>
+                        <div className="text-muted-foreground truncate">{describeRule(rule)}</div>
+                      </div>
+                      <Button variant="ghost" size="sm" title="Preview on existing transactions" disabled={isPreviewing}
+                        onClick={() => handlePreview([rule.id])}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => setForm(formOf(rule))}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Delete" onClick={() => deleteRule(rule.id).catch(() => {
+                        // The hook has already reported the failure
+                      })}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+
+            {builtInRules.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-muted-foreground">Built-in Plaid category rules (run after yours)</summary>
+                <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-1 text-muted-foreground">
+                  {builtInRules.map(rule => (
+                    <div key={rule.id}>{rule.conditions.plaidCategory} → {categoryName(rule.actions.category ?? 'other')}</div>
+                  ))}
+                </div>
+              </details>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handlePreview()} disabled={!rules.some(rule => rule.enabled) || isPreviewing}>
+                <History className="h-4 w-4 mr-2" />
+                {isPreviewing ? 'Checking...' : 'Re-run on History'}
+              </Button>
+              <Button onClick={() => setForm(EMPTY_FORM)}>New Rule</Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,29 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SUPPORTED_CURRENCIES } from "@shared/currency";
+
+interface CurrencySelectProps {
+  id: string;
+  value: string;
+  onValueChange: (value: string) => void;
+  label?: string;
+  className?: string;
+}
+
+export const CurrencySelect = ({ id, value, onValueChange, label = "Currency", className }: CurrencySelectProps) => (
+  <div className={className}>
+    <Label htmlFor={id}>{label}</Label>
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CURRENCIES.map(currency => (
+          <SelectItem key={currency.code} value={currency.code}>
+            {currency.code} - {currency.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Copy } from 'lucide-react';
+import { useDuplicateTransactions } from '../hooks/useDuplicateTransactions';
+import { Transaction } from '../types';
+import { DuplicatePair, DuplicateReasons } from '../types/transactionDuplicates';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const describeReasons = (reasons: DuplicateReasons): string =>
+  [
+    reasons.amountDifference === 0 ? 'Same amount' : `${formatCurrency(reasons.amountDifference)} apart`,
+    reasons.daysApart === 0 ? 'same day' : `${reasons.daysApart} day${reasons.daysApart === 1 ? '' : 's'} apart`,
+    `merchant ${Math.round(reasons.merchantSimilarity * 100)}% alike`,
+    reasons.sameAccount ? 'same card' : 'account not mapped'
+  ].join(' · ');
+
+const TransactionSide = ({ label, transaction }: { label: string; transaction: Transaction }) => (
+  <div className="space-y-1 min-w-0">
+    <div className="text-xs uppercase text-muted-foreground">{label}</div>
+    <div className="font-medium truncate">{transaction.merchantName || transaction.description}</div>
+    <div className="text-muted-foreground">
+      {transaction.date} · {formatCurrency(Math.abs(transaction.amount))}
+      {transaction.status === 'pending' && ' · pending'}
+    </div>
+    {transaction.notes && <div className="text-muted-foreground truncate">{transaction.notes}</div>}
+    {transaction.tags && transaction.tags.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {transaction.tags.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * The review queue for purchases entered by hand that a Plaid sync brought
+ * in again. Merging keeps the manual entry, with its notes, tags, documents
+ * and rewards, and links it to the bank's transaction.
+ */
+export const DuplicateReviewDialog = () => {
+  const [open, setOpen] = useState(false);
+  const { duplicates, isLoading, mergeDuplicate, isMerging, dismissDuplicate, isDismissing } = useDuplicateTransactions();
+
+  const idsOf = (pair: DuplicatePair) => ({
+    manualTransactionId: pair.manual.id,
+    plaidTransactionId: pair.plaid.id
+  });
+
+  const handleMerge = async (pair: DuplicatePair) => {
+    try {
+      await mergeDuplicate(idsOf(pair));
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    try {
+      await dismissDuplicate(idsOf(pair));
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Copy className="h-4 w-4 mr-2" />
+          Duplicates
+          {duplicates.length > 0 && <Badge className="ml-2">{duplicates.length}</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            Transactions you entered by hand that look like ones your bank synced: the same account, an amount
+            and date close together, and a similar merchant. Merging keeps your entry and links it to the bank's.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Looking for duplicates...</p>
+        ) : duplicates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No possible duplicates. Nothing you entered matches a synced transaction.</p>
+        ) : (
+          <ScrollArea className="max-h-[480px] rounded-md border">
+            <div className="divide-y">
+              {duplicates.map(pair => (
+                <div key={`${pair.manual.id}:${pair.plaid.id}`} className="space-y-3 p-3 text-sm">
+                  <div className="grid grid-cols-2 gap-4">
+                    <TransactionSide label="Entered by hand" transaction={pair.manual} />
+                    <TransactionSide label="From your bank" transaction={pair.plaid} />
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {Math.round(pair.score * 100)}% match · {describeReasons(pair.reasons)}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" disabled={isDismissing} onClick={() => handleDismiss(pair)}>
+                        Not a Duplicate
+                      </Button>
+                      <Button size="sm" disabled={isMerging} onClick={() => handleMerge(pair)}>
+                        Merge
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -32,9 +32,11 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
-import { Transaction, TransactionDocument, DEFAULT_CATEGORIES } from '@/types';
+import { Transaction, TransactionDocument, TransactionSplit, DEFAULT_CATEGORIES } from '@/types';
 import { logger } from '@/utils/logger';
 import { DocumentUploadArea } from './DocumentUploadArea';
+import { SplitTransactionEditor } from './SplitTransactionEditor';
+import { splitsError } from '@shared/transactionSplits';
 import {
   Camera,
   Upload,
@@ -74,6 +76,7 @@ export function EditTransactionDialog({
 }: EditTransactionDialogProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [documents, setDocuments] = useState<TransactionDocument[]>(transaction?.documents || []);
+  const [splits, setSplits] = useState<TransactionSplit[]>(transaction?.splits || []);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -178,6 +181,16 @@ export function EditTransactionDialog({
       return;
     }
 
+    const splitError = splitsError(data.amount, splits);
+    if (splitError) {
+      toast({
+        title: 'Split does not add up',
+        description: splitError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const result = await executeWithErrorHandling(async () => {
       logger.info('Starting transaction update', {
         transactionId: transaction.id,
@@ -187,6 +200,7 @@ export function EditTransactionDialog({
       await onUpdate(transaction.id, {
         ...data,
         documents,
+        ...((splits.length > 0 || transaction.splits?.length) && { splits }),
       });
       
       logger.info('Transaction updated successfully', {
@@ -292,6 +306,13 @@ export function EditTransactionDialog({
               />
             </div>
 
+            <SplitTransactionEditor
+              amount={form.watch('amount') || 0}
+              category={form.watch('category')}
+              initialSplits={transaction.splits}
+              onChange={setSplits}
+            />
+
             <FormField
               control={form.control}
               name="notes"
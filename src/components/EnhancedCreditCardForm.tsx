@@ -8,6 +8,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CurrencySelect } from '@/components/CurrencySelect';
 import { CreditCard, DEFAULT_CATEGORIES } from '@/types';
 
 const MAJOR_ISSUERS = [
@@ -40,6 +42,7 @@ interface EnhancedCreditCardFormProps {
 
 export const EnhancedCreditCardForm = ({ open, onOpenChange, onSubmit, editCard }: EnhancedCreditCardFormProps) => {
   const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
   const [currentTab, setCurrentTab] = useState('basic');
   const [formData, setFormData] = useState({
     // Basic Info
@@ -48,6 +51,7 @@ export const EnhancedCreditCardForm = ({ open, onOpenChange, onSubmit, editCard
     type: editCard?.type || '',
     limit: editCard?.limit?.toString() || '',
     interestRate: editCard?.interestRate?.toString() || '',
+    currency: editCard?.currency || '',
     
     // Enhanced Fields
     annualFee: editCard?.annualFee?.toString() || '',
@@ -89,6 +93,7 @@ export const EnhancedCreditCardForm = ({ open, onOpenChange, onSubmit, editCard
       type: '',
       limit: '',
       interestRate: '',
+      currency: '',
       annualFee: '',
       annualFeeWaived: false,
       annualFeeWaivedFirstYear: false,
@@ -134,6 +139,7 @@ export const EnhancedCreditCardForm = ({ open, onOpenChange, onSubmit, editCard
       type: formData.type,
       limit: parseFloat(formData.limit),
       interestRate: parseFloat(formData.interestRate),
+      currency: formData.currency || baseCurrency,
       
       // Enhanced fields
       annualFee: formData.annualFee ? parseFloat(formData.annualFee) : undefined,
@@ -289,6 +295,12 @@ export const EnhancedCreditCardForm = ({ open, onOpenChange, onSubmit, editCard
               </div>
             </div>
 
+            <CurrencySelect
+              id="cardCurrency"
+              value={formData.currency || baseCurrency}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="annualFee">Annual Fee ($)</Label>
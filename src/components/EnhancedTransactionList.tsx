@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { DEFAULT_CATEGORIES, Transaction } from '@/types';
+import { splitLines } from '@shared/transactionSplits';
 import { IncomeNotificationPrompt } from './IncomeNotificationPrompt';
 
 interface EnhancedTransactionListProps {
@@ -35,7 +36,7 @@ export function EnhancedTransactionList({
                          transaction.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (transaction.merchantName && transaction.merchantName.toLowerCase().includes(searchTerm.toLowerCase()));
     
-    const matchesCategory = selectedCategory === 'all' || transaction.category === selectedCategory;
+    const matchesCategory = selectedCategory === 'all' || splitLines(transaction).some(line => line.category === selectedCategory);
     const matchesAccount = selectedAccount === 'all' || transaction.accountId === selectedAccount;
     
     let matchesDate = true;
@@ -223,7 +224,11 @@ export function EnhancedTransactionList({
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span>Account {transaction.accountId}</span>
                         <span>•</span>
-                        <span>{DEFAULT_CATEGORIES.find(c => c.id === transaction.category)?.name || transaction.category}</span>
+                        <span>
+                          {Array.from(new Set(splitLines(transaction).map(line => line.category)))
+                            .map(category => DEFAULT_CATEGORIES.find(c => c.id === category)?.name || category)
+                            .join(', ')}
+                        </span>
                         <span>•</span>
                         <span>{format(new Date(transaction.date), 'MMM d, yyyy')}</span>
                       </div>
@@ -3,6 +3,7 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useFirestore } from '@/hooks/useFirestore';
 import { useAccountBalance } from '@/hooks/useAccountBalance';
+import { useCurrency } from '@/hooks/useCurrency';
 import { BankAccount, CreditCard, Transaction } from '@/types';
 import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle, DollarSign, CreditCard as CreditCardIcon } from 'lucide-react';
 
@@ -12,40 +13,50 @@ export const FinancialHealthDashboard = () => {
   const { documents: transactions } = useFirestore<Transaction>('transactions');
   const { calculateAccountBalance } = useAccountBalance();
 
-  // Calculate total net worth
+  // Calculate monthly income/expenses
+  const now = new Date();
+  const currentMonth = now.getMonth();
+  const currentYear = now.getFullYear();
+  const monthStart = new Date(Date.UTC(currentYear, currentMonth, 1)).toISOString().split('T')[0];
+  const { convert, unconvertible, format } = useCurrency(monthStart, now.toISOString().split('T')[0]);
+
+  // Calculate total net worth in the base currency at today's rates
   const totalBankBalance = bankAccounts.reduce((sum, account) => 
-    sum + calculateAccountBalance(account.id, 'bank', account.initialBalance), 0
+    sum + convert(calculateAccountBalance(account.id, 'bank', account.initialBalance), account.currency), 0
   );
 
   const totalCreditBalance = creditCards.reduce((sum, card) => 
-    sum + calculateAccountBalance(card.id, 'credit', 0), 0
+    sum + convert(calculateAccountBalance(card.id, 'credit', 0), card.currency), 0
   );
 
   const netWorth = totalBankBalance - Math.abs(totalCreditBalance);
 
-  // Calculate monthly income/expenses
-  const currentMonth = new Date().getMonth();
-  const currentYear = new Date().getFullYear();
-  
   const monthlyTransactions = transactions.filter(t => {
     const transactionDate = new Date(t.date);
     return transactionDate.getMonth() === currentMonth && 
            transactionDate.getFullYear() === currentYear;
   });
 
+  // Each transaction converts at the rate of its own date
   const monthlyIncome = monthlyTransactions
     .filter(t => t.type === 'income')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .reduce((sum, t) => sum + convert(t.amount, t.currency, t.date), 0);
 
   const monthlyExpenses = monthlyTransactions
     .filter(t => t.type === 'expense')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .reduce((sum, t) => sum + convert(t.amount, t.currency, t.date), 0);
+
+  const missingRates = unconvertible([
+    ...bankAccounts.map(account => account.currency),
+    ...creditCards.map(card => card.currency),
+    ...monthlyTransactions.map(t => t.currency)
+  ]);
 
   const monthlySavings = monthlyIncome - monthlyExpenses;
   const savingsRate = monthlyIncome > 0 ? (monthlySavings / monthlyIncome) * 100 : 0;
 
   // Calculate credit utilization
-  const totalCreditLimit = creditCards.reduce((sum, card) => sum + (card.limit || 0), 0);
+  const totalCreditLimit = creditCards.reduce((sum, card) => sum + convert(card.limit || 0, card.currency), 0);
   const totalCreditUsed = Math.abs(totalCreditBalance);
   const creditUtilization = totalCreditLimit > 0 ? (totalCreditUsed / totalCreditLimit) * 100 : 0;
 
@@ -110,6 +121,15 @@ export const FinancialHealthDashboard = () => {
         </CardContent>
       </Card>
 
+      {missingRates.length > 0 && (
+        <div className="flex items-start gap-3 p-3 border rounded-lg bg-warning/5">
+          <AlertTriangle className="h-5 w-5 text-warning mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            No exchange rate is available for {missingRates.join(', ')}, so those amounts are included unconverted.
+          </p>
+        </div>
+      )}
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="shadow-card">
@@ -121,7 +141,7 @@ export const FinancialHealthDashboard = () => {
           </CardHeader>
           <CardContent>
             <p className={`text-2xl font-bold ${netWorth >= 0 ? 'text-success' : 'text-destructive'}`}>
-              ${netWorth.toLocaleString()}
+              {format(netWorth)}
             </p>
             <p className="text-sm text-muted-foreground">
               Total assets minus debt
@@ -141,7 +161,7 @@ export const FinancialHealthDashboard = () => {
               {savingsRate.toFixed(1)}%
             </p>
             <p className="text-sm text-muted-foreground">
-              ${monthlySavings.toLocaleString()} saved this month
+              {format(monthlySavings)} saved this month
             </p>
           </CardContent>
         </Card>
@@ -158,7 +178,7 @@ export const FinancialHealthDashboard = () => {
               {creditUtilization.toFixed(1)}%
             </p>
             <p className="text-sm text-muted-foreground">
-              ${totalCreditUsed.toLocaleString()} of ${totalCreditLimit.toLocaleString()}
+              {format(totalCreditUsed)} of {format(totalCreditLimit)}
             </p>
           </CardContent>
         </Card>
@@ -174,17 +194,17 @@ export const FinancialHealthDashboard = () => {
             <div className="space-y-1">
               <div className="flex justify-between text-sm">
                 <span className="text-success">Income</span>
-                <span className="font-medium">${monthlyIncome.toLocaleString()}</span>
+                <span className="font-medium">{format(monthlyIncome)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-destructive">Expenses</span>
-                <span className="font-medium">${monthlyExpenses.toLocaleString()}</span>
+                <span className="font-medium">{format(monthlyExpenses)}</span>
               </div>
               <div className="pt-1 border-t">
                 <div className="flex justify-between text-sm font-bold">
                   <span>Net</span>
                   <span className={monthlySavings >= 0 ? 'text-success' : 'text-destructive'}>
-                    ${monthlySavings.toLocaleString()}
+                    {format(monthlySavings)}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Target } from 'lucide-react';
+import { usePortfolioPerformance } from '../hooks/usePortfolioPerformance';
+import { PERFORMANCE_RANGES, PERFORMANCE_RANGE_LABELS, PerformanceRange, TargetWeights } from '../types/portfolioPerformance';
+
+const chartConfig = {
+  portfolioIndex: { label: "Portfolio", color: "hsl(var(--primary))" },
+  benchmarkIndex: { label: "Benchmark", color: "hsl(var(--muted-foreground))" },
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatPercent = (percent: number | null) =>
+  percent === null ? '—' : `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+
+const percentClass = (percent: number | null) =>
+  percent === null ? '' : percent >= 0 ? 'text-green-600' : 'text-red-600';
+
+interface TargetWeightsDialogProps {
+  symbols: string[];
+  targets: TargetWeights;
+  onSave: (targets: TargetWeights) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+const TargetWeightsDialog = ({ symbols, targets, onSave, isSaving }: TargetWeightsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  const allSymbols = [...new Set([...symbols, ...Object.keys(targets)])].sort();
+  const total = allSymbols.reduce((sum, symbol) => sum + (parseFloat(weights[symbol]) || 0), 0);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setWeights(Object.fromEntries(allSymbols.map(symbol => [symbol, targets[symbol] ? String(targets[symbol]) : ''])));
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const next: TargetWeights = {};
+    allSymbols.forEach(symbol => {
+      const weight = parseFloat(weights[symbol]);
+      if (weight > 0) next[symbol] = weight;
+    });
+
+    try {
+      await onSave(next);
+      setOpen(false);
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Target className="h-4 w-4 mr-2" />
+          Set Targets
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Target Allocation</DialogTitle>
+          <DialogDescription>
+            The percentage of the portfolio each holding should make up. Leave a holding blank to give it no target.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {allSymbols.map(symbol => (
+            <div key={symbol} className="flex items-center gap-4">
+              <Label htmlFor={`target-${symbol}`} className="w-20">{symbol}</Label>
+              <Input
+                id={`target-${symbol}`}
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={weights[symbol] ?? ''}
+                onChange={(e) => setWeights(prev => ({ ...prev, [symbol]: e.target.value }))}
+              />
+            </div>
+          ))}
+          <p className={`text-sm ${total > 100 ? 'text-red-600' : 'text-muted-foreground'}`}>
+            Total: {total.toFixed(1)}%{total > 100 && ' (targets cannot add up to more than 100%)'}
+          </p>
+          <Button type="submit" className="w-full" disabled={isSaving || total > 100}>
+            {isSaving ? 'Saving...' : 'Save Targets'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const PortfolioPerformance = () => {
+  const [range, setRange] = useState<PerformanceRange>('1y');
+  const [benchmarkInput, setBenchmarkInput] = useState('SPY');
+  const [benchmark, setBenchmark] = useState('SPY');
+  const { performance, targets, isLoading, error, updateTargets, isUpdatingTargets } = usePortfolioPerformance(range, benchmark);
+
+  const applyBenchmark = () => {
+    const symbol = benchmarkInput.trim().toUpperCase();
+    if (symbol) setBenchmark(symbol);
+  };
+
+  const metrics = performance ? [
+    { label: 'Time-Weighted Return', value: performance.timeWeightedReturnPercent },
+    { label: 'Annualized', value: performance.annualizedReturnPercent },
+    { label: 'Money-Weighted (XIRR)', value: performance.moneyWeightedReturnPercent },
+    { label: `Benchmark (${performance.benchmark?.symbol ?? benchmark})`, value: performance.benchmark?.returnPercent ?? null },
+  ] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label>Period</Label>
+          <Select value={range} onValueChange={(value) => setRange(value as PerformanceRange)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERFORMANCE_RANGES.map(option => (
+                <SelectItem key={option} value={option}>{PERFORMANCE_RANGE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="benchmark">Benchmark</Label>
+          <div className="flex gap-2">
+            <Input
+              id="benchmark"
+              className="w-[120px]"
+              value={benchmarkInput}
+              onChange={(e) => setBenchmarkInput(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === 'Enter' && applyBenchmark()}
+            />
+            <Button variant="outline" onClick={applyBenchmark}>Compare</Button>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto" />
+            <p className="mt-2 text-muted-foreground">Calculating performance...</p>
+          </CardContent>
+        </Card>
+      ) : error || !performance ? (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            {error ?? 'No performance data yet.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            {metrics.map(metric => (
+              <Card key={metric.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">{metric.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className={`text-2xl font-bold ${percentClass(metric.value)}`}>{formatPercent(metric.value)}</div>
+                </CardContent>
+              </Card>
+            ))}
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Gain</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${percentClass(performance.gain)}`}>{formatCurrency(performance.gain)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(performance.startValue)} → {formatCurrency(performance.endValue)}, net deposits {formatCurrency(performance.netFlows)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {performance.unpricedSymbols.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              No stored prices for {performance.unpricedSymbols.join(', ')}; their trade prices were used instead.
+            </p>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Growth of $100</CardTitle>
+              <CardDescription>
+                {new Date(performance.startDate).toLocaleDateString()} to {new Date(performance.endDate).toLocaleDateString()}, excluding deposits and withdrawals
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={performance.points}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                    <YAxis stroke="hsl(var(--muted-foreground))" domain={['auto', 'auto']} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line type="monotone" dataKey="portfolioIndex" stroke="var(--color-portfolioIndex)" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="benchmarkIndex" stroke="var(--color-benchmarkIndex)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Contribution by Holding</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {performance.contributions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No holdings during this period.</p>
+              ) : (
+                <div className="space-y-2">
+                  {performance.contributions.map(row => (
+                    <div key={row.stockSymbol} className="grid grid-cols-4 gap-4 text-sm">
+                      <span className="font-medium">{row.stockSymbol}</span>
+                      <span className={percentClass(row.gain)}>{formatCurrency(row.gain)}</span>
+                      <span className={percentClass(row.returnPercent)}>{formatPercent(row.returnPercent)}</span>
+                      <span className={`text-right ${percentClass(row.contributionPercent)}`}>
+                        {formatPercent(row.contributionPercent)} of return
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Allocation Drift</CardTitle>
+                <CardDescription>Current weights against your targets</CardDescription>
+              </div>
+              <TargetWeightsDialog
+                symbols={performance.allocation.map(row => row.stockSymbol)}
+                targets={targets}
+                onSave={updateTargets}
+                isSaving={isUpdatingTargets}
+              />
+            </CardHeader>
+            <CardContent>
+              {performance.allocation.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No holdings to allocate.</p>
+              ) : (
+                <div className="space-y-2">
+                  {performance.allocation.map(row => (
+                    <div key={row.stockSymbol} className="grid grid-cols-5 gap-4 text-sm">
+                      <span className="font-medium">{row.stockSymbol}</span>
+                      <span>{row.currentWeightPercent.toFixed(1)}%</span>
+                      <span className="text-muted-foreground">
+                        {row.targetWeightPercent === null ? 'No target' : `Target ${row.targetWeightPercent.toFixed(1)}%`}
+                      </span>
+                      <span>
+                        {row.driftPercent === null ? '—' : `${row.driftPercent >= 0 ? '+' : ''}${row.driftPercent.toFixed(1)} pts`}
+                      </span>
+                      <span className="text-right">
+                        {row.rebalanceAmount === null || row.rebalanceAmount === 0
+                          ? '—'
+                          : `${row.rebalanceAmount > 0 ? 'Buy' : 'Sell'} ${formatCurrency(Math.abs(row.rebalanceAmount))}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Plus } from "lucide-react";
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, startOfWeek, endOfWeek } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,7 +6,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { CalendarFeedDialog } from "@/components/CalendarFeedDialog";
 import { RecurringPayment } from "@/types/recurringPayments";
+import { expandOccurrences } from "@shared/recurrence";
 
 interface RecurringPaymentCalendarProps {
   payments: RecurringPayment[];
@@ -24,11 +26,25 @@ export const RecurringPaymentCalendar = ({ payments, onAddPayment }: RecurringPa
   const calendarEnd = endOfWeek(monthEnd);
   const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
-  const getPaymentsForDate = (date: Date) => {
-    return payments.filter(payment => {
-      const paymentDate = new Date(payment.nextDueDate);
-      return isSameDay(date, paymentDate);
+  const rangeStart = format(calendarStart, "yyyy-MM-dd");
+  const rangeEnd = format(calendarEnd, "yyyy-MM-dd");
+
+  // Project every payment's schedule across the visible weeks, keyed by yyyy-MM-dd
+  const paymentsByDate = useMemo(() => {
+    const byDate = new Map<string, RecurringPayment[]>();
+
+    payments.forEach(payment => {
+      if (!payment.nextDueDate) return;
+      expandOccurrences(payment.frequency, payment.nextDueDate, rangeStart, rangeEnd).forEach(({ date }) => {
+        byDate.set(date, [...(byDate.get(date) || []), payment]);
+      });
     });
+
+    return byDate;
+  }, [payments, rangeStart, rangeEnd]);
+
+  const getPaymentsForDate = (date: Date) => {
+    return paymentsByDate.get(format(date, "yyyy-MM-dd")) || [];
   };
 
   const getDayTotal = (date: Date) => {
@@ -61,6 +77,7 @@ export const RecurringPaymentCalendar = ({ payments, onAddPayment }: RecurringPa
             Payment Calendar
           </CardTitle>
           <div className="flex items-center gap-2">
+            <CalendarFeedDialog />
             <Button
               variant="outline"
               size="sm"
@@ -13,6 +13,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { FrequencyConfig, FrequencyType } from "@/types/recurringPayments";
+import { parseRRule, RecurrenceRuleError } from "@shared/recurrence";
 import { useFirestore } from "@/hooks/useFirestore";
 
 interface RecurringPaymentFormProps {
@@ -75,6 +76,8 @@ export const RecurringPaymentForm = ({ open, onOpenChange }: RecurringPaymentFor
 
   const [nextDueDate, setNextDueDate] = useState<Date>();
   const [endDate, setEndDate] = useState<Date>();
+  const [rrule, setRRule] = useState("");
+  const [rruleError, setRRuleError] = useState<string | null>(null);
 
   const allAccounts = [
     ...bankAccounts.map(acc => ({ ...acc, type: 'bank' as const })),
@@ -92,6 +95,19 @@ export const RecurringPaymentForm = ({ open, onOpenChange }: RecurringPaymentFor
     }));
   };
 
+  // Fill the schedule from an RRULE copied out of a calendar event, e.g. "FREQ=MONTHLY;BYMONTHDAY=15"
+  const handleImportRRule = () => {
+    try {
+      const { endDate: until, ...rule } = parseRRule(rrule, nextDueDate ? format(nextDueDate, "yyyy-MM-dd") : undefined);
+      setFrequency({ ...rule, skipWeekends: frequency.skipWeekends ?? false });
+      if (until) setEndDate(new Date(`${until}T00:00:00`));
+      setRRule("");
+      setRRuleError(null);
+    } catch (error) {
+      setRRuleError(error instanceof RecurrenceRuleError ? error.message : "Could not read that rule");
+    }
+  };
+
   const handleAddTag = () => {
     if (formData.newTag.trim() && !formData.tags.includes(formData.newTag.trim())) {
       setFormData(prev => ({
@@ -176,6 +192,8 @@ export const RecurringPaymentForm = ({ open, onOpenChange }: RecurringPaymentFor
       newTag: ""
     });
     setFrequency({ type: 'monthly', interval: 1, skipWeekends: false });
+    setRRule("");
+    setRRuleError(null);
     setNextDueDate(undefined);
     setEndDate(undefined);
     onOpenChange(false);
@@ -191,6 +209,13 @@ export const RecurringPaymentForm = ({ open, onOpenChange }: RecurringPaymentFor
           ? `Every ${dayName}` 
           : `Every ${frequency.interval} weeks on ${dayName}`;
       case 'monthly':
+        if (frequency.weekOfMonth && frequency.dayOfWeek !== undefined) {
+          const weekday = WEEKDAYS.find(d => d.value === frequency.dayOfWeek)?.label;
+          const week = ['first', 'second', 'third', 'fourth', 'last'][frequency.weekOfMonth - 1];
+          return frequency.interval === 1
+            ? `Monthly on the ${week} ${weekday}`
+            : `Every ${frequency.interval} months on the ${week} ${weekday}`;
+        }
         return frequency.interval === 1 
           ? `Monthly on the ${frequency.dayOfMonth}${frequency.dayOfMonth === 1 ? 'st' : frequency.dayOfMonth === 2 ? 'nd' : frequency.dayOfMonth === 3 ? 'rd' : 'th'}` 
           : `Every ${frequency.interval} months on the ${frequency.dayOfMonth}${frequency.dayOfMonth === 1 ? 'st' : frequency.dayOfMonth === 2 ? 'nd' : frequency.dayOfMonth === 3 ? 'rd' : 'th'}`;
@@ -415,7 +440,7 @@ export const RecurringPaymentForm = ({ open, onOpenChange }: RecurringPaymentFor
                   max="31"
                   placeholder="15"
                   value={frequency.dayOfMonth}
-                  onChange={(e) => setFrequency({ ...frequency, dayOfMonth: parseInt(e.target.value) || 1 })}
+                  onChange={(e) => setFrequency({ ...frequency, dayOfMonth: parseInt(e.target.value) || 1, weekOfMonth: undefined })}
                 />
               </div>
             )}
@@ -449,6 +474,22 @@ export const RecurringPaymentForm = ({ open, onOpenChange }: RecurringPaymentFor
               <Label>Skip weekends (move to next business day)</Label>
             </div>
 
+            <div>
+              <Label htmlFor="rrule">Import from a calendar (RRULE)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="rrule"
+                  placeholder="FREQ=MONTHLY;BYMONTHDAY=15"
+                  value={rrule}
+                  onChange={(e) => setRRule(e.target.value)}
+                />
+                <Button type="button" variant="outline" disabled={!rrule.trim()} onClick={handleImportRRule}>
+                  Import
+                </Button>
+              </div>
+              {rruleError && <p className="text-sm text-destructive mt-1">{rruleError}</p>}
+            </div>
+
             <div className="p-3 bg-muted rounded-lg">
               <p className="text-sm font-medium">Preview: {getFrequencyDescription()}</p>
             </div>
@@ -9,6 +9,7 @@ import { Progress } from '@/components/ui/progress';
 import { useFirestore, FirebaseDocument } from '@/hooks/useFirestore';
 import { useAccountBalance } from '@/hooks/useAccountBalance';
 import { Transaction, BankAccount, CreditCard, DEFAULT_CATEGORIES } from '@/types';
+import { amountInCategory, splitLines } from '@shared/transactionSplits';
 import { Target, Plus, AlertTriangle, TrendingUp, Calendar, Clock } from 'lucide-react';
 
 interface Budget extends FirebaseDocument {
@@ -54,14 +55,16 @@ export const SmartBudgetIntegration = ({ accountId, accountType }: SmartBudgetIn
     const startDate = new Date(budget.startDate);
     const endDate = new Date(budget.endDate);
     
-    // Get transactions in budget period and category
-    const budgetTransactions = accountTransactions.filter(t => {
-      const transactionDate = new Date(t.date);
-      return transactionDate >= startDate && 
-             transactionDate <= endDate && 
-             t.category === budget.category &&
-             t.type === 'expense';
-    });
+    // Get transactions in budget period and category, counting only the in-category lines of split ones
+    const budgetTransactions = accountTransactions
+      .filter(t => {
+        const transactionDate = new Date(t.date);
+        return transactionDate >= startDate && 
+               transactionDate <= endDate && 
+               t.type === 'expense';
+      })
+      .map(t => ({ ...t, amount: amountInCategory(t, budget.category) }))
+      .filter(t => t.amount !== 0);
     
     const spent = budgetTransactions.reduce((sum, t) => sum + t.amount, 0);
     const percentage = (spent / budget.amount) * 100;
@@ -99,8 +102,9 @@ export const SmartBudgetIntegration = ({ accountId, accountType }: SmartBudgetIn
                date.getFullYear() === currentYear &&
                t.type === 'expense';
       })
-      .reduce((acc, t) => {
-        acc[t.category] = (acc[t.category] || 0) + t.amount;
+      .flatMap(t => splitLines(t))
+      .reduce((acc, line) => {
+        acc[line.category] = (acc[line.category] || 0) + line.amount;
         return acc;
       }, {} as Record<string, number>);
 
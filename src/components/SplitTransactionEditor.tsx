@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useInsurance } from '@/hooks/useInsurance';
+import { useIncomeSources } from '@/hooks/useIncomeSources';
+import { DEFAULT_CATEGORIES, IncomeSource, TransactionSplit } from '@/types';
+import { MAX_SPLIT_LINES, MIN_SPLIT_LINES, splitsError } from '@shared/transactionSplits';
+import { Plus, Split, X } from 'lucide-react';
+
+// Radix selects can't hold an empty value, so a line without a link uses this instead
+const NONE = '__none__';
+
+interface SplitDraft {
+  amount: string;
+  category: string;
+  tags: string;
+  insurancePolicyId: string;
+  incomeSourceId: string;
+}
+
+const emptyDraft = (amount: number, category: string): SplitDraft => ({
+  amount: amount ? amount.toFixed(2) : '',
+  category,
+  tags: '',
+  insurancePolicyId: NONE,
+  incomeSourceId: NONE
+});
+
+const toSplitDrafts = (splits: TransactionSplit[] = []): SplitDraft[] =>
+  splits.map(split => ({
+    amount: split.amount.toFixed(2),
+    category: split.category,
+    tags: (split.tags || []).join(', '),
+    insurancePolicyId: split.insurancePolicyId || NONE,
+    incomeSourceId: split.incomeSourceId || NONE
+  }));
+
+const fromSplitDrafts = (drafts: SplitDraft[]): TransactionSplit[] =>
+  drafts.map(draft => {
+    const tags = draft.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    return {
+      amount: parseFloat(draft.amount) || 0,
+      category: draft.category,
+      ...(tags.length > 0 && { tags }),
+      ...(draft.insurancePolicyId !== NONE && { insurancePolicyId: draft.insurancePolicyId }),
+      ...(draft.incomeSourceId !== NONE && { incomeSourceId: draft.incomeSourceId })
+    };
+  });
+
+interface SplitTransactionEditorProps {
+  amount: number;
+  category: string;
+  initialSplits?: TransactionSplit[];
+  onChange: (splits: TransactionSplit[]) => void;
+}
+
+/**
+ * Splits a transaction into lines, each with its own category, tags and
+ * insurance policy or income source. The last line is offered whatever is
+ * left of the amount.
+ */
+export function SplitTransactionEditor({ amount, category, initialSplits, onChange }: SplitTransactionEditorProps) {
+  const [drafts, setDrafts] = useState<SplitDraft[]>(toSplitDrafts(initialSplits));
+  const { policies } = useInsurance();
+  const { incomeSources } = useIncomeSources();
+  const sources = incomeSources as IncomeSource[];
+
+  const change = (next: SplitDraft[]) => {
+    setDrafts(next);
+    onChange(fromSplitDrafts(next));
+  };
+
+  if (drafts.length === 0) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => change([emptyDraft(amount, category), emptyDraft(0, 'other')])}
+      >
+        <Split className="h-4 w-4 mr-2" />
+        Split Transaction
+      </Button>
+    );
+  }
+
+  const allocated = drafts.reduce((sum, draft) => sum + (parseFloat(draft.amount) || 0), 0);
+  const remaining = Math.round((amount - allocated) * 100) / 100;
+  const error = splitsError(amount, fromSplitDrafts(drafts));
+
+  const update = (index: number, changes: Partial<SplitDraft>) =>
+    change(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Split Lines</h3>
+        <Button type="button" variant="ghost" size="sm" onClick={() => change([])}>
+          Remove Split
+        </Button>
+      </div>
+
+      {drafts.map((draft, index) => (
+        <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor={`split-amount-${index}`}>Amount</Label>
+            <Input
+              id={`split-amount-${index}`}
+              type="number"
+              step="0.01"
+              value={draft.amount}
+              onChange={(e) => update(index, { amount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Category</Label>
+            <Select value={draft.category} onValueChange={(value) => update(index, { category: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {DEFAULT_CATEGORIES.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`split-tags-${index}`}>Tags</Label>
+            <Input
+              id={`split-tags-${index}`}
+              placeholder="gift, household"
+              value={draft.tags}
+              onChange={(e) => update(index, { tags: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Policy or Income</Label>
+            <Select
+              value={draft.insurancePolicyId !== NONE ? `policy:${draft.insurancePolicyId}` : draft.incomeSourceId !== NONE ? `income:${draft.incomeSourceId}` : NONE}
+              onValueChange={(value) => update(index, {
+                insurancePolicyId: value.startsWith('policy:') ? value.slice('policy:'.length) : NONE,
+                incomeSourceId: value.startsWith('income:') ? value.slice('income:'.length) : NONE
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {policies.map(policy => (
+                  <SelectItem key={policy.id} value={`policy:${policy.id}`}>{policy.policyName}</SelectItem>
+                ))}
+                {sources.map(source => (
+                  <SelectItem key={source.id} value={`income:${source.id}`}>{source.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-1">
+            {index === drafts.length - 1 && remaining !== 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update(index, { amount: ((parseFloat(draft.amount) || 0) + remaining).toFixed(2) })}
+              >
+                Fill
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={drafts.length <= MIN_SPLIT_LINES}
+              onClick={() => change(drafts.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={drafts.length >= MAX_SPLIT_LINES}
+          onClick={() => change([...drafts, emptyDraft(Math.max(remaining, 0), 'other')])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Line
+        </Button>
+        <span className={`text-sm ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {error || `Lines add up to ${amount.toFixed(2)}`}
+        </span>
+      </div>
+    </div>
+  );
+}
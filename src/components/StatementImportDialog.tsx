@@ -0,0 +1,523 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { FileUp, Undo2 } from 'lucide-react';
+import { useFirestore } from '../hooks/useFirestore';
+import { useStatementImport } from '../hooks/useStatementImport';
+import { BankAccount, CreditCard } from '../types';
+import {
+  CsvColumnMapping,
+  CsvDelimiter,
+  DecimalSeparator,
+  DUPLICATE_REASON_LABELS,
+  STATEMENT_FORMAT_LABELS,
+  StatementAccountType,
+  StatementDateFormat,
+  StatementFormat,
+  StatementPreview
+} from '../types/statementImport';
+import { detectStatementFormat, parseCsvRecords, STATEMENT_DATE_FORMATS } from '@shared/statementImport';
+
+// Radix selects can't hold an empty value, so unmapped columns use this instead
+const NO_COLUMN = '__none__';
+
+// Likewise for a mapping that leaves the decimal mark to be worked out from each amount
+const DETECT_DECIMAL = '__detect__';
+
+const DECIMAL_LABELS: Record<DecimalSeparator, string> = {
+  '.': 'Point (1,234.56)',
+  ',': 'Comma (1.234,56)'
+};
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab'
+};
+
+const EMPTY_MAPPING: CsvColumnMapping = {
+  delimiter: ',',
+  dateColumn: '',
+  descriptionColumn: '',
+  dateFormat: 'MM/DD/YYYY'
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+// Picks out the columns a bank's header row most likely uses
+const guessMapping = (headers: string[], delimiter: CsvDelimiter): CsvColumnMapping => {
+  const find = (...patterns: RegExp[]) => headers.find(header => patterns.some(pattern => pattern.test(header)));
+  const amountColumn = find(/^amount$/i, /amount/i);
+  return {
+    ...EMPTY_MAPPING,
+    delimiter,
+    dateColumn: find(/^(posted|transaction)?\s*date$/i, /date/i) ?? '',
+    descriptionColumn: find(/description/i, /payee/i, /name/i, /merchant/i) ?? '',
+    ...(amountColumn
+      ? { amountColumn }
+      : { debitColumn: find(/debit/i, /withdrawal/i), creditColumn: find(/credit/i, /deposit/i) }),
+    referenceColumn: find(/reference/i, /^ref/i, /transaction id/i, /fitid/i),
+    memoColumn: find(/memo/i, /notes?/i)
+  };
+};
+
+const detectDelimiter = (content: string): CsvDelimiter => {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const counts = (['\t', ';', ','] as CsvDelimiter[]).map(delimiter => [delimiter, firstLine.split(delimiter).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+};
+
+interface ColumnSelectProps {
+  label: string;
+  value: string | undefined;
+  headers: string[];
+  optional?: boolean;
+  onChange: (value: string | undefined) => void;
+}
+
+const ColumnSelect = ({ label, value, headers, optional, onChange }: ColumnSelectProps) => (
+  <div className="space-y-1">
+    <Label>{label}</Label>
+    <Select value={value || NO_COLUMN} onValueChange={(next) => onChange(next === NO_COLUMN ? undefined : next)}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+        {headers.map(header => (
+          <SelectItem key={header} value={header}>{header}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const StatementImportDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [account, setAccount] = useState('');
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_MAPPING);
+  const [profileId, setProfileId] = useState<string>('');
+  const [profileName, setProfileName] = useState('');
+  const [preview, setPreview] = useState<StatementPreview | null>(null);
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set());
+
+  const { documents: bankAccounts } = useFirestore<BankAccount>('bankAccounts');
+  const { documents: creditCards } = useFirestore<CreditCard>('creditCards');
+  const {
+    profiles,
+    batches,
+    previewStatement,
+    isPreviewing,
+    importStatement,
+    isImporting,
+    undoImport,
+    isUndoing,
+    saveProfile,
+    isSavingProfile
+  } = useStatementImport();
+
+  const [accountType, accountId] = account ? account.split(':') as [StatementAccountType, string] : [undefined, undefined];
+
+  const accountName = (type: StatementAccountType, id: string) =>
+    (type === 'bank' ? bankAccounts.find(a => a.id === id)?.name : creditCards.find(c => c.id === id)?.name) ?? 'Unknown account';
+
+  const reset = () => {
+    setFile(null);
+    setHeaders([]);
+    setMapping(EMPTY_MAPPING);
+    setProfileId('');
+    setProfileName('');
+    setPreview(null);
+    setSelectedLines(new Set());
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    setOpen(next);
+  };
+
+  const readHeaders = (content: string, delimiter: CsvDelimiter) =>
+    (parseCsvRecords(content.split(/\r?\n/, 2)[0] ?? '', delimiter)[0]?.fields ?? []).map(header => header.trim()).filter(Boolean);
+
+  const handleFileChange = async (selected: File | undefined) => {
+    reset();
+    if (!selected) return;
+
+    const content = await selected.text();
+    const detected = detectStatementFormat(selected.name, content);
+    setFile({ name: selected.name, content });
+    setFormat(detected);
+
+    if (detected === 'csv') {
+      const delimiter = detectDelimiter(content);
+      const fileHeaders = readHeaders(content, delimiter);
+      setHeaders(fileHeaders);
+      // A saved profile whose columns all appear in this file is probably the same bank's export
+      const matching = profiles.find(profile =>
+        [profile.mapping.dateColumn, profile.mapping.descriptionColumn, profile.mapping.amountColumn, profile.mapping.debitColumn]
+          .filter(Boolean)
+          .every(column => fileHeaders.some(header => header.toLowerCase() === column!.toLowerCase()))
+      );
+      if (matching) {
+        setProfileId(matching.id);
+        setProfileName(matching.name);
+        setMapping(matching.mapping);
+      } else {
+        setMapping(guessMapping(fileHeaders, delimiter));
+      }
+    }
+  };
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || !file) return;
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+    setMapping(profile.mapping);
+    setHeaders(readHeaders(file.content, profile.mapping.delimiter));
+  };
+
+  const changeDelimiter = (delimiter: CsvDelimiter) => {
+    if (!file) return;
+    setHeaders(readHeaders(file.content, delimiter));
+    setMapping(prev => ({ ...prev, delimiter }));
+  };
+
+  const request = () => ({
+    accountId: accountId!,
+    accountType: accountType!,
+    fileName: file!.name,
+    content: file!.content,
+    format,
+    ...(format === 'csv' && { mapping }),
+    ...(format === 'qif' && { dateFormat: mapping.dateFormat })
+  });
+
+  const handlePreview = async () => {
+    if (!accountId || !file) return;
+    try {
+      const result = await previewStatement(request());
+      setPreview(result);
+      setSelectedLines(new Set(result.rows.filter(row => !row.duplicate).map(row => row.line)));
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    try {
+      await importStatement({ ...request(), lines: [...selectedLines] });
+      reset();
+      setOpen(false);
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+    try {
+      const existing = profiles.find(p => p.id === profileId && p.name === profileName.trim());
+      const saved = await saveProfile({ id: existing?.id, name: profileName.trim(), mapping });
+      setProfileId(saved.id);
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const toggleLine = (line: number, checked: boolean) => {
+    setSelectedLines(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(line); else next.delete(line);
+      return next;
+    });
+  };
+
+  const mappingComplete = format !== 'csv' ||
+    (!!mapping.dateColumn && !!mapping.descriptionColumn && !!(mapping.amountColumn || mapping.debitColumn || mapping.creditColumn));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Statement</DialogTitle>
+          <DialogDescription>
+            Bring in transactions from a CSV, OFX, QFX or QIF file downloaded from your bank.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Account</Label>
+                <Select value={account} onValueChange={setAccount}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bankAccounts.map(a => (
+                      <SelectItem key={a.id} value={`bank:${a.id}`}>{a.name}</SelectItem>
+                    ))}
+                    {creditCards.map(c => (
+                      <SelectItem key={c.id} value={`credit:${c.id}`}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="statement-file">Statement file</Label>
+                <Input
+                  id="statement-file"
+                  type="file"
+                  accept=".csv,.ofx,.qfx,.qif,.txt"
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                />
+              </div>
+            </div>
+
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                {file.name} looks like a {STATEMENT_FORMAT_LABELS[format]} file.
+              </p>
+            )}
+
+            {file && format === 'qif' && (
+              <div className="space-y-1">
+                <Label>Date order</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(value) => setMapping(prev => ({ ...prev, dateFormat: value as StatementDateFormat }))}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="MM/DD/YYYY">Month first</SelectItem>
+                    <SelectItem value="DD/MM/YYYY">Day first</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {file && format === 'csv' && (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="flex flex-wrap items-end gap-4">
+                  {profiles.length > 0 && (
+                    <div className="space-y-1">
+                      <Label>Saved mapping</Label>
+                      <Select value={profileId} onValueChange={applyProfile}>
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue placeholder="Choose a bank" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {profiles.map(profile => (
+                            <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label>Separator</Label>
+                    <Select value={mapping.delimiter} onValueChange={(value) => changeDelimiter(value as CsvDelimiter)}>
+                      <SelectTrigger className="w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).map(delimiter => (
+                          <SelectItem key={delimiter} value={delimiter}>{DELIMITER_LABELS[delimiter]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Date format</Label>
+                    <Select
+                      value={mapping.dateFormat}
+                      onValueChange={(value) => setMapping(prev => ({ ...prev, dateFormat: value as StatementDateFormat }))}
+                    >
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATEMENT_DATE_FORMATS.map(dateFormat => (
+                          <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Decimal mark</Label>
+                    <Select
+                      value={mapping.decimalSeparator ?? DETECT_DECIMAL}
+                      onValueChange={(value) => setMapping(prev => ({
+                        ...prev,
+                        decimalSeparator: value === DETECT_DECIMAL ? undefined : value as DecimalSeparator
+                      }))}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DETECT_DECIMAL}>Detect</SelectItem>
+                        {(Object.keys(DECIMAL_LABELS) as DecimalSeparator[]).map(separator => (
+                          <SelectItem key={separator} value={separator}>{DECIMAL_LABELS[separator]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <ColumnSelect label="Date" value={mapping.dateColumn} headers={headers}
+                    onChange={(value) => setMapping(prev => ({ ...prev, dateColumn: value ?? '' }))} />
+                  <ColumnSelect label="Description" value={mapping.descriptionColumn} headers={headers}
+                    onChange={(value) => setMapping(prev => ({ ...prev, descriptionColumn: value ?? '' }))} />
+                  <ColumnSelect label="Amount" value={mapping.amountColumn} headers={headers} optional
+                    onChange={(value) => setMapping(prev => ({ ...prev, amountColumn: value }))} />
+                  {!mapping.amountColumn && (
+                    <>
+                      <ColumnSelect label="Money out" value={mapping.debitColumn} headers={headers} optional
+                        onChange={(value) => setMapping(prev => ({ ...prev, debitColumn: value }))} />
+                      <ColumnSelect label="Money in" value={mapping.creditColumn} headers={headers} optional
+                        onChange={(value) => setMapping(prev => ({ ...prev, creditColumn: value }))} />
+                    </>
+                  )}
+                  <ColumnSelect label="Reference" value={mapping.referenceColumn} headers={headers} optional
+                    onChange={(value) => setMapping(prev => ({ ...prev, referenceColumn: value }))} />
+                  <ColumnSelect label="Memo" value={mapping.memoColumn} headers={headers} optional
+                    onChange={(value) => setMapping(prev => ({ ...prev, memoColumn: value }))} />
+                </div>
+
+                {mapping.amountColumn && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="invert-amounts"
+                      checked={!!mapping.invertAmounts}
+                      onCheckedChange={(checked) => setMapping(prev => ({ ...prev, invertAmounts: checked === true }))}
+                    />
+                    <Label htmlFor="invert-amounts">Money out is shown as a positive amount</Label>
+                  </div>
+                )}
+
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1 flex-1">
+                    <Label htmlFor="profile-name">Save this mapping as</Label>
+                    <Input
+                      id="profile-name"
+                      placeholder="Bank name"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveProfile}
+                    disabled={!profileName.trim() || !mappingComplete || isSavingProfile}
+                  >
+                    {isSavingProfile ? 'Saving...' : 'Save Mapping'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button onClick={handlePreview} disabled={!accountId || !file || !mappingComplete || isPreviewing}>
+                {isPreviewing ? 'Reading...' : 'Preview'}
+              </Button>
+            </DialogFooter>
+
+            {batches.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <h4 className="text-sm font-medium">Recent imports</h4>
+                {batches.slice(0, 5).map(batch => (
+                  <div key={batch.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <span className="font-medium">{batch.fileName}</span>
+                      <span className="text-muted-foreground">
+                        {' '}into {accountName(batch.accountType, batch.accountId)}, {new Date(batch.createdAt).toLocaleDateString()} · {batch.importedCount} imported
+                      </span>
+                    </div>
+                    {batch.status === 'undone' ? (
+                      <Badge variant="outline">Undone</Badge>
+                    ) : (
+                      <Button variant="ghost" size="sm" disabled={isUndoing} onClick={() => undoImport(batch.id).catch(() => {
+                        // The hook has already reported the failure
+                      })}>
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Undo
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge>{preview.newCount} new</Badge>
+              {preview.duplicateCount > 0 && <Badge variant="secondary">{preview.duplicateCount} already in this account</Badge>}
+              {preview.errors.length > 0 && <Badge variant="destructive">{preview.errors.length} unreadable</Badge>}
+            </div>
+
+            <ScrollArea className="h-[360px] rounded-md border">
+              <div className="divide-y">
+                {preview.rows.map(row => (
+                  <div key={row.line} className="flex items-center gap-3 p-2 text-sm">
+                    <Checkbox
+                      checked={selectedLines.has(row.line)}
+                      onCheckedChange={(checked) => toggleLine(row.line, checked === true)}
+                    />
+                    <span className="w-24 shrink-0">{new Date(`${row.date}T00:00:00`).toLocaleDateString()}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{row.description}</div>
+                      {row.duplicate && (
+                        <div className="text-xs text-muted-foreground">Duplicate: {DUPLICATE_REASON_LABELS[row.duplicate.reason]}</div>
+                      )}
+                    </div>
+                    <span className={row.amount < 0 ? 'text-red-600' : 'text-green-600'}>{formatCurrency(row.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {preview.errors.length > 0 && (
+              <div className="text-sm text-muted-foreground space-y-1">
+                {preview.errors.slice(0, 5).map(error => (
+                  <p key={error.line}>{preview.format === 'ofx' ? 'Transaction' : 'Line'} {error.line}: {error.message}</p>
+                ))}
+                {preview.errors.length > 5 && <p>and {preview.errors.length - 5} more</p>}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPreview(null)}>Back</Button>
+              <Button onClick={handleImport} disabled={selectedLines.size === 0 || isImporting}>
+                {isImporting ? 'Importing...' : `Import ${selectedLines.size} Transaction${selectedLines.size === 1 ? '' : 's'}`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { CalendarClock } from 'lucide-react';
+import { useStockTransactions } from '../hooks/useStockTransactions';
+import { useToast } from './ui/use-toast';
+import { StockTransaction } from '../types';
+
+// Reverse splits are stored as splits with a ratio below one
+type StockEventKind = 'dividend' | 'split' | 'reverse_split' | 'spin_off' | 'symbol_change';
+
+const EVENT_LABELS: Record<StockEventKind, string> = {
+  dividend: 'Dividend',
+  split: 'Stock split',
+  reverse_split: 'Reverse split',
+  spin_off: 'Spin-off',
+  symbol_change: 'Symbol change',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const EMPTY_FORM = {
+  kind: 'dividend' as StockEventKind,
+  holding: '',
+  date: today(),
+  amount: '',
+  reinvested: false,
+  qualified: true,
+  shares: '',
+  ratio: '2',
+  newSymbol: '',
+  basisPercent: '',
+};
+
+/**
+ * Record a dividend or corporate action on shares already held. Dividends
+ * paid in cash post their income to the holding's account; reinvested ones,
+ * splits, spin-offs and symbol changes adjust the holding's tax lots.
+ */
+export const StockEventForm = () => {
+  const { toast } = useToast();
+  const { holdings, recordTransaction, isRecording } = useStockTransactions();
+  const [isOpen, setIsOpen] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const holding = holdings.find(h => `${h.stockSymbol}|${h.accountId}` === formData.holding);
+  const update = (changes: Partial<typeof EMPTY_FORM>) => setFormData(prev => ({ ...prev, ...changes }));
+
+  const buildEvent = (): Omit<StockTransaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'> | string => {
+    if (!holding) return 'Choose the holding this applies to.';
+    const base = {
+      stockSymbol: holding.stockSymbol,
+      stockName: holding.stockName,
+      accountId: holding.accountId,
+      date: formData.date,
+      shares: 0,
+      price: 0,
+      fees: 0,
+      totalAmount: 0,
+    };
+    const ratio = parseFloat(formData.ratio);
+    const newSymbol = formData.newSymbol.trim().toUpperCase();
+
+    switch (formData.kind) {
+      case 'dividend': {
+        const amount = parseFloat(formData.amount);
+        if (!(amount > 0)) return 'Enter the dividend amount.';
+        if (!formData.reinvested) {
+          return { ...base, type: 'dividend', totalAmount: amount, reinvested: false, qualified: formData.qualified };
+        }
+        const shares = parseFloat(formData.shares);
+        if (!(shares > 0)) return 'Enter the shares the dividend bought.';
+        return {
+          ...base,
+          type: 'dividend',
+          totalAmount: amount,
+          shares,
+          price: amount / shares,
+          reinvested: true,
+          qualified: formData.qualified,
+        };
+      }
+      case 'split':
+      case 'reverse_split':
+        if (!(ratio > 1)) return 'Enter how many shares the split turns each share into, or combines into one.';
+        return { ...base, type: 'split', ratio: formData.kind === 'split' ? ratio : 1 / ratio };
+      case 'spin_off': {
+        const basisPercent = parseFloat(formData.basisPercent);
+        if (!newSymbol || !(ratio > 0)) return 'Enter the new company\'s symbol and the shares received per share held.';
+        if (!(basisPercent >= 0 && basisPercent <= 100)) return 'Enter the percentage of cost basis allocated to the new shares.';
+        return { ...base, type: 'spin_off', newSymbol, ratio, basisAllocation: basisPercent / 100 };
+      }
+      case 'symbol_change':
+        if (!newSymbol) return 'Enter the new symbol.';
+        return { ...base, type: 'symbol_change', newSymbol };
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const event = buildEvent();
+    if (typeof event === 'string') {
+      toast({
+        title: "Invalid Input",
+        description: event,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await recordTransaction(event);
+    } catch {
+      // The hook has already reported the failure
+      return;
+    }
+
+    toast({
+      title: "Recorded",
+      description: `${EVENT_LABELS[formData.kind]} for ${event.stockSymbol} on ${event.date}`,
+    });
+    setFormData({ ...EMPTY_FORM, date: today() });
+    setIsOpen(false);
+  };
+
+  const ratioLabel = {
+    split: 'New shares for each share held',
+    reverse_split: 'Shares combined into one',
+    spin_off: 'New shares received per share held',
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Dividend or Corporate Action
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Dividend or Corporate Action</DialogTitle>
+          <DialogDescription>
+            Applies to the shares held in the chosen account on the date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Event</Label>
+              <Select value={formData.kind} onValueChange={(value: StockEventKind) => update({ kind: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EVENT_LABELS) as StockEventKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{EVENT_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-date">Date</Label>
+              <Input id="event-date" type="date" value={formData.date} onChange={(e) => update({ date: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Holding</Label>
+            <Select value={formData.holding} onValueChange={(value) => update({ holding: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder={holdings.length > 0 ? "Select holding" : "No shares held"} />
+              </SelectTrigger>
+              <SelectContent>
+                {holdings.map(h => (
+                  <SelectItem key={`${h.stockSymbol}|${h.accountId}`} value={`${h.stockSymbol}|${h.accountId}`}>
+                    {h.stockSymbol} - {Number(h.shares.toFixed(4))} shares
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.kind === 'dividend' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="dividend-amount">Dividend Amount</Label>
+                <Input
+                  id="dividend-amount"
+                  type="number"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => update({ amount: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox id="qualified" checked={formData.qualified} onCheckedChange={(checked) => update({ qualified: checked === true })} />
+                <Label htmlFor="qualified">Qualified dividend</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox id="reinvested" checked={formData.reinvested} onCheckedChange={(checked) => update({ reinvested: checked === true })} />
+                <Label htmlFor="reinvested">Reinvested in more shares</Label>
+              </div>
+              {formData.reinvested ? (
+                <div className="space-y-2">
+                  <Label htmlFor="reinvested-shares">Shares Bought</Label>
+                  <Input
+                    id="reinvested-shares"
+                    type="number"
+                    step="0.0001"
+                    value={formData.shares}
+                    onChange={(e) => update({ shares: e.target.value })}
+                    placeholder="0"
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">The dividend is added to the account as income.</p>
+              )}
+            </>
+          )}
+
+          {(formData.kind === 'split' || formData.kind === 'reverse_split' || formData.kind === 'spin_off') && (
+            <div className="space-y-2">
+              <Label htmlFor="ratio">{ratioLabel[formData.kind]}</Label>
+              <Input
+                id="ratio"
+                type="number"
+                step="0.0001"
+                value={formData.ratio}
+                onChange={(e) => update({ ratio: e.target.value })}
+              />
+            </div>
+          )}
+
+          {(formData.kind === 'spin_off' || formData.kind === 'symbol_change') && (
+            <div className="space-y-2">
+              <Label htmlFor="new-symbol">{formData.kind === 'spin_off' ? 'New Company Symbol' : 'New Symbol'}</Label>
+              <Input
+                id="new-symbol"
+                value={formData.newSymbol}
+                onChange={(e) => update({ newSymbol: e.target.value })}
+                placeholder="e.g. NEWCO"
+              />
+            </div>
+          )}
+
+          {formData.kind === 'spin_off' && (
+            <div className="space-y-2">
+              <Label htmlFor="basis-percent">Cost Basis Allocated to New Shares (%)</Label>
+              <Input
+                id="basis-percent"
+                type="number"
+                step="0.01"
+                value={formData.basisPercent}
+                onChange={(e) => update({ basisPercent: e.target.value })}
+                placeholder="From the company's Form 8937"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={isRecording || !holding}>
+              Record {EVENT_LABELS[formData.kind]}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,55 +1,23 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { TrendingUp, TrendingDown, DollarSign, PieChart, BarChart3, Eye, Star } from 'lucide-react';
-import { useFirestore } from '../hooks/useFirestore';
 import { useAuth } from '../hooks/useAuth';
-import { stockApi } from '../services/stockApi';
-import { StockHolding, StockTransaction, Portfolio } from '../types';
+import { useStockTransactions } from '../hooks/useStockTransactions';
+import { useMarketQuotes } from '../hooks/useMarketQuotes';
+import { StockTransaction, Portfolio } from '../types';
 import { StockTransactionForm } from './StockTransactionForm';
-import { ApiKeySetup } from './ApiKeySetup';
+import { StockEventForm } from './StockEventForm';
+import { PortfolioPerformance } from './PortfolioPerformance';
 
 export const StockPortfolioManager = () => {
   const { user } = useAuth();
-  const { documents: holdings, loading: holdingsLoading } = useFirestore<StockHolding>('stockHoldings');
-  const { documents: transactions } = useFirestore<StockTransaction>('stockTransactions');
+  const { transactions, holdings, isLoading: holdingsLoading } = useStockTransactions();
   
-  const [stockQuotes, setStockQuotes] = useState<Record<string, any>>({});
-  const [isLoadingQuotes, setIsLoadingQuotes] = useState(false);
-
-  // Fetch current quotes for all holdings
-  useEffect(() => {
-    const fetchQuotes = async () => {
-      if (holdings.length === 0) return;
-
-      setIsLoadingQuotes(true);
-      const quotes: Record<string, any> = {};
-      
-      try {
-        // Fetch quotes for unique symbols
-        const uniqueSymbols = [...new Set(holdings.map(h => h.stockSymbol))];
-        
-        for (const symbol of uniqueSymbols) {
-          try {
-            const quote = await stockApi.getStockQuote(symbol);
-            quotes[symbol] = quote;
-          } catch (error) {
-            console.error(`Failed to fetch quote for ${symbol}:`, error);
-          }
-        }
-        
-        setStockQuotes(quotes);
-      } catch (error) {
-        console.error('Error fetching quotes:', error);
-      } finally {
-        setIsLoadingQuotes(false);
-      }
-    };
-
-    fetchQuotes();
-  }, [holdings]);
+  const holdingSymbols = useMemo(() => holdings.map(h => h.stockSymbol), [holdings]);
+  const { quotes: stockQuotes } = useMarketQuotes(holdingSymbols);
 
   // Calculate portfolio summary with enhanced features
   const portfolio = useMemo(() => {
@@ -156,7 +124,7 @@ export const StockPortfolioManager = () => {
 
   // Recent transactions
   const recentTransactions = useMemo(() => {
-    return transactions
+    return [...transactions]
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
       .slice(0, 10);
   }, [transactions]);
@@ -172,6 +140,29 @@ export const StockPortfolioManager = () => {
     return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
   };
 
+  const transactionLabel = (transaction: StockTransaction) => {
+    if (transaction.type === 'split' && (transaction.ratio ?? 1) < 1) return 'REVERSE SPLIT';
+    return transaction.type.replace('_', ' ').toUpperCase();
+  };
+
+  const describeTransaction = (transaction: StockTransaction) => {
+    const ratio = transaction.ratio ?? 1;
+    switch (transaction.type) {
+      case 'dividend':
+        return transaction.reinvested
+          ? `Reinvested in ${transaction.shares.toLocaleString()} shares @ ${formatCurrency(transaction.price)}`
+          : 'Paid in cash';
+      case 'split':
+        return ratio >= 1 ? `${Number(ratio.toFixed(4))}-for-1` : `1-for-${Number((1 / ratio).toFixed(4))}`;
+      case 'spin_off':
+        return `${Number(ratio.toFixed(4))} ${transaction.newSymbol} per share, ${Number(((transaction.basisAllocation ?? 0) * 100).toFixed(2))}% of basis`;
+      case 'symbol_change':
+        return `Now ${transaction.newSymbol}`;
+      default:
+        return `${transaction.shares.toLocaleString()} shares @ ${formatCurrency(transaction.price)}`;
+    }
+  };
+
   if (!user) {
     return (
       <Card>
@@ -248,13 +239,13 @@ export const StockPortfolioManager = () => {
         </Card>
       </div>
 
-      {/* API Key Setup */}
-      <ApiKeySetup />
-
       {/* Action Button */}
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Stock Portfolio</h2>
-        <StockTransactionForm />
+        <div className="flex gap-2">
+          <StockEventForm />
+          <StockTransactionForm />
+        </div>
       </div>
 
       {/* Main Content */}
@@ -262,6 +253,7 @@ export const StockPortfolioManager = () => {
         <TabsList>
           <TabsTrigger value="holdings">Holdings</TabsTrigger>
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
+          <TabsTrigger value="performance">Performance</TabsTrigger>
         </TabsList>
 
         <TabsContent value="holdings">
@@ -340,10 +332,10 @@ export const StockPortfolioManager = () => {
                       {quote && (
                         <div className="mt-4 pt-4 border-t">
                           <div className="flex items-center justify-between text-xs text-muted-foreground">
-                            <span>Last updated: {new Date(quote.lastUpdated).toLocaleTimeString()}</span>
+                            <span>Last updated: {new Date(quote.fetchedAt).toLocaleTimeString()}</span>
                             <Badge variant="secondary" className="text-xs">
                               <Eye className="h-3 w-3 mr-1" />
-                              Live Price
+                              Price of {quote.tradingDay}
                             </Badge>
                           </div>
                         </div>
@@ -370,8 +362,8 @@ export const StockPortfolioManager = () => {
                   <CardContent className="p-4">
                     <div className="flex justify-between items-center">
                       <div className="flex items-center space-x-3">
-                        <Badge variant={transaction.type === 'buy' ? 'default' : 'secondary'}>
-                          {transaction.type.toUpperCase()}
+                        <Badge variant={transaction.type === 'buy' ? 'default' : transaction.type === 'sell' ? 'secondary' : 'outline'}>
+                          {transactionLabel(transaction)}
                         </Badge>
                         <div>
                           <p className="font-medium">{transaction.stockSymbol}</p>
@@ -379,12 +371,12 @@ export const StockPortfolioManager = () => {
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="font-medium">
-                          {transaction.shares.toLocaleString()} shares @ {formatCurrency(transaction.price)}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          Total: {formatCurrency(transaction.totalAmount)}
-                        </p>
+                        <p className="font-medium">{describeTransaction(transaction)}</p>
+                        {transaction.totalAmount > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Total: {formatCurrency(transaction.totalAmount)}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="mt-2 text-xs text-muted-foreground">
@@ -396,6 +388,10 @@ export const StockPortfolioManager = () => {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="performance">
+          <PortfolioPerformance />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -12,25 +12,16 @@ import { stockApi } from '../services/stockApi';
 import { useFirestore } from '../hooks/useFirestore';
 import { useAuth } from '../hooks/useAuth';
 import { useAccountBalance } from '../hooks/useAccountBalance';
+import { useStockTransactions } from '../hooks/useStockTransactions';
 import { useToast } from './ui/use-toast';
-import { StockTransaction, StockHolding, BankAccount, Transaction } from '../types';
-
-interface StockSearchResult {
-  symbol: string;
-  name: string;
-  type: string;
-  region: string;
-  matchScore: number;
-}
+import { StockTransaction, BankAccount, Transaction, CostBasisMethod, MarketQuote, StockSearchResult } from '../types';
 
-interface StockQuote {
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  lastUpdated: Date;
-}
+const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  specific_id: 'Specific lots',
+  average_cost: 'Average cost',
+};
 
 interface StockTransactionFormProps {
   onTransactionComplete?: () => void;
@@ -40,27 +31,36 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
   const { user } = useAuth();
   const { toast } = useToast();
   const { documents: accounts } = useFirestore<BankAccount>('bankAccounts');
-  const { addDocument: addStockTransaction } = useFirestore<StockTransaction>('stockTransactions');
-  const { documents: holdings, addDocument: addHolding, updateDocument: updateHolding } = useFirestore<StockHolding>('stockHoldings');
+  const { openLots, recordTransaction, isRecording } = useStockTransactions();
   const { addTransactionWithBalanceUpdate } = useAccountBalance();
 
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<StockSearchResult[]>([]);
   const [selectedStock, setSelectedStock] = useState<StockSearchResult | null>(null);
-  const [currentQuote, setCurrentQuote] = useState<StockQuote | null>(null);
+  const [currentQuote, setCurrentQuote] = useState<MarketQuote | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [isLoadingQuote, setIsLoadingQuote] = useState(false);
 
   const [formData, setFormData] = useState({
-    type: 'buy' as 'buy' | 'sell',
+    type: 'buy' as 'buy' | 'sell', // Dividends and corporate actions are recorded with StockEventForm
     inputMode: 'shares' as 'shares' | 'amount',
     shares: '',
     investmentAmount: '',
     price: '',
     fees: '0',
     accountId: '',
+    costBasisMethod: 'fifo' as CostBasisMethod,
   });
+  // Shares to sell from each lot, keyed by lot id, when selling specific lots
+  const [lotShares, setLotShares] = useState<Record<string, string>>({});
+
+  const lots = selectedStock && formData.accountId ? openLots(selectedStock.symbol, formData.accountId) : [];
+  const heldShares = lots.reduce((sum, lot) => sum + lot.remainingShares, 0);
+  const lotSelections = lots
+    .map(lot => ({ lotId: lot.id, shares: parseFloat(lotShares[lot.id] ?? '') || 0 }))
+    .filter(selection => selection.shares > 0);
+  const selectedShares = lotSelections.reduce((sum, selection) => sum + selection.shares, 0);
 
   useEffect(() => {
     const searchStocks = async () => {
@@ -191,6 +191,25 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
       return;
     }
 
+    if (formData.type === 'sell' && shares > heldShares + 1e-9) {
+      toast({
+        title: "Not Enough Shares",
+        description: `This account holds ${heldShares} shares of ${selectedStock.symbol}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const isSpecificId = formData.type === 'sell' && formData.costBasisMethod === 'specific_id';
+    if (isSpecificId && Math.abs(selectedShares - shares) > 1e-9) {
+      toast({
+        title: "Invalid Input",
+        description: `The shares chosen from lots (${selectedShares}) must add up to the ${shares} shares sold.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       // Create stock transaction
       const stockTransaction: Omit<StockTransaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
@@ -203,9 +222,16 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
         totalAmount,
         accountId: formData.accountId,
         date: new Date().toISOString().split('T')[0],
+        ...(formData.type === 'sell' && { costBasisMethod: formData.costBasisMethod }),
+        ...(isSpecificId && { lotSelections }),
       };
 
-      await addStockTransaction(stockTransaction);
+      try {
+        await recordTransaction(stockTransaction);
+      } catch {
+        // The hook has already reported the failure
+        return;
+      }
 
       // Create corresponding account transaction
       const accountTransaction: Omit<Transaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
@@ -222,43 +248,6 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
 
       await addTransactionWithBalanceUpdate(accountTransaction);
 
-      // Update or create stock holding
-      const existingHolding = holdings.find(h => 
-        h.stockSymbol === selectedStock.symbol && h.accountId === formData.accountId
-      );
-
-      if (existingHolding) {
-        if (formData.type === 'buy') {
-          const newTotalShares = existingHolding.shares + shares;
-          const newAverageCost = ((existingHolding.averageCostBasis * existingHolding.shares) + (price * shares)) / newTotalShares;
-          
-          await updateHolding(existingHolding.id, {
-            shares: newTotalShares,
-            averageCostBasis: newAverageCost,
-            totalValue: newTotalShares * (currentQuote?.price || price),
-          });
-        } else {
-          // Sell shares
-          const newShares = Math.max(0, existingHolding.shares - shares);
-          await updateHolding(existingHolding.id, {
-            shares: newShares,
-            totalValue: newShares * (currentQuote?.price || price),
-          });
-        }
-      } else if (formData.type === 'buy') {
-        // Create new holding
-        const newHolding: Omit<StockHolding, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
-          stockSymbol: selectedStock.symbol,
-          stockName: selectedStock.name,
-          shares,
-          averageCostBasis: price,
-          totalValue: shares * (currentQuote?.price || price),
-          accountId: formData.accountId,
-        };
-
-        await addHolding(newHolding);
-      }
-
       toast({
         title: "Success! 📈",
         description: `${formData.type === 'buy' ? 'Purchased' : 'Sold'} ${shares} shares of ${selectedStock.symbol}`,
@@ -273,7 +262,9 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
         price: '',
         fees: '0',
         accountId: '',
+        costBasisMethod: 'fifo',
       });
+      setLotShares({});
       setSelectedStock(null);
       setSearchQuery('');
       setCurrentQuote(null);
@@ -489,6 +480,59 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
                 </div>
               </div>
 
+              {/* Tax lots to sell from */}
+              {formData.type === 'sell' && formData.accountId && (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <Label>Cost Basis Method</Label>
+                    <span className="text-sm text-muted-foreground">{heldShares} shares held</span>
+                  </div>
+                  <Select
+                    value={formData.costBasisMethod}
+                    onValueChange={(value: CostBasisMethod) => setFormData(prev => ({ ...prev, costBasisMethod: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>{COST_BASIS_LABELS[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {formData.costBasisMethod === 'specific_id' && (
+                    <div className="border rounded-md divide-y">
+                      {lots.length === 0 && (
+                        <p className="p-3 text-sm text-muted-foreground">No open lots in this account.</p>
+                      )}
+                      {lots.map(lot => (
+                        <div key={lot.id} className="flex items-center justify-between gap-3 p-3">
+                          <div className="text-sm">
+                            <div className="font-medium">Bought {lot.acquiredDate}</div>
+                            <div className="text-muted-foreground">
+                              {lot.remainingShares} shares at ${(lot.costBasis / lot.remainingShares).toFixed(2)}/share
+                              {lot.washSaleOf && ' (wash sale adjusted)'}
+                            </div>
+                          </div>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={lot.remainingShares}
+                            className="w-28"
+                            aria-label={`Shares to sell from the lot bought ${lot.acquiredDate}`}
+                            value={lotShares[lot.id] ?? ''}
+                            onChange={(e) => setLotShares(prev => ({ ...prev, [lot.id]: e.target.value }))}
+                            placeholder="0"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Total */}
               <Card>
                 <CardContent className="p-4">
@@ -510,6 +554,7 @@ export const StockTransactionForm = ({ onTransactionComplete }: StockTransaction
                   type="submit" 
                   className="flex-1"
                   disabled={
+                    isRecording ||
                     !formData.price || 
                     !formData.accountId || 
                     (formData.inputMode === 'shares' && !formData.shares) ||
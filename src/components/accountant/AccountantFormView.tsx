@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PersonalInfoForm } from "@/components/tax/PersonalInfoForm";
+import { IncomeDataForm } from "@/components/tax/IncomeDataForm";
+import { DeductionsForm } from "@/components/tax/DeductionsForm";
+import { CreditsForm } from "@/components/tax/CreditsForm";
+import { TaxSummary } from "@/components/tax/TaxSummary";
+import { TaxFormNotes } from "@/components/tax/TaxFormNotes";
+import { accountantApiClient } from "@/lib/accountantApi";
+import { AccountantFormChanges, useAccountantClientForm } from "@/hooks/useAccountantPortal";
+import { useTaxFormNotes } from "@/hooks/useTaxFormNotes";
+import { AccountantAccessLevel, TaxFormData } from "@/types/tax";
+
+interface AccountantFormViewProps {
+  clientId: string;
+  formId: string;
+  accessLevel: AccountantAccessLevel;
+}
+
+// Statuses each access level may set; mirrors the server's rules
+const SETTABLE_STATUSES: Record<AccountantAccessLevel, Array<TaxFormData['status']>> = {
+  view_only: [],
+  edit_forms: ['reviewed'],
+  full_access: ['reviewed', 'filed']
+};
+
+const UNCHANGED_STATUS = 'unchanged';
+
+export function AccountantFormView({ clientId, formId, accessLevel }: AccountantFormViewProps) {
+  const basePath = `/clients/${clientId}/forms/${formId}`;
+  const { form, isLoading, error, updateForm, isSaving } = useAccountantClientForm(clientId, formId);
+  const { refreshHistory } = useTaxFormNotes(accountantApiClient, basePath);
+  const [changes, setChanges] = useState<AccountantFormChanges>({});
+  // Section forms keep their own copy of the data, so they are remounted after a save
+  const [revision, setRevision] = useState(0);
+  const canEdit = accessLevel !== 'view_only';
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading tax form...</p>;
+  }
+  if (error || !form) {
+    return <p className="text-destructive">{error ?? "Tax form not found"}</p>;
+  }
+
+  const draft = { ...form, ...changes } as TaxFormData;
+  const hasChanges = Object.keys(changes).some(key => key !== 'changeDescription');
+
+  const handleSave = async () => {
+    try {
+      await updateForm(changes);
+      setChanges({});
+      setRevision(current => current + 1);
+      refreshHistory();
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <TaxSummary taxForm={draft} />
+
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Edit Return</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Tabs defaultValue="personal">
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="personal">Personal Info</TabsTrigger>
+                <TabsTrigger value="income">Income</TabsTrigger>
+                <TabsTrigger value="deductions">Deductions</TabsTrigger>
+                <TabsTrigger value="credits">Credits</TabsTrigger>
+              </TabsList>
+              <TabsContent value="personal">
+                <PersonalInfoForm
+                  key={`personal-${revision}`}
+                  data={draft.personalInfo}
+                  filingStatus={draft.filingStatus}
+                  onUpdate={(data) => setChanges(prev => ({
+                    ...prev,
+                    personalInfo: data.personalInfo,
+                    filingStatus: data.filingStatus as TaxFormData['filingStatus']
+                  }))}
+                />
+              </TabsContent>
+              <TabsContent value="income">
+                <IncomeDataForm
+                  key={`income-${revision}`}
+                  data={draft.incomeData}
+                  onUpdate={(incomeData) => setChanges(prev => ({ ...prev, incomeData }))}
+                />
+              </TabsContent>
+              <TabsContent value="deductions">
+                <DeductionsForm
+                  key={`deductions-${revision}`}
+                  data={draft.deductionsData}
+                  taxYear={draft.taxYear}
+                  filingStatus={draft.filingStatus}
+                  onUpdate={(deductionsData) => setChanges(prev => ({ ...prev, deductionsData }))}
+                />
+              </TabsContent>
+              <TabsContent value="credits">
+                <CreditsForm
+                  key={`credits-${revision}`}
+                  data={draft.creditsData}
+                  dependents={draft.personalInfo?.dependents || []}
+                  taxYear={draft.taxYear}
+                  onUpdate={(creditsData) => setChanges(prev => ({ ...prev, creditsData }))}
+                />
+              </TabsContent>
+            </Tabs>
+
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="change-description">Describe your change</Label>
+                <Input
+                  id="change-description"
+                  value={changes.changeDescription ?? ""}
+                  onChange={(e) => setChanges(prev => ({ ...prev, changeDescription: e.target.value }))}
+                  placeholder="e.g. Corrected W-2 withholding"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Form status</Label>
+                <Select
+                  value={changes.status ?? UNCHANGED_STATUS}
+                  onValueChange={(value) => setChanges(({ status: _status, ...prev }) =>
+                    value === UNCHANGED_STATUS ? prev : { ...prev, status: value as TaxFormData['status'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNCHANGED_STATUS}>Keep as {form.status.replace(/_/g, ' ')}</SelectItem>
+                    {SETTABLE_STATUSES[accessLevel].map(status => (
+                      <SelectItem key={status} value={status}>Mark {status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || !hasChanges}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Changes
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <TaxFormNotes api={accountantApiClient} basePath={basePath} viewerRole="accountant" />
+    </div>
+  );
+}
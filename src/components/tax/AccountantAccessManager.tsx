@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Copy, Send, Trash2, UserPlus } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccountantAccess } from "@/hooks/useAccountantAccess";
+import { useToast } from "@/hooks/use-toast";
+import { AccountantAccessLevel, AccountantClientAccess } from "@/types/tax";
+
+interface AccountantAccessManagerProps {
+  taxYear: number;
+  // When set, accountants with live access can be sent this form for review
+  taxFormId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted?: () => void;
+}
+
+const ACCESS_LEVELS: Array<{ value: AccountantAccessLevel; label: string; description: string }> = [
+  { value: 'view_only', label: 'View only', description: 'Can read your forms and leave notes' },
+  { value: 'edit_forms', label: 'Edit forms', description: 'Can also change your forms and mark them reviewed' },
+  { value: 'full_access', label: 'Full access', description: 'Can also mark your forms as filed' }
+];
+
+const STATUS_VARIANTS = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+  expired: "outline",
+  revoked: "outline"
+} as const;
+
+const isLive = (access: AccountantClientAccess) => access.status === 'pending' || access.status === 'approved';
+
+export function AccountantAccessManager({ taxYear, taxFormId, open, onOpenChange, onSubmitted }: AccountantAccessManagerProps) {
+  const { accesses, isLoading, inviteAccountant, isInviting, revokeAccess, isRevoking, submitForm, isSubmitting } = useAccountantAccess();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [accessLevel, setAccessLevel] = useState<AccountantAccessLevel>('view_only');
+  // Access runs through the extended filing deadline by default
+  const [accessExpires, setAccessExpires] = useState(`${taxYear + 1}-10-15`);
+  const [thisYearOnly, setThisYearOnly] = useState(true);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const handleInvite = async () => {
+    try {
+      const result = await inviteAccountant({
+        accountantEmail: email,
+        accessLevel,
+        accessExpires: new Date(`${accessExpires}T23:59:59`).toISOString(),
+        taxYears: thisYearOnly ? [taxYear] : []
+      });
+      setEmail("");
+      if (result.emailSent) {
+        setInviteUrl(null);
+        toast({ title: "Invite sent", description: `${result.access.accountantEmail} has been emailed an invite.` });
+      } else {
+        setInviteUrl(result.inviteUrl);
+      }
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    toast({ title: "Copied", description: "Send the link to your accountant." });
+  };
+
+  const handleSubmit = async (access: AccountantClientAccess) => {
+    if (!taxFormId) return;
+    try {
+      await submitForm({ taxFormId, accountantEmail: access.accountantEmail });
+      onSubmitted?.();
+      onOpenChange(false);
+    } catch {
+      // The hook has already reported the failure
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setInviteUrl(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share with your accountant</DialogTitle>
+          <DialogDescription>
+            Invited accountants sign in to a separate portal where they can see the returns you share,
+            leave notes and, if you allow it, make changes. Every change they make is kept in the form's history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 border rounded-lg p-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="accountant-email">Accountant's email</Label>
+              <Input
+                id="accountant-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="accountant@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountant-expires">Access until</Label>
+              <Input
+                id="accountant-expires"
+                type="date"
+                value={accessExpires}
+                onChange={(e) => setAccessExpires(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Access level</Label>
+            <Select value={accessLevel} onValueChange={(value) => setAccessLevel(value as AccountantAccessLevel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACCESS_LEVELS.map(level => (
+                  <SelectItem key={level.value} value={level.value}>
+                    {level.label} — {level.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox id="accountant-this-year" checked={thisYearOnly} onCheckedChange={(checked) => setThisYearOnly(checked === true)} />
+            <Label htmlFor="accountant-this-year">Only share my {taxYear} return</Label>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleInvite} disabled={isInviting || !email || !accessExpires}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Send Invite
+            </Button>
+          </div>
+
+          {inviteUrl && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input readOnly value={inviteUrl} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Email is not set up, so send this link to your accountant yourself. It is only shown once.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-medium">Accountants</h3>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : accesses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have not invited an accountant yet.</p>
+          ) : (
+            accesses.map(access => (
+              <div key={access.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{access.accountantEmail}</span>
+                    <Badge variant={STATUS_VARIANTS[access.status]}>{access.status}</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {ACCESS_LEVELS.find(level => level.value === access.accessLevel)?.label}
+                    {' · '}
+                    {access.taxYears.length > 0 ? access.taxYears.join(', ') : 'All tax years'}
+                    {' · until '}
+                    {format(new Date(access.accessExpires), "PPP")}
+                  </div>
+                </div>
+                {isLive(access) && (
+                  <div className="flex gap-2">
+                    {taxFormId && (access.taxYears.length === 0 || access.taxYears.includes(taxYear)) && (
+                      <Button size="sm" variant="outline" disabled={isSubmitting} onClick={() => handleSubmit(access)}>
+                        <Send className="h-4 w-4 mr-1" />
+                        Submit Return
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" disabled={isRevoking} onClick={() => revokeAccess(access.id)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,15 +6,18 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { CreditsData, Dependent, EducationCredit } from "@/types/tax";
+import { getTaxYearRules } from "@shared/tax";
 import { Plus, Trash2, Award } from "lucide-react";
 
 interface CreditsFormProps {
   data?: CreditsData;
   dependents: Dependent[];
+  taxYear: number;
   onUpdate: (data: CreditsData) => void;
 }
 
-export function CreditsForm({ data, dependents, onUpdate }: CreditsFormProps) {
+export function CreditsForm({ data, dependents, taxYear, onUpdate }: CreditsFormProps) {
+  const childTaxCredit = getTaxYearRules(taxYear).childTaxCredit;
   const [creditsData, setCreditsData] = useState<CreditsData>(data || {
     childTaxCredit: {
       qualifyingChildren: [],
@@ -78,7 +81,7 @@ export function CreditsForm({ data, dependents, onUpdate }: CreditsFormProps) {
       childTaxCredit: {
         ...creditsData.childTaxCredit,
         qualifyingChildren: updated,
-        creditAmount: updated.length * 2000 // $2,000 per qualifying child
+        creditAmount: updated.length * childTaxCredit.amountPerChild // Before the income phase-out
       }
     });
   };
@@ -116,7 +119,7 @@ export function CreditsForm({ data, dependents, onUpdate }: CreditsFormProps) {
         <CardHeader>
           <CardTitle>Child Tax Credit</CardTitle>
           <CardDescription>
-            Up to $2,000 per qualifying child under 17
+            Up to ${childTaxCredit.amountPerChild.toLocaleString()} per qualifying child under {childTaxCredit.maxAge}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { DeductionsData, CharitableContribution } from "@/types/tax";
+import { DeductionsData, CharitableContribution, FilingStatus } from "@/types/tax";
+import { getStandardDeduction } from "@shared/tax";
 import { TaxReceiptUpload } from "./TaxReceiptUpload";
 import { Plus, Trash2, Calculator } from "lucide-react";
 
@@ -13,9 +14,11 @@ interface DeductionsFormProps {
   data?: DeductionsData;
   onUpdate: (data: DeductionsData) => void;
   taxFormId?: string;
+  taxYear: number;
+  filingStatus: FilingStatus;
 }
 
-export function DeductionsForm({ data, onUpdate, taxFormId }: DeductionsFormProps) {
+export function DeductionsForm({ data, onUpdate, taxFormId, taxYear, filingStatus }: DeductionsFormProps) {
   const [documents, setDocuments] = useState<any[]>([]);
   const [deductionsData, setDeductionsData] = useState<DeductionsData>(data || {
     deductionType: 'standard',
@@ -111,7 +114,7 @@ export function DeductionsForm({ data, onUpdate, taxFormId }: DeductionsFormProp
     }
   };
 
-  const standardDeductionAmount = 14600; // 2025 standard deduction for single filers
+  const standardDeductionAmount = getStandardDeduction(taxYear, filingStatus);
 
   return (
     <div className="space-y-6">
@@ -0,0 +1,123 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useForm8949 } from "@/hooks/useForm8949";
+import { Form8949Report } from "@/types";
+import { AlertTriangle, Download, LineChart } from "lucide-react";
+
+interface Form8949ImportProps {
+  taxYear: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (report: Form8949Report) => void;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const PARTS = [
+  { key: 'shortTerm', title: 'Part I - Short-term (held one year or less)' },
+  { key: 'longTerm', title: 'Part II - Long-term (held more than one year)' }
+] as const;
+
+export function Form8949Import({ taxYear, open, onOpenChange, onImport }: Form8949ImportProps) {
+  const { report, isLoading, error, downloadCsv } = useForm8949(taxYear, open);
+  const hasSales = !!report && (report.shortTerm.rows.length > 0 || report.longTerm.rows.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LineChart className="h-5 w-5" />
+            Import capital gains
+          </DialogTitle>
+          <DialogDescription>
+            Your {taxYear} stock sales, matched to the lots they were sold from. Losses marked W are wash sales:
+            the disallowed part is shown as an adjustment and moved into the shares that replaced them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-muted-foreground">Matching your {taxYear} sales to their lots...</div>
+        ) : report && !hasSales ? (
+          <div className="py-8 text-center text-muted-foreground">No stock sales in {taxYear}.</div>
+        ) : report && (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-6">
+              {PARTS.map(({ key, title }) => {
+                const part = report[key];
+                if (part.rows.length === 0) return null;
+                return (
+                  <div key={key} className="space-y-2">
+                    <h3 className="font-medium">{title}</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Description</TableHead>
+                          <TableHead>Acquired</TableHead>
+                          <TableHead>Sold</TableHead>
+                          <TableHead className="text-right">Proceeds</TableHead>
+                          <TableHead className="text-right">Cost basis</TableHead>
+                          <TableHead className="text-right">Adjustment</TableHead>
+                          <TableHead className="text-right">Gain or loss</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {part.rows.map((row, index) => (
+                          <TableRow key={`${row.saleId}-${index}`}>
+                            <TableCell>{row.description}</TableCell>
+                            <TableCell>{row.dateAcquired}</TableCell>
+                            <TableCell>{row.dateSold}</TableCell>
+                            <TableCell className="text-right">{formatAmount(row.proceeds)}</TableCell>
+                            <TableCell className="text-right">{formatAmount(row.costBasis)}</TableCell>
+                            <TableCell className="text-right">
+                              {row.adjustmentCode && <Badge variant="outline" className="mr-2">{row.adjustmentCode}</Badge>}
+                              {row.adjustment !== 0 && formatAmount(row.adjustment)}
+                            </TableCell>
+                            <TableCell className={`text-right ${row.gain < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              {formatAmount(row.gain)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                      <TableFooter>
+                        <TableRow>
+                          <TableCell colSpan={3}>Totals</TableCell>
+                          <TableCell className="text-right">{formatAmount(part.totals.proceeds)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(part.totals.costBasis)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(part.totals.adjustment)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(part.totals.gain)}</TableCell>
+                        </TableRow>
+                      </TableFooter>
+                    </Table>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={downloadCsv} disabled={!hasSales}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+          <Button onClick={() => report && onImport(report)} disabled={!hasSales}>
+            Add to return
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
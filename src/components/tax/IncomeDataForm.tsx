@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { IncomeData, W2Income, Form1099Income } from "@/types/tax";
+import { IncomeData, W2Income, Form1099Income, CapitalGains } from "@/types/tax";
 import { Plus, Trash2, DollarSign } from "lucide-react";
 
 interface IncomeDataFormProps {
@@ -30,6 +30,18 @@ export function IncomeDataForm({ data, onUpdate }: IncomeDataFormProps) {
     onUpdate(updated);
   };
 
+  const updateCapitalGains = (changes: Partial<CapitalGains>) => {
+    updateData({
+      capitalGains: {
+        shortTermGains: 0,
+        longTermGains: 0,
+        qualifiedDividends: 0,
+        ...incomeData.capitalGains,
+        ...changes
+      }
+    });
+  };
+
   const addW2 = () => {
     const newW2: W2Income = {
       id: Date.now().toString(),
@@ -348,6 +360,42 @@ export function IncomeDataForm({ data, onUpdate }: IncomeDataFormProps) {
                   />
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <Label className="text-base font-medium">Capital Gains and Dividends</Label>
+                <p className="text-sm text-muted-foreground">
+                  Net gains from Schedule D; enter losses as negative amounts. Qualified dividends are the part of your 1099-DIV dividends taxed at capital gains rates.
+                </p>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label>Short-Term Gains</Label>
+                    <Input
+                      type="number"
+                      value={incomeData.capitalGains?.shortTermGains ?? 0}
+                      onChange={(e) => updateCapitalGains({ shortTermGains: parseFloat(e.target.value) || 0 })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div>
+                    <Label>Long-Term Gains</Label>
+                    <Input
+                      type="number"
+                      value={incomeData.capitalGains?.longTermGains ?? 0}
+                      onChange={(e) => updateCapitalGains({ longTermGains: parseFloat(e.target.value) || 0 })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div>
+                    <Label>Qualified Dividends</Label>
+                    <Input
+                      type="number"
+                      value={incomeData.capitalGains?.qualifiedDividends ?? 0}
+                      onChange={(e) => updateCapitalGains({ qualifiedDividends: parseFloat(e.target.value) || 0 })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { AxiosInstance } from "axios";
+import { format } from "date-fns";
+import { CheckCircle, History, MessageSquare, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTaxFormNotes } from "@/hooks/useTaxFormNotes";
+import { AccountantNote, AccountantNoteThread } from "@/types/tax";
+
+interface TaxFormNotesProps {
+  api: AxiosInstance;
+  // The form's path on the API; null while the form has not been saved
+  basePath: string | null;
+  viewerRole: AccountantNote['authorRole'];
+}
+
+const CATEGORIES: Array<{ value: AccountantNote['category']; label: string }> = [
+  { value: 'question', label: 'Question' },
+  { value: 'recommendation', label: 'Recommendation' },
+  { value: 'concern', label: 'Concern' },
+  { value: 'completion', label: 'Completion' }
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  filingStatus: 'Filing status',
+  personalInfo: 'Personal info',
+  incomeData: 'Income',
+  deductionsData: 'Deductions',
+  creditsData: 'Credits',
+  status: 'Status'
+};
+
+const describeValue = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/_/g, ' ') : 'updated';
+
+function NoteBody({ note, viewerRole }: { note: AccountantNote; viewerRole: AccountantNote['authorRole'] }) {
+  const author = note.authorRole === viewerRole ? 'You' : note.authorRole === 'accountant' ? 'Accountant' : 'Client';
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">
+        {author} · {format(new Date(note.createdDate), "PPP p")}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{note.noteText}</p>
+    </div>
+  );
+}
+
+function NoteThread({ thread, viewerRole, onReply, onSetResolved, isAddingNote }: {
+  thread: AccountantNoteThread;
+  viewerRole: AccountantNote['authorRole'];
+  onReply: (text: string) => Promise<void>;
+  onSetResolved: (resolved: boolean) => void;
+  isAddingNote: boolean;
+}) {
+  const [reply, setReply] = useState("");
+  const { note, replies } = thread;
+
+  const handleReply = async () => {
+    try {
+      await onReply(reply);
+      setReply("");
+    } catch {
+      // The hook has already reported the failure; keep the draft so it can be sent again
+    }
+  };
+
+  return (
+    <div className={`border rounded-lg p-4 space-y-3 ${note.resolved ? 'opacity-70' : ''}`}>
+      <div className="flex items-start justify-between gap-4">
+        <NoteBody note={note} viewerRole={viewerRole} />
+        <div className="flex items-center gap-2 shrink-0">
+          <Badge variant="outline">{note.category}</Badge>
+          {note.resolved ? (
+            <Button size="sm" variant="ghost" onClick={() => onSetResolved(false)}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reopen
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={() => onSetResolved(true)}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Resolve
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {replies.length > 0 && (
+        <div className="ml-4 pl-4 border-l space-y-3">
+          {replies.map(replyNote => (
+            <NoteBody key={replyNote.id} note={replyNote} viewerRole={viewerRole} />
+          ))}
+        </div>
+      )}
+
+      {!note.resolved && (
+        <div className="flex gap-2">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply..."
+            rows={1}
+          />
+          <Button variant="outline" disabled={isAddingNote || !reply.trim()} onClick={handleReply}>
+            Reply
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TaxFormNotes({ api, basePath, viewerRole }: TaxFormNotesProps) {
+  const { threads, history, isLoading, isHistoryLoading, addNote, isAddingNote, setResolved } = useTaxFormNotes(api, basePath);
+  const [noteText, setNoteText] = useState("");
+  const [category, setCategory] = useState<AccountantNote['category']>('question');
+
+  const handleStartThread = async () => {
+    try {
+      await addNote({ noteText, category });
+      setNoteText("");
+    } catch {
+      // The hook has already reported the failure; keep the draft so it can be sent again
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Accountant Notes
+        </CardTitle>
+        <CardDescription>
+          {viewerRole === 'client'
+            ? 'Questions and recommendations from your accountant, and the changes they made to this form.'
+            : 'Notes shared with your client, and every change made to this form through the portal.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!basePath ? (
+          <p className="text-sm text-muted-foreground">Save the form to start a conversation with your accountant.</p>
+        ) : (
+          <Tabs defaultValue="notes">
+            <TabsList>
+              <TabsTrigger value="notes">Notes ({threads.filter(thread => !thread.note.resolved).length} open)</TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-1">
+                <History className="h-4 w-4" />
+                History
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="notes" className="space-y-4">
+              <div className="space-y-2">
+                <Textarea
+                  value={noteText}
+                  onChange={(e) => setNoteText(e.target.value)}
+                  placeholder="Start a new thread..."
+                />
+                <div className="flex justify-end gap-2">
+                  <Select value={category} onValueChange={(value) => setCategory(value as AccountantNote['category'])}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORIES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button disabled={isAddingNote || !noteText.trim()} onClick={handleStartThread}>
+                    Add Note
+                  </Button>
+                </div>
+              </div>
+
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading notes...</p>
+              ) : threads.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No notes on this form yet.</p>
+              ) : (
+                threads.map(thread => (
+                  <NoteThread
+                    key={thread.note.id}
+                    thread={thread}
+                    viewerRole={viewerRole}
+                    isAddingNote={isAddingNote}
+                    onReply={async (text) => { await addNote({ noteText: text, parentNoteId: thread.note.id }); }}
+                    onSetResolved={(resolved) => setResolved({ noteId: thread.note.id, resolved })}
+                  />
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-3">
+              {isHistoryLoading ? (
+                <p className="text-sm text-muted-foreground">Loading history...</p>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No changes have been saved yet.</p>
+              ) : (
+                history.map(entry => (
+                  <div key={entry.id} className="border rounded-lg p-3 space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">Version {entry.version}: {entry.changeDescription}</span>
+                      <span className="text-muted-foreground">
+                        {entry.changedByRole === 'accountant' ? 'Accountant' : 'Client'}
+                        {' · '}
+                        {format(new Date(entry.changeDate), "PPP p")}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.keys(entry.newData).map(field => (
+                        <Badge key={field} variant="secondary">
+                          {FIELD_LABELS[field] ?? field}
+                          {(field === 'status' || field === 'filingStatus') && field in entry.previousData
+                            ? `: ${describeValue(entry.previousData[field as keyof typeof entry.previousData])} → ${describeValue(entry.newData[field as keyof typeof entry.newData])}`
+                            : ''}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useTaxPrefill } from "@/hooks/useTaxPrefill";
+import { TaxPrefillProposal } from "@/types/tax";
+import { AlertTriangle, Check, ChevronDown, Sparkles, X } from "lucide-react";
+
+interface TaxPrefillReviewProps {
+  taxYear: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Adds the entry to the return and saves it; rejects if the save fails
+  onAccept: (proposal: TaxPrefillProposal) => Promise<void>;
+}
+
+const SECTIONS: Array<{ kind: TaxPrefillProposal['kind']; title: string }> = [
+  { kind: 'w2Income', title: 'W-2 Income' },
+  { kind: 'form1099Income', title: '1099 Income' },
+  { kind: 'charitableContribution', title: 'Charitable Contributions' },
+  { kind: 'businessExpense', title: 'Business Expenses' }
+];
+
+const CONFIDENCE_VARIANTS = {
+  high: "default",
+  medium: "secondary",
+  low: "outline"
+} as const;
+
+export function TaxPrefillReview({ taxYear, open, onOpenChange, onAccept }: TaxPrefillReviewProps) {
+  const { pendingProposals, isLoading, error, acceptProposal, dismissProposal, isDeciding } = useTaxPrefill(taxYear, open);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  // The proposal is only recorded as accepted once the return holding its entry has been saved
+  const handleAccept = async (proposal: TaxPrefillProposal) => {
+    setIsAccepting(true);
+    try {
+      await onAccept(proposal);
+      await acceptProposal(proposal);
+    } catch {
+      // The hooks have already reported the failure
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Prefill from my data
+          </DialogTitle>
+          <DialogDescription>
+            Entries found in your {taxYear} transactions, stock dividends, income sources, insurance policies and tax documents.
+            Nothing is added to your return until you accept it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-muted-foreground">Looking through your {taxYear} data...</div>
+        ) : !error && pendingProposals.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">Nothing left to review.</div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-6">
+              {SECTIONS.map(({ kind, title }) => {
+                const proposals = pendingProposals.filter(proposal => proposal.kind === kind);
+                if (proposals.length === 0) return null;
+                return (
+                  <div key={kind} className="space-y-3">
+                    <h3 className="font-medium">{title}</h3>
+                    {proposals.map(proposal => (
+                      <div key={proposal.id} className="border rounded-lg p-4 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="space-y-1">
+                            <div className="font-medium">{proposal.summary}</div>
+                            <div className="text-sm text-muted-foreground">
+                              ${proposal.amount.toLocaleString()}
+                              {proposal.transactionIds.length > 0 && ` from ${proposal.transactionIds.length} transaction${proposal.transactionIds.length === 1 ? '' : 's'}`}
+                            </div>
+                          </div>
+                          <Badge variant={CONFIDENCE_VARIANTS[proposal.confidence]}>
+                            {proposal.confidence} confidence
+                          </Badge>
+                        </div>
+
+                        {proposal.notes && (
+                          <p className="text-sm text-muted-foreground">{proposal.notes}</p>
+                        )}
+
+                        <Collapsible>
+                          <CollapsibleTrigger className="flex items-center gap-1 text-sm text-primary">
+                            <ChevronDown className="h-4 w-4" />
+                            Sources ({proposal.sources.length})
+                          </CollapsibleTrigger>
+                          <CollapsibleContent className="mt-2 space-y-1">
+                            {proposal.sources.map(source => (
+                              <div key={`${source.type}-${source.id}`} className="flex justify-between text-sm">
+                                <span>
+                                  {source.label}
+                                  {source.date && <span className="text-muted-foreground"> · {source.date}</span>}
+                                </span>
+                                {source.amount !== undefined && <span>${source.amount.toLocaleString()}</span>}
+                              </div>
+                            ))}
+                          </CollapsibleContent>
+                        </Collapsible>
+
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" disabled={isDeciding || isAccepting} onClick={() => dismissProposal(proposal)}>
+                            <X className="h-4 w-4 mr-1" />
+                            Dismiss
+                          </Button>
+                          <Button size="sm" disabled={isDeciding || isAccepting} onClick={() => handleAccept(proposal)}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Accept
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,90 +3,32 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { TaxFormData } from "@/types/tax";
+import { TaxEstimate, TaxFormData } from "@/types/tax";
+import { estimateFederalTax, UnsupportedTaxYearError } from "@shared/tax";
 import { CheckCircle, AlertTriangle, DollarSign, FileText, Calculator } from "lucide-react";
 
 interface TaxSummaryProps {
   taxForm: TaxFormData;
-  onSubmitToAccountant: () => void;
-  onMarkComplete: () => void;
+  // Omitted where the viewer can't act on the form, such as the accountant portal
+  onSubmitToAccountant?: () => void;
+  onMarkComplete?: () => void;
 }
 
 export function TaxSummary({ taxForm, onSubmitToAccountant, onMarkComplete }: TaxSummaryProps) {
-  // Calculate summary values
-  const calculateTotalIncome = () => {
-    let total = 0;
-    
-    // W-2 income
-    if (taxForm.incomeData?.w2Income) {
-      total += taxForm.incomeData.w2Income.reduce((sum, w2) => sum + w2.wages, 0);
-    }
-    
-    // 1099 income
-    if (taxForm.incomeData?.form1099Income) {
-      total += taxForm.incomeData.form1099Income.reduce((sum, form) => sum + form.amount, 0);
-    }
-    
-    // Other income
-    total += taxForm.incomeData?.unemploymentCompensation || 0;
-    total += taxForm.incomeData?.socialSecurityBenefits || 0;
-    
-    return total;
-  };
+  // Same engine the server uses to fill estimatedTax when the form is saved
+  let estimate: TaxEstimate | null = null;
+  let estimateError: string | null = null;
+  try {
+    estimate = estimateFederalTax(taxForm);
+  } catch (error) {
+    if (!(error instanceof UnsupportedTaxYearError)) throw error;
+    estimateError = error.message;
+  }
 
-  const calculateTotalWithholding = () => {
-    let total = 0;
-    
-    // Federal withholding from W-2s
-    if (taxForm.incomeData?.w2Income) {
-      total += taxForm.incomeData.w2Income.reduce((sum, w2) => sum + w2.federalTaxWithheld, 0);
-    }
-    
-    // Federal withholding from 1099s
-    if (taxForm.incomeData?.form1099Income) {
-      total += taxForm.incomeData.form1099Income.reduce((sum, form) => sum + form.federalTaxWithheld, 0);
-    }
-    
-    return total;
-  };
-
-  const calculateTotalCredits = () => {
-    let total = 0;
-    
-    total += taxForm.creditsData?.childTaxCredit?.creditAmount || 0;
-    total += taxForm.creditsData?.earnedIncomeCredit?.creditAmount || 0;
-    total += taxForm.creditsData?.childAndDependentCareCredit?.creditAmount || 0;
-    
-    if (taxForm.creditsData?.educationCredits) {
-      total += taxForm.creditsData.educationCredits.reduce((sum, credit) => sum + credit.creditAmount, 0);
-    }
-    
-    return total;
-  };
-
-  const getDeductionAmount = () => {
-    if (taxForm.deductionsData?.deductionType === 'itemized' && taxForm.deductionsData.itemizedDeductions) {
-      const itemized = taxForm.deductionsData.itemizedDeductions;
-      return itemized.medicalExpenses + 
-             itemized.stateAndLocalTaxes + 
-             itemized.mortgageInterest + 
-             itemized.miscellaneousDeductions +
-             (itemized.charitableContributions?.reduce((sum, c) => sum + c.amount, 0) || 0);
-    }
-    return 14600; // 2025 standard deduction for single
-  };
-
-  const totalIncome = calculateTotalIncome();
-  const totalWithholding = calculateTotalWithholding();
-  const totalCredits = calculateTotalCredits();
-  const deductionAmount = getDeductionAmount();
-
-  // Simple tax calculation (this would be more complex in real implementation)
-  const adjustedGrossIncome = totalIncome;
-  const taxableIncome = Math.max(0, adjustedGrossIncome - deductionAmount);
-  const estimatedTax = taxableIncome * 0.22; // Simplified tax rate
-  const finalTax = Math.max(0, estimatedTax - totalCredits);
-  const refundOrOwed = totalWithholding - finalTax;
+  const totalCredits = estimate
+    ? estimate.childTaxCredit + estimate.otherCredits + estimate.refundableCredits
+    : 0;
+  const refundOrOwed = estimate?.refundAmount ?? 0;
 
   const getCompletionStatus = () => {
     const checks = [
@@ -156,64 +98,101 @@ export function TaxSummary({ taxForm, onSubmitToAccountant, onMarkComplete }: Ta
             <DollarSign className="h-5 w-5" />
             Financial Summary
           </CardTitle>
+          {estimate && estimate.rulesYear !== estimate.taxYear && (
+            <CardDescription>
+              Estimated with {estimate.rulesYear} tax rules until {estimate.taxYear} figures are available
+            </CardDescription>
+          )}
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Total Income</div>
-              <div className="text-2xl font-bold">${totalIncome.toLocaleString()}</div>
-            </div>
-            <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Adjusted Gross Income</div>
-              <div className="text-2xl font-bold">${adjustedGrossIncome.toLocaleString()}</div>
-            </div>
-          </div>
+          {!estimate ? (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{estimateError}</AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">Total Income</div>
+                  <div className="text-2xl font-bold">${estimate.totalIncome.toLocaleString()}</div>
+                </div>
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">Adjusted Gross Income</div>
+                  <div className="text-2xl font-bold">${estimate.adjustedGrossIncome.toLocaleString()}</div>
+                </div>
+              </div>
 
-          <Separator />
+              <Separator />
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">
-                {taxForm.deductionsData?.deductionType === 'itemized' ? 'Itemized' : 'Standard'} Deductions
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">
+                    {taxForm.deductionsData?.deductionType === 'itemized' ? 'Itemized' : 'Standard'} Deductions
+                  </div>
+                  <div className="text-lg font-semibold">${estimate.deduction.toLocaleString()}</div>
+                </div>
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">Total Credits</div>
+                  <div className="text-lg font-semibold">${totalCredits.toLocaleString()}</div>
+                </div>
               </div>
-              <div className="text-lg font-semibold">${deductionAmount.toLocaleString()}</div>
-            </div>
-            <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Total Credits</div>
-              <div className="text-lg font-semibold">${totalCredits.toLocaleString()}</div>
-            </div>
-          </div>
 
-          <Separator />
+              <Separator />
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Taxable Income</div>
-              <div className="text-lg font-semibold">${taxableIncome.toLocaleString()}</div>
-            </div>
-            <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Federal Tax Withheld</div>
-              <div className="text-lg font-semibold">${totalWithholding.toLocaleString()}</div>
-            </div>
-          </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">Taxable Income</div>
+                  <div className="text-lg font-semibold">${estimate.taxableIncome.toLocaleString()}</div>
+                </div>
+                <div className="space-y-2">
+                  <div className="text-sm text-muted-foreground">Federal Tax Withheld</div>
+                  <div className="text-lg font-semibold">${estimate.withholding.toLocaleString()}</div>
+                </div>
+              </div>
 
-          <Separator />
+              <Separator />
 
-          <div className="space-y-2">
-            <div className="text-sm text-muted-foreground">Estimated Tax Liability</div>
-            <div className="text-2xl font-bold">${finalTax.toLocaleString()}</div>
-          </div>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Income tax on ordinary income</span>
+                  <span>${estimate.ordinaryIncomeTax.toLocaleString()}</span>
+                </div>
+                {estimate.capitalGainsTax > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Capital gains tax</span>
+                    <span>${estimate.capitalGainsTax.toLocaleString()}</span>
+                  </div>
+                )}
+                {estimate.selfEmploymentTax > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Self-employment tax</span>
+                    <span>${estimate.selfEmploymentTax.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Marginal rate / effective rate</span>
+                  <span>{Math.round(estimate.marginalRate * 100)}% / {estimate.effectiveTaxRate}%</span>
+                </div>
+              </div>
 
-          <div className="p-4 bg-muted rounded-lg">
-            <div className="flex items-center justify-between">
-              <span className="font-medium">
-                {refundOrOwed >= 0 ? 'Estimated Refund' : 'Estimated Amount Owed'}
-              </span>
-              <span className={`text-xl font-bold ${refundOrOwed >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                ${Math.abs(refundOrOwed).toLocaleString()}
-              </span>
-            </div>
-          </div>
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">Estimated Tax Liability</div>
+                <div className="text-2xl font-bold">${estimate.taxLiability.toLocaleString()}</div>
+              </div>
+
+              <div className="p-4 bg-muted rounded-lg">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {refundOrOwed >= 0 ? 'Estimated Refund' : 'Estimated Amount Owed'}
+                  </span>
+                  <span className={`text-xl font-bold ${refundOrOwed >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    ${Math.abs(refundOrOwed).toLocaleString()}
+                  </span>
+                </div>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
 
@@ -247,25 +226,27 @@ export function TaxSummary({ taxForm, onSubmitToAccountant, onMarkComplete }: Ta
       </Card>
 
       {/* Action Buttons */}
-      <div className="flex gap-4">
-        {isComplete && (
-          <>
-            <Button onClick={onMarkComplete} className="flex-1">
-              <CheckCircle className="h-4 w-4 mr-2" />
-              Mark as Complete
-            </Button>
-            <Button onClick={onSubmitToAccountant} variant="outline" className="flex-1">
-              Submit to Accountant
-            </Button>
-          </>
-        )}
+      {onSubmitToAccountant && onMarkComplete && (
+        <div className="flex gap-4">
+          {isComplete && (
+            <>
+              <Button onClick={onMarkComplete} className="flex-1">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Mark as Complete
+              </Button>
+              <Button onClick={onSubmitToAccountant} variant="outline" className="flex-1">
+                Submit to Accountant
+              </Button>
+            </>
+          )}
         
-        {!isComplete && (
-          <Button disabled className="flex-1">
-            Complete all sections to submit
-          </Button>
-        )}
-      </div>
+          {!isComplete && (
+            <Button disabled className="flex-1">
+              Complete all sections to submit
+            </Button>
+          )}
+        </div>
+      )}
 
       <Alert>
         <Calculator className="h-4 w-4" />
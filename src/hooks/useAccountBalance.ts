@@ -213,7 +213,12 @@ export const useAccountBalance = () => {
   // Enhanced transaction processor that updates balances
   const addTransactionWithBalanceUpdate = async (transactionData: Omit<Transaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
     try {
-      await addTransaction(transactionData);
+      // Transactions are recorded in their account's currency unless the caller says otherwise
+      const account = transactionData.accountType === 'bank'
+        ? bankAccounts.find(a => a.id === transactionData.accountId)
+        : creditCards.find(c => c.id === transactionData.accountId);
+      const currency = transactionData.currency ?? account?.currency;
+      await addTransaction(currency ? { ...transactionData, currency } : transactionData);
       
       // Update primary account balance
       await updateAccountBalance(transactionData.accountId, transactionData.accountType);
@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { AccountDeletionResult, AccountExport } from '../types/account';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const getFilename = (contentDisposition: string | undefined, fallback: string): string => {
+  const match = contentDisposition?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+};
+
+const isInProgress = (item: AccountExport) => item.status === 'pending' || item.status === 'processing';
+
+export const useAccountData = () => {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Exports are built in the background, so poll while one is still running
+  const { data: exports = [], isLoading } = useQuery({
+    queryKey: ['account-exports', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/account/exports');
+      return response.data as AccountExport[];
+    },
+    enabled: !!user?.id,
+    refetchInterval: (query) => (query.state.data?.some(isInProgress) ? 5000 : false),
+  });
+
+  const requestExportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post('/account/exports');
+      return response.data as AccountExport;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['account-exports', user?.id] });
+      toast({
+        title: "Export Requested",
+        description: "Your archive is being prepared. It will be ready to download here shortly.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to request data export"),
+      });
+    },
+  });
+
+  const downloadExport = async (item: AccountExport) => {
+    try {
+      const response = await apiClient.get(`/account/exports/${item.id}/download`, { responseType: 'blob' });
+      const filename = getFilename(response.headers['content-disposition'], 'flourish-funds-export.json.gz');
+      const url = URL.createObjectURL(response.data as Blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to download data export"),
+      });
+    }
+  };
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (confirm: string) => {
+      const response = await apiClient.delete('/account', { data: { confirm } });
+      return response.data as AccountDeletionResult;
+    },
+    onSuccess: async () => {
+      queryClient.clear();
+      await logout();
+      toast({
+        title: "Account Deleted",
+        description: "Your account and all of its data have been permanently deleted.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete account"),
+      });
+    },
+  });
+
+  return {
+    exports,
+    latestExport: exports[0],
+    isLoading,
+    requestExport: requestExportMutation.mutate,
+    downloadExport,
+    deleteAccount: deleteAccountMutation.mutateAsync,
+    isRequestingExport: requestExportMutation.isPending,
+    isDeleting: deleteAccountMutation.isPending,
+  };
+};
@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { AccountantAccessLevel, AccountantClientAccess, AccountantInviteResult } from '../types/tax';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+export interface AccountantInviteInput {
+  accountantEmail: string;
+  accessLevel: AccountantAccessLevel;
+  accessExpires: string;
+  taxYears: number[];
+}
+
+// The client's side of sharing returns: inviting accountants, revoking them and submitting forms for review
+export const useAccountantAccess = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['accountant-access', user?.id];
+
+  const { data: accesses = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiClient.get('/accountant-access');
+      return response.data as AccountantClientAccess[];
+    },
+    enabled: !!user?.id,
+  });
+
+  // The invite link is only returned here, so callers must show it right away if the email was not sent
+  const inviteMutation = useMutation({
+    mutationFn: async (invite: AccountantInviteInput) => {
+      const response = await apiClient.post('/accountant-access', invite);
+      return response.data as AccountantInviteResult;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to invite accountant"),
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (accessId: string) => {
+      const response = await apiClient.post(`/accountant-access/${accessId}/revoke`);
+      return response.data as AccountantClientAccess;
+    },
+    onSuccess: (access) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Access Revoked",
+        description: `${access.accountantEmail} can no longer see your returns.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to revoke access"),
+      });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async ({ taxFormId, accountantEmail }: { taxFormId: string; accountantEmail: string }) => {
+      const response = await apiClient.post(`/tax-forms/${taxFormId}/submit-to-accountant`, { accountantEmail });
+      return response.data;
+    },
+    onSuccess: (_data, { accountantEmail }) => {
+      // Submitting saves a new version of the form
+      queryClient.invalidateQueries({ queryKey: ['tax-form'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-form-history'] });
+      toast({
+        title: "Submitted to accountant",
+        description: `Your tax form has been sent to ${accountantEmail} for review.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to submit to accountant"),
+      });
+    },
+  });
+
+  return {
+    accesses,
+    isLoading,
+    inviteAccountant: inviteMutation.mutateAsync,
+    isInviting: inviteMutation.isPending,
+    revokeAccess: revokeMutation.mutate,
+    isRevoking: revokeMutation.isPending,
+    submitForm: submitMutation.mutateAsync,
+    isSubmitting: submitMutation.isPending,
+  };
+};
@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { accountantApiClient, AccountantSession, setAccountantSession } from '../lib/accountantApi';
+import { AccountantClient, TaxFormData } from '../types/tax';
+import { useToast } from './use-toast';
+
+// Validation failures (such as a weak password on an invite) come back as an errors array
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && (error.response?.data?.error || error.response?.data?.errors?.[0]?.msg)) || fallback;
+
+export type AccountantFormChanges = Partial<Pick<TaxFormData,
+  'filingStatus' | 'personalInfo' | 'incomeData' | 'deductionsData' | 'creditsData' | 'status'>> & {
+  changeDescription?: string;
+};
+
+const isVersionConflict = (error: unknown): boolean =>
+  isAxiosError(error) && error.response?.status === 409 && error.response.data?.currentVersion !== undefined;
+
+// Signing in and accepting invites both end in a stored accountant session
+export const useAccountantAuth = () => {
+  const startSession = (session: AccountantSession) => {
+    setAccountantSession(session);
+    return session;
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: { email: string; password: string }) => {
+      const response = await accountantApiClient.post('/auth/login', credentials);
+      return startSession(response.data as AccountantSession);
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (invite: { token: string; password: string }) => {
+      const response = await accountantApiClient.post('/auth/accept', invite);
+      return startSession(response.data as AccountantSession);
+    },
+  });
+
+  return {
+    login: loginMutation.mutateAsync,
+    acceptInvite: acceptMutation.mutateAsync,
+    isPending: loginMutation.isPending || acceptMutation.isPending,
+    error: loginMutation.error || acceptMutation.error
+      ? getErrorMessage(loginMutation.error || acceptMutation.error, "Sign in failed")
+      : null,
+  };
+};
+
+export const useAccountantClients = () => {
+  const { data: clients = [], isLoading, error } = useQuery({
+    queryKey: ['accountant-clients'],
+    queryFn: async () => {
+      const response = await accountantApiClient.get('/clients');
+      return response.data as AccountantClient[];
+    },
+  });
+
+  return { clients, isLoading, error: error ? getErrorMessage(error, "Failed to load clients") : null };
+};
+
+export const useAccountantClientForms = (clientId: string | undefined) => {
+  const { data: forms = [], isLoading, error } = useQuery({
+    queryKey: ['accountant-client-forms', clientId],
+    queryFn: async () => {
+      const response = await accountantApiClient.get(`/clients/${clientId}/forms`);
+      return response.data as TaxFormData[];
+    },
+    enabled: !!clientId,
+  });
+
+  return { forms, isLoading, error: error ? getErrorMessage(error, "Failed to load tax forms") : null };
+};
+
+export const useAccountantClientForm = (clientId: string | undefined, formId: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['accountant-client-form', clientId, formId];
+
+  const { data: form, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await accountantApiClient.get(`/clients/${clientId}/forms/${formId}`);
+      return response.data as TaxFormData;
+    },
+    enabled: !!clientId && !!formId,
+  });
+
+  const updateMutation = useMutation({
+    // The server rejects the edit if the client saved the form after it was loaded here
+    mutationFn: async (changes: AccountantFormChanges) => {
+      const response = await accountantApiClient.put(`/clients/${clientId}/forms/${formId}`, {
+        ...changes,
+        version: form?.version ?? 0
+      });
+      return response.data as TaxFormData;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(queryKey, updated);
+      queryClient.invalidateQueries({ queryKey: ['accountant-client-forms', clientId] });
+      toast({
+        title: "Changes saved",
+        description: "Your changes were added to the form's history.",
+      });
+    },
+    onError: (error) => {
+      if (isVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey });
+        toast({
+          variant: "destructive",
+          title: "Form changed elsewhere",
+          description: "Your changes were not saved because the form was updated since you opened it. The latest version has been loaded.",
+        });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save changes"),
+      });
+    },
+  });
+
+  return {
+    form,
+    isLoading,
+    error: error ? getErrorMessage(error, "Failed to load tax form") : null,
+    updateForm: updateMutation.mutateAsync,
+    isSaving: updateMutation.isPending,
+  };
+};
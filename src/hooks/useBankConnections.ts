@@ -15,6 +15,7 @@ export interface BankConnection {
     balance: {
       current: number | null;
       available: number | null;
+      isoCurrencyCode?: string;
     };
   }>;
   lastSync: string;
@@ -162,10 +163,12 @@ export const useBankConnections = () => {
   }, [user, toast]);
 
   // Get total balance across all connected accounts
-  const getTotalBalance = useCallback((): number => {
+  // Pass a converter to total accounts held in different currencies
+  const getTotalBalance = useCallback((convert?: (amount: number, currency?: string) => number): number => {
     return connections.reduce((total, connection) => {
       return total + connection.accounts.reduce((connTotal, account) => {
-        return connTotal + (account.balance.current || 0);
+        const current = account.balance.current || 0;
+        return connTotal + (convert ? convert(current, account.balance.isoCurrencyCode) : current);
       }, 0);
     }, 0);
   }, [connections]);
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { CalendarFeedInfo } from '../types/calendar';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+export const useCalendarFeed = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed, isLoading } = useQuery({
+    queryKey: ['calendar-feed', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/calendar/feed');
+      return response.data as CalendarFeedInfo;
+    },
+    enabled: !!user?.id,
+  });
+
+  // The server only reveals the feed URL when it is created, so callers must show it right away
+  const createFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post('/calendar/feed');
+      return response.data.url as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed', user?.id] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create calendar feed"),
+      });
+    },
+  });
+
+  const revokeFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.delete('/calendar/feed');
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed', user?.id] });
+      toast({
+        title: "Calendar Feed Revoked",
+        description: "Calendars subscribed to the old link will stop updating.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to revoke calendar feed"),
+      });
+    },
+  });
+
+  return {
+    feed,
+    isLoading,
+    createFeed: createFeedMutation.mutateAsync,
+    revokeFeed: revokeFeedMutation.mutate,
+    isCreating: createFeedMutation.isPending,
+    isRevoking: revokeFeedMutation.isPending,
+  };
+};
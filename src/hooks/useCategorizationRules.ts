@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { useToast } from './use-toast';
+import {
+  CategorizationRuleInput,
+  CategorizationRuleList,
+  RuleHistoryPreview,
+  StoredCategorizationRule
+} from '../types/categorizationRules';
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (!isAxiosError(error)) return fallback;
+  const data = error.response?.data;
+  return data?.error || data?.errors?.[0]?.msg || fallback;
+};
+
+// The user's auto-categorization rules, and re-running them on existing transactions
+export const useCategorizationRules = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['categorization-rules', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/categorization-rules');
+      return response.data as CategorizationRuleList;
+    },
+    enabled: !!user?.id,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...rule }: CategorizationRuleInput & { id?: string }) => {
+      const response = id
+        ? await apiClient.put(`/categorization-rules/${id}`, rule)
+        : await apiClient.post('/categorization-rules', rule);
+      return response.data as StoredCategorizationRule;
+    },
+    onSuccess: (rule) => {
+      queryClient.invalidateQueries({ queryKey: ['categorization-rules'] });
+      toast({
+        title: "Rule saved",
+        description: `"${rule.name}" will apply to new transactions.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the rule"),
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/categorization-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categorization-rules'] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the rule"),
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (ruleIds?: string[]) => {
+      const response = await apiClient.post('/categorization-rules/history/preview', ruleIds ? { ruleIds } : {});
+      return response.data as RuleHistoryPreview;
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to preview the changes"),
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async ({ ruleIds, transactionIds }: { ruleIds?: string[]; transactionIds: string[] }) => {
+      const response = await apiClient.post('/categorization-rules/history/apply', {
+        ...(ruleIds && { ruleIds }),
+        transactionIds
+      });
+      return response.data as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast({
+        title: "Rules applied",
+        description: `Updated ${updated} transaction${updated === 1 ? '' : 's'}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to apply the rules"),
+      });
+    },
+  });
+
+  return {
+    rules: data?.rules ?? [],
+    builtInRules: data?.builtInRules ?? [],
+    isLoading,
+    saveRule: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteRule: deleteMutation.mutateAsync,
+    previewHistory: previewMutation.mutateAsync,
+    isPreviewing: previewMutation.isPending,
+    applyHistory: applyMutation.mutateAsync,
+    isApplying: applyMutation.isPending,
+  };
+};
@@ -0,0 +1,109 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { useToast } from './use-toast';
+import { CurrencySettings, FxRateTable } from '../types/currency';
+import {
+  createConverter,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  FxConversionError,
+  normalizeCurrencyCode,
+  SUPPORTED_CURRENCIES
+} from '@shared/currency';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * The user's base currency and conversion into it. Rates are loaded for the
+ * given date range (today when omitted); amounts that cannot be converted are
+ * returned unchanged, and `unconvertible` lets callers flag them.
+ */
+export const useCurrency = (startDate: string = today(), endDate: string = startDate) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading: isLoadingSettings } = useQuery({
+    queryKey: ['currency-settings', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/currency/settings');
+      return response.data as CurrencySettings;
+    },
+    enabled: !!user?.id,
+  });
+
+  const baseCurrency = settings?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const { data: rates, isLoading: isLoadingRates } = useQuery({
+    queryKey: ['fx-rates', user?.id, baseCurrency, startDate, endDate],
+    queryFn: async () => {
+      const response = await apiClient.get('/currency/rates', { params: { startDate, endDate, base: baseCurrency } });
+      return response.data as FxRateTable;
+    },
+    enabled: !!user?.id && !!settings,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const converter = useMemo(() => (rates ? createConverter(rates, baseCurrency) : null), [rates, baseCurrency]);
+
+  const tryConvert = useCallback((amount: number, currency?: string | null, date: string = endDate): number | null => {
+    if (normalizeCurrencyCode(currency) === baseCurrency) return amount;
+    if (!converter) return null;
+    try {
+      return converter(amount, currency, date);
+    } catch (error) {
+      if (error instanceof FxConversionError) return null;
+      throw error;
+    }
+  }, [baseCurrency, converter, endDate]);
+
+  const convert = useCallback((amount: number, currency?: string | null, date?: string): number =>
+    tryConvert(amount, currency, date) ?? amount, [tryConvert]);
+
+  // Currencies among `currencies` that have no rate into the base currency yet
+  const unconvertible = useCallback((currencies: Array<string | undefined | null>): string[] =>
+    Array.from(new Set(currencies.map(normalizeCurrencyCode)))
+      .filter(currency => tryConvert(1, currency) === null), [tryConvert]);
+
+  const format = useCallback((amount: number, currency: string = baseCurrency) =>
+    formatMoney(amount, currency), [baseCurrency]);
+
+  const updateBaseCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiClient.put('/currency/settings', { baseCurrency: currency });
+      return response.data as CurrencySettings;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['currency-settings', user?.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['net-worth-history', user?.id] });
+      toast({
+        title: "Currency Updated",
+        description: `Totals are now shown in ${updated.baseCurrency}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update currency"),
+      });
+    },
+  });
+
+  return {
+    baseCurrency,
+    supportedCurrencies: settings?.supportedCurrencies ?? SUPPORTED_CURRENCIES,
+    convert,
+    unconvertible,
+    format,
+    isLoading: isLoadingSettings || isLoadingRates,
+    updateBaseCurrency: updateBaseCurrencyMutation.mutate,
+    isUpdating: updateBaseCurrencyMutation.isPending,
+  };
+};
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { useToast } from './use-toast';
+import { Transaction } from '../types';
+import { DuplicatePair } from '../types/transactionDuplicates';
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (!isAxiosError(error)) return fallback;
+  const data = error.response?.data;
+  return data?.error || data?.errors?.[0]?.msg || fallback;
+};
+
+interface PairIds {
+  manualTransactionId: string;
+  plaidTransactionId: string;
+}
+
+// Manual entries that a Plaid sync brought in again, and merging or dismissing each pair
+export const useDuplicateTransactions = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Under the 'transactions' key so new entries and syncs refresh the queue
+  const { data, isLoading } = useQuery({
+    queryKey: ['transactions', user?.id, 'duplicates'],
+    queryFn: async () => {
+      const response = await apiClient.get('/transactions/duplicates');
+      return response.data as DuplicatePair[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (pair: PairIds) => {
+      const response = await apiClient.post('/transactions/duplicates/merge', pair);
+      return response.data as Transaction;
+    },
+    onSuccess: (transaction) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast({
+        title: "Transactions merged",
+        description: `"${transaction.description}" is now linked to your bank's transaction.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to merge the transactions"),
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (pair: PairIds) => {
+      await apiClient.post('/transactions/duplicates/dismiss', pair);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id, 'duplicates'] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to dismiss the pair"),
+      });
+    },
+  });
+
+  return {
+    duplicates: data ?? [],
+    isLoading,
+    mergeDuplicate: mergeMutation.mutateAsync,
+    isMerging: mergeMutation.isPending,
+    dismissDuplicate: dismissMutation.mutateAsync,
+    isDismissing: dismissMutation.isPending,
+  };
+};
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { Form8949Report } from '../types';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+// The year's sales from the stock lot ledger, fetched when the import dialog opens
+export const useForm8949 = (taxYear: number, enabled: boolean) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: report = null, isLoading, error } = useQuery({
+    queryKey: ['form-8949', user?.id, taxYear],
+    queryFn: async () => {
+      const response = await apiClient.get(`/stock-transactions/form-8949/${taxYear}`);
+      return response.data as Form8949Report;
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const downloadCsv = async () => {
+    try {
+      const response = await apiClient.get(`/stock-transactions/form-8949/${taxYear}`, {
+        params: { format: 'csv' },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data as Blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `form-8949-${taxYear}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(downloadError, "Failed to download Form 8949"),
+      });
+    }
+  };
+
+  return {
+    report,
+    isLoading,
+    error: error ? getErrorMessage(error, "Failed to load your stock sales") : null,
+    downloadCsv,
+  };
+};
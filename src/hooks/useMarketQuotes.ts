@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { stockApi } from '../services/stockApi';
+import { MarketQuote } from '../types';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+// The backend refreshes its shared quotes every 15 minutes, so polling faster gains nothing
+const QUOTE_REFRESH_MS = 15 * 60 * 1000;
+
+// Quotes for all of the symbols in one request, keyed by symbol
+export const useMarketQuotes = (symbols: string[]) => {
+  const { user } = useAuth();
+  const wanted = useMemo(() => Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort(), [symbols]);
+
+  const { data = [], isLoading, error } = useQuery({
+    queryKey: ['market-quotes', wanted],
+    queryFn: () => stockApi.getStockQuotes(wanted),
+    enabled: !!user?.id && wanted.length > 0,
+    staleTime: QUOTE_REFRESH_MS,
+    refetchInterval: QUOTE_REFRESH_MS,
+  });
+
+  const quotes = useMemo(() => {
+    const bySymbol: Record<string, MarketQuote> = {};
+    data.forEach(quote => { bySymbol[quote.symbol] = quote; });
+    return bySymbol;
+  }, [data]);
+
+  return {
+    quotes,
+    isLoading,
+    error: error ? getErrorMessage(error, "Failed to load stock prices") : null,
+  };
+};
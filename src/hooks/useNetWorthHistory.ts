@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { NetWorthGranularity, NetWorthHistory, NetWorthRange } from '../types/netWorth';
+
+export const useNetWorthHistory = (range: NetWorthRange = '6m', granularity: NetWorthGranularity = 'monthly') => {
+  const { user } = useAuth();
+
+  const { data: history, isLoading, error } = useQuery({
+    queryKey: ['net-worth-history', user?.id, range, granularity],
+    queryFn: async () => {
+      const response = await apiClient.get('/net-worth/history', { params: { range, granularity } });
+      return response.data as NetWorthHistory;
+    },
+    enabled: !!user?.id,
+  });
+
+  return {
+    history,
+    points: history?.points ?? [],
+    monthOverMonth: history?.monthOverMonth ?? null,
+    isLoading,
+    error
+  };
+};
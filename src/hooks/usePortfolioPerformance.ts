@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { useToast } from './use-toast';
+import { PerformanceRange, PortfolioPerformanceReport, TargetWeights } from '../types/portfolioPerformance';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+// Returns for the range against a benchmark symbol, and the target weights the allocation drift uses
+export const usePortfolioPerformance = (range: PerformanceRange = '1y', benchmark: string = 'SPY') => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: performance, isLoading, error } = useQuery({
+    queryKey: ['portfolio-performance', user?.id, range, benchmark],
+    queryFn: async () => {
+      const response = await apiClient.get('/stocks/performance', { params: { range, benchmark } });
+      return response.data as PortfolioPerformanceReport;
+    },
+    enabled: !!user?.id && !!benchmark,
+  });
+
+  const { data: targets = {} } = useQuery({
+    queryKey: ['portfolio-targets', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/stocks/performance/targets');
+      return (response.data as { targets: TargetWeights }).targets;
+    },
+    enabled: !!user?.id,
+  });
+
+  const updateTargetsMutation = useMutation({
+    mutationFn: async (weights: TargetWeights) => {
+      const response = await apiClient.put('/stocks/performance/targets', { targets: weights });
+      return (response.data as { targets: TargetWeights }).targets;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio-targets'] });
+      queryClient.invalidateQueries({ queryKey: ['portfolio-performance'] });
+      toast({
+        title: "Targets saved",
+        description: "Allocation drift now uses your new target weights.",
+      });
+    },
+    onError: (updateError) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(updateError, "Failed to save target weights"),
+      });
+    },
+  });
+
+  return {
+    performance: performance ?? null,
+    targets,
+    isLoading,
+    error: error ? getErrorMessage(error, "Failed to load portfolio performance") : null,
+    updateTargets: updateTargetsMutation.mutateAsync,
+    isUpdatingTargets: updateTargetsMutation.isPending,
+  };
+};
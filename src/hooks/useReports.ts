@@ -0,0 +1,119 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { GeneratedReport, GeneratedReportSummary, ReportExportFormat, ReportPeriodPreset, ReportType } from '../types/reports';
+import { useToast } from './use-toast';
+
+interface GenerateReportInput {
+  type: ReportType;
+  period: ReportPeriodPreset;
+  startDate?: string;
+  endDate?: string;
+}
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const getFilename = (contentDisposition: string | undefined, fallback: string): string => {
+  const match = contentDisposition?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+};
+
+export const useReports = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Fetch metadata for every stored report
+  const {
+    data: reports = [],
+    isLoading,
+    error
+  } = useQuery({
+    queryKey: ['reports', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/reports');
+      return response.data as GeneratedReportSummary[];
+    },
+    enabled: !!user?.id,
+  });
+
+  // Generate a new report on the server
+  const generateReportMutation = useMutation({
+    mutationFn: async (input: GenerateReportInput) => {
+      const response = await apiClient.post('/reports', input);
+      return response.data as GeneratedReport;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['reports', user?.id] });
+      toast({
+        title: "Report Generated",
+        description: `${report.name} for ${report.period.label} is ready to download.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to generate report"),
+      });
+    },
+  });
+
+  // Delete a stored report
+  const deleteReportMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.delete(`/reports/${id}`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reports', user?.id] });
+      toast({
+        title: "Success",
+        description: "Report deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete report"),
+      });
+    },
+  });
+
+  // Download a stored report through the authenticated API, rendered server-side
+  const downloadReport = async (report: GeneratedReportSummary, format: ReportExportFormat = 'pdf') => {
+    try {
+      const response = await apiClient.get(`/reports/${report.id}/download`, {
+        params: { format },
+        responseType: 'blob'
+      });
+      const filename = getFilename(response.headers['content-disposition'], `${report.type}-report.${format}`);
+      const url = URL.createObjectURL(response.data as Blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to download report"),
+      });
+    }
+  };
+
+  return {
+    reports,
+    isLoading,
+    error,
+    generateReport: generateReportMutation.mutateAsync,
+    deleteReport: deleteReportMutation.mutate,
+    downloadReport,
+    isGenerating: generateReportMutation.isPending,
+    isDeleting: deleteReportMutation.isPending,
+  };
+};
@@ -2,21 +2,23 @@ import { useState, useEffect } from 'react';
 import { CreditCard, Transaction, CreditCardBonus } from '@/types';
 import { useFirestore } from './useFirestore';
 import { useToast } from './use-toast';
+import { splitLines } from '@shared/transactionSplits';
 
 export const useRewardCalculation = () => {
   const { updateDocument } = useFirestore<CreditCard>('creditCards');
   const { toast } = useToast();
 
-  const calculateRewardForTransaction = (
-    transaction: Transaction,
+  const calculateRewardForLine = (
+    amount: number,
+    category: string,
     card: CreditCard
   ): { amount: number; type: 'cashback' | 'points' | 'miles' } => {
-    const categoryReward = card.categoryRewards?.[transaction.category];
+    const categoryReward = card.categoryRewards?.[category];
     
     if (!categoryReward) {
       // Use default rate if no specific category reward
       return {
-        amount: transaction.amount * (card.rewardRate || 0.01),
+        amount: amount * (card.rewardRate || 0.01),
         type: card.rewardType
       };
     }
@@ -25,11 +27,11 @@ export const useRewardCalculation = () => {
     
     switch (categoryReward.type) {
       case 'cashback':
-        rewardAmount = transaction.amount * (categoryReward.rate / 100);
+        rewardAmount = amount * (categoryReward.rate / 100);
         break;
       case 'points':
       case 'miles':
-        rewardAmount = transaction.amount * categoryReward.rate;
+        rewardAmount = amount * categoryReward.rate;
         break;
     }
 
@@ -39,6 +41,20 @@ export const useRewardCalculation = () => {
     };
   };
 
+  // Each line of a split transaction earns its own category's rate
+  const calculateRewardForTransaction = (
+    transaction: Transaction,
+    card: CreditCard
+  ): { amount: number; type: 'cashback' | 'points' | 'miles' } => {
+    const lineRewards = splitLines(transaction).map(line => calculateRewardForLine(line.amount, line.category, card));
+    const types = new Set(lineRewards.map(reward => reward.type));
+
+    return {
+      amount: lineRewards.reduce((sum, reward) => sum + reward.amount, 0),
+      type: types.size === 1 ? lineRewards[0].type : card.rewardType
+    };
+  };
+
   const updateBonusProgress = async (
     cardId: string,
     transaction: Transaction,
@@ -49,16 +65,16 @@ export const useRewardCalculation = () => {
         return bonus;
       }
 
-      let shouldUpdateProgress = false;
-      let spendingToAdd = 0;
+      // Only the lines in the bonus's category count toward it
+      const qualifyingLines = splitLines(transaction).filter(line => !bonus.category || bonus.category === line.category);
+      const spendingToAdd = qualifyingLines.reduce((sum, line) => sum + line.amount, 0);
 
-      // Check if transaction qualifies for this bonus
-      if (!bonus.category || bonus.category === transaction.category) {
-        shouldUpdateProgress = true;
-        spendingToAdd = transaction.amount;
-      }
+      if (qualifyingLines.length > 0) {
+        const spendingByCategory = { ...bonus.spendingByCategory };
+        qualifyingLines.forEach(line => {
+          spendingByCategory[line.category] = (spendingByCategory[line.category] || 0) + line.amount;
+        });
 
-      if (shouldUpdateProgress) {
         const newCurrentSpending = bonus.currentSpending + spendingToAdd;
         const newStatus = newCurrentSpending >= bonus.spendingRequired 
           ? 'completed' 
@@ -70,10 +86,7 @@ export const useRewardCalculation = () => {
           ...bonus,
           currentSpending: newCurrentSpending,
           status: newStatus,
-          spendingByCategory: {
-            ...bonus.spendingByCategory,
-            [transaction.category]: (bonus.spendingByCategory?.[transaction.category] || 0) + spendingToAdd
-          },
+          spendingByCategory,
           ...(newStatus === 'completed' && { dateCompleted: new Date().toISOString().split('T')[0] })
         };
       }
@@ -0,0 +1,156 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { useToast } from './use-toast';
+import {
+  CsvColumnMapping,
+  ImportBatch,
+  ImportProfile,
+  StatementImportRequest,
+  StatementPreview
+} from '../types/statementImport';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+// Statement previews and imports, the saved CSV column mappings, and recent imports with undo
+export const useStatementImport = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ['import-profiles', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/statement-imports/profiles');
+      return (response.data as { profiles: ImportProfile[] }).profiles;
+    },
+    enabled: !!user?.id,
+  });
+
+  const { data: batches = [], isLoading: batchesLoading } = useQuery({
+    queryKey: ['statement-imports', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/statement-imports');
+      return (response.data as { batches: ImportBatch[] }).batches;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Imports and undos change the transaction list and everything computed from it
+  const refreshTransactions = () => {
+    queryClient.invalidateQueries({ queryKey: ['statement-imports'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: StatementImportRequest) => {
+      const response = await apiClient.post('/statement-imports/preview', request);
+      return response.data as StatementPreview;
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Couldn't read the statement",
+        description: getErrorMessage(error, "Failed to preview the statement"),
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ lines, ...request }: StatementImportRequest & { lines: number[] }) => {
+      const response = await apiClient.post('/statement-imports', { ...request, lines });
+      return response.data as ImportBatch;
+    },
+    onSuccess: (batch) => {
+      refreshTransactions();
+      toast({
+        title: "Statement imported",
+        description: `Imported ${batch.importedCount} transaction${batch.importedCount === 1 ? '' : 's'}${batch.skippedCount > 0 ? `, skipped ${batch.skippedCount}` : ''}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to import the statement"),
+      });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await apiClient.post(`/statement-imports/${batchId}/undo`);
+      return response.data as ImportBatch;
+    },
+    onSuccess: (batch) => {
+      refreshTransactions();
+      toast({
+        title: "Import undone",
+        description: `Removed the transactions imported from ${batch.fileName}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to undo the import"),
+      });
+    },
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async ({ id, name, mapping }: { id?: string; name: string; mapping: CsvColumnMapping }) => {
+      const response = id
+        ? await apiClient.put(`/statement-imports/profiles/${id}`, { name, mapping })
+        : await apiClient.post('/statement-imports/profiles', { name, mapping });
+      return response.data as ImportProfile;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+      toast({
+        title: "Mapping saved",
+        description: `Files from ${profile.name} will use this column mapping.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the column mapping"),
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/statement-imports/profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the column mapping"),
+      });
+    },
+  });
+
+  return {
+    profiles,
+    batches,
+    batchesLoading,
+    previewStatement: previewMutation.mutateAsync,
+    isPreviewing: previewMutation.isPending,
+    importStatement: importMutation.mutateAsync,
+    isImporting: importMutation.isPending,
+    undoImport: undoMutation.mutateAsync,
+    isUndoing: undoMutation.isPending,
+    saveProfile: saveProfileMutation.mutateAsync,
+    isSavingProfile: saveProfileMutation.isPending,
+    deleteProfile: deleteProfileMutation.mutateAsync,
+  };
+};
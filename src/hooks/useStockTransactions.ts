@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { buildLotLedger, LotLedger, summarizeHoldings, TaxLotError } from '@shared/taxLots';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { StockTransaction } from '../types';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const EMPTY_LEDGER: LotLedger = { lots: [], gains: [] };
+
+/**
+ * The user's stock transactions, and the tax lots and holdings replayed from
+ * them with the same ledger the server uses. Recording resolves only once the
+ * server has accepted the transaction, so callers can stop before touching
+ * balances.
+ */
+export const useStockTransactions = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: ['stock-transactions', user?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/stock-transactions');
+      return response.data as StockTransaction[];
+    },
+    enabled: !!user?.id,
+  });
+
+  // A ledger that no longer balances (e.g. rows written before lots existed) shows no lots rather than failing the page
+  const ledger = useMemo(() => {
+    try {
+      return buildLotLedger(transactions);
+    } catch (error) {
+      if (error instanceof TaxLotError) {
+        return EMPTY_LEDGER;
+      }
+      throw error;
+    }
+  }, [transactions]);
+
+  const recordMutation = useMutation({
+    mutationFn: async (transaction: Omit<StockTransaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
+      const response = await apiClient.post('/stock-transactions', transaction);
+      return response.data as StockTransaction;
+    },
+    onSuccess: (recorded) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['form-8949'] });
+      // A cash dividend posts its income to the account
+      if (recorded.type === 'dividend') {
+        queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['tax-prefill'] });
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Transaction Failed",
+        description: getErrorMessage(error, "Failed to process stock transaction. Please try again."),
+      });
+    },
+  });
+
+  // One holding per symbol and account, named after the symbol's latest transaction
+  const holdings = useMemo(() => {
+    const names = new Map<string, string>();
+    [...transactions]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(t => {
+        names.set(t.stockSymbol.toUpperCase(), t.stockName);
+        if (t.type === 'symbol_change' && t.newSymbol) names.set(t.newSymbol.toUpperCase(), t.stockName);
+      });
+    return summarizeHoldings(ledger.lots).map(holding => ({
+      ...holding,
+      stockName: names.get(holding.stockSymbol) ?? holding.stockSymbol,
+      averageCostBasis: holding.shares > 0 ? holding.costBasis / holding.shares : 0,
+    }));
+  }, [transactions, ledger]);
+
+  const openLots = (stockSymbol: string, accountId: string) =>
+    ledger.lots.filter(lot => lot.stockSymbol === stockSymbol.toUpperCase() && lot.accountId === accountId);
+
+  return {
+    transactions,
+    lots: ledger.lots,
+    holdings,
+    gains: ledger.gains,
+    openLots,
+    isLoading,
+    recordTransaction: recordMutation.mutateAsync,
+    isRecording: recordMutation.isPending,
+  };
+};
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { TaxFormData } from '../types/tax';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const isVersionConflict = (error: unknown): boolean =>
+  isAxiosError(error) && error.response?.status === 409 && error.response.data?.currentVersion !== undefined;
+
+/**
+ * The user's return for one tax year. Saving creates the form the first time
+ * and afterwards updates the version that was loaded; if someone else (such as
+ * an accountant) saved in between, the save is rejected and the latest version
+ * is loaded instead.
+ */
+export const useTaxForm = (taxYear: number) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['tax-form', user?.id, taxYear];
+
+  const { data: taxForm = null, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiClient.get('/tax-forms', { params: { taxYear } });
+      const forms = response.data as TaxFormData[];
+      return forms[0] ?? null;
+    },
+    enabled: !!user?.id,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: Partial<TaxFormData>) => {
+      const { filingStatus, personalInfo, incomeData, deductionsData, creditsData, status } = form;
+      const fields = { filingStatus, personalInfo, incomeData, deductionsData, creditsData, status };
+      const response = form.id
+        ? await apiClient.put(`/tax-forms/${form.id}`, { ...fields, version: form.version ?? 0 })
+        : await apiClient.post('/tax-forms', { ...fields, taxYear });
+      return response.data as TaxFormData;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKey, saved);
+      queryClient.invalidateQueries({ queryKey: ['tax-form-history'] });
+      toast({
+        title: "Tax form saved",
+        description: "Your tax information has been saved successfully.",
+      });
+    },
+    onError: (error) => {
+      if (isVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey });
+        toast({
+          variant: "destructive",
+          title: "Form changed elsewhere",
+          description: "Your changes were not saved because the form was updated since you opened it. The latest version has been loaded.",
+        });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save tax form. Please try again."),
+      });
+    },
+  });
+
+  return {
+    taxForm,
+    isLoading,
+    saveTaxForm: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+};
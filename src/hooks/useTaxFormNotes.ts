@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosInstance, isAxiosError } from 'axios';
+import { buildNoteThreads } from '../lib/accountantNotes';
+import { AccountantNote, TaxFormHistory } from '../types/tax';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+export interface NewNoteInput {
+  noteText: string;
+  category?: AccountantNote['category'];
+  parentNoteId?: string;
+}
+
+/**
+ * Notes and edit history for one tax form. Clients and accountants reach the
+ * same data through different APIs, so the caller passes the client and the
+ * form's base path; a null path leaves the hook idle.
+ */
+export const useTaxFormNotes = (api: AxiosInstance, basePath: string | null) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const notesKey = ['tax-form-notes', basePath];
+  const historyKey = ['tax-form-history', basePath];
+
+  const { data: notes = [], isLoading } = useQuery({
+    queryKey: notesKey,
+    queryFn: async () => {
+      const response = await api.get(`${basePath}/notes`);
+      return response.data as AccountantNote[];
+    },
+    enabled: !!basePath,
+  });
+
+  const { data: history = [], isLoading: isHistoryLoading } = useQuery({
+    queryKey: historyKey,
+    queryFn: async () => {
+      const response = await api.get(`${basePath}/history`);
+      return response.data as TaxFormHistory[];
+    },
+    enabled: !!basePath,
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (note: NewNoteInput) => {
+      const response = await api.post(`${basePath}/notes`, note);
+      return response.data as AccountantNote;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to add note"),
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ noteId, resolved }: { noteId: string; resolved: boolean }) => {
+      const response = await api.put(`${basePath}/notes/${noteId}/resolved`, { resolved });
+      return response.data as AccountantNote;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update note"),
+      });
+    },
+  });
+
+  return {
+    threads: buildNoteThreads(notes),
+    history,
+    isLoading,
+    isHistoryLoading,
+    addNote: addNoteMutation.mutateAsync,
+    isAddingNote: addNoteMutation.isPending,
+    setResolved: resolveMutation.mutate,
+    refreshHistory: () => queryClient.invalidateQueries({ queryKey: historyKey }),
+  };
+};
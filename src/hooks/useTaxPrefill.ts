@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { TaxPrefillProposal } from '../types/tax';
+import { useToast } from './use-toast';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response?.data?.error) || fallback;
+
+// Proposals are only fetched once the user asks for them, since building them reads a whole year of data
+export const useTaxPrefill = (taxYear: number, enabled: boolean) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['tax-prefill', user?.id, taxYear];
+
+  const { data: proposals = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiClient.get(`/tax-prefill/${taxYear}`);
+      return response.data as TaxPrefillProposal[];
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const updateProposal = (updated: TaxPrefillProposal) => {
+    queryClient.setQueryData<TaxPrefillProposal[]>(queryKey, current =>
+      current?.map(proposal => (proposal.id === updated.id ? updated : proposal)));
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (proposal: TaxPrefillProposal) => {
+      const response = await apiClient.post(`/tax-prefill/${taxYear}/${proposal.id}/accept`);
+      return response.data as TaxPrefillProposal;
+    },
+    onSuccess: updateProposal,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to accept proposal"),
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (proposal: TaxPrefillProposal) => {
+      const response = await apiClient.post(`/tax-prefill/${taxYear}/${proposal.id}/dismiss`);
+      return response.data as TaxPrefillProposal;
+    },
+    onSuccess: updateProposal,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to dismiss proposal"),
+      });
+    },
+  });
+
+  return {
+    proposals,
+    pendingProposals: proposals.filter(proposal => proposal.status === 'pending'),
+    isLoading,
+    error: error ? getErrorMessage(error, "Failed to load proposals") : null,
+    acceptProposal: acceptMutation.mutateAsync,
+    dismissProposal: dismissMutation.mutate,
+    isDeciding: acceptMutation.isPending || dismissMutation.isPending,
+  };
+};
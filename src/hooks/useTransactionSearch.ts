@@ -0,0 +1,61 @@
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useAuth } from './useAuth';
+import { apiClient } from '../lib/apiClient';
+import { Transaction } from '../types';
+
+const PAGE_SIZE = 50;
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (!isAxiosError(error)) return fallback;
+  const data = error.response?.data;
+  return data?.error || data?.errors?.[0]?.msg || fallback;
+};
+
+export interface TransactionSearchParams {
+  q?: string; // In the search syntax, e.g. `merchant:amazon amount>50 tag:work`
+  category?: string;
+  accountId?: string;
+}
+
+interface TransactionSearchPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+}
+
+// Manual and Plaid transactions matching a search, newest first, loaded a page at a time
+export const useTransactionSearch = (params: TransactionSearchParams) => {
+  const { user } = useAuth();
+
+  // Under the 'transactions' key so adding, editing or deleting a transaction refreshes the results
+  const { data, error, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['transactions', user?.id, 'search', params],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiClient.get('/transactions/search', {
+        params: {
+          ...(params.q && { q: params.q }),
+          ...(params.category && { category: params.category }),
+          ...(params.accountId && { accountId: params.accountId }),
+          ...(pageParam && { cursor: pageParam }),
+          limit: PAGE_SIZE
+        }
+      });
+      return response.data as TransactionSearchPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    // A malformed query won't parse on a second try either
+    retry: (failureCount, error) => !(isAxiosError(error) && error.response?.status === 400) && failureCount < 3,
+    enabled: !!user?.id,
+  });
+
+  return {
+    transactions: data?.pages.flatMap(page => page.transactions) ?? [],
+    searchError: error ? getErrorMessage(error, 'Failed to search transactions') : null,
+    isLoading,
+    hasNextPage,
+    loadMore: fetchNextPage,
+    isLoadingMore: isFetchingNextPage,
+  };
+};
@@ -56,6 +56,7 @@ export interface SyncLog {
   completedAt?: string;
   transactionsAdded: number;
   transactionsUpdated: number;
+  transactionsRemoved?: number; // Absent on logs written before cursor-based sync
   errors: string[];
   metadata?: Record<string, any>;
 }
@@ -4,7 +4,7 @@ import { useApiAuth } from './useApiAuth';
 import { useTransactions } from './useTransactions';
 
 export interface UnifiedTransaction extends Transaction {
-  source: 'manual' | 'plaid';
+  source: NonNullable<Transaction['source']>;
   rewardAmount?: number;
   rewardType?: 'cashback' | 'points' | 'miles';
   bonusProgress?: Array<{
@@ -91,7 +91,7 @@ export const useUnifiedTransactions = () => {
         allTransactions = allTransactions.concat(
           results[0].map((tx: Transaction) => ({
             ...tx,
-            source: 'manual' as const
+            source: tx.source === 'import' ? 'import' as const : 'manual' as const
           }))
         );
       }
@@ -100,7 +100,8 @@ export const useUnifiedTransactions = () => {
         const plaidIndex = includeManual ? 1 : 0;
         if (results[plaidIndex]) {
           allTransactions = allTransactions.concat(
-            results[plaidIndex].map((tx: any) => ({
+            // A merged Plaid transaction is already listed as the manual entry it was merged into
+            results[plaidIndex].filter(tx => !tx.mergedIntoTransactionId).map((tx: any) => ({
               ...tx,
               source: 'plaid' as const,
               // Map Plaid transaction structure to our Transaction interface
@@ -134,7 +135,7 @@ export const useUnifiedTransactions = () => {
     }
   };
 
-  const getTransactionsBySource = (source: 'manual' | 'plaid') => {
+  const getTransactionsBySource = (source: UnifiedTransaction['source']) => {
     return unifiedTransactions.filter(tx => tx.source === source);
   };
 
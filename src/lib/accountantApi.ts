@@ -0,0 +1,59 @@
+import axios from 'axios';
+import { getDeviceFingerprint } from '@/utils/encryption';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+const TOKEN_KEY = 'accountantToken';
+const USER_KEY = 'accountantUser';
+
+export interface AccountantSession {
+  user: { id: string; email: string };
+  token: string;
+}
+
+// Accountant sessions live in sessionStorage, apart from the client's own login, and end with the tab
+export const getAccountantSession = (): AccountantSession | null => {
+  const token = sessionStorage.getItem(TOKEN_KEY);
+  const user = sessionStorage.getItem(USER_KEY);
+  return token && user ? { token, user: JSON.parse(user) } : null;
+};
+
+export const setAccountantSession = (session: AccountantSession) => {
+  sessionStorage.setItem(TOKEN_KEY, session.token);
+  sessionStorage.setItem(USER_KEY, JSON.stringify(session.user));
+};
+
+export const clearAccountantSession = () => {
+  sessionStorage.removeItem(TOKEN_KEY);
+  sessionStorage.removeItem(USER_KEY);
+};
+
+export const accountantApiClient = axios.create({
+  baseURL: `${API_BASE_URL}/accountant`,
+  timeout: 30000,
+  headers: {
+    'Content-Type': 'application/json',
+    'X-Requested-With': 'XMLHttpRequest',
+    'X-Device-Fingerprint': getDeviceFingerprint(),
+  },
+});
+
+accountantApiClient.interceptors.request.use((config) => {
+  const token = sessionStorage.getItem(TOKEN_KEY);
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+accountantApiClient.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    // A failed sign-in is reported by the form; anything else means the session is over
+    if (error.response?.status === 401 && !error.config?.url?.startsWith('/auth/')) {
+      clearAccountantSession();
+      window.location.href = '/accountant/login';
+    }
+    return Promise.reject(error);
+  }
+);
@@ -0,0 +1,27 @@
+import { AccountantNote, AccountantNoteThread } from '@/types/tax';
+
+/**
+ * Group a form's notes into threads. Open threads come first, and within each
+ * group the most recently active thread leads; replies stay oldest first.
+ * Replies whose first note is missing are shown as threads of their own.
+ */
+export const buildNoteThreads = (notes: AccountantNote[]): AccountantNoteThread[] => {
+  const roots = new Map<string, AccountantNote>();
+  for (const note of notes) {
+    if (!note.parentNoteId) roots.set(note.id, note);
+  }
+
+  const threads = new Map<string, AccountantNoteThread>();
+  const byDate = [...notes].sort((a, b) => a.createdDate.localeCompare(b.createdDate));
+  for (const note of byDate) {
+    const root = note.parentNoteId ? roots.get(note.parentNoteId) : undefined;
+    const threadId = root?.id ?? note.id;
+    const thread = threads.get(threadId) ?? { note: root ?? note, replies: [], lastActivity: (root ?? note).createdDate };
+    if (thread.note !== note) thread.replies.push(note);
+    if (note.createdDate > thread.lastActivity) thread.lastActivity = note.createdDate;
+    threads.set(threadId, thread);
+  }
+
+  return [...threads.values()].sort((a, b) =>
+    Number(a.note.resolved) - Number(b.note.resolved) || b.lastActivity.localeCompare(a.lastActivity));
+};
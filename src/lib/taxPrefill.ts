@@ -0,0 +1,111 @@
+import type { Form8949Report } from '@shared/taxLots';
+import { IncomeData, ItemizedDeductions, SelfEmploymentIncome, TaxFormData, TaxPrefillProposal } from '@/types/tax';
+
+const EMPTY_INCOME: IncomeData = {
+  w2Income: [],
+  form1099Income: [],
+  selfEmploymentIncome: [],
+  retirementIncome: [],
+  unemploymentCompensation: 0,
+  socialSecurityBenefits: 0,
+  otherIncome: []
+};
+
+const EMPTY_ITEMIZED: ItemizedDeductions = {
+  medicalExpenses: 0,
+  stateAndLocalTaxes: 0,
+  mortgageInterest: 0,
+  charitableContributions: [],
+  miscellaneousDeductions: 0
+};
+
+const withExpense = (business: SelfEmploymentIncome, expense: SelfEmploymentIncome['businessExpenses'][number]): SelfEmploymentIncome => {
+  const businessExpenses = [...business.businessExpenses, expense];
+  return {
+    ...business,
+    businessExpenses,
+    netProfit: business.grossReceipts - businessExpenses.reduce((sum, e) => sum + e.amount, 0)
+  };
+};
+
+/**
+ * Add an accepted prefill proposal's entry to the form. Entries keep the
+ * proposal's id, so accepting the same proposal twice adds it only once.
+ */
+export const applyTaxPrefillProposal = (
+  form: Partial<TaxFormData>,
+  proposal: TaxPrefillProposal
+): Partial<TaxFormData> => {
+  const income = { ...EMPTY_INCOME, ...form.incomeData };
+
+  switch (proposal.kind) {
+    case 'w2Income':
+      if (income.w2Income.some(w2 => w2.id === proposal.entry.id)) return form;
+      return { ...form, incomeData: { ...income, w2Income: [...income.w2Income, proposal.entry] } };
+
+    case 'form1099Income': {
+      if (income.form1099Income.some(f => f.id === proposal.entry.id)) return form;
+      const withEntry = { ...income, form1099Income: [...income.form1099Income, proposal.entry] };
+      if (!proposal.qualifiedDividends) return { ...form, incomeData: withEntry };
+      // Qualified dividends are part of the 1099-DIV amount, and are also totalled for capital gains rates
+      const capitalGains = { shortTermGains: 0, longTermGains: 0, qualifiedDividends: 0, ...income.capitalGains };
+      return {
+        ...form,
+        incomeData: {
+          ...withEntry,
+          capitalGains: { ...capitalGains, qualifiedDividends: capitalGains.qualifiedDividends + proposal.qualifiedDividends }
+        }
+      };
+    }
+
+    case 'charitableContribution': {
+      const deductions = form.deductionsData;
+      if (!deductions) return form;
+      const itemized = { ...EMPTY_ITEMIZED, ...deductions.itemizedDeductions };
+      if (itemized.charitableContributions.some(c => c.id === proposal.entry.id)) return form;
+      return {
+        ...form,
+        deductionsData: {
+          ...deductions,
+          itemizedDeductions: { ...itemized, charitableContributions: [...itemized.charitableContributions, proposal.entry] }
+        }
+      };
+    }
+
+    case 'businessExpense': {
+      const businesses = income.selfEmploymentIncome;
+      if (businesses.some(b => b.businessExpenses.some(e => e.id === proposal.entry.id))) return form;
+      const existing = businesses.find(b => b.businessName === proposal.businessName);
+      const selfEmploymentIncome = existing
+        ? businesses.map(b => (b === existing ? withExpense(b, proposal.entry) : b))
+        : [...businesses, withExpense({
+            id: `business-${proposal.id}`,
+            businessName: proposal.businessName,
+            businessType: '',
+            grossReceipts: 0,
+            businessExpenses: [],
+            netProfit: 0
+          }, proposal.entry)];
+      return { ...form, incomeData: { ...income, selfEmploymentIncome } };
+    }
+  }
+};
+
+/**
+ * Replace the return's short- and long-term gains with the Form 8949 totals.
+ * The totals cover every sale of the year, so importing again overwrites
+ * rather than adds; qualified dividends are left as entered.
+ */
+export const applyForm8949 = (form: Partial<TaxFormData>, report: Form8949Report): Partial<TaxFormData> => {
+  const income = { ...EMPTY_INCOME, ...form.incomeData };
+  return {
+    ...form,
+    incomeData: {
+      ...income,
+      capitalGains: {
+        qualifiedDividends: income.capitalGains?.qualifiedDividends ?? 0,
+        ...report.capitalGains
+      }
+    }
+  };
+};
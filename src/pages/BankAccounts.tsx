@@ -20,6 +20,9 @@ import { Separator } from "@/components/ui/separator";
 import { EditAccountDialog } from "@/components/EditAccountDialog";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { logger } from "@/utils/logger";
+import { useCurrency } from "@/hooks/useCurrency";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { currencySymbol } from "@shared/currency";
 
 interface BankAccount {
   id: string;
@@ -28,6 +31,7 @@ interface BankAccount {
   type: string;
   initialBalance: number;
   currentBalance?: number;
+  currency?: string; // Missing means USD
   accountNumber: string;
   routingNumber?: string;
   isActive: boolean;
@@ -52,6 +56,7 @@ export default function BankAccounts() {
     syncAllConnections,
     getTotalBalance
   } = useBankConnections();
+  const { baseCurrency, convert, format } = useCurrency();
 
   const [showBalances, setShowBalances] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -65,6 +70,7 @@ export default function BankAccounts() {
     name: '',
     type: '',
     initialBalance: '',
+    currency: '',
     accountNumber: '',
     routingNumber: '',
     description: ''
@@ -196,6 +202,7 @@ export default function BankAccounts() {
         type: formData.type,
         initialBalance: parseFloat(formData.initialBalance),
         currentBalance: parseFloat(formData.initialBalance),
+        currency: formData.currency || baseCurrency,
         accountNumber: formData.accountNumber ? `****${formData.accountNumber.slice(-4)}` : '',
         routingNumber: formData.routingNumber || '',
         isActive: true,
@@ -216,6 +223,7 @@ export default function BankAccounts() {
         name: '',
         type: '',
         initialBalance: '',
+        currency: '',
         accountNumber: '',
         routingNumber: '',
         description: ''
@@ -231,13 +239,13 @@ export default function BankAccounts() {
     }
   };
 
-  // Calculate balances
+  // Calculate balances in the base currency
   const totalBalance = activeBankAccounts.reduce((sum, account) => {
     const acc = account as any;
-    return sum + (acc.currentBalance || acc.initialBalance || 0);
+    return sum + convert(acc.currentBalance || acc.initialBalance || 0, acc.currency);
   }, 0);
   
-  const connectedAccountsBalance = getTotalBalance();
+  const connectedAccountsBalance = getTotalBalance(convert);
 
   return (
     <ErrorBoundary>
@@ -335,6 +343,12 @@ export default function BankAccounts() {
                     placeholder="0.00"
                   />
                 </div>
+                <CurrencySelect
+                  id="currency"
+                  className="grid gap-2"
+                  value={formData.currency || baseCurrency}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                />
                 <div className="grid gap-2">
                   <Label htmlFor="accountNumber">Account Number (optional)</Label>
                   <Input
@@ -381,13 +395,13 @@ export default function BankAccounts() {
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="text-center p-4 bg-primary/5 rounded-lg">
               <div className="text-2xl font-bold text-primary">
-                {showBalances ? `$${(totalBalance + connectedAccountsBalance).toFixed(2)}` : '••••••'}
+                {showBalances ? format(totalBalance + connectedAccountsBalance) : '••••••'}
               </div>
               <div className="text-sm text-muted-foreground">Total Balance</div>
             </div>
             <div className="text-center p-4 bg-blue-50 rounded-lg">
               <div className="text-2xl font-bold text-blue-600">
-                {showBalances ? `$${connectedAccountsBalance.toFixed(2)}` : '••••••'}
+                {showBalances ? format(connectedAccountsBalance) : '••••••'}
               </div>
               <div className="text-sm text-muted-foreground">Connected Banks</div>
             </div>
@@ -463,7 +477,7 @@ export default function BankAccounts() {
                     <p className="text-sm text-muted-foreground">Current Balance</p>
                     <p className="text-2xl font-bold">
                       {showBalances ? 
-                        `$${(acc.currentBalance || acc.initialBalance || 0).toLocaleString()}` : 
+                        `${currencySymbol(acc.currency)}${(acc.currentBalance || acc.initialBalance || 0).toLocaleString()}` : 
                         '••••••'
                       }
                     </p>
@@ -11,6 +11,8 @@ import { AuthModal } from "@/components/AuthModal";
 import { EnhancedCreditCardForm } from "@/components/EnhancedCreditCardForm";
 import { useAuth } from "@/hooks/useAuth";
 import { useAccountBalance } from "@/hooks/useAccountBalance";
+import { useCurrency } from "@/hooks/useCurrency";
+import { currencySymbol } from "@shared/currency";
 import { CreditCard } from "@/types";
 import { 
   Plus, 
@@ -37,6 +39,7 @@ const CreditCards = () => {
   const { user } = useAuth();
   const { documents: cards, loading, addDocument, updateDocument, deleteDocument } = useFirestore<CreditCard>("creditCards");
   const { calculateAccountBalance, getAccountTransactionSummary } = useAccountBalance();
+  const { convert, format } = useCurrency();
   const [showBalances, setShowBalances] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
@@ -100,11 +103,12 @@ const CreditCards = () => {
       });
     }
   };
+  // Totals across cards are in the base currency; each card's own figures stay in its currency
   const totalBalance = activeCards.reduce((sum, card) => {
     const currentBalance = calculateAccountBalance(card.id, 'credit', card.initialBalance);
-    return sum + currentBalance;
+    return sum + convert(currentBalance, card.currency);
   }, 0);
-  const totalLimit = activeCards.reduce((sum, card) => sum + card.limit, 0);
+  const totalLimit = activeCards.reduce((sum, card) => sum + convert(card.limit, card.currency), 0);
   const utilization = totalLimit > 0 ? (totalBalance / totalLimit) * 100 : 0;
   const activeBonuses = activeCards.flatMap(card => card.bonuses || []).filter(bonus => bonus.status === 'in_progress');
   const completedBonuses = activeCards.flatMap(card => card.bonuses || []).filter(bonus => bonus.status === 'completed');
@@ -262,7 +266,7 @@ const CreditCards = () => {
           </CardHeader>
           <CardContent>
             <p className="text-2xl font-bold text-foreground">
-              {showBalances ? `$${totalBalance.toLocaleString()}` : "••••••"}
+              {showBalances ? format(totalBalance) : "••••••"}
             </p>
             <p className="text-sm text-muted-foreground mt-1">Across {activeCards.length} cards</p>
           </CardContent>
@@ -286,9 +290,9 @@ const CreditCards = () => {
           </CardHeader>
           <CardContent>
             <p className="text-2xl font-bold text-success">
-              {showBalances ? `$${(totalLimit - totalBalance).toLocaleString()}` : "••••••"}
+              {showBalances ? format(totalLimit - totalBalance) : "••••••"}
             </p>
-            <p className="text-sm text-muted-foreground mt-1">Total limit: ${totalLimit.toLocaleString()}</p>
+            <p className="text-sm text-muted-foreground mt-1">Total limit: {format(totalLimit)}</p>
           </CardContent>
         </Card>
 
@@ -343,7 +347,7 @@ const CreditCards = () => {
                     <div className="flex justify-between items-center mb-2">
                       <span className="text-sm text-muted-foreground">Balance</span>
                       <span className="text-sm text-muted-foreground">
-                        {showBalances ? `$${currentBalance.toLocaleString()} / $${card.limit.toLocaleString()}` : "•••••• / ••••••"}
+                        {showBalances ? `${currencySymbol(card.currency)}${currentBalance.toLocaleString()} / ${currencySymbol(card.currency)}${card.limit.toLocaleString()}` : "•••••• / ••••••"}
                       </span>
                     </div>
                     <Progress value={cardUtilization} className="h-2" />
@@ -440,7 +444,7 @@ const CreditCards = () => {
                       <div className="text-right">
                         <Badge variant="secondary">Inactive</Badge>
                         <p className="text-sm text-muted-foreground mt-1">
-                          Limit: ${card.limit.toLocaleString()}
+                          Limit: {currencySymbol(card.currency)}{card.limit.toLocaleString()}
                         </p>
                       </div>
                       <Button 
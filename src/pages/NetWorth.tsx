@@ -10,6 +10,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useFirestore, FirebaseDocument } from "@/hooks/useFirestore";
 import { useAuth } from "@/hooks/useAuth";
 import { AuthModal } from "@/components/AuthModal";
+import { useNetWorthHistory } from "@/hooks/useNetWorthHistory";
+import { useCurrency } from "@/hooks/useCurrency";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { NET_WORTH_RANGE_LABELS, NetWorthGranularity, NetWorthRange } from "@/types/netWorth";
 import { 
   Plus, 
   TrendingUp, 
@@ -30,6 +34,7 @@ interface Asset extends FirebaseDocument {
   name: string;
   type: string;
   value: number;
+  currency?: string; // Missing means USD
   description?: string;
 }
 
@@ -37,6 +42,7 @@ interface Liability extends FirebaseDocument {
   name: string;
   type: string;
   balance: number;
+  currency?: string; // Missing means USD
   interestRate?: number;
   description?: string;
 }
@@ -46,6 +52,11 @@ const NetWorth = () => {
   const { documents: assets, loading: assetsLoading, addDocument: addAsset, updateDocument: updateAsset, deleteDocument: deleteAsset } = useFirestore<Asset>('assets');
   const { documents: liabilities, loading: liabilitiesLoading, addDocument: addLiability, updateDocument: updateLiability, deleteDocument: deleteLiability } = useFirestore<Liability>('liabilities');
   
+  const [historyRange, setHistoryRange] = useState<NetWorthRange>("6m");
+  const [historyGranularity, setHistoryGranularity] = useState<NetWorthGranularity>("monthly");
+  const { points: historicalData, monthOverMonth, isLoading: historyLoading } = useNetWorthHistory(historyRange, historyGranularity);
+  const { baseCurrency, convert, unconvertible, format } = useCurrency();
+  
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [isAssetDialogOpen, setIsAssetDialogOpen] = useState(false);
   const [isLiabilityDialogOpen, setIsLiabilityDialogOpen] = useState(false);
@@ -53,12 +64,14 @@ const NetWorth = () => {
     name: "",
     type: "",
     value: "",
+    currency: "",
     description: ""
   });
   const [liabilityFormData, setLiabilityFormData] = useState({
     name: "",
     type: "",
     balance: "",
+    currency: "",
     interestRate: "",
     description: ""
   });
@@ -69,24 +82,15 @@ const NetWorth = () => {
     return <AuthModal open={showAuthModal} onOpenChange={setShowAuthModal} />;
   }
 
-  // Calculate totals
-  const totalAssets = assets.reduce((sum, asset) => sum + asset.value, 0);
-  const totalLiabilities = liabilities.reduce((sum, liability) => sum + liability.balance, 0);
+  // Calculate totals in the base currency at today's rates
+  const totalAssets = assets.reduce((sum, asset) => sum + convert(asset.value, asset.currency), 0);
+  const totalLiabilities = liabilities.reduce((sum, liability) => sum + convert(liability.balance, liability.currency), 0);
   const netWorth = totalAssets - totalLiabilities;
-
-  // Mock historical data
-  const historicalData = [
-    { month: 'Jan', assets: totalAssets - 50000, liabilities: totalLiabilities - 5000, netWorth: (totalAssets - 50000) - (totalLiabilities - 5000) },
-    { month: 'Feb', assets: totalAssets - 40000, liabilities: totalLiabilities - 4000, netWorth: (totalAssets - 40000) - (totalLiabilities - 4000) },
-    { month: 'Mar', assets: totalAssets - 30000, liabilities: totalLiabilities - 3000, netWorth: (totalAssets - 30000) - (totalLiabilities - 3000) },
-    { month: 'Apr', assets: totalAssets - 20000, liabilities: totalLiabilities - 2000, netWorth: (totalAssets - 20000) - (totalLiabilities - 2000) },
-    { month: 'May', assets: totalAssets - 10000, liabilities: totalLiabilities - 1000, netWorth: (totalAssets - 10000) - (totalLiabilities - 1000) },
-    { month: 'Jun', assets: totalAssets, liabilities: totalLiabilities, netWorth: netWorth },
-  ];
+  const missingRates = unconvertible([...assets, ...liabilities].map(item => item.currency));
 
   const chartConfig = {
-    assets: { label: "Assets", color: "hsl(var(--success))" },
-    liabilities: { label: "Liabilities", color: "hsl(var(--destructive))" },
+    totalAssets: { label: "Assets", color: "hsl(var(--success))" },
+    totalLiabilities: { label: "Liabilities", color: "hsl(var(--destructive))" },
     netWorth: { label: "Net Worth", color: "hsl(var(--primary))" }
   };
 
@@ -140,10 +144,11 @@ const NetWorth = () => {
       name: assetFormData.name,
       type: assetFormData.type,
       value: parseFloat(assetFormData.value),
+      currency: assetFormData.currency || baseCurrency,
       description: assetFormData.description
     });
 
-    setAssetFormData({ name: "", type: "", value: "", description: "" });
+    setAssetFormData({ name: "", type: "", value: "", currency: "", description: "" });
     setIsAssetDialogOpen(false);
   };
 
@@ -161,11 +166,12 @@ const NetWorth = () => {
       name: liabilityFormData.name,
       type: liabilityFormData.type,
       balance: parseFloat(liabilityFormData.balance),
+      currency: liabilityFormData.currency || baseCurrency,
       interestRate: liabilityFormData.interestRate ? parseFloat(liabilityFormData.interestRate) : undefined,
       description: liabilityFormData.description
     });
 
-    setLiabilityFormData({ name: "", type: "", balance: "", interestRate: "", description: "" });
+    setLiabilityFormData({ name: "", type: "", balance: "", currency: "", interestRate: "", description: "" });
     setIsLiabilityDialogOpen(false);
   };
 
@@ -225,6 +231,11 @@ const NetWorth = () => {
                     placeholder="500000" 
                   />
                 </div>
+                <CurrencySelect
+                  id="assetCurrency"
+                  value={assetFormData.currency || baseCurrency}
+                  onValueChange={(value) => setAssetFormData(prev => ({ ...prev, currency: value }))}
+                />
                 <div>
                   <Label htmlFor="assetDescription">Description (Optional)</Label>
                   <Input 
@@ -287,6 +298,11 @@ const NetWorth = () => {
                     placeholder="250000" 
                   />
                 </div>
+                <CurrencySelect
+                  id="liabilityCurrency"
+                  value={liabilityFormData.currency || baseCurrency}
+                  onValueChange={(value) => setLiabilityFormData(prev => ({ ...prev, currency: value }))}
+                />
                 <div>
                   <Label htmlFor="interestRate">Interest Rate % (Optional)</Label>
                   <Input 
@@ -314,6 +330,12 @@ const NetWorth = () => {
         </div>
       </div>
 
+      {missingRates.length > 0 && (
+        <p className="text-sm text-warning">
+          No exchange rate is available for {missingRates.join(', ')}; those items are counted in totals unconverted.
+        </p>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="shadow-card border-border/50">
@@ -321,7 +343,7 @@ const NetWorth = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Total Assets</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-success">${totalAssets.toLocaleString()}</p>
+            <p className="text-2xl font-bold text-success">{format(totalAssets)}</p>
             <p className="text-sm text-muted-foreground mt-1">{assets.length} items</p>
           </CardContent>
         </Card>
@@ -331,7 +353,7 @@ const NetWorth = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Total Liabilities</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-destructive">${totalLiabilities.toLocaleString()}</p>
+            <p className="text-2xl font-bold text-destructive">{format(totalLiabilities)}</p>
             <p className="text-sm text-muted-foreground mt-1">{liabilities.length} items</p>
           </CardContent>
         </Card>
@@ -342,33 +364,68 @@ const NetWorth = () => {
           </CardHeader>
           <CardContent>
             <p className={`text-2xl font-bold ${netWorth >= 0 ? 'text-primary' : 'text-destructive'}`}>
-              ${netWorth.toLocaleString()}
-            </p>
-            <p className="text-sm text-success mt-1 flex items-center gap-1">
-              <TrendingUp className="h-3 w-3" />
-              +8.3% from last month
+              {format(netWorth)}
             </p>
+            {monthOverMonth?.change != null ? (
+              <p className={`text-sm mt-1 flex items-center gap-1 ${monthOverMonth.change >= 0 ? 'text-success' : 'text-destructive'}`}>
+                {monthOverMonth.change >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                {monthOverMonth.change >= 0 ? '+' : '-'}{format(Math.abs(monthOverMonth.change))}
+                {monthOverMonth.changePercent != null && ` (${monthOverMonth.changePercent >= 0 ? '+' : ''}${monthOverMonth.changePercent}%)`}
+                {' '}from last month
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground mt-1">Not enough history for a monthly change yet</p>
+            )}
           </CardContent>
         </Card>
       </div>
 
       {/* Net Worth Trend Chart */}
       <Card className="shadow-card border-border/50">
-        <CardHeader>
-          <CardTitle>Net Worth Trend</CardTitle>
-          <CardDescription>Your financial progress over the last 6 months</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Net Worth Trend</CardTitle>
+            <CardDescription>Your financial progress in {baseCurrency}, {NET_WORTH_RANGE_LABELS[historyRange].toLowerCase()}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={historyRange} onValueChange={(value) => setHistoryRange(value as NetWorthRange)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(NET_WORTH_RANGE_LABELS) as NetWorthRange[]).map(range => (
+                  <SelectItem key={range} value={range}>{NET_WORTH_RANGE_LABELS[range]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={historyGranularity} onValueChange={(value) => setHistoryGranularity(value as NetWorthGranularity)}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
+          {!historyLoading && historicalData.length === 0 && (
+            <p className="text-sm text-muted-foreground mb-4">
+              No snapshots recorded yet. Your net worth is captured daily, so the trend fills in over time.
+            </p>
+          )}
           <ChartContainer config={chartConfig} className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
               <AreaChart data={historicalData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" />
+                <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" />
                 <YAxis stroke="hsl(var(--muted-foreground))" />
                 <ChartTooltip content={<ChartTooltipContent />} />
                 <Area
                   type="monotone"
-                  dataKey="assets"
+                  dataKey="totalAssets"
                   stackId="1"
                   stroke="hsl(var(--success))"
                   fill="hsl(var(--success))"
@@ -376,7 +433,7 @@ const NetWorth = () => {
                 />
                 <Area
                   type="monotone"
-                  dataKey="liabilities"
+                  dataKey="totalLiabilities"
                   stackId="2"
                   stroke="hsl(var(--destructive))"
                   fill="hsl(var(--destructive))"
@@ -418,7 +475,7 @@ const NetWorth = () => {
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
-                  <p className="font-bold text-success">${asset.value.toLocaleString()}</p>
+                  <p className="font-bold text-success">{format(asset.value, asset.currency ?? 'USD')}</p>
                   <div className="flex gap-1">
                     <Button variant="ghost" size="sm">
                       <Edit className="h-4 w-4" />
@@ -463,7 +520,7 @@ const NetWorth = () => {
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
-                  <p className="font-bold text-destructive">${liability.balance.toLocaleString()}</p>
+                  <p className="font-bold text-destructive">{format(liability.balance, liability.currency ?? 'USD')}</p>
                   <div className="flex gap-1">
                     <Button variant="ghost" size="sm">
                       <Edit className="h-4 w-4" />
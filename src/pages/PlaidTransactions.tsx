@@ -240,6 +240,7 @@ export const PlaidTransactions = () => {
               <div className="mt-2 text-sm text-muted-foreground">
                 Added {recentSyncLog.transactionsAdded} new transactions, 
                 updated {recentSyncLog.transactionsUpdated} existing
+                {recentSyncLog.transactionsRemoved ? `, removed ${recentSyncLog.transactionsRemoved}` : ''}
               </div>
             )}
           </CardContent>
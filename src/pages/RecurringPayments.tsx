@@ -23,7 +23,8 @@ import { useFirestore } from "@/hooks/useFirestore";
 import { AuthModal } from "@/components/AuthModal";
 import { RecurringPaymentForm } from "@/components/RecurringPaymentForm";
 import { RecurringPaymentCalendar } from "@/components/RecurringPaymentCalendar";
-import { RecurringPayment } from "@/types/recurringPayments";
+import { FrequencyConfig, RecurringPayment } from "@/types/recurringPayments";
+import { normalizeFrequency } from "@shared/recurrence";
 
 
 const RecurringPayments = () => {
@@ -46,21 +47,13 @@ const RecurringPayments = () => {
   const activePayments = payments.filter(payment => payment.isActive);
   const inactivePayments = payments.filter(payment => !payment.isActive);
   
-  // Calculate monthly total - handle new frequency structure
+  // Calculate monthly total - legacy string frequencies are migrated first
   const monthlyTotal = activePayments.reduce((sum, payment) => {
-    const freq = payment.frequency;
-    if (typeof freq === 'string') {
-      // Legacy format
-      if (freq === "Monthly") return sum + payment.amount;
-      if (freq === "Weekly") return sum + (payment.amount * 4.33); // ~4.33 weeks per month
-      if (freq === "Yearly") return sum + (payment.amount / 12);
-    } else {
-      // New format
-      if (freq.type === 'monthly') return sum + (payment.amount / freq.interval);
-      if (freq.type === 'weekly') return sum + (payment.amount * 4.33 / freq.interval);
-      if (freq.type === 'yearly') return sum + (payment.amount / (12 * freq.interval));
-      if (freq.type === 'daily') return sum + (payment.amount * 30.44 / freq.interval); // ~30.44 days per month
-    }
+    const freq = normalizeFrequency(payment.frequency);
+    if (freq.type === 'monthly') return sum + (payment.amount / freq.interval);
+    if (freq.type === 'weekly') return sum + (payment.amount * 4.33 / freq.interval); // ~4.33 weeks per month
+    if (freq.type === 'yearly') return sum + (payment.amount / (12 * freq.interval));
+    if (freq.type === 'daily') return sum + (payment.amount * 30.44 / freq.interval); // ~30.44 days per month
     return sum;
   }, 0);
   
@@ -113,12 +106,8 @@ const RecurringPayments = () => {
     await deleteDocument(paymentId);
   };
 
-  const getFrequencyDisplay = (frequency: any) => {
-    if (typeof frequency === 'string') {
-      return frequency; // Legacy format
-    }
-    
-    const { type, interval, dayOfWeek, dayOfMonth } = frequency;
+  const getFrequencyDisplay = (frequency: FrequencyConfig | string) => {
+    const { type, interval, customDescription } = normalizeFrequency(frequency);
     switch (type) {
       case 'daily':
         return interval === 1 ? 'Daily' : `Every ${interval} days`;
@@ -129,7 +118,7 @@ const RecurringPayments = () => {
       case 'yearly':
         return interval === 1 ? 'Yearly' : `Every ${interval} years`;
       default:
-        return 'Custom';
+        return customDescription || 'Custom';
     }
   };
 
@@ -6,7 +6,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { FileText, Download, Calendar, TrendingUp, BarChart3, PieChart } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { FileText, Download, Calendar, TrendingUp, BarChart3, PieChart, Trash2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { useToast } from "@/hooks/use-toast";
@@ -14,13 +15,28 @@ import { logger } from "@/utils/logger";
 import { AuthModal } from "@/components/AuthModal";
 import { InsuranceDashboard } from "@/components/insurance/InsuranceDashboard";
 import { useInsurance } from "@/hooks/useInsurance";
+import { useReports } from "@/hooks/useReports";
+import { REPORT_EXPORT_FORMAT_LABELS, REPORT_TYPE_LABELS, ReportExportFormat, ReportPeriodPreset, ReportType } from "@/types/reports";
+
+const REPORT_ICONS: Record<ReportType, typeof BarChart3> = {
+  spending: BarChart3,
+  networth: TrendingUp,
+  budget: PieChart,
+  cashflow: BarChart3
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 const Reports = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { handleError, executeWithErrorHandling } = useErrorHandler('ReportsPage');
   const { policies, claims, createPolicy, createClaim } = useInsurance();
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { reports, generateReport, downloadReport, deleteReport, isGenerating } = useReports();
   const [selectedReportType, setSelectedReportType] = useState("");
   const [selectedPeriod, setSelectedPeriod] = useState("");
 
@@ -28,36 +44,16 @@ const Reports = () => {
     return <AuthModal open={true} onOpenChange={() => {}} />;
   }
 
-  const reports = [
-    { 
-      name: "Monthly Spending Report", 
-      period: "January 2024", 
-      size: "2.1 MB",
-      type: "Spending Analysis",
-      icon: BarChart3
-    },
-    { 
-      name: "Net Worth Statement", 
-      period: "Q4 2023", 
-      size: "1.8 MB",
-      type: "Net Worth",
-      icon: TrendingUp
-    },
-    { 
-      name: "Budget Performance", 
-      period: "December 2023", 
-      size: "1.5 MB",
-      type: "Budget Analysis",
-      icon: PieChart
-    },
-    { 
-      name: "Cash Flow Summary", 
-      period: "Q4 2023", 
-      size: "2.3 MB",
-      type: "Cash Flow",
-      icon: BarChart3
-    }
-  ];
+  const now = new Date();
+  const reportsThisMonth = reports.filter(report => {
+    const generatedAt = new Date(report.generatedAt);
+    return generatedAt.getMonth() === now.getMonth() && generatedAt.getFullYear() === now.getFullYear();
+  }).length;
+  const lastGeneratedAt = reports.reduce<string | null>(
+    (latest, report) => (!latest || report.generatedAt > latest ? report.generatedAt : latest),
+    null
+  );
+  const totalSize = reports.reduce((sum, report) => sum + report.sizeBytes, 0);
 
   const handleGenerateReport = async () => {
     if (!selectedReportType || !selectedPeriod) {
@@ -75,32 +71,27 @@ const Reports = () => {
     }
     
     const result = await executeWithErrorHandling(async () => {
-      setIsGenerating(true);
-      
       logger.info('Starting report generation', {
         reportType: selectedReportType,
         period: selectedPeriod,
         userId: user?.id
       });
       
-      // Simulate report generation with realistic processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const report = await generateReport({
+        type: selectedReportType as ReportType,
+        period: selectedPeriod as ReportPeriodPreset
+      });
       
       logger.info('Report generation completed', {
+        reportId: report.id,
         reportType: selectedReportType,
         period: selectedPeriod
       });
       
-      toast({
-        title: "Report Generated",
-        description: "Your financial report has been generated successfully.",
-      });
-      
       setSelectedReportType("");
       setSelectedPeriod("");
     }, { action: 'generate_report', additionalData: { reportType: selectedReportType, period: selectedPeriod } });
     
-    setIsGenerating(false);
     return result;
   };
 
@@ -137,7 +128,6 @@ const Reports = () => {
                     <SelectItem value="networth">Net Worth Statement</SelectItem>
                     <SelectItem value="budget">Budget Performance</SelectItem>
                     <SelectItem value="cashflow">Cash Flow Summary</SelectItem>
-                    <SelectItem value="tax">Tax Summary</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -195,7 +185,7 @@ const Reports = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">This Month</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-success">2</p>
+            <p className="text-2xl font-bold text-success">{reportsThisMonth}</p>
             <p className="text-sm text-muted-foreground mt-1">Reports generated</p>
           </CardContent>
         </Card>
@@ -205,8 +195,10 @@ const Reports = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Last Updated</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-foreground">Today</p>
-            <p className="text-sm text-muted-foreground mt-1">Data current</p>
+            <p className="text-2xl font-bold text-foreground">
+              {lastGeneratedAt ? new Date(lastGeneratedAt).toLocaleDateString() : "Never"}
+            </p>
+            <p className="text-sm text-muted-foreground mt-1">Most recent report</p>
           </CardContent>
         </Card>
 
@@ -215,7 +207,7 @@ const Reports = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Total Size</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-foreground">7.7 MB</p>
+            <p className="text-2xl font-bold text-foreground">{formatFileSize(totalSize)}</p>
             <p className="text-sm text-muted-foreground mt-1">All reports</p>
           </CardContent>
         </Card>
@@ -224,28 +216,53 @@ const Reports = () => {
           {/* Reports Grid */}
           <div>
             <h2 className="text-xl font-semibold text-foreground mb-6">Available Reports</h2>
+            {reports.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                <Calendar className="h-8 w-8 mx-auto mb-2" />
+                <p>No reports generated yet</p>
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {reports.map((report, index) => {
-                const IconComponent = report.icon;
+              {reports.map((report) => {
+                const IconComponent = REPORT_ICONS[report.type] || FileText;
                 return (
-                  <Card key={index} className="shadow-card border-border/50 hover:shadow-elegant transition-shadow">
+                  <Card key={report.id} className="shadow-card border-border/50 hover:shadow-elegant transition-shadow">
                     <CardHeader>
                       <CardTitle className="text-base flex items-center gap-2">
                         <IconComponent className="h-4 w-4 text-primary" />
                         {report.name}
                       </CardTitle>
                       <CardDescription className="flex items-center justify-between">
-                        <span>{report.period}</span>
-                        <Badge variant="outline" className="text-xs">{report.type}</Badge>
+                        <span>{report.period.label}</span>
+                        <Badge variant="outline" className="text-xs">{REPORT_TYPE_LABELS[report.type]}</Badge>
                       </CardDescription>
                     </CardHeader>
                     <CardContent>
                       <div className="flex items-center justify-between">
-                        <Badge variant="secondary">{report.size}</Badge>
-                        <Button variant="outline" size="sm" className="hover:bg-primary hover:text-primary-foreground">
-                          <Download className="h-4 w-4 mr-1" />
-                          Download
-                        </Button>
+                        <div className="flex gap-1">
+                          <Badge variant="secondary">{formatFileSize(report.sizeBytes)}</Badge>
+                          <Badge variant="secondary">{report.currency ?? 'USD'}</Badge>
+                        </div>
+                        <div className="flex gap-1">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm" className="hover:bg-primary hover:text-primary-foreground">
+                                <Download className="h-4 w-4 mr-1" />
+                                Download
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {(Object.keys(REPORT_EXPORT_FORMAT_LABELS) as ReportExportFormat[]).map(format => (
+                                <DropdownMenuItem key={format} onClick={() => downloadReport(report, format)}>
+                                  {REPORT_EXPORT_FORMAT_LABELS[format]}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          <Button variant="ghost" size="sm" className="text-destructive" onClick={() => deleteReport(report.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, type MouseEvent } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -6,12 +6,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { Settings as SettingsIcon, User, Bell, Shield, Palette, Database, LogOut } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Settings as SettingsIcon, User, Bell, Shield, Palette, Database, LogOut, Download, Loader2 } from "lucide-react";
+import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
+import { useAccountData } from "@/hooks/useAccountData";
+import { useCurrency } from "@/hooks/useCurrency";
 import { AuthModal } from "@/components/AuthModal";
 
 const Settings = () => {
   const { user, logout } = useAuth();
+  const { latestExport, requestExport, downloadExport, deleteAccount, isRequestingExport, isDeleting } = useAccountData();
+  const { baseCurrency, supportedCurrencies, updateBaseCurrency, isUpdating: isUpdatingCurrency } = useCurrency();
+  const [deleteConfirmation, setDeleteConfirmation] = useState("");
   const [formData, setFormData] = useState({
     name: user?.email?.split('@')[0] || "",
     email: user?.email || ""
@@ -27,6 +34,15 @@ const Settings = () => {
   if (!user) {
     return <AuthModal open={true} onOpenChange={() => {}} />;
   }
+
+  const exportInProgress = latestExport?.status === 'pending' || latestExport?.status === 'processing';
+  const exportReady = latestExport?.status === 'completed' ? latestExport : undefined;
+
+  const handleDeleteAccount = async (event: MouseEvent) => {
+    // Keep the dialog open until the server confirms; a failure leaves the account intact
+    event.preventDefault();
+    await deleteAccount(deleteConfirmation).catch(() => undefined);
+  };
   return (
     <div className="space-y-8">
       <div>
@@ -67,17 +83,17 @@ const Settings = () => {
             </div>
             <div>
               <Label htmlFor="currency">Default Currency</Label>
-              <Select defaultValue="USD">
-                <SelectTrigger>
+              <Select value={baseCurrency} onValueChange={updateBaseCurrency} disabled={isUpdatingCurrency}>
+                <SelectTrigger id="currency">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="USD">USD - US Dollar</SelectItem>
-                  <SelectItem value="EUR">EUR - Euro</SelectItem>
-                  <SelectItem value="GBP">GBP - British Pound</SelectItem>
-                  <SelectItem value="CAD">CAD - Canadian Dollar</SelectItem>
+                  {supportedCurrencies.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>{currency.code} - {currency.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <p className="text-sm text-muted-foreground mt-1">Totals and reports are converted into this currency</p>
             </div>
             <Button>Save Changes</Button>
           </CardContent>
@@ -233,10 +249,26 @@ const Settings = () => {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex flex-col sm:flex-row gap-4">
-            <Button variant="outline" className="flex-1">
-              <Database className="h-4 w-4 mr-2" />
-              Export All Data
-            </Button>
+            {exportReady ? (
+              <Button variant="outline" className="flex-1" onClick={() => downloadExport(exportReady)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Export
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => requestExport()}
+                disabled={exportInProgress || isRequestingExport}
+              >
+                {exportInProgress ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Database className="h-4 w-4 mr-2" />
+                )}
+                {exportInProgress ? "Preparing Export..." : "Export All Data"}
+              </Button>
+            )}
             <Button variant="outline" className="flex-1">
               Clear Cache
             </Button>
@@ -249,11 +281,55 @@ const Settings = () => {
               Sign Out
             </Button>
           </div>
+          {exportReady && (
+            <p className="text-sm text-muted-foreground">
+              Your export from {format(new Date(exportReady.completedAt ?? exportReady.requestedAt), "PPP p")} is ready
+              {exportReady.expiresAt ? ` until ${format(new Date(exportReady.expiresAt), "PPP")}` : ""}.{" "}
+              <Button variant="link" className="h-auto p-0" onClick={() => requestExport()} disabled={isRequestingExport}>
+                Export again
+              </Button>
+            </p>
+          )}
+          {latestExport?.status === 'failed' && (
+            <p className="text-sm text-destructive">Your last export could not be built. Please try again.</p>
+          )}
           <Separator />
           <div className="text-center">
-            <Button variant="ghost" className="text-destructive hover:text-destructive text-sm">
-              Delete Account
-            </Button>
+            <AlertDialog onOpenChange={(open) => !open && setDeleteConfirmation("")}>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" className="text-destructive hover:text-destructive text-sm">
+                  Delete Account
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Account</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This disconnects your linked banks and permanently deletes your accounts, transactions,
+                    uploaded documents and all other data. Export your data first if you want a copy.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="space-y-2">
+                  <Label htmlFor="delete-confirmation">Type DELETE to confirm</Label>
+                  <Input
+                    id="delete-confirmation"
+                    value={deleteConfirmation}
+                    onChange={(e) => setDeleteConfirmation(e.target.value)}
+                    autoComplete="off"
+                  />
+                </div>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    disabled={deleteConfirmation !== "DELETE" || isDeleting}
+                    onClick={handleDeleteAccount}
+                  >
+                    {isDeleting ? "Deleting..." : "Delete Account"}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
             <p className="text-xs text-muted-foreground mt-1">
               This action cannot be undone
             </p>
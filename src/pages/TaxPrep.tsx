@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -9,24 +9,37 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, Calculator, DollarSign, Award, Users, CheckCircle } from "lucide-react";
+import { FileText, Calculator, DollarSign, Award, Users, CheckCircle, Sparkles, Briefcase, LineChart } from "lucide-react";
 import { PersonalInfoForm } from "@/components/tax/PersonalInfoForm";
 import { IncomeDataForm } from "@/components/tax/IncomeDataForm";
 import { DeductionsForm } from "@/components/tax/DeductionsForm";
 import { CreditsForm } from "@/components/tax/CreditsForm";
 import { TaxSummary } from "@/components/tax/TaxSummary";
-import { TaxFormData } from "@/types/tax";
+import { TaxPrefillReview } from "@/components/tax/TaxPrefillReview";
+import { AccountantAccessManager } from "@/components/tax/AccountantAccessManager";
+import { TaxFormNotes } from "@/components/tax/TaxFormNotes";
+import { Form8949Import } from "@/components/tax/Form8949Import";
+import { useTaxForm } from "@/hooks/useTaxForm";
+import { apiClient } from "@/lib/apiClient";
+import { applyForm8949, applyTaxPrefillProposal } from "@/lib/taxPrefill";
+import { TaxFormData, TaxPrefillProposal } from "@/types/tax";
+import { Form8949Report } from "@/types";
 
 const currentTaxYear = 2025;
 
 export default function TaxPrep() {
   const [activeTab, setActiveTab] = useState("personal");
   const [formProgress, setFormProgress] = useState(0);
+  const [prefillOpen, setPrefillOpen] = useState(false);
+  const [accountantsOpen, setAccountantsOpen] = useState(false);
+  const [capitalGainsOpen, setCapitalGainsOpen] = useState(false);
+  // Section forms keep their own copy of the data, so they are remounted when a proposal or a load changes it
+  const [revision, setRevision] = useState(0);
   const { toast } = useToast();
+  const { taxForm: savedForm, saveTaxForm, isSaving } = useTaxForm(currentTaxYear);
 
-  // Mock data for demonstration
+  // A blank return until the saved one loads; it is created on the first save
   const [taxForm, setTaxForm] = useState<Partial<TaxFormData>>({
-    id: 'tax-form-2025', // Mock ID for development
     taxYear: currentTaxYear,
     filingStatus: 'single',
     status: 'draft',
@@ -87,6 +100,13 @@ export default function TaxPrep() {
     }
   });
 
+  useEffect(() => {
+    if (savedForm) {
+      setTaxForm(savedForm);
+      setRevision(current => current + 1);
+    }
+  }, [savedForm]);
+
   const calculateProgress = () => {
     let completed = 0;
     const sections = 5; // personal, income, deductions, credits, review
@@ -116,35 +136,32 @@ export default function TaxPrep() {
 
   const handleSave = async () => {
     try {
-      // Here you would save to the backend
-      toast({
-        title: "Tax form saved",
-        description: "Your tax information has been saved successfully.",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to save tax form. Please try again.",
-        variant: "destructive",
-      });
+      await saveTaxForm(taxForm);
+    } catch {
+      // The hook has already reported the failure
     }
   };
 
-  const handleSubmitToAccountant = async () => {
-    try {
-      // Here you would submit to accountant
-      setTaxForm(prev => ({ ...prev, status: 'submitted_to_accountant' }));
-      toast({
-        title: "Submitted to accountant",
-        description: "Your tax form has been submitted for professional review.",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to submit to accountant. Please try again.",
-        variant: "destructive",
-      });
-    }
+  // Submitting picks one of the invited accountants
+  const handleSubmitToAccountant = () => setAccountantsOpen(true);
+
+  // Saved right away, before the proposal is recorded as accepted; the saved form then reloads into the sections
+  const handlePrefillAccepted = async (proposal: TaxPrefillProposal) => {
+    await saveTaxForm(applyTaxPrefillProposal(taxForm, proposal));
+    toast({
+      title: "Added to your return",
+      description: proposal.summary,
+    });
+  };
+
+  const handleCapitalGainsImported = (report: Form8949Report) => {
+    setTaxForm(prev => applyForm8949(prev, report));
+    setRevision(current => current + 1);
+    setCapitalGainsOpen(false);
+    toast({
+      title: "Capital gains imported",
+      description: `Short-term $${report.capitalGains.shortTermGains.toLocaleString()}, long-term $${report.capitalGains.longTermGains.toLocaleString()}`,
+    });
   };
 
   const tabsConfig = [
@@ -167,7 +184,19 @@ export default function TaxPrep() {
         </div>
         <div className="flex items-center gap-4">
           {getStatusBadge()}
-          <Button onClick={handleSave} variant="outline">
+          <Button onClick={() => setAccountantsOpen(true)} variant="outline">
+            <Briefcase className="h-4 w-4 mr-2" />
+            Accountants
+          </Button>
+          <Button onClick={() => setPrefillOpen(true)} variant="outline">
+            <Sparkles className="h-4 w-4 mr-2" />
+            Prefill from my data
+          </Button>
+          <Button onClick={() => setCapitalGainsOpen(true)} variant="outline">
+            <LineChart className="h-4 w-4 mr-2" />
+            Import capital gains
+          </Button>
+          <Button onClick={handleSave} variant="outline" disabled={isSaving}>
             Save Draft
           </Button>
         </div>
@@ -210,6 +239,7 @@ export default function TaxPrep() {
 
         <TabsContent value="personal">
           <PersonalInfoForm 
+            key={`personal-${revision}`}
             data={taxForm.personalInfo}
             filingStatus={taxForm.filingStatus}
             onUpdate={(data) => setTaxForm(prev => ({ 
@@ -222,6 +252,7 @@ export default function TaxPrep() {
 
         <TabsContent value="income">
           <IncomeDataForm 
+            key={`income-${revision}`}
             data={taxForm.incomeData}
             onUpdate={(incomeData) => setTaxForm(prev => ({ ...prev, incomeData }))}
           />
@@ -229,16 +260,21 @@ export default function TaxPrep() {
 
         <TabsContent value="deductions">
           <DeductionsForm 
+            key={`deductions-${revision}`}
             data={taxForm.deductionsData}
             taxFormId={taxForm.id}
+            taxYear={taxForm.taxYear}
+            filingStatus={taxForm.filingStatus}
             onUpdate={(deductionsData) => setTaxForm(prev => ({ ...prev, deductionsData }))}
           />
         </TabsContent>
 
         <TabsContent value="credits">
           <CreditsForm 
+            key={`credits-${revision}`}
             data={taxForm.creditsData}
             dependents={taxForm.personalInfo?.dependents || []}
+            taxYear={taxForm.taxYear}
             onUpdate={(creditsData) => setTaxForm(prev => ({ ...prev, creditsData }))}
           />
         </TabsContent>
@@ -249,6 +285,13 @@ export default function TaxPrep() {
             onSubmitToAccountant={handleSubmitToAccountant}
             onMarkComplete={() => setTaxForm(prev => ({ ...prev, status: 'completed' }))}
           />
+          <div className="mt-6">
+            <TaxFormNotes
+              api={apiClient}
+              basePath={taxForm.id ? `/accountant-access/forms/${taxForm.id}` : null}
+              viewerRole="client"
+            />
+          </div>
         </TabsContent>
       </Tabs>
 
@@ -279,6 +322,28 @@ export default function TaxPrep() {
           Next
         </Button>
       </div>
+
+      <TaxPrefillReview
+        taxYear={taxForm.taxYear || currentTaxYear}
+        open={prefillOpen}
+        onOpenChange={setPrefillOpen}
+        onAccept={handlePrefillAccepted}
+      />
+
+      <Form8949Import
+        taxYear={taxForm.taxYear || currentTaxYear}
+        open={capitalGainsOpen}
+        onOpenChange={setCapitalGainsOpen}
+        onImport={handleCapitalGainsImported}
+      />
+
+      <AccountantAccessManager
+        taxYear={taxForm.taxYear || currentTaxYear}
+        taxFormId={taxForm.id}
+        open={accountantsOpen}
+        onOpenChange={setAccountantsOpen}
+        onSubmitted={() => setTaxForm(prev => ({ ...prev, status: 'submitted_to_accountant' }))}
+      />
     </div>
   );
 }
\ No newline at end of file
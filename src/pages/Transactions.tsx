@@ -1,15 +1,19 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useFirestore, FirebaseDocument } from '@/hooks/useFirestore';
 import { useAccountBalance } from '@/hooks/useAccountBalance';
 import { useRewardCalculation } from '@/hooks/useRewardCalculation';
 import { useToast } from '@/hooks/use-toast';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
+import { useTransactionSearch } from '@/hooks/useTransactionSearch';
 import { logger } from '@/utils/logger';
 import { Transaction, DEFAULT_CATEGORIES, BankAccount, CreditCard } from '@/types';
 import { AuthModal } from '@/components/AuthModal';
 import { TransferModal } from '@/components/TransferModal';
 import { QuickTransactionEntry } from '@/components/QuickTransactionEntry';
+import { StatementImportDialog } from '@/components/StatementImportDialog';
+import { CategorizationRulesDialog } from '@/components/CategorizationRulesDialog';
+import { DuplicateReviewDialog } from '@/components/DuplicateReviewDialog';
 import { EnhancedTransactionList } from '@/components/EnhancedTransactionList';
 import { EditTransactionDialog } from '@/components/EditTransactionDialog';
 import { transactionDocumentService } from '@/services/transactionDocumentService';
@@ -57,6 +61,7 @@ export const Transactions = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedAccount, setSelectedAccount] = useState('all');
+  const [searchQuery, setSearchQuery] = useState('');
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   
@@ -72,6 +77,24 @@ export const Transactions = () => {
     status: 'cleared' as 'pending' | 'cleared' | 'reconciled'
   });
 
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const {
+    transactions: searchResults,
+    searchError,
+    hasNextPage,
+    loadMore,
+    isLoadingMore
+  } = useTransactionSearch({
+    q: searchQuery,
+    ...(selectedCategory !== 'all' && { category: selectedCategory }),
+    ...(selectedAccount !== 'all' && { accountId: selectedAccount })
+  });
+
   // Get active budgets for expenses
   const activeBudgets = budgets.filter(budget => budget.status === 'active');
   
@@ -279,14 +302,6 @@ export const Transactions = () => {
     }, { action: 'delete_document', additionalData: { transactionId, documentId } });
   };
 
-  const filteredTransactions = transactions.filter(transaction => {
-    const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         transaction.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = selectedCategory === 'all' || transaction.category === selectedCategory;
-    const matchesAccount = selectedAccount === 'all' || transaction.accountId === selectedAccount;
-    
-    return matchesSearch && matchesCategory && matchesAccount;
-  });
 
   const totalIncome = transactions
     .filter(t => t.type === 'income')
@@ -344,6 +359,9 @@ export const Transactions = () => {
             <ArrowRightLeft className="h-4 w-4 mr-2" />
             Transfer
           </Button>
+          <StatementImportDialog />
+          <CategorizationRulesDialog />
+          <DuplicateReviewDialog />
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -627,12 +645,15 @@ export const Transactions = () => {
               <div className="relative">
                 <Search className="absolute left-2 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search transactions..."
+                  placeholder="merchant:amazon amount>50 tag:work"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-8"
                 />
               </div>
+              {searchError && (
+                <p className="text-sm text-destructive">{searchError}</p>
+              )}
             </div>
             
             <div className="space-y-2">
@@ -674,13 +695,22 @@ export const Transactions = () => {
 
       {/* Enhanced Transaction List */}
       <EnhancedTransactionList 
-        transactions={filteredTransactions}
+        transactions={searchResults}
         onDelete={deleteDocument}
         onEdit={handleEditTransaction}
         showAmounts={showAmounts}
       />
 
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+
       <EditTransactionDialog
+        key={editingTransaction?.id}
         transaction={editingTransaction}
         open={showEditDialog}
         onOpenChange={setShowEditDialog}
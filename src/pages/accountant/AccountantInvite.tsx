@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Briefcase } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAccountantAuth } from "@/hooks/useAccountantPortal";
+
+export default function AccountantInvite() {
+  const { token = "" } = useParams();
+  const navigate = useNavigate();
+  const { acceptInvite, isPending, error } = useAccountantAuth();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await acceptInvite({ token, password });
+      navigate("/accountant");
+    } catch {
+      // Shown below the form
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/40 p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5" />
+            Accept Invite
+          </CardTitle>
+          <CardDescription>
+            A client has shared their tax return with you. If you already have an account with this email,
+            enter its password; otherwise choose one to create your account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="submit" className="w-full" disabled={isPending || !password || password !== confirmPassword}>
+              Accept and Sign In
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
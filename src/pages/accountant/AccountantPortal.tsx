@@ -0,0 +1,152 @@
+import { format } from "date-fns";
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { Briefcase, ChevronRight, LogOut } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AccountantFormView } from "@/components/accountant/AccountantFormView";
+import { AccountantSession, clearAccountantSession, getAccountantSession } from "@/lib/accountantApi";
+import { useAccountantClientForms, useAccountantClients } from "@/hooks/useAccountantPortal";
+import { AccountantClient } from "@/types/tax";
+
+const ACCESS_LABELS = {
+  view_only: 'View only',
+  edit_forms: 'Edit forms',
+  full_access: 'Full access'
+} as const;
+
+function ClientList({ clients }: { clients: AccountantClient[] }) {
+  if (clients.length === 0) {
+    return <p className="text-muted-foreground">No clients have shared a return with you, or their access has expired.</p>;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {clients.map(client => (
+        <Link key={client.accessId} to={`/accountant/clients/${client.clientId}`}>
+          <Card className="hover:bg-muted/50 transition-colors">
+            <CardHeader>
+              <CardTitle className="text-lg">{client.clientEmail}</CardTitle>
+              <CardDescription>
+                {ACCESS_LABELS[client.accessLevel]}
+                {' · '}
+                {client.taxYears.length > 0 ? client.taxYears.join(', ') : 'All tax years'}
+                {' · until '}
+                {format(new Date(client.accessExpires), "PPP")}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function ClientForms({ client }: { client: AccountantClient }) {
+  const { forms, isLoading, error } = useAccountantClientForms(client.clientId);
+
+  if (isLoading) return <p className="text-muted-foreground">Loading tax forms...</p>;
+  if (error) return <p className="text-destructive">{error}</p>;
+  if (forms.length === 0) return <p className="text-muted-foreground">This client has no tax forms for the years shared with you.</p>;
+
+  return (
+    <div className="space-y-2">
+      {forms.map(form => (
+        <Link key={form.id} to={`/accountant/clients/${client.clientId}/forms/${form.id}`}>
+          <Card className="hover:bg-muted/50 transition-colors">
+            <CardContent className="flex items-center justify-between p-4">
+              <div>
+                <div className="font-medium">{form.taxYear} return</div>
+                <div className="text-sm text-muted-foreground">
+                  Last changed {format(new Date(form.lastModified), "PPP")}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{form.status.replace(/_/g, ' ')}</Badge>
+                <ChevronRight className="h-4 w-4" />
+              </div>
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function PortalContent({ session }: { session: AccountantSession }) {
+  const { clientId, formId } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { clients, isLoading, error } = useAccountantClients();
+
+  const handleSignOut = () => {
+    clearAccountantSession();
+    queryClient.clear();
+    navigate("/accountant/login");
+  };
+
+  const client = clients.find(candidate => candidate.clientId === clientId);
+
+  return (
+    <div className="min-h-screen bg-muted/40">
+      <header className="border-b bg-background">
+        <div className="container mx-auto flex items-center justify-between p-4">
+          <Link to="/accountant" className="flex items-center gap-2 font-semibold">
+            <Briefcase className="h-5 w-5" />
+            Accountant Portal
+          </Link>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground">{session.user.email}</span>
+            <Button variant="ghost" size="sm" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-6 space-y-6">
+        <nav className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Link to="/accountant" className="hover:text-foreground">Clients</Link>
+          {client && (
+            <>
+              <ChevronRight className="h-4 w-4" />
+              <Link to={`/accountant/clients/${client.clientId}`} className="hover:text-foreground">{client.clientEmail}</Link>
+            </>
+          )}
+          {client && formId && (
+            <>
+              <ChevronRight className="h-4 w-4" />
+              <span className="text-foreground">Return</span>
+            </>
+          )}
+        </nav>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading clients...</p>
+        ) : error ? (
+          <p className="text-destructive">{error}</p>
+        ) : !clientId ? (
+          <ClientList clients={clients} />
+        ) : !client ? (
+          <p className="text-muted-foreground">You no longer have access to this client.</p>
+        ) : formId ? (
+          <AccountantFormView clientId={client.clientId} formId={formId} accessLevel={client.accessLevel} />
+        ) : (
+          <ClientForms client={client} />
+        )}
+      </main>
+    </div>
+  );
+}
+
+/**
+ * The accountant's side of shared returns: clients, then a client's forms,
+ * then one form with its notes and history. Runs outside the app layout and
+ * only with an accountant session.
+ */
+export default function AccountantPortal() {
+  const session = getAccountantSession();
+  return session ? <PortalContent session={session} /> : <Navigate to="/accountant/login" replace />;
+}
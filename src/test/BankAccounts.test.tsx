@@ -41,6 +41,14 @@ vi.mock('@/hooks/useBankConnections', () => ({
   }),
 }));
 
+vi.mock('@/hooks/useCurrency', () => ({
+  useCurrency: () => ({
+    baseCurrency: 'USD',
+    convert: (amount: number) => amount,
+    format: (amount: number) => `$${amount.toFixed(2)}`,
+  }),
+}));
+
 vi.mock('@/hooks/use-toast', () => ({
   useToast: () => ({
     toast: vi.fn(),
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildNoteThreads } from '@/lib/accountantNotes';
+import { AccountantNote } from '@/types/tax';
+
+const note = (id: string, createdDate: string, overrides: Partial<AccountantNote> = {}): AccountantNote => ({
+  id,
+  userId: 'client-1',
+  taxFormId: 'form-1',
+  clientId: 'client-1',
+  authorId: 'accountant-1',
+  authorRole: 'accountant',
+  noteText: `Note ${id}`,
+  category: 'question',
+  resolved: false,
+  createdDate,
+  ...overrides
+});
+
+describe('buildNoteThreads', () => {
+  it('attaches replies to their thread in date order', () => {
+    const threads = buildNoteThreads([
+      note('reply-2', '2025-03-03T00:00:00Z', { parentNoteId: 'root' }),
+      note('root', '2025-03-01T00:00:00Z'),
+      note('reply-1', '2025-03-02T00:00:00Z', { parentNoteId: 'root', authorRole: 'client', authorId: 'client-1' })
+    ]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].note.id).toBe('root');
+    expect(threads[0].replies.map(reply => reply.id)).toEqual(['reply-1', 'reply-2']);
+    expect(threads[0].lastActivity).toBe('2025-03-03T00:00:00Z');
+  });
+
+  it('lists open threads first, most recently active first', () => {
+    const threads = buildNoteThreads([
+      note('old-open', '2025-01-01T00:00:00Z'),
+      note('resolved', '2025-04-01T00:00:00Z', { resolved: true }),
+      note('new-open', '2025-02-01T00:00:00Z'),
+      note('old-open-reply', '2025-03-01T00:00:00Z', { parentNoteId: 'old-open' })
+    ]);
+
+    expect(threads.map(thread => thread.note.id)).toEqual(['old-open', 'new-open', 'resolved']);
+  });
+
+  it('keeps replies whose thread is missing', () => {
+    const threads = buildNoteThreads([note('orphan', '2025-01-01T00:00:00Z', { parentNoteId: 'gone' })]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].note.id).toBe('orphan');
+    expect(threads[0].replies).toEqual([]);
+  });
+});
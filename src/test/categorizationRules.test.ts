@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyRuleResult,
+  applyRules,
+  BUILT_IN_RULES,
+  CategorizationRule,
+  changedFields,
+  fillFromRules,
+  patternError,
+  ruleMatches,
+  RuleSubject
+} from '@shared/categorizationRules';
+
+const rule = (id: string, priority: number, overrides: Partial<CategorizationRule> = {}): CategorizationRule => ({
+  id,
+  name: id,
+  priority,
+  enabled: true,
+  conditions: {},
+  actions: {},
+  ...overrides
+});
+
+const subject = (overrides: Partial<RuleSubject> = {}): RuleSubject => ({
+  description: 'SQ *BLUE BOTTLE COFFEE',
+  amount: -4.5,
+  accountId: 'checking',
+  ...overrides
+});
+
+describe('categorization rules', () => {
+  describe('conditions', () => {
+    it('matches the pattern against the merchant name or the description, ignoring case', () => {
+      const coffee = rule('coffee', 1, { conditions: { descriptionPattern: 'peets|blue\\s+bottle' } });
+      expect(ruleMatches(coffee, subject())).toBe(true);
+      expect(ruleMatches(coffee, subject({ description: 'POS 1234', merchantName: 'Blue Bottle' }))).toBe(true);
+      expect(ruleMatches(coffee, subject({ description: 'Starbucks' }))).toBe(false);
+    });
+
+    it('compares absolute amounts inclusively and restricts by account', () => {
+      const mid = rule('mid', 1, { conditions: { minAmount: 4.5, maxAmount: 10, accountIds: ['checking'] } });
+      expect(ruleMatches(mid, subject())).toBe(true);
+      expect(ruleMatches(mid, subject({ amount: 10.01 }))).toBe(false);
+      expect(ruleMatches(mid, subject({ accountId: 'savings' }))).toBe(false);
+    });
+
+    it('matches any level of the Plaid category and never matches without one', () => {
+      const restaurants = rule('restaurants', 1, { conditions: { plaidCategory: 'restaurant' } });
+      expect(ruleMatches(restaurants, subject({ plaidCategories: ['Food and Drink', 'Restaurants', 'Coffee Shop'] }))).toBe(true);
+      expect(ruleMatches(restaurants, subject())).toBe(false);
+    });
+
+    it('rejects patterns that do not compile or are too long', () => {
+      expect(patternError('coffee|tea')).toBeNull();
+      expect(patternError('(unclosed')).not.toBeNull();
+      expect(patternError('a'.repeat(201))).not.toBeNull();
+    });
+
+    it('rejects patterns that could backtrack without bound and keeps ordinary ones', () => {
+      ['(a+)+$', '(a*)*b', '(a|ab)*c', '(\\d+\\s?){2,}', '(.)\\1', `${'a*'.repeat(4)}b`]
+        .forEach(pattern => expect(patternError(pattern)).not.toBeNull());
+      ['^amzn mktp', 'uber\\s*(eats)?', 'blue\\s+bottle|peets', '\\d{4}-\\d{2}', '[(+*]{2}x', 'store #\\d+ (nyc|sf)']
+        .forEach(pattern => expect(patternError(pattern)).toBeNull());
+
+      const started = Date.now();
+      const catastrophic = rule('catastrophic', 1, { conditions: { descriptionPattern: '(a+)+$' } });
+      expect(ruleMatches(catastrophic, subject({ description: `${'a'.repeat(40)}!` }))).toBe(false);
+      expect(Date.now() - started).toBeLessThan(100);
+  });
+  });
+
+  describe('priority', () => {
+    it('lets the first matching rule set each field and adds up tags', () => {
+      const rules = [
+        rule('broad', 20, { conditions: { descriptionPattern: 'coffee' }, actions: { category: 'food', subcategory: 'Coffee', tags: ['coffee'] } }),
+        rule('specific', 10, { conditions: { descriptionPattern: 'blue bottle' }, actions: { category: 'entertainment', tags: ['treat'] } }),
+        rule('disabled', 1, { enabled: false, actions: { hidden: true } })
+      ];
+
+      expect(applyRules(rules, subject())).toEqual({
+        category: 'entertainment',
+        subcategory: 'Coffee',
+        tags: ['treat', 'coffee'],
+        ruleIds: ['specific', 'broad']
+      });
+    });
+
+    it('maps Plaid categories with the built-in rules after the user rules', () => {
+      const plaid = subject({ plaidCategories: ['Transfer', 'Payroll'] });
+      expect(applyRules(BUILT_IN_RULES, plaid).category).toBe('income');
+      expect(applyRules(BUILT_IN_RULES, subject({ plaidCategories: ['Shops', 'Supermarkets and Groceries'] })).category).toBe('food');
+
+      const rent = rule('rent', 5, { conditions: { plaidCategory: 'transfer' }, actions: { category: 'bills', incomeSourceId: 'landlord' } });
+      expect(applyRules([...BUILT_IN_RULES, rent], plaid)).toMatchObject({ category: 'bills', incomeSourceId: 'landlord' });
+    });
+  });
+
+  describe('results', () => {
+    const result = applyRules([rule('r', 1, { actions: { category: 'food', tags: ['coffee'], hidden: true } })], subject());
+
+    it('fills only the gaps of a new transaction, treating other as unchosen', () => {
+      expect(fillFromRules({ category: 'other', tags: ['work'] }, result)).toEqual({ category: 'food', tags: ['work', 'coffee'], hidden: true });
+      expect(fillFromRules({ category: 'bills', hidden: false }, result)).toEqual({ category: 'bills', tags: ['coffee'], hidden: false });
+      expect(fillFromRules({}, applyRules([], subject()), 'income')).toEqual({ category: 'income', tags: [], hidden: false });
+    });
+
+    it('overrides an existing transaction and lists what changed', () => {
+      const before = { category: 'other', subcategory: 'Cafe', tags: ['coffee'], hidden: false };
+      const after = applyRuleResult(before, result);
+      expect(after).toEqual({ category: 'food', subcategory: 'Cafe', tags: ['coffee'], hidden: true });
+      expect(changedFields(before, after)).toEqual(['category', 'hidden']);
+      expect(changedFields(after, applyRuleResult(after, result))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertAmount,
+  createConverter,
+  currencySymbol,
+  formatMoney,
+  FxConversionError,
+  FxRateTable,
+  normalizeCurrencyCode,
+  rebaseRateTable
+} from '@shared/currency';
+
+const table: FxRateTable = {
+  base: 'USD',
+  rates: {
+    '2024-01-02': { EUR: 0.9, GBP: 0.8 },
+    '2024-02-01': { EUR: 0.8 },
+    '2024-03-01': { EUR: 0.95, GBP: 0.75 }
+  }
+};
+
+describe('currency', () => {
+  describe('normalizeCurrencyCode', () => {
+    it('treats missing and malformed codes as dollars', () => {
+      expect(normalizeCurrencyCode(undefined)).toBe('USD');
+      expect(normalizeCurrencyCode(null)).toBe('USD');
+      expect(normalizeCurrencyCode('euro')).toBe('USD');
+    });
+
+    it('upper-cases valid codes', () => {
+      expect(normalizeCurrencyCode(' eur ')).toBe('EUR');
+    });
+  });
+
+  describe('createConverter', () => {
+    const toUsd = createConverter(table, 'USD');
+
+    it('uses the rates of the last date on or before the amount', () => {
+      expect(toUsd(90, 'EUR', '2024-01-15')).toBeCloseTo(100);
+      expect(toUsd(80, 'EUR', '2024-02-01')).toBeCloseTo(100);
+      expect(toUsd(95, 'EUR', '2024-12-31')).toBeCloseTo(100);
+    });
+
+    it('falls back to an earlier date when the nearest one lacks the currency', () => {
+      expect(toUsd(80, 'GBP', '2024-02-10')).toBeCloseTo(100);
+    });
+
+    it('uses the earliest rates for amounts before the table starts', () => {
+      expect(toUsd(90, 'EUR', '2023-06-01')).toBeCloseTo(100);
+    });
+
+    it('crosses through the table base', () => {
+      const toGbp = createConverter(table, 'GBP');
+      expect(toGbp(90, 'EUR', '2024-01-02')).toBeCloseTo(80);
+    });
+
+    it('leaves same-currency amounts untouched', () => {
+      expect(createConverter({ base: 'USD', rates: {} }, 'EUR')(12.34, 'eur', '2024-01-02')).toBe(12.34);
+    });
+
+    it('throws when a currency has no rate', () => {
+      expect(() => toUsd(10, 'JPY', '2024-01-02')).toThrow(FxConversionError);
+    });
+  });
+
+  describe('rebaseRateTable', () => {
+    it('re-expresses rates against another currency', () => {
+      const rebased = rebaseRateTable(table, 'EUR');
+      expect(rebased.base).toBe('EUR');
+      expect(rebased.rates['2024-01-02'].USD).toBeCloseTo(1 / 0.9);
+      expect(rebased.rates['2024-01-02'].GBP).toBeCloseTo(0.8 / 0.9);
+      expect(convertAmount(100, 'USD', 'EUR', '2024-03-01', rebased)).toBeCloseTo(95);
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats amounts in their currency', () => {
+      expect(formatMoney(1234.5, 'EUR')).toBe('€1,234.50');
+      expect(formatMoney(-3, 'USD')).toBe('-$3.00');
+      expect(currencySymbol('GBP')).toBe('£');
+      expect(currencySymbol(undefined)).toBe('$');
+    });
+  });
+});
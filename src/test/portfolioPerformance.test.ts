@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePortfolioPerformance,
+  PerformanceTransaction,
+  PricePoint,
+  resolvePerformanceRange,
+  xirr
+} from '@shared/portfolioPerformance';
+
+let sequence = 0;
+const trade = (type: PerformanceTransaction['type'], date: string, shares: number, price: number, overrides: Partial<PerformanceTransaction> = {}): PerformanceTransaction => ({
+  id: `${type}-${++sequence}`,
+  type,
+  stockSymbol: 'ACME',
+  accountId: 'brokerage',
+  shares,
+  price,
+  fees: 0,
+  totalAmount: shares * price,
+  date,
+  ...overrides
+});
+const closes = (entries: Array<[string, number]>): PricePoint[] => entries.map(([date, close]) => ({ date, close }));
+
+describe('portfolio performance', () => {
+  describe('xirr', () => {
+    it('finds the annual rate of a one-year investment', () => {
+      expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: 1100 }])).toBeCloseTo(0.1, 6);
+    });
+
+    it('needs money both put in and taken out', () => {
+      expect(xirr([{ date: '2023-01-01', amount: -1000 }])).toBeNull();
+    });
+  });
+
+  describe('calculatePortfolioPerformance', () => {
+    const prices = { ACME: closes([['2024-01-01', 100], ['2024-02-01', 110], ['2024-03-01', 121]]) };
+
+    it('removes the timing of deposits from the time-weighted return', () => {
+      const performance = calculatePortfolioPerformance(
+        [trade('buy', '2024-01-01', 10, 100), trade('buy', '2024-02-01', 10, 110)],
+        { startDate: '2024-01-01', endDate: '2024-03-01', prices }
+      );
+      expect(performance.startValue).toBe(1000);
+      expect(performance.endValue).toBe(2420);
+      expect(performance.netFlows).toBe(1100);
+      expect(performance.gain).toBe(320);
+      expect(performance.timeWeightedReturnPercent).toBe(21);
+      expect(performance.points.map(point => point.portfolioIndex)).toEqual([100, 110, 121]);
+      // More money was at work in the second month, so the dollar-weighted rate is above the 10% a month the shares earned
+      expect(performance.moneyWeightedReturnPercent!).toBeGreaterThan(100);
+    });
+
+    it('counts a cash dividend as return and reinvested shares as growth without a cash flow', () => {
+      const flat = { ACME: closes([['2024-01-01', 100], ['2024-06-01', 100]]) };
+      const cash = calculatePortfolioPerformance(
+        [trade('buy', '2024-01-01', 10, 100), trade('dividend', '2024-06-01', 0, 0, { totalAmount: 50 })],
+        { startDate: '2024-01-01', endDate: '2024-06-01', prices: flat }
+      );
+      expect(cash.netFlows).toBe(-50);
+      expect(cash.timeWeightedReturnPercent).toBe(5);
+
+      const reinvested = calculatePortfolioPerformance(
+        [trade('buy', '2024-01-01', 10, 100), trade('dividend', '2024-06-01', 0.5, 100, { totalAmount: 50, reinvested: true })],
+        { startDate: '2024-01-01', endDate: '2024-06-01', prices: flat }
+      );
+      expect(reinvested.netFlows).toBe(0);
+      expect(reinvested.endValue).toBe(1050);
+      expect(reinvested.timeWeightedReturnPercent).toBe(5);
+    });
+
+    it('links holding contributions so they add up to the portfolio return', () => {
+      const performance = calculatePortfolioPerformance(
+        [
+          trade('buy', '2024-01-01', 10, 100),
+          trade('buy', '2024-01-01', 20, 50, { stockSymbol: 'BOLT' }),
+          trade('sell', '2024-02-01', 5, 110)
+        ],
+        {
+          startDate: '2024-01-01',
+          endDate: '2024-03-01',
+          prices: { ...prices, BOLT: closes([['2024-01-01', 50], ['2024-02-01', 45], ['2024-03-01', 60]]) }
+        }
+      );
+      const total = performance.contributions.reduce((sum, row) => sum + row.contributionPercent, 0);
+      expect(total).toBeCloseTo(performance.timeWeightedReturnPercent!, 1);
+      expect(performance.contributions.find(row => row.stockSymbol === 'ACME')).toMatchObject({ returnPercent: 21, netFlows: -550 });
+      expect(performance.contributions.find(row => row.stockSymbol === 'BOLT')).toMatchObject({ returnPercent: 20, gain: 200 });
+    });
+
+    it('moves value to a spin-off without changing the return', () => {
+      const performance = calculatePortfolioPerformance(
+        [
+          trade('buy', '2024-01-01', 10, 100),
+          trade('spin_off', '2024-02-01', 0, 0, { ratio: 0.5, newSymbol: 'SPUN', basisAllocation: 0.2, totalAmount: 0 })
+        ],
+        {
+          startDate: '2024-01-01',
+          endDate: '2024-02-01',
+          prices: { ACME: closes([['2024-01-01', 100], ['2024-02-01', 80]]), SPUN: closes([['2024-02-01', 40]]) }
+        }
+      );
+      expect(performance.endValue).toBe(1000);
+      expect(performance.timeWeightedReturnPercent).toBe(0);
+      expect(performance.contributions.find(row => row.stockSymbol === 'SPUN')).toMatchObject({ netFlows: 200, gain: 0 });
+    });
+
+    it('compares with a benchmark and reports drift from target weights', () => {
+      const performance = calculatePortfolioPerformance(
+        [trade('buy', '2024-01-01', 10, 100), trade('buy', '2024-01-01', 10, 50, { stockSymbol: 'BOLT' })],
+        {
+          startDate: '2024-01-01',
+          endDate: '2024-03-01',
+          prices: { ...prices, BOLT: closes([['2024-01-01', 50]]) },
+          benchmark: { symbol: 'spy', closes: closes([['2023-12-29', 400], ['2024-03-01', 420]]) },
+          targets: { ACME: 50, BOLT: 30, CASHX: 20 }
+        }
+      );
+      expect(performance.benchmark).toEqual({ symbol: 'SPY', returnPercent: 5 });
+      expect(performance.points[performance.points.length - 1].benchmarkIndex).toBe(105);
+      expect(performance.allocation).toEqual([
+        { stockSymbol: 'ACME', value: 1210, currentWeightPercent: 70.76, targetWeightPercent: 50, driftPercent: 20.76, rebalanceAmount: -355 },
+        { stockSymbol: 'BOLT', value: 500, currentWeightPercent: 29.24, targetWeightPercent: 30, driftPercent: -0.76, rebalanceAmount: 13 },
+        { stockSymbol: 'CASHX', value: 0, currentWeightPercent: 0, targetWeightPercent: 20, driftPercent: -20, rebalanceAmount: 342 }
+      ]);
+    });
+
+    it('falls back to the last trade price for symbols without closes', () => {
+      const performance = calculatePortfolioPerformance(
+        [trade('buy', '2024-01-01', 10, 100, { stockSymbol: 'PRIV' })],
+        { startDate: '2023-12-31', endDate: '2024-03-01', prices: {} }
+      );
+      expect(performance.endValue).toBe(1000);
+      expect(performance.unpricedSymbols).toEqual(['PRIV']);
+    });
+  });
+
+  describe('resolvePerformanceRange', () => {
+    it('starts all-time the day before the first transaction', () => {
+      expect(resolvePerformanceRange('all', '2025-06-30', '2024-01-01')).toEqual({ startDate: '2023-12-31', endDate: '2025-06-30' });
+      expect(resolvePerformanceRange('ytd', '2025-06-30')).toEqual({ startDate: '2024-12-31', endDate: '2025-06-30' });
+    });
+  });
+});
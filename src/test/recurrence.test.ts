@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjustForWeekend,
+  expandOccurrences,
+  migrateLegacyFrequency,
+  nextOccurrence,
+  normalizeFrequency,
+  parseRRule,
+  RecurrenceRuleError,
+  toRRule,
+  FrequencyConfig
+} from '@shared/recurrence';
+
+const occurrences = (start: string, frequency: FrequencyConfig, count: number) => {
+  const dates = [start];
+  while (dates.length < count) {
+    dates.push(nextOccurrence(dates[dates.length - 1], frequency));
+  }
+  return dates;
+};
+
+describe('recurrence', () => {
+  describe('nextOccurrence', () => {
+    it('clamps month-end due dates without drifting', () => {
+      expect(occurrences('2026-01-31', { type: 'monthly', interval: 1, dayOfMonth: 31 }, 4))
+        .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    });
+
+    it('honors the interval', () => {
+      expect(occurrences('2026-01-15', { type: 'monthly', interval: 3, dayOfMonth: 15 }, 3))
+        .toEqual(['2026-01-15', '2026-04-15', '2026-07-15']);
+      expect(occurrences('2026-01-05', { type: 'weekly', interval: 2, dayOfWeek: 1 }, 3))
+        .toEqual(['2026-01-05', '2026-01-19', '2026-02-02']);
+    });
+
+    it('lands on the nth weekday when weekOfMonth is set', () => {
+      expect(occurrences('2026-01-13', { type: 'monthly', interval: 1, weekOfMonth: 2, dayOfWeek: 2 }, 3))
+        .toEqual(['2026-01-13', '2026-02-10', '2026-03-10']);
+    });
+
+    it('treats weekOfMonth 5 as the last weekday of the month', () => {
+      expect(nextOccurrence('2026-01-30', { type: 'monthly', interval: 1, weekOfMonth: 5, dayOfWeek: 5 }))
+        .toBe('2026-02-27');
+    });
+  });
+
+  it('rolls weekend dates forward to Monday', () => {
+    expect(adjustForWeekend('2026-10-17')).toBe('2026-10-19');
+    expect(adjustForWeekend('2026-10-18')).toBe('2026-10-19');
+    expect(adjustForWeekend('2026-10-20')).toBe('2026-10-20');
+  });
+
+  describe('expandOccurrences', () => {
+    it('returns occurrences inside the range and stops at endDate', () => {
+      const rule: FrequencyConfig = { type: 'weekly', interval: 1, dayOfWeek: 5, endDate: '2026-03-20' };
+      expect(expandOccurrences(rule, '2026-02-27', '2026-03-01', '2026-03-31').map(o => o.date))
+        .toEqual(['2026-03-06', '2026-03-13', '2026-03-20']);
+    });
+
+    it('reports the shifted date for weekend occurrences', () => {
+      const rule: FrequencyConfig = { type: 'monthly', interval: 1, dayOfMonth: 1, skipWeekends: true };
+      expect(expandOccurrences(rule, '2026-03-01', '2026-03-01', '2026-03-31'))
+        .toEqual([{ scheduledDate: '2026-03-01', date: '2026-03-02' }]);
+    });
+
+    it('expands legacy string frequencies', () => {
+      expect(expandOccurrences('Quarterly', '2026-01-10', '2026-01-01', '2026-12-31').map(o => o.date))
+        .toEqual(['2026-01-10', '2026-04-10', '2026-07-10', '2026-10-10']);
+    });
+  });
+
+  it('migrates legacy string frequencies', () => {
+    expect(migrateLegacyFrequency('Monthly')).toEqual({ type: 'monthly', interval: 1 });
+    expect(migrateLegacyFrequency('bi-weekly')).toEqual({ type: 'weekly', interval: 2 });
+    expect(migrateLegacyFrequency('Every other Tuesday'))
+      .toEqual({ type: 'custom', interval: 1, customDescription: 'Every other Tuesday' });
+  });
+
+  describe('normalizeFrequency', () => {
+    it('pins a legacy month-end series to its anchor day so it returns after a short month', () => {
+      const rule = normalizeFrequency('Monthly', '2025-01-31');
+      expect(rule).toEqual({ type: 'monthly', interval: 1, dayOfMonth: 31 });
+      expect(occurrences('2025-01-31', rule, 4)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+      expect(toRRule(rule)).toBe('FREQ=MONTHLY;BYMONTHDAY=-1');
+      expect(expandOccurrences('Monthly', '2025-01-31', '2025-01-01', '2025-04-30').map(o => o.date))
+        .toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    });
+
+    it('pins yearly rules to the anchor month and keeps a day the rule already names', () => {
+      expect(normalizeFrequency('Annually', '2024-02-29')).toEqual({ type: 'yearly', interval: 1, dayOfMonth: 29, monthOfYear: 2 });
+      expect(normalizeFrequency({ type: 'monthly', interval: 1, dayOfMonth: 15 }, '2025-01-31'))
+        .toEqual({ type: 'monthly', interval: 1, dayOfMonth: 15 });
+      expect(normalizeFrequency({ type: 'monthly', interval: 1, weekOfMonth: 2, dayOfWeek: 2 }, '2025-01-31'))
+        .toEqual({ type: 'monthly', interval: 1, weekOfMonth: 2, dayOfWeek: 2 });
+    });
+  });
+
+  describe('RRULE', () => {
+    it('round-trips supported rules', () => {
+      const rules: FrequencyConfig[] = [
+        { type: 'weekly', interval: 2, dayOfWeek: 1 },
+        { type: 'monthly', interval: 1, weekOfMonth: 2, dayOfWeek: 2 },
+        { type: 'monthly', interval: 1, weekOfMonth: 5, dayOfWeek: 5 },
+        { type: 'monthly', interval: 3, dayOfMonth: 30, endDate: '2027-12-31' },
+        { type: 'yearly', interval: 1, monthOfYear: 4, dayOfMonth: 15 }
+      ];
+      rules.forEach(rule => expect(parseRRule(toRRule(rule))).toEqual(rule));
+    });
+
+    it('serializes to RFC 5545 parts', () => {
+      expect(toRRule({ type: 'monthly', interval: 1, weekOfMonth: 5, dayOfWeek: 5, endDate: '2026-12-31' }))
+        .toBe('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231');
+      expect(toRRule({ type: 'monthly', interval: 1, dayOfMonth: 31 })).toBe('FREQ=MONTHLY;BYMONTHDAY=-1');
+    });
+
+    it('converts COUNT to an end date', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=3', '2026-01-05'))
+        .toEqual({ type: 'weekly', interval: 1, dayOfWeek: 1, endDate: '2026-01-19' });
+    });
+
+    it('rejects rules the app cannot represent', () => {
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=MO,WE')).toThrow(RecurrenceRuleError);
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow(RecurrenceRuleError);
+      expect(() => parseRRule('FREQ=DAILY;COUNT=5')).toThrow('COUNT requires the series start date');
+      expect(() => toRRule({ type: 'custom', interval: 1 })).toThrow(RecurrenceRuleError);
+    });
+  });
+});
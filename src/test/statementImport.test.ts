@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CsvColumnMapping,
+  detectStatementFormat,
+  findDuplicates,
+  parseCsvRecords,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  signedStatementAmount,
+  StatementFormatError,
+  StatementRow,
+  toTransactionType
+} from '@shared/statementImport';
+
+const mapping = (overrides: Partial<CsvColumnMapping> = {}): CsvColumnMapping => ({
+  delimiter: ',',
+  dateColumn: 'Date',
+  descriptionColumn: 'Description',
+  amountColumn: 'Amount',
+  dateFormat: 'MM/DD/YYYY',
+  ...overrides
+});
+
+const row = (line: number, date: string, amount: number, description: string, fitId?: string): StatementRow => ({
+  line,
+  date,
+  amount,
+  description,
+  ...(fitId && { fitId })
+});
+
+describe('statement import', () => {
+  describe('values', () => {
+    it('reads dates in each format and rejects impossible ones', () => {
+      expect(parseStatementDate('2024-03-05', 'YYYY-MM-DD')).toBe('2024-03-05');
+      expect(parseStatementDate('3/5/2024', 'MM/DD/YYYY')).toBe('2024-03-05');
+      expect(parseStatementDate('05.03.2024', 'DD/MM/YYYY')).toBe('2024-03-05');
+      expect(parseStatementDate("3/5'24", 'MM/DD/YYYY')).toBe('2024-03-05');
+      expect(parseStatementDate('02/30/2024', 'MM/DD/YYYY')).toBeNull();
+      expect(parseStatementDate('yesterday', 'MM/DD/YYYY')).toBeNull();
+    });
+
+    it('reads amounts with symbols, separators and accounting negatives', () => {
+      expect(parseStatementAmount('$1,234.56')).toBe(1234.56);
+      expect(parseStatementAmount('(45.00)')).toBe(-45);
+      expect(parseStatementAmount('12.50-')).toBe(-12.5);
+      expect(parseStatementAmount('-7,25')).toBe(-7.25);
+      expect(parseStatementAmount('n/a')).toBeNull();
+    });
+
+    it('reads European amounts and rejects grouping that does not fit the decimal mark', () => {
+      expect(parseStatementAmount('1.234,56')).toBe(1234.56);
+      expect(parseStatementAmount('-1.234.567')).toBe(-1234567);
+      expect(parseStatementAmount('1.234', ',')).toBe(1234);
+      expect(parseStatementAmount('1.234,56', '.')).toBeNull();
+      expect(parseStatementAmount('12,3456')).toBeNull();
+    });
+  });
+
+  describe('CSV', () => {
+    it('handles quoted fields with delimiters, quotes and line breaks', () => {
+      const records = parseCsvRecords('a,b\r\n"x, y","say ""hi""\nthere"\n\nlast,row\n');
+      expect(records).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 2, fields: ['x, y', 'say "hi"\nthere'] },
+        { line: 5, fields: ['last', 'row'] }
+      ]);
+    });
+
+    it('maps columns by header name and reports rows it cannot read', () => {
+      const csv = [
+        'Date,Description,Amount,Ref',
+        '01/15/2024,Coffee Shop,-4.50,A1',
+        '01/16/2024,Payroll,"2,000.00",A2',
+        '13/45/2024,Broken,1.00,A3',
+        '01/17/2024,No amount,,A4'
+      ].join('\n');
+
+      const statement = parseCsvStatement(csv, mapping({ referenceColumn: 'ref' }));
+      expect(statement.headers).toEqual(['Date', 'Description', 'Amount', 'Ref']);
+      expect(statement.rows).toEqual([
+        { line: 2, date: '2024-01-15', amount: -4.5, description: 'Coffee Shop', fitId: 'A1' },
+        { line: 3, date: '2024-01-16', amount: 2000, description: 'Payroll', fitId: 'A2' }
+      ]);
+      expect(statement.errors.map(error => error.line)).toEqual([4, 5]);
+    });
+
+    it('reads amounts with the mapping\'s decimal comma and reports ones it cannot read', () => {
+      const csv = 'Datum;Beschreibung;Betrag\n2024-03-01;Miete;-1.234,56\n2024-03-02;Gehalt;2.500\n2024-03-03;Kaffee;3,5,0\n';
+      const statement = parseCsvStatement(csv, mapping({
+        delimiter: ';',
+        dateColumn: 'Datum',
+        descriptionColumn: 'Beschreibung',
+        amountColumn: 'Betrag',
+        dateFormat: 'YYYY-MM-DD',
+        decimalSeparator: ','
+      }));
+      expect(statement.rows.map(row => row.amount)).toEqual([-1234.56, 2500]);
+      expect(statement.errors).toEqual([{ line: 4, message: 'The row has no readable amount' }]);
+    });
+
+    it('combines debit and credit columns and can invert amounts', () => {
+      const csv = 'Posted;Payee;Out;In\n2024-02-01;Rent;1200;\n2024-02-02;Refund;;15\n';
+      const statement = parseCsvStatement(csv, mapping({
+        delimiter: ';',
+        dateColumn: 'Posted',
+        descriptionColumn: 'Payee',
+        amountColumn: undefined,
+        debitColumn: 'Out',
+        creditColumn: 'In',
+        dateFormat: 'YYYY-MM-DD'
+      }));
+      expect(statement.rows.map(r => r.amount)).toEqual([-1200, 15]);
+
+      const inverted = parseCsvStatement('Date,Description,Amount\n01/03/2024,Charge,25.00\n', mapping({ invertAmounts: true }));
+      expect(inverted.rows[0].amount).toBe(-25);
+    });
+
+    it('rejects a mapping that names a missing column', () => {
+      expect(() => parseCsvStatement('Date,Amount\n01/01/2024,1\n', mapping())).toThrow(StatementFormatError);
+    });
+  });
+
+  describe('OFX and QIF', () => {
+    it('reads SGML OFX without closing tags on leaf elements, numbering rows by position', () => {
+      const ofx = [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        '',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20240115120000.000[-5:EST]',
+        '<TRNAMT>-4.50',
+        '<FITID>20240115001',
+        '<NAME>COFFEE SHOP &amp; BAKERY',
+        '<MEMO>POS PURCHASE',
+        '</STMTTRN>',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20240116',
+        '<TRNAMT>2000.00',
+        '<FITID>20240116001',
+        '<NAME>PAYROLL',
+        '</STMTTRN>',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+      ].join('\n');
+
+      expect(parseOfxStatement(ofx).rows).toEqual([
+        { line: 1, date: '2024-01-15', amount: -4.5, description: 'COFFEE SHOP & BAKERY', memo: 'POS PURCHASE', fitId: '20240115001' },
+        { line: 2, date: '2024-01-16', amount: 2000, description: 'PAYROLL', fitId: '20240116001' }
+      ]);
+    });
+
+    it('reads XML OFX with every transaction on one line', () => {
+      const ofx = '<?xml version="1.0"?><OFX><STMTTRN><DTPOSTED>20240116</DTPOSTED><TRNAMT>-9</TRNAMT><FITID>X1</FITID><NAME>Lunch</NAME></STMTTRN>'
+        + '<STMTTRN><DTPOSTED>20240117</DTPOSTED><TRNAMT>-12.5</TRNAMT><FITID>X2</FITID><NAME>Dinner</NAME></STMTTRN></OFX>';
+      expect(parseOfxStatement(ofx).rows.map(r => [r.line, r.fitId, r.amount])).toEqual([[1, 'X1', -9], [2, 'X2', -12.5]]);
+    });
+
+    it('reads QIF bank records and skips account lists', () => {
+      const qif = [
+        '!Account',
+        'NChecking',
+        'TBank',
+        '^',
+        '!Type:Bank',
+        "D1/15'24",
+        'T-4.50',
+        'PCoffee Shop',
+        'LDining',
+        '^',
+        'D01/16/2024',
+        'U2,000.00',
+        'PPayroll',
+        'MJanuary',
+        '^'
+      ].join('\n');
+
+      const statement = parseQifStatement(qif);
+      expect(statement.rows).toEqual([
+        { line: 6, date: '2024-01-15', amount: -4.5, description: 'Coffee Shop' },
+        { line: 11, date: '2024-01-16', amount: 2000, description: 'Payroll', memo: 'January' }
+      ]);
+      expect(() => parseQifStatement('!Type:Invst\nD1/1/24\nNBuy\n^\n')).toThrow(StatementFormatError);
+    });
+
+    it('detects the format from the extension or the contents', () => {
+      expect(detectStatementFormat('statement.QFX', '')).toBe('ofx');
+      expect(detectStatementFormat('export.txt', '!Type:CCard\n')).toBe('qif');
+      expect(detectStatementFormat('download', 'OFXHEADER:100\n<OFX>')).toBe('ofx');
+      expect(detectStatementFormat('download', 'Date,Amount\n')).toBe('csv');
+    });
+  });
+
+  describe('transaction types', () => {
+    it('records money in as income for banks and as a payment for credit cards', () => {
+      expect(toTransactionType(-10, 'bank')).toBe('expense');
+      expect(toTransactionType(10, 'bank')).toBe('income');
+      expect(toTransactionType(-10, 'credit')).toBe('expense');
+      expect(toTransactionType(10, 'credit')).toBe('payment');
+      expect(signedStatementAmount('expense', 10, 'credit')).toBe(-10);
+      expect(signedStatementAmount('payment', 10, 'credit')).toBe(10);
+      expect(signedStatementAmount('transfer', 10, 'bank')).toBe(-10);
+    });
+  });
+
+  describe('duplicates', () => {
+    it('matches by FITID first, then by date, amount and description', () => {
+      const existing = [
+        { id: 't1', date: '2024-01-15', amount: -4.5, description: 'Coffee Shop', fitId: 'A1' },
+        { id: 't2', date: '2024-01-16', amount: 2000, description: 'PAYROLL ' }
+      ];
+      const rows = [
+        row(2, '2024-01-15', -4.5, 'Coffee Shop', 'A1'),
+        row(3, '2024-01-16', 2000, 'Payroll', 'A2'),
+        row(4, '2024-01-17', -9, 'Lunch', 'A3')
+      ];
+
+      const checks = findDuplicates(rows, existing);
+      expect(checks.get(2)).toEqual({ duplicateOf: 't1', reason: 'fitid' });
+      expect(checks.get(3)).toEqual({ duplicateOf: 't2', reason: 'date_amount_description' });
+      expect(checks.get(4)).toBeNull();
+    });
+
+    it('lets each existing transaction absorb one row and keeps distinct FITIDs apart', () => {
+      const existing = [
+        { id: 't1', date: '2024-01-15', amount: -4.5, description: 'Coffee' },
+        { id: 't2', date: '2024-01-20', amount: -30, description: 'Gas', fitId: 'G1' }
+      ];
+      const rows = [
+        row(1, '2024-01-15', -4.5, 'Coffee'),
+        row(2, '2024-01-15', -4.5, 'Coffee'),
+        row(3, '2024-01-20', -30, 'Gas', 'G2'),
+        row(4, '2024-01-20', -30, 'Gas', 'G2')
+      ];
+
+      const checks = findDuplicates(rows, existing);
+      expect(checks.get(1)).toEqual({ duplicateOf: 't1', reason: 'date_amount_description' });
+      expect(checks.get(2)).toBeNull();
+      expect(checks.get(3)).toBeNull();
+      expect(checks.get(4)).toEqual({ duplicateOf: null, reason: 'repeated_in_file' });
+    });
+  });
+});
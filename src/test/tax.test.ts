@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBracketTax,
+  estimateFederalTax,
+  getStandardDeduction,
+  getTaxYearRules,
+  TaxEstimateInput,
+  UnsupportedTaxYearError
+} from '@shared/tax';
+
+const form = (overrides: Partial<TaxEstimateInput> = {}): TaxEstimateInput => ({
+  taxYear: 2025,
+  filingStatus: 'single',
+  ...overrides
+});
+
+const wages = (amount: number, federalTaxWithheld = 0) => ({
+  w2Income: [{ wages: amount, socialSecurityWages: amount, federalTaxWithheld }]
+});
+
+describe('tax', () => {
+  describe('rules', () => {
+    it('looks up standard deductions by year and filing status', () => {
+      expect(getStandardDeduction(2024, 'single')).toBe(14600);
+      expect(getStandardDeduction(2024, 'married_jointly')).toBe(29200);
+      expect(getStandardDeduction(2025, 'head_of_household')).toBe(23625);
+      expect(getStandardDeduction(2025, 'qualifying_widow')).toBe(31500);
+    });
+
+    it('falls back to the newest rules for later years and rejects earlier ones', () => {
+      expect(getTaxYearRules(2027).year).toBe(2025);
+      expect(() => getTaxYearRules(2019)).toThrow(UnsupportedTaxYearError);
+    });
+
+    it('applies each bracket rate only to income inside it', () => {
+      expect(calculateBracketTax(64250, getTaxYearRules(2025).brackets.single)).toBeCloseTo(9049, 2);
+      expect(calculateBracketTax(0, getTaxYearRules(2025).brackets.single)).toBe(0);
+    });
+  });
+
+  describe('estimateFederalTax', () => {
+    it('taxes wages through the brackets after the standard deduction', () => {
+      const estimate = estimateFederalTax(form({ incomeData: wages(80000, 9000) }));
+
+      expect(estimate.taxableIncome).toBe(64250);
+      expect(estimate.totalTax).toBe(9049);
+      expect(estimate.refundAmount).toBe(-49);
+      expect(estimate.marginalRate).toBe(0.22);
+      expect(estimate.effectiveTaxRate).toBe(11.31);
+      expect(estimate.rulesVersion).toBe('2025.2');
+    });
+
+    it('adds self-employment tax and deducts half of it', () => {
+      const estimate = estimateFederalTax(form({ incomeData: { selfEmploymentIncome: [{ netProfit: 50000 }] } }));
+
+      expect(estimate.selfEmploymentTax).toBe(7064.78);
+      expect(estimate.adjustments).toBe(3532.39);
+      expect(estimate.totalTax).toBe(10512.39);
+    });
+
+    it('stops the social security part of self-employment tax at the wage base', () => {
+      const estimate = estimateFederalTax(form({
+        incomeData: { ...wages(170000), selfEmploymentIncome: [{ netProfit: 20000 }] }
+      }));
+
+      expect(estimate.selfEmploymentTax).toBe(1292.03);
+    });
+
+    it('phases out the child tax credit by $50 per $1,000 over the threshold', () => {
+      const estimate = estimateFederalTax(form({
+        filingStatus: 'married_jointly',
+        incomeData: wages(410500),
+        creditsData: { childTaxCredit: { qualifyingChildren: ['a', 'b'] } }
+      }));
+
+      expect(estimate.childTaxCredit).toBe(3850);
+    });
+
+    it('refunds part of the child tax credit based on earned income', () => {
+      const estimate = estimateFederalTax(form({
+        filingStatus: 'head_of_household',
+        incomeData: wages(20000),
+        creditsData: { childTaxCredit: { qualifyingChildren: ['a', 'b'] } }
+      }));
+
+      expect(estimate.taxLiability).toBe(0);
+      expect(estimate.additionalChildTaxCredit).toBe(2625);
+      expect(estimate.refundAmount).toBe(2625);
+    });
+
+    it('skips children who are too old for the child tax credit', () => {
+      const estimate = estimateFederalTax(form({
+        personalInfo: { dependents: [{ id: 'a', dateOfBirth: '2005-05-01' }] },
+        incomeData: wages(80000),
+        creditsData: { childTaxCredit: { qualifyingChildren: ['a'] } }
+      }));
+
+      expect(estimate.childTaxCredit).toBe(0);
+    });
+
+    it('stacks long-term gains on top of ordinary income', () => {
+      const low = estimateFederalTax(form({ incomeData: { ...wages(40000), capitalGains: { longTermGains: 20000 } } }));
+      expect(low.capitalGainsTax).toBe(0);
+      expect(low.totalTax).toBe(2671.5);
+
+      const high = estimateFederalTax(form({ incomeData: { ...wages(100000), capitalGains: { longTermGains: 20000 } } }));
+      expect(high.capitalGainsTax).toBe(3000);
+      expect(high.ordinaryIncomeTax).toBe(13449);
+    });
+
+    it('limits deductible capital losses', () => {
+      const estimate = estimateFederalTax(form({ incomeData: { ...wages(80000), capitalGains: { shortTermGains: -10000 } } }));
+
+      expect(estimate.totalIncome).toBe(77000);
+    });
+
+    it('leaves social security benefits untaxed at low provisional income', () => {
+      const estimate = estimateFederalTax(form({ incomeData: { socialSecurityBenefits: 20000 } }));
+
+      expect(estimate.totalIncome).toBe(0);
+    });
+
+    it('adds the age-based deductions for taxpayers 65 or older', () => {
+      const estimate = estimateFederalTax(form({
+        personalInfo: { dateOfBirth: '1955-01-01' },
+        incomeData: wages(50000)
+      }));
+
+      expect(estimate.standardDeduction).toBe(17750);
+      expect(estimate.deduction).toBe(23750);
+      expect(estimate.taxableIncome).toBe(26250);
+    });
+
+    it('caps state and local taxes when itemizing', () => {
+      const estimate = estimateFederalTax(form({
+        taxYear: 2024,
+        incomeData: wages(150000),
+        deductionsData: { deductionType: 'itemized', itemizedDeductions: { stateAndLocalTaxes: 15000, mortgageInterest: 12000 } }
+      }));
+
+      expect(estimate.itemizedDeduction).toBe(22000);
+      expect(estimate.deduction).toBe(22000);
+    });
+  });
+});
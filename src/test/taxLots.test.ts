@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { buildDividendIncome, buildForm8949, buildLotLedger, isLongTerm, LotTransaction, summarizeHoldings, TaxLotError } from '@shared/taxLots';
+
+let sequence = 0;
+const buy = (date: string, shares: number, price: number, overrides: Partial<LotTransaction> = {}): LotTransaction => ({
+  id: `buy-${++sequence}`,
+  type: 'buy',
+  stockSymbol: 'ACME',
+  accountId: 'brokerage',
+  shares,
+  price,
+  fees: 0,
+  date,
+  ...overrides
+});
+const sell = (date: string, shares: number, price: number, overrides: Partial<LotTransaction> = {}): LotTransaction =>
+  buy(date, shares, price, { id: `sell-${++sequence}`, type: 'sell', ...overrides });
+
+describe('tax lots', () => {
+  describe('isLongTerm', () => {
+    it('needs more than a year', () => {
+      expect(isLongTerm('2024-03-15', '2025-03-15')).toBe(false);
+      expect(isLongTerm('2024-03-15', '2025-03-16')).toBe(true);
+    });
+  });
+
+  describe('buildLotLedger', () => {
+    const history = () => [
+      buy('2024-01-10', 10, 100, { id: 'old', fees: 10 }),
+      buy('2025-02-01', 10, 150, { id: 'new' })
+    ];
+
+    it('sells the oldest shares first under FIFO', () => {
+      const { gains, lots } = buildLotLedger([...history(), sell('2025-06-01', 5, 200, { fees: 5 })]);
+      expect(gains).toHaveLength(1);
+      expect(gains[0]).toMatchObject({ lotId: 'old', shares: 5, proceeds: 995, costBasis: 505, gain: 490, term: 'long' });
+      expect(lots.map(lot => [lot.id, lot.remainingShares, lot.costBasis])).toEqual([['old', 5, 505], ['new', 10, 1500]]);
+    });
+
+    it('sells the newest shares first under LIFO', () => {
+      const { gains } = buildLotLedger([...history(), sell('2025-06-01', 12, 200, { costBasisMethod: 'lifo' })]);
+      expect(gains.map(gain => [gain.lotId, gain.shares, gain.costBasis, gain.term])).toEqual([
+        ['new', 10, 1500, 'short'],
+        ['old', 2, 202, 'long']
+      ]);
+    });
+
+    it('sells the lots the user picked under specific ID', () => {
+      const { gains } = buildLotLedger([
+        ...history(),
+        sell('2025-06-01', 4, 200, { costBasisMethod: 'specific_id', lotSelections: [{ lotId: 'new', shares: 3 }, { lotId: 'old', shares: 1 }] })
+      ]);
+      expect(gains.map(gain => [gain.lotId, gain.shares])).toEqual([['new', 3], ['old', 1]]);
+    });
+
+    it('rejects a selection that does not add up to the sale', () => {
+      const sale = sell('2025-06-01', 4, 200, { costBasisMethod: 'specific_id', lotSelections: [{ lotId: 'new', shares: 3 }] });
+      expect(() => buildLotLedger([...history(), sale])).toThrow(TaxLotError);
+    });
+
+    it('gives every share the average basis under average cost', () => {
+      const { gains, lots } = buildLotLedger([...history(), sell('2025-06-01', 10, 200, { costBasisMethod: 'average_cost' })]);
+      expect(gains).toEqual([expect.objectContaining({ lotId: 'old', shares: 10, costBasis: 1255, term: 'long' })]);
+      expect(lots).toEqual([expect.objectContaining({ id: 'new', costBasis: 1255 })]);
+    });
+
+    it('rejects selling more shares than are held in the account', () => {
+      const elsewhere = buy('2025-01-01', 50, 10, { accountId: 'ira' });
+      expect(() => buildLotLedger([...history(), elsewhere, sell('2025-06-01', 21, 200)])).toThrow(/exceeds the 20 shares held/);
+    });
+  });
+
+  describe('wash sales', () => {
+    it('moves a disallowed loss and the holding period into shares bought within 30 days', () => {
+      const { gains, lots } = buildLotLedger([
+        buy('2025-01-02', 10, 100, { id: 'first' }),
+        sell('2025-03-01', 10, 80, { id: 'loss' }),
+        buy('2025-03-15', 10, 85, { id: 'replacement', accountId: 'ira' })
+      ]);
+
+      expect(gains[0]).toMatchObject({ gain: 0, washSaleDisallowed: 200, replacementLotIds: ['replacement'] });
+      expect(lots).toEqual([expect.objectContaining({
+        id: 'replacement',
+        costBasis: 1050,
+        washSaleOf: 'loss',
+        holdingPeriodStart: '2025-01-16'
+      })]);
+    });
+
+    it('disallows only the share of the loss that was replaced, splitting the replacement lot', () => {
+      const { gains, lots } = buildLotLedger([
+        buy('2025-01-02', 10, 100, { id: 'first' }),
+        buy('2025-02-20', 20, 90, { id: 'second', accountId: 'other' }),
+        sell('2025-03-01', 10, 80, { id: 'loss' }),
+        sell('2025-04-15', 5, 95, { id: 'trim', accountId: 'other' })
+      ]);
+
+      // Ten of the twenty shares bought nine days earlier replace the sold ones
+      expect(gains[0]).toMatchObject({ gain: 0, washSaleDisallowed: 200, replacementLotIds: ['second:loss'] });
+      expect(lots.map(lot => [lot.id, lot.remainingShares, lot.costBasis])).toEqual([
+        ['second', 5, 450],
+        ['second:loss', 10, 1100]
+      ]);
+      expect(gains[1]).toMatchObject({ lotId: 'second', shares: 5, gain: 25, washSaleDisallowed: 0 });
+    });
+
+    it('leaves losses alone when nothing was bought within the window', () => {
+      const { gains } = buildLotLedger([
+        buy('2025-01-02', 10, 100),
+        sell('2025-03-01', 10, 80),
+        buy('2025-04-01', 10, 85)
+      ]);
+      expect(gains[0]).toMatchObject({ gain: -200, washSaleDisallowed: 0 });
+    });
+  });
+
+  describe('dividends and corporate actions', () => {
+    const event = (type: LotTransaction['type'], date: string, overrides: Partial<LotTransaction> = {}) =>
+      buy(date, 0, 0, { id: `${type}-${++sequence}`, type, ...overrides });
+
+    it('opens a lot for reinvested dividends but not for cash ones', () => {
+      const { lots } = buildLotLedger([
+        buy('2025-01-02', 10, 100, { id: 'first' }),
+        event('dividend', '2025-03-01'),
+        event('dividend', '2025-06-01', { id: 'drip', reinvested: true, shares: 0.5, price: 110 })
+      ]);
+      expect(lots.map(lot => [lot.id, lot.shares, lot.costBasis, lot.acquiredDate])).toEqual([
+        ['first', 10, 1000, '2025-01-02'],
+        ['drip', 0.5, 55, '2025-06-01']
+      ]);
+    });
+
+    it('scales shares but not basis on splits and reverse splits', () => {
+      const { lots, gains } = buildLotLedger([
+        buy('2024-01-02', 10, 100, { id: 'first' }),
+        event('split', '2024-06-01', { ratio: 4 }),
+        buy('2024-07-01', 10, 30, { id: 'after' }),
+        event('split', '2025-01-02', { ratio: 0.1 }),
+        sell('2025-03-01', 3, 400)
+      ]);
+      expect(gains).toEqual([expect.objectContaining({ lotId: 'first', shares: 3, costBasis: 750, term: 'long' })]);
+      expect(lots.map(lot => [lot.id, lot.remainingShares, lot.costBasis])).toEqual([['first', 1, 250], ['after', 1, 300]]);
+    });
+
+    it('moves part of the basis into spun-off shares that keep the holding period', () => {
+      const { lots } = buildLotLedger([
+        buy('2024-01-02', 10, 100, { id: 'parent' }),
+        event('spin_off', '2025-04-01', { id: 'spin', newSymbol: 'newco', ratio: 0.5, basisAllocation: 0.2 })
+      ]);
+      expect(lots).toEqual([
+        expect.objectContaining({ id: 'parent', stockSymbol: 'ACME', remainingShares: 10, costBasis: 800 }),
+        expect.objectContaining({ id: 'parent:spin', stockSymbol: 'NEWCO', remainingShares: 5, costBasis: 200, holdingPeriodStart: '2024-01-02', spunOffFrom: 'parent' })
+      ]);
+      expect(summarizeHoldings(lots)).toEqual([
+        { stockSymbol: 'ACME', accountId: 'brokerage', shares: 10, costBasis: 800 },
+        { stockSymbol: 'NEWCO', accountId: 'brokerage', shares: 5, costBasis: 200 }
+      ]);
+    });
+
+    it('carries lots over to the new symbol and sells them under it', () => {
+      const { lots, gains } = buildLotLedger([
+        buy('2024-01-02', 10, 100, { id: 'first' }),
+        event('symbol_change', '2024-09-01', { newSymbol: 'ACMX' }),
+        sell('2025-03-01', 4, 150, { stockSymbol: 'ACMX' })
+      ]);
+      expect(gains).toEqual([expect.objectContaining({ lotId: 'first', stockSymbol: 'ACMX', shares: 4, gain: 200 })]);
+      expect(lots).toEqual([expect.objectContaining({ id: 'first', stockSymbol: 'ACMX', remainingShares: 6 })]);
+    });
+
+    it('rejects corporate actions on shares that were not held', () => {
+      const split = event('split', '2024-01-01', { ratio: 2 });
+      expect(() => buildLotLedger([buy('2024-01-02', 10, 100), split])).toThrow(/No ACME shares were held/);
+    });
+
+    it('sums the year\'s dividends per symbol for the 1099-DIV', () => {
+      const dividend = (date: string, totalAmount: number, overrides: Record<string, unknown> = {}) =>
+        ({ id: `div-${++sequence}`, type: 'dividend' as const, stockSymbol: 'acme', stockName: 'Acme Corp', date, totalAmount, ...overrides });
+
+      const summary = buildDividendIncome([
+        dividend('2024-12-15', 99),
+        dividend('2025-03-15', 12.5, { qualified: true }),
+        dividend('2025-06-15', 12.5, { qualified: true, reinvested: true }),
+        dividend('2025-06-20', 3, { stockSymbol: 'BOND', stockName: 'Bond Fund' }),
+        { ...dividend('2025-07-01', 500), type: 'sell' as const }
+      ], 2025);
+
+      expect(summary.rows).toEqual([
+        expect.objectContaining({ stockSymbol: 'ACME', stockName: 'Acme Corp', ordinaryDividends: 25, qualifiedDividends: 25, reinvestedDividends: 12.5 }),
+        expect.objectContaining({ stockSymbol: 'BOND', ordinaryDividends: 3, qualifiedDividends: 0 })
+      ]);
+      expect(summary.totals).toEqual({ ordinaryDividends: 28, qualifiedDividends: 25, reinvestedDividends: 12.5 });
+    });
+  });
+
+  describe('buildForm8949', () => {
+    it('splits the year into short- and long-term parts with wash sale adjustments', () => {
+      const { gains } = buildLotLedger([
+        buy('2023-05-01', 10, 50, { id: 'held' }),
+        buy('2025-01-02', 10, 100, { id: 'first' }),
+        sell('2024-06-01', 2, 60),
+        sell('2025-03-01', 10, 80, { id: 'loss', costBasisMethod: 'lifo' }),
+        buy('2025-03-20', 4, 85),
+        sell('2025-07-01', 8, 70, { costBasisMethod: 'specific_id', lotSelections: [{ lotId: 'held', shares: 8 }] })
+      ]);
+
+      const report = buildForm8949(gains, 2025);
+      expect(report.shortTerm.rows).toEqual([expect.objectContaining({
+        description: '10 sh ACME',
+        dateAcquired: '2025-01-02',
+        dateSold: '2025-03-01',
+        proceeds: 800,
+        costBasis: 1000,
+        adjustmentCode: 'W',
+        adjustment: 80,
+        gain: -120
+      })]);
+      expect(report.longTerm.totals).toEqual({ proceeds: 560, costBasis: 400, adjustment: 0, gain: 160 });
+      expect(report.capitalGains).toEqual({ shortTermGains: -120, longTermGains: 160 });
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { applyForm8949, applyTaxPrefillProposal } from '@/lib/taxPrefill';
+import { TaxFormData, TaxPrefillProposal } from '@/types/tax';
+
+const base = {
+  taxYear: 2025,
+  amount: 0,
+  confidence: 'medium' as const,
+  sources: [],
+  status: 'accepted' as const
+};
+
+const form: Partial<TaxFormData> = {
+  taxYear: 2025,
+  incomeData: {
+    w2Income: [],
+    form1099Income: [],
+    selfEmploymentIncome: [],
+    retirementIncome: [],
+    unemploymentCompensation: 0,
+    socialSecurityBenefits: 0,
+    otherIncome: []
+  },
+  deductionsData: {
+    deductionType: 'standard',
+    adjustments: {
+      educatorExpenses: 0,
+      hsa_contributions: 0,
+      movingExpenses: 0,
+      selfEmploymentTax: 0,
+      studentLoanInterest: 0,
+      tuitionAndFees: 0
+    }
+  }
+};
+
+const w2: TaxPrefillProposal = {
+  ...base,
+  id: 'w2-proposal',
+  kind: 'w2Income',
+  summary: 'W-2 from Acme',
+  transactionIds: ['t1', 't2'],
+  entry: {
+    id: 'w2-proposal',
+    employer: 'Acme',
+    ein: '',
+    wages: 52000,
+    federalTaxWithheld: 0,
+    socialSecurityWages: 52000,
+    socialSecurityTaxWithheld: 0,
+    medicareWages: 52000,
+    medicareTaxWithheld: 0,
+    stateTaxWithheld: 0,
+    stateWages: 52000,
+    state: '',
+    sourceTransactionIds: ['t1', 't2']
+  }
+};
+
+const expense = (id: string, amount: number): TaxPrefillProposal => ({
+  ...base,
+  id,
+  kind: 'businessExpense',
+  businessName: 'Design Studio',
+  summary: `Expense ${id}`,
+  transactionIds: [id],
+  entry: { id, category: 'shopping', description: 'Supplies', amount, dateIncurred: '2025-03-01', sourceTransactionIds: [id] }
+});
+
+describe('applyTaxPrefillProposal', () => {
+  it('adds income entries with their source transactions only once', () => {
+    const once = applyTaxPrefillProposal(form, w2);
+    const twice = applyTaxPrefillProposal(once, w2);
+
+    expect(twice.incomeData?.w2Income).toHaveLength(1);
+    expect(twice.incomeData?.w2Income[0].sourceTransactionIds).toEqual(['t1', 't2']);
+  });
+
+  it('adds donations to itemized deductions without switching the deduction type', () => {
+    const updated = applyTaxPrefillProposal(form, {
+      ...base,
+      id: 'gift',
+      kind: 'charitableContribution',
+      summary: 'Donation to Food Bank',
+      transactionIds: ['t3'],
+      entry: { id: 'gift', organization: 'Food Bank', amount: 100, type: 'cash', dateOfContribution: '2025-12-01', sourceTransactionIds: ['t3'] }
+    });
+
+    expect(updated.deductionsData?.deductionType).toBe('standard');
+    expect(updated.deductionsData?.itemizedDeductions?.charitableContributions.map(c => c.id)).toEqual(['gift']);
+    expect(updated.deductionsData?.itemizedDeductions?.mortgageInterest).toBe(0);
+  });
+
+  it('files business expenses under one business and keeps net profit current', () => {
+    const updated = [expense('e1', 200), expense('e2', 50)].reduce(applyTaxPrefillProposal, form);
+    const businesses = updated.incomeData?.selfEmploymentIncome || [];
+
+    expect(businesses).toHaveLength(1);
+    expect(businesses[0].businessName).toBe('Design Studio');
+    expect(businesses[0].businessExpenses.map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(businesses[0].netProfit).toBe(-250);
+  });
+});
+
+describe('applyTaxPrefillProposal with dividends', () => {
+  it('adds qualified dividends from a 1099-DIV proposal once', () => {
+    const dividends: TaxPrefillProposal = {
+      ...base,
+      id: 'div-proposal',
+      kind: 'form1099Income',
+      summary: '1099-DIV from Acme Corp',
+      transactionIds: [],
+      qualifiedDividends: 25,
+      entry: {
+        id: 'div-proposal',
+        type: '1099-DIV',
+        payer: 'Acme Corp',
+        ein: '',
+        amount: 28,
+        federalTaxWithheld: 0,
+        stateTaxWithheld: 0,
+        description: 'Dividends on ACME'
+      }
+    };
+
+    const twice = applyTaxPrefillProposal(applyTaxPrefillProposal(form, dividends), dividends);
+    expect(twice.incomeData?.form1099Income).toHaveLength(1);
+    expect(twice.incomeData?.capitalGains).toEqual({ shortTermGains: 0, longTermGains: 0, qualifiedDividends: 25 });
+  });
+});
+
+describe('applyForm8949', () => {
+  it('replaces capital gains with the report totals and keeps qualified dividends', () => {
+    const part = { rows: [], totals: { proceeds: 0, costBasis: 0, adjustment: 0, gain: 0 } };
+    const report = { taxYear: 2025, shortTerm: part, longTerm: part, capitalGains: { shortTermGains: -120, longTermGains: 160 } };
+    const withDividends = {
+      ...form,
+      incomeData: { ...form.incomeData!, capitalGains: { shortTermGains: 999, longTermGains: 999, qualifiedDividends: 40 } }
+    };
+
+    expect(applyForm8949(withDividends, report).incomeData?.capitalGains).toEqual({
+      shortTermGains: -120,
+      longTermGains: 160,
+      qualifiedDividends: 40
+    });
+    expect(applyForm8949(form, report).incomeData?.capitalGains?.qualifiedDividends).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DuplicateCandidate,
+  duplicatePairKey,
+  findDuplicates,
+  merchantSimilarity,
+  normalizeMerchant,
+  scoreDuplicate,
+  SyncedDuplicateCandidate
+} from '@shared/transactionDuplicates';
+
+const entry = (overrides: Partial<DuplicateCandidate> = {}): DuplicateCandidate => ({
+  id: 'manual-1',
+  date: '2026-03-10',
+  amount: 18.45,
+  isIncome: false,
+  description: 'Chipotle lunch',
+  accountId: 'card-1',
+  ...overrides
+});
+
+const synced = (overrides: Partial<SyncedDuplicateCandidate> = {}): SyncedDuplicateCandidate => ({
+  id: 'plaid-1',
+  date: '2026-03-11',
+  amount: 18.45,
+  isIncome: false,
+  description: 'CHIPOTLE 1234',
+  merchant: 'Chipotle Mexican Grill',
+  accountId: 'card-1',
+  accountMapped: true,
+  ...overrides
+});
+
+describe('merchantSimilarity', () => {
+  it('ignores store numbers and processor prefixes', () => {
+    expect(normalizeMerchant('SQ *BLUE BOTTLE #0421')).toBe('blue bottle');
+    expect(merchantSimilarity({ description: 'Blue Bottle' }, { description: 'SQ *BLUE BOTTLE #0421' })).toBe(1);
+  });
+
+  it('scores unrelated names low', () => {
+    expect(merchantSimilarity({ description: 'Groceries' }, { description: 'SHELL OIL 5551' })).toBeLessThan(0.2);
+  });
+});
+
+describe('scoreDuplicate', () => {
+  it('scores a same-card entry with the same amount highly', () => {
+    const match = scoreDuplicate(entry(), synced());
+    expect(match?.score).toBeGreaterThan(0.9);
+    expect(match?.reasons).toEqual({ amountDifference: 0, daysApart: 1, merchantSimilarity: 1, sameAccount: true });
+  });
+
+  it('rules out pairs outside the date window, tolerance, direction or account', () => {
+    expect(scoreDuplicate(entry({ date: '2026-03-01' }), synced())).toBeNull();
+    expect(scoreDuplicate(entry({ amount: 30 }), synced())).toBeNull();
+    expect(scoreDuplicate(entry({ isIncome: true }), synced())).toBeNull();
+    expect(scoreDuplicate(entry({ accountId: 'card-2' }), synced())).toBeNull();
+    // An unmapped Plaid account can't be a card that has its own mapping
+    expect(scoreDuplicate(entry(), synced({ accountId: 'plaid-checking', accountMapped: false }), { mappedAccountIds: new Set(['card-1']) }))
+      .toBeNull();
+  });
+
+  it('counts a near amount, like an added tip, for less than an exact one', () => {
+    const exact = scoreDuplicate(entry({ amount: 20 }), synced({ amount: 20 }))!;
+    const tipped = scoreDuplicate(entry({ amount: 20 }), synced({ amount: 23 }))!;
+    expect(tipped.reasons.amountDifference).toBe(3);
+    expect(tipped.score).toBeLessThan(exact.score);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('pairs each transaction once, best match first', () => {
+    const matches = findDuplicates(
+      [entry({ id: 'same-day', date: '2026-03-11' }), entry({ id: 'day-before' })],
+      [synced()]
+    );
+    expect(matches.map(match => match.manualId)).toEqual(['same-day']);
+  });
+
+  it('leaves out dismissed pairs and weak matches', () => {
+    expect(findDuplicates([entry()], [synced()], { dismissed: new Set([duplicatePairKey('manual-1', 'plaid-1')]) })).toEqual([]);
+    expect(findDuplicates([entry({ description: 'Lunch' })], [synced({ date: '2026-03-13', accountMapped: false, accountId: 'plaid-card' })]))
+      .toEqual([]);
+  });
+});
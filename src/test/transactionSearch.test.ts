@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareSearchPositions,
+  matchesSearch,
+  parseSearchQuery,
+  SearchableTransaction,
+  searchPosition
+} from '@shared/transactionSearch';
+
+const transaction = (overrides: Partial<SearchableTransaction> = {}): SearchableTransaction => ({
+  id: 'tx-1',
+  date: '2026-03-14',
+  amount: 64.99,
+  description: 'AMAZON MKTPLACE PMTS',
+  merchant: 'Amazon',
+  notes: 'Standing desk for the home office',
+  tags: ['work'],
+  categories: ['shopping'],
+  accountId: 'card-1',
+  accountName: 'Chase Sapphire',
+  status: 'cleared',
+  source: 'plaid',
+  type: 'expense',
+  ...overrides
+});
+
+const matches = (query: string, overrides: Partial<SearchableTransaction> = {}): boolean => {
+  const { filters, errors } = parseSearchQuery(query);
+  expect(errors).toEqual([]);
+  return matchesSearch(transaction(overrides), filters);
+};
+
+describe('parseSearchQuery', () => {
+  it('reads words, quoted phrases and filters', () => {
+    const { filters, errors } = parseSearchQuery('desk "home office" merchant:amazon tag:work amount>50');
+    expect(errors).toEqual([]);
+    expect(filters.text).toEqual(['desk', 'home office']);
+    expect(filters.merchant).toEqual(['amazon']);
+    expect(filters.tags).toEqual(['work']);
+    expect(filters.minAmount).toBe(50.01);
+  });
+
+  it('turns months and ranges into inclusive dates', () => {
+    expect(parseSearchQuery('date:2024-02').filters).toMatchObject({ startDate: '2024-02-01', endDate: '2024-02-29' });
+    expect(parseSearchQuery('date>2026-01-31 date<2026-03').filters).toMatchObject({ startDate: '2026-02-01', endDate: '2026-02-28' });
+    expect(parseSearchQuery('date:2026-01-01..2026-03').filters).toMatchObject({ startDate: '2026-01-01', endDate: '2026-03-31' });
+  });
+
+  it('keeps the tighter bound when amounts are given twice', () => {
+    const { filters } = parseSearchQuery('amount:10..100 amount<=40 amount>=5');
+    expect(filters).toMatchObject({ minAmount: 10, maxAmount: 40 });
+  });
+
+  it('reports unknown filters and bad values', () => {
+    expect(parseSearchQuery('vendor:amazon').errors[0]).toMatch(/^Unknown filter "vendor"/);
+    expect(parseSearchQuery('status:done').errors).toEqual(['"status:done" must be one of pending, cleared, reconciled']);
+    expect(parseSearchQuery('amount>lots').errors).toEqual(['"amount>lots" needs a positive number']);
+    expect(parseSearchQuery('date:2026-13').errors).toHaveLength(1);
+    expect(parseSearchQuery('tag>work').errors).toHaveLength(1);
+  });
+
+  it('leaves words that only look like filters as text', () => {
+    expect(parseSearchQuery('12:30').filters.text).toEqual(['12:30']);
+  });
+});
+
+describe('matchesSearch', () => {
+  it('matches words against the description, merchant and notes', () => {
+    expect(matches('amazon desk')).toBe(true);
+    expect(matches('amazon chair')).toBe(false);
+  });
+
+  it('compares amounts without their sign, to the cent', () => {
+    expect(matches('amount>64.98', { amount: -64.99 })).toBe(true);
+    expect(matches('amount>64.99')).toBe(false);
+    expect(matches('amount<=64.99')).toBe(true);
+  });
+
+  it('requires every tag but any of the categories, accounts and sources', () => {
+    expect(matches('tag:work tag:travel')).toBe(false);
+    expect(matches('category:food category:shopping')).toBe(true);
+    expect(matches('account:sapphire')).toBe(true);
+    expect(matches('account:card-1 source:manual')).toBe(false);
+  });
+
+  it('matches the category of any split line', () => {
+    expect(matches('category:food', { categories: ['shopping', 'food'] })).toBe(true);
+  });
+});
+
+describe('compareSearchPositions', () => {
+  it('orders newest first and breaks ties by source and ID', () => {
+    const sorted = [
+      transaction({ id: 'a', date: '2026-03-01' }),
+      transaction({ id: 'b', date: '2026-03-14', source: 'manual' }),
+      transaction({ id: 'c', date: '2026-03-14' })
+    ].map(searchPosition).sort(compareSearchPositions);
+    expect(sorted.map(position => position.key)).toEqual(['plaid:c', 'manual:b', 'plaid:a']);
+  });
+});
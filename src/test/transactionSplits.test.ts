@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amountInCategory,
+  SplittableTransaction,
+  splitLineKey,
+  splitLines,
+  splitsError,
+  TransactionSplit
+} from '@shared/transactionSplits';
+
+const costco: TransactionSplit[] = [
+  { amount: 82.14, category: 'food', tags: ['groceries'] },
+  { amount: 41.5, category: 'shopping', tags: ['household'] },
+  { amount: 25, category: 'other', tags: ['gift'] }
+];
+
+const transaction = (overrides: Partial<SplittableTransaction> = {}): SplittableTransaction => ({
+  amount: 148.64,
+  category: 'shopping',
+  tags: ['costco'],
+  ...overrides
+});
+
+describe('splitsError', () => {
+  it('accepts lines that add up to the amount to the cent', () => {
+    expect(splitsError(148.64, costco)).toBeNull();
+    // Floating point sums like 0.1 + 0.2 still match
+    expect(splitsError(0.3, [{ amount: 0.1, category: 'food' }, { amount: 0.2, category: 'other' }])).toBeNull();
+  });
+
+  it('treats an empty list as not split', () => {
+    expect(splitsError(148.64, [])).toBeNull();
+  });
+
+  it('says how far off lines that do not add up are', () => {
+    expect(splitsError(150, costco)).toBe("The lines add up to 148.64, 1.36 short of the transaction's 150.00");
+    expect(splitsError(100, costco)).toBe("The lines add up to 148.64, 48.64 more than the transaction's 100.00");
+  });
+
+  it('rejects a single line, zero amounts, mixed signs and missing categories', () => {
+    expect(splitsError(10, [{ amount: 10, category: 'food' }])).toBe('A split needs at least 2 lines');
+    expect(splitsError(10, [{ amount: 10, category: 'food' }, { amount: 0, category: 'other' }])).toBe('Line 2 needs an amount');
+    expect(splitsError(10, [{ amount: 15, category: 'food' }, { amount: -5, category: 'other' }]))
+      .toBe('Line 2 must have the same sign as the transaction');
+    expect(splitsError(10, [{ amount: 5, category: '' }, { amount: 5, category: 'other' }])).toBe('Line 1 needs a category');
+  });
+
+  it('accepts negative lines for a negative amount', () => {
+    expect(splitsError(-60, [{ amount: -50, category: 'income' }, { amount: -10, category: 'other' }])).toBeNull();
+  });
+});
+
+describe('splitLines', () => {
+  it("gives an unsplit transaction's own fields as one line", () => {
+    expect(splitLines(transaction({ insurancePolicyId: 'policy-1' }))).toEqual([
+      { amount: 148.64, category: 'shopping', tags: ['costco'], insurancePolicyId: 'policy-1' }
+    ]);
+  });
+
+  it("gives a split transaction's lines in place of its own fields", () => {
+    const lines = splitLines(transaction({ splits: costco }));
+    expect(lines.map(line => [line.category, line.amount, line.splitIndex])).toEqual([
+      ['food', 82.14, 0],
+      ['shopping', 41.5, 1],
+      ['other', 25, 2]
+    ]);
+    expect(lines.flatMap(line => line.tags)).not.toContain('costco');
+  });
+});
+
+describe('amountInCategory', () => {
+  it('sums only the lines in the category', () => {
+    expect(amountInCategory(transaction({ splits: costco }), 'shopping')).toBe(41.5);
+    expect(amountInCategory(transaction({ splits: costco }), 'bills')).toBe(0);
+    expect(amountInCategory(transaction(), 'shopping')).toBe(148.64);
+  });
+
+  it('sums every line without a category', () => {
+    expect(amountInCategory(transaction({ splits: costco }))).toBeCloseTo(148.64);
+  });
+});
+
+describe('splitLineKey', () => {
+  it('keys a line by its transaction and index', () => {
+    expect(splitLineKey('tx-1')).toBe('tx-1');
+    expect(splitLineKey('tx-1', 0)).toBe('tx-1#0');
+  });
+});
@@ -0,0 +1,20 @@
+export type AccountExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface AccountExport {
+  id: string;
+  status: AccountExportStatus;
+  requestedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  expiresAt?: string;
+  sizeBytes?: number;
+  signature?: string;
+  counts?: Record<string, number>;
+  error?: string;
+}
+
+export interface AccountDeletionResult {
+  plaidItemsRevoked: number;
+  documentsDeleted: Record<string, number>;
+  filesDeleted: number;
+}
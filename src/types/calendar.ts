@@ -0,0 +1,5 @@
+export interface CalendarFeedInfo {
+  enabled: boolean;
+  createdAt?: string;
+  lastAccessedAt?: string;
+}
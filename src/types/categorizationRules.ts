@@ -0,0 +1,47 @@
+import type { CategorizationField, CategorizationFields, CategorizationRule } from '@shared/categorizationRules';
+
+export type {
+  CategorizationField,
+  CategorizationFields,
+  CategorizationRule,
+  RuleActions,
+  RuleConditions
+} from '@shared/categorizationRules';
+
+export interface StoredCategorizationRule extends CategorizationRule {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id'>;
+
+// What /api/categorization-rules returns
+export interface CategorizationRuleList {
+  rules: StoredCategorizationRule[];
+  builtInRules: CategorizationRule[];
+}
+
+export interface RuleHistoryChange {
+  transactionId: string;
+  source: 'manual' | 'plaid';
+  date: string;
+  description: string;
+  amount: number;
+  before: CategorizationFields;
+  after: CategorizationFields;
+  changed: CategorizationField[];
+  ruleIds: string[];
+}
+
+export interface RuleHistoryPreview {
+  scanned: number;
+  changes: RuleHistoryChange[];
+}
+
+export const CATEGORIZATION_FIELD_LABELS: Record<CategorizationField, string> = {
+  category: 'Category',
+  subcategory: 'Subcategory',
+  tags: 'Tags',
+  incomeSourceId: 'Income source',
+  hidden: 'Hidden'
+};
@@ -0,0 +1,8 @@
+import type { CurrencyInfo } from '@shared/currency';
+
+export type { CurrencyInfo, FxRateTable } from '@shared/currency';
+
+export interface CurrencySettings {
+  baseCurrency: string;
+  supportedCurrencies: CurrencyInfo[];
+}
@@ -1,3 +1,19 @@
+// Relative rather than @shared, because the backend compiles this file too
+import type { CostBasisMethod, LotSelection, StockTransactionType } from '../../shared/taxLots';
+import type { TransactionSplit } from '../../shared/transactionSplits';
+
+export type {
+  CostBasisMethod,
+  LotSelection,
+  StockTransactionType,
+  TaxLot,
+  RealizedGain,
+  Form8949Report,
+  DividendIncomeSummary
+} from '../../shared/taxLots';
+
+export type { TransactionSplit, SplitLine } from '../../shared/transactionSplits';
+
 export interface BaseDocument {
   id: string;
   userId: string;
@@ -20,6 +36,7 @@ export interface TransactionDocument {
 export interface Transaction extends BaseDocument {
   date: string;
   amount: number;
+  currency?: string; // ISO 4217, normally the account's currency; missing means USD
   description: string;
   category: string;
   subcategory?: string;
@@ -50,7 +67,10 @@ export interface Transaction extends BaseDocument {
   plaidTransactionId?: string;
   plaidAccountId?: string;
   bankConnectionId?: string;
-  source?: 'manual' | 'plaid';
+  source?: 'manual' | 'plaid' | 'import';
+  // Statement imports; undoing the import deletes every transaction with its batch ID
+  importBatchId?: string;
+  importFitId?: string; // The bank's transaction ID, used to skip rows already imported
   rewardEarned?: number;
   // Insurance linking fields
   insurancePolicyId?: string;
@@ -58,6 +78,9 @@ export interface Transaction extends BaseDocument {
   insuranceType?: 'premium' | 'claim_payment' | 'deductible' | 'copay' | 'coinsurance';
   // Income source linking
   incomeSourceId?: string;
+  isHidden?: boolean; // Hidden by a categorization rule; left out of reports
+  // Lines that add up to the amount; when present they replace the category, tags and links above
+  splits?: TransactionSplit[];
 }
 
 export interface TransactionCategory {
@@ -99,6 +122,7 @@ export interface BankAccount extends BaseDocument {
   name: string;
   type: string;
   initialBalance: number;
+  currency?: string; // ISO 4217; missing means USD
   accountNumber: string;
   isActive: boolean;
   createdDate: string;
@@ -175,6 +199,7 @@ export interface CreditCard extends BaseDocument {
   type: string;
   limit: number;
   initialBalance: number;
+  currency?: string; // ISO 4217; missing means USD
   dueDate: string;
   interestRate: number;
   isActive: boolean;
@@ -280,16 +305,23 @@ export interface StockHolding extends BaseDocument {
 }
 
 export interface StockTransaction extends BaseDocument {
-  type: 'buy' | 'sell';
+  type: StockTransactionType;
   stockSymbol: string;
   stockName: string;
-  shares: number;
+  shares: number; // Reinvested dividends: the shares bought; corporate actions: 0
   price: number;
   fees: number;
-  totalAmount: number;
+  totalAmount: number; // Dividends: the amount paid
   accountId: string; // Bank account affected
-  transactionId?: string; // Link to regular transaction
+  transactionId?: string; // Link to regular transaction, e.g. the income a cash dividend posted
   date: string;
+  costBasisMethod?: CostBasisMethod; // Sells only
+  lotSelections?: LotSelection[]; // Sells using specific_id
+  reinvested?: boolean; // Dividends only
+  qualified?: boolean; // Dividends only
+  ratio?: number; // Splits: shares after per share before; spin-offs: new shares per share held
+  newSymbol?: string; // Spin-offs and symbol changes
+  basisAllocation?: number; // Spin-offs: fraction of the basis moved to the new shares
 }
 
 export interface Portfolio {
@@ -301,6 +333,33 @@ export interface Portfolio {
   dailyChangePercent: number;
 }
 
+// Served by /api/market-data from the backend's shared quote cache
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  tradingDay: string;
+  provider: string;
+  fetchedAt: string;
+}
+
+export interface DailyClose {
+  symbol: string;
+  date: string;
+  close: number;
+}
+
+export interface StockSearchResult {
+  symbol: string;
+  name: string;
+  type: string;
+  region: string;
+  matchScore: number;
+}
+
 // Insurance Types
 export interface InsurancePolicy {
   id: string;
@@ -0,0 +1,40 @@
+export type NetWorthRange = '1m' | '3m' | '6m' | '1y' | 'ytd' | 'all';
+
+export type NetWorthGranularity = 'daily' | 'weekly' | 'monthly';
+
+export interface NetWorthHistoryPoint {
+  date: string;
+  label: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  bankBalances: number;
+  creditCardBalances: number;
+  portfolioValue: number;
+  change: number | null;
+  changePercent: number | null;
+}
+
+export interface NetWorthHistory {
+  range: NetWorthRange;
+  granularity: NetWorthGranularity;
+  currency: string; // Every amount in the history is in the user's base currency
+  startDate: string;
+  endDate: string;
+  points: NetWorthHistoryPoint[];
+  monthOverMonth: {
+    current: number;
+    previous: number | null;
+    change: number | null;
+    changePercent: number | null;
+  } | null;
+}
+
+export const NET_WORTH_RANGE_LABELS: Record<NetWorthRange, string> = {
+  '1m': 'Last month',
+  '3m': 'Last 3 months',
+  '6m': 'Last 6 months',
+  '1y': 'Last 12 months',
+  ytd: 'Year to date',
+  all: 'All time'
+};
@@ -0,0 +1,27 @@
+import type { PerformanceRange, PortfolioPerformance } from '@shared/portfolioPerformance';
+
+export type {
+  AllocationDriftRow,
+  HoldingContribution,
+  PerformancePoint,
+  PerformanceRange,
+  TargetWeights
+} from '@shared/portfolioPerformance';
+
+// What /api/stocks/performance returns
+export interface PortfolioPerformanceReport extends PortfolioPerformance {
+  range: PerformanceRange | 'custom';
+}
+
+export const PERFORMANCE_RANGE_LABELS: Record<PerformanceRange, string> = {
+  '1m': 'Last month',
+  '3m': 'Last 3 months',
+  '6m': 'Last 6 months',
+  ytd: 'Year to date',
+  '1y': 'Last 12 months',
+  '3y': 'Last 3 years',
+  '5y': 'Last 5 years',
+  all: 'All time'
+};
+
+export { PERFORMANCE_RANGES } from '@shared/portfolioPerformance';
@@ -1,18 +1,7 @@
 import { BaseDocument } from '@/types';
+import type { FrequencyConfig } from '@shared/recurrence';
 
-export type FrequencyType = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
-
-export interface FrequencyConfig {
-  type: FrequencyType;
-  interval: number; // e.g., every 2 weeks, every 3 months
-  dayOfWeek?: number; // 0-6, for weekly
-  dayOfMonth?: number; // 1-31, for monthly
-  weekOfMonth?: number; // 1-4, for "first Monday of month"
-  monthOfYear?: number; // 1-12, for yearly
-  skipWeekends?: boolean;
-  endDate?: string;
-  customDescription?: string; // e.g., "Every 2nd and 4th Friday"
-}
+export type { FrequencyConfig, FrequencyType } from '@shared/recurrence';
 
 export interface RecurringPayment extends BaseDocument {
   name: string;
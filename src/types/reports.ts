@@ -0,0 +1,51 @@
+export type ReportType = 'spending' | 'networth' | 'budget' | 'cashflow';
+
+export type ReportPeriodPreset =
+  | 'current-month'
+  | 'last-month'
+  | 'last-3-months'
+  | 'last-6-months'
+  | 'ytd'
+  | 'last-year'
+  | 'custom';
+
+export type ReportExportFormat = 'json' | 'csv' | 'xlsx' | 'pdf';
+
+export interface ReportPeriod {
+  preset: ReportPeriodPreset;
+  label: string;
+  startDate: string;
+  endDate: string;
+}
+
+// Report metadata as returned by GET /api/reports (the data body is omitted)
+export interface GeneratedReportSummary {
+  id: string;
+  userId: string;
+  type: ReportType;
+  name: string;
+  period: ReportPeriod;
+  currency?: string; // Amounts in the report body are in this currency; missing means USD
+  generatedAt: string;
+  sizeBytes: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GeneratedReport<TData = Record<string, unknown>> extends GeneratedReportSummary {
+  data: TData;
+}
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  spending: 'Spending Analysis',
+  networth: 'Net Worth',
+  budget: 'Budget Analysis',
+  cashflow: 'Cash Flow'
+};
+
+export const REPORT_EXPORT_FORMAT_LABELS: Record<ReportExportFormat, string> = {
+  pdf: 'PDF',
+  xlsx: 'Excel (XLSX)',
+  csv: 'CSV',
+  json: 'JSON'
+};
@@ -0,0 +1,82 @@
+import type {
+  CsvColumnMapping,
+  DuplicateCheck,
+  StatementAccountType,
+  StatementDateFormat,
+  StatementFormat,
+  StatementRow,
+  StatementRowError,
+  StatementTransactionType
+} from '@shared/statementImport';
+
+export type {
+  CsvColumnMapping,
+  CsvDelimiter,
+  DecimalSeparator,
+  DuplicateReason,
+  StatementAccountType,
+  StatementDateFormat,
+  StatementFormat
+} from '@shared/statementImport';
+
+export interface StatementImportRequest {
+  accountId: string;
+  accountType: StatementAccountType;
+  fileName: string;
+  content: string;
+  format?: StatementFormat;
+  mapping?: CsvColumnMapping; // CSV
+  dateFormat?: StatementDateFormat; // QIF
+}
+
+export interface StatementPreviewRow extends StatementRow {
+  type: StatementTransactionType;
+  duplicate: DuplicateCheck | null;
+}
+
+// What /api/statement-imports/preview returns
+export interface StatementPreview {
+  format: StatementFormat;
+  fileName: string;
+  accountId: string;
+  accountType: StatementAccountType;
+  headers?: string[];
+  rows: StatementPreviewRow[];
+  errors: StatementRowError[];
+  newCount: number;
+  duplicateCount: number;
+}
+
+export interface ImportBatch {
+  id: string;
+  accountId: string;
+  accountType: StatementAccountType;
+  format: StatementFormat;
+  fileName: string;
+  importedCount: number;
+  skippedCount: number;
+  errorCount: number;
+  status: 'completed' | 'undone';
+  createdAt: string;
+  undoneAt?: string;
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  qif: 'QIF'
+};
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateCheck['reason'], string> = {
+  fitid: 'Same bank transaction ID',
+  date_amount_description: 'Same date, amount and description',
+  repeated_in_file: 'Repeated in this file'
+};
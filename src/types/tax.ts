@@ -1,4 +1,7 @@
 import { BaseDocument } from './index';
+import type { FilingStatus, TaxEstimate } from '@shared/tax';
+
+export type { FilingStatus, TaxEstimate, TaxYearRules } from '@shared/tax';
 
 export interface PersonalInfo {
   firstName: string;
@@ -44,6 +47,14 @@ export interface IncomeData {
   unemploymentCompensation: number;
   socialSecurityBenefits: number;
   otherIncome: OtherIncome[];
+  capitalGains?: CapitalGains;
+}
+
+// Schedule D totals; long-term gains and qualified dividends are taxed at capital gains rates
+export interface CapitalGains {
+  shortTermGains: number;
+  longTermGains: number;
+  qualifiedDividends: number;
 }
 
 export interface W2Income {
@@ -59,6 +70,8 @@ export interface W2Income {
   stateTaxWithheld: number;
   stateWages: number;
   state: string;
+  sourceTransactionIds?: string[]; // Set when the entry was prefilled from the user's data
+  sourceDocumentIds?: string[];
 }
 
 export interface Form1099Income {
@@ -70,6 +83,8 @@ export interface Form1099Income {
   federalTaxWithheld: number;
   stateTaxWithheld: number;
   description: string;
+  sourceTransactionIds?: string[];
+  sourceDocumentIds?: string[];
 }
 
 export interface SelfEmploymentIncome {
@@ -88,6 +103,7 @@ export interface BusinessExpense {
   description: string;
   amount: number;
   dateIncurred: string;
+  sourceTransactionIds?: string[];
 }
 
 export interface RetirementIncome {
@@ -129,6 +145,7 @@ export interface CharitableContribution {
   type: 'cash' | 'property';
   dateOfContribution: string;
   receiptIds?: string[]; // Array of tax document IDs for receipts
+  sourceTransactionIds?: string[];
 }
 
 export interface Adjustments {
@@ -184,21 +201,48 @@ export interface OtherCredit {
 
 export interface TaxFormData extends BaseDocument {
   taxYear: number;
-  filingStatus: 'single' | 'married_jointly' | 'married_separately' | 'head_of_household' | 'qualifying_widow';
+  filingStatus: FilingStatus;
   personalInfo: PersonalInfo;
   incomeData: IncomeData;
   deductionsData: DeductionsData;
   creditsData: CreditsData;
   status: 'draft' | 'completed' | 'submitted_to_accountant' | 'reviewed' | 'filed';
   lastModified: string;
-  estimatedTax?: {
-    totalTax: number;
-    taxLiability: number;
-    refundAmount: number;
-    effectiveTaxRate: number;
-  };
+  estimatedTax?: TaxEstimate | null; // Null for years the tax engine has no rules for
+  // Sent back with every update; the server rejects saves based on an older version
+  version?: number;
+}
+
+export type TaxPrefillStatus = 'pending' | 'accepted' | 'dismissed';
+
+// Record a prefill proposal was built from
+export interface TaxPrefillSource {
+  type: 'transaction' | 'incomeSource' | 'taxDocument' | 'insurancePolicy' | 'stockTransaction';
+  id: string;
+  label: string;
+  date?: string;
+  amount?: number;
 }
 
+interface TaxPrefillProposalBase {
+  id: string;
+  taxYear: number;
+  summary: string;
+  amount: number;
+  confidence: 'high' | 'medium' | 'low';
+  notes?: string;
+  transactionIds: string[];
+  sources: TaxPrefillSource[];
+  status: TaxPrefillStatus;
+}
+
+// An entry the server proposes adding to the tax form, pending the user's review
+export type TaxPrefillProposal =
+  | (TaxPrefillProposalBase & { kind: 'w2Income'; entry: W2Income })
+  | (TaxPrefillProposalBase & { kind: 'form1099Income'; entry: Form1099Income; qualifiedDividends?: number })
+  | (TaxPrefillProposalBase & { kind: 'charitableContribution'; entry: CharitableContribution })
+  | (TaxPrefillProposalBase & { kind: 'businessExpense'; businessName: string; entry: BusinessExpense });
+
 export interface TaxDocument extends BaseDocument {
   taxFormId: string;
   documentType: 'w2' | '1099' | 'receipt' | 'bank_statement' | 'other';
@@ -209,33 +253,71 @@ export interface TaxDocument extends BaseDocument {
   description: string;
 }
 
+export type AccountantAccessLevel = 'view_only' | 'edit_forms' | 'full_access';
+
 export interface AccountantClientAccess extends BaseDocument {
-  accountantId: string;
+  accountantId?: string; // Set once the invite is accepted
+  accountantEmail: string;
   clientId: string;
-  accessLevel: 'view_only' | 'edit_forms' | 'full_access';
+  clientEmail: string;
+  accessLevel: AccountantAccessLevel;
   accessGranted: string;
   accessExpires: string;
-  taxYears: number[];
-  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  taxYears: number[]; // Empty means every tax year
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'revoked';
   clientApprovalDate?: string;
   notes?: string;
+  inviteExpires?: string;
+}
+
+export interface AccountantInviteResult {
+  access: AccountantClientAccess;
+  inviteUrl: string;
+  emailSent: boolean;
+}
+
+// A client as the accountant portal lists them
+export interface AccountantClient {
+  accessId: string;
+  clientId: string;
+  clientEmail: string;
+  accessLevel: AccountantAccessLevel;
+  accessExpires: string;
+  taxYears: number[];
 }
 
-export interface AccountantNote extends BaseDocument {
+export interface AccountantNote {
+  id: string;
+  userId: string;
   taxFormId: string;
-  accountantId: string;
+  accountantId?: string;
   clientId: string;
+  authorId: string;
+  authorRole: 'client' | 'accountant';
+  parentNoteId?: string; // Replies point at the first note of their thread
   noteText: string;
   category: 'question' | 'recommendation' | 'concern' | 'completion';
   resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
   createdDate: string;
 }
 
-export interface TaxFormHistory extends BaseDocument {
+export interface AccountantNoteThread {
+  note: AccountantNote;
+  replies: AccountantNote[];
+  lastActivity: string;
+}
+
+export interface TaxFormHistory {
+  id: string;
+  userId: string;
   taxFormId: string;
   changeDescription: string;
   changedBy: string; // userId or accountantId
+  changedByRole: 'client' | 'accountant';
   changeDate: string;
+  version: number; // The form version this change produced
   previousData: Partial<TaxFormData>;
   newData: Partial<TaxFormData>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+import type { DuplicateReasons } from '@shared/transactionDuplicates';
+import type { Transaction } from './index';
+
+export type { DuplicateReasons } from '@shared/transactionDuplicates';
+
+// One entry in what /api/transactions/duplicates returns: a manual entry and the synced transaction that looks like it
+export interface DuplicatePair {
+  manual: Transaction;
+  plaid: Transaction;
+  score: number; // 0 to 1
+  reasons: DuplicateReasons;
+}